@@ -214,7 +214,7 @@ async function main() {
       const catName = categoryData.find(c => c.code === catCode)!.name;
 
       await prisma.budgetItem.upsert({
-        where: { code: budgetCode },
+        where: { code_fiscalYear: { code: budgetCode, fiscalYear: 2026 } },
         update: {
           budgetAmount: amount,
           departmentId: dept.id,
@@ -63,6 +63,7 @@ async function main() {
           canManage: true,
           canCreateAmendments: true,
           canTransferFunds: true,
+          canOverrideBudget: true,
           canViewAllCategories: true,
           canManageCategories: true,
           canCloseFiscalYear: true,
@@ -92,6 +93,13 @@ async function main() {
         settings: {
           canManage: true,
         },
+        expenseReports: {
+          canCreate: true,
+          canViewDepartment: true,
+          canViewAll: true,
+          canApprove: true,
+          canExport: true,
+        },
       }),
     },
   });
@@ -134,6 +142,7 @@ async function main() {
           canManage: true,
           canCreateAmendments: true,
           canTransferFunds: true,
+          canOverrideBudget: false,
           canViewAllCategories: true,
           canManageCategories: false,
           canCloseFiscalYear: false,
@@ -163,6 +172,13 @@ async function main() {
         settings: {
           canManage: false,
         },
+        expenseReports: {
+          canCreate: true,
+          canViewDepartment: true,
+          canViewAll: false,
+          canApprove: true,
+          canExport: false,
+        },
       }),
     },
   });
@@ -205,6 +221,7 @@ async function main() {
           canManage: false,
           canCreateAmendments: false,
           canTransferFunds: false,
+          canOverrideBudget: false,
           canViewAllCategories: false,
           canManageCategories: false,
           canCloseFiscalYear: false,
@@ -234,6 +251,13 @@ async function main() {
         settings: {
           canManage: false,
         },
+        expenseReports: {
+          canCreate: true,
+          canViewDepartment: false,
+          canViewAll: false,
+          canApprove: false,
+          canExport: false,
+        },
       }),
     },
   });
@@ -3,17 +3,33 @@
 import { useSession } from 'next-auth/react';
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
+import { getBrowserPosition } from '@/lib/geolocation';
 
 /* ═══════════════════════════════════════════════════════════════════════════
    Types
    ═══════════════════════════════════════════════════════════════════════════ */
 
+interface JobCodeOption {
+  id: string;
+  code: string;
+  name: string;
+}
+
 interface ActiveEntry {
   id: string;
   clockIn: string;
   clockOut: string | null;
   duration: number | null;
   status: string;
+  jobCode: JobCodeOption | null;
+  breaks: { id: string; type: 'MEAL' | 'REST'; startedAt: string }[]; // Open break, if any
+}
+
+interface UpcomingShift {
+  id: string;
+  startsAt: string;
+  endsAt: string;
+  notes: string | null;
 }
 
 interface TodayStats {
@@ -25,6 +41,7 @@ interface PeriodStats {
   totalMinutes: number;
   regularMinutes: number;
   dailyOvertimeMinutes: number;
+  doubleTimeMinutes: number;
   weeklyOvertimeMinutes: number;
   sessionsCompleted: number;
 }
@@ -76,6 +93,19 @@ function formatShortTime(dateStr: string): string {
   return `${h}:${m} ${ampm}`;
 }
 
+function formatShiftDay(dateStr: string): string {
+  const d = new Date(dateStr);
+  const today = new Date();
+  const tomorrow = new Date(today);
+  tomorrow.setDate(today.getDate() + 1);
+  if (d.toDateString() === today.toDateString()) return 'Today';
+  if (d.toDateString() === tomorrow.toDateString()) return 'Tomorrow';
+  return d.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+// Device token of a registered kiosk, kept on the shared device
+const KIOSK_STORAGE_KEY = 'timeclock-kiosk-token';
+
 /* ═══════════════════════════════════════════════════════════════════════════
    Component
    ═══════════════════════════════════════════════════════════════════════════ */
@@ -92,9 +122,29 @@ export default function PunchClockPage() {
   const [punching, setPunching] = useState(false);
   const [punchFlash, setPunchFlash] = useState<'in' | 'out' | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [jobCodes, setJobCodes] = useState<JobCodeOption[]>([]);
+  const [selectedJobCodeId, setSelectedJobCodeId] = useState('');
+  const [switchingJob, setSwitchingJob] = useState(false);
+  const [breakBusy, setBreakBusy] = useState(false);
+  const [upcomingShifts, setUpcomingShifts] = useState<UpcomingShift[]>([]);
+  const [punchLocationRequired, setPunchLocationRequired] = useState(false);
   const buttonRef = useRef<HTMLButtonElement>(null);
+  const [kioskToken, setKioskToken] = useState<string | null>(null);
+  const [kioskChecked, setKioskChecked] = useState(false);
 
   const isClockedIn = !!activeEntry;
+  const openBreak = activeEntry?.breaks?.[0] || null;
+
+  // ── Kiosk mode: a setup link (?kiosk=token) registers this device ──
+  useEffect(() => {
+    const linkToken = new URLSearchParams(window.location.search).get('kiosk');
+    if (linkToken) {
+      localStorage.setItem(KIOSK_STORAGE_KEY, linkToken);
+      window.history.replaceState(null, '', '/clock');
+    }
+    setKioskToken(linkToken || localStorage.getItem(KIOSK_STORAGE_KEY));
+    setKioskChecked(true);
+  }, []);
 
   // ── Tick every second ──
   useEffect(() => {
@@ -111,10 +161,10 @@ export default function PunchClockPage() {
 
   // ── Redirect if not authenticated ──
   useEffect(() => {
-    if (authStatus === 'unauthenticated') {
+    if (kioskChecked && !kioskToken && authStatus === 'unauthenticated') {
       router.push('/auth/signin');
     }
-  }, [authStatus, router]);
+  }, [authStatus, router, kioskChecked, kioskToken]);
 
   // ── Fetch status ──
   const fetchStatus = useCallback(async () => {
@@ -125,6 +175,8 @@ export default function PunchClockPage() {
       setActiveEntry(data.activeEntry || null);
       setTodayStats(data.todayStats || { totalSeconds: 0, sessionsCompleted: 0 });
       setPeriodStats(data.periodStats || null);
+      setUpcomingShifts(data.upcomingShifts || []);
+      setPunchLocationRequired(!!data.punchLocationRequired);
     } catch {
       // silent
     } finally {
@@ -133,8 +185,22 @@ export default function PunchClockPage() {
   }, []);
 
   useEffect(() => {
-    if (authStatus === 'authenticated') fetchStatus();
-  }, [authStatus, fetchStatus]);
+    if (authStatus === 'authenticated' && kioskChecked && !kioskToken) fetchStatus();
+  }, [authStatus, fetchStatus, kioskChecked, kioskToken]);
+
+  // ── Job codes to charge time to (picker hidden when none are set up) ──
+  useEffect(() => {
+    if (authStatus !== 'authenticated' || !kioskChecked || kioskToken) return;
+    fetch('/api/timeclock/job-codes')
+      .then((res) => (res.ok ? res.json() : { jobCodes: [] }))
+      .then((data) => setJobCodes(data.jobCodes || []))
+      .catch(() => {});
+  }, [authStatus, kioskChecked, kioskToken]);
+
+  // Keep the picker on the open shift's job code
+  useEffect(() => {
+    if (activeEntry) setSelectedJobCodeId(activeEntry.jobCode?.id || '');
+  }, [activeEntry]);
 
   // ── Punch handler ──
   const handlePunch = async () => {
@@ -146,8 +212,16 @@ export default function PunchClockPage() {
     if (navigator.vibrate) navigator.vibrate(30);
 
     try {
+      // Departments with work sites check where the punch came from
+      const position = punchLocationRequired ? await getBrowserPosition() : null;
       const endpoint = isClockedIn ? '/api/timeclock/clock-out' : '/api/timeclock/clock-in';
-      const res = await fetch(endpoint, { method: 'POST' });
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          isClockedIn ? { ...position } : { jobCodeId: selectedJobCodeId || null, ...position }
+        ),
+      });
       const data = await res.json();
 
       if (!res.ok) {
@@ -170,6 +244,66 @@ export default function PunchClockPage() {
     }
   };
 
+  // ── Break punches ──
+  const handleBreak = async (type?: 'MEAL' | 'REST') => {
+    if (breakBusy) return;
+    setBreakBusy(true);
+    setError(null);
+
+    try {
+      const position = punchLocationRequired ? await getBrowserPosition() : null;
+      const res = await fetch(type ? '/api/timeclock/break-start' : '/api/timeclock/break-end', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type, ...position }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || 'Something went wrong');
+        return;
+      }
+
+      if (navigator.vibrate) navigator.vibrate(15);
+      await fetchStatus();
+    } catch {
+      setError('Network error — check your connection');
+    } finally {
+      setBreakBusy(false);
+    }
+  };
+
+  // ── Job switch: splits the open shift at the current time ──
+  const handleJobChange = async (jobCodeId: string) => {
+    setSelectedJobCodeId(jobCodeId);
+    if (!isClockedIn || switchingJob) return;
+
+    setSwitchingJob(true);
+    setError(null);
+    try {
+      const position = punchLocationRequired ? await getBrowserPosition() : null;
+      const res = await fetch('/api/timeclock/switch-job', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jobCodeId: jobCodeId || null, ...position }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || 'Could not switch job');
+        setSelectedJobCodeId(activeEntry?.jobCode?.id || '');
+        return;
+      }
+
+      await fetchStatus();
+    } catch {
+      setError('Network error — check your connection');
+      setSelectedJobCodeId(activeEntry?.jobCode?.id || '');
+    } finally {
+      setSwitchingJob(false);
+    }
+  };
+
   // ── Derived values ──
   const time = formatTimeOfDay(now);
   const dateStr = now.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
@@ -181,8 +315,21 @@ export default function PunchClockPage() {
   }
   const elapsed = formatElapsed(elapsedSeconds);
 
+  if (kioskToken) {
+    return (
+      <KioskClock
+        token={kioskToken}
+        now={now}
+        onUnregistered={() => {
+          localStorage.removeItem(KIOSK_STORAGE_KEY);
+          setKioskToken(null);
+        }}
+      />
+    );
+  }
+
   // ── Loading state ──
-  if (authStatus === 'loading' || loading) {
+  if (!kioskChecked || authStatus === 'loading' || loading) {
     return (
       <div className="punch-scene">
         <style>{punchStyles}</style>
@@ -290,11 +437,63 @@ export default function PunchClockPage() {
 
           {/* Status text */}
           <p className="punch-status">
-            {isClockedIn
-              ? `Since ${formatShortTime(activeEntry!.clockIn)}`
-              : 'Ready'}
+            {openBreak
+              ? `On ${openBreak.type === 'MEAL' ? 'meal' : 'rest break'} since ${formatShortTime(openBreak.startedAt)}`
+              : isClockedIn
+                ? `Since ${formatShortTime(activeEntry!.clockIn)}`
+                : 'Ready'}
           </p>
 
+          {/* Break punches — only while clocked in */}
+          {isClockedIn && (
+            <div className="punch-break-actions">
+              {openBreak ? (
+                <button onClick={() => handleBreak()} disabled={breakBusy} className="punch-break-btn punch-break-btn--end">
+                  End {openBreak.type === 'MEAL' ? 'Meal' : 'Break'}
+                </button>
+              ) : (
+                <>
+                  <button onClick={() => handleBreak('MEAL')} disabled={breakBusy} className="punch-break-btn">
+                    Start Meal
+                  </button>
+                  <button onClick={() => handleBreak('REST')} disabled={breakBusy} className="punch-break-btn">
+                    Start Break
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Job code picker — chosen before clock-in, switching mid-shift splits the entry */}
+          {jobCodes.length > 0 && (
+            <select
+              value={selectedJobCodeId}
+              onChange={(e) => handleJobChange(e.target.value)}
+              disabled={punching || switchingJob || !!openBreak}
+              className="punch-job-select"
+              aria-label={isClockedIn ? 'Switch job code' : 'Job code for this shift'}
+            >
+              <option value="">No job code</option>
+              {jobCodes.map((jobCode) => (
+                <option key={jobCode.id} value={jobCode.id}>
+                  {jobCode.code} — {jobCode.name}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {/* Upcoming scheduled shifts */}
+          {upcomingShifts.length > 0 && (
+            <ul className="punch-schedule" aria-label="Upcoming shifts">
+              {upcomingShifts.slice(0, 3).map((shift) => (
+                <li key={shift.id} title={shift.notes || undefined}>
+                  <span className="punch-schedule-day">{formatShiftDay(shift.startsAt)}</span>
+                  {formatShortTime(shift.startsAt)} – {formatShortTime(shift.endsAt)}
+                </li>
+              ))}
+            </ul>
+          )}
+
           {/* Error / Success toast */}
           {error && (
             <div className="punch-toast punch-toast--error animate-fade-in-up">
@@ -338,6 +537,244 @@ export default function PunchClockPage() {
   );
 }
 
+/* ═══════════════════════════════════════════════════════════════════════════
+   Kiosk — shared device, employees identify by badge and/or PIN
+   ═══════════════════════════════════════════════════════════════════════════ */
+
+interface KioskInfo {
+  id: string;
+  name: string;
+  identificationMode: 'BADGE' | 'PIN' | 'BADGE_AND_PIN';
+}
+
+// How long a punch result stays on screen before the kiosk resets
+const KIOSK_RESULT_MS = 4000;
+
+function KioskClock({
+  token,
+  now,
+  onUnregistered,
+}: {
+  token: string;
+  now: Date;
+  onUnregistered: () => void;
+}) {
+  const [kiosk, setKiosk] = useState<KioskInfo | null>(null);
+  const [kioskError, setKioskError] = useState<string | null>(null);
+  const [badgeNumber, setBadgeNumber] = useState('');
+  const [pin, setPin] = useState('');
+  const [step, setStep] = useState<'badge' | 'pin'>('badge');
+  const [punching, setPunching] = useState(false);
+  const [result, setResult] = useState<{ action: 'in' | 'out'; name: string; duration: number | null } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const badgeRef = useRef<HTMLInputElement>(null);
+  const resetTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    const checkKiosk = async () => {
+      try {
+        const res = await fetch('/api/timeclock/kiosk', { headers: { 'X-Kiosk-Token': token } });
+        const data = await res.json();
+        if (res.status === 401) {
+          setKioskError(data.error || 'This device is not a registered kiosk');
+          return;
+        }
+        if (!res.ok) {
+          setKioskError(data.error || 'Kiosk unavailable');
+          return;
+        }
+        setKiosk(data.kiosk);
+        setStep(data.kiosk.identificationMode === 'PIN' ? 'pin' : 'badge');
+      } catch {
+        setKioskError('Network error — check your connection');
+      }
+    };
+    checkKiosk();
+  }, [token]);
+
+  useEffect(() => {
+    return () => {
+      if (resetTimer.current) clearTimeout(resetTimer.current);
+    };
+  }, []);
+
+  // Keep the badge field focused so scanners can type into it
+  useEffect(() => {
+    if (step === 'badge' && !result) badgeRef.current?.focus();
+  }, [step, result, kiosk]);
+
+  const reset = useCallback(() => {
+    setBadgeNumber('');
+    setPin('');
+    setStep(kiosk?.identificationMode === 'PIN' ? 'pin' : 'badge');
+  }, [kiosk]);
+
+  const showFor = (ms: number, clear: () => void) => {
+    if (resetTimer.current) clearTimeout(resetTimer.current);
+    resetTimer.current = setTimeout(clear, ms);
+  };
+
+  const punch = async (badge: string, pinValue: string) => {
+    if (punching) return;
+    setPunching(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      // Who is punching isn't known yet, so share the kiosk's position whenever the browser allows it
+      const position = await getBrowserPosition(3000);
+      const res = await fetch('/api/timeclock/kiosk/punch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Kiosk-Token': token },
+        body: JSON.stringify({ badgeNumber: badge || undefined, pin: pinValue || undefined, ...position }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || 'Something went wrong');
+        if (navigator.vibrate) navigator.vibrate([50, 30, 50]);
+        showFor(KIOSK_RESULT_MS, () => setError(null));
+        return;
+      }
+
+      setResult({ action: data.action, name: data.employee.name, duration: data.entry.duration });
+      if (navigator.vibrate) navigator.vibrate([15, 40, 15]);
+      showFor(KIOSK_RESULT_MS, () => setResult(null));
+    } catch {
+      setError('Network error — check your connection');
+      showFor(KIOSK_RESULT_MS, () => setError(null));
+    } finally {
+      setPunching(false);
+      reset();
+    }
+  };
+
+  const handleBadgeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!badgeNumber.trim()) return;
+    if (kiosk?.identificationMode === 'BADGE_AND_PIN') {
+      setStep('pin');
+      return;
+    }
+    punch(badgeNumber.trim(), '');
+  };
+
+  const handleKey = (key: string) => {
+    if (punching) return;
+    if (key === 'clear') {
+      setPin('');
+      return;
+    }
+    if (key === 'enter') {
+      if (pin.length < 4) return;
+      punch(badgeNumber.trim(), pin);
+      return;
+    }
+    if (pin.length < 8) setPin(pin + key);
+  };
+
+  const time = formatTimeOfDay(now);
+  const dateStr = now.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+
+  return (
+    <div className="punch-scene">
+      <style>{punchStyles}</style>
+      <div className="punch-body">
+        <header className="punch-header animate-fade-in">
+          <div>
+            <p className="punch-greeting">{kiosk?.name || 'Time Clock'}</p>
+            <p className="punch-date">{dateStr}</p>
+          </div>
+        </header>
+
+        <main className="punch-center">
+          <div className="punch-clock-display">
+            <span className="punch-clock-h">{time.h}</span>
+            <span className="punch-clock-sep">:</span>
+            <span className="punch-clock-m">{time.m}</span>
+            <span className="punch-clock-sep punch-clock-sep--dim">:</span>
+            <span className="punch-clock-s">{time.s}</span>
+            <span className="punch-clock-ampm">{time.ampm}</span>
+          </div>
+
+          {kioskError ? (
+            <div className="kiosk-panel">
+              <p className="punch-status">{kioskError}</p>
+              <button type="button" onClick={onUnregistered} className="kiosk-link">
+                Sign in instead
+              </button>
+            </div>
+          ) : !kiosk ? (
+            <div className="punch-loader" />
+          ) : result ? (
+            <div className={`kiosk-result kiosk-result--${result.action} animate-fade-in-up`}>
+              <p className="kiosk-result-title">
+                {result.action === 'in' ? 'Clocked in' : 'Clocked out'}
+              </p>
+              <p className="kiosk-result-name">{result.name}</p>
+              {result.action === 'out' && result.duration !== null && (
+                <p className="punch-status">{formatSecondsToHM(result.duration)} this shift</p>
+              )}
+            </div>
+          ) : step === 'badge' ? (
+            <form onSubmit={handleBadgeSubmit} className="kiosk-panel">
+              <label htmlFor="kiosk-badge" className="punch-status">Scan or type your badge number</label>
+              <input
+                id="kiosk-badge"
+                ref={badgeRef}
+                value={badgeNumber}
+                onChange={(e) => setBadgeNumber(e.target.value)}
+                className="kiosk-input"
+                autoComplete="off"
+                autoCapitalize="characters"
+                disabled={punching}
+              />
+              <button type="submit" className="kiosk-submit" disabled={punching || !badgeNumber.trim()}>
+                {punching ? <div className="punch-btn-spinner" /> : 'Continue'}
+              </button>
+            </form>
+          ) : (
+            <div className="kiosk-panel">
+              <p className="punch-status">Enter your PIN</p>
+              <div className="kiosk-pin-dots" aria-label={`${pin.length} digits entered`}>
+                {Array.from({ length: Math.max(4, pin.length) }).map((_, i) => (
+                  <span key={i} className={`kiosk-pin-dot ${i < pin.length ? 'kiosk-pin-dot--filled' : ''}`} />
+                ))}
+              </div>
+              <div className="kiosk-keypad">
+                {['1', '2', '3', '4', '5', '6', '7', '8', '9', 'clear', '0', 'enter'].map((key) => (
+                  <button
+                    key={key}
+                    type="button"
+                    onClick={() => handleKey(key)}
+                    disabled={punching}
+                    className={`kiosk-key ${key === 'enter' ? 'kiosk-key--enter' : ''}`}
+                    aria-label={key === 'clear' ? 'Clear' : key === 'enter' ? 'Submit PIN' : key}
+                  >
+                    {key === 'clear' ? 'C' : key === 'enter' ? (punching ? '…' : 'OK') : key}
+                  </button>
+                ))}
+              </div>
+              {kiosk.identificationMode === 'BADGE_AND_PIN' && (
+                <button type="button" onClick={reset} className="kiosk-link">
+                  Cancel
+                </button>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="punch-toast punch-toast--error animate-fade-in-up">
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><circle cx="12" cy="12" r="10"/><line x1="15" y1="9" x2="9" y2="15"/><line x1="9" y1="9" x2="15" y2="15"/></svg>
+              {error}
+            </div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
+
 /* ═══════════════════════════════════════════════════════════════════════════
    Styles — scoped to this page
    ═══════════════════════════════════════════════════════════════════════════ */
@@ -645,6 +1082,72 @@ const punchStyles = `
   margin-top: 0.25rem;
 }
 
+/* ── Break punches ── */
+.punch-break-actions {
+  display: flex;
+  gap: 0.5rem;
+  margin-top: 0.75rem;
+}
+
+.punch-break-btn {
+  padding: 0.4375rem 0.875rem;
+  border-radius: 99px;
+  border: 1px solid var(--border-default, #2a2d38);
+  background: transparent;
+  color: var(--text-secondary, #a1a1aa);
+  font-size: 0.75rem;
+  font-weight: 600;
+  letter-spacing: 0.02em;
+  cursor: pointer;
+}
+
+.punch-break-btn--end {
+  border-color: rgba(245, 158, 11, 0.4);
+  color: #fbbf24;
+}
+
+.punch-break-btn:disabled {
+  opacity: 0.5;
+  cursor: default;
+}
+
+/* ── Job code picker ── */
+.punch-job-select {
+  margin-top: 0.75rem;
+  max-width: 280px;
+  width: 100%;
+  padding: 0.5rem 0.875rem;
+  border-radius: 99px;
+  border: 1px solid var(--border-default, #2a2d38);
+  background: var(--bg-surface, #1a1d26);
+  color: var(--text-secondary, #a1a1aa);
+  font-size: 0.8125rem;
+  text-align: center;
+}
+
+.punch-job-select:disabled {
+  opacity: 0.5;
+}
+
+/* ── Upcoming shifts ── */
+.punch-schedule {
+  list-style: none;
+  margin: 0.75rem 0 0;
+  padding: 0;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  gap: 0.25rem;
+  font-size: 0.75rem;
+  color: var(--text-muted, #71717a);
+}
+
+.punch-schedule-day {
+  font-weight: 600;
+  color: var(--text-secondary, #a1a1aa);
+  margin-right: 0.375rem;
+}
+
 /* ── Toast ── */
 .punch-toast {
   display: flex;
@@ -748,4 +1251,135 @@ const punchStyles = `
   border-radius: 50%;
   animation: spin 0.8s linear infinite;
 }
+
+/* ── Kiosk ── */
+.kiosk-panel {
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  gap: 0.75rem;
+  width: 100%;
+  max-width: 320px;
+  margin-top: 1.5rem;
+}
+
+.kiosk-input {
+  width: 100%;
+  padding: 0.875rem 1rem;
+  border-radius: 12px;
+  border: 1px solid var(--border-default, #2a2d38);
+  background: var(--bg-surface, #1a1d26);
+  color: var(--text-primary, #f4f4f5);
+  font-family: var(--font-mono), monospace;
+  font-size: 1.5rem;
+  text-align: center;
+  letter-spacing: 0.1em;
+}
+
+.kiosk-submit,
+.kiosk-key--enter {
+  background: linear-gradient(145deg, #10b981 0%, #059669 100%);
+  color: rgba(0, 0, 0, 0.85);
+  font-weight: 700;
+}
+
+.kiosk-submit {
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  width: 100%;
+  min-height: 3.25rem;
+  border: none;
+  border-radius: 12px;
+  letter-spacing: 0.08em;
+  cursor: pointer;
+}
+
+.kiosk-submit:disabled {
+  opacity: 0.5;
+  cursor: default;
+}
+
+.kiosk-pin-dots {
+  display: flex;
+  gap: 0.75rem;
+  min-height: 1rem;
+}
+
+.kiosk-pin-dot {
+  width: 14px;
+  height: 14px;
+  border-radius: 50%;
+  border: 2px solid var(--text-muted, #71717a);
+}
+
+.kiosk-pin-dot--filled {
+  background: var(--text-primary, #f4f4f5);
+  border-color: var(--text-primary, #f4f4f5);
+}
+
+.kiosk-keypad {
+  display: grid;
+  grid-template-columns: repeat(3, 1fr);
+  gap: 0.75rem;
+  width: 100%;
+}
+
+.kiosk-key {
+  height: 4rem;
+  border: 1px solid var(--border-subtle, #1f2129);
+  border-radius: 14px;
+  background: var(--bg-surface, #1a1d26);
+  color: var(--text-primary, #f4f4f5);
+  font-family: var(--font-mono), monospace;
+  font-size: 1.5rem;
+  cursor: pointer;
+  -webkit-tap-highlight-color: transparent;
+  touch-action: manipulation;
+}
+
+.kiosk-key:active:not(:disabled) {
+  transform: scale(0.95);
+}
+
+.kiosk-link {
+  background: none;
+  border: none;
+  color: var(--text-muted, #71717a);
+  font-size: 0.8125rem;
+  text-decoration: underline;
+  cursor: pointer;
+}
+
+.kiosk-result {
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  gap: 0.25rem;
+  margin-top: 2rem;
+  padding: 1.5rem 2rem;
+  border-radius: 20px;
+}
+
+.kiosk-result--in {
+  background: rgba(16, 185, 129, 0.12);
+  border: 1px solid rgba(16, 185, 129, 0.2);
+  color: #34d399;
+}
+
+.kiosk-result--out {
+  background: rgba(245, 158, 11, 0.12);
+  border: 1px solid rgba(245, 158, 11, 0.2);
+  color: #fbbf24;
+}
+
+.kiosk-result-title {
+  font-size: 1.5rem;
+  font-weight: 700;
+}
+
+.kiosk-result-name {
+  font-size: 1.125rem;
+  color: var(--text-primary, #f4f4f5);
+}
 `;
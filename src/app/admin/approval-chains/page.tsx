@@ -0,0 +1,510 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useState, useEffect } from 'react';
+
+type ApproverType = 'DEPARTMENT_MANAGER' | 'ROLE' | 'USER';
+
+type ChainStep = {
+  id?: string;
+  name: string;
+  minAmount: number;
+  approverType: ApproverType;
+  approverRoleId: string | null;
+  approverUserId: string | null;
+  approverRole?: { id: string; name: string } | null;
+  approverUser?: { id: string; name: string; email: string } | null;
+};
+
+type ApprovalChain = {
+  id: string;
+  name: string;
+  description: string | null;
+  departmentId: string | null;
+  department: { id: string; name: string } | null;
+  budgetCategoryId: string | null;
+  budgetCategory: { id: string; code: string; name: string } | null;
+  isActive: boolean;
+  steps: ChainStep[];
+};
+
+type Option = { id: string; name: string; code?: string };
+
+const approverTypeLabels: Record<ApproverType, string> = {
+  DEPARTMENT_MANAGER: 'Department Manager',
+  ROLE: 'Role',
+  USER: 'Specific User',
+};
+
+const emptyStep = (): ChainStep => ({
+  name: '',
+  minAmount: 0,
+  approverType: 'DEPARTMENT_MANAGER',
+  approverRoleId: null,
+  approverUserId: null,
+});
+
+export default function ApprovalChainsPage() {
+  const { status } = useSession();
+  const router = useRouter();
+
+  const [chains, setChains] = useState<ApprovalChain[]>([]);
+  const [departments, setDepartments] = useState<Option[]>([]);
+  const [categories, setCategories] = useState<Option[]>([]);
+  const [roles, setRoles] = useState<Option[]>([]);
+  const [users, setUsers] = useState<Option[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingChain, setEditingChain] = useState<ApprovalChain | null>(null);
+  const [formData, setFormData] = useState({
+    name: '',
+    description: '',
+    departmentId: '',
+    budgetCategoryId: '',
+    isActive: true,
+    steps: [emptyStep()],
+  });
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchData();
+    }
+  }, [status]);
+
+  const fetchData = async () => {
+    try {
+      const [chainsRes, departmentsRes, categoriesRes, rolesRes, usersRes] = await Promise.all([
+        fetch('/api/approval-chains'),
+        fetch('/api/departments'),
+        fetch('/api/budget-categories'),
+        fetch('/api/roles'),
+        fetch('/api/users?limit=100'),
+      ]);
+
+      if (chainsRes.status === 403) {
+        router.push('/');
+        return;
+      }
+
+      const chainsData = await chainsRes.json();
+      const departmentsData = await departmentsRes.json();
+      const categoriesData = await categoriesRes.json();
+      const rolesData = await rolesRes.json();
+      const usersData = await usersRes.json();
+
+      setChains(chainsData.chains || []);
+      setDepartments(departmentsData.departments || []);
+      setCategories(categoriesData.categories || []);
+      setRoles(rolesData.roles || []);
+      setUsers(usersData.users || []);
+    } catch (error) {
+      console.error('Error fetching approval chains:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openModal = (chain?: ApprovalChain) => {
+    if (chain) {
+      setEditingChain(chain);
+      setFormData({
+        name: chain.name,
+        description: chain.description || '',
+        departmentId: chain.departmentId || '',
+        budgetCategoryId: chain.budgetCategoryId || '',
+        isActive: chain.isActive,
+        steps: chain.steps.map((step) => ({
+          name: step.name,
+          minAmount: step.minAmount,
+          approverType: step.approverType,
+          approverRoleId: step.approverRoleId,
+          approverUserId: step.approverUserId,
+        })),
+      });
+    } else {
+      setEditingChain(null);
+      setFormData({
+        name: '',
+        description: '',
+        departmentId: '',
+        budgetCategoryId: '',
+        isActive: true,
+        steps: [emptyStep()],
+      });
+    }
+    setShowModal(true);
+  };
+
+  const updateStep = (index: number, changes: Partial<ChainStep>) => {
+    setFormData({
+      ...formData,
+      steps: formData.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+    });
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= formData.steps.length) return;
+    const steps = [...formData.steps];
+    [steps[index], steps[target]] = [steps[target], steps[index]];
+    setFormData({ ...formData, steps });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const url = editingChain ? `/api/approval-chains/${editingChain.id}` : '/api/approval-chains';
+    const method = editingChain ? 'PUT' : 'POST';
+
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...formData,
+          departmentId: formData.departmentId || null,
+          budgetCategoryId: formData.budgetCategoryId || null,
+        }),
+      });
+
+      if (res.ok) {
+        setShowModal(false);
+        fetchData();
+      } else {
+        const error = await res.json();
+        alert(error.error || 'Failed to save approval chain');
+      }
+    } catch (error) {
+      console.error('Error saving approval chain:', error);
+      alert('Failed to save approval chain');
+    }
+  };
+
+  const handleDelete = async (chain: ApprovalChain) => {
+    if (!confirm(`Delete approval chain "${chain.name}"? Purchase orders already in approval keep their steps.`)) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/approval-chains/${chain.id}`, { method: 'DELETE' });
+      if (res.ok) {
+        fetchData();
+      } else {
+        const error = await res.json();
+        alert(error.error || 'Failed to delete approval chain');
+      }
+    } catch (error) {
+      console.error('Error deleting approval chain:', error);
+      alert('Failed to delete approval chain');
+    }
+  };
+
+  const describeApprover = (step: ChainStep) => {
+    if (step.approverType === 'ROLE') return `Role: ${step.approverRole?.name || '-'}`;
+    if (step.approverType === 'USER') return `User: ${step.approverUser?.name || '-'}`;
+    return approverTypeLabels.DEPARTMENT_MANAGER;
+  };
+
+  if (loading) {
+    return (
+      <main className="min-h-screen">
+        <div className="max-w-7xl mx-auto px-4 py-8">
+          <div className="text-center text-[var(--text-secondary)]">Loading...</div>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen">
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="page-title mb-2">PO Approval Chains</h1>
+            <p className="text-[var(--text-secondary)]">
+              Configure who signs off purchase orders, by department, budget category and amount
+            </p>
+          </div>
+          <button onClick={() => openModal()} className="btn btn-primary">
+            + Add Chain
+          </button>
+        </div>
+
+        <div className="mb-6 rounded-[var(--radius-lg)] border border-[var(--border-default)] bg-[var(--bg-tertiary)] px-4 py-3 text-sm text-[var(--text-secondary)]">
+          The most specific active chain is used: department and category, then department only, then
+          category only, then a chain with no scope. Purchase orders with no matching chain use single-step
+          approval.
+        </div>
+
+        {chains.length === 0 ? (
+          <div className="card">
+            <div className="empty-state">
+              <p className="empty-state-title">No approval chains configured</p>
+              <p className="empty-state-description">Create a chain to require multi-level sign-off.</p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {chains.map((chain) => (
+              <div key={chain.id} className="card p-6">
+                <div className="flex justify-between items-start mb-4">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h2 className="section-title">{chain.name}</h2>
+                      {chain.isActive ? (
+                        <span className="badge badge-success">Active</span>
+                      ) : (
+                        <span className="badge badge-neutral">Inactive</span>
+                      )}
+                    </div>
+                    {chain.description && (
+                      <p className="text-sm text-[var(--text-secondary)] mt-1">{chain.description}</p>
+                    )}
+                    <p className="text-sm text-[var(--text-muted)] mt-1">
+                      Department: {chain.department?.name || 'Any'} &middot; Category:{' '}
+                      {chain.budgetCategory ? `${chain.budgetCategory.code} - ${chain.budgetCategory.name}` : 'Any'}
+                    </p>
+                  </div>
+                  <div className="space-x-2 text-sm">
+                    <button
+                      onClick={() => openModal(chain)}
+                      className="text-[var(--accent-primary)] hover:text-[var(--accent-primary-hover)]"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(chain)}
+                      className="text-[var(--error)] hover:text-[var(--error)]"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+                <ol className="space-y-2">
+                  {chain.steps.map((step, index) => (
+                    <li key={step.id || index} className="flex justify-between text-sm border-l-2 border-[var(--border-default)] pl-3">
+                      <span className="text-[var(--text-primary)]">
+                        {index + 1}. {step.name}{' '}
+                        <span className="text-[var(--text-muted)]">({describeApprover(step)})</span>
+                      </span>
+                      <span className="text-[var(--text-secondary)]">
+                        {step.minAmount > 0 ? `Over $${step.minAmount.toFixed(2)}` : 'Always'}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Modal */}
+        {showModal && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="card w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+              <div className="border-b border-[var(--border-default)] px-6 py-4">
+                <h2 className="text-2xl font-bold text-[var(--text-primary)]">
+                  {editingChain ? 'Edit Approval Chain' : 'Add Approval Chain'}
+                </h2>
+              </div>
+
+              <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="form-label">Name *</label>
+                    <input
+                      type="text"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                      required
+                      className="form-input w-full"
+                    />
+                  </div>
+                  <div className="flex items-end">
+                    <label className="flex items-center gap-2 text-sm text-[var(--text-primary)]">
+                      <input
+                        type="checkbox"
+                        checked={formData.isActive}
+                        onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                      />
+                      Active
+                    </label>
+                  </div>
+                  <div>
+                    <label className="form-label">Department</label>
+                    <select
+                      value={formData.departmentId}
+                      onChange={(e) => setFormData({ ...formData, departmentId: e.target.value })}
+                      className="form-input form-select w-full"
+                    >
+                      <option value="">Any department</option>
+                      {departments.map((dept) => (
+                        <option key={dept.id} value={dept.id}>{dept.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="form-label">Budget Category</label>
+                    <select
+                      value={formData.budgetCategoryId}
+                      onChange={(e) => setFormData({ ...formData, budgetCategoryId: e.target.value })}
+                      className="form-input form-select w-full"
+                    >
+                      <option value="">Any category</option>
+                      {categories.map((cat) => (
+                        <option key={cat.id} value={cat.id}>{cat.code} - {cat.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="form-label">Description</label>
+                    <textarea
+                      value={formData.description}
+                      onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                      rows={2}
+                      className="form-input w-full"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex justify-between items-center mb-2">
+                    <label className="form-label mb-0">Steps (in sign-off order)</label>
+                    <button
+                      type="button"
+                      onClick={() => setFormData({ ...formData, steps: [...formData.steps, emptyStep()] })}
+                      className="btn btn-secondary btn-sm"
+                    >
+                      + Add Step
+                    </button>
+                  </div>
+                  <div className="space-y-3">
+                    {formData.steps.map((step, index) => (
+                      <div key={index} className="border border-[var(--border-default)] rounded-lg p-3">
+                        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                          <div>
+                            <label className="form-label">Step Name *</label>
+                            <input
+                              type="text"
+                              value={step.name}
+                              onChange={(e) => updateStep(index, { name: e.target.value })}
+                              placeholder="e.g., Finance"
+                              required
+                              className="form-input w-full"
+                            />
+                          </div>
+                          <div>
+                            <label className="form-label">Required Above ($)</label>
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={step.minAmount}
+                              onChange={(e) => updateStep(index, { minAmount: parseFloat(e.target.value) || 0 })}
+                              className="form-input w-full"
+                            />
+                          </div>
+                          <div>
+                            <label className="form-label">Approver</label>
+                            <select
+                              value={step.approverType}
+                              onChange={(e) =>
+                                updateStep(index, {
+                                  approverType: e.target.value as ApproverType,
+                                  approverRoleId: null,
+                                  approverUserId: null,
+                                })
+                              }
+                              className="form-input form-select w-full"
+                            >
+                              {Object.entries(approverTypeLabels).map(([value, label]) => (
+                                <option key={value} value={value}>{label}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div>
+                            {step.approverType === 'ROLE' && (
+                              <>
+                                <label className="form-label">Role *</label>
+                                <select
+                                  value={step.approverRoleId || ''}
+                                  onChange={(e) => updateStep(index, { approverRoleId: e.target.value || null })}
+                                  required
+                                  className="form-input form-select w-full"
+                                >
+                                  <option value="">Select role</option>
+                                  {roles.map((role) => (
+                                    <option key={role.id} value={role.id}>{role.name}</option>
+                                  ))}
+                                </select>
+                              </>
+                            )}
+                            {step.approverType === 'USER' && (
+                              <>
+                                <label className="form-label">User *</label>
+                                <select
+                                  value={step.approverUserId || ''}
+                                  onChange={(e) => updateStep(index, { approverUserId: e.target.value || null })}
+                                  required
+                                  className="form-input form-select w-full"
+                                >
+                                  <option value="">Select user</option>
+                                  {users.map((u) => (
+                                    <option key={u.id} value={u.id}>{u.name}</option>
+                                  ))}
+                                </select>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex justify-end gap-3 mt-2 text-sm">
+                          <button
+                            type="button"
+                            onClick={() => moveStep(index, -1)}
+                            disabled={index === 0}
+                            className="text-[var(--accent-primary)] disabled:opacity-40"
+                          >
+                            Move Up
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => moveStep(index, 1)}
+                            disabled={index === formData.steps.length - 1}
+                            className="text-[var(--accent-primary)] disabled:opacity-40"
+                          >
+                            Move Down
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() =>
+                              setFormData({ ...formData, steps: formData.steps.filter((_, i) => i !== index) })
+                            }
+                            disabled={formData.steps.length === 1}
+                            className="text-[var(--error)] disabled:opacity-40"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex justify-end gap-3 pt-4">
+                  <button type="button" onClick={() => setShowModal(false)} className="btn btn-secondary">
+                    Cancel
+                  </button>
+                  <button type="submit" className="btn btn-primary">
+                    {editingChain ? 'Update' : 'Create'}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -20,6 +20,7 @@ interface Amendment {
   fiscalYear: number;
   previousAmount: number;
   newAmount: number;
+  exceedsTarget: boolean;
   createdAt: string;
   budgetItem: { id: string; code: string; description: string | null };
   createdBy: { id: string; name: string; email: string };
@@ -130,11 +131,15 @@ export default function BudgetAmendmentsPage() {
         body: JSON.stringify(payload),
       });
 
+      const data = await res.json();
       if (!res.ok) {
-        const data = await res.json();
         throw new Error(data.error || 'Failed to create amendment');
       }
 
+      if (data.warnings?.length > 0) {
+        alert(`Amendment saved with warnings:\n\n${data.warnings.join('\n')}`);
+      }
+
       await fetchAmendments();
       setShowModal(false);
       resetForm();
@@ -269,9 +274,14 @@ export default function BudgetAmendmentsPage() {
                   </p>
                 )}
               </div>
-              <span className={`badge ${getTypeColor(amendment.type)}`}>
-                {getTypeIcon(amendment.type)} {amendment.type.replace('_', ' ')}
-              </span>
+              <div className="flex flex-col items-end gap-1">
+                <span className={`badge ${getTypeColor(amendment.type)}`}>
+                  {getTypeIcon(amendment.type)} {amendment.type.replace('_', ' ')}
+                </span>
+                {amendment.exceedsTarget && (
+                  <span className="badge badge-warning">Over target</span>
+                )}
+              </div>
             </div>
             <div className="space-y-2 text-sm mb-4">
               <div className="flex justify-between">
@@ -355,6 +365,9 @@ export default function BudgetAmendmentsPage() {
                   <span className={`badge ${getTypeColor(amendment.type)}`}>
                     {getTypeIcon(amendment.type)} {amendment.type.replace('_', ' ')}
                   </span>
+                  {amendment.exceedsTarget && (
+                    <span className="badge badge-warning ml-2">Over target</span>
+                  )}
                 </td>
                 <td className="px-6 py-4 text-sm">
                   <div className="font-medium">{amendment.budgetItem.code}</div>
@@ -11,12 +11,19 @@ interface BudgetCategory {
   description: string | null;
   parentId: string | null;
   glAccountCode: string | null;
+  overdraftPolicy: string | null;
   isActive: boolean;
   parent: { id: string; code: string; name: string } | null;
   children: { id: string; code: string; name: string; isActive: boolean }[];
   _count: { budgetItems: number };
 }
 
+const OVERDRAFT_POLICY_LABELS: Record<string, string> = {
+  WARN: 'Warn only',
+  BLOCK: 'Block',
+  OVERRIDE: 'Require override',
+};
+
 export default function BudgetCategoriesPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -31,6 +38,7 @@ export default function BudgetCategoriesPage() {
     description: '',
     parentId: '',
     glAccountCode: '',
+    overdraftPolicy: '',
     isActive: true,
   });
 
@@ -80,6 +88,7 @@ export default function BudgetCategoriesPage() {
           ...formData,
           parentId: formData.parentId || null,
           glAccountCode: formData.glAccountCode || null,
+          overdraftPolicy: formData.overdraftPolicy || null,
           description: formData.description || null,
         }),
       });
@@ -104,6 +113,7 @@ export default function BudgetCategoriesPage() {
       description: category.description || '',
       parentId: category.parentId || '',
       glAccountCode: category.glAccountCode || '',
+      overdraftPolicy: category.overdraftPolicy || '',
       isActive: category.isActive,
     });
     setShowForm(true);
@@ -135,6 +145,7 @@ export default function BudgetCategoriesPage() {
       description: '',
       parentId: '',
       glAccountCode: '',
+      overdraftPolicy: '',
       isActive: true,
     });
     setEditingId(null);
@@ -283,6 +294,29 @@ export default function BudgetCategoriesPage() {
               </div>
             </div>
 
+            <div>
+              <label className="form-label">
+                Overdraft Policy
+              </label>
+              <select
+                value={formData.overdraftPolicy}
+                onChange={(e) =>
+                  setFormData({ ...formData, overdraftPolicy: e.target.value })
+                }
+                className="form-input form-select w-full"
+              >
+                <option value="">Inherit (parent category or fiscal year)</option>
+                {Object.entries(OVERDRAFT_POLICY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-sm text-[var(--text-muted)] mt-1">
+                What happens when a purchase order would overdraw a budget line in this category
+              </p>
+            </div>
+
             <div className="flex items-center">
               <input
                 type="checkbox"
@@ -355,6 +389,12 @@ export default function BudgetCategoriesPage() {
                   <span className="text-[var(--text-secondary)]">GL Account:</span>
                   <span className="text-[var(--text-primary)]">{category.glAccountCode || '\u2014'}</span>
                 </div>
+                <div className="flex justify-between">
+                  <span className="text-[var(--text-secondary)]">Overdraft Policy:</span>
+                  <span className="text-[var(--text-primary)]">
+                    {category.overdraftPolicy ? OVERDRAFT_POLICY_LABELS[category.overdraftPolicy] : 'Inherit'}
+                  </span>
+                </div>
                 <div className="flex justify-between">
                   <span className="text-[var(--text-secondary)]">Budget Items:</span>
                   <span className="text-[var(--text-primary)]">{category._count.budgetItems}</span>
@@ -411,6 +451,9 @@ export default function BudgetCategoriesPage() {
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase">
                   GL Account
                 </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase">
+                  Overdraft Policy
+                </th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase">
                   Budget Items
                 </th>
@@ -440,6 +483,9 @@ export default function BudgetCategoriesPage() {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--text-muted)]">
                     {category.glAccountCode || '\u2014'}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--text-muted)]">
+                    {category.overdraftPolicy ? OVERDRAFT_POLICY_LABELS[category.overdraftPolicy] : 'Inherit'}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--text-muted)]">
                     {category._count.budgetItems}
                   </td>
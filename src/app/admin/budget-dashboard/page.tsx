@@ -1,6 +1,7 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import Link from 'next/link';
 
 interface BudgetSummary {
   totalBudget: number;
@@ -19,6 +20,10 @@ interface VarianceItem {
   remaining: number;
   variance: number;
   variancePercent: number;
+  accrualType: string;
+  ytdBudget: number;
+  ytdVariance: number;
+  ytdVariancePercent: number;
 }
 
 interface DepartmentSummary {
@@ -38,8 +43,66 @@ interface YoYComparison {
   utilizationPercent: number;
 }
 
+interface BudgetOverride {
+  id: string;
+  createdAt: string;
+  purchaseOrderId: string;
+  poNumber: string;
+  poStatus: string;
+  budgetItemCode: string;
+  budgetItemDescription: string;
+  requestedAmount: number;
+  availableAmount: number;
+  overdraftAmount: number;
+  justification: string;
+  overriddenBy: string;
+}
+
+type ForecastStatus = 'ON_TRACK' | 'WATCH' | 'OVER';
+
+interface ForecastFigures {
+  budgetAmount: number;
+  actualSpent: number;
+  encumbered: number;
+  monthlyRunRate: number;
+  projectedRunRateSpend: number;
+  projectedYearEnd: number;
+  projectedVariance: number;
+  projectedPercent: number;
+  status: ForecastStatus;
+}
+
+interface ForecastLine extends ForecastFigures {
+  budgetItemId: string;
+  code: string;
+  description: string;
+  departmentName: string | null;
+  categoryName: string | null;
+}
+
+interface ForecastGroup extends ForecastFigures {
+  name: string;
+  lineCount: number;
+  receiptSpend?: number;
+}
+
+interface BudgetForecast {
+  asOf: string;
+  elapsedPercent: number;
+  summary: ForecastFigures;
+  lines: ForecastLine[];
+  departments: ForecastGroup[];
+  categories: ForecastGroup[];
+}
+
+const FORECAST_STATUS_BADGES: Record<ForecastStatus, { label: string; className: string }> = {
+  ON_TRACK: { label: 'On track', className: 'badge badge-success' },
+  WATCH: { label: 'Watch', className: 'badge badge-warning' },
+  OVER: { label: 'Projected over', className: 'badge badge-error' },
+};
+
 export default function BudgetDashboardPage() {
-  const [activeTab, setActiveTab] = useState<'overview' | 'variance' | 'department' | 'yoy'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'variance' | 'forecast' | 'department' | 'yoy' | 'overrides'>('overview');
   const [fiscalYear, setFiscalYear] = useState<number>(new Date().getFullYear());
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -48,6 +111,8 @@ export default function BudgetDashboardPage() {
   const [varianceData, setVarianceData] = useState<VarianceItem[]>([]);
   const [departmentData, setDepartmentData] = useState<DepartmentSummary[]>([]);
   const [yoyData, setYoyData] = useState<YoYComparison[]>([]);
+  const [overrides, setOverrides] = useState<BudgetOverride[]>([]);
+  const [forecast, setForecast] = useState<BudgetForecast | null>(null);
 
   useEffect(() => {
     fetchDashboardData();
@@ -65,6 +130,8 @@ export default function BudgetDashboardPage() {
       setVarianceData(data.variance || []);
       setDepartmentData(data.departments || []);
       setYoyData(data.yoy || []);
+      setOverrides(data.overrides || []);
+      setForecast(data.forecast || null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
@@ -84,13 +151,19 @@ export default function BudgetDashboardPage() {
   };
 
   const handleExportCSV = () => {
+    // The forecast export includes department and category rollups
+    if (activeTab === 'forecast') {
+      window.location.href = `/api/reports/budget-forecast?fiscalYear=${fiscalYear}&format=csv`;
+      return;
+    }
+
     let csvContent = '';
     let filename = '';
 
     if (activeTab === 'variance') {
-      csvContent = 'Code,Description,Budget,Encumbered,Actual Spent,Remaining,Variance,Variance %\n';
+      csvContent = 'Code,Description,Budget,Encumbered,Actual Spent,Remaining,Variance,Variance %,YTD Budget,YTD Variance,YTD Variance %\n';
       varianceData.forEach(item => {
-        csvContent += `"${item.code}","${item.description}",${item.budgetAmount},${item.encumbered},${item.actualSpent},${item.remaining},${item.variance},${item.variancePercent}\n`;
+        csvContent += `"${item.code}","${item.description}",${item.budgetAmount},${item.encumbered},${item.actualSpent},${item.remaining},${item.variance},${item.variancePercent},${item.ytdBudget},${item.ytdVariance},${item.ytdVariancePercent}\n`;
       });
       filename = `budget-variance-${fiscalYear}.csv`;
     } else if (activeTab === 'department') {
@@ -105,6 +178,12 @@ export default function BudgetDashboardPage() {
         csvContent += `${year.year},${year.totalBudget},${year.totalSpent},${year.utilizationPercent}\n`;
       });
       filename = `budget-year-over-year.csv`;
+    } else if (activeTab === 'overrides') {
+      csvContent = 'Date,PO Number,Budget Code,Requested,Available,Overdraft,Justification,Overridden By\n';
+      overrides.forEach(override => {
+        csvContent += `${override.createdAt.split('T')[0]},"${override.poNumber}","${override.budgetItemCode}",${override.requestedAmount},${override.availableAmount},${override.overdraftAmount},"${override.justification.replace(/"/g, '""')}","${override.overriddenBy}"\n`;
+      });
+      filename = `budget-overrides-${fiscalYear}.csv`;
     }
 
     const blob = new Blob([csvContent], { type: 'text/csv' });
@@ -168,6 +247,16 @@ export default function BudgetDashboardPage() {
           >
             Variance Analysis
           </button>
+          <button
+            onClick={() => setActiveTab('forecast')}
+            className={`px-4 py-2 border-b-2 transition-colors ${
+              activeTab === 'forecast'
+                ? 'border-[var(--accent-primary)] text-[var(--accent-primary)] font-semibold'
+                : 'border-transparent text-[var(--text-secondary)] hover:border-[var(--border-default)]'
+            }`}
+          >
+            Forecast{forecast && forecast.lines.some((line) => line.status === 'OVER') && ' ⚠'}
+          </button>
           <button
             onClick={() => setActiveTab('department')}
             className={`px-4 py-2 border-b-2 transition-colors ${
@@ -188,6 +277,16 @@ export default function BudgetDashboardPage() {
           >
             Year-over-Year
           </button>
+          <button
+            onClick={() => setActiveTab('overrides')}
+            className={`px-4 py-2 border-b-2 transition-colors ${
+              activeTab === 'overrides'
+                ? 'border-[var(--accent-primary)] text-[var(--accent-primary)] font-semibold'
+                : 'border-transparent text-[var(--text-secondary)] hover:border-[var(--border-default)]'
+            }`}
+          >
+            Overrides{overrides.length > 0 && ` (${overrides.length})`}
+          </button>
         </div>
       </div>
 
@@ -222,13 +321,223 @@ export default function BudgetDashboardPage() {
         </div>
       )}
 
+      {/* Forecast Tab */}
+      {activeTab === 'forecast' && forecast && (
+        <>
+          <p className="text-sm text-[var(--text-secondary)] mb-4">
+            Projected year-end = actual spend + open encumbrances + the run rate so far carried through the rest of the year
+            ({formatPercent(forecast.elapsedPercent)} of FY {fiscalYear} elapsed as of {new Date(forecast.asOf).toLocaleDateString()}).
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
+            <div className="stat-card">
+              <div className="stat-label">Total Budget</div>
+              <div className="stat-value">{formatCurrency(forecast.summary.budgetAmount)}</div>
+            </div>
+            <div className="stat-card">
+              <div className="stat-label">Monthly Run Rate</div>
+              <div className="stat-value">{formatCurrency(forecast.summary.monthlyRunRate)}</div>
+            </div>
+            <div className="stat-card">
+              <div className="stat-label">Projected Year-End</div>
+              <div className="stat-value">{formatCurrency(forecast.summary.projectedYearEnd)}</div>
+              <div className="text-xs text-[var(--text-muted)] mt-1">
+                {formatPercent(forecast.summary.projectedPercent)} of budget
+              </div>
+            </div>
+            <div className="stat-card">
+              <div className="stat-label">Lines Projected Over</div>
+              <div className={`stat-value ${forecast.lines.some((line) => line.status === 'OVER') ? 'text-[var(--error)]' : ''}`}>
+                {forecast.lines.filter((line) => line.status === 'OVER').length}
+              </div>
+            </div>
+          </div>
+
+          <div className="card mb-6">
+            <h2 className="section-title mb-4">By Budget Line</h2>
+
+            {/* Mobile Card View */}
+            <div className="lg:hidden space-y-4">
+              {forecast.lines.map((line) => (
+                <div key={line.budgetItemId} className={`card ${line.status === 'OVER' ? 'border-l-4 border-l-[var(--error)]' : ''}`}>
+                  <div className="flex justify-between items-start mb-3">
+                    <div>
+                      <h3 className="text-lg font-bold text-[var(--text-primary)]">{line.code}</h3>
+                      <p className="text-sm text-[var(--text-secondary)]">{line.description}</p>
+                    </div>
+                    <span className={FORECAST_STATUS_BADGES[line.status].className}>
+                      {FORECAST_STATUS_BADGES[line.status].label}
+                    </span>
+                  </div>
+                  <div className="space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-[var(--text-secondary)]">Budget:</span>
+                      <span className="text-[var(--text-primary)]">{formatCurrency(line.budgetAmount)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-[var(--text-secondary)]">Spent + Encumbered:</span>
+                      <span className="text-[var(--text-primary)]">{formatCurrency(line.actualSpent + line.encumbered)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-[var(--text-secondary)]">Monthly Run Rate:</span>
+                      <span className="text-[var(--text-primary)]">{formatCurrency(line.monthlyRunRate)}</span>
+                    </div>
+                    <div className="flex justify-between border-t border-[var(--border-default)] pt-2">
+                      <span className="text-[var(--text-secondary)]">Projected Year-End:</span>
+                      <span className={`font-semibold ${line.projectedVariance < 0 ? 'text-[var(--error)]' : 'text-[var(--success)]'}`}>
+                        {formatCurrency(line.projectedYearEnd)}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Desktop Table View */}
+            <div className="hidden lg:block table-container">
+              <table className="table" aria-label="Projected year-end by budget line">
+                <thead>
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase">Code</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase">Description</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Budget</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Spent</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Encumbered</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Run Rate / Mo</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Projected</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Variance</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {forecast.lines.map((line) => (
+                    <tr key={line.budgetItemId} className={line.status === 'OVER' ? 'bg-[var(--error-subtle)]' : ''}>
+                      <td className="px-6 py-4 whitespace-nowrap font-medium">{line.code}</td>
+                      <td className="px-6 py-4">{line.description}</td>
+                      <td className="px-6 py-4 text-right">{formatCurrency(line.budgetAmount)}</td>
+                      <td className="px-6 py-4 text-right">{formatCurrency(line.actualSpent)}</td>
+                      <td className="px-6 py-4 text-right">{formatCurrency(line.encumbered)}</td>
+                      <td className="px-6 py-4 text-right">{formatCurrency(line.monthlyRunRate)}</td>
+                      <td className="px-6 py-4 text-right font-semibold">{formatCurrency(line.projectedYearEnd)}</td>
+                      <td className={`px-6 py-4 text-right ${line.projectedVariance < 0 ? 'text-[var(--error)]' : 'text-[var(--success)]'}`}>
+                        {formatCurrency(line.projectedVariance)}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={FORECAST_STATUS_BADGES[line.status].className}>
+                          {FORECAST_STATUS_BADGES[line.status].label}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {forecast.lines.length === 0 && (
+              <div className="empty-state">
+                <p className="empty-state-title">No budget lines for this fiscal year</p>
+              </div>
+            )}
+          </div>
+
+          <div className="card mb-6">
+            <h2 className="section-title mb-4">By Department</h2>
+            <div className="table-container">
+              <table className="table" aria-label="Projected year-end by department">
+                <thead>
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase">Department</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Budget</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Spent</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Encumbered</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Projected</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Variance</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {forecast.departments.map((group) => (
+                    <tr key={group.name} className={group.status === 'OVER' ? 'bg-[var(--error-subtle)]' : ''}>
+                      <td className="px-6 py-4 font-medium">
+                        {group.name}
+                        {!!group.receiptSpend && (
+                          <div className="text-xs text-[var(--text-muted)]">
+                            incl. {formatCurrency(group.receiptSpend)} in receipts
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-right">{formatCurrency(group.budgetAmount)}</td>
+                      <td className="px-6 py-4 text-right">{formatCurrency(group.actualSpent)}</td>
+                      <td className="px-6 py-4 text-right">{formatCurrency(group.encumbered)}</td>
+                      <td className="px-6 py-4 text-right font-semibold">{formatCurrency(group.projectedYearEnd)}</td>
+                      <td className={`px-6 py-4 text-right ${group.projectedVariance < 0 ? 'text-[var(--error)]' : 'text-[var(--success)]'}`}>
+                        {formatCurrency(group.projectedVariance)}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={FORECAST_STATUS_BADGES[group.status].className}>
+                          {FORECAST_STATUS_BADGES[group.status].label}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="card mb-6">
+            <h2 className="section-title mb-4">By Category</h2>
+            <div className="table-container">
+              <table className="table" aria-label="Projected year-end by category">
+                <thead>
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase">Category</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Budget</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Spent</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Encumbered</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Projected</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Variance</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {forecast.categories.map((group) => (
+                    <tr key={group.name} className={group.status === 'OVER' ? 'bg-[var(--error-subtle)]' : ''}>
+                      <td className="px-6 py-4 font-medium">
+                        {group.name}
+                        {!!group.receiptSpend && (
+                          <div className="text-xs text-[var(--text-muted)]">
+                            incl. {formatCurrency(group.receiptSpend)} in receipts
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-right">{formatCurrency(group.budgetAmount)}</td>
+                      <td className="px-6 py-4 text-right">{formatCurrency(group.actualSpent)}</td>
+                      <td className="px-6 py-4 text-right">{formatCurrency(group.encumbered)}</td>
+                      <td className="px-6 py-4 text-right font-semibold">{formatCurrency(group.projectedYearEnd)}</td>
+                      <td className={`px-6 py-4 text-right ${group.projectedVariance < 0 ? 'text-[var(--error)]' : 'text-[var(--success)]'}`}>
+                        {formatCurrency(group.projectedVariance)}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={FORECAST_STATUS_BADGES[group.status].className}>
+                          {FORECAST_STATUS_BADGES[group.status].label}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
       {/* Variance Tab */}
       {activeTab === 'variance' && (
         <>
           {/* Mobile Card View */}
           <div className="lg:hidden space-y-4">
             {varianceData.map((item, idx) => (
-              <div key={idx} className={`card ${item.variance < 0 ? 'border-l-4 border-l-[var(--error)]' : ''}`}>
+              <div key={idx} className={`card ${item.variance < 0 || item.ytdVariance < 0 ? 'border-l-4 border-l-[var(--error)]' : ''}`}>
                 <div className="flex justify-between items-start mb-3">
                   <div>
                     <h3 className="text-lg font-bold text-[var(--text-primary)]">{item.code}</h3>
@@ -261,6 +570,16 @@ export default function BudgetDashboardPage() {
                       {formatCurrency(item.variance)}
                     </span>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-[var(--text-secondary)]">YTD Budget:</span>
+                    <span className="text-[var(--text-primary)]">{formatCurrency(item.ytdBudget)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-[var(--text-secondary)]">YTD Variance:</span>
+                    <span className={`font-semibold ${item.ytdVariance < 0 ? 'text-[var(--error)]' : 'text-[var(--success)]'}`}>
+                      {formatCurrency(item.ytdVariance)} ({formatPercent(item.ytdVariancePercent)})
+                    </span>
+                  </div>
                 </div>
               </div>
             ))}
@@ -284,11 +603,13 @@ export default function BudgetDashboardPage() {
                   <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Remaining</th>
                   <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Variance</th>
                   <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Variance %</th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">YTD Budget</th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">YTD Variance</th>
                 </tr>
               </thead>
               <tbody>
                 {varianceData.map((item, idx) => (
-                  <tr key={idx} className={item.variance < 0 ? 'bg-[var(--error-subtle)]' : ''}>
+                  <tr key={idx} className={item.variance < 0 || item.ytdVariance < 0 ? 'bg-[var(--error-subtle)]' : ''}>
                     <td className="px-6 py-4 whitespace-nowrap font-medium">{item.code}</td>
                     <td className="px-6 py-4">{item.description}</td>
                     <td className="px-6 py-4 text-right">{formatCurrency(item.budgetAmount)}</td>
@@ -301,6 +622,10 @@ export default function BudgetDashboardPage() {
                     <td className={`px-6 py-4 text-right ${item.variancePercent < 0 ? 'text-[var(--error)]' : 'text-[var(--success)]'}`}>
                       {formatPercent(item.variancePercent)}
                     </td>
+                    <td className="px-6 py-4 text-right">{formatCurrency(item.ytdBudget)}</td>
+                    <td className={`px-6 py-4 text-right font-semibold ${item.ytdVariance < 0 ? 'text-[var(--error)]' : 'text-[var(--success)]'}`}>
+                      {formatCurrency(item.ytdVariance)}
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -504,6 +829,108 @@ export default function BudgetDashboardPage() {
           </div>
         </>
       )}
+
+      {/* Budget Overrides Tab */}
+      {activeTab === 'overrides' && (
+        <>
+          {/* Mobile Card View */}
+          <div className="lg:hidden space-y-4">
+            {overrides.map((override) => (
+              <div key={override.id} className="card border-l-4 border-l-[var(--warning)]">
+                <div className="flex justify-between items-start mb-3">
+                  <div>
+                    <Link
+                      href={`/purchase-orders/${override.purchaseOrderId}`}
+                      className="text-lg font-bold text-[var(--accent-primary)] hover:text-[var(--accent-primary-hover)]"
+                    >
+                      {override.poNumber}
+                    </Link>
+                    <p className="text-sm text-[var(--text-secondary)]">
+                      {override.budgetItemCode} - {override.budgetItemDescription}
+                    </p>
+                  </div>
+                  <span className="text-sm font-semibold text-[var(--error)]">
+                    {formatCurrency(override.overdraftAmount)} over
+                  </span>
+                </div>
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-[var(--text-secondary)]">Requested:</span>
+                    <span className="text-[var(--text-primary)]">{formatCurrency(override.requestedAmount)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-[var(--text-secondary)]">Available:</span>
+                    <span className="text-[var(--text-primary)]">{formatCurrency(override.availableAmount)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-[var(--text-secondary)]">Overridden by:</span>
+                    <span className="text-[var(--text-primary)]">
+                      {override.overriddenBy} on {new Date(override.createdAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <p className="border-t border-[var(--border-default)] pt-2 text-[var(--text-secondary)]">
+                    {override.justification}
+                  </p>
+                </div>
+              </div>
+            ))}
+            {overrides.length === 0 && (
+              <div className="empty-state">
+                <p className="empty-state-title">No budget overrides this fiscal year</p>
+              </div>
+            )}
+          </div>
+
+          {/* Desktop Table View */}
+          <div className="hidden lg:block table-container">
+            <table className="table" aria-label="Budget overrides">
+              <thead>
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase">Date</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase">PO</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase">Budget Line</th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Requested</th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Available</th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Overdraft</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase">Justification</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase">Overridden By</th>
+                </tr>
+              </thead>
+              <tbody>
+                {overrides.map((override) => (
+                  <tr key={override.id}>
+                    <td className="px-6 py-4 whitespace-nowrap">{new Date(override.createdAt).toLocaleDateString()}</td>
+                    <td className="px-6 py-4 whitespace-nowrap font-medium">
+                      <Link
+                        href={`/purchase-orders/${override.purchaseOrderId}`}
+                        className="text-[var(--accent-primary)] hover:text-[var(--accent-primary-hover)]"
+                      >
+                        {override.poNumber}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4">
+                      {override.budgetItemCode}
+                      <div className="text-xs text-[var(--text-muted)]">{override.budgetItemDescription}</div>
+                    </td>
+                    <td className="px-6 py-4 text-right">{formatCurrency(override.requestedAmount)}</td>
+                    <td className="px-6 py-4 text-right">{formatCurrency(override.availableAmount)}</td>
+                    <td className="px-6 py-4 text-right font-semibold text-[var(--error)]">
+                      {formatCurrency(override.overdraftAmount)}
+                    </td>
+                    <td className="px-6 py-4 text-sm">{override.justification}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">{override.overriddenBy}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {overrides.length === 0 && (
+              <div className="empty-state">
+                <p className="empty-state-title">No budget overrides this fiscal year</p>
+              </div>
+            )}
+          </div>
+        </>
+      )}
     </div>
   );
 }
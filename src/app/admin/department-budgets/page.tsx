@@ -0,0 +1,407 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+type TargetEnforcement = 'WARN' | 'BLOCK';
+
+interface DepartmentBudgetFigures {
+  original: number;
+  amended: number;
+  allocated: number;
+  encumbered: number;
+  spent: number;
+}
+
+interface DepartmentBudgetNode {
+  departmentId: string;
+  name: string;
+  parentId: string | null;
+  depth: number;
+  isActive: boolean;
+  lineCount: number;
+  target: number | null;
+  enforcement: TargetEnforcement;
+  own: DepartmentBudgetFigures;
+  rollup: DepartmentBudgetFigures;
+  overTarget: number | null;
+  childTargets: number;
+}
+
+interface DepartmentBudgetSummary {
+  totalTarget: number;
+  totalAllocated: number;
+  totalAmended: number;
+  totalSpent: number;
+  overTargetCount: number;
+}
+
+const ENFORCEMENT_OPTIONS = [
+  { value: 'WARN', label: 'Warn only' },
+  { value: 'BLOCK', label: 'Block' },
+];
+
+export default function DepartmentBudgetsPage() {
+  const [fiscalYear, setFiscalYear] = useState<number>(new Date().getFullYear());
+  const [departments, setDepartments] = useState<DepartmentBudgetNode[]>([]);
+  const [summary, setSummary] = useState<DepartmentBudgetSummary | null>(null);
+  const [canManage, setCanManage] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [editing, setEditing] = useState<DepartmentBudgetNode | null>(null);
+  const [targetInput, setTargetInput] = useState('');
+  const [enforcementInput, setEnforcementInput] = useState<TargetEnforcement>('WARN');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchDepartmentBudgets();
+  }, [fiscalYear]);
+
+  const fetchDepartmentBudgets = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/department-budgets?fiscalYear=${fiscalYear}`);
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to load department budgets');
+      }
+
+      const data = await res.json();
+      setDepartments(data.departments || []);
+      setSummary(data.summary);
+      setCanManage(data.canManage);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEditor = (node: DepartmentBudgetNode) => {
+    setEditing(node);
+    setTargetInput(node.target !== null ? node.target.toFixed(2) : '');
+    setEnforcementInput(node.enforcement);
+  };
+
+  const saveTarget = async (targetAmount: number | null) => {
+    if (!editing) return;
+
+    setSaving(true);
+    try {
+      const res = await fetch('/api/department-budgets', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          departmentId: editing.departmentId,
+          fiscalYear,
+          targetAmount,
+          enforcement: enforcementInput,
+        }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to save target');
+      }
+
+      setEditing(null);
+      fetchDepartmentBudgets();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(targetInput);
+    if (isNaN(amount) || amount < 0) {
+      alert('Enter a target of zero or more');
+      return;
+    }
+    saveTarget(amount);
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount);
+  };
+
+  const formatSigned = (amount: number) => {
+    return `${amount > 0 ? '+' : ''}${formatCurrency(amount)}`;
+  };
+
+  const getTargetBadge = (node: DepartmentBudgetNode) => {
+    if (node.target === null) {
+      return <span className="badge badge-neutral">No target</span>;
+    }
+    if (node.overTarget !== null && node.overTarget > 0.005) {
+      return <span className="badge badge-error">Over by {formatCurrency(node.overTarget)}</span>;
+    }
+    return <span className="badge badge-success">Within target</span>;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-[var(--text-secondary)]">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="page-title">Department Budget Targets</h1>
+          <p className="text-sm text-[var(--text-secondary)] mt-1">
+            Targets compared with the line budgets allocated to each department, including its sub-departments.
+          </p>
+        </div>
+        <select
+          value={fiscalYear}
+          onChange={(e) => setFiscalYear(parseInt(e.target.value))}
+          className="form-input form-select"
+          aria-label="Fiscal year"
+        >
+          <option value={new Date().getFullYear() - 2}>{new Date().getFullYear() - 2}</option>
+          <option value={new Date().getFullYear() - 1}>{new Date().getFullYear() - 1}</option>
+          <option value={new Date().getFullYear()}>{new Date().getFullYear()}</option>
+          <option value={new Date().getFullYear() + 1}>{new Date().getFullYear() + 1}</option>
+        </select>
+      </div>
+
+      {error && (
+        <div className="rounded-[var(--radius-lg)] border border-[var(--error-muted)] bg-[var(--error-subtle)] text-[var(--error)] px-4 py-3 mb-4">
+          {error}
+        </div>
+      )}
+
+      {summary && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
+          <div className="stat-card">
+            <div className="stat-label">Total Target</div>
+            <div className="stat-value">{formatCurrency(summary.totalTarget)}</div>
+          </div>
+          <div className="stat-card">
+            <div className="stat-label">Allocated</div>
+            <div className="stat-value">{formatCurrency(summary.totalAllocated)}</div>
+            <div className="text-xs text-[var(--text-muted)] mt-1">
+              {formatSigned(summary.totalAmended)} from amendments
+            </div>
+          </div>
+          <div className="stat-card">
+            <div className="stat-label">Spent</div>
+            <div className="stat-value">{formatCurrency(summary.totalSpent)}</div>
+          </div>
+          <div className="stat-card">
+            <div className="stat-label">Departments Over Target</div>
+            <div className={`stat-value ${summary.overTargetCount > 0 ? 'text-[var(--error)]' : ''}`}>
+              {summary.overTargetCount}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Mobile Card View */}
+      <div className="lg:hidden space-y-4">
+        {departments.map((node) => (
+          <div
+            key={node.departmentId}
+            className="card"
+            style={{ marginLeft: `${node.depth * 1}rem` }}
+          >
+            <div className="flex justify-between items-start mb-3">
+              <div>
+                <h3 className="text-lg font-bold text-[var(--text-primary)]">{node.name}</h3>
+                <p className="text-sm text-[var(--text-secondary)]">
+                  {node.lineCount} budget line{node.lineCount !== 1 ? 's' : ''}
+                  {!node.isActive && ' (inactive)'}
+                </p>
+              </div>
+              {getTargetBadge(node)}
+            </div>
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-[var(--text-secondary)]">Target:</span>
+                <span className="text-[var(--text-primary)]">
+                  {node.target !== null ? formatCurrency(node.target) : '—'}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-[var(--text-secondary)]">Original:</span>
+                <span className="text-[var(--text-primary)]">{formatCurrency(node.rollup.original)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-[var(--text-secondary)]">Amended:</span>
+                <span className="text-[var(--text-primary)]">{formatSigned(node.rollup.amended)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-[var(--text-secondary)]">Allocated:</span>
+                <span className="text-[var(--text-primary)] font-semibold">{formatCurrency(node.rollup.allocated)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-[var(--text-secondary)]">Spent:</span>
+                <span className="text-[var(--text-primary)]">{formatCurrency(node.rollup.spent)}</span>
+              </div>
+            </div>
+            {canManage && (
+              <button onClick={() => openEditor(node)} className="btn btn-secondary btn-sm mt-4 w-full">
+                {node.target !== null ? 'Edit Target' : 'Set Target'}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Desktop Table View */}
+      <div className="hidden lg:block table-container">
+        <table className="table" aria-label="Department budget targets">
+          <thead>
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase">Department</th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Target</th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Original</th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Amended</th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Allocated</th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Encumbered</th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Spent</th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase">Status</th>
+              {canManage && (
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase">Actions</th>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {departments.map((node) => (
+              <tr
+                key={node.departmentId}
+                className={node.overTarget !== null && node.overTarget > 0.005 ? 'bg-[var(--error-subtle)]' : ''}
+              >
+                <td className="px-6 py-4">
+                  <div style={{ paddingLeft: `${node.depth * 1.5}rem` }}>
+                    <div className={`font-medium ${node.isActive ? '' : 'text-[var(--text-muted)]'}`}>
+                      {node.depth > 0 && <span className="text-[var(--text-muted)] mr-1">↳</span>}
+                      {node.name}
+                    </div>
+                    <div className="text-xs text-[var(--text-muted)]">
+                      {node.lineCount} line{node.lineCount !== 1 ? 's' : ''}
+                      {node.rollup.allocated !== node.own.allocated && (
+                        <> · own {formatCurrency(node.own.allocated)}</>
+                      )}
+                    </div>
+                  </div>
+                </td>
+                <td className="px-6 py-4 text-right">
+                  {node.target !== null ? (
+                    <>
+                      {formatCurrency(node.target)}
+                      {node.enforcement === 'BLOCK' && (
+                        <div className="text-xs text-[var(--text-muted)]">enforced</div>
+                      )}
+                    </>
+                  ) : (
+                    <span className="text-[var(--text-muted)]">—</span>
+                  )}
+                  {node.childTargets > 0 && node.target !== null && node.childTargets > node.target + 0.005 && (
+                    <div className="text-xs text-[var(--warning)]">
+                      Sub-department targets total {formatCurrency(node.childTargets)}
+                    </div>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-right">{formatCurrency(node.rollup.original)}</td>
+                <td className="px-6 py-4 text-right">{formatSigned(node.rollup.amended)}</td>
+                <td className="px-6 py-4 text-right font-semibold">{formatCurrency(node.rollup.allocated)}</td>
+                <td className="px-6 py-4 text-right">{formatCurrency(node.rollup.encumbered)}</td>
+                <td className="px-6 py-4 text-right">{formatCurrency(node.rollup.spent)}</td>
+                <td className="px-6 py-4">{getTargetBadge(node)}</td>
+                {canManage && (
+                  <td className="px-6 py-4 text-right">
+                    <button onClick={() => openEditor(node)} className="btn btn-secondary btn-sm">
+                      {node.target !== null ? 'Edit' : 'Set Target'}
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {departments.length === 0 && (
+        <div className="empty-state">
+          <p className="empty-state-title">No departments found</p>
+          <p className="empty-state-description">Create departments to set budget targets.</p>
+        </div>
+      )}
+
+      {/* Target Modal */}
+      {editing && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="card w-full max-w-md">
+            <h2 className="section-title mb-1">{editing.name}</h2>
+            <p className="text-sm text-[var(--text-secondary)] mb-4">
+              FY {fiscalYear} target · {formatCurrency(editing.rollup.allocated)} currently allocated
+            </p>
+            <form onSubmit={handleSave} className="space-y-4">
+              <div>
+                <label htmlFor="targetAmount" className="form-label">Target Amount</label>
+                <input
+                  id="targetAmount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={targetInput}
+                  onChange={(e) => setTargetInput(e.target.value)}
+                  className="form-input"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="enforcement" className="form-label">When amendments or transfers exceed the target</label>
+                <select
+                  id="enforcement"
+                  value={enforcementInput}
+                  onChange={(e) => setEnforcementInput(e.target.value as TargetEnforcement)}
+                  className="form-input form-select"
+                >
+                  {ENFORCEMENT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex justify-between gap-2 pt-2">
+                {editing.target !== null ? (
+                  <button
+                    type="button"
+                    onClick={() => confirm('Remove this target?') && saveTarget(null)}
+                    disabled={saving}
+                    className="btn btn-danger"
+                  >
+                    Remove
+                  </button>
+                ) : (
+                  <span />
+                )}
+                <div className="flex gap-2">
+                  <button type="button" onClick={() => setEditing(null)} className="btn btn-secondary">
+                    Cancel
+                  </button>
+                  <button type="submit" disabled={saving} className="btn btn-primary">
+                    {saving ? 'Saving...' : 'Save'}
+                  </button>
+                </div>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
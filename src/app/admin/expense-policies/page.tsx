@@ -0,0 +1,416 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useState, useEffect } from 'react';
+
+type PolicyRule = 'receipt_cap' | 'daily_limit' | 'notes_required' | 'banned_merchant' | 'weekend' | 'receipt_age';
+
+type ExpensePolicy = {
+  id: string;
+  name: string;
+  description: string | null;
+  rule: PolicyRule;
+  departmentId: string | null;
+  department: { id: string; name: string } | null;
+  budgetCategoryId: string | null;
+  budgetCategory: { id: string; code: string; name: string } | null;
+  amount: number | null;
+  maxDays: number | null;
+  merchants: string | null;
+  isActive: boolean;
+  _count: { violations: number };
+};
+
+type Option = { id: string; name: string; code?: string };
+
+const ruleLabels: Record<PolicyRule, string> = {
+  receipt_cap: 'Per-receipt cap',
+  daily_limit: 'Daily limit',
+  notes_required: 'Notes required above amount',
+  banned_merchant: 'Banned merchants',
+  weekend: 'Weekend spending',
+  receipt_age: 'Receipt age limit',
+};
+
+const amountRules: PolicyRule[] = ['receipt_cap', 'daily_limit', 'notes_required'];
+
+const describeRule = (policy: ExpensePolicy) => {
+  switch (policy.rule) {
+    case 'receipt_cap':
+      return `Flag receipts over $${(policy.amount ?? 0).toFixed(2)}`;
+    case 'daily_limit':
+      return `Flag days with more than $${(policy.amount ?? 0).toFixed(2)} spent per employee`;
+    case 'notes_required':
+      return `Require a note on receipts over $${(policy.amount ?? 0).toFixed(2)}`;
+    case 'banned_merchant':
+      return `Flag purchases from: ${(policy.merchants || '').split('\n').filter(Boolean).join(', ')}`;
+    case 'weekend':
+      return 'Flag purchases made on Saturday or Sunday';
+    case 'receipt_age':
+      return `Flag receipts submitted more than ${policy.maxDays} days after purchase`;
+  }
+};
+
+const emptyForm = () => ({
+  name: '',
+  description: '',
+  rule: 'receipt_cap' as PolicyRule,
+  departmentId: '',
+  budgetCategoryId: '',
+  amount: '',
+  maxDays: '',
+  merchants: '',
+  isActive: true,
+});
+
+export default function ExpensePoliciesPage() {
+  const { status } = useSession();
+  const router = useRouter();
+
+  const [policies, setPolicies] = useState<ExpensePolicy[]>([]);
+  const [departments, setDepartments] = useState<Option[]>([]);
+  const [categories, setCategories] = useState<Option[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<ExpensePolicy | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchData();
+    }
+  }, [status]);
+
+  const fetchData = async () => {
+    try {
+      const [policiesRes, departmentsRes, categoriesRes] = await Promise.all([
+        fetch('/api/expense-policies'),
+        fetch('/api/departments'),
+        fetch('/api/budget-categories'),
+      ]);
+
+      if (policiesRes.status === 403) {
+        router.push('/');
+        return;
+      }
+
+      const policiesData = await policiesRes.json();
+      const departmentsData = await departmentsRes.json();
+      const categoriesData = await categoriesRes.json();
+
+      setPolicies(policiesData.policies || []);
+      setDepartments(departmentsData.departments || []);
+      setCategories(categoriesData.categories || []);
+    } catch (error) {
+      console.error('Error fetching expense policies:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openModal = (policy?: ExpensePolicy) => {
+    if (policy) {
+      setEditingPolicy(policy);
+      setFormData({
+        name: policy.name,
+        description: policy.description || '',
+        rule: policy.rule,
+        departmentId: policy.departmentId || '',
+        budgetCategoryId: policy.budgetCategoryId || '',
+        amount: policy.amount?.toString() || '',
+        maxDays: policy.maxDays?.toString() || '',
+        merchants: policy.merchants || '',
+        isActive: policy.isActive,
+      });
+    } else {
+      setEditingPolicy(null);
+      setFormData(emptyForm());
+    }
+    setShowModal(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const url = editingPolicy ? `/api/expense-policies/${editingPolicy.id}` : '/api/expense-policies';
+    const method = editingPolicy ? 'PUT' : 'POST';
+
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.name,
+          description: formData.description || null,
+          rule: formData.rule,
+          departmentId: formData.departmentId || null,
+          budgetCategoryId: formData.budgetCategoryId || null,
+          amount: amountRules.includes(formData.rule) && formData.amount !== '' ? parseFloat(formData.amount) : null,
+          maxDays: formData.rule === 'receipt_age' && formData.maxDays !== '' ? parseInt(formData.maxDays) : null,
+          merchants: formData.rule === 'banned_merchant' ? formData.merchants : null,
+          isActive: formData.isActive,
+        }),
+      });
+
+      if (res.ok) {
+        setShowModal(false);
+        fetchData();
+      } else {
+        const error = await res.json();
+        alert(error.error || 'Failed to save expense policy');
+      }
+    } catch (error) {
+      console.error('Error saving expense policy:', error);
+      alert('Failed to save expense policy');
+    }
+  };
+
+  const handleDelete = async (policy: ExpensePolicy) => {
+    if (!confirm(`Delete expense policy "${policy.name}"? Its flags are removed from receipts.`)) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/expense-policies/${policy.id}`, { method: 'DELETE' });
+      if (res.ok) {
+        fetchData();
+      } else {
+        const error = await res.json();
+        alert(error.error || 'Failed to delete expense policy');
+      }
+    } catch (error) {
+      console.error('Error deleting expense policy:', error);
+      alert('Failed to delete expense policy');
+    }
+  };
+
+  if (loading) {
+    return (
+      <main className="min-h-screen">
+        <div className="max-w-7xl mx-auto px-4 py-8">
+          <div className="text-center text-[var(--text-secondary)]">Loading...</div>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen">
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="page-title mb-2">Expense Policies</h1>
+            <p className="text-[var(--text-secondary)]">
+              Flag receipts that break company spending rules, by department and budget category
+            </p>
+          </div>
+          <button onClick={() => openModal()} className="btn btn-primary">
+            + Add Policy
+          </button>
+        </div>
+
+        <div className="mb-6 rounded-[var(--radius-lg)] border border-[var(--border-default)] bg-[var(--bg-tertiary)] px-4 py-3 text-sm text-[var(--text-secondary)]">
+          Every active policy that matches a receipt&apos;s department and category is checked when the receipt is
+          created, read by OCR or edited. Violations are flags for reviewers; they do not block the receipt or the
+          expense report it is on.
+        </div>
+
+        {policies.length === 0 ? (
+          <div className="card">
+            <div className="empty-state">
+              <p className="empty-state-title">No expense policies configured</p>
+              <p className="empty-state-description">Create a policy to flag out-of-policy spending.</p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {policies.map((policy) => (
+              <div key={policy.id} className="card p-6">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h2 className="section-title">{policy.name}</h2>
+                      <span className="badge badge-info">{ruleLabels[policy.rule]}</span>
+                      {policy.isActive ? (
+                        <span className="badge badge-success">Active</span>
+                      ) : (
+                        <span className="badge badge-neutral">Inactive</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-[var(--text-primary)] mt-1">{describeRule(policy)}</p>
+                    {policy.description && (
+                      <p className="text-sm text-[var(--text-secondary)] mt-1">{policy.description}</p>
+                    )}
+                    <p className="text-sm text-[var(--text-muted)] mt-1">
+                      Department: {policy.department?.name || 'Any'} &middot; Category:{' '}
+                      {policy.budgetCategory ? `${policy.budgetCategory.code} - ${policy.budgetCategory.name}` : 'Any'}
+                      {' '}&middot; {policy._count.violations} flagged receipt{policy._count.violations !== 1 ? 's' : ''}
+                    </p>
+                  </div>
+                  <div className="space-x-2 text-sm">
+                    <button
+                      onClick={() => openModal(policy)}
+                      className="text-[var(--accent-primary)] hover:text-[var(--accent-primary-hover)]"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(policy)}
+                      className="text-[var(--error)] hover:text-[var(--error)]"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Modal */}
+        {showModal && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="card w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+              <div className="border-b border-[var(--border-default)] px-6 py-4">
+                <h2 className="text-2xl font-bold text-[var(--text-primary)]">
+                  {editingPolicy ? 'Edit Expense Policy' : 'Add Expense Policy'}
+                </h2>
+              </div>
+
+              <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="form-label">Name *</label>
+                    <input
+                      type="text"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                      placeholder="e.g., Meal limit"
+                      required
+                      className="form-input w-full"
+                    />
+                  </div>
+                  <div className="flex items-end">
+                    <label className="flex items-center gap-2 text-sm text-[var(--text-primary)]">
+                      <input
+                        type="checkbox"
+                        checked={formData.isActive}
+                        onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                      />
+                      Active
+                    </label>
+                  </div>
+                  <div>
+                    <label className="form-label">Rule *</label>
+                    <select
+                      value={formData.rule}
+                      onChange={(e) => setFormData({ ...formData, rule: e.target.value as PolicyRule })}
+                      className="form-input form-select w-full"
+                    >
+                      {Object.entries(ruleLabels).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    {amountRules.includes(formData.rule) && (
+                      <>
+                        <label className="form-label">
+                          {formData.rule === 'notes_required' ? 'Notes Required Above ($) *' : 'Limit ($) *'}
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={formData.amount}
+                          onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                          required
+                          className="form-input w-full"
+                        />
+                      </>
+                    )}
+                    {formData.rule === 'receipt_age' && (
+                      <>
+                        <label className="form-label">Maximum Age (days) *</label>
+                        <input
+                          type="number"
+                          min="1"
+                          value={formData.maxDays}
+                          onChange={(e) => setFormData({ ...formData, maxDays: e.target.value })}
+                          required
+                          className="form-input w-full"
+                        />
+                      </>
+                    )}
+                  </div>
+                  {formData.rule === 'banned_merchant' && (
+                    <div className="md:col-span-2">
+                      <label className="form-label">Merchants (one per line) *</label>
+                      <textarea
+                        value={formData.merchants}
+                        onChange={(e) => setFormData({ ...formData, merchants: e.target.value })}
+                        rows={4}
+                        required
+                        placeholder={'e.g.\nCasino\nLiquor Store'}
+                        className="form-input w-full"
+                      />
+                      <p className="text-sm text-[var(--text-muted)] mt-1">
+                        A receipt is flagged when its merchant name contains any of these, ignoring case.
+                      </p>
+                    </div>
+                  )}
+                  <div>
+                    <label className="form-label">Department</label>
+                    <select
+                      value={formData.departmentId}
+                      onChange={(e) => setFormData({ ...formData, departmentId: e.target.value })}
+                      className="form-input form-select w-full"
+                    >
+                      <option value="">Any department</option>
+                      {departments.map((dept) => (
+                        <option key={dept.id} value={dept.id}>{dept.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="form-label">Budget Category</label>
+                    <select
+                      value={formData.budgetCategoryId}
+                      onChange={(e) => setFormData({ ...formData, budgetCategoryId: e.target.value })}
+                      className="form-input form-select w-full"
+                    >
+                      <option value="">Any category</option>
+                      {categories.map((cat) => (
+                        <option key={cat.id} value={cat.id}>{cat.code} - {cat.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="form-label">Description</label>
+                    <textarea
+                      value={formData.description}
+                      onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                      rows={2}
+                      className="form-input w-full"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex justify-end gap-3 pt-4">
+                  <button type="button" onClick={() => setShowModal(false)} className="btn btn-secondary">
+                    Cancel
+                  </button>
+                  <button type="submit" className="btn btn-primary">
+                    {editingPolicy ? 'Update' : 'Create'}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,481 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+
+interface TargetBudgetItem {
+  id: string;
+  code: string;
+  description: string;
+}
+
+interface OpenLine {
+  id: string;
+  description: string;
+  amount: number;
+  consumed: number;
+  openAmount: number;
+  budgetItem: { id: string; code: string; description: string };
+  suggestedTarget: TargetBudgetItem | null;
+}
+
+interface OpenPurchaseOrder {
+  id: string;
+  poNumber: string;
+  status: string;
+  type: string;
+  poDate: string;
+  vendor: { id: string; name: string };
+  requestedBy: { id: string; name: string };
+  department: { id: string; name: string } | null;
+  openAmount: number;
+  spansOtherYears: boolean;
+  lines: OpenLine[];
+}
+
+interface FiscalYear {
+  id: string;
+  year: number;
+  status: 'OPEN' | 'SOFT_CLOSED' | 'HARD_CLOSED';
+}
+
+interface CloseReport {
+  summary: {
+    totalBudget: number;
+    totalActualSpent: number;
+    totalEncumbered: number;
+    cancelledAmount: number;
+    rolledOverAmount: number;
+    cancelledCount: number;
+    rolledOverCount: number;
+    openPOCount: number;
+  };
+  actions: {
+    id: string;
+    createdAt: string;
+    poNumber: string;
+    vendorName: string;
+    action: string;
+    targetFiscalYear: number | null;
+    amount: number;
+    lines: { description: string; fromCode: string; toCode: string | null; amount: number }[];
+    performedBy: string;
+  }[];
+}
+
+type Decision = {
+  action: 'CANCEL' | 'ROLL_OVER';
+  lineTargets: Record<string, string>;
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  CANCELLED: 'Cancelled',
+  CLOSED_SHORT: 'Closed short',
+  LINES_RELEASED: 'Lines released',
+  ROLLED_OVER: 'Rolled over',
+};
+
+export default function FiscalYearClosePage() {
+  const params = useParams();
+  const id = params.id as string;
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [processing, setProcessing] = useState(false);
+
+  const [fiscalYear, setFiscalYear] = useState<FiscalYear | null>(null);
+  const [targetFiscalYear, setTargetFiscalYear] = useState<number | null>(null);
+  const [targetItems, setTargetItems] = useState<TargetBudgetItem[]>([]);
+  const [openPOs, setOpenPOs] = useState<OpenPurchaseOrder[]>([]);
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+  const [closeStatus, setCloseStatus] = useState('');
+  const [report, setReport] = useState<CloseReport | null>(null);
+
+  const fetchOpenPOs = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const query = targetFiscalYear ? `?targetFiscalYear=${targetFiscalYear}` : '';
+      const res = await fetch(`/api/fiscal-years/${id}/close${query}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load open purchase orders');
+
+      setFiscalYear(data.fiscalYear);
+      setTargetFiscalYear(data.targetFiscalYear);
+      setTargetItems(data.targetBudgetItems || []);
+      setOpenPOs(data.openPurchaseOrders || []);
+
+      // Default to rolling over wherever every open line has a match
+      const defaults: Record<string, Decision> = {};
+      for (const po of data.openPurchaseOrders as OpenPurchaseOrder[]) {
+        const lineTargets: Record<string, string> = {};
+        for (const line of po.lines) {
+          if (line.suggestedTarget) lineTargets[line.id] = line.suggestedTarget.id;
+        }
+        defaults[po.id] = {
+          action: po.lines.every((line) => line.suggestedTarget) ? 'ROLL_OVER' : 'CANCEL',
+          lineTargets,
+        };
+      }
+      setDecisions(defaults);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [id, targetFiscalYear]);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/fiscal-years/${id}/close-report`);
+      if (res.ok) {
+        setReport(await res.json());
+      }
+    } catch (err) {
+      console.error('Error fetching close report:', err);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    // Target year changes reload via the Apply button
+    fetchOpenPOs();
+  }, [id]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount);
+  };
+
+  const setAction = (poId: string, action: Decision['action']) => {
+    setDecisions({ ...decisions, [poId]: { ...decisions[poId], action } });
+  };
+
+  const setLineTarget = (poId: string, lineId: string, budgetItemId: string) => {
+    const decision = decisions[poId];
+    setDecisions({
+      ...decisions,
+      [poId]: { ...decision, lineTargets: { ...decision.lineTargets, [lineId]: budgetItemId } },
+    });
+  };
+
+  const handleProcess = async () => {
+    const missing = openPOs.find(
+      (po) =>
+        decisions[po.id]?.action === 'ROLL_OVER' &&
+        po.lines.some((line) => !decisions[po.id].lineTargets[line.id])
+    );
+    if (missing) {
+      alert(`Choose a FY ${targetFiscalYear} budget line for every line of ${missing.poNumber}, or cancel it.`);
+      return;
+    }
+
+    const rollCount = openPOs.filter((po) => decisions[po.id]?.action === 'ROLL_OVER').length;
+    const cancelCount = openPOs.length - rollCount;
+    if (
+      !confirm(
+        `Roll over ${rollCount} and cancel ${cancelCount} purchase order(s)?` +
+          (closeStatus ? ` FY ${fiscalYear?.year} will then be ${closeStatus === 'HARD_CLOSED' ? 'hard' : 'soft'} closed.` : '')
+      )
+    ) {
+      return;
+    }
+
+    setProcessing(true);
+    try {
+      const res = await fetch(`/api/fiscal-years/${id}/close`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          targetFiscalYear,
+          closeStatus: closeStatus || undefined,
+          decisions: openPOs.map((po) => ({
+            purchaseOrderId: po.id,
+            action: decisions[po.id].action,
+            lineTargets: decisions[po.id].lineTargets,
+          })),
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to process year-end close');
+      }
+
+      await Promise.all([fetchOpenPOs(), fetchReport()]);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  if (loading && !fiscalYear) return <div className="p-4 text-[var(--text-secondary)]">Loading open purchase orders...</div>;
+  if (error) return <div className="p-4 text-[var(--error)]">Error: {error}</div>;
+  if (!fiscalYear) return null;
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <Link href="/admin/fiscal-years" className="text-sm text-[var(--accent-primary)] hover:underline">
+            &larr; Fiscal Years
+          </Link>
+          <h1 className="page-title">Year-End Close: FY {fiscalYear.year}</h1>
+        </div>
+        <a
+          href={`/api/fiscal-years/${id}/close-report?format=csv`}
+          className="btn btn-secondary"
+        >
+          Export Close Report
+        </a>
+      </div>
+
+      {/* Step 1: open encumbrances */}
+      <div className="card mb-6">
+        <div className="flex flex-col sm:flex-row justify-between sm:items-end gap-4 mb-4">
+          <div>
+            <h2 className="section-title">1. Open Purchase Orders</h2>
+            <p className="text-sm text-[var(--text-secondary)]">
+              Approved POs still encumbering FY {fiscalYear.year}. Roll each into the new year&apos;s budget lines or cancel it.
+              Partially received POs are closed short when cancelled, so received amounts stay booked as spent.
+              POs that also charge another year stay open with only this year&apos;s lines released.
+            </p>
+          </div>
+          <div className="flex items-end gap-2">
+            <div>
+              <label className="form-label">Roll into FY</label>
+              <input
+                type="number"
+                value={targetFiscalYear ?? ''}
+                onChange={(e) => setTargetFiscalYear(parseInt(e.target.value, 10) || null)}
+                className="form-input w-28"
+              />
+            </div>
+            <button onClick={fetchOpenPOs} className="btn btn-secondary">
+              Apply
+            </button>
+          </div>
+        </div>
+
+        {targetItems.length === 0 && openPOs.length > 0 && (
+          <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--warning-muted)] bg-[var(--warning-subtle)] px-4 py-3 text-sm text-[var(--warning)]">
+            FY {targetFiscalYear} has no budget lines yet. Use Copy Prior Year Budget on the Fiscal Years page before rolling POs over.
+          </div>
+        )}
+
+        {openPOs.length === 0 ? (
+          <div className="empty-state">
+            <p className="empty-state-title">No open purchase orders</p>
+            <p className="empty-state-description">Nothing is encumbering FY {fiscalYear.year}.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {openPOs.map((po) => {
+              const decision = decisions[po.id];
+              return (
+                <div key={po.id} className="border border-[var(--border-default)] rounded-[var(--radius-lg)] p-4">
+                  <div className="flex flex-col sm:flex-row justify-between sm:items-start gap-3 mb-3">
+                    <div>
+                      <Link href={`/purchase-orders/${po.id}`} className="font-semibold text-[var(--accent-primary)] hover:underline">
+                        {po.poNumber}
+                      </Link>
+                      <span className="ml-2 badge badge-neutral">{po.status.replace('_', ' ')}</span>
+                      {po.type === 'BLANKET' && <span className="ml-2 badge badge-info">Blanket</span>}
+                      <p className="text-sm text-[var(--text-secondary)]">
+                        {po.vendor.name} &middot; {po.requestedBy.name}
+                        {po.department && ` · ${po.department.name}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm font-semibold text-[var(--text-primary)]">
+                        {formatCurrency(po.openAmount)} open
+                      </span>
+                      <select
+                        value={decision?.action}
+                        onChange={(e) => setAction(po.id, e.target.value as Decision['action'])}
+                        className="form-input form-select text-sm"
+                        aria-label={`Action for ${po.poNumber}`}
+                      >
+                        <option value="ROLL_OVER">Roll over to FY {targetFiscalYear}</option>
+                        <option value="CANCEL">
+                          {po.spansOtherYears
+                            ? `Release FY ${fiscalYear.year} lines`
+                            : po.status === 'PARTIALLY_RECEIVED' ? 'Close short' : 'Cancel'}
+                        </option>
+                      </select>
+                    </div>
+                  </div>
+
+                  <div className="table-container">
+                    <table className="table" aria-label={`Open lines for ${po.poNumber}`}>
+                      <thead>
+                        <tr>
+                          <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase">Line</th>
+                          <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase">Budget Line</th>
+                          <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase">Open</th>
+                          {decision?.action === 'ROLL_OVER' && (
+                            <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase">
+                              FY {targetFiscalYear} Budget Line
+                            </th>
+                          )}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {po.lines.map((line) => (
+                          <tr key={line.id}>
+                            <td className="px-4 py-2 text-sm">
+                              {line.description}
+                              {line.consumed > 0 && (
+                                <div className="text-xs text-[var(--text-muted)]">
+                                  {formatCurrency(line.consumed)} received stays in FY {fiscalYear.year}
+                                </div>
+                              )}
+                            </td>
+                            <td className="px-4 py-2 text-sm">{line.budgetItem.code}</td>
+                            <td className="px-4 py-2 text-sm text-right">{formatCurrency(line.openAmount)}</td>
+                            {decision?.action === 'ROLL_OVER' && (
+                              <td className="px-4 py-2 text-sm">
+                                <select
+                                  value={decision.lineTargets[line.id] || ''}
+                                  onChange={(e) => setLineTarget(po.id, line.id, e.target.value)}
+                                  className="form-input form-select text-sm"
+                                  aria-label={`Target budget line for ${line.description}`}
+                                >
+                                  <option value="">Select budget line...</option>
+                                  {targetItems.map((item) => (
+                                    <option key={item.id} value={item.id}>
+                                      {item.code} - {item.description}
+                                    </option>
+                                  ))}
+                                </select>
+                              </td>
+                            )}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Step 2: process and close */}
+      {fiscalYear.status !== 'HARD_CLOSED' && (
+        <div className="card mb-6">
+          <h2 className="section-title mb-2">2. Process</h2>
+          <p className="text-sm text-[var(--text-secondary)] mb-4">
+            Decisions are applied together. The year is only closed once no open POs remain.
+          </p>
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div>
+              <label className="form-label">Then</label>
+              <select
+                value={closeStatus}
+                onChange={(e) => setCloseStatus(e.target.value)}
+                className="form-input form-select"
+              >
+                <option value="">Leave FY {fiscalYear.year} {fiscalYear.status === 'OPEN' ? 'open' : 'soft closed'}</option>
+                {fiscalYear.status === 'OPEN' && <option value="SOFT_CLOSED">Soft close FY {fiscalYear.year}</option>}
+                <option value="HARD_CLOSED">Hard close FY {fiscalYear.year}</option>
+              </select>
+            </div>
+            <button
+              onClick={handleProcess}
+              disabled={processing || (openPOs.length === 0 && !closeStatus)}
+              className="btn btn-primary"
+            >
+              {processing ? 'Processing...' : 'Process Year-End Close'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Step 3: close report */}
+      {report && (
+        <div className="card">
+          <h2 className="section-title mb-4">3. Close Report</h2>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+            <div className="stat-card">
+              <div className="stat-label">Total Budget</div>
+              <div className="stat-value">{formatCurrency(report.summary.totalBudget)}</div>
+            </div>
+            <div className="stat-card">
+              <div className="stat-label">Actual Spent</div>
+              <div className="stat-value">{formatCurrency(report.summary.totalActualSpent)}</div>
+            </div>
+            <div className="stat-card">
+              <div className="stat-label">Still Encumbered</div>
+              <div className="stat-value text-[var(--warning)]">{formatCurrency(report.summary.totalEncumbered)}</div>
+            </div>
+            <div className="stat-card">
+              <div className="stat-label">Released ({report.summary.cancelledCount})</div>
+              <div className="stat-value">{formatCurrency(report.summary.cancelledAmount)}</div>
+            </div>
+            <div className="stat-card">
+              <div className="stat-label">Rolled Over ({report.summary.rolledOverCount})</div>
+              <div className="stat-value">{formatCurrency(report.summary.rolledOverAmount)}</div>
+            </div>
+          </div>
+
+          {report.actions.length === 0 ? (
+            <div className="empty-state">
+              <p className="empty-state-title">No year-end actions recorded yet</p>
+            </div>
+          ) : (
+            <div className="table-container">
+              <table className="table" aria-label="Year-end close actions">
+                <thead>
+                  <tr>
+                    <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase">Date</th>
+                    <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase">PO</th>
+                    <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase">Vendor</th>
+                    <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase">Action</th>
+                    <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase">Lines</th>
+                    <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase">Amount</th>
+                    <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase">By</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.actions.map((action) => (
+                    <tr key={action.id}>
+                      <td className="px-4 py-2 text-sm whitespace-nowrap">
+                        {new Date(action.createdAt).toLocaleDateString()}
+                      </td>
+                      <td className="px-4 py-2 text-sm font-medium">{action.poNumber}</td>
+                      <td className="px-4 py-2 text-sm">{action.vendorName}</td>
+                      <td className="px-4 py-2 text-sm">
+                        <span className={`badge ${action.action === 'ROLLED_OVER' ? 'badge-info' : 'badge-warning'}`}>
+                          {ACTION_LABELS[action.action] || action.action}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-xs text-[var(--text-secondary)]">
+                        {action.lines.map((line, idx) => (
+                          <div key={idx}>
+                            {line.fromCode}
+                            {line.toCode && ` → ${line.toCode} (FY ${action.targetFiscalYear})`}: {formatCurrency(line.amount)}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right">{formatCurrency(action.amount)}</td>
+                      <td className="px-4 py-2 text-sm">{action.performedBy}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
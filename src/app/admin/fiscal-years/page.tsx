@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 
 interface FiscalYear {
   id: string;
@@ -9,6 +10,7 @@ interface FiscalYear {
   startDate: string;
   endDate: string;
   status: 'OPEN' | 'SOFT_CLOSED' | 'HARD_CLOSED';
+  overdraftPolicy: 'WARN' | 'BLOCK' | 'OVERRIDE';
   closedAt: string | null;
   closedBy: {
     id: string;
@@ -18,6 +20,12 @@ interface FiscalYear {
   createdAt: string;
 }
 
+const OVERDRAFT_POLICY_OPTIONS = [
+  { value: 'WARN', label: 'Warn only' },
+  { value: 'BLOCK', label: 'Block' },
+  { value: 'OVERRIDE', label: 'Require override' },
+];
+
 export default function FiscalYearsPage() {
   const router = useRouter();
   const [fiscalYears, setFiscalYears] = useState<FiscalYear[]>([]);
@@ -109,6 +117,41 @@ export default function FiscalYearsPage() {
     }
   };
 
+  const handleOverdraftPolicyChange = async (id: string, overdraftPolicy: string) => {
+    try {
+      const res = await fetch(`/api/fiscal-years/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ overdraftPolicy }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to update overdraft policy');
+      }
+
+      fetchFiscalYears();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const renderOverdraftPolicySelect = (fy: FiscalYear) => (
+    <select
+      value={fy.overdraftPolicy}
+      onChange={(e) => handleOverdraftPolicyChange(fy.id, e.target.value)}
+      disabled={fy.status === 'HARD_CLOSED'}
+      className="form-input form-select text-sm"
+      aria-label={`Overdraft policy for FY ${fy.year}`}
+    >
+      {OVERDRAFT_POLICY_OPTIONS.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+
   const handleDelete = async (id: string) => {
     if (!confirm('Are you sure you want to delete this fiscal year?')) {
       return;
@@ -340,6 +383,10 @@ export default function FiscalYearsPage() {
                 </span>
               </div>
               <div className="space-y-2 text-sm mb-4">
+                <div className="flex justify-between items-center">
+                  <span className="text-[var(--text-secondary)]">Overdraft Policy:</span>
+                  {renderOverdraftPolicySelect(fy)}
+                </div>
                 {fy.closedAt && fy.closedBy && (
                   <div className="flex justify-between">
                     <span className="text-[var(--text-secondary)]">Closed:</span>
@@ -377,6 +424,12 @@ export default function FiscalYearsPage() {
                 {fy.status === 'HARD_CLOSED' && (
                   <span className="text-[var(--text-muted)] italic">Locked</span>
                 )}
+                <Link
+                  href={`/admin/fiscal-years/${fy.id}/close`}
+                  className="btn btn-secondary px-3 py-1"
+                >
+                  {fy.status === 'HARD_CLOSED' ? 'Close Report' : 'Year-End Close'}
+                </Link>
                 {fy.status === 'OPEN' && (
                   <button
                     onClick={() => handleDelete(fy.id)}
@@ -410,6 +463,9 @@ export default function FiscalYearsPage() {
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider">
                   Status
                 </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider">
+                  Overdraft Policy
+                </th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider">
                   Closed Info
                 </th>
@@ -435,6 +491,9 @@ export default function FiscalYearsPage() {
                       {getStatusLabel(fy.status)}
                     </span>
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {renderOverdraftPolicySelect(fy)}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--text-muted)]">
                     {fy.closedAt && fy.closedBy ? (
                       <div>
@@ -480,6 +539,12 @@ export default function FiscalYearsPage() {
                       {fy.status === 'HARD_CLOSED' && (
                         <span className="text-[var(--text-muted)] italic">Locked</span>
                       )}
+                      <Link
+                        href={`/admin/fiscal-years/${fy.id}/close`}
+                        className="btn btn-secondary px-3 py-1"
+                      >
+                        {fy.status === 'HARD_CLOSED' ? 'Close Report' : 'Year-End Close'}
+                      </Link>
                       {fy.status === 'OPEN' && (
                         <button
                           onClick={() => handleDelete(fy.id)}
@@ -518,6 +583,10 @@ export default function FiscalYearsPage() {
             <strong>Hard Closed:</strong> Year is permanently closed and cannot
             be reopened
           </li>
+          <li>
+            <strong>Year-End Close:</strong> Cancel or roll open POs into the
+            next year&apos;s budget lines before closing, and export the close report
+          </li>
         </ul>
       </div>
     </div>
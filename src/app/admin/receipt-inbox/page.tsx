@@ -0,0 +1,285 @@
+'use client';
+
+import Link from 'next/link';
+import { useState, useEffect, useCallback } from 'react';
+
+interface InboundEmail {
+  id: string;
+  source: string;
+  fromAddress: string;
+  subject: string | null;
+  status: string;
+  receiptCount: number;
+  error: string | null;
+  receivedAt: string;
+  user?: { id: string; name: string } | null;
+}
+
+interface InboxUser {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface InboxConfig {
+  enabled: boolean;
+  forwardingAddress: string;
+  imapConfigured: boolean;
+  webhookConfigured: boolean;
+}
+
+interface InboxData {
+  quarantined: InboundEmail[];
+  recent: InboundEmail[];
+  users: InboxUser[];
+  config: InboxConfig;
+}
+
+function statusBadge(status: string): string {
+  switch (status) {
+    case 'processed': return 'badge badge-success';
+    case 'released': return 'badge badge-info';
+    case 'discarded': return 'badge badge-neutral';
+    default: return 'badge badge-warning';
+  }
+}
+
+export default function ReceiptInboxPage() {
+  const [data, setData] = useState<InboxData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [polling, setPolling] = useState(false);
+  const [assignees, setAssignees] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const res = await fetch('/api/receipts/email');
+      const json = await res.json();
+      if (!res.ok) {
+        setError(json.error || 'Failed to load the receipt inbox');
+        return;
+      }
+      setData(json);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching receipt inbox:', err);
+      setError('Failed to load the receipt inbox');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const checkMailbox = async () => {
+    setPolling(true);
+    try {
+      const res = await fetch('/api/receipts/email/poll', { method: 'POST' });
+      const json = await res.json();
+      if (!res.ok) {
+        alert(json.error || 'Failed to check the mailbox');
+        return;
+      }
+      const { fetched, processed, quarantined, duplicates, failed } = json.result;
+      alert(
+        fetched === 0
+          ? 'No new emails.'
+          : `${fetched} email(s): ${processed} imported, ${quarantined} quarantined, ${duplicates} duplicate, ${failed} failed.`
+      );
+      fetchData();
+    } catch (err) {
+      console.error('Error checking mailbox:', err);
+      alert('Failed to check the mailbox');
+    } finally {
+      setPolling(false);
+    }
+  };
+
+  const review = async (email: InboundEmail, action: 'release' | 'discard') => {
+    const userId = assignees[email.id];
+    if (action === 'release' && !userId) {
+      alert('Choose who the receipts belong to');
+      return;
+    }
+    if (action === 'discard' && !confirm(`Discard the email from ${email.fromAddress}?`)) {
+      return;
+    }
+
+    setBusyId(email.id);
+    try {
+      const res = await fetch(`/api/receipts/email/${email.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(action === 'release' ? { action, userId } : { action }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        alert(json.error || 'Failed to update the email');
+        return;
+      }
+      if (action === 'release' && json.receiptIds.length === 0) {
+        alert('The email was released but had no receipt attachments.');
+      }
+      fetchData();
+    } catch (err) {
+      console.error('Error reviewing inbound email:', err);
+      alert('Failed to update the email');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-[var(--bg-hover)] rounded w-48"></div>
+          <div className="h-40 bg-[var(--bg-hover)] rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center gap-2 text-sm text-[var(--text-muted)] mb-2">
+        <span>Admin</span>
+        <span>/</span>
+        <span className="text-[var(--text-primary)]">Receipt Inbox</span>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="page-title mb-1">Receipt Inbox</h1>
+          <p className="text-[var(--text-secondary)] text-sm">
+            Receipts forwarded by email. Mail from addresses that don&apos;t match a user waits here for review.
+          </p>
+        </div>
+        {data?.config.imapConfigured && (
+          <button onClick={checkMailbox} disabled={polling} className="btn btn-secondary btn-sm whitespace-nowrap">
+            {polling ? 'Checking...' : 'Check Mailbox Now'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--error-muted)] bg-[var(--error-subtle)] text-[var(--error)] px-4 py-3">
+          {error}
+        </div>
+      )}
+
+      {data && !data.config.enabled && (
+        <div className="card p-4 mb-6 text-sm text-[var(--text-secondary)]">
+          Receipt email forwarding is turned off. Enable it and set up a mailbox or webhook in{' '}
+          <Link href="/admin/settings" className="text-[var(--accent-primary)] hover:underline">Settings</Link>.
+        </div>
+      )}
+
+      {data && (
+        <>
+          <div className="card p-4 sm:p-6 mb-6">
+            <h2 className="section-title mb-3">Quarantined ({data.quarantined.length})</h2>
+            {data.quarantined.length === 0 ? (
+              <p className="text-sm text-[var(--text-muted)]">Nothing waiting for review.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="data-table w-full">
+                  <thead>
+                    <tr>
+                      <th className="data-table-header">Received</th>
+                      <th className="data-table-header">From</th>
+                      <th className="data-table-header">Subject</th>
+                      <th className="data-table-header">Assign To</th>
+                      <th className="data-table-header text-right">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.quarantined.map((email) => (
+                      <tr key={email.id} className="data-table-row">
+                        <td className="data-table-cell whitespace-nowrap">{new Date(email.receivedAt).toLocaleString()}</td>
+                        <td className="data-table-cell">{email.fromAddress}</td>
+                        <td className="data-table-cell">{email.subject || '(no subject)'}</td>
+                        <td className="data-table-cell">
+                          <select
+                            value={assignees[email.id] || ''}
+                            onChange={(e) => setAssignees({ ...assignees, [email.id]: e.target.value })}
+                            className="form-input form-select"
+                          >
+                            <option value="">Select user...</option>
+                            {data.users.map((user) => (
+                              <option key={user.id} value={user.id}>{user.name} ({user.email})</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="data-table-cell text-right whitespace-nowrap">
+                          <button
+                            onClick={() => review(email, 'release')}
+                            disabled={busyId === email.id}
+                            className="btn btn-primary btn-sm mr-2"
+                          >
+                            Release
+                          </button>
+                          <button
+                            onClick={() => review(email, 'discard')}
+                            disabled={busyId === email.id}
+                            className="btn btn-secondary btn-sm"
+                          >
+                            Discard
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="card p-4 sm:p-6">
+            <h2 className="section-title mb-3">Recent Emails</h2>
+            {data.recent.length === 0 ? (
+              <p className="text-sm text-[var(--text-muted)]">No emails imported yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="data-table w-full">
+                  <thead>
+                    <tr>
+                      <th className="data-table-header">Received</th>
+                      <th className="data-table-header">From</th>
+                      <th className="data-table-header">Subject</th>
+                      <th className="data-table-header">User</th>
+                      <th className="data-table-header">Via</th>
+                      <th className="data-table-header text-right">Receipts</th>
+                      <th className="data-table-header">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.recent.map((email) => (
+                      <tr key={email.id} className="data-table-row">
+                        <td className="data-table-cell whitespace-nowrap">{new Date(email.receivedAt).toLocaleString()}</td>
+                        <td className="data-table-cell">{email.fromAddress}</td>
+                        <td className="data-table-cell">{email.subject || '(no subject)'}</td>
+                        <td className="data-table-cell">{email.user?.name || '—'}</td>
+                        <td className="data-table-cell">{email.source === 'imap' ? 'Mailbox' : 'Webhook'}</td>
+                        <td className="data-table-cell text-right">{email.receiptCount}</td>
+                        <td className="data-table-cell">
+                          <span className={statusBadge(email.status)}>{email.status}</span>
+                          {email.error && (
+                            <div className="text-xs text-[var(--error)] mt-1">{email.error}</div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
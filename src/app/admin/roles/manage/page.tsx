@@ -40,6 +40,17 @@ const permissionSections = [
       { key: 'canUploadReceipts', label: 'Upload Receipts', description: 'Can upload receipt images/PDFs to purchase orders' },
     ],
   },
+  {
+    name: 'Expense Reports',
+    key: 'expenseReports',
+    permissions: [
+      { key: 'canCreate', label: 'Create', description: 'Can bundle their receipts into expense reports and submit them' },
+      { key: 'canViewDepartment', label: 'View Department', description: 'Can view expense reports from their department' },
+      { key: 'canViewAll', label: 'View All', description: 'Can view all expense reports' },
+      { key: 'canApprove', label: 'Approve', description: 'Can approve or reject expense reports they can view' },
+      { key: 'canExport', label: 'Export for Payment', description: 'Can export approved reports for accounts payable and mark them reimbursed' },
+    ],
+  },
   {
     name: 'Budget',
     key: 'budgetItems',
@@ -48,6 +59,7 @@ const permissionSections = [
       { key: 'canManage', label: 'Manage Budget Items', description: 'Can create and edit budget items' },
       { key: 'canCreateAmendments', label: 'Create Amendments', description: 'Can increase or decrease budget line items' },
       { key: 'canTransferFunds', label: 'Transfer Funds', description: 'Can transfer funds between budget line items' },
+      { key: 'canOverrideBudget', label: 'Override Budget', description: 'Can let a purchase order overdraw a budget line, with a justification' },
       { key: 'canViewAllCategories', label: 'View All Categories', description: 'Can view the entire budget category structure' },
       { key: 'canManageCategories', label: 'Manage Categories', description: 'Can create and edit budget categories' },
       { key: 'canCloseFiscalYear', label: 'Close Fiscal Year', description: 'Can perform soft/hard close on fiscal years' },
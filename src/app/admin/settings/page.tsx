@@ -13,6 +13,7 @@ import {
   ClipboardDocumentListIcon,
   CpuChipIcon,
   EnvelopeIcon,
+  BanknotesIcon,
   CheckCircleIcon,
   XCircleIcon,
   EyeIcon,
@@ -23,7 +24,7 @@ import {
 } from '@heroicons/react/24/outline';
 import { themes, type ThemeDefinition } from '@/lib/themes';
 
-type TabKey = 'organization' | 'appearance' | 'security' | 'purchaseOrders' | 'fiscal' | 'audit' | 'ai' | 'email';
+type TabKey = 'organization' | 'appearance' | 'security' | 'purchaseOrders' | 'fiscal' | 'expenses' | 'audit' | 'ai' | 'email';
 
 const TABS: { key: TabKey; label: string; icon: typeof BuildingOffice2Icon }[] = [
   { key: 'organization', label: 'Organization', icon: BuildingOffice2Icon },
@@ -31,6 +32,7 @@ const TABS: { key: TabKey; label: string; icon: typeof BuildingOffice2Icon }[] =
   { key: 'security', label: 'Security', icon: ShieldCheckIcon },
   { key: 'purchaseOrders', label: 'Purchase Orders', icon: DocumentTextIcon },
   { key: 'fiscal', label: 'Fiscal Year', icon: CalendarIcon },
+  { key: 'expenses', label: 'Mileage & Per Diem', icon: BanknotesIcon },
   { key: 'audit', label: 'Audit Log', icon: ClipboardDocumentListIcon },
   { key: 'ai', label: 'AI / OCR', icon: CpuChipIcon },
   { key: 'email', label: 'Email', icon: EnvelopeIcon },
@@ -833,6 +835,25 @@ export default function SettingsPage() {
                     )}
                   </div>
                 </div>
+
+                {/* Vendor Terms */}
+                <div className="border-t border-[var(--border-default)] pt-6">
+                  <h3 className="section-title mb-4">Vendor Terms &amp; Conditions</h3>
+                  <textarea
+                    value={settings.purchaseOrders?.vendorTerms ?? ''}
+                    onChange={(e) =>
+                      setSettings({
+                        ...settings,
+                        purchaseOrders: { ...settings.purchaseOrders, vendorTerms: e.target.value },
+                      })
+                    }
+                    rows={5}
+                    className="form-input w-full"
+                  />
+                  <p className="text-sm text-[var(--text-muted)] mt-1">
+                    Printed at the bottom of purchase order PDFs sent to vendors
+                  </p>
+                </div>
               </div>
             )}
 
@@ -873,6 +894,234 @@ export default function SettingsPage() {
               </div>
             )}
 
+            {/* Mileage & Per Diem Tab */}
+            {activeTab === 'expenses' && (
+              <div className="space-y-8">
+                <div>
+                  <label className="form-label mb-2">
+                    Distance Unit
+                  </label>
+                  <select
+                    value={settings.expenses.distanceUnit}
+                    onChange={(e) =>
+                      setSettings({
+                        ...settings,
+                        expenses: { ...settings.expenses, distanceUnit: e.target.value as 'mi' | 'km' },
+                      })
+                    }
+                    className="form-input form-select w-64"
+                  >
+                    <option value="mi">Miles</option>
+                    <option value="km">Kilometers</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className="form-label mb-2">
+                    Mileage Rates
+                  </label>
+                  <p className="text-sm text-[var(--text-muted)] mb-3">
+                    Each trip is paid at the latest rate whose effective date is on or before the trip date. Add a new row when the rate changes rather than editing the old one.
+                  </p>
+                  <div className="space-y-2">
+                    {settings.expenses.mileageRates.map((rate, idx) => (
+                      <div key={idx} className="flex items-center gap-2">
+                        <input
+                          type="date"
+                          value={rate.effectiveDate}
+                          onChange={(e) => {
+                            const mileageRates = [...settings.expenses.mileageRates];
+                            mileageRates[idx] = { ...rate, effectiveDate: e.target.value };
+                            setSettings({ ...settings, expenses: { ...settings.expenses, mileageRates } });
+                          }}
+                          className="form-input w-48"
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.001"
+                          value={rate.rate}
+                          onChange={(e) => {
+                            const mileageRates = [...settings.expenses.mileageRates];
+                            mileageRates[idx] = { ...rate, rate: parseFloat(e.target.value) || 0 };
+                            setSettings({ ...settings, expenses: { ...settings.expenses, mileageRates } });
+                          }}
+                          className="form-input w-32"
+                        />
+                        <span className="text-sm text-[var(--text-muted)]">per {settings.expenses.distanceUnit}</span>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setSettings({
+                              ...settings,
+                              expenses: {
+                                ...settings.expenses,
+                                mileageRates: settings.expenses.mileageRates.filter((_, i) => i !== idx),
+                              },
+                            })
+                          }
+                          className="btn btn-ghost btn-sm"
+                          aria-label="Remove rate"
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setSettings({
+                        ...settings,
+                        expenses: {
+                          ...settings.expenses,
+                          mileageRates: [
+                            ...settings.expenses.mileageRates,
+                            { effectiveDate: new Date().toISOString().split('T')[0], rate: 0 },
+                          ],
+                        },
+                      })
+                    }
+                    className="btn btn-secondary btn-sm mt-3"
+                  >
+                    Add Rate
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                  <div>
+                    <label className="form-label mb-2">
+                      Default Daily Per Diem
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={settings.expenses.perDiem.defaultDailyRate}
+                      onChange={(e) =>
+                        setSettings({
+                          ...settings,
+                          expenses: {
+                            ...settings.expenses,
+                            perDiem: { ...settings.expenses.perDiem, defaultDailyRate: parseFloat(e.target.value) || 0 },
+                          },
+                        })
+                      }
+                      className="form-input w-32"
+                    />
+                    <p className="text-sm text-[var(--text-muted)] mt-1">
+                      Used for any location without its own rate
+                    </p>
+                  </div>
+                  <div>
+                    <label className="form-label mb-2">
+                      Travel Day Percentage
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={settings.expenses.perDiem.travelDayPercent}
+                      onChange={(e) =>
+                        setSettings({
+                          ...settings,
+                          expenses: {
+                            ...settings.expenses,
+                            perDiem: { ...settings.expenses.perDiem, travelDayPercent: parseInt(e.target.value) || 0 },
+                          },
+                        })
+                      }
+                      className="form-input w-32"
+                    />
+                    <p className="text-sm text-[var(--text-muted)] mt-1">
+                      Share of the daily rate paid for the first and last day of a trip
+                    </p>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="form-label mb-2">
+                    Location Rates
+                  </label>
+                  <div className="space-y-2">
+                    {settings.expenses.perDiem.locations.map((location, idx) => (
+                      <div key={idx} className="flex items-center gap-2">
+                        <input
+                          value={location.name}
+                          onChange={(e) => {
+                            const locations = [...settings.expenses.perDiem.locations];
+                            locations[idx] = { ...location, name: e.target.value };
+                            setSettings({
+                              ...settings,
+                              expenses: { ...settings.expenses, perDiem: { ...settings.expenses.perDiem, locations } },
+                            });
+                          }}
+                          placeholder="e.g. New York City"
+                          className="form-input w-64"
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={location.dailyRate}
+                          onChange={(e) => {
+                            const locations = [...settings.expenses.perDiem.locations];
+                            locations[idx] = { ...location, dailyRate: parseFloat(e.target.value) || 0 };
+                            setSettings({
+                              ...settings,
+                              expenses: { ...settings.expenses, perDiem: { ...settings.expenses.perDiem, locations } },
+                            });
+                          }}
+                          className="form-input w-32"
+                        />
+                        <span className="text-sm text-[var(--text-muted)]">per day</span>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setSettings({
+                              ...settings,
+                              expenses: {
+                                ...settings.expenses,
+                                perDiem: {
+                                  ...settings.expenses.perDiem,
+                                  locations: settings.expenses.perDiem.locations.filter((_, i) => i !== idx),
+                                },
+                              },
+                            })
+                          }
+                          className="btn btn-ghost btn-sm"
+                          aria-label="Remove location"
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setSettings({
+                        ...settings,
+                        expenses: {
+                          ...settings.expenses,
+                          perDiem: {
+                            ...settings.expenses.perDiem,
+                            locations: [
+                              ...settings.expenses.perDiem.locations,
+                              { name: '', dailyRate: settings.expenses.perDiem.defaultDailyRate },
+                            ],
+                          },
+                        },
+                      })
+                    }
+                    className="btn btn-secondary btn-sm mt-3"
+                  >
+                    Add Location
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Audit Log Tab */}
             {activeTab === 'audit' && (
               <div className="space-y-6">
@@ -1727,6 +1976,210 @@ export default function SettingsPage() {
                               <p className="text-sm text-[var(--text-muted)] mt-1">
                                 Forward digital receipts to this address to automatically create expense entries
                               </p>
+
+                              <div className="mt-6">
+                                <h5 className="text-sm font-semibold text-[var(--text-primary)] mb-1">Receipt Mailbox (IMAP)</h5>
+                                <p className="text-sm text-[var(--text-muted)] mb-3">
+                                  The mailbox behind the forwarding address. Unread emails are imported from the Receipt Inbox page, or on a schedule by calling POST /api/receipts/email/poll with the webhook secret below as a bearer token.
+                                </p>
+                                <div className="space-y-4">
+                                <div>
+                                  <label className="form-label mb-2">IMAP Host</label>
+                                  <input
+                                    type="text"
+                                    value={settings.email.receiptForwarding.imap?.host || ''}
+                                    onChange={(e) =>
+                                      setSettings({
+                                        ...settings,
+                                        email: {
+                                          ...settings.email,
+                                          receiptForwarding: {
+                                            ...settings.email.receiptForwarding,
+                                            imap: {
+                                              ...settings.email.receiptForwarding.imap,
+                                              host: e.target.value,
+                                            },
+                                          },
+                                        },
+                                      })
+                                    }
+                                    placeholder="imap.yourcompany.com"
+                                    className="form-input w-full max-w-lg"
+                                  />
+                                </div>
+
+                                <div>
+                                  <label className="form-label mb-2">Port</label>
+                                  <input
+                                    type="number"
+                                    value={settings.email.receiptForwarding.imap?.port ?? 993}
+                                    onChange={(e) =>
+                                      setSettings({
+                                        ...settings,
+                                        email: {
+                                          ...settings.email,
+                                          receiptForwarding: {
+                                            ...settings.email.receiptForwarding,
+                                            imap: {
+                                              ...settings.email.receiptForwarding.imap,
+                                              port: parseInt(e.target.value) || 993,
+                                            },
+                                          },
+                                        },
+                                      })
+                                    }
+                                    className="form-input w-32"
+                                  />
+                                </div>
+
+                                <div>
+                                  <label className="form-label mb-2">Username</label>
+                                  <input
+                                    type="text"
+                                    value={settings.email.receiptForwarding.imap?.username || ''}
+                                    onChange={(e) =>
+                                      setSettings({
+                                        ...settings,
+                                        email: {
+                                          ...settings.email,
+                                          receiptForwarding: {
+                                            ...settings.email.receiptForwarding,
+                                            imap: {
+                                              ...settings.email.receiptForwarding.imap,
+                                              username: e.target.value,
+                                            },
+                                          },
+                                        },
+                                      })
+                                    }
+                                    placeholder="receipts@yourcompany.com"
+                                    className="form-input w-full max-w-lg"
+                                  />
+                                </div>
+
+                                <div>
+                                  <label className="form-label mb-2">Password</label>
+                                  <input
+                                    type="password"
+                                    value={settings.email.receiptForwarding.imap?.password || ''}
+                                    onChange={(e) =>
+                                      setSettings({
+                                        ...settings,
+                                        email: {
+                                          ...settings.email,
+                                          receiptForwarding: {
+                                            ...settings.email.receiptForwarding,
+                                            imap: {
+                                              ...settings.email.receiptForwarding.imap,
+                                              password: e.target.value,
+                                            },
+                                          },
+                                        },
+                                      })
+                                    }
+                                    className="form-input w-full max-w-lg"
+                                  />
+                                </div>
+
+                                <div>
+                                  <label className="form-label mb-2">Mailbox Folder</label>
+                                  <input
+                                    type="text"
+                                    value={settings.email.receiptForwarding.imap?.mailbox || ''}
+                                    onChange={(e) =>
+                                      setSettings({
+                                        ...settings,
+                                        email: {
+                                          ...settings.email,
+                                          receiptForwarding: {
+                                            ...settings.email.receiptForwarding,
+                                            imap: {
+                                              ...settings.email.receiptForwarding.imap,
+                                              mailbox: e.target.value,
+                                            },
+                                          },
+                                        },
+                                      })
+                                    }
+                                    placeholder="INBOX"
+                                    className="form-input w-full max-w-lg"
+                                  />
+                                </div>
+
+                                  <label className="flex items-center">
+                                    <input
+                                      type="checkbox"
+                                      checked={settings.email.receiptForwarding.imap?.secure ?? true}
+                                      onChange={(e) =>
+                                        setSettings({
+                                          ...settings,
+                                          email: {
+                                            ...settings.email,
+                                            receiptForwarding: {
+                                              ...settings.email.receiptForwarding,
+                                              imap: {
+                                                ...settings.email.receiptForwarding.imap,
+                                                secure: e.target.checked,
+                                              },
+                                            },
+                                          },
+                                        })
+                                      }
+                                      className="mr-2"
+                                    />
+                                    <span className="text-sm font-medium text-[var(--text-secondary)]">Use TLS</span>
+                                  </label>
+                                </div>
+                              </div>
+
+                              <div className="mt-6">
+                                <h5 className="text-sm font-semibold text-[var(--text-primary)] mb-1">Inbound Webhook</h5>
+                                <p className="text-sm text-[var(--text-muted)] mb-3">
+                                  Mail services that post raw emails (SendGrid Inbound Parse, Mailgun routes) can send them to POST /api/receipts/email/inbound with this secret as a bearer token.
+                                </p>
+                                <label className="form-label mb-2">Webhook Secret</label>
+                                <div className="flex gap-2 max-w-lg">
+                                  <input
+                                    type="password"
+                                    value={settings.email.receiptForwarding.webhookSecret || ''}
+                                    onChange={(e) =>
+                                      setSettings({
+                                        ...settings,
+                                        email: {
+                                          ...settings.email,
+                                          receiptForwarding: {
+                                            ...settings.email.receiptForwarding,
+                                            webhookSecret: e.target.value,
+                                          },
+                                        },
+                                      })
+                                    }
+                                    className="form-input w-full"
+                                  />
+                                  <button
+                                    type="button"
+                                    onClick={() => {
+                                      const secret = Array.from(crypto.getRandomValues(new Uint8Array(24)))
+                                        .map((b) => b.toString(16).padStart(2, '0'))
+                                        .join('');
+                                      setSettings({
+                                        ...settings,
+                                        email: {
+                                          ...settings.email,
+                                          receiptForwarding: {
+                                            ...settings.email.receiptForwarding,
+                                            webhookSecret: secret,
+                                          },
+                                        },
+                                      });
+                                      alert(`New webhook secret (copy it now, it is hidden after saving):\n\n${secret}`);
+                                    }}
+                                    className="btn btn-secondary btn-sm whitespace-nowrap"
+                                  >
+                                    Generate
+                                  </button>
+                                </div>
+                              </div>
                             </div>
                           )}
                         </div>
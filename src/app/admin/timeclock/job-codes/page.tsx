@@ -0,0 +1,323 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+type BudgetItemOption = {
+  id: string;
+  code: string;
+  description: string;
+  fiscalYear: number;
+};
+
+type JobCode = {
+  id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  isActive: boolean;
+  budgetItemId: string | null;
+  budgetItem: BudgetItemOption | null;
+  approvedHours?: number;
+  _count?: { timeclockEntries: number };
+};
+
+export default function JobCodesPage() {
+  const { status } = useSession();
+  const router = useRouter();
+
+  const [jobCodes, setJobCodes] = useState<JobCode[]>([]);
+  const [budgetItems, setBudgetItems] = useState<BudgetItemOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [budgetItemId, setBudgetItemId] = useState('');
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchJobCodes();
+    }
+  }, [status]);
+
+  const fetchJobCodes = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const res = await fetch('/api/timeclock/job-codes?all=true');
+      if (!res.ok) {
+        if (res.status === 403) {
+          router.push('/');
+          return;
+        }
+        throw new Error('Failed to fetch job codes');
+      }
+
+      const data = await res.json();
+      setJobCodes(data.jobCodes || []);
+      setBudgetItems(data.budgetItems || []);
+    } catch (err) {
+      console.error('Error fetching job codes:', err);
+      setError('Failed to load job codes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim() || !name.trim()) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const res = await fetch('/api/timeclock/job-codes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code, name, description, budgetItemId: budgetItemId || null }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to create job code');
+      }
+
+      setJobCodes((prev) =>
+        [...prev, { ...data.jobCode, approvedHours: 0 }].sort((a, b) => a.code.localeCompare(b.code))
+      );
+      setCode('');
+      setName('');
+      setDescription('');
+      setBudgetItemId('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateJobCode = async (jobCode: JobCode, changes: Record<string, unknown>) => {
+    try {
+      setError(null);
+
+      const res = await fetch(`/api/timeclock/job-codes/${jobCode.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to update job code');
+      }
+
+      setJobCodes((prev) => prev.map((j) => (j.id === jobCode.id ? { ...j, ...data.jobCode } : j)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleDelete = async (jobCode: JobCode) => {
+    if (!confirm(`Delete job code "${jobCode.code}"?`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const res = await fetch(`/api/timeclock/job-codes/${jobCode.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to delete job code');
+      }
+
+      setJobCodes((prev) => prev.filter((j) => j.id !== jobCode.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const budgetItemLabel = (item: BudgetItemOption) => `FY${item.fiscalYear} · ${item.code} — ${item.description}`;
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-[var(--bg-hover)] rounded w-64 mb-6"></div>
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-[var(--bg-hover)] rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {/* Breadcrumb */}
+      <nav className="mb-4 text-sm">
+        <ol className="flex items-center space-x-2">
+          <li>
+            <Link href="/admin/settings" className="text-[var(--accent-primary)] hover:underline">
+              Admin
+            </Link>
+          </li>
+          <li className="text-[var(--text-muted)]">/</li>
+          <li>
+            <Link href="/admin/timeclock" className="text-[var(--accent-primary)] hover:underline">
+              Timeclock
+            </Link>
+          </li>
+          <li className="text-[var(--text-muted)]">/</li>
+          <li className="text-[var(--text-secondary)]">Job Codes</li>
+        </ol>
+      </nav>
+
+      <h1 className="page-title mb-2">Job Codes</h1>
+      <p className="text-[var(--text-secondary)] mb-6">
+        Job and cost codes employees pick when clocking in, for labor billed to grants and projects.
+        Switching jobs mid-shift splits the time entry. Link a code to a budget line to track its labor against that budget.
+      </p>
+
+      {error && (
+        <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--error-muted)] bg-[var(--error-subtle)] text-[var(--error)] px-4 py-3">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {/* Create Form */}
+      <div className="card mb-6">
+        <h2 className="section-title mb-4">Add Job Code</h2>
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+          <div>
+            <label htmlFor="jobCode" className="form-label">Code</label>
+            <input
+              id="jobCode"
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="form-input font-mono"
+              placeholder="e.g., GRANT-42"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="jobName" className="form-label">Name</label>
+            <input
+              id="jobName"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="form-input"
+              placeholder="e.g., Literacy grant"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="jobDescription" className="form-label">Description</label>
+            <input
+              id="jobDescription"
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="form-input"
+            />
+          </div>
+          <div>
+            <label htmlFor="jobBudgetItem" className="form-label">Budget Line</label>
+            <select
+              id="jobBudgetItem"
+              value={budgetItemId}
+              onChange={(e) => setBudgetItemId(e.target.value)}
+              className="form-input form-select"
+            >
+              <option value="">None</option>
+              {budgetItems.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {budgetItemLabel(item)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <button type="submit" disabled={saving || !code.trim() || !name.trim()} className="btn btn-primary w-full">
+              {saving ? 'Adding...' : 'Add Job Code'}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {/* Job Code List */}
+      <div className="card">
+        <h2 className="section-title mb-4">Job Codes</h2>
+
+        {jobCodes.length === 0 ? (
+          <div className="empty-state">
+            <p className="empty-state-title">No job codes</p>
+            <p className="empty-state-description">
+              Add a job code above. The clock-in page only shows a job picker once codes exist.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {jobCodes.map((jobCode) => (
+              <div
+                key={jobCode.id}
+                className="flex flex-col lg:flex-row lg:items-center justify-between gap-4 border-b border-[var(--border-default)] pb-4 last:border-0 last:pb-0"
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono font-medium text-[var(--text-primary)]">{jobCode.code}</span>
+                    <span className="text-[var(--text-primary)]">{jobCode.name}</span>
+                    {!jobCode.isActive && <span className="badge badge-neutral">Inactive</span>}
+                  </div>
+                  <p className="text-xs text-[var(--text-muted)] mt-1">
+                    {jobCode.description && <>{jobCode.description} · </>}
+                    {(jobCode.approvedHours ?? 0).toFixed(2)} approved hours
+                    {jobCode._count && <> · {jobCode._count.timeclockEntries} entries</>}
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={jobCode.budgetItemId || ''}
+                    onChange={(e) => updateJobCode(jobCode, { budgetItemId: e.target.value || null })}
+                    className="form-input form-select text-sm max-w-xs"
+                    aria-label={`Budget line for ${jobCode.code}`}
+                  >
+                    <option value="">No budget line</option>
+                    {budgetItems.map((item) => (
+                      <option key={item.id} value={item.id}>
+                        {budgetItemLabel(item)}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => updateJobCode(jobCode, { isActive: !jobCode.isActive })}
+                    className="btn btn-secondary btn-sm"
+                  >
+                    {jobCode.isActive ? 'Deactivate' : 'Activate'}
+                  </button>
+                  {(jobCode._count?.timeclockEntries ?? 0) === 0 && (
+                    <button onClick={() => handleDelete(jobCode)} className="btn btn-danger btn-sm">
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+type Kiosk = {
+  id: string;
+  name: string;
+  isActive: boolean;
+  identificationMode: string;
+  lockedUntil: string | null;
+  lastSeenAt: string | null;
+  createdAt: string;
+  createdBy: { id: string; name: string };
+  _count?: { clockInEntries: number };
+};
+
+const IDENTIFICATION_MODES = [
+  { value: 'BADGE_AND_PIN', label: 'Badge + PIN' },
+  { value: 'BADGE', label: 'Badge only' },
+  { value: 'PIN', label: 'PIN only' },
+];
+
+export default function KiosksPage() {
+  const { status } = useSession();
+  const router = useRouter();
+
+  const [kiosks, setKiosks] = useState<Kiosk[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state
+  const [name, setName] = useState('');
+  const [identificationMode, setIdentificationMode] = useState('BADGE_AND_PIN');
+
+  // A device token is only shown once, right after it is issued
+  const [issued, setIssued] = useState<{ kioskName: string; token: string } | null>(null);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchKiosks();
+    }
+  }, [status]);
+
+  const fetchKiosks = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const res = await fetch('/api/timeclock/kiosks');
+      if (!res.ok) {
+        if (res.status === 403) {
+          router.push('/');
+          return;
+        }
+        throw new Error('Failed to fetch kiosks');
+      }
+
+      const data = await res.json();
+      setKiosks(data.kiosks || []);
+    } catch (err) {
+      console.error('Error fetching kiosks:', err);
+      setError('Failed to load kiosks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const res = await fetch('/api/timeclock/kiosks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, identificationMode }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to register kiosk');
+      }
+
+      setKiosks((prev) => [...prev, data.kiosk].sort((a, b) => a.name.localeCompare(b.name)));
+      setIssued({ kioskName: data.kiosk.name, token: data.token });
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateKiosk = async (kiosk: Kiosk, changes: Record<string, unknown>) => {
+    try {
+      setError(null);
+
+      const res = await fetch(`/api/timeclock/kiosks/${kiosk.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to update kiosk');
+      }
+
+      setKiosks((prev) => prev.map((k) => (k.id === kiosk.id ? { ...k, ...data.kiosk } : k)));
+      if (data.token) {
+        setIssued({ kioskName: data.kiosk.name, token: data.token });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleRegenerate = (kiosk: Kiosk) => {
+    if (!confirm(`Issue a new token for "${kiosk.name}"? The device will need to be set up again.`)) {
+      return;
+    }
+    updateKiosk(kiosk, { regenerateToken: true });
+  };
+
+  const handleDelete = async (kiosk: Kiosk) => {
+    if (!confirm(`Remove kiosk "${kiosk.name}"? Punches already recorded keep their times.`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const res = await fetch(`/api/timeclock/kiosks/${kiosk.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to remove kiosk');
+      }
+
+      setKiosks((prev) => prev.filter((k) => k.id !== kiosk.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const setupLink = issued
+    ? `${typeof window !== 'undefined' ? window.location.origin : ''}/clock?kiosk=${issued.token}`
+    : '';
+
+  const isLocked = (kiosk: Kiosk) => !!kiosk.lockedUntil && new Date(kiosk.lockedUntil) > new Date();
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-[var(--bg-hover)] rounded w-64 mb-6"></div>
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-[var(--bg-hover)] rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {/* Breadcrumb */}
+      <nav className="mb-4 text-sm">
+        <ol className="flex items-center space-x-2">
+          <li>
+            <Link href="/admin/settings" className="text-[var(--accent-primary)] hover:underline">
+              Admin
+            </Link>
+          </li>
+          <li className="text-[var(--text-muted)]">/</li>
+          <li>
+            <Link href="/admin/timeclock" className="text-[var(--accent-primary)] hover:underline">
+              Timeclock
+            </Link>
+          </li>
+          <li className="text-[var(--text-muted)]">/</li>
+          <li className="text-[var(--text-secondary)]">Kiosks</li>
+        </ol>
+      </nav>
+
+      <h1 className="page-title mb-2">Clock-In Kiosks</h1>
+      <p className="text-[var(--text-secondary)] mb-6">
+        Register shared devices where employees clock in with their badge and/or PIN instead of signing in.
+        Badge numbers and PINs are set per user in User Management.
+      </p>
+
+      {error && (
+        <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--error-muted)] bg-[var(--error-subtle)] text-[var(--error)] px-4 py-3">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {issued && (
+        <div className="card mb-6 border border-[var(--warning-muted)]">
+          <h2 className="section-title mb-2">Set up &ldquo;{issued.kioskName}&rdquo;</h2>
+          <p className="text-sm text-[var(--text-secondary)] mb-3">
+            Open this link once on the kiosk device. It will stay registered until the token is regenerated or the kiosk is removed.
+            This link is only shown now.
+          </p>
+          <div className="flex gap-2">
+            <input type="text" readOnly value={setupLink} className="form-input font-mono text-xs" aria-label="Kiosk setup link" />
+            <button
+              type="button"
+              onClick={() => navigator.clipboard?.writeText(setupLink)}
+              className="btn btn-secondary"
+            >
+              Copy
+            </button>
+            <button type="button" onClick={() => setIssued(null)} className="btn btn-secondary">
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Register Form */}
+      <div className="card mb-6">
+        <h2 className="section-title mb-4">Register Kiosk</h2>
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <label htmlFor="kioskName" className="form-label">Name</label>
+            <input
+              id="kioskName"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="form-input"
+              placeholder="e.g., Warehouse break room"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="identificationMode" className="form-label">Employees identify with</label>
+            <select
+              id="identificationMode"
+              value={identificationMode}
+              onChange={(e) => setIdentificationMode(e.target.value)}
+              className="form-input form-select"
+            >
+              {IDENTIFICATION_MODES.map((mode) => (
+                <option key={mode.value} value={mode.value}>
+                  {mode.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <button type="submit" disabled={saving || !name.trim()} className="btn btn-primary w-full">
+              {saving ? 'Registering...' : 'Register Kiosk'}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {/* Kiosk List */}
+      <div className="card">
+        <h2 className="section-title mb-4">Registered Kiosks</h2>
+
+        {kiosks.length === 0 ? (
+          <div className="empty-state">
+            <p className="empty-state-title">No kiosks registered</p>
+            <p className="empty-state-description">Register a shared device above to enable kiosk clock-in.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {kiosks.map((kiosk) => (
+              <div
+                key={kiosk.id}
+                className="flex flex-col lg:flex-row lg:items-center justify-between gap-4 border-b border-[var(--border-default)] pb-4 last:border-0 last:pb-0"
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-[var(--text-primary)]">{kiosk.name}</span>
+                    {!kiosk.isActive && <span className="badge badge-neutral">Disabled</span>}
+                    {isLocked(kiosk) && <span className="badge badge-error">Locked</span>}
+                  </div>
+                  <p className="text-xs text-[var(--text-muted)] mt-1">
+                    Last seen {kiosk.lastSeenAt ? new Date(kiosk.lastSeenAt).toLocaleString() : 'never'}
+                    {kiosk._count && <> · {kiosk._count.clockInEntries} punches</>}
+                    {' '}· added by {kiosk.createdBy.name}
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={kiosk.identificationMode}
+                    onChange={(e) => updateKiosk(kiosk, { identificationMode: e.target.value })}
+                    className="form-input form-select text-sm"
+                    aria-label={`Identification for ${kiosk.name}`}
+                  >
+                    {IDENTIFICATION_MODES.map((mode) => (
+                      <option key={mode.value} value={mode.value}>
+                        {mode.label}
+                      </option>
+                    ))}
+                  </select>
+                  {isLocked(kiosk) && (
+                    <button onClick={() => updateKiosk(kiosk, { unlock: true })} className="btn btn-warning btn-sm">
+                      Unlock
+                    </button>
+                  )}
+                  <button
+                    onClick={() => updateKiosk(kiosk, { isActive: !kiosk.isActive })}
+                    className="btn btn-secondary btn-sm"
+                  >
+                    {kiosk.isActive ? 'Disable' : 'Enable'}
+                  </button>
+                  <button onClick={() => handleRegenerate(kiosk)} className="btn btn-secondary btn-sm">
+                    New Token
+                  </button>
+                  <button onClick={() => handleDelete(kiosk)} className="btn btn-danger btn-sm">
+                    Remove
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
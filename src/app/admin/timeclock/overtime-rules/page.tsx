@@ -0,0 +1,478 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+type OvertimeRuleSet = {
+  id: string;
+  name: string;
+  description: string | null;
+  dailyThreshold: number | null;
+  dailyDoubleTimeThreshold: number | null;
+  weeklyThreshold: number | null;
+  seventhDayRule: boolean;
+  isActive: boolean;
+  _count?: { users: number; departments: number };
+};
+
+type DepartmentOption = {
+  id: string;
+  name: string;
+  overtimeRuleSetId: string | null;
+};
+
+type Employee = {
+  id: string;
+  name: string;
+  email: string;
+  overtimeRuleSetId: string | null;
+  department: { id: string; name: string } | null;
+};
+
+// California: 1.5x over 8h/day, 2x over 12h/day, 1.5x over 40h/week, 7th consecutive day rule
+const CALIFORNIA_PRESET = { daily: '8', doubleTime: '12', weekly: '40', seventhDay: true };
+
+export default function OvertimeRulesPage() {
+  const { status } = useSession();
+  const router = useRouter();
+
+  const [ruleSets, setRuleSets] = useState<OvertimeRuleSet[]>([]);
+  const [departments, setDepartments] = useState<DepartmentOption[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state (hours)
+  const [name, setName] = useState('');
+  const [dailyHours, setDailyHours] = useState('');
+  const [doubleTimeHours, setDoubleTimeHours] = useState('');
+  const [weeklyHours, setWeeklyHours] = useState('');
+  const [seventhDayRule, setSeventhDayRule] = useState(false);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchRuleSets();
+    }
+  }, [status]);
+
+  const fetchRuleSets = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const res = await fetch('/api/timeclock/overtime-rules');
+      if (!res.ok) {
+        if (res.status === 403) {
+          router.push('/');
+          return;
+        }
+        throw new Error('Failed to fetch overtime rule sets');
+      }
+
+      const data = await res.json();
+      setRuleSets(data.ruleSets || []);
+      setDepartments(data.departments || []);
+      setEmployees(data.employees || []);
+    } catch (err) {
+      console.error('Error fetching overtime rule sets:', err);
+      setError('Failed to load overtime rule sets');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const hoursToMinutes = (value: string) => (value.trim() === '' ? null : Math.round(parseFloat(value) * 60));
+
+  const applyCaliforniaPreset = () => {
+    if (!name.trim()) setName('California');
+    setDailyHours(CALIFORNIA_PRESET.daily);
+    setDoubleTimeHours(CALIFORNIA_PRESET.doubleTime);
+    setWeeklyHours(CALIFORNIA_PRESET.weekly);
+    setSeventhDayRule(CALIFORNIA_PRESET.seventhDay);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const res = await fetch('/api/timeclock/overtime-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          dailyThreshold: hoursToMinutes(dailyHours),
+          dailyDoubleTimeThreshold: hoursToMinutes(doubleTimeHours),
+          weeklyThreshold: hoursToMinutes(weeklyHours),
+          seventhDayRule,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to create overtime rule set');
+      }
+
+      setRuleSets((prev) => [...prev, data.ruleSet].sort((a, b) => a.name.localeCompare(b.name)));
+      setName('');
+      setDailyHours('');
+      setDoubleTimeHours('');
+      setWeeklyHours('');
+      setSeventhDayRule(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateRuleSet = async (ruleSet: OvertimeRuleSet, changes: Record<string, unknown>) => {
+    try {
+      setError(null);
+
+      const res = await fetch(`/api/timeclock/overtime-rules/${ruleSet.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to update overtime rule set');
+      }
+
+      setRuleSets((prev) => prev.map((r) => (r.id === ruleSet.id ? { ...r, ...data.ruleSet } : r)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleDelete = async (ruleSet: OvertimeRuleSet) => {
+    if (!confirm(`Delete overtime rule set "${ruleSet.name}"?`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const res = await fetch(`/api/timeclock/overtime-rules/${ruleSet.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to delete overtime rule set');
+      }
+
+      setRuleSets((prev) => prev.filter((r) => r.id !== ruleSet.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleAssign = async (target: { departmentId: string } | { userId: string }, ruleSetId: string) => {
+    try {
+      setError(null);
+
+      const res = await fetch('/api/timeclock/overtime-rules/assignments', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...target, ruleSetId: ruleSetId || null }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to assign overtime rule set');
+      }
+
+      // Reload so rule set assignment counts are current
+      await fetchRuleSets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const formatThreshold = (minutes: number | null) => (minutes === null ? 'off' : `${minutes / 60}h`);
+
+  const describeRuleSet = (ruleSet: OvertimeRuleSet) => {
+    const parts = [
+      `Daily OT ${formatThreshold(ruleSet.dailyThreshold)}`,
+      `double time ${formatThreshold(ruleSet.dailyDoubleTimeThreshold)}`,
+      `weekly OT ${formatThreshold(ruleSet.weeklyThreshold)}`,
+    ];
+    if (ruleSet.seventhDayRule) parts.push('7th day rule');
+    return parts.join(' · ');
+  };
+
+  const ruleSetOptions = (currentId: string | null) =>
+    ruleSets
+      .filter((r) => r.isActive || r.id === currentId)
+      .map((ruleSet) => (
+        <option key={ruleSet.id} value={ruleSet.id}>
+          {ruleSet.name}
+        </option>
+      ));
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-[var(--bg-hover)] rounded w-64 mb-6"></div>
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-[var(--bg-hover)] rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {/* Breadcrumb */}
+      <nav className="mb-4 text-sm">
+        <ol className="flex items-center space-x-2">
+          <li>
+            <Link href="/admin/settings" className="text-[var(--accent-primary)] hover:underline">
+              Admin
+            </Link>
+          </li>
+          <li className="text-[var(--text-muted)]">/</li>
+          <li>
+            <Link href="/admin/timeclock" className="text-[var(--accent-primary)] hover:underline">
+              Timeclock
+            </Link>
+          </li>
+          <li className="text-[var(--text-muted)]">/</li>
+          <li className="text-[var(--text-secondary)]">Overtime Rules</li>
+        </ol>
+      </nav>
+
+      <h1 className="page-title mb-2">Overtime Rules</h1>
+      <p className="text-[var(--text-secondary)] mb-6">
+        Named overtime rules for staff covered by state law, such as California&apos;s daily double time and 7th
+        consecutive day rules. An employee&apos;s own rule set wins over their department&apos;s; everyone else uses the
+        overtime settings on the Timeclock configuration page.
+      </p>
+
+      {error && (
+        <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--error-muted)] bg-[var(--error-subtle)] text-[var(--error)] px-4 py-3">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {/* Create Form */}
+      <div className="card mb-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="section-title">Add Rule Set</h2>
+          <button type="button" onClick={applyCaliforniaPreset} className="btn btn-secondary btn-sm">
+            Use California Rules
+          </button>
+        </div>
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+          <div>
+            <label htmlFor="ruleSetName" className="form-label">Name</label>
+            <input
+              id="ruleSetName"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="form-input"
+              placeholder="e.g., California"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="ruleSetDaily" className="form-label">Daily OT After (hrs)</label>
+            <input
+              id="ruleSetDaily"
+              type="number"
+              value={dailyHours}
+              onChange={(e) => setDailyHours(e.target.value)}
+              className="form-input"
+              placeholder="Off"
+              min="0.5"
+              max="24"
+              step="0.5"
+            />
+          </div>
+          <div>
+            <label htmlFor="ruleSetDoubleTime" className="form-label">Double Time After (hrs)</label>
+            <input
+              id="ruleSetDoubleTime"
+              type="number"
+              value={doubleTimeHours}
+              onChange={(e) => setDoubleTimeHours(e.target.value)}
+              className="form-input"
+              placeholder="Off"
+              min="0.5"
+              max="24"
+              step="0.5"
+            />
+          </div>
+          <div>
+            <label htmlFor="ruleSetWeekly" className="form-label">Weekly OT After (hrs)</label>
+            <input
+              id="ruleSetWeekly"
+              type="number"
+              value={weeklyHours}
+              onChange={(e) => setWeeklyHours(e.target.value)}
+              className="form-input"
+              placeholder="Off"
+              min="1"
+              max="168"
+              step="0.5"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-[var(--text-secondary)] pb-2">
+            <input
+              type="checkbox"
+              checked={seventhDayRule}
+              onChange={(e) => setSeventhDayRule(e.target.checked)}
+            />
+            7th consecutive day rule
+          </label>
+          <div>
+            <button type="submit" disabled={saving || !name.trim()} className="btn btn-primary w-full">
+              {saving ? 'Adding...' : 'Add Rule Set'}
+            </button>
+          </div>
+        </form>
+        <p className="text-xs text-[var(--text-muted)] mt-3">
+          With the 7th day rule, working every day of a Sunday–Saturday week makes the first 8 hours of the 7th day
+          overtime and the rest double time.
+        </p>
+      </div>
+
+      {/* Rule Set List */}
+      <div className="card mb-6">
+        <h2 className="section-title mb-4">Rule Sets</h2>
+
+        {ruleSets.length === 0 ? (
+          <div className="empty-state">
+            <p className="empty-state-title">No overtime rule sets</p>
+            <p className="empty-state-description">
+              All employees use the global overtime settings until a rule set is added and assigned.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {ruleSets.map((ruleSet) => (
+              <div
+                key={ruleSet.id}
+                className="flex flex-col lg:flex-row lg:items-center justify-between gap-4 border-b border-[var(--border-default)] pb-4 last:border-0 last:pb-0"
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-[var(--text-primary)]">{ruleSet.name}</span>
+                    {!ruleSet.isActive && <span className="badge badge-neutral">Inactive</span>}
+                  </div>
+                  <p className="text-xs text-[var(--text-muted)] mt-1">
+                    {describeRuleSet(ruleSet)}
+                    {ruleSet._count && (
+                      <> · {ruleSet._count.departments} departments · {ruleSet._count.users} employees</>
+                    )}
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    onClick={() => updateRuleSet(ruleSet, { seventhDayRule: !ruleSet.seventhDayRule })}
+                    className="btn btn-secondary btn-sm"
+                  >
+                    {ruleSet.seventhDayRule ? 'Disable 7th Day' : 'Enable 7th Day'}
+                  </button>
+                  <button
+                    onClick={() => updateRuleSet(ruleSet, { isActive: !ruleSet.isActive })}
+                    className="btn btn-secondary btn-sm"
+                  >
+                    {ruleSet.isActive ? 'Deactivate' : 'Activate'}
+                  </button>
+                  {(ruleSet._count?.users ?? 0) + (ruleSet._count?.departments ?? 0) === 0 && (
+                    <button onClick={() => handleDelete(ruleSet)} className="btn btn-danger btn-sm">
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Department Assignments */}
+      <div className="card mb-6">
+        <h2 className="section-title mb-4">Departments</h2>
+        <div className="table-container">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Department</th>
+                <th>Rule Set</th>
+              </tr>
+            </thead>
+            <tbody>
+              {departments.map((department) => (
+                <tr key={department.id}>
+                  <td className="font-medium text-[var(--text-primary)]">{department.name}</td>
+                  <td>
+                    <select
+                      value={department.overtimeRuleSetId || ''}
+                      onChange={(e) => handleAssign({ departmentId: department.id }, e.target.value)}
+                      className="form-input form-select text-sm"
+                      aria-label={`Overtime rule set for ${department.name}`}
+                    >
+                      <option value="">Global overtime settings</option>
+                      {ruleSetOptions(department.overtimeRuleSetId)}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Employee Overrides */}
+      <div className="card">
+        <h2 className="section-title mb-4">Employee Overrides</h2>
+        <div className="table-container">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Employee</th>
+                <th>Department</th>
+                <th>Rule Set</th>
+              </tr>
+            </thead>
+            <tbody>
+              {employees.map((employee) => (
+                <tr key={employee.id}>
+                  <td>
+                    <div className="font-medium text-[var(--text-primary)]">{employee.name}</div>
+                    <div className="text-xs text-[var(--text-muted)]">{employee.email}</div>
+                  </td>
+                  <td>{employee.department?.name || '—'}</td>
+                  <td>
+                    <select
+                      value={employee.overtimeRuleSetId || ''}
+                      onChange={(e) => handleAssign({ userId: employee.id }, e.target.value)}
+                      className="form-input form-select text-sm"
+                      aria-label={`Overtime rule set for ${employee.name}`}
+                    >
+                      <option value="">Same as department</option>
+                      {ruleSetOptions(employee.overtimeRuleSetId)}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
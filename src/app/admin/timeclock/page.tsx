@@ -21,6 +21,8 @@ type OvertimeConfig = {
   alertBeforeWeekly: number | null;
   notifyEmployee: boolean;
   notifyManager: boolean;
+  overtimeMultiplier: number;
+  doubleTimeMultiplier: number;
   createdAt: string;
   updatedAt: string;
 };
@@ -41,6 +43,14 @@ type RulesConfig = {
   breakDeductionEnabled: boolean;
   breakDeductionMinutes: number;
   breakDeductionAfterHours: number;
+  mealBreakRequired: boolean;
+  mealBreakMinMinutes: number;
+  mealBreakBeforeHours: number;
+  restBreakRequired: boolean;
+  restBreakMinMinutes: number;
+  restBreakEveryHours: number;
+  scheduleComparisonEnabled: boolean;
+  scheduleGraceMinutes: number;
 };
 
 type PayPeriodInfo = {
@@ -127,6 +137,8 @@ export default function TimeclockConfigPage() {
   const [formAlertBeforeWeekly, setFormAlertBeforeWeekly] = useState('');
   const [formNotifyEmployee, setFormNotifyEmployee] = useState(true);
   const [formNotifyManager, setFormNotifyManager] = useState(true);
+  const [formOvertimeMultiplier, setFormOvertimeMultiplier] = useState('1.5');
+  const [formDoubleTimeMultiplier, setFormDoubleTimeMultiplier] = useState('2');
 
   // Rules form state
   const [formAutoApproveEnabled, setFormAutoApproveEnabled] = useState(false);
@@ -143,6 +155,14 @@ export default function TimeclockConfigPage() {
   const [formBreakDeductionMinutes, setFormBreakDeductionMinutes] = useState(30);
   const [formBreakDeductionAfterHours, setFormBreakDeductionAfterHours] = useState(6);
   const [formAttestationEnabled, setFormAttestationEnabled] = useState(false);
+  const [formMealBreakRequired, setFormMealBreakRequired] = useState(false);
+  const [formMealBreakMinMinutes, setFormMealBreakMinMinutes] = useState(30);
+  const [formMealBreakBeforeHours, setFormMealBreakBeforeHours] = useState(5);
+  const [formRestBreakRequired, setFormRestBreakRequired] = useState(false);
+  const [formRestBreakMinMinutes, setFormRestBreakMinMinutes] = useState(10);
+  const [formRestBreakEveryHours, setFormRestBreakEveryHours] = useState(4);
+  const [formScheduleComparisonEnabled, setFormScheduleComparisonEnabled] = useState(false);
+  const [formScheduleGraceMinutes, setFormScheduleGraceMinutes] = useState(5);
 
   // Locking tab state
   const [periods, setPeriods] = useState<PayPeriodInfo[]>([]);
@@ -199,6 +219,8 @@ export default function TimeclockConfigPage() {
         );
         setFormNotifyEmployee(data.overtimeConfig.notifyEmployee);
         setFormNotifyManager(data.overtimeConfig.notifyManager);
+        setFormOvertimeMultiplier(String(data.overtimeConfig.overtimeMultiplier));
+        setFormDoubleTimeMultiplier(String(data.overtimeConfig.doubleTimeMultiplier));
 
         // Rules config
         if (data.rulesConfig) {
@@ -217,6 +239,14 @@ export default function TimeclockConfigPage() {
           setFormBreakDeductionMinutes(data.rulesConfig.breakDeductionMinutes);
           setFormBreakDeductionAfterHours(data.rulesConfig.breakDeductionAfterHours);
           setFormAttestationEnabled(data.rulesConfig.attestationEnabled);
+          setFormMealBreakRequired(data.rulesConfig.mealBreakRequired);
+          setFormMealBreakMinMinutes(data.rulesConfig.mealBreakMinMinutes);
+          setFormMealBreakBeforeHours(data.rulesConfig.mealBreakBeforeHours);
+          setFormRestBreakRequired(data.rulesConfig.restBreakRequired);
+          setFormRestBreakMinMinutes(data.rulesConfig.restBreakMinMinutes);
+          setFormRestBreakEveryHours(data.rulesConfig.restBreakEveryHours);
+          setFormScheduleComparisonEnabled(data.rulesConfig.scheduleComparisonEnabled);
+          setFormScheduleGraceMinutes(data.rulesConfig.scheduleGraceMinutes);
         }
       } else {
         if (res.status === 403) {
@@ -326,6 +356,8 @@ export default function TimeclockConfigPage() {
           alertBeforeWeekly: formAlertBeforeWeekly ? parseInt(formAlertBeforeWeekly) : null,
           notifyEmployee: formNotifyEmployee,
           notifyManager: formNotifyManager,
+          overtimeMultiplier: formOvertimeMultiplier,
+          doubleTimeMultiplier: formDoubleTimeMultiplier,
         }),
       });
 
@@ -370,6 +402,14 @@ export default function TimeclockConfigPage() {
           breakDeductionMinutes: formBreakDeductionMinutes,
           breakDeductionAfterHours: formBreakDeductionAfterHours,
           attestationEnabled: formAttestationEnabled,
+          mealBreakRequired: formMealBreakRequired,
+          mealBreakMinMinutes: formMealBreakMinMinutes,
+          mealBreakBeforeHours: formMealBreakBeforeHours,
+          restBreakRequired: formRestBreakRequired,
+          restBreakMinMinutes: formRestBreakMinMinutes,
+          restBreakEveryHours: formRestBreakEveryHours,
+          scheduleComparisonEnabled: formScheduleComparisonEnabled,
+          scheduleGraceMinutes: formScheduleGraceMinutes,
         }),
       });
 
@@ -854,6 +894,56 @@ export default function TimeclockConfigPage() {
                   </div>
                 </div>
 
+                <div className="border-t border-[var(--border-default)] pt-6">
+                  <h3 className="section-title mb-4">Pay Multipliers</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {/* Overtime Multiplier */}
+                    <div>
+                      <label htmlFor="overtimeMultiplier" className="form-label mb-2">
+                        Overtime Multiplier
+                      </label>
+                      <div className="flex items-center gap-3">
+                        <input
+                          type="number"
+                          id="overtimeMultiplier"
+                          value={formOvertimeMultiplier}
+                          onChange={(e) => setFormOvertimeMultiplier(e.target.value)}
+                          placeholder="1.5"
+                          min="1"
+                          max="10"
+                          step="0.05"
+                          className="form-input w-32"
+                        />
+                        <span className="text-sm text-[var(--text-muted)]">&times; hourly rate</span>
+                      </div>
+                    </div>
+
+                    {/* Double Time Multiplier */}
+                    <div>
+                      <label htmlFor="doubleTimeMultiplier" className="form-label mb-2">
+                        Double Time Multiplier
+                      </label>
+                      <div className="flex items-center gap-3">
+                        <input
+                          type="number"
+                          id="doubleTimeMultiplier"
+                          value={formDoubleTimeMultiplier}
+                          onChange={(e) => setFormDoubleTimeMultiplier(e.target.value)}
+                          placeholder="2"
+                          min="1"
+                          max="10"
+                          step="0.05"
+                          className="form-input w-32"
+                        />
+                        <span className="text-sm text-[var(--text-muted)]">&times; hourly rate</span>
+                      </div>
+                    </div>
+                  </div>
+                  <p className="text-sm text-[var(--text-muted)] mt-1">
+                    Applied to overtime and double time hours in the labor cost report
+                  </p>
+                </div>
+
                 <div className="border-t border-[var(--border-default)] pt-6">
                   <h3 className="section-title mb-4">Notification Settings</h3>
 
@@ -1208,6 +1298,137 @@ export default function TimeclockConfigPage() {
                   </div>
                 </div>
 
+                {/* Break Compliance Section */}
+                <div className="border-t border-[var(--border-default)] pt-6">
+                  <h3 className="section-title mb-4">Break &amp; Meal Compliance</h3>
+                  <p className="text-sm text-[var(--text-muted)] mb-4">
+                    Checked against the breaks employees punch on the clock page. Shifts that break a rule are flagged for review.
+                    Punched unpaid meals replace the automatic break deduction for that shift.
+                  </p>
+                  <div className="space-y-6">
+                    <div className="space-y-4">
+                      <div className="flex items-center gap-3">
+                        <input
+                          type="checkbox"
+                          id="mealBreakRequired"
+                          checked={formMealBreakRequired}
+                          onChange={(e) => setFormMealBreakRequired(e.target.checked)}
+                          className="h-4 w-4 text-[var(--accent-primary)] focus:ring-[var(--accent-primary)] border-[var(--border-default)] rounded"
+                        />
+                        <label htmlFor="mealBreakRequired" className="text-sm text-[var(--text-secondary)]">
+                          Require an unpaid meal break
+                        </label>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-3">
+                        <input
+                          type="number"
+                          id="mealBreakMinMinutes"
+                          aria-label="Minimum meal break minutes"
+                          value={formMealBreakMinMinutes}
+                          onChange={(e) => setFormMealBreakMinMinutes(parseInt(e.target.value) || 0)}
+                          min="1"
+                          max="120"
+                          className="form-input w-24"
+                          disabled={!formMealBreakRequired}
+                        />
+                        <span className="text-sm text-[var(--text-muted)]">minute meal starting before hour</span>
+                        <input
+                          type="number"
+                          id="mealBreakBeforeHours"
+                          aria-label="Meal break required before hour"
+                          value={formMealBreakBeforeHours}
+                          onChange={(e) => setFormMealBreakBeforeHours(parseFloat(e.target.value) || 0)}
+                          min="0.5"
+                          max="24"
+                          step="0.5"
+                          className="form-input w-24"
+                          disabled={!formMealBreakRequired}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="space-y-4">
+                      <div className="flex items-center gap-3">
+                        <input
+                          type="checkbox"
+                          id="restBreakRequired"
+                          checked={formRestBreakRequired}
+                          onChange={(e) => setFormRestBreakRequired(e.target.checked)}
+                          className="h-4 w-4 text-[var(--accent-primary)] focus:ring-[var(--accent-primary)] border-[var(--border-default)] rounded"
+                        />
+                        <label htmlFor="restBreakRequired" className="text-sm text-[var(--text-secondary)]">
+                          Require paid rest breaks
+                        </label>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-3">
+                        <input
+                          type="number"
+                          id="restBreakMinMinutes"
+                          aria-label="Minimum rest break minutes"
+                          value={formRestBreakMinMinutes}
+                          onChange={(e) => setFormRestBreakMinMinutes(parseInt(e.target.value) || 0)}
+                          min="1"
+                          max="60"
+                          className="form-input w-24"
+                          disabled={!formRestBreakRequired}
+                        />
+                        <span className="text-sm text-[var(--text-muted)]">minute break for every</span>
+                        <input
+                          type="number"
+                          id="restBreakEveryHours"
+                          aria-label="Hours worked per rest break"
+                          value={formRestBreakEveryHours}
+                          onChange={(e) => setFormRestBreakEveryHours(parseFloat(e.target.value) || 0)}
+                          min="0.5"
+                          max="24"
+                          step="0.5"
+                          className="form-input w-24"
+                          disabled={!formRestBreakRequired}
+                        />
+                        <span className="text-sm text-[var(--text-muted)]">hours worked</span>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Schedule Comparison Section */}
+                <div className="border-t border-[var(--border-default)] pt-6">
+                  <h3 className="section-title mb-4">Schedule Comparison</h3>
+                  <div className="space-y-4">
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="checkbox"
+                        id="scheduleComparisonEnabled"
+                        checked={formScheduleComparisonEnabled}
+                        onChange={(e) => setFormScheduleComparisonEnabled(e.target.checked)}
+                        className="h-4 w-4 text-[var(--accent-primary)] focus:ring-[var(--accent-primary)] border-[var(--border-default)] rounded"
+                      />
+                      <label htmlFor="scheduleComparisonEnabled" className="text-sm text-[var(--text-secondary)]">
+                        Compare punches to scheduled shifts
+                      </label>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-3">
+                      <span className="text-sm text-[var(--text-muted)]">Grace period of</span>
+                      <input
+                        type="number"
+                        id="scheduleGraceMinutes"
+                        aria-label="Schedule grace period minutes"
+                        value={formScheduleGraceMinutes}
+                        onChange={(e) => setFormScheduleGraceMinutes(parseInt(e.target.value) || 0)}
+                        min="0"
+                        max="120"
+                        className="form-input w-24"
+                        disabled={!formScheduleComparisonEnabled}
+                      />
+                      <span className="text-sm text-[var(--text-muted)]">minutes</span>
+                    </div>
+                    <p className="text-sm text-[var(--text-muted)]">
+                      Managers build schedules on the Schedule page. Clock-ins past the grace period are flagged as late,
+                      clock-outs before it as early departures, and clock-ins with no scheduled shift as unscheduled.
+                    </p>
+                  </div>
+                </div>
+
                 {/* Employee Attestation Section */}
                 <div className="border-t border-[var(--border-default)] pt-6">
                   <h3 className="section-title mb-4">Employee Attestation</h3>
@@ -1401,6 +1622,9 @@ export default function TimeclockConfigPage() {
                   <li>
                     <strong>Break Deduction:</strong> Automatically deduct break time from shifts that exceed a configured length
                   </li>
+                  <li>
+                    <strong>Break Compliance:</strong> Flag shifts whose punched meal and rest breaks miss the required length or timing
+                  </li>
                   <li>
                     <strong>Attestation:</strong> Require employees to review and submit their time before manager approval
                   </li>
@@ -0,0 +1,311 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+type PayRate = {
+  id: string;
+  hourlyRate: number;
+  effectiveDate: string;
+  note: string | null;
+};
+
+type Employee = {
+  id: string;
+  name: string;
+  email: string;
+  department: { id: string; name: string } | null;
+  currentRate: number | null;
+  rates: PayRate[];
+};
+
+export default function PayRatesPage() {
+  const { status } = useSession();
+  const router = useRouter();
+
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  // Form state
+  const [userId, setUserId] = useState('');
+  const [hourlyRate, setHourlyRate] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(new Date().toLocaleDateString('en-CA'));
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchPayRates();
+    }
+  }, [status]);
+
+  const fetchPayRates = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const res = await fetch('/api/timeclock/pay-rates');
+      if (!res.ok) {
+        if (res.status === 403) {
+          router.push('/');
+          return;
+        }
+        throw new Error('Failed to fetch pay rates');
+      }
+
+      const data = await res.json();
+      setEmployees(data.employees || []);
+    } catch (err) {
+      console.error('Error fetching pay rates:', err);
+      setError('Failed to load pay rates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId || !hourlyRate || !effectiveDate) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const res = await fetch('/api/timeclock/pay-rates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          userId,
+          hourlyRate: parseFloat(hourlyRate),
+          effectiveDate,
+          note: note || null,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to add pay rate');
+      }
+
+      setHourlyRate('');
+      setNote('');
+      setExpanded(userId);
+      await fetchPayRates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (employee: Employee, rate: PayRate) => {
+    if (!confirm(`Delete ${employee.name}'s $${rate.hourlyRate.toFixed(2)}/hr rate effective ${rate.effectiveDate}?`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const res = await fetch(`/api/timeclock/pay-rates/${rate.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to delete pay rate');
+      }
+
+      await fetchPayRates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-[var(--bg-hover)] rounded w-64 mb-6"></div>
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-[var(--bg-hover)] rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {/* Breadcrumb */}
+      <nav className="mb-4 text-sm">
+        <ol className="flex items-center space-x-2">
+          <li>
+            <Link href="/admin/settings" className="text-[var(--accent-primary)] hover:underline">
+              Admin
+            </Link>
+          </li>
+          <li className="text-[var(--text-muted)]">/</li>
+          <li>
+            <Link href="/admin/timeclock" className="text-[var(--accent-primary)] hover:underline">
+              Timeclock
+            </Link>
+          </li>
+          <li className="text-[var(--text-muted)]">/</li>
+          <li className="text-[var(--text-secondary)]">Pay Rates</li>
+        </ol>
+      </nav>
+
+      <h1 className="page-title mb-2">Pay Rates</h1>
+      <p className="text-[var(--text-secondary)] mb-6">
+        Hourly rates used to cost approved time in the{' '}
+        <Link href="/timeclock/labor-cost" className="text-[var(--accent-primary)] hover:underline">labor cost report</Link>.
+        A new rate applies to time worked from its effective date; earlier time keeps the rate in effect then.
+        Overtime and double time multipliers are set on the timeclock configuration page.
+      </p>
+
+      {error && (
+        <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--error-muted)] bg-[var(--error-subtle)] text-[var(--error)] px-4 py-3">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {/* Create Form */}
+      <div className="card mb-6">
+        <h2 className="section-title mb-4">Add Pay Rate</h2>
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+          <div>
+            <label htmlFor="rateEmployee" className="form-label">Employee</label>
+            <select
+              id="rateEmployee"
+              value={userId}
+              onChange={(e) => setUserId(e.target.value)}
+              className="form-input form-select"
+              required
+            >
+              <option value="">Select employee</option>
+              {employees.map((employee) => (
+                <option key={employee.id} value={employee.id}>
+                  {employee.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="rateAmount" className="form-label">Hourly Rate ($)</label>
+            <input
+              id="rateAmount"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={hourlyRate}
+              onChange={(e) => setHourlyRate(e.target.value)}
+              className="form-input"
+              placeholder="e.g., 22.50"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="rateEffectiveDate" className="form-label">Effective Date</label>
+            <input
+              id="rateEffectiveDate"
+              type="date"
+              value={effectiveDate}
+              onChange={(e) => setEffectiveDate(e.target.value)}
+              className="form-input"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="rateNote" className="form-label">Note</label>
+            <input
+              id="rateNote"
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="form-input"
+              placeholder="e.g., Annual increase"
+            />
+          </div>
+          <div>
+            <button type="submit" disabled={saving || !userId || !hourlyRate} className="btn btn-primary w-full">
+              {saving ? 'Adding...' : 'Add Rate'}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {/* Employee List */}
+      <div className="card">
+        <h2 className="section-title mb-4">Employees</h2>
+
+        {employees.length === 0 ? (
+          <div className="empty-state">
+            <p className="empty-state-title">No active employees</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {employees.map((employee) => (
+              <div
+                key={employee.id}
+                className="border-b border-[var(--border-default)] pb-4 last:border-0 last:pb-0"
+              >
+                <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-[var(--text-primary)]">{employee.name}</span>
+                      {employee.currentRate === null && <span className="badge badge-warning">No rate</span>}
+                    </div>
+                    <p className="text-xs text-[var(--text-muted)] mt-1">
+                      {employee.department?.name || 'No department'} · {employee.rates.length}{' '}
+                      {employee.rates.length === 1 ? 'rate' : 'rates'} on file
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {employee.currentRate !== null && (
+                      <span className="font-mono text-[var(--text-primary)]">
+                        ${employee.currentRate.toFixed(2)}/hr
+                      </span>
+                    )}
+                    {employee.rates.length > 0 && (
+                      <button
+                        onClick={() => setExpanded(expanded === employee.id ? null : employee.id)}
+                        className="btn btn-secondary btn-sm"
+                      >
+                        {expanded === employee.id ? 'Hide History' : 'History'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {expanded === employee.id && (
+                  <div className="mt-3 space-y-2">
+                    {employee.rates.map((rate) => (
+                      <div
+                        key={rate.id}
+                        className="flex items-center justify-between gap-4 text-sm bg-[var(--bg-hover)] rounded px-3 py-2"
+                      >
+                        <span className="text-[var(--text-secondary)]">
+                          From {rate.effectiveDate}
+                          {rate.note && <> · {rate.note}</>}
+                        </span>
+                        <div className="flex items-center gap-3">
+                          <span className="font-mono text-[var(--text-primary)]">${rate.hourlyRate.toFixed(2)}/hr</span>
+                          <button onClick={() => handleDelete(employee, rate)} className="btn btn-danger btn-sm">
+                            Delete
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+type EarningType = 'regular' | 'overtime' | 'doubleTime' | 'leave';
+
+type ProviderSettings = {
+  companyCode: string | null;
+  batchId: string | null;
+  earningCodes: Record<EarningType, string>;
+};
+
+type PayrollProvider = {
+  id: string;
+  label: string;
+  description: string;
+  companyCodeLabel: string | null;
+  companyCodeHint: string | null;
+  employeeIdHint: string;
+  codedEarnings: EarningType[];
+  hasBatchId: boolean;
+  settings: ProviderSettings;
+};
+
+const EARNING_LABELS: Record<EarningType, string> = {
+  regular: 'Regular',
+  overtime: 'Overtime',
+  doubleTime: 'Double Time',
+  leave: 'Paid Leave',
+};
+
+export default function PayrollProvidersPage() {
+  const { status } = useSession();
+  const router = useRouter();
+
+  const [providers, setProviders] = useState<PayrollProvider[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [saved, setSaved] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchProviders();
+    }
+  }, [status]);
+
+  const fetchProviders = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const res = await fetch('/api/timeclock/payroll-providers');
+      if (!res.ok) {
+        if (res.status === 403) {
+          router.push('/');
+          return;
+        }
+        throw new Error('Failed to fetch payroll providers');
+      }
+
+      const data = await res.json();
+      setProviders(data.providers || []);
+    } catch (err) {
+      console.error('Error fetching payroll providers:', err);
+      setError('Failed to load payroll providers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSettings = (providerId: string, changes: Partial<ProviderSettings>) => {
+    setSaved(null);
+    setProviders((prev) =>
+      prev.map((p) => (p.id === providerId ? { ...p, settings: { ...p.settings, ...changes } } : p))
+    );
+  };
+
+  const handleSave = async (provider: PayrollProvider) => {
+    try {
+      setSaving(provider.id);
+      setSaved(null);
+      setError(null);
+
+      const res = await fetch(`/api/timeclock/payroll-providers/${provider.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          companyCode: provider.settings.companyCode || null,
+          batchId: provider.settings.batchId || null,
+          earningCodes: provider.settings.earningCodes,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save payroll provider settings');
+      }
+
+      updateSettings(provider.id, data.settings);
+      setSaved(provider.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-[var(--bg-hover)] rounded w-64 mb-6"></div>
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-[var(--bg-hover)] rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {/* Breadcrumb */}
+      <nav className="mb-4 text-sm">
+        <ol className="flex items-center space-x-2">
+          <li>
+            <Link href="/admin/settings" className="text-[var(--accent-primary)] hover:underline">
+              Admin
+            </Link>
+          </li>
+          <li className="text-[var(--text-muted)]">/</li>
+          <li>
+            <Link href="/admin/timeclock" className="text-[var(--accent-primary)] hover:underline">
+              Timeclock
+            </Link>
+          </li>
+          <li className="text-[var(--text-muted)]">/</li>
+          <li className="text-[var(--text-secondary)]">Payroll Providers</li>
+        </ol>
+      </nav>
+
+      <h1 className="page-title mb-2">Payroll Providers</h1>
+      <p className="text-[var(--text-secondary)] mb-6">
+        Codes used when exporting approved hours as a payroll provider&apos;s own import file.
+        Each employee also needs their payroll ID set on the{' '}
+        <Link href="/users" className="text-[var(--accent-primary)] hover:underline">Users</Link> page;
+        exports are blocked until every mapping is in place.
+      </p>
+
+      {error && (
+        <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--error-muted)] bg-[var(--error-subtle)] text-[var(--error)] px-4 py-3">
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {providers.map((provider) => (
+          <div key={provider.id} className="card">
+            <h2 className="section-title mb-1">{provider.label}</h2>
+            <p className="text-sm text-[var(--text-muted)] mb-4">
+              {provider.description}. Payroll IDs must be {provider.employeeIdHint}.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+              {provider.companyCodeLabel && (
+                <div>
+                  <label htmlFor={`${provider.id}-companyCode`} className="form-label">
+                    {provider.companyCodeLabel}
+                  </label>
+                  <input
+                    id={`${provider.id}-companyCode`}
+                    type="text"
+                    value={provider.settings.companyCode || ''}
+                    onChange={(e) => updateSettings(provider.id, { companyCode: e.target.value })}
+                    className="form-input"
+                    placeholder={provider.companyCodeHint || ''}
+                  />
+                </div>
+              )}
+              {provider.hasBatchId && (
+                <div>
+                  <label htmlFor={`${provider.id}-batchId`} className="form-label">Batch ID</label>
+                  <input
+                    id={`${provider.id}-batchId`}
+                    type="text"
+                    value={provider.settings.batchId || ''}
+                    onChange={(e) => updateSettings(provider.id, { batchId: e.target.value })}
+                    className="form-input"
+                    placeholder="Period end (MMDDYY)"
+                  />
+                </div>
+              )}
+            </div>
+
+            {provider.codedEarnings.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                {provider.codedEarnings.map((type) => (
+                  <div key={type}>
+                    <label htmlFor={`${provider.id}-${type}`} className="form-label">
+                      {EARNING_LABELS[type]} Earning Code
+                    </label>
+                    <input
+                      id={`${provider.id}-${type}`}
+                      type="text"
+                      value={provider.settings.earningCodes[type]}
+                      onChange={(e) =>
+                        updateSettings(provider.id, {
+                          earningCodes: { ...provider.settings.earningCodes, [type]: e.target.value },
+                        })
+                      }
+                      className="form-input"
+                    />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-[var(--text-secondary)] mb-4">
+                Hours go in fixed columns; no earning codes are needed.
+              </p>
+            )}
+
+            {(provider.companyCodeLabel || provider.hasBatchId || provider.codedEarnings.length > 0) && (
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => handleSave(provider)}
+                  disabled={saving !== null}
+                  className="btn btn-primary"
+                >
+                  {saving === provider.id ? 'Saving...' : 'Save'}
+                </button>
+                {saved === provider.id && (
+                  <span className="text-sm text-[var(--success)]">Saved</span>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
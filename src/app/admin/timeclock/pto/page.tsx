@@ -0,0 +1,420 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+type PtoPolicy = {
+  id: string;
+  name: string;
+  description: string | null;
+  accrualMethod: string;
+  accrualRate: number;
+  maxBalance: number | null;
+  carryoverMax: number | null;
+  isActive: boolean;
+  _count?: { users: number };
+};
+
+type Employee = {
+  id: string;
+  name: string;
+  email: string;
+  ptoPolicyId: string | null;
+  department: { id: string; name: string } | null;
+  balance: number;
+  pendingHours: number;
+};
+
+const ACCRUAL_METHOD_LABELS: Record<string, string> = {
+  PER_HOUR_WORKED: 'hours per hour worked',
+  PER_PAY_PERIOD: 'hours per pay period',
+};
+
+export default function PtoPoliciesPage() {
+  const { status } = useSession();
+  const router = useRouter();
+
+  const [policies, setPolicies] = useState<PtoPolicy[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state
+  const [name, setName] = useState('');
+  const [accrualMethod, setAccrualMethod] = useState('PER_HOUR_WORKED');
+  const [accrualRate, setAccrualRate] = useState('');
+  const [maxBalance, setMaxBalance] = useState('');
+  const [carryoverMax, setCarryoverMax] = useState('');
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchData();
+    }
+  }, [status]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [policiesRes, employeesRes] = await Promise.all([
+        fetch('/api/timeclock/pto/policies'),
+        fetch('/api/timeclock/pto/assignments'),
+      ]);
+      if (!policiesRes.ok || !employeesRes.ok) {
+        if (policiesRes.status === 403 || employeesRes.status === 403) {
+          router.push('/');
+          return;
+        }
+        throw new Error('Failed to fetch PTO policies');
+      }
+
+      const policiesData = await policiesRes.json();
+      const employeesData = await employeesRes.json();
+      setPolicies(policiesData.policies || []);
+      setEmployees(employeesData.employees || []);
+    } catch (err) {
+      console.error('Error fetching PTO policies:', err);
+      setError('Failed to load PTO policies');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const optionalHours = (value: string) => (value.trim() === '' ? null : parseFloat(value));
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !accrualRate) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const res = await fetch('/api/timeclock/pto/policies', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          accrualMethod,
+          accrualRate: parseFloat(accrualRate),
+          maxBalance: optionalHours(maxBalance),
+          carryoverMax: optionalHours(carryoverMax),
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to create PTO policy');
+      }
+
+      setPolicies((prev) =>
+        [...prev, { ...data.policy, _count: { users: 0 } }].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setName('');
+      setAccrualRate('');
+      setMaxBalance('');
+      setCarryoverMax('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updatePolicy = async (policy: PtoPolicy, changes: Record<string, unknown>) => {
+    try {
+      setError(null);
+
+      const res = await fetch(`/api/timeclock/pto/policies/${policy.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to update PTO policy');
+      }
+
+      setPolicies((prev) => prev.map((p) => (p.id === policy.id ? { ...p, ...data.policy } : p)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleDelete = async (policy: PtoPolicy) => {
+    if (!confirm(`Delete PTO policy "${policy.name}"?`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const res = await fetch(`/api/timeclock/pto/policies/${policy.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to delete PTO policy');
+      }
+
+      setPolicies((prev) => prev.filter((p) => p.id !== policy.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleAssign = async (employee: Employee, policyId: string) => {
+    try {
+      setError(null);
+
+      const res = await fetch('/api/timeclock/pto/assignments', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: employee.id, policyId: policyId || null }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to assign PTO policy');
+      }
+
+      // Reload so policy user counts and settled balances are current
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const describePolicy = (policy: PtoPolicy) => {
+    const parts = [`${policy.accrualRate} ${ACCRUAL_METHOD_LABELS[policy.accrualMethod] || policy.accrualMethod}`];
+    if (policy.maxBalance !== null) parts.push(`capped at ${policy.maxBalance} hrs`);
+    if (policy.carryoverMax !== null) parts.push(`${policy.carryoverMax} hrs carry over`);
+    return parts.join(' · ');
+  };
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-[var(--bg-hover)] rounded w-64 mb-6"></div>
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-[var(--bg-hover)] rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {/* Breadcrumb */}
+      <nav className="mb-4 text-sm">
+        <ol className="flex items-center space-x-2">
+          <li>
+            <Link href="/admin/settings" className="text-[var(--accent-primary)] hover:underline">
+              Admin
+            </Link>
+          </li>
+          <li className="text-[var(--text-muted)]">/</li>
+          <li>
+            <Link href="/admin/timeclock" className="text-[var(--accent-primary)] hover:underline">
+              Timeclock
+            </Link>
+          </li>
+          <li className="text-[var(--text-muted)]">/</li>
+          <li className="text-[var(--text-secondary)]">PTO Policies</li>
+        </ol>
+      </nav>
+
+      <h1 className="page-title mb-2">PTO Policies</h1>
+      <p className="text-[var(--text-secondary)] mb-6">
+        Paid time off accrues from approved hours worked or once per closed pay period. Balances stop growing at the cap,
+        and anything above the carryover limit is forfeited at the start of each year.
+      </p>
+
+      {error && (
+        <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--error-muted)] bg-[var(--error-subtle)] text-[var(--error)] px-4 py-3">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {/* Create Form */}
+      <div className="card mb-6">
+        <h2 className="section-title mb-4">Add Policy</h2>
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+          <div>
+            <label htmlFor="policyName" className="form-label">Name</label>
+            <input
+              id="policyName"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="form-input"
+              placeholder="e.g., Full-time"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="policyMethod" className="form-label">Accrual</label>
+            <select
+              id="policyMethod"
+              value={accrualMethod}
+              onChange={(e) => setAccrualMethod(e.target.value)}
+              className="form-input form-select"
+            >
+              <option value="PER_HOUR_WORKED">Per hour worked</option>
+              <option value="PER_PAY_PERIOD">Per pay period</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="policyRate" className="form-label">
+              {accrualMethod === 'PER_HOUR_WORKED' ? 'Hours per Hour' : 'Hours per Period'}
+            </label>
+            <input
+              id="policyRate"
+              type="number"
+              value={accrualRate}
+              onChange={(e) => setAccrualRate(e.target.value)}
+              className="form-input"
+              placeholder={accrualMethod === 'PER_HOUR_WORKED' ? 'e.g., 0.0385' : 'e.g., 4'}
+              min="0"
+              step="any"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="policyMax" className="form-label">Balance Cap</label>
+            <input
+              id="policyMax"
+              type="number"
+              value={maxBalance}
+              onChange={(e) => setMaxBalance(e.target.value)}
+              className="form-input"
+              placeholder="No cap"
+              min="0"
+              step="any"
+            />
+          </div>
+          <div>
+            <label htmlFor="policyCarryover" className="form-label">Carryover Limit</label>
+            <input
+              id="policyCarryover"
+              type="number"
+              value={carryoverMax}
+              onChange={(e) => setCarryoverMax(e.target.value)}
+              className="form-input"
+              placeholder="Unlimited"
+              min="0"
+              step="any"
+            />
+          </div>
+          <div>
+            <button type="submit" disabled={saving || !name.trim() || !accrualRate} className="btn btn-primary w-full">
+              {saving ? 'Adding...' : 'Add Policy'}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {/* Policy List */}
+      <div className="card mb-6">
+        <h2 className="section-title mb-4">Policies</h2>
+
+        {policies.length === 0 ? (
+          <div className="empty-state">
+            <p className="empty-state-title">No PTO policies</p>
+            <p className="empty-state-description">
+              Add a policy above, then assign employees to it below.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {policies.map((policy) => (
+              <div
+                key={policy.id}
+                className="flex flex-col lg:flex-row lg:items-center justify-between gap-4 border-b border-[var(--border-default)] pb-4 last:border-0 last:pb-0"
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-[var(--text-primary)]">{policy.name}</span>
+                    {!policy.isActive && <span className="badge badge-neutral">Inactive</span>}
+                  </div>
+                  <p className="text-xs text-[var(--text-muted)] mt-1">
+                    {describePolicy(policy)}
+                    {policy._count && <> · {policy._count.users} employees</>}
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    onClick={() => updatePolicy(policy, { isActive: !policy.isActive })}
+                    className="btn btn-secondary btn-sm"
+                  >
+                    {policy.isActive ? 'Deactivate' : 'Activate'}
+                  </button>
+                  {(policy._count?.users ?? 0) === 0 && (
+                    <button onClick={() => handleDelete(policy)} className="btn btn-danger btn-sm">
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Employee Assignments */}
+      <div className="card">
+        <h2 className="section-title mb-4">Employees</h2>
+        <div className="table-container">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Employee</th>
+                <th>Department</th>
+                <th>Policy</th>
+                <th className="text-right">Balance</th>
+                <th className="text-right">Pending</th>
+              </tr>
+            </thead>
+            <tbody>
+              {employees.map((employee) => (
+                <tr key={employee.id}>
+                  <td>
+                    <div className="font-medium text-[var(--text-primary)]">{employee.name}</div>
+                    <div className="text-xs text-[var(--text-muted)]">{employee.email}</div>
+                  </td>
+                  <td>{employee.department?.name || '—'}</td>
+                  <td>
+                    <select
+                      value={employee.ptoPolicyId || ''}
+                      onChange={(e) => handleAssign(employee, e.target.value)}
+                      className="form-input form-select text-sm"
+                      aria-label={`PTO policy for ${employee.name}`}
+                    >
+                      <option value="">No policy</option>
+                      {policies
+                        .filter((p) => p.isActive || p.id === employee.ptoPolicyId)
+                        .map((policy) => (
+                          <option key={policy.id} value={policy.id}>
+                            {policy.name}
+                          </option>
+                        ))}
+                    </select>
+                  </td>
+                  <td className="text-right font-mono">{employee.balance.toFixed(2)}</td>
+                  <td className="text-right font-mono">{employee.pendingHours.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,431 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { getBrowserPosition } from '@/lib/geolocation';
+
+type WorkSite = {
+  name: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+};
+
+type PunchRestriction = {
+  allowedNetworks: string[];
+  workSites: WorkSite[];
+  enforcement: 'block' | 'flag';
+  isActive: boolean;
+};
+
+type DepartmentRestriction = {
+  id: string;
+  name: string;
+  restriction: PunchRestriction | null;
+};
+
+// Form state keeps numbers as typed until save
+type WorkSiteForm = {
+  name: string;
+  latitude: string;
+  longitude: string;
+  radiusMeters: string;
+};
+
+type RestrictionForm = {
+  allowedNetworks: string;
+  workSites: WorkSiteForm[];
+  enforcement: 'block' | 'flag';
+  isActive: boolean;
+};
+
+const EMPTY_SITE: WorkSiteForm = { name: '', latitude: '', longitude: '', radiusMeters: '150' };
+
+function toForm(restriction: PunchRestriction | null): RestrictionForm {
+  return {
+    allowedNetworks: restriction?.allowedNetworks.join('\n') || '',
+    workSites: (restriction?.workSites || []).map((site) => ({
+      name: site.name,
+      latitude: String(site.latitude),
+      longitude: String(site.longitude),
+      radiusMeters: String(site.radiusMeters),
+    })),
+    enforcement: restriction?.enforcement || 'flag',
+    isActive: restriction?.isActive ?? true,
+  };
+}
+
+export default function PunchRestrictionsPage() {
+  const { status } = useSession();
+  const router = useRouter();
+
+  const [departments, setDepartments] = useState<DepartmentRestriction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<RestrictionForm>(toForm(null));
+  const [saving, setSaving] = useState(false);
+  const [locating, setLocating] = useState(false);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchRestrictions();
+    }
+  }, [status]);
+
+  const fetchRestrictions = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const res = await fetch('/api/timeclock/punch-restrictions');
+      if (!res.ok) {
+        if (res.status === 403) {
+          router.push('/');
+          return;
+        }
+        throw new Error('Failed to fetch punch restrictions');
+      }
+
+      const data = await res.json();
+      setDepartments(data.departments || []);
+    } catch (err) {
+      console.error('Error fetching punch restrictions:', err);
+      setError('Failed to load punch restrictions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEdit = (department: DepartmentRestriction) => {
+    setEditingId(department.id);
+    setForm(toForm(department.restriction));
+    setError(null);
+  };
+
+  const updateSite = (index: number, changes: Partial<WorkSiteForm>) => {
+    setForm((prev) => ({
+      ...prev,
+      workSites: prev.workSites.map((site, i) => (i === index ? { ...site, ...changes } : site)),
+    }));
+  };
+
+  const handleAddCurrentLocation = async () => {
+    setLocating(true);
+    const position = await getBrowserPosition();
+    setLocating(false);
+
+    if (!position) {
+      setError('Could not read your location. Check that the browser has location access.');
+      return;
+    }
+
+    setForm((prev) => ({
+      ...prev,
+      workSites: [
+        ...prev.workSites,
+        {
+          ...EMPTY_SITE,
+          latitude: position.latitude.toFixed(6),
+          longitude: position.longitude.toFixed(6),
+        },
+      ],
+    }));
+  };
+
+  const handleSave = async (departmentId: string) => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      const res = await fetch(`/api/timeclock/punch-restrictions/${departmentId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allowedNetworks: form.allowedNetworks
+            .split(/[\s,]+/)
+            .map((network) => network.trim())
+            .filter(Boolean),
+          workSites: form.workSites.map((site) => ({
+            name: site.name,
+            latitude: parseFloat(site.latitude),
+            longitude: parseFloat(site.longitude),
+            radiusMeters: parseInt(site.radiusMeters, 10),
+          })),
+          enforcement: form.enforcement,
+          isActive: form.isActive,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save punch restriction');
+      }
+
+      setDepartments((prev) =>
+        prev.map((d) => (d.id === departmentId ? { ...d, restriction: data.restriction } : d))
+      );
+      setEditingId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (department: DepartmentRestriction) => {
+    if (!confirm(`Remove the punch restriction for ${department.name}? Its employees will be able to punch from anywhere.`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      const res = await fetch(`/api/timeclock/punch-restrictions/${department.id}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to remove punch restriction');
+      }
+
+      setDepartments((prev) => prev.map((d) => (d.id === department.id ? { ...d, restriction: null } : d)));
+      setEditingId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-[var(--bg-hover)] rounded w-64 mb-6"></div>
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-[var(--bg-hover)] rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {/* Breadcrumb */}
+      <nav className="mb-4 text-sm">
+        <ol className="flex items-center space-x-2">
+          <li>
+            <Link href="/admin/settings" className="text-[var(--accent-primary)] hover:underline">
+              Admin
+            </Link>
+          </li>
+          <li className="text-[var(--text-muted)]">/</li>
+          <li>
+            <Link href="/admin/timeclock" className="text-[var(--accent-primary)] hover:underline">
+              Timeclock
+            </Link>
+          </li>
+          <li className="text-[var(--text-muted)]">/</li>
+          <li className="text-[var(--text-secondary)]">Punch Restrictions</li>
+        </ol>
+      </nav>
+
+      <h1 className="page-title mb-2">Punch Restrictions</h1>
+      <p className="text-[var(--text-secondary)] mb-6">
+        Limit where a department&apos;s employees can clock in and out from their own devices. A punch
+        passes when it comes from an allowed network or from within range of a work site. Kiosk punches
+        are not checked.
+      </p>
+
+      {error && (
+        <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--error-muted)] bg-[var(--error-subtle)] text-[var(--error)] px-4 py-3">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {departments.length === 0 ? (
+        <div className="card text-center text-[var(--text-secondary)]">No active departments.</div>
+      ) : (
+        <div className="space-y-4">
+          {departments.map((department) => (
+            <div key={department.id} className="card">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h2 className="section-title mb-1">{department.name}</h2>
+                  {department.restriction ? (
+                    <p className="text-sm text-[var(--text-secondary)]">
+                      {department.restriction.allowedNetworks.length} network
+                      {department.restriction.allowedNetworks.length === 1 ? '' : 's'},{' '}
+                      {department.restriction.workSites.length} work site
+                      {department.restriction.workSites.length === 1 ? '' : 's'} &middot;{' '}
+                      {department.restriction.enforcement === 'block' ? 'Blocks' : 'Flags'} punches from elsewhere
+                      {!department.restriction.isActive && ' (inactive)'}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-[var(--text-muted)]">No restriction &ndash; punches allowed from anywhere</p>
+                  )}
+                </div>
+                {editingId !== department.id && (
+                  <button onClick={() => startEdit(department)} className="btn btn-secondary btn-sm">
+                    {department.restriction ? 'Edit' : 'Add Restriction'}
+                  </button>
+                )}
+              </div>
+
+              {editingId === department.id && (
+                <div className="mt-4 pt-4 border-t border-[var(--border-default)] space-y-4">
+                  <div>
+                    <label htmlFor={`${department.id}-networks`} className="form-label">
+                      Allowed Networks
+                    </label>
+                    <textarea
+                      id={`${department.id}-networks`}
+                      value={form.allowedNetworks}
+                      onChange={(e) => setForm({ ...form, allowedNetworks: e.target.value })}
+                      className="form-input font-mono"
+                      rows={3}
+                      placeholder={'203.0.113.0/24\n2001:db8::/48'}
+                    />
+                    <p className="text-xs text-[var(--text-muted)] mt-1">
+                      One IP address or CIDR range per line. Leave empty to rely on work sites only.
+                    </p>
+                  </div>
+
+                  <div>
+                    <span className="form-label">Work Sites</span>
+                    {form.workSites.length === 0 && (
+                      <p className="text-sm text-[var(--text-muted)] mb-2">
+                        No work sites. Employees&apos; browser location is only requested when a site is set.
+                      </p>
+                    )}
+                    <div className="space-y-2">
+                      {form.workSites.map((site, index) => (
+                        <div key={index} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-center">
+                          <input
+                            type="text"
+                            value={site.name}
+                            onChange={(e) => updateSite(index, { name: e.target.value })}
+                            className="form-input"
+                            placeholder="Site name"
+                            aria-label="Site name"
+                          />
+                          <input
+                            type="number"
+                            step="any"
+                            value={site.latitude}
+                            onChange={(e) => updateSite(index, { latitude: e.target.value })}
+                            className="form-input"
+                            placeholder="Latitude"
+                            aria-label="Latitude"
+                          />
+                          <input
+                            type="number"
+                            step="any"
+                            value={site.longitude}
+                            onChange={(e) => updateSite(index, { longitude: e.target.value })}
+                            className="form-input"
+                            placeholder="Longitude"
+                            aria-label="Longitude"
+                          />
+                          <input
+                            type="number"
+                            min="10"
+                            value={site.radiusMeters}
+                            onChange={(e) => updateSite(index, { radiusMeters: e.target.value })}
+                            className="form-input"
+                            placeholder="Radius (m)"
+                            aria-label="Radius in meters"
+                          />
+                          <button
+                            onClick={() =>
+                              setForm({ ...form, workSites: form.workSites.filter((_, i) => i !== index) })
+                            }
+                            className="btn btn-secondary btn-sm"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex gap-2 mt-2">
+                      <button
+                        onClick={() => setForm({ ...form, workSites: [...form.workSites, { ...EMPTY_SITE }] })}
+                        className="btn btn-secondary btn-sm"
+                      >
+                        Add Site
+                      </button>
+                      <button
+                        onClick={handleAddCurrentLocation}
+                        disabled={locating}
+                        className="btn btn-secondary btn-sm"
+                      >
+                        {locating ? 'Locating...' : 'Add Site at My Location'}
+                      </button>
+                    </div>
+                  </div>
+
+                  <div>
+                    <span className="form-label">Punches From Elsewhere</span>
+                    <div className="flex flex-col gap-2">
+                      <label className="flex items-center gap-2 text-sm text-[var(--text-primary)]">
+                        <input
+                          type="radio"
+                          name={`${department.id}-enforcement`}
+                          checked={form.enforcement === 'flag'}
+                          onChange={() => setForm({ ...form, enforcement: 'flag' })}
+                        />
+                        Accept and flag the entry for manager review
+                      </label>
+                      <label className="flex items-center gap-2 text-sm text-[var(--text-primary)]">
+                        <input
+                          type="radio"
+                          name={`${department.id}-enforcement`}
+                          checked={form.enforcement === 'block'}
+                          onChange={() => setForm({ ...form, enforcement: 'block' })}
+                        />
+                        Block the punch
+                      </label>
+                    </div>
+                  </div>
+
+                  <label className="flex items-center gap-2 text-sm text-[var(--text-primary)]">
+                    <input
+                      type="checkbox"
+                      checked={form.isActive}
+                      onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                    />
+                    Active
+                  </label>
+
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleSave(department.id)}
+                      disabled={saving}
+                      className="btn btn-primary"
+                    >
+                      {saving ? 'Saving...' : 'Save'}
+                    </button>
+                    <button onClick={() => setEditingId(null)} disabled={saving} className="btn btn-secondary">
+                      Cancel
+                    </button>
+                    {department.restriction && (
+                      <button
+                        onClick={() => handleRemove(department)}
+                        disabled={saving}
+                        className="btn btn-danger ml-auto"
+                      >
+                        Remove Restriction
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
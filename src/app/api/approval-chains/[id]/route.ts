@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { approvalChainSchema, parseWithErrors } from '@/lib/validation';
+
+/**
+ * PUT /api/approval-chains/[id]
+ * Replace an approval chain's scope and steps.
+ * POs already in approval keep the steps they were submitted with.
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'settings', 'canManage')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage approval chains' },
+        { status: 403 }
+      );
+    }
+
+    const existing = await prisma.approvalChain.findUnique({
+      where: { id },
+      include: { steps: { orderBy: { stepOrder: 'asc' } } },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Approval chain not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const parsed = parseWithErrors(approvalChainSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { name, description, departmentId, budgetCategoryId, isActive, steps } = parsed.data;
+
+    const chain = await prisma.$transaction(async (tx) => {
+      await tx.approvalChainStep.deleteMany({ where: { chainId: id } });
+
+      return tx.approvalChain.update({
+        where: { id },
+        data: {
+          name: name.trim(),
+          description: description || null,
+          departmentId: departmentId || null,
+          budgetCategoryId: budgetCategoryId || null,
+          isActive,
+          steps: {
+            create: steps.map((step, index) => ({
+              stepOrder: index + 1,
+              name: step.name.trim(),
+              minAmount: step.minAmount,
+              approverType: step.approverType,
+              approverRoleId: step.approverType === 'ROLE' ? step.approverRoleId : null,
+              approverUserId: step.approverType === 'USER' ? step.approverUserId : null,
+            })),
+          },
+        },
+        include: {
+          department: { select: { id: true, name: true } },
+          budgetCategory: { select: { id: true, code: true, name: true } },
+          steps: {
+            orderBy: { stepOrder: 'asc' },
+            include: {
+              approverRole: { select: { id: true, name: true } },
+              approverUser: { select: { id: true, name: true, email: true } },
+            },
+          },
+        },
+      });
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'APPROVAL_CHAIN_UPDATED',
+      entityType: 'ApprovalChain',
+      entityId: id,
+      changes: {
+        before: {
+          name: existing.name,
+          departmentId: existing.departmentId,
+          budgetCategoryId: existing.budgetCategoryId,
+          isActive: existing.isActive,
+          steps: existing.steps.map((s) => ({
+            name: s.name,
+            minAmount: s.minAmount,
+            approverType: s.approverType,
+          })),
+        },
+        after: {
+          name: chain.name,
+          departmentId: chain.departmentId,
+          budgetCategoryId: chain.budgetCategoryId,
+          isActive: chain.isActive,
+          steps,
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ chain });
+  } catch (error) {
+    console.error('Error updating approval chain:', error);
+    return NextResponse.json(
+      { error: 'Failed to update approval chain' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/approval-chains/[id]
+ * Delete an approval chain
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'settings', 'canManage')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage approval chains' },
+        { status: 403 }
+      );
+    }
+
+    const existing = await prisma.approvalChain.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Approval chain not found' }, { status: 404 });
+    }
+
+    await prisma.approvalChain.delete({ where: { id } });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'APPROVAL_CHAIN_DELETED',
+      entityType: 'ApprovalChain',
+      entityId: id,
+      changes: { before: { name: existing.name } },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting approval chain:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete approval chain' },
+      { status: 500 }
+    );
+  }
+}
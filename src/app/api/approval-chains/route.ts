@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { approvalChainSchema, parseWithErrors } from '@/lib/validation';
+
+const chainInclude = {
+  department: { select: { id: true, name: true } },
+  budgetCategory: { select: { id: true, code: true, name: true } },
+  steps: {
+    orderBy: { stepOrder: 'asc' as const },
+    include: {
+      approverRole: { select: { id: true, name: true } },
+      approverUser: { select: { id: true, name: true, email: true } },
+    },
+  },
+};
+
+/**
+ * GET /api/approval-chains
+ * List all PO approval chains
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'settings', 'canManage')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to view approval chains' },
+        { status: 403 }
+      );
+    }
+
+    const chains = await prisma.approvalChain.findMany({
+      include: chainInclude,
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ chains });
+  } catch (error) {
+    console.error('Error fetching approval chains:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch approval chains' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/approval-chains
+ * Create a new approval chain with its ordered steps
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'settings', 'canManage')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage approval chains' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = parseWithErrors(approvalChainSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { name, description, departmentId, budgetCategoryId, isActive, steps } = parsed.data;
+
+    const chain = await prisma.approvalChain.create({
+      data: {
+        name: name.trim(),
+        description: description || null,
+        departmentId: departmentId || null,
+        budgetCategoryId: budgetCategoryId || null,
+        isActive,
+        steps: {
+          create: steps.map((step, index) => ({
+            stepOrder: index + 1,
+            name: step.name.trim(),
+            minAmount: step.minAmount,
+            approverType: step.approverType,
+            approverRoleId: step.approverType === 'ROLE' ? step.approverRoleId : null,
+            approverUserId: step.approverType === 'USER' ? step.approverUserId : null,
+          })),
+        },
+      },
+      include: chainInclude,
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'APPROVAL_CHAIN_CREATED',
+      entityType: 'ApprovalChain',
+      entityId: chain.id,
+      changes: {
+        after: {
+          name: chain.name,
+          departmentId: chain.departmentId,
+          budgetCategoryId: chain.budgetCategoryId,
+          steps,
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ chain }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating approval chain:', error);
+    return NextResponse.json(
+      { error: 'Failed to create approval chain' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@ import { prisma } from '@/lib/prisma';
 import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
 import { createAuditLog, getRequestContext, type AuditAction } from '@/lib/audit';
 import { parsePagination } from '@/lib/validation';
+import { checkDepartmentTargets, formatTargetBreach } from '@/lib/department-budget';
 
 /**
  * GET /api/budget-amendments
@@ -244,6 +245,31 @@ export async function POST(req: NextRequest) {
       }
     }
 
+    // Check department budget targets for whatever this adds to a department
+    const targetChanges =
+      type === 'TRANSFER_OUT' && toBudgetItem
+        ? [
+            { departmentId: budgetItem.departmentId, delta: -amount },
+            { departmentId: toBudgetItem.departmentId, delta: amount },
+          ]
+        : [{ departmentId: budgetItem.departmentId, delta: newAmount - budgetItem.budgetAmount }];
+
+    const targetBreaches = await checkDepartmentTargets(budgetItem.fiscalYear, targetChanges);
+    const blockedBreaches = targetBreaches.filter((breach) => breach.enforcement === 'BLOCK');
+
+    if (blockedBreaches.length > 0) {
+      return NextResponse.json(
+        {
+          error: `This would exceed the department budget target: ${blockedBreaches.map(formatTargetBreach).join('; ')}`,
+          targetBreaches: blockedBreaches,
+        },
+        { status: 400 }
+      );
+    }
+
+    const exceedsTarget = targetBreaches.length > 0;
+    const warnings = targetBreaches.map((breach) => `Over department target: ${formatTargetBreach(breach)}`);
+
     // Handle transfer as a transaction
     if (type === 'TRANSFER_OUT' && toBudgetItemId) {
       const result = await prisma.$transaction(async (tx) => {
@@ -260,6 +286,7 @@ export async function POST(req: NextRequest) {
             fiscalYear: budgetItem.fiscalYear,
             previousAmount: budgetItem.budgetAmount,
             newAmount: budgetItem.budgetAmount - amount,
+            exceedsTarget,
           },
         });
 
@@ -277,6 +304,7 @@ export async function POST(req: NextRequest) {
             fiscalYear: toBudgetItem!.fiscalYear,
             previousAmount: toBudgetItem!.budgetAmount,
             newAmount: toBudgetItem!.budgetAmount + amount,
+            exceedsTarget,
           },
         });
 
@@ -314,6 +342,7 @@ export async function POST(req: NextRequest) {
             from: budgetItem.code,
             to: toBudgetItem!.code,
             reason,
+            ...(exceedsTarget && { targetBreaches }),
           },
         },
         ipAddress,
@@ -323,6 +352,7 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({
         amendment: result.transferOut,
         relatedAmendment: result.transferIn,
+        warnings,
       }, { status: 201 });
     }
 
@@ -338,6 +368,7 @@ export async function POST(req: NextRequest) {
           fiscalYear: budgetItem.fiscalYear,
           previousAmount: budgetItem.budgetAmount,
           newAmount,
+          exceedsTarget,
         },
         include: {
           budgetItem: {
@@ -373,13 +404,14 @@ export async function POST(req: NextRequest) {
           previousAmount: budgetItem.budgetAmount,
           newAmount,
           reason,
+          ...(exceedsTarget && { targetBreaches }),
         },
       },
       ipAddress,
       userAgent,
     });
 
-    return NextResponse.json({ amendment }, { status: 201 });
+    return NextResponse.json({ amendment, warnings }, { status: 201 });
   } catch (error) {
     console.error('Error creating budget amendment:', error);
     return NextResponse.json(
@@ -3,6 +3,7 @@ import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
 import { createAuditLog, getRequestContext, getChanges } from '@/lib/audit';
+import { isOverdraftPolicy } from '@/lib/budget-policy';
 
 /**
  * GET /api/budget-categories/[id]
@@ -112,7 +113,7 @@ export async function PUT(
     }
 
     const body = await req.json();
-    const { code, name, description, parentId, glAccountCode, isActive } = body;
+    const { code, name, description, parentId, glAccountCode, overdraftPolicy, isActive } = body;
 
     // Validation
     if (!code || !name) {
@@ -122,6 +123,13 @@ export async function PUT(
       );
     }
 
+    if (overdraftPolicy && !isOverdraftPolicy(overdraftPolicy)) {
+      return NextResponse.json(
+        { error: 'Invalid overdraft policy' },
+        { status: 400 }
+      );
+    }
+
     // Check for duplicate code (exclude current category)
     if (code.toUpperCase() !== existing.code) {
       const duplicate = await prisma.budgetCategory.findUnique({
@@ -179,6 +187,7 @@ export async function PUT(
         description: description || null,
         parentId: parentId || null,
         glAccountCode: glAccountCode || null,
+        overdraftPolicy: overdraftPolicy || null,
         isActive: isActive !== undefined ? isActive : existing.isActive,
       },
       include: {
@@ -202,6 +211,7 @@ export async function PUT(
           description: existing.description,
           parentId: existing.parentId,
           glAccountCode: existing.glAccountCode,
+          overdraftPolicy: existing.overdraftPolicy,
           isActive: existing.isActive,
         },
         {
@@ -210,6 +220,7 @@ export async function PUT(
           description: category.description,
           parentId: category.parentId,
           glAccountCode: category.glAccountCode,
+          overdraftPolicy: category.overdraftPolicy,
           isActive: category.isActive,
         }
       ),
@@ -312,6 +323,7 @@ export async function DELETE(
           description: category.description,
           parentId: category.parentId,
           glAccountCode: category.glAccountCode,
+          overdraftPolicy: category.overdraftPolicy,
           isActive: category.isActive,
         },
       },
@@ -3,6 +3,7 @@ import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
 import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { isOverdraftPolicy } from '@/lib/budget-policy';
 
 /**
  * GET /api/budget-categories
@@ -89,7 +90,7 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { code, name, description, parentId, glAccountCode, isActive } = body;
+    const { code, name, description, parentId, glAccountCode, overdraftPolicy, isActive } = body;
 
     // Validation
     if (!code || !name) {
@@ -99,6 +100,13 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (overdraftPolicy && !isOverdraftPolicy(overdraftPolicy)) {
+      return NextResponse.json(
+        { error: 'Invalid overdraft policy' },
+        { status: 400 }
+      );
+    }
+
     // Check for duplicate code
     const existing = await prisma.budgetCategory.findUnique({
       where: { code: code.toUpperCase() },
@@ -131,6 +139,7 @@ export async function POST(req: NextRequest) {
         description: description || null,
         parentId: parentId || null,
         glAccountCode: glAccountCode || null,
+        overdraftPolicy: overdraftPolicy || null,
         isActive: isActive !== undefined ? isActive : true,
       },
       include: {
@@ -154,6 +163,7 @@ export async function POST(req: NextRequest) {
           description: category.description,
           parentId: category.parentId,
           glAccountCode: category.glAccountCode,
+          overdraftPolicy: category.overdraftPolicy,
           isActive: category.isActive,
         },
       },
@@ -85,6 +85,10 @@ export async function POST(req: NextRequest) {
             departmentId: sourceItem.departmentId,
             categoryId: sourceItem.categoryId,
             glAccountCode: sourceItem.glAccountCode,
+            accrualType: sourceItem.accrualType,
+            phasing: sourceItem.phasing,
+            phasingSchedule: sourceItem.phasingSchedule,
+            isPayroll: sourceItem.isPayroll,
             encumbered: 0, // Reset encumbered to 0
             actualSpent: 0, // Reset actual spent to 0
           },
@@ -2,6 +2,8 @@ import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { NextRequest, NextResponse } from 'next/server';
 import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { getFiscalYearStarts, getYearToDateVariance } from '@/lib/budget-phasing';
+import { getBudgetForecast } from '@/lib/budget-forecast';
 
 export async function GET(req: NextRequest) {
   try {
@@ -39,6 +41,8 @@ export async function GET(req: NextRequest) {
       },
     });
 
+    const fiscalYearStart = (await getFiscalYearStarts([fiscalYear])).get(fiscalYear)!;
+
     // Calculate summary
     const summary = {
       totalBudget: 0,
@@ -56,6 +60,7 @@ export async function GET(req: NextRequest) {
       const actualSpent = item.actualSpent || 0;
       const remaining = item.budgetAmount - actualSpent;
       const available = item.budgetAmount - encumbered - actualSpent;
+      const ytd = getYearToDateVariance(item, fiscalYearStart);
 
       summary.totalBudget += item.budgetAmount;
       summary.totalEncumbered += encumbered;
@@ -73,6 +78,10 @@ export async function GET(req: NextRequest) {
         remaining,
         variance: remaining,
         variancePercent: item.budgetAmount > 0 ? (remaining / item.budgetAmount) * 100 : 0,
+        accrualType: item.accrualType,
+        ytdBudget: ytd.ytdBudget,
+        ytdVariance: ytd.ytdVariance,
+        ytdVariancePercent: ytd.ytdVariancePercent,
       });
 
       // Department summary
@@ -124,11 +133,48 @@ export async function GET(req: NextRequest) {
       });
     }
 
+    // POs allowed to overdraw budget lines in this fiscal year
+    const budgetOverrides = await prisma.budgetOverride.findMany({
+      where: { budgetItem: { fiscalYear } },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        purchaseOrder: {
+          select: { id: true, poNumber: true, status: true },
+        },
+        budgetItem: {
+          select: { code: true, description: true },
+        },
+        overriddenBy: {
+          select: { name: true },
+        },
+      },
+    });
+
+    const overrides = budgetOverrides.map((override) => ({
+      id: override.id,
+      createdAt: override.createdAt,
+      purchaseOrderId: override.purchaseOrder.id,
+      poNumber: override.purchaseOrder.poNumber,
+      poStatus: override.purchaseOrder.status,
+      budgetItemCode: override.budgetItem.code,
+      budgetItemDescription: override.budgetItem.description,
+      requestedAmount: override.requestedAmount,
+      availableAmount: override.availableAmount,
+      overdraftAmount: override.overdraftAmount,
+      justification: override.justification,
+      overriddenBy: override.overriddenBy.name,
+    }));
+
+    // Projected year-end spend per line, department and category
+    const forecast = await getBudgetForecast(fiscalYear);
+
     return NextResponse.json({
       summary,
       variance: varianceData,
       departments,
       yoy: yoyData,
+      overrides,
+      forecast,
     });
   } catch (error) {
     console.error('Error fetching budget dashboard:', error);
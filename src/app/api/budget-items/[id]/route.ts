@@ -3,11 +3,106 @@ import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
 import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { cache, CacheKeys } from '@/lib/cache';
+import { validatePhasing } from '@/lib/budget-phasing';
 
 type RouteParams = {
   params: Promise<{ id: string }>;
 };
 
+/**
+ * PUT /api/budget-items/[id]
+ * Update a budget item's accrual type, phasing schedule and payroll flag
+ */
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'budgetItems', 'canManage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const budgetItem = await prisma.budgetItem.findUnique({
+      where: { id },
+    });
+
+    if (!budgetItem || !budgetItem.isActive) {
+      return NextResponse.json({ error: 'Budget item not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const accrualType = body.accrualType ?? budgetItem.accrualType;
+    const phasing = body.phasing ?? budgetItem.phasing;
+    const phasingSchedule: number[] | null = phasing === 'CUSTOM' ? body.phasingSchedule : null;
+    const isPayroll: boolean = body.isPayroll ?? budgetItem.isPayroll;
+
+    if (!['ANNUAL', 'MONTHLY', 'QUARTERLY'].includes(accrualType)) {
+      return NextResponse.json({ error: 'Invalid accrual type' }, { status: 400 });
+    }
+
+    if (isPayroll && !budgetItem.departmentId) {
+      return NextResponse.json({ error: 'A payroll budget item needs a department' }, { status: 400 });
+    }
+
+    const phasingError = validatePhasing(accrualType, phasing, phasingSchedule, budgetItem.budgetAmount);
+    if (phasingError) {
+      return NextResponse.json({ error: phasingError }, { status: 400 });
+    }
+
+    const item = await prisma.budgetItem.update({
+      where: { id },
+      data: {
+        accrualType,
+        phasing,
+        phasingSchedule: phasingSchedule ? JSON.stringify(phasingSchedule) : null,
+        isPayroll: !!isPayroll,
+      },
+    });
+
+    cache.delete(CacheKeys.budgetItems());
+    cache.delete(CacheKeys.formData());
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'BUDGET_ITEM_UPDATED',
+      entityType: 'BudgetItem',
+      entityId: id,
+      changes: {
+        before: {
+          accrualType: budgetItem.accrualType,
+          phasing: budgetItem.phasing,
+          phasingSchedule: budgetItem.phasingSchedule,
+          isPayroll: budgetItem.isPayroll,
+        },
+        after: {
+          accrualType: item.accrualType,
+          phasing: item.phasing,
+          phasingSchedule: item.phasingSchedule,
+          isPayroll: item.isPayroll,
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ item });
+  } catch (error) {
+    console.error('Error updating budget item:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
 export async function DELETE(req: NextRequest, { params }: RouteParams) {
   try {
     const session = await auth();
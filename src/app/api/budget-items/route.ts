@@ -4,57 +4,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
 import { cache, CacheKeys } from '@/lib/cache';
 import { parsePagination } from '@/lib/validation';
-
-/**
- * Calculate accrued budget amount based on fiscal year progress
- */
-function calculateAccruedAmount(
-  totalBudget: number,
-  accrualType: string,
-  fiscalYear: number
-): number {
-  if (accrualType === 'ANNUAL') {
-    // Annual accrual: full budget available immediately
-    return totalBudget;
-  }
-
-  // Get fiscal year start date from settings (default to January 1)
-  // TODO: Read from system settings when fiscal year management is implemented
-  const fiscalYearStart = new Date(fiscalYear, 0, 1); // January 1
-  const fiscalYearEnd = new Date(fiscalYear, 11, 31, 23, 59, 59); // December 31
-
-  const now = new Date();
-
-  // If we're before the fiscal year, nothing is accrued
-  if (now < fiscalYearStart) {
-    return 0;
-  }
-
-  // If we're after the fiscal year, everything is accrued
-  if (now > fiscalYearEnd) {
-    return totalBudget;
-  }
-
-  // Calculate progress through fiscal year
-  const totalDuration = fiscalYearEnd.getTime() - fiscalYearStart.getTime();
-  const elapsed = now.getTime() - fiscalYearStart.getTime();
-  const progress = elapsed / totalDuration;
-
-  if (accrualType === 'MONTHLY') {
-    // Monthly accrual: proportional to months elapsed
-    const monthsInYear = 12;
-    const monthsElapsed = Math.floor(progress * monthsInYear);
-    return (totalBudget / monthsInYear) * (monthsElapsed + 1); // +1 for current month
-  } else if (accrualType === 'QUARTERLY') {
-    // Quarterly accrual: proportional to quarters elapsed
-    const quartersInYear = 4;
-    const quartersElapsed = Math.floor(progress * quartersInYear);
-    return (totalBudget / quartersInYear) * (quartersElapsed + 1); // +1 for current quarter
-  }
-
-  // Default to annual if unknown type
-  return totalBudget;
-}
+import {
+  getFiscalYearStarts,
+  getPhasedBudgetToDate,
+  parsePhasingSchedule,
+  validatePhasing,
+} from '@/lib/budget-phasing';
 
 export async function GET(req: NextRequest) {
   try {
@@ -131,13 +86,10 @@ export async function GET(req: NextRequest) {
     });
 
     // Calculate accrued amounts and availability for each budget item
+    const fiscalYearStarts = await getFiscalYearStarts(items.map((item) => item.fiscalYear));
     const itemsWithCalculations = items.map((item) => {
-      // Calculate accrued amount based on fiscal year progress
-      const accruedAmount = calculateAccruedAmount(
-        item.budgetAmount,
-        item.accrualType,
-        item.fiscalYear
-      );
+      // Accrued amount is the phased budget released so far this fiscal year
+      const accruedAmount = getPhasedBudgetToDate(item, fiscalYearStarts.get(item.fiscalYear)!);
 
       // Available = Accrued - Encumbered - ActualSpent
       const available = Math.max(0, accruedAmount - item.encumbered - item.actualSpent);
@@ -152,6 +104,8 @@ export async function GET(req: NextRequest) {
         actualSpent: item.actualSpent,
         available,
         remaining,
+        phasingSchedule: parsePhasingSchedule(item.phasingSchedule),
+        fiscalYearStart: fiscalYearStarts.get(item.fiscalYear),
         // Legacy field for compatibility
         spent: item.actualSpent,
       };
@@ -195,7 +149,17 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json();
-    const { code, description, budgetAmount, departmentId, fiscalYear, accrualType } = body;
+    const {
+      code,
+      description,
+      budgetAmount,
+      departmentId,
+      fiscalYear,
+      accrualType,
+      phasing,
+      phasingSchedule,
+      isPayroll,
+    } = body;
 
     if (!code || budgetAmount === undefined) {
       return NextResponse.json(
@@ -210,6 +174,25 @@ export async function POST(request: Request) {
       ? accrualType
       : 'ANNUAL';
 
+    // Posted labor cost is matched to payroll lines by department
+    if (isPayroll && !departmentId) {
+      return NextResponse.json(
+        { error: 'A payroll budget item needs a department' },
+        { status: 400 }
+      );
+    }
+
+    const finalPhasing = phasing || 'EVEN';
+    const phasingError = validatePhasing(
+      finalAccrualType,
+      finalPhasing,
+      phasingSchedule,
+      parseFloat(budgetAmount)
+    );
+    if (phasingError) {
+      return NextResponse.json({ error: phasingError }, { status: 400 });
+    }
+
     const item = await prisma.budgetItem.create({
       data: {
         code,
@@ -218,6 +201,9 @@ export async function POST(request: Request) {
         departmentId: departmentId || null,
         fiscalYear: fiscalYear || new Date().getFullYear(),
         accrualType: finalAccrualType,
+        phasing: finalPhasing,
+        phasingSchedule: finalPhasing === 'CUSTOM' ? JSON.stringify(phasingSchedule) : null,
+        isPayroll: !!isPayroll,
       },
     });
 
@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { getDepartmentBudgetTree, isTargetEnforcement } from '@/lib/department-budget';
+
+/**
+ * GET /api/department-budgets
+ * Department targets vs allocated, amended and spent line budgets,
+ * rolled up through the department hierarchy
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { permissions } = userWithPerms;
+    const canView =
+      hasPermission(permissions, 'budgetItems', 'canViewAllCategories') ||
+      hasPermission(permissions, 'budgetItems', 'canExportReports');
+
+    if (!canView) {
+      return NextResponse.json(
+        { error: 'You do not have permission to view department budgets' },
+        { status: 403 }
+      );
+    }
+
+    const fiscalYear = parseInt(
+      req.nextUrl.searchParams.get('fiscalYear') || String(new Date().getFullYear()),
+      10
+    );
+
+    if (isNaN(fiscalYear) || fiscalYear < 2000 || fiscalYear > 2100) {
+      return NextResponse.json({ error: 'Invalid fiscal year' }, { status: 400 });
+    }
+
+    const departments = await getDepartmentBudgetTree(fiscalYear);
+    const topLevel = departments.filter((node) => node.depth === 0);
+
+    const summary = {
+      totalTarget: topLevel.reduce((sum, node) => sum + (node.target ?? node.childTargets), 0),
+      totalAllocated: topLevel.reduce((sum, node) => sum + node.rollup.allocated, 0),
+      totalAmended: topLevel.reduce((sum, node) => sum + node.rollup.amended, 0),
+      totalSpent: topLevel.reduce((sum, node) => sum + node.rollup.spent, 0),
+      overTargetCount: departments.filter((node) => node.overTarget !== null && node.overTarget > 0.005).length,
+    };
+
+    return NextResponse.json({
+      fiscalYear,
+      departments,
+      summary,
+      canManage: hasPermission(permissions, 'budgetItems', 'canManage'),
+    });
+  } catch (error) {
+    console.error('Error fetching department budgets:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch department budgets' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/department-budgets
+ * Set or remove (targetAmount: null) a department's budget target for a fiscal year
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'budgetItems', 'canManage')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to set department budget targets' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const { departmentId, targetAmount } = body;
+    const fiscalYear = parseInt(body.fiscalYear, 10);
+    const enforcement = body.enforcement ?? 'WARN';
+
+    if (!departmentId || isNaN(fiscalYear)) {
+      return NextResponse.json(
+        { error: 'Department and fiscal year are required' },
+        { status: 400 }
+      );
+    }
+
+    if (targetAmount !== null && (typeof targetAmount !== 'number' || !isFinite(targetAmount) || targetAmount < 0)) {
+      return NextResponse.json(
+        { error: 'Target amount must be zero or greater' },
+        { status: 400 }
+      );
+    }
+
+    if (!isTargetEnforcement(enforcement)) {
+      return NextResponse.json({ error: 'Invalid enforcement' }, { status: 400 });
+    }
+
+    const department = await prisma.department.findUnique({
+      where: { id: departmentId },
+      select: { id: true, name: true },
+    });
+
+    if (!department) {
+      return NextResponse.json({ error: 'Department not found' }, { status: 404 });
+    }
+
+    const closedYear = await prisma.fiscalYear.findFirst({
+      where: { year: fiscalYear, status: 'HARD_CLOSED' },
+      select: { id: true },
+    });
+
+    if (closedYear) {
+      return NextResponse.json(
+        { error: `FY ${fiscalYear} is hard closed` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.departmentBudgetTarget.findUnique({
+      where: { departmentId_fiscalYear: { departmentId, fiscalYear } },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+
+    if (targetAmount === null) {
+      if (existing) {
+        await prisma.departmentBudgetTarget.delete({ where: { id: existing.id } });
+
+        await createAuditLog({
+          userId: session.user.id,
+          action: 'DEPARTMENT_BUDGET_TARGET_REMOVED',
+          entityType: 'DepartmentBudgetTarget',
+          entityId: existing.id,
+          changes: {
+            before: {
+              department: department.name,
+              fiscalYear,
+              targetAmount: existing.targetAmount,
+              enforcement: existing.enforcement,
+            },
+          },
+          ipAddress,
+          userAgent,
+        });
+      }
+
+      return NextResponse.json({ target: null });
+    }
+
+    const target = await prisma.departmentBudgetTarget.upsert({
+      where: { departmentId_fiscalYear: { departmentId, fiscalYear } },
+      create: { departmentId, fiscalYear, targetAmount, enforcement },
+      update: { targetAmount, enforcement },
+    });
+
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'DEPARTMENT_BUDGET_TARGET_SET',
+      entityType: 'DepartmentBudgetTarget',
+      entityId: target.id,
+      changes: {
+        before: existing
+          ? { targetAmount: existing.targetAmount, enforcement: existing.enforcement }
+          : undefined,
+        after: { department: department.name, fiscalYear, targetAmount, enforcement },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ target });
+  } catch (error) {
+    console.error('Error setting department budget target:', error);
+    return NextResponse.json(
+      { error: 'Failed to set department budget target' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { getSettings } from '@/lib/settings';
+import { calculateExpenseEntry } from '@/lib/expense-entries';
+import { EDITABLE_EXPENSE_REPORT_STATUSES, refreshExpenseReportTotals } from '@/lib/expense-reports';
+import { expenseEntrySchema, parseWithErrors } from '@/lib/validation';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * Load an entry the user owns, refusing ones on a report that is being
+ * reviewed or has been paid
+ */
+async function getEditableEntry(id: string, userId: string) {
+  const entry = await prisma.expenseEntry.findUnique({
+    where: { id },
+    include: { expenseReport: { select: { id: true, status: true } } },
+  });
+
+  if (!entry || entry.userId !== userId) {
+    return { response: NextResponse.json({ error: 'Expense entry not found' }, { status: 404 }) };
+  }
+
+  if (entry.expenseReport && !EDITABLE_EXPENSE_REPORT_STATUSES.includes(entry.expenseReport.status)) {
+    return {
+      response: NextResponse.json(
+        { error: `This entry is on a ${entry.expenseReport.status} expense report and can no longer be changed` },
+        { status: 400 }
+      ),
+    };
+  }
+
+  return { entry };
+}
+
+/**
+ * PUT /api/expense-entries/[id]
+ * Correct a mileage or per diem entry. The amount is recalculated at the
+ * rate in effect on its date.
+ */
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const result = await getEditableEntry(id, session.user.id);
+    if ('response' in result) {
+      return result.response;
+    }
+    const existing = result.entry;
+
+    const body = await req.json();
+    const parsed = parseWithErrors(expenseEntrySchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    if (parsed.data.budgetCategoryId) {
+      const category = await prisma.budgetCategory.findUnique({
+        where: { id: parsed.data.budgetCategoryId },
+        select: { id: true },
+      });
+      if (!category) {
+        return NextResponse.json({ error: 'Budget category not found' }, { status: 400 });
+      }
+    }
+
+    const calculated = calculateExpenseEntry(parsed.data, getSettings().expenses);
+    if ('error' in calculated) {
+      return NextResponse.json({ error: calculated.error }, { status: 400 });
+    }
+
+    const entry = await prisma.expenseEntry.update({
+      where: { id },
+      data: calculated.data,
+    });
+
+    if (existing.expenseReportId) {
+      await refreshExpenseReportTotals(existing.expenseReportId);
+    }
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'EXPENSE_ENTRY_UPDATED',
+      entityType: 'ExpenseEntry',
+      entityId: id,
+      changes: {
+        before: { type: existing.type, expenseDate: existing.expenseDate, rate: existing.rate, amount: existing.amount },
+        after: { type: entry.type, expenseDate: entry.expenseDate, rate: entry.rate, amount: entry.amount },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error('Error updating expense entry:', error);
+    return NextResponse.json(
+      { error: 'Failed to update expense entry' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/expense-entries/[id]
+ */
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const result = await getEditableEntry(id, session.user.id);
+    if ('response' in result) {
+      return result.response;
+    }
+    const existing = result.entry;
+
+    await prisma.expenseEntry.delete({ where: { id } });
+
+    if (existing.expenseReportId) {
+      await refreshExpenseReportTotals(existing.expenseReportId);
+    }
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'EXPENSE_ENTRY_DELETED',
+      entityType: 'ExpenseEntry',
+      entityId: id,
+      changes: {
+        before: { type: existing.type, expenseDate: existing.expenseDate, amount: existing.amount },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting expense entry:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete expense entry' },
+      { status: 500 }
+    );
+  }
+}
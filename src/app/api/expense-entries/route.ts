@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { getSettings } from '@/lib/settings';
+import { calculateExpenseEntry, getMileageRateOnDate } from '@/lib/expense-entries';
+import { expenseEntrySchema, parseWithErrors } from '@/lib/validation';
+
+/**
+ * GET /api/expense-entries
+ * The current user's mileage and per diem entries, with the rates in effect
+ * today so the form can preview amounts
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const entries = await prisma.expenseEntry.findMany({
+      where: { userId: session.user.id },
+      include: {
+        budgetCategory: { select: { id: true, name: true } },
+        expenseReport: { select: { id: true, title: true, status: true } },
+      },
+      orderBy: { expenseDate: 'desc' },
+      take: 200,
+    });
+
+    const { expenses } = getSettings();
+    const today = new Date().toISOString().split('T')[0];
+
+    return NextResponse.json({
+      entries,
+      rates: {
+        distanceUnit: expenses.distanceUnit,
+        mileageRate: getMileageRateOnDate(expenses.mileageRates, today),
+        perDiem: expenses.perDiem,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching expense entries:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch expense entries' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/expense-entries
+ * Record a mileage or per diem claim. The rate comes from settings, never the
+ * request.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'expenseReports', 'canCreate')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const parsed = parseWithErrors(expenseEntrySchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    if (parsed.data.budgetCategoryId) {
+      const category = await prisma.budgetCategory.findUnique({
+        where: { id: parsed.data.budgetCategoryId },
+        select: { id: true },
+      });
+      if (!category) {
+        return NextResponse.json({ error: 'Budget category not found' }, { status: 400 });
+      }
+    }
+
+    const calculated = calculateExpenseEntry(parsed.data, getSettings().expenses);
+    if ('error' in calculated) {
+      return NextResponse.json({ error: calculated.error }, { status: 400 });
+    }
+
+    const entry = await prisma.expenseEntry.create({
+      data: { ...calculated.data, userId: session.user.id },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'EXPENSE_ENTRY_CREATED',
+      entityType: 'ExpenseEntry',
+      entityId: entry.id,
+      changes: {
+        after: { type: entry.type, expenseDate: entry.expenseDate, rate: entry.rate, amount: entry.amount },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating expense entry:', error);
+    return NextResponse.json(
+      { error: 'Failed to create expense entry' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { expensePolicySchema, parseWithErrors } from '@/lib/validation';
+
+/**
+ * PUT /api/expense-policies/[id]
+ * Update an expense policy. Receipts keep their stored violations until they
+ * are next edited.
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'settings', 'canManage')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage expense policies' },
+        { status: 403 }
+      );
+    }
+
+    const existing = await prisma.expensePolicy.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Expense policy not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const parsed = parseWithErrors(expensePolicySchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { name, description, rule, departmentId, budgetCategoryId, amount, maxDays, merchants, isActive } = parsed.data;
+
+    const policy = await prisma.expensePolicy.update({
+      where: { id },
+      data: {
+        name,
+        description: description || null,
+        rule,
+        departmentId: departmentId || null,
+        budgetCategoryId: budgetCategoryId || null,
+        amount: amount ?? null,
+        maxDays: maxDays ?? null,
+        merchants: merchants?.trim() || null,
+        isActive,
+      },
+      include: {
+        department: { select: { id: true, name: true } },
+        budgetCategory: { select: { id: true, code: true, name: true } },
+        _count: { select: { violations: true } },
+      },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'EXPENSE_POLICY_UPDATED',
+      entityType: 'ExpensePolicy',
+      entityId: id,
+      changes: {
+        before: {
+          name: existing.name,
+          rule: existing.rule,
+          departmentId: existing.departmentId,
+          budgetCategoryId: existing.budgetCategoryId,
+          amount: existing.amount,
+          maxDays: existing.maxDays,
+          merchants: existing.merchants,
+          isActive: existing.isActive,
+        },
+        after: {
+          name: policy.name,
+          rule: policy.rule,
+          departmentId: policy.departmentId,
+          budgetCategoryId: policy.budgetCategoryId,
+          amount: policy.amount,
+          maxDays: policy.maxDays,
+          merchants: policy.merchants,
+          isActive: policy.isActive,
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error('Error updating expense policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to update expense policy' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/expense-policies/[id]
+ * Delete an expense policy and the violations it raised
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'settings', 'canManage')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage expense policies' },
+        { status: 403 }
+      );
+    }
+
+    const existing = await prisma.expensePolicy.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Expense policy not found' }, { status: 404 });
+    }
+
+    await prisma.expensePolicy.delete({ where: { id } });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'EXPENSE_POLICY_DELETED',
+      entityType: 'ExpensePolicy',
+      entityId: id,
+      changes: { before: { name: existing.name, rule: existing.rule } },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting expense policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete expense policy' },
+      { status: 500 }
+    );
+  }
+}
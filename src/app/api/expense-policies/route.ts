@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { expensePolicySchema, parseWithErrors } from '@/lib/validation';
+
+const policyInclude = {
+  department: { select: { id: true, name: true } },
+  budgetCategory: { select: { id: true, code: true, name: true } },
+  _count: { select: { violations: true } },
+};
+
+/**
+ * GET /api/expense-policies
+ * List all expense policies
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'settings', 'canManage')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to view expense policies' },
+        { status: 403 }
+      );
+    }
+
+    const policies = await prisma.expensePolicy.findMany({
+      include: policyInclude,
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ policies });
+  } catch (error) {
+    console.error('Error fetching expense policies:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch expense policies' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/expense-policies
+ * Create an expense policy. It is checked against receipts from their next
+ * create or edit.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'settings', 'canManage')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage expense policies' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = parseWithErrors(expensePolicySchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { name, description, rule, departmentId, budgetCategoryId, amount, maxDays, merchants, isActive } = parsed.data;
+
+    const policy = await prisma.expensePolicy.create({
+      data: {
+        name,
+        description: description || null,
+        rule,
+        departmentId: departmentId || null,
+        budgetCategoryId: budgetCategoryId || null,
+        amount: amount ?? null,
+        maxDays: maxDays ?? null,
+        merchants: merchants?.trim() || null,
+        isActive,
+      },
+      include: policyInclude,
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'EXPENSE_POLICY_CREATED',
+      entityType: 'ExpensePolicy',
+      entityId: policy.id,
+      changes: {
+        after: {
+          name: policy.name,
+          rule: policy.rule,
+          departmentId: policy.departmentId,
+          budgetCategoryId: policy.budgetCategoryId,
+          amount: policy.amount,
+          maxDays: policy.maxDays,
+          merchants: policy.merchants,
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ policy }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating expense policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to create expense policy' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { canReviewExpenseReport } from '@/lib/expense-reports';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * POST /api/expense-reports/[id]/approve
+ * Approve a submitted report. Its reimbursable amount becomes due to the
+ * employee and the report shows up in the accounts payable export. Suspected
+ * duplicate receipts must be resolved first.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { user, permissions } = userWithPerms;
+
+    if (!hasPermission(permissions, 'expenseReports', 'canApprove')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to approve expense reports' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const report = await prisma.expenseReport.findUnique({
+      where: { id },
+      include: { user: { select: { id: true, name: true, departmentId: true } } },
+    });
+
+    if (!report || report.status === 'draft') {
+      return NextResponse.json({ error: 'Expense report not found' }, { status: 404 });
+    }
+
+    if (report.userId === user.id) {
+      return NextResponse.json({ error: 'Cannot approve own expense reports' }, { status: 403 });
+    }
+
+    if (!canReviewExpenseReport(report, user, permissions)) {
+      return NextResponse.json(
+        { error: 'You can only approve expense reports in your department' },
+        { status: 403 }
+      );
+    }
+
+    if (report.status !== 'submitted') {
+      return NextResponse.json(
+        { error: `Expense report is already ${report.status}` },
+        { status: 400 }
+      );
+    }
+
+    const suspectedDuplicates = await prisma.receipt.count({
+      where: { expenseReportId: id, duplicateStatus: 'suspected' },
+    });
+    if (suspectedDuplicates > 0) {
+      return NextResponse.json(
+        { error: 'Resolve the suspected duplicate receipts before approving' },
+        { status: 400 }
+      );
+    }
+
+    // Only review it if it is still submitted, so a concurrent approve and reject can't both succeed
+    const { count } = await prisma.expenseReport.updateMany({
+      where: { id, status: 'submitted' },
+      data: {
+        status: 'approved',
+        reviewedById: user.id,
+        reviewedAt: new Date(),
+        reviewNote: null,
+      },
+    });
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Expense report has already been reviewed' },
+        { status: 400 }
+      );
+    }
+    const updated = await prisma.expenseReport.findUniqueOrThrow({ where: { id } });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: user.id,
+      action: 'EXPENSE_REPORT_APPROVED',
+      entityType: 'ExpenseReport',
+      entityId: id,
+      changes: {
+        before: { status: report.status },
+        after: { status: 'approved', reimbursableAmount: report.reimbursableAmount },
+        employeeName: report.user.name,
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ report: updated });
+  } catch (error) {
+    console.error('Error approving expense report:', error);
+    return NextResponse.json(
+      { error: 'Failed to approve expense report' },
+      { status: 500 }
+    );
+  }
+}
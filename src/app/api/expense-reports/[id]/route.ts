@@ -0,0 +1,278 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import {
+  canReviewExpenseReport,
+  canViewExpenseReport,
+  EDITABLE_EXPENSE_REPORT_STATUSES,
+  setExpenseReportItems,
+  summarizeExpenseReport,
+  type ExpensePaymentMethod,
+} from '@/lib/expense-reports';
+import { policyViolationSelect } from '@/lib/expense-policy';
+import { expenseReportSchema, parseWithErrors } from '@/lib/validation';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+const receiptSelect = {
+  id: true,
+  merchantName: true,
+  receiptDate: true,
+  totalAmount: true,
+  currency: true,
+  convertedAmount: true,
+  paymentMethod: true,
+  status: true,
+  thumbnailUrl: true,
+  budgetCategory: { select: { id: true, name: true } },
+  policyViolations: { select: policyViolationSelect },
+  duplicateStatus: true,
+  duplicateReason: true,
+  duplicateOf: { select: { id: true, merchantName: true, user: { select: { name: true } } } },
+} as const;
+
+const entrySelect = {
+  id: true,
+  type: true,
+  expenseDate: true,
+  endDate: true,
+  description: true,
+  startLocation: true,
+  endLocation: true,
+  distance: true,
+  distanceUnit: true,
+  location: true,
+  days: true,
+  rate: true,
+  amount: true,
+  budgetCategory: { select: { id: true, name: true } },
+} as const;
+
+/**
+ * GET /api/expense-reports/[id]
+ * An expense report with its receipts, their policy violations, and its
+ * mileage and per diem entries. The owner of an editable report also gets the
+ * items they can still add.
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { user, permissions } = userWithPerms;
+    const { id } = await params;
+
+    const report = await prisma.expenseReport.findUnique({
+      where: { id },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            departmentId: true,
+            department: { select: { id: true, name: true } },
+          },
+        },
+        reviewedBy: { select: { id: true, name: true } },
+        receipts: { select: receiptSelect, orderBy: { receiptDate: 'asc' } },
+        entries: { select: entrySelect, orderBy: { expenseDate: 'asc' } },
+      },
+    });
+
+    if (!report || (report.status === 'draft' && report.userId !== user.id)) {
+      return NextResponse.json({ error: 'Expense report not found' }, { status: 404 });
+    }
+
+    if (!canViewExpenseReport(report, user, permissions)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const canEdit = report.userId === user.id && EDITABLE_EXPENSE_REPORT_STATUSES.includes(report.status);
+
+    const [availableReceipts, availableEntries] = canEdit
+      ? await Promise.all([
+          prisma.receipt.findMany({
+            where: { userId: user.id, expenseReportId: null },
+            select: receiptSelect,
+            orderBy: { receiptDate: 'desc' },
+            take: 200,
+          }),
+          prisma.expenseEntry.findMany({
+            where: { userId: user.id, expenseReportId: null },
+            select: entrySelect,
+            orderBy: { expenseDate: 'desc' },
+            take: 200,
+          }),
+        ])
+      : [[], []];
+
+    return NextResponse.json({
+      report,
+      totals: summarizeExpenseReport(report.receipts, report.entries),
+      availableReceipts,
+      availableEntries,
+      canEdit,
+      canReview: report.status === 'submitted' && canReviewExpenseReport(report, user, permissions),
+    });
+  } catch (error) {
+    console.error('Error fetching expense report:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch expense report' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/expense-reports/[id]
+ * Edit a draft or rejected report: title, business purpose, which receipts
+ * are on it and how each was paid, and which mileage and per diem entries
+ */
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const existing = await prisma.expenseReport.findUnique({
+      where: { id },
+      include: {
+        receipts: { select: { id: true, paymentMethod: true } },
+        entries: { select: { id: true } },
+      },
+    });
+
+    if (!existing || existing.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Expense report not found' }, { status: 404 });
+    }
+
+    if (!EDITABLE_EXPENSE_REPORT_STATUSES.includes(existing.status)) {
+      return NextResponse.json(
+        { error: `A ${existing.status} expense report can no longer be changed` },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = parseWithErrors(expenseReportSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { title, businessPurpose, receipts, entryIds } = parsed.data;
+
+    if (receipts || entryIds) {
+      const currentReceipts = existing.receipts.map((r) => ({
+        id: r.id,
+        paymentMethod: r.paymentMethod as ExpensePaymentMethod,
+      }));
+      const result = await setExpenseReportItems(id, session.user.id, receipts ?? currentReceipts, entryIds);
+      if ('error' in result) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+    }
+
+    const report = await prisma.expenseReport.update({
+      where: { id },
+      data: { title, businessPurpose },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'EXPENSE_REPORT_UPDATED',
+      entityType: 'ExpenseReport',
+      entityId: id,
+      changes: {
+        before: {
+          title: existing.title,
+          businessPurpose: existing.businessPurpose,
+          receipts: existing.receipts,
+          entryIds: existing.entries.map((e) => e.id),
+        },
+        after: {
+          title,
+          businessPurpose,
+          receipts: receipts ?? existing.receipts,
+          entryIds: entryIds ?? existing.entries.map((e) => e.id),
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('Error updating expense report:', error);
+    return NextResponse.json(
+      { error: 'Failed to update expense report' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/expense-reports/[id]
+ * Delete a draft or rejected report. Its receipts and entries are kept and
+ * can go on another report.
+ */
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const existing = await prisma.expenseReport.findUnique({ where: { id } });
+
+    if (!existing || existing.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Expense report not found' }, { status: 404 });
+    }
+
+    if (!EDITABLE_EXPENSE_REPORT_STATUSES.includes(existing.status)) {
+      return NextResponse.json(
+        { error: `A ${existing.status} expense report cannot be deleted` },
+        { status: 400 }
+      );
+    }
+
+    // Receipts and entries are detached by the SetNull relations
+    await prisma.expenseReport.delete({ where: { id } });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'EXPENSE_REPORT_DELETED',
+      entityType: 'ExpenseReport',
+      entityId: id,
+      changes: {
+        before: { title: existing.title, status: existing.status, totalAmount: existing.totalAmount },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting expense report:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete expense report' },
+      { status: 500 }
+    );
+  }
+}
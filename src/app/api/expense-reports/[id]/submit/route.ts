@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { EDITABLE_EXPENSE_REPORT_STATUSES, refreshExpenseReportTotals } from '@/lib/expense-reports';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * POST /api/expense-reports/[id]/submit
+ * Send a draft (or a rejected report after fixing it) to a manager for approval
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const existing = await prisma.expenseReport.findUnique({ where: { id } });
+
+    if (!existing || existing.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Expense report not found' }, { status: 404 });
+    }
+
+    if (!EDITABLE_EXPENSE_REPORT_STATUSES.includes(existing.status)) {
+      return NextResponse.json(
+        { error: `Expense report is already ${existing.status}` },
+        { status: 400 }
+      );
+    }
+
+    const totals = await refreshExpenseReportTotals(id);
+    if (totals.receiptCount + totals.entryCount === 0) {
+      return NextResponse.json(
+        { error: 'Add at least one receipt, mileage or per diem entry before submitting' },
+        { status: 400 }
+      );
+    }
+    if (totals.missingAmountCount > 0) {
+      return NextResponse.json(
+        { error: 'Every receipt needs an amount before the report can be submitted' },
+        { status: 400 }
+      );
+    }
+
+    const report = await prisma.expenseReport.update({
+      where: { id },
+      data: {
+        status: 'submitted',
+        submittedAt: new Date(),
+        reviewedById: null,
+        reviewedAt: null,
+        reviewNote: null,
+      },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'EXPENSE_REPORT_SUBMITTED',
+      entityType: 'ExpenseReport',
+      entityId: id,
+      changes: {
+        before: { status: existing.status },
+        after: {
+          status: 'submitted',
+          totalAmount: totals.totalAmount,
+          reimbursableAmount: totals.reimbursableAmount,
+          receiptCount: totals.receiptCount,
+          entryCount: totals.entryCount,
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('Error submitting expense report:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit expense report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { escapeCSV } from '@/lib/csv-sanitize';
+
+/**
+ * GET /api/expense-reports/export
+ * Export approved expense reports as CSV for accounts payable, one row per
+ * report with the amount due to the employee. ?status=reimbursed exports
+ * reports already paid.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'expenseReports', 'canExport')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to export expense reports' },
+        { status: 403 }
+      );
+    }
+
+    const status = req.nextUrl.searchParams.get('status') === 'reimbursed' ? 'reimbursed' : 'approved';
+
+    const reports = await prisma.expenseReport.findMany({
+      where: { status },
+      include: {
+        user: {
+          select: {
+            name: true,
+            email: true,
+            department: { select: { name: true } },
+          },
+        },
+        reviewedBy: { select: { name: true } },
+        _count: { select: { receipts: true, entries: true } },
+      },
+      orderBy: [{ user: { name: 'asc' } }, { reviewedAt: 'asc' }],
+    });
+
+    const escapeField = (value: string | number | null | undefined) => {
+      if (value === null || value === undefined) return '';
+      return escapeCSV(String(value));
+    };
+
+    const formatDate = (date: Date | null) => {
+      if (!date) return '';
+      return date.toISOString().split('T')[0];
+    };
+
+    const headers = [
+      'Report ID',
+      'Employee',
+      'Email',
+      'Department',
+      'Title',
+      'Business Purpose',
+      'Submitted',
+      'Approved',
+      'Approved By',
+      'Receipts',
+      'Mileage/Per Diem Entries',
+      'Report Total',
+      'Company Card',
+      'Reimbursement Due',
+      'Reimbursed',
+    ];
+
+    const rows = reports.map((report) =>
+      [
+        escapeField(report.id),
+        escapeField(report.user.name),
+        escapeField(report.user.email),
+        escapeField(report.user.department?.name),
+        escapeField(report.title),
+        escapeField(report.businessPurpose),
+        escapeField(formatDate(report.submittedAt)),
+        escapeField(formatDate(report.reviewedAt)),
+        escapeField(report.reviewedBy?.name),
+        escapeField(report._count.receipts),
+        escapeField(report._count.entries),
+        escapeField(report.totalAmount.toFixed(2)),
+        escapeField((report.totalAmount - report.reimbursableAmount).toFixed(2)),
+        escapeField(report.reimbursableAmount.toFixed(2)),
+        escapeField(formatDate(report.reimbursedAt)),
+      ].join(',')
+    );
+
+    const csv = '\uFEFF' + [headers.join(','), ...rows].join('\n');
+    const filename = `expense-reports-${status}-${new Date().toISOString().split('T')[0]}.csv`;
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting expense reports:', error);
+    return NextResponse.json(
+      { error: 'Failed to export expense reports' },
+      { status: 500 }
+    );
+  }
+}
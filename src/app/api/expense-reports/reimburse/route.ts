@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { expenseReportIdsSchema, parseWithErrors } from '@/lib/validation';
+
+/**
+ * POST /api/expense-reports/reimburse
+ * Mark approved reports as paid once accounts payable has reimbursed them
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'expenseReports', 'canExport')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to mark expense reports reimbursed' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = parseWithErrors(expenseReportIdsSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const reports = await prisma.expenseReport.findMany({
+      where: { id: { in: parsed.data.reportIds }, status: 'approved' },
+      select: { id: true, reimbursableAmount: true },
+    });
+
+    if (reports.length === 0) {
+      return NextResponse.json({ error: 'No approved expense reports to mark reimbursed' }, { status: 400 });
+    }
+
+    const reimbursedAt = new Date();
+    await prisma.expenseReport.updateMany({
+      where: { id: { in: reports.map((r) => r.id) }, status: 'approved' },
+      data: { status: 'reimbursed', reimbursedAt },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    for (const report of reports) {
+      await createAuditLog({
+        userId: session.user.id,
+        action: 'EXPENSE_REPORT_REIMBURSED',
+        entityType: 'ExpenseReport',
+        entityId: report.id,
+        changes: {
+          before: { status: 'approved' },
+          after: { status: 'reimbursed', reimbursableAmount: report.reimbursableAmount },
+        },
+        ipAddress,
+        userAgent,
+      });
+    }
+
+    return NextResponse.json({ reimbursed: reports.length });
+  } catch (error) {
+    console.error('Error marking expense reports reimbursed:', error);
+    return NextResponse.json(
+      { error: 'Failed to mark expense reports reimbursed' },
+      { status: 500 }
+    );
+  }
+}
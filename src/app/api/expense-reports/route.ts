@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { getExpenseReportDepartmentScope, setExpenseReportItems } from '@/lib/expense-reports';
+import { expenseReportSchema, parseWithErrors } from '@/lib/validation';
+
+/**
+ * GET /api/expense-reports
+ * The current user's expense reports, or with ?scope=team the reports of other
+ * employees in the departments the user can view (optionally ?status=).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { user, permissions } = userWithPerms;
+    const searchParams = req.nextUrl.searchParams;
+    const status = searchParams.get('status');
+
+    if (searchParams.get('scope') !== 'team') {
+      const reports = await prisma.expenseReport.findMany({
+        where: { userId: user.id, status: status || undefined },
+        include: {
+          reviewedBy: { select: { id: true, name: true } },
+          _count: { select: { receipts: true, entries: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return NextResponse.json({ reports });
+    }
+
+    const departmentIds = getExpenseReportDepartmentScope(permissions, user.departmentId);
+    if (departmentIds && departmentIds.length === 0) {
+      return NextResponse.json(
+        { error: 'You do not have permission to view team expense reports' },
+        { status: 403 }
+      );
+    }
+
+    const reports = await prisma.expenseReport.findMany({
+      where: {
+        // Drafts stay private to the employee
+        status: status || { not: 'draft' },
+        userId: { not: user.id },
+        user: departmentIds ? { departmentId: { in: departmentIds } } : undefined,
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            department: { select: { id: true, name: true } },
+          },
+        },
+        reviewedBy: { select: { id: true, name: true } },
+        _count: { select: { receipts: true, entries: true } },
+      },
+      orderBy: { submittedAt: 'asc' },
+    });
+
+    return NextResponse.json({
+      reports,
+      canApprove: hasPermission(permissions, 'expenseReports', 'canApprove'),
+      canExport: hasPermission(permissions, 'expenseReports', 'canExport'),
+    });
+  } catch (error) {
+    console.error('Error fetching expense reports:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch expense reports' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/expense-reports
+ * Start a draft expense report, optionally with some of the user's receipts
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'expenseReports', 'canCreate')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const parsed = parseWithErrors(expenseReportSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { title, businessPurpose, receipts, entryIds } = parsed.data;
+
+    const report = await prisma.expenseReport.create({
+      data: { userId: session.user.id, title, businessPurpose },
+    });
+
+    if (receipts?.length || entryIds?.length) {
+      const result = await setExpenseReportItems(report.id, session.user.id, receipts ?? [], entryIds);
+      if ('error' in result) {
+        await prisma.expenseReport.delete({ where: { id: report.id } });
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+    }
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'EXPENSE_REPORT_CREATED',
+      entityType: 'ExpenseReport',
+      entityId: report.id,
+      changes: {
+        after: {
+          title,
+          businessPurpose,
+          receiptIds: receipts?.map((r) => r.id) ?? [],
+          entryIds: entryIds ?? [],
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ report }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating expense report:', error);
+    return NextResponse.json(
+      { error: 'Failed to create expense report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,211 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { escapeCSV } from '@/lib/csv-sanitize';
+import { getOpenPurchaseOrders, type CloseActionLine } from '@/lib/fiscal-year-close';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+type CloseReportAction = {
+  id: string;
+  createdAt: Date;
+  poNumber: string;
+  vendorName: string;
+  action: string;
+  targetFiscalYear: number | null;
+  amount: number;
+  lines: CloseActionLine[];
+  performedBy: string;
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  CANCELLED: 'Cancelled',
+  CLOSED_SHORT: 'Closed short',
+  LINES_RELEASED: 'Lines released',
+  ROLLED_OVER: 'Rolled over',
+};
+
+/**
+ * GET /api/fiscal-years/[id]/close-report
+ * Year-end close report: budget totals, how each open PO was handled,
+ * and anything still encumbering the year
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const canView =
+      hasPermission(userWithPerms.permissions, 'budgetItems', 'canCloseFiscalYear') ||
+      hasPermission(userWithPerms.permissions, 'budgetItems', 'canExportReports');
+
+    if (!canView) {
+      return NextResponse.json(
+        { error: 'You do not have permission to view close reports' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const fiscalYear = await prisma.fiscalYear.findUnique({
+      where: { id },
+      include: {
+        closedBy: { select: { id: true, name: true, email: true } },
+      },
+    });
+
+    if (!fiscalYear) {
+      return NextResponse.json({ error: 'Fiscal year not found' }, { status: 404 });
+    }
+
+    const [budgetItems, closeActions, openPOs] = await Promise.all([
+      prisma.budgetItem.findMany({
+        where: { fiscalYear: fiscalYear.year, isActive: true },
+        select: { budgetAmount: true, encumbered: true, actualSpent: true },
+      }),
+      prisma.fiscalYearCloseAction.findMany({
+        where: { fiscalYear: fiscalYear.year },
+        include: {
+          purchaseOrder: {
+            select: { poNumber: true, vendor: { select: { name: true } } },
+          },
+          performedBy: { select: { name: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      getOpenPurchaseOrders(fiscalYear.year),
+    ]);
+
+    const actions: CloseReportAction[] = closeActions.map((closeAction) => ({
+      id: closeAction.id,
+      createdAt: closeAction.createdAt,
+      poNumber: closeAction.purchaseOrder.poNumber,
+      vendorName: closeAction.purchaseOrder.vendor.name,
+      action: closeAction.action,
+      targetFiscalYear: closeAction.targetFiscalYear,
+      amount: closeAction.amount,
+      lines: JSON.parse(closeAction.lines),
+      performedBy: closeAction.performedBy.name,
+    }));
+
+    const summary = {
+      totalBudget: budgetItems.reduce((sum, item) => sum + item.budgetAmount, 0),
+      totalActualSpent: budgetItems.reduce((sum, item) => sum + item.actualSpent, 0),
+      totalEncumbered: budgetItems.reduce((sum, item) => sum + item.encumbered, 0),
+      cancelledAmount: actions
+        .filter((a) => a.action !== 'ROLLED_OVER')
+        .reduce((sum, a) => sum + a.amount, 0),
+      rolledOverAmount: actions
+        .filter((a) => a.action === 'ROLLED_OVER')
+        .reduce((sum, a) => sum + a.amount, 0),
+      cancelledCount: actions.filter((a) => a.action !== 'ROLLED_OVER').length,
+      rolledOverCount: actions.filter((a) => a.action === 'ROLLED_OVER').length,
+      openPOCount: openPOs.length,
+    };
+
+    const openPurchaseOrders = openPOs.map((po) => ({
+      id: po.id,
+      poNumber: po.poNumber,
+      vendorName: po.vendor.name,
+      status: po.status,
+      totalAmount: po.totalAmount,
+    }));
+
+    if (req.nextUrl.searchParams.get('format') === 'csv') {
+      const csv = generateCSV(fiscalYear.year, fiscalYear.status, summary, actions, openPurchaseOrders);
+      return new NextResponse(csv, {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="fiscal-year-close-${fiscalYear.year}.csv"`,
+          'X-Content-Type-Options': 'nosniff',
+        },
+      });
+    }
+
+    return NextResponse.json({
+      fiscalYear,
+      summary,
+      actions,
+      openPurchaseOrders,
+    });
+  } catch (error) {
+    console.error('Error generating fiscal year close report:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate close report' },
+      { status: 500 }
+    );
+  }
+}
+
+function generateCSV(
+  year: number,
+  status: string,
+  summary: {
+    totalBudget: number;
+    totalActualSpent: number;
+    totalEncumbered: number;
+    cancelledAmount: number;
+    rolledOverAmount: number;
+  },
+  actions: CloseReportAction[],
+  openPurchaseOrders: { poNumber: string; vendorName: string; status: string; totalAmount: number }[]
+): string {
+  const lines: string[] = [];
+
+  // UTF-8 BOM prefix
+  const bom = '\uFEFF';
+
+  lines.push(`Fiscal Year Close Report - FY ${year}`);
+  lines.push(`Status: ${status}`);
+  lines.push(`Generated: ${new Date().toLocaleString()}`);
+  lines.push('');
+  lines.push(`Total Budget,${summary.totalBudget.toFixed(2)}`);
+  lines.push(`Actual Spent,${summary.totalActualSpent.toFixed(2)}`);
+  lines.push(`Remaining Encumbrance,${summary.totalEncumbered.toFixed(2)}`);
+  lines.push(`Encumbrance Released,${summary.cancelledAmount.toFixed(2)}`);
+  lines.push(`Encumbrance Rolled Over,${summary.rolledOverAmount.toFixed(2)}`);
+  lines.push('');
+
+  lines.push('Date,PO Number,Vendor,Action,Line,From Budget Code,To Budget Code,Amount,Performed By');
+  for (const action of actions) {
+    for (const line of action.lines) {
+      lines.push([
+        action.createdAt.toISOString().split('T')[0],
+        escapeCSV(action.poNumber),
+        escapeCSV(action.vendorName),
+        ACTION_LABELS[action.action] || action.action,
+        escapeCSV(line.description),
+        escapeCSV(line.fromCode),
+        escapeCSV(line.toCode ? `${line.toCode} (FY ${action.targetFiscalYear})` : ''),
+        line.amount.toFixed(2),
+        escapeCSV(action.performedBy),
+      ].join(','));
+    }
+  }
+
+  if (openPurchaseOrders.length > 0) {
+    lines.push('');
+    lines.push('Still Open');
+    lines.push('PO Number,Vendor,Status,Total');
+    for (const po of openPurchaseOrders) {
+      lines.push([
+        escapeCSV(po.poNumber),
+        escapeCSV(po.vendorName),
+        po.status,
+        po.totalAmount.toFixed(2),
+      ].join(','));
+    }
+  }
+
+  return bom + lines.join('\n');
+}
@@ -0,0 +1,354 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import {
+  cancelForYearEnd,
+  findRolloverTarget,
+  getOpenAmount,
+  getOpenPurchaseOrders,
+  rollOverPurchaseOrder,
+  type CloseAction,
+  type CloseActionLine,
+} from '@/lib/fiscal-year-close';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+type CloseDecision = {
+  purchaseOrderId: string;
+  action: 'CANCEL' | 'ROLL_OVER';
+  // Line item id -> budget item id in the target year (defaults to the suggested match)
+  lineTargets?: Record<string, string>;
+};
+
+/**
+ * GET /api/fiscal-years/[id]/close
+ * List POs still encumbering the fiscal year, with suggested rollover targets
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'budgetItems', 'canCloseFiscalYear')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to close fiscal years' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const fiscalYear = await prisma.fiscalYear.findUnique({ where: { id } });
+    if (!fiscalYear) {
+      return NextResponse.json({ error: 'Fiscal year not found' }, { status: 404 });
+    }
+
+    const targetFiscalYear = parseInt(
+      req.nextUrl.searchParams.get('targetFiscalYear') || String(fiscalYear.year + 1),
+      10
+    );
+
+    const [openPOs, targetItems] = await Promise.all([
+      getOpenPurchaseOrders(fiscalYear.year),
+      prisma.budgetItem.findMany({
+        where: { fiscalYear: targetFiscalYear, isActive: true },
+        select: { id: true, code: true, description: true },
+        orderBy: { code: 'asc' },
+      }),
+    ]);
+
+    const openPurchaseOrders = openPOs.map((po) => {
+      const lines = po.lineItems
+        .filter((lineItem) => lineItem.budgetItem.fiscalYear === fiscalYear.year && getOpenAmount(lineItem) > 0)
+        .map((lineItem) => ({
+          id: lineItem.id,
+          description: lineItem.description,
+          amount: lineItem.amount,
+          consumed: lineItem.receivedAmount + lineItem.releasedAmount,
+          openAmount: getOpenAmount(lineItem),
+          budgetItem: lineItem.budgetItem,
+          suggestedTarget: findRolloverTarget(
+            lineItem.budgetItem.code,
+            fiscalYear.year,
+            targetFiscalYear,
+            targetItems
+          ),
+        }));
+
+      return {
+        id: po.id,
+        poNumber: po.poNumber,
+        status: po.status,
+        type: po.type,
+        poDate: po.poDate,
+        vendor: po.vendor,
+        requestedBy: po.requestedBy,
+        department: po.department,
+        openAmount: lines.reduce((sum, line) => sum + line.openAmount, 0),
+        // Cancelling only releases this year's lines; the PO stays open
+        spansOtherYears: po.lineItems.some((lineItem) => lineItem.budgetItem.fiscalYear !== fiscalYear.year),
+        lines,
+      };
+    });
+
+    return NextResponse.json({
+      fiscalYear,
+      targetFiscalYear,
+      targetBudgetItems: targetItems,
+      openPurchaseOrders,
+    });
+  } catch (error) {
+    console.error('Error loading fiscal year close:', error);
+    return NextResponse.json(
+      { error: 'Failed to load open purchase orders' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/fiscal-years/[id]/close
+ * Cancel or roll over the fiscal year's open POs, then optionally close the year
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'budgetItems', 'canCloseFiscalYear')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to close fiscal years' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const fiscalYear = await prisma.fiscalYear.findUnique({ where: { id } });
+    if (!fiscalYear) {
+      return NextResponse.json({ error: 'Fiscal year not found' }, { status: 404 });
+    }
+
+    if (fiscalYear.status === 'HARD_CLOSED') {
+      return NextResponse.json(
+        { error: 'Cannot process a hard-closed fiscal year' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const decisions: CloseDecision[] = Array.isArray(body.decisions) ? body.decisions : [];
+    const targetFiscalYear = parseInt(body.targetFiscalYear || String(fiscalYear.year + 1), 10);
+    const closeStatus: string | undefined = body.closeStatus;
+
+    if (closeStatus && !['SOFT_CLOSED', 'HARD_CLOSED'].includes(closeStatus)) {
+      return NextResponse.json({ error: 'Invalid close status' }, { status: 400 });
+    }
+
+    if (targetFiscalYear <= fiscalYear.year) {
+      return NextResponse.json(
+        { error: 'Open POs can only be rolled into a later fiscal year' },
+        { status: 400 }
+      );
+    }
+
+    // One decision per PO: a PO can't be rolled over and cancelled (or rolled twice) in one close
+    if (new Set(decisions.map((decision) => decision.purchaseOrderId)).size !== decisions.length) {
+      return NextResponse.json(
+        { error: 'Each purchase order can only have one decision' },
+        { status: 400 }
+      );
+    }
+
+    const [openPOs, targetItems] = await Promise.all([
+      getOpenPurchaseOrders(fiscalYear.year),
+      prisma.budgetItem.findMany({
+        where: { fiscalYear: targetFiscalYear, isActive: true },
+        select: { id: true, code: true },
+      }),
+    ]);
+
+    // Resolve every decision up front so nothing is applied if one is invalid
+    const resolved: {
+      decision: CloseDecision;
+      poNumber: string;
+      lineTargets: Record<string, { id: string; code: string }>;
+    }[] = [];
+
+    for (const decision of decisions) {
+      const po = openPOs.find((p) => p.id === decision.purchaseOrderId);
+      if (!po) {
+        return NextResponse.json(
+          { error: `Purchase order ${decision.purchaseOrderId} is not open in FY ${fiscalYear.year}` },
+          { status: 400 }
+        );
+      }
+      if (decision.action !== 'CANCEL' && decision.action !== 'ROLL_OVER') {
+        return NextResponse.json({ error: `Invalid action for ${po.poNumber}` }, { status: 400 });
+      }
+
+      const lineTargets: Record<string, { id: string; code: string }> = {};
+      if (decision.action === 'ROLL_OVER') {
+        for (const lineItem of po.lineItems) {
+          if (lineItem.budgetItem.fiscalYear !== fiscalYear.year || getOpenAmount(lineItem) <= 0) continue;
+
+          const chosenId = decision.lineTargets?.[lineItem.id];
+          const target = chosenId
+            ? targetItems.find((item) => item.id === chosenId)
+            : findRolloverTarget(lineItem.budgetItem.code, fiscalYear.year, targetFiscalYear, targetItems);
+
+          if (!target) {
+            return NextResponse.json(
+              {
+                error: `${po.poNumber}: no FY ${targetFiscalYear} budget line for ${lineItem.budgetItem.code}. Copy the budget to FY ${targetFiscalYear} or choose a line.`,
+              },
+              { status: 400 }
+            );
+          }
+          lineTargets[lineItem.id] = target;
+        }
+      }
+
+      resolved.push({ decision, poNumber: po.poNumber, lineTargets });
+    }
+
+    const note = `Year-end close of FY ${fiscalYear.year}`;
+
+    const results = await prisma.$transaction(async (tx) => {
+      const processed: {
+        purchaseOrderId: string;
+        poNumber: string;
+        action: CloseAction;
+        amount: number;
+        lines: CloseActionLine[];
+      }[] = [];
+
+      for (const { decision, poNumber, lineTargets } of resolved) {
+        let action: CloseAction;
+        let outcome: { amount: number; lines: CloseActionLine[] };
+
+        if (decision.action === 'ROLL_OVER') {
+          action = 'ROLLED_OVER';
+          outcome = await rollOverPurchaseOrder(decision.purchaseOrderId, fiscalYear.year, lineTargets, tx);
+        } else {
+          const cancelled = await cancelForYearEnd(
+            decision.purchaseOrderId,
+            fiscalYear.year,
+            session.user.id,
+            note,
+            tx
+          );
+          action = cancelled.action;
+          outcome = cancelled;
+        }
+
+        await tx.fiscalYearCloseAction.create({
+          data: {
+            fiscalYear: fiscalYear.year,
+            purchaseOrderId: decision.purchaseOrderId,
+            action,
+            targetFiscalYear: action === 'ROLLED_OVER' ? targetFiscalYear : null,
+            amount: outcome.amount,
+            lines: JSON.stringify(outcome.lines),
+            performedById: session.user.id,
+          },
+        });
+
+        processed.push({ purchaseOrderId: decision.purchaseOrderId, poNumber, action, ...outcome });
+      }
+
+      return processed;
+    });
+
+    const remainingOpen = openPOs.length - resolved.length;
+
+    // Only close the year once nothing is left encumbering it
+    let updatedFiscalYear = fiscalYear;
+    if (closeStatus && remainingOpen === 0 && closeStatus !== fiscalYear.status) {
+      updatedFiscalYear = await prisma.fiscalYear.update({
+        where: { id },
+        data: {
+          status: closeStatus,
+          ...(fiscalYear.status === 'OPEN' && {
+            closedById: session.user.id,
+            closedAt: new Date(),
+          }),
+        },
+      });
+    }
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    for (const result of results) {
+      await createAuditLog({
+        userId: session.user.id,
+        action: result.action === 'ROLLED_OVER'
+          ? 'PO_ROLLED_OVER'
+          : result.action === 'CLOSED_SHORT'
+            ? 'PO_COMPLETED'
+            : result.action === 'LINES_RELEASED' ? 'PO_UPDATED' : 'PO_VOIDED',
+        entityType: 'PurchaseOrder',
+        entityId: result.purchaseOrderId,
+        changes: {
+          after: {
+            poNumber: result.poNumber,
+            note,
+            action: result.action,
+            amount: result.amount,
+            lines: result.lines,
+            ...(result.action === 'ROLLED_OVER' && { targetFiscalYear }),
+          },
+        },
+        ipAddress,
+        userAgent,
+      });
+    }
+
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'FISCAL_YEAR_CLOSE_PROCESSED',
+      entityType: 'FiscalYear',
+      entityId: id,
+      changes: {
+        before: { status: fiscalYear.status },
+        after: {
+          status: updatedFiscalYear.status,
+          targetFiscalYear,
+          cancelled: results.filter((r) => r.action !== 'ROLLED_OVER').length,
+          rolledOver: results.filter((r) => r.action === 'ROLLED_OVER').length,
+          remainingOpen,
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({
+      fiscalYear: updatedFiscalYear,
+      processed: results,
+      remainingOpen,
+      closed: updatedFiscalYear.status !== fiscalYear.status,
+    });
+  } catch (error) {
+    console.error('Error processing fiscal year close:', error);
+    return NextResponse.json(
+      { error: 'Failed to process fiscal year close' },
+      { status: 500 }
+    );
+  }
+}
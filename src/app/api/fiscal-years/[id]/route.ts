@@ -3,6 +3,7 @@ import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
 import { createAuditLog, getRequestContext, type AuditAction } from '@/lib/audit';
+import { isOverdraftPolicy } from '@/lib/budget-policy';
 
 /**
  * GET /api/fiscal-years/[id]
@@ -64,7 +65,7 @@ export async function GET(
 
 /**
  * PUT /api/fiscal-years/[id]
- * Update fiscal year (primarily for closing/reopening)
+ * Update fiscal year (closing/reopening, overdraft policy)
  */
 export async function PUT(
   req: NextRequest,
@@ -82,7 +83,7 @@ export async function PUT(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
     const body = await req.json();
-    const { status } = body;
+    const { status, overdraftPolicy } = body;
 
     const existing = await prisma.fiscalYear.findUnique({
       where: { id: id },
@@ -129,8 +130,28 @@ export async function PUT(
       }
     }
 
+    if (overdraftPolicy !== undefined && overdraftPolicy !== existing.overdraftPolicy) {
+      if (!hasPermission(userWithPerms.permissions, 'budgetItems', 'canManage')) {
+        return NextResponse.json(
+          { error: 'You do not have permission to change the overdraft policy' },
+          { status: 403 }
+        );
+      }
+
+      if (!isOverdraftPolicy(overdraftPolicy)) {
+        return NextResponse.json(
+          { error: 'Invalid overdraft policy' },
+          { status: 400 }
+        );
+      }
+    }
+
     const updateData: any = {};
 
+    if (overdraftPolicy !== undefined) {
+      updateData.overdraftPolicy = overdraftPolicy;
+    }
+
     if (status) {
       updateData.status = status;
       // Set closed timestamp and user if closing
@@ -159,7 +180,9 @@ export async function PUT(
     const { ipAddress, userAgent } = getRequestContext(req);
     await createAuditLog({
       userId: session.user.id,
-      action: `FISCAL_YEAR_${status.replace('_', '')}` as AuditAction,
+      action: status
+        ? (`FISCAL_YEAR_${status.replace('_', '')}` as AuditAction)
+        : 'FISCAL_YEAR_UPDATED',
       entityType: 'FiscalYear',
       entityId: fiscalYear.id,
       changes: {
@@ -167,11 +190,13 @@ export async function PUT(
           status: existing.status,
           closedById: existing.closedById,
           closedAt: existing.closedAt,
+          overdraftPolicy: existing.overdraftPolicy,
         },
         after: {
           status: fiscalYear.status,
           closedById: fiscalYear.closedById,
           closedAt: fiscalYear.closedAt,
+          overdraftPolicy: fiscalYear.overdraftPolicy,
         },
       },
       ipAddress,
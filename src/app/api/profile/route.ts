@@ -3,11 +3,12 @@ import { prisma } from '@/lib/prisma';
 import { NextRequest, NextResponse } from 'next/server';
 import { createAuditLog, getRequestContext } from '@/lib/audit';
 import { validatePassword } from '@/lib/settings';
+import { getPtoBalance } from '@/lib/pto';
 import bcrypt from 'bcryptjs';
 
 /**
  * GET /api/profile
- * Return current user's profile (no password)
+ * Return current user's profile (no password) and PTO balance
  */
 export async function GET() {
   try {
@@ -39,6 +40,7 @@ export async function GET() {
         role: user.role?.name || 'Unknown',
         department: user.department?.name || 'Unassigned',
       },
+      pto: await getPtoBalance(user.id),
     });
   } catch (error) {
     console.error('Error fetching profile:', error);
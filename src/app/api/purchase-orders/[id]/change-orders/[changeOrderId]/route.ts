@@ -0,0 +1,259 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import {
+  applyChangeOrder,
+  ChangeOrderError,
+  formatPONumber,
+  validateProposedLineItems,
+} from '@/lib/po-change-orders';
+import { canUserApproveStep, getCurrentStep } from '@/lib/po-approval';
+import { BudgetPolicyError } from '@/lib/budget-policy';
+import type { PurchaseOrder } from '@prisma/client';
+import type { ProposedLineItem } from '@/lib/po-change-orders';
+import type { BudgetOverdraft } from '@/lib/budget-policy';
+
+type ChangeOrderStatus = 'APPROVED' | 'REJECTED' | 'CANCELLED';
+
+// POST /api/purchase-orders/[id]/change-orders/[changeOrderId] - Approve, reject or withdraw a change order
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; changeOrderId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { user, permissions } = userWithPerms;
+
+    const { id, changeOrderId } = await params;
+    const body = await req.json();
+    const {
+      newStatus,
+      note,
+      budgetOverrideNote,
+    }: { newStatus: ChangeOrderStatus; note?: string; budgetOverrideNote?: string } = body;
+
+    if (!['APPROVED', 'REJECTED', 'CANCELLED'].includes(newStatus)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+
+    const changeOrder = await prisma.pOChangeOrder.findUnique({
+      where: { id: changeOrderId },
+      include: {
+        purchaseOrder: { include: { lineItems: true } },
+        approvalSteps: true,
+      },
+    });
+
+    if (!changeOrder || changeOrder.purchaseOrderId !== id) {
+      return NextResponse.json({ error: 'Change order not found' }, { status: 404 });
+    }
+
+    if (changeOrder.status !== 'PENDING_APPROVAL') {
+      return NextResponse.json(
+        { error: 'Only change orders awaiting approval can be updated' },
+        { status: 400 }
+      );
+    }
+
+    const po = changeOrder.purchaseOrder;
+
+    // Multi-level approval: the step awaiting sign-off (null when no chain applies)
+    const currentStep = getCurrentStep(changeOrder.approvalSteps);
+
+    if (newStatus === 'CANCELLED') {
+      // Withdraw - the requester or an editor
+      if (changeOrder.requestedById !== user.id && !hasPermission(permissions, 'purchaseOrders', 'canEdit')) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+    } else {
+      // Approve or reject - must be an approver for the current chain step
+      if (currentStep) {
+        if (!(await canUserApproveStep(currentStep, user, permissions, po.departmentId))) {
+          return NextResponse.json(
+            { error: `You are not an approver for the current step (${currentStep.name})` },
+            { status: 403 }
+          );
+        }
+      } else if (!hasPermission(permissions, 'purchaseOrders', 'canApprove')) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+      // Cannot approve own change orders
+      if (changeOrder.requestedById === user.id) {
+        return NextResponse.json({ error: 'Cannot approve or reject own change orders' }, { status: 403 });
+      }
+      if (newStatus === 'REJECTED' && !note) {
+        return NextResponse.json(
+          { error: 'Rejection note is required when rejecting a change order' },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (newStatus === 'APPROVED') {
+      if (po.status !== 'APPROVED' && po.status !== 'PARTIALLY_RECEIVED') {
+        return NextResponse.json(
+          { error: `Cannot apply a change order to a ${po.status} purchase order` },
+          { status: 400 }
+        );
+      }
+
+      // Items may have been received since the change order was raised
+      const proposed: ProposedLineItem[] = JSON.parse(changeOrder.lineItems);
+      const validationError = validateProposedLineItems(po.lineItems, proposed);
+      if (validationError) {
+        return NextResponse.json({ error: validationError }, { status: 400 });
+      }
+    }
+
+    const canOverride = hasPermission(permissions, 'budgetItems', 'canOverrideBudget');
+    let result: {
+      purchaseOrder: PurchaseOrder;
+      budgetWarnings: string[];
+      overrides: BudgetOverdraft[];
+      isFinalApproval: boolean;
+    };
+    try {
+      result = await prisma.$transaction(async (tx) => {
+        const unchanged = { purchaseOrder: po, budgetWarnings: [], overrides: [] };
+
+        // Record the sign-off on the current approval step, unless another approver got there first
+        if (currentStep && newStatus !== 'CANCELLED') {
+          const { count } = await tx.pOChangeOrderApprovalStep.updateMany({
+            where: { id: currentStep.id, status: 'PENDING' },
+            data: {
+              status: newStatus,
+              actedById: user.id,
+              actedAt: new Date(),
+              note: note || null,
+            },
+          });
+          if (count === 0) {
+            throw new ChangeOrderError(`The ${currentStep.name} step has already been signed off`);
+          }
+        }
+
+        if (newStatus === 'APPROVED') {
+          // The change order is applied on the last sign-off
+          const pendingSteps = await tx.pOChangeOrderApprovalStep.count({
+            where: { changeOrderId, status: 'PENDING' },
+          });
+          if (pendingSteps > 0) {
+            return { ...unchanged, isFinalApproval: false };
+          }
+
+          const applied = await applyChangeOrder(changeOrderId, user.id, tx, note, {
+            canOverride,
+            justification: budgetOverrideNote,
+          });
+          return { ...applied, isFinalApproval: true };
+        }
+
+        const { count } = await tx.pOChangeOrder.updateMany({
+          where: { id: changeOrderId, status: 'PENDING_APPROVAL' },
+          data: {
+            status: newStatus,
+            reviewedById: user.id,
+            reviewedAt: new Date(),
+            reviewNote: note || null,
+          },
+        });
+        if (count === 0) {
+          throw new ChangeOrderError('Only change orders awaiting approval can be updated');
+        }
+        return { ...unchanged, isFinalApproval: false };
+      });
+    } catch (error) {
+      if (error instanceof ChangeOrderError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      if (error instanceof BudgetPolicyError) {
+        return NextResponse.json(
+          {
+            error: error.message,
+            budgetOverdrafts: error.overdrafts,
+            requiresOverride: error.requiresOverride,
+            canOverride,
+          },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+    const updatedPO = result.purchaseOrder;
+
+    const auditAction =
+      newStatus === 'APPROVED'
+        ? result.isFinalApproval
+          ? 'PO_CHANGE_ORDER_APPROVED'
+          : 'PO_CHANGE_ORDER_STEP_APPROVED'
+        : newStatus === 'REJECTED'
+        ? 'PO_CHANGE_ORDER_REJECTED'
+        : 'PO_CHANGE_ORDER_CANCELLED';
+
+    // Audit log
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: user.id,
+      action: auditAction,
+      entityType: 'PurchaseOrder',
+      entityId: id,
+      changes: {
+        before: { totalAmount: po.totalAmount, revision: po.revision },
+        after: {
+          totalAmount: updatedPO.totalAmount,
+          revision: updatedPO.revision,
+          poNumber: formatPONumber(po.poNumber, updatedPO.revision),
+          changeOrderId,
+          note,
+          ...(currentStep && newStatus !== 'CANCELLED' && { approvalStep: currentStep.name }),
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    if (result.overrides.length > 0) {
+      await createAuditLog({
+        userId: user.id,
+        action: 'PO_BUDGET_OVERRIDDEN',
+        entityType: 'PurchaseOrder',
+        entityId: id,
+        changes: {
+          after: {
+            poNumber: formatPONumber(po.poNumber, updatedPO.revision),
+            changeOrderId,
+            justification: budgetOverrideNote!.trim(),
+            budgetLines: result.overrides.map((overdraft) => ({
+              budgetItemId: overdraft.budgetItemId,
+              code: overdraft.code,
+              requested: overdraft.requested,
+              available: overdraft.available,
+              overdraft: overdraft.overdraft,
+            })),
+          },
+        },
+        ipAddress,
+        userAgent,
+      });
+    }
+
+    return NextResponse.json({ purchaseOrder: updatedPO, budgetWarnings: result.budgetWarnings });
+  } catch (error) {
+    console.error('Error updating change order:', error);
+    return NextResponse.json(
+      { error: 'Failed to update change order' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { parseWithErrors, poChangeOrderSchema } from '@/lib/validation';
+import { createChangeOrderApprovalSteps } from '@/lib/po-approval';
+import {
+  applyChangeOrder,
+  ChangeOrderError,
+  changesBudgetAllocation,
+  diffLineItems,
+  formatPONumber,
+  validateProposedLineItems,
+} from '@/lib/po-change-orders';
+
+// POST /api/purchase-orders/[id]/change-orders - Propose a revision of an approved PO
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { user, permissions } = userWithPerms;
+
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = parseWithErrors(poChangeOrderSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { reason, lineItems } = parsed.data;
+
+    const po = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: {
+        lineItems: true,
+        changeOrders: { where: { status: 'PENDING_APPROVAL' } },
+      },
+    });
+
+    if (!po) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    // Requester or editors can propose changes
+    if (po.requestedById !== user.id && !hasPermission(permissions, 'purchaseOrders', 'canEdit')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (po.status !== 'APPROVED' && po.status !== 'PARTIALLY_RECEIVED') {
+      return NextResponse.json(
+        { error: 'Change orders can only be raised on APPROVED or PARTIALLY_RECEIVED purchase orders' },
+        { status: 400 }
+      );
+    }
+
+    if (po.blanketPoId) {
+      return NextResponse.json(
+        { error: 'Releases cannot be revised - void the release and draw a new one' },
+        { status: 400 }
+      );
+    }
+
+    if (po.changeOrders.length > 0) {
+      return NextResponse.json(
+        { error: 'This purchase order already has a change order awaiting approval' },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateProposedLineItems(po.lineItems, lineItems);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const budgetItemIds = Array.from(new Set(lineItems.map((item) => item.budgetItemId)));
+    const budgetItemCount = await prisma.budgetItem.count({ where: { id: { in: budgetItemIds } } });
+    if (budgetItemCount !== budgetItemIds.length) {
+      return NextResponse.json({ error: 'One or more budget items were not found' }, { status: 400 });
+    }
+
+    const changes = diffLineItems(po.lineItems, lineItems);
+    if (changes.added.length === 0 && changes.removed.length === 0 && changes.changed.length === 0) {
+      return NextResponse.json({ error: 'No line item changes to submit' }, { status: 400 });
+    }
+
+    const newTotal = lineItems.reduce((sum, item) => sum + item.amount, 0);
+
+    // Anything that raises the total or charges a budget line more than before
+    // needs sign-off; pure decreases apply immediately
+    const requiresApproval = newTotal > po.totalAmount || changesBudgetAllocation(changes);
+
+    let result;
+    try {
+      result = await prisma.$transaction(async (tx) => {
+        const changeOrder = await tx.pOChangeOrder.create({
+          data: {
+            purchaseOrderId: id,
+            reason,
+            previousTotal: po.totalAmount,
+            newTotal,
+            lineItems: JSON.stringify(lineItems),
+            changes: JSON.stringify(changes),
+            requestedById: user.id,
+          },
+        });
+
+        if (requiresApproval) {
+          await createChangeOrderApprovalSteps(changeOrder.id, tx);
+          return { changeOrder, purchaseOrder: po };
+        }
+
+        // Nothing is charged more than before, so the budget policy has nothing to check
+        const { purchaseOrder } = await applyChangeOrder(changeOrder.id, user.id, tx);
+        return { changeOrder, purchaseOrder };
+      });
+    } catch (error) {
+      // Items received since the PO was read can make an immediate change invalid
+      if (error instanceof ChangeOrderError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    // Audit log
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: user.id,
+      action: requiresApproval ? 'PO_CHANGE_ORDER_CREATED' : 'PO_CHANGE_ORDER_APPROVED',
+      entityType: 'PurchaseOrder',
+      entityId: id,
+      changes: {
+        before: { totalAmount: po.totalAmount, revision: po.revision },
+        after: {
+          totalAmount: newTotal,
+          revision: result.purchaseOrder.revision,
+          poNumber: formatPONumber(po.poNumber, result.purchaseOrder.revision),
+          changeOrderId: result.changeOrder.id,
+          reason,
+          lineItems: changes,
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json(
+      { changeOrder: result.changeOrder, requiresApproval },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating change order:', error);
+    return NextResponse.json(
+      { error: 'Failed to create change order' },
+      { status: 500 }
+    );
+  }
+}
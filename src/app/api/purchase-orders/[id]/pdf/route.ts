@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, canViewAllData, canViewDepartmentData } from '@/lib/check-permissions';
+import { generatePurchaseOrderPdf, getPurchaseOrderPdfFileName } from '@/lib/po-pdf';
+
+// GET /api/purchase-orders/[id]/pdf - Download the vendor-facing PO as a PDF
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { user, permissions } = userWithPerms;
+
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      select: { poNumber: true, revision: true, departmentId: true, requestedById: true },
+    });
+
+    if (!purchaseOrder) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    // Same visibility rules as viewing the PO
+    const canViewAll = canViewAllData(permissions, 'purchaseOrders');
+    const canViewDept =
+      canViewDepartmentData(permissions, 'purchaseOrders') &&
+      user.departmentId === purchaseOrder.departmentId;
+    const canViewOwn =
+      permissions.purchaseOrders?.canViewOwn &&
+      user.id === purchaseOrder.requestedById;
+
+    if (!canViewAll && !canViewDept && !canViewOwn) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const pdfBytes = await generatePurchaseOrderPdf(id);
+    if (!pdfBytes) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    const fileName = getPurchaseOrderPdfFileName(purchaseOrder.poNumber, purchaseOrder.revision);
+
+    return new NextResponse(pdfBytes as unknown as BodyInit, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating purchase order PDF:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate purchase order PDF' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { isFullyReceived, recordReceivedAmount, updateBudgetFromPO } from '@/lib/budget-tracking';
+import { parseWithErrors, poReceiveSchema } from '@/lib/validation';
+
+// Allow for floating point noise when comparing received vs ordered amounts
+const AMOUNT_TOLERANCE = 0.005;
+
+// Thrown from the receive transaction to roll it back and answer with a 400
+class ReceiveError extends Error {}
+
+// POST /api/purchase-orders/[id]/receive - Record goods received against PO line items
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { user, permissions } = userWithPerms;
+
+    // Receiving follows the same permission as completing a PO
+    if (!hasPermission(permissions, 'purchaseOrders', 'canApprove')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = parseWithErrors(poReceiveSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { lines, note } = parsed.data;
+
+    const po = await prisma.purchaseOrder.findUnique({ where: { id } });
+
+    if (!po) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    if (po.type === 'BLANKET') {
+      return NextResponse.json(
+        { error: 'Items are received against releases, not the blanket purchase order' },
+        { status: 400 }
+      );
+    }
+
+    let updated;
+    try {
+      updated = await prisma.$transaction(async (tx) => {
+        // Re-read inside the transaction so a concurrent receive is counted
+        const current = await tx.purchaseOrder.findUnique({
+          where: { id },
+          include: { lineItems: true },
+        });
+        if (!current) {
+          throw new ReceiveError('Purchase order not found');
+        }
+
+        if (current.status !== 'APPROVED' && current.status !== 'PARTIALLY_RECEIVED') {
+          throw new ReceiveError('Can only receive against APPROVED or PARTIALLY_RECEIVED purchase orders');
+        }
+
+        // Validate each line against what is still outstanding
+        const receivedByLine = new Map<string, number>();
+        for (const line of lines) {
+          const lineItem = current.lineItems.find((li) => li.id === line.lineItemId);
+          if (!lineItem) {
+            throw new ReceiveError(`Line item ${line.lineItemId} does not belong to this purchase order`);
+          }
+
+          const alreadyReceived = lineItem.receivedAmount + (receivedByLine.get(lineItem.id) || 0);
+          const outstanding = lineItem.amount - alreadyReceived;
+          if (line.amount > outstanding + AMOUNT_TOLERANCE) {
+            throw new ReceiveError(
+              `Received amount for "${lineItem.description}" exceeds outstanding amount ($${outstanding.toFixed(2)})`
+            );
+          }
+          receivedByLine.set(lineItem.id, (receivedByLine.get(lineItem.id) || 0) + line.amount);
+        }
+
+        for (const line of lines) {
+          const lineItem = current.lineItems.find((li) => li.id === line.lineItemId)!;
+
+          // Guard the increment too, in case another receive commits first
+          const { count } = await tx.pOLineItem.updateMany({
+            where: {
+              id: line.lineItemId,
+              receivedAmount: { lte: lineItem.amount - line.amount + AMOUNT_TOLERANCE },
+            },
+            data: { receivedAmount: { increment: line.amount } },
+          });
+          if (count === 0) {
+            throw new ReceiveError(`Received amount for "${lineItem.description}" exceeds outstanding amount`);
+          }
+
+          await tx.pOReceivingEntry.create({
+            data: {
+              purchaseOrderId: id,
+              lineItemId: line.lineItemId,
+              quantity: line.quantity ?? null,
+              amount: line.amount,
+              note: note || null,
+              receivedById: user.id,
+            },
+          });
+
+          // Relieve encumbrance and book actuals for the received portion only
+          await recordReceivedAmount(lineItem.budgetItemId, line.amount, tx);
+        }
+
+        const received = await tx.pOLineItem.findMany({ where: { purchaseOrderId: id } });
+        if (!isFullyReceived(received)) {
+          return tx.purchaseOrder.update({
+            where: { id },
+            data: { status: 'PARTIALLY_RECEIVED' },
+            include: { lineItems: true },
+          });
+        }
+
+        // Nothing left outstanding - the receiving entries stand in for a receipt attachment
+        const completed = await tx.purchaseOrder.update({
+          where: { id },
+          data: { status: 'COMPLETED', completedAt: new Date() },
+          include: { lineItems: true },
+        });
+        await tx.pOChangeOrder.updateMany({
+          where: { purchaseOrderId: id, status: 'PENDING_APPROVAL' },
+          data: { status: 'CANCELLED' },
+        });
+        await updateBudgetFromPO(id, 'PARTIALLY_RECEIVED', 'COMPLETED', tx);
+        return completed;
+      });
+    } catch (error) {
+      if (error instanceof ReceiveError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const totalReceived = updated.lineItems.reduce((sum, li) => sum + li.receivedAmount, 0);
+
+    // Audit log
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: user.id,
+      action: 'PO_ITEMS_RECEIVED',
+      entityType: 'PurchaseOrder',
+      entityId: id,
+      changes: {
+        before: { status: po.status },
+        after: {
+          status: updated.status,
+          lines,
+          note,
+          totalReceived,
+          outstanding: updated.totalAmount - totalReceived,
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ purchaseOrder: updated });
+  } catch (error) {
+    console.error('Error receiving PO items:', error);
+    return NextResponse.json(
+      { error: 'Failed to record received items' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { getUserWithPermissions } from '@/lib/check-permissions';
+import { updateBudgetFromPO } from '@/lib/budget-tracking';
+import { adjustBlanketDrawdown, BlanketDrawdownError, validateRelease } from '@/lib/blanket-po';
+import { parseWithErrors, poReleaseSchema } from '@/lib/validation';
+
+// Thrown from the release transaction to roll it back and answer with an error status
+class ReleaseError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+// POST /api/purchase-orders/[id]/releases - Draw a release (call-off) from a blanket PO
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { user, permissions } = userWithPerms;
+
+    // Releases are pre-approved by the blanket PO; creating one only needs create rights
+    if (!permissions.purchaseOrders?.canCreate) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = parseWithErrors(poReleaseSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { lineItems, note } = parsed.data;
+
+    const totalAmount = lineItems.reduce((sum, item) => sum + item.amount, 0);
+
+    // Retry up to 3 times if a concurrent release took the same number (P2002)
+    let result;
+    const maxRetries = 3;
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      try {
+        result = await prisma.$transaction(async (tx) => {
+          // Read and validate inside the transaction so concurrent releases see each other's drawdown
+          const blanket = await tx.purchaseOrder.findUnique({
+            where: { id },
+            include: { lineItems: true },
+          });
+          if (!blanket) {
+            throw new ReleaseError('Purchase order not found', 404);
+          }
+
+          const validationError = validateRelease(blanket, lineItems);
+          if (validationError) {
+            throw new ReleaseError(validationError, 400);
+          }
+
+          // Number after the highest existing release so a detached release never causes a clash
+          const prefix = `${blanket.poNumber}-R`;
+          const existing = await tx.purchaseOrder.findMany({
+            where: { poNumber: { startsWith: prefix } },
+            select: { poNumber: true },
+          });
+          const releaseNumber =
+            existing.reduce((max, po) => Math.max(max, Number(po.poNumber.slice(prefix.length)) || 0), 0) + 1;
+
+          const created = await tx.purchaseOrder.create({
+            data: {
+              poNumber: `${prefix}${releaseNumber}`,
+              poDate: new Date(),
+              vendorId: blanket.vendorId,
+              requestedById: user.id,
+              departmentId: blanket.departmentId,
+              notes: note || null,
+              status: 'APPROVED',
+              approvedBy: blanket.approvedBy,
+              approvedAt: new Date(),
+              totalAmount,
+              blanketPoId: id,
+              lineItems: {
+                create: lineItems.map((item) => ({
+                  description: item.description,
+                  amount: item.amount,
+                  budgetItemId: item.budgetItemId,
+                })),
+              },
+            },
+          });
+
+          // Move the encumbrance from the blanket ceiling onto the release
+          await adjustBlanketDrawdown(id, lineItems, 1, tx);
+          await updateBudgetFromPO(created.id, null, 'APPROVED', tx);
+
+          return { release: created, blanketPoNumber: blanket.poNumber };
+        });
+        break;
+      } catch (error) {
+        if (error instanceof ReleaseError) {
+          return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        if (error instanceof BlanketDrawdownError) {
+          return NextResponse.json(
+            { error: 'The blanket purchase order changed while drawing this release. Please try again.' },
+            { status: 409 }
+          );
+        }
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002' &&
+          attempt < maxRetries - 1
+        ) {
+          continue;
+        }
+        throw error;
+      }
+    }
+    const { release, blanketPoNumber } = result!;
+
+    // Audit log
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: user.id,
+      action: 'PO_RELEASE_CREATED',
+      entityType: 'PurchaseOrder',
+      entityId: release.id,
+      changes: {
+        after: {
+          poNumber: release.poNumber,
+          blanketPoId: id,
+          blanketPoNumber,
+          totalAmount,
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ purchaseOrder: release }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating blanket PO release:', error);
+    return NextResponse.json(
+      { error: 'Failed to create release' },
+      { status: 500 }
+    );
+  }
+}
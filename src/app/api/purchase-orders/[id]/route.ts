@@ -3,6 +3,7 @@ import { prisma } from '@/lib/prisma';
 import { NextRequest, NextResponse } from 'next/server';
 import { getUserWithPermissions, canViewAllData, canViewDepartmentData, hasPermission } from '@/lib/check-permissions';
 import { createAuditLog, getRequestContext, getChanges, sanitizeData } from '@/lib/audit';
+import { getBlanketSummary } from '@/lib/blanket-po';
 
 // GET /api/purchase-orders/[id] - Get a single purchase order
 export async function GET(
@@ -57,6 +58,69 @@ export async function GET(
             thumbnailUrl: true,
           },
         },
+        approvalSteps: {
+          orderBy: { stepOrder: 'asc' },
+          include: {
+            actedBy: {
+              select: { id: true, name: true },
+            },
+          },
+        },
+        changeOrders: {
+          orderBy: { createdAt: 'desc' },
+          include: {
+            requestedBy: {
+              select: { id: true, name: true },
+            },
+            reviewedBy: {
+              select: { id: true, name: true },
+            },
+            approvalSteps: {
+              orderBy: { stepOrder: 'asc' },
+              include: {
+                actedBy: {
+                  select: { id: true, name: true },
+                },
+              },
+            },
+          },
+        },
+        blanketPo: {
+          select: { id: true, poNumber: true },
+        },
+        releases: {
+          orderBy: { createdAt: 'desc' },
+          select: {
+            id: true,
+            poNumber: true,
+            poDate: true,
+            status: true,
+            totalAmount: true,
+            requestedBy: { select: { id: true, name: true } },
+          },
+        },
+        budgetOverrides: {
+          orderBy: { createdAt: 'asc' },
+          include: {
+            budgetItem: {
+              select: { id: true, code: true },
+            },
+            overriddenBy: {
+              select: { id: true, name: true },
+            },
+          },
+        },
+        receivingEntries: {
+          orderBy: { receivedAt: 'desc' },
+          include: {
+            lineItem: {
+              select: { id: true, description: true },
+            },
+            receivedBy: {
+              select: { id: true, name: true },
+            },
+          },
+        },
       },
     });
 
@@ -80,7 +144,10 @@ export async function GET(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    return NextResponse.json({ purchaseOrder });
+    const blanketSummary =
+      purchaseOrder.type === 'BLANKET' ? getBlanketSummary(purchaseOrder) : null;
+
+    return NextResponse.json({ purchaseOrder, blanketSummary });
   } catch (error) {
     console.error('Error fetching purchase order:', error);
     return NextResponse.json(
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import {
+  getUserWithPermissions,
+  hasPermission,
+  canViewAllData,
+  canViewDepartmentData,
+} from '@/lib/check-permissions';
+import { getSettings } from '@/lib/settings';
+import { sendEmail } from '@/lib/email';
+import { formatPONumber } from '@/lib/po-change-orders';
+import { generatePurchaseOrderPdf, getPurchaseOrderPdfFileName } from '@/lib/po-pdf';
+
+// POST /api/purchase-orders/[id]/send - Email the PO PDF to the vendor
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { user, permissions } = userWithPerms;
+
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+    const message: string | undefined =
+      typeof body?.message === 'string' && body.message.trim() ? body.message.trim() : undefined;
+
+    const po = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: { vendor: true },
+    });
+
+    if (!po) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    // Requester, editors and approvers can send the PO out; editors and approvers
+    // only for POs they can see, same as the PDF download
+    const isRequester = po.requestedById === user.id;
+    const canSend =
+      hasPermission(permissions, 'purchaseOrders', 'canEdit') ||
+      hasPermission(permissions, 'purchaseOrders', 'canApprove');
+    const canViewAll = canViewAllData(permissions, 'purchaseOrders');
+    const canViewDept =
+      canViewDepartmentData(permissions, 'purchaseOrders') &&
+      user.departmentId === po.departmentId;
+
+    if (!isRequester && !(canSend && (canViewAll || canViewDept))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (po.status !== 'APPROVED' && po.status !== 'PARTIALLY_RECEIVED') {
+      return NextResponse.json(
+        { error: 'Only APPROVED or PARTIALLY_RECEIVED purchase orders can be sent to the vendor' },
+        { status: 400 }
+      );
+    }
+
+    if (!po.vendor.email) {
+      return NextResponse.json(
+        { error: `Vendor ${po.vendor.name} has no email address on file` },
+        { status: 400 }
+      );
+    }
+
+    const pdfBytes = await generatePurchaseOrderPdf(id);
+    if (!pdfBytes) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    const orgName = getSettings().organization.name;
+    const poNumber = formatPONumber(po.poNumber, po.revision);
+    const intro = message ? `${message}\n\n` : '';
+
+    const sent = await sendEmail({
+      to: po.vendor.email,
+      subject: `Purchase Order ${poNumber} from ${orgName}`,
+      text: `Hello ${po.vendor.name},\n\n${intro}Please find attached purchase order ${poNumber} for $${po.totalAmount.toFixed(2)}.\n\nPlease reference the PO number on all invoices and correspondence.\n\n${orgName}`,
+      attachments: [
+        {
+          filename: getPurchaseOrderPdfFileName(po.poNumber, po.revision),
+          content: Buffer.from(pdfBytes),
+          contentType: 'application/pdf',
+        },
+      ],
+    });
+
+    if (!sent) {
+      return NextResponse.json(
+        { error: 'Email could not be sent. Check the email settings and try again.' },
+        { status: 500 }
+      );
+    }
+
+    // Audit log
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: user.id,
+      action: 'PO_SENT_TO_VENDOR',
+      entityType: 'PurchaseOrder',
+      entityId: id,
+      changes: {
+        after: {
+          poNumber,
+          revision: po.revision,
+          vendorId: po.vendorId,
+          sentTo: po.vendor.email,
+          totalAmount: po.totalAmount,
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ success: true, sentTo: po.vendor.email });
+  } catch (error) {
+    console.error('Error sending purchase order to vendor:', error);
+    return NextResponse.json(
+      { error: 'Failed to send purchase order' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,11 +4,21 @@ import { prisma } from '@/lib/prisma';
 import { createAuditLog, getRequestContext } from '@/lib/audit';
 import { POStatus } from '@prisma/client';
 import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
-import { updateBudgetFromPO } from '@/lib/budget-tracking';
+import { isFullyReceived, updateBudgetFromPO } from '@/lib/budget-tracking';
 import { getSettings } from '@/lib/settings';
+import {
+  createApprovalSteps,
+  getCurrentStep,
+  canUserApproveStep,
+  getRequiredApprovalSteps,
+} from '@/lib/po-approval';
+import { adjustBlanketDrawdown } from '@/lib/blanket-po';
+import { checkBudgetPolicy, formatOverdraft, recordBudgetOverrides } from '@/lib/budget-policy';
+import type { BudgetOverdraft } from '@/lib/budget-policy';
 
 /**
- * Check if a PO qualifies for auto-approval.
+ * Check if a PO qualifies for auto-approval. A PO that an approval chain
+ * applies to always goes through its sign-offs.
  * Returns { approved: true } or { approved: false, reason: string }
  */
 async function checkAutoApproval(
@@ -30,6 +40,14 @@ async function checkAutoApproval(
     };
   }
 
+  const chainSteps = await getRequiredApprovalSteps(poId);
+  if (chainSteps.length > 0) {
+    return {
+      approved: false,
+      reason: `Requires sign-off: ${chainSteps.map((step) => step.name).join(', ')}`,
+    };
+  }
+
   // Check budget availability for all line items
   const lineItems = await prisma.pOLineItem.findMany({
     where: { purchaseOrderId: poId },
@@ -75,13 +93,19 @@ export async function POST(
 
     const { id } = await params;
     const body = await req.json();
-    const { newStatus, note }: { newStatus: POStatus; note?: string } = body;
+    const {
+      newStatus,
+      note,
+      budgetOverrideNote,
+    }: { newStatus: POStatus; note?: string; budgetOverrideNote?: string } = body;
 
     // Get current PO
     const po = await prisma.purchaseOrder.findUnique({
       where: { id },
       include: {
         requestedBy: true,
+        approvalSteps: true,
+        lineItems: true,
       },
     });
 
@@ -95,6 +119,7 @@ export async function POST(
       PENDING_APPROVAL: ['APPROVED', 'REJECTED', 'CANCELLED'],
       REJECTED: ['DRAFT', 'CANCELLED'],
       APPROVED: ['COMPLETED', 'CANCELLED'],
+      PARTIALLY_RECEIVED: ['COMPLETED', 'CANCELLED'],
       COMPLETED: ['CANCELLED'],
       CANCELLED: [],
     };
@@ -106,6 +131,9 @@ export async function POST(
       );
     }
 
+    // Multi-level approval: the step awaiting sign-off (null when no chain applies)
+    const currentStep = po.status === 'PENDING_APPROVAL' ? getCurrentStep(po.approvalSteps) : null;
+
     // Check permissions for status changes
     if (newStatus === 'PENDING_APPROVAL') {
       // Submit for approval - user must own the PO or have edit permission
@@ -113,8 +141,15 @@ export async function POST(
         return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
       }
     } else if (newStatus === 'APPROVED') {
-      // Approve - must have approve permission
-      if (!hasPermission(permissions, 'purchaseOrders', 'canApprove')) {
+      // Approve - must have approve permission, and be an approver for the current chain step
+      if (currentStep) {
+        if (!(await canUserApproveStep(currentStep, user, permissions, po.departmentId))) {
+          return NextResponse.json(
+            { error: `You are not an approver for the current step (${currentStep.name})` },
+            { status: 403 }
+          );
+        }
+      } else if (!hasPermission(permissions, 'purchaseOrders', 'canApprove')) {
         return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
       }
       // Cannot approve own purchase orders
@@ -126,7 +161,14 @@ export async function POST(
       if (!hasPermission(permissions, 'purchaseOrders', 'canApprove')) {
         return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
       }
-      if (!po.receiptFileName && !po.receiptFilePath) {
+      // Blanket POs are closed rather than received - their releases carry the receipts.
+      // A PO received in full has its receiving entries as the record instead.
+      if (
+        po.type !== 'BLANKET' &&
+        !isFullyReceived(po.lineItems) &&
+        !po.receiptFileName &&
+        !po.receiptFilePath
+      ) {
         return NextResponse.json(
           { error: 'Cannot complete PO without receipt attachment' },
           { status: 400 }
@@ -147,8 +189,15 @@ export async function POST(
         );
       }
     } else if (newStatus === 'REJECTED') {
-      // Reject - must have approve permission
-      if (!hasPermission(permissions, 'purchaseOrders', 'canApprove')) {
+      // Reject - must have approve permission, and be an approver for the current chain step
+      if (currentStep) {
+        if (!(await canUserApproveStep(currentStep, user, permissions, po.departmentId))) {
+          return NextResponse.json(
+            { error: `You are not an approver for the current step (${currentStep.name})` },
+            { status: 403 }
+          );
+        }
+      } else if (!hasPermission(permissions, 'purchaseOrders', 'canApprove')) {
         return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
       }
       // Rejection requires a note
@@ -165,6 +214,52 @@ export async function POST(
       }
     }
 
+    // Budget availability is enforced on submission and again on final approval,
+    // since other POs may have consumed the budget in between
+    const isFinalApproval =
+      newStatus === 'APPROVED' &&
+      !po.approvalSteps.some((step) => step.status === 'PENDING' && step.id !== currentStep?.id);
+    let budgetWarnings: string[] = [];
+    let overridesToRecord: BudgetOverdraft[] = [];
+
+    if (newStatus === 'PENDING_APPROVAL' || isFinalApproval) {
+      const budgetCheck = await checkBudgetPolicy(id);
+
+      if (budgetCheck.blocked.length > 0) {
+        return NextResponse.json(
+          {
+            error: `This purchase order would overdraw a budget line that does not allow overdrafts: ${budgetCheck.blocked
+              .map(formatOverdraft)
+              .join('; ')}`,
+            budgetOverdrafts: budgetCheck.blocked,
+          },
+          { status: 400 }
+        );
+      }
+
+      if (budgetCheck.needsOverride.length > 0) {
+        const canOverride = hasPermission(permissions, 'budgetItems', 'canOverrideBudget');
+        if (!canOverride || !budgetOverrideNote?.trim()) {
+          return NextResponse.json(
+            {
+              error: canOverride
+                ? 'A justification is required to override the budget'
+                : `This purchase order would overdraw a budget line and needs a budget override: ${budgetCheck.needsOverride
+                    .map(formatOverdraft)
+                    .join('; ')}`,
+              budgetOverdrafts: budgetCheck.needsOverride,
+              requiresOverride: true,
+              canOverride,
+            },
+            { status: 400 }
+          );
+        }
+        overridesToRecord = budgetCheck.needsOverride;
+      }
+
+      budgetWarnings = budgetCheck.warnings;
+    }
+
     // Prepare update data
     const updateData: any = {
       status: newStatus,
@@ -188,10 +283,21 @@ export async function POST(
         updateData.autoApprovalNote = autoResult.reason;
       }
     } else if (newStatus === 'APPROVED') {
-      updateData.approvedBy = user.id;
-      updateData.approvedAt = new Date();
-      auditAction = 'PO_APPROVED';
+      const remainingSteps = po.approvalSteps.filter(
+        (step) => step.status === 'PENDING' && step.id !== currentStep?.id
+      );
+      if (remainingSteps.length > 0) {
+        // More sign-offs required - PO stays pending until the last step
+        updateData.status = 'PENDING_APPROVAL';
+        auditAction = 'PO_APPROVAL_STEP_APPROVED';
+      } else {
+        updateData.approvedBy = user.id;
+        updateData.approvedAt = new Date();
+        auditAction = 'PO_APPROVED';
+      }
     } else if (newStatus === 'COMPLETED') {
+      // Completing a partially received PO closes it short: the outstanding
+      // remainder is released from encumbrance rather than booked as spent
       updateData.completedAt = new Date();
       auditAction = 'PO_COMPLETED';
     } else if (newStatus === 'CANCELLED') {
@@ -220,9 +326,46 @@ export async function POST(
         data: updateData,
       });
 
+      // Record the sign-off on the current approval step
+      if (currentStep && (newStatus === 'APPROVED' || newStatus === 'REJECTED')) {
+        await tx.pOApprovalStep.update({
+          where: { id: currentStep.id },
+          data: {
+            status: newStatus,
+            actedById: user.id,
+            actedAt: new Date(),
+            note: note || null,
+          },
+        });
+      }
+
+      // Build the approval chain for a new submission; clear it when reopening
+      if (updateData.status === 'PENDING_APPROVAL' && po.status !== 'PENDING_APPROVAL') {
+        await createApprovalSteps(id, tx);
+      } else if (newStatus === 'DRAFT') {
+        await tx.pOApprovalStep.deleteMany({ where: { purchaseOrderId: id } });
+      }
+
+      if (overridesToRecord.length > 0) {
+        await recordBudgetOverrides(id, overridesToRecord, budgetOverrideNote!.trim(), user.id, tx);
+      }
+
+      // Closing or voiding a PO withdraws any change order still awaiting approval
+      if (newStatus === 'COMPLETED' || newStatus === 'CANCELLED') {
+        await tx.pOChangeOrder.updateMany({
+          where: { purchaseOrderId: id, status: 'PENDING_APPROVAL' },
+          data: { status: 'CANCELLED' },
+        });
+      }
+
       // Update budget tracking (encumbered/actualSpent)
       await updateBudgetFromPO(id, po.status, updateData.status as POStatus, tx);
 
+      // Voiding a release returns its amount to the blanket PO it was drawn from
+      if (newStatus === 'CANCELLED' && po.blanketPoId && po.status !== 'DRAFT') {
+        await adjustBlanketDrawdown(po.blanketPoId, po.lineItems, -1, tx);
+      }
+
       return updatedPO;
     });
 
@@ -235,13 +378,41 @@ export async function POST(
       entityId: id,
       changes: {
         before: { status: po.status },
-        after: { status: updateData.status, note },
+        after: {
+          status: updateData.status,
+          note,
+          ...(currentStep && { approvalStep: currentStep.name }),
+        },
       },
       ipAddress,
       userAgent,
     });
 
-    return NextResponse.json({ purchaseOrder: updated });
+    if (overridesToRecord.length > 0) {
+      await createAuditLog({
+        userId: user.id,
+        action: 'PO_BUDGET_OVERRIDDEN',
+        entityType: 'PurchaseOrder',
+        entityId: id,
+        changes: {
+          after: {
+            poNumber: po.poNumber,
+            justification: budgetOverrideNote!.trim(),
+            budgetLines: overridesToRecord.map((overdraft) => ({
+              budgetItemId: overdraft.budgetItemId,
+              code: overdraft.code,
+              requested: overdraft.requested,
+              available: overdraft.available,
+              overdraft: overdraft.overdraft,
+            })),
+          },
+        },
+        ipAddress,
+        userAgent,
+      });
+    }
+
+    return NextResponse.json({ purchaseOrder: updated, budgetWarnings });
   } catch (error) {
     console.error('Error changing PO status:', error);
     return NextResponse.json(
@@ -122,7 +122,7 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json();
-    const { vendorId, department, note, lineItems } = body;
+    const { vendorId, department, note, lineItems, type, expiresAt } = body;
 
     // Validate required fields
     if (!vendorId || !lineItems || lineItems.length === 0) {
@@ -150,6 +150,18 @@ export async function POST(request: Request) {
       }
     }
 
+    // Blanket POs need an expiry date in the future
+    const isBlanket = type === 'BLANKET';
+    if (isBlanket) {
+      const expiry = expiresAt ? new Date(expiresAt) : null;
+      if (!expiry || isNaN(expiry.getTime()) || expiry.getTime() <= Date.now()) {
+        return NextResponse.json(
+          { error: 'Blanket purchase orders require an expiry date in the future' },
+          { status: 400 }
+        );
+      }
+    }
+
     // Calculate total
     const totalAmount = lineItems.reduce(
       (sum: number, item: any) => sum + parseFloat(item.amount),
@@ -178,6 +190,8 @@ export async function POST(request: Request) {
               notes: note || null,
               status: 'DRAFT',
               totalAmount,
+              type: isBlanket ? 'BLANKET' : 'STANDARD',
+              expiresAt: isBlanket ? new Date(expiresAt) : null,
               lineItems: {
                 create: lineItems.map((item: any) => ({
                   description: item.description,
@@ -4,6 +4,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getUserWithPermissions, hasPermission, getPermissionsFromSession } from '@/lib/check-permissions';
 import { createAuditLog, getRequestContext } from '@/lib/audit';
 import { learnMerchantCategory } from '@/lib/categorizer';
+import { applyExpensePolicies } from '@/lib/expense-policy';
 
 type RouteContext = {
   params: Promise<{ id: string }>;
@@ -99,6 +100,9 @@ export async function POST(req: NextRequest, context: RouteContext) {
       },
     });
 
+    // Category-scoped policies may now apply, or no longer apply
+    await applyExpensePolicies(id);
+
     // Learn the mapping if requested and merchant name exists
     if (learnMapping && receipt.merchantName) {
       await learnMerchantCategory(user.id, receipt.merchantName, categoryId);
@@ -198,6 +202,8 @@ export async function DELETE(req: NextRequest, context: RouteContext) {
       },
     });
 
+    await applyExpensePolicies(id);
+
     // Create audit log
     const { ipAddress, userAgent } = getRequestContext(req);
     await createAuditLog({
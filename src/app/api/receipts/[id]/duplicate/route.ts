@@ -0,0 +1,115 @@
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import {
+  EDITABLE_EXPENSE_REPORT_STATUSES,
+  canReviewExpenseReport,
+  refreshExpenseReportTotals,
+} from '@/lib/expense-reports';
+import { parseWithErrors, receiptDuplicateResolutionSchema } from '@/lib/validation';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * POST /api/receipts/[id]/duplicate
+ * Resolve a suspected duplicate: "confirmed" keeps it out of expense totals
+ * for good, "dismissed" counts it again. Open to users who can edit all
+ * receipts and to whoever can approve the expense report the receipt is on.
+ */
+export async function POST(req: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { user, permissions } = userWithPerms;
+
+    const body = await req.json();
+    const parsed = parseWithErrors(receiptDuplicateResolutionSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const receipt = await prisma.receipt.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        duplicateStatus: true,
+        duplicateOfId: true,
+        duplicateReason: true,
+        expenseReport: {
+          select: { id: true, status: true, userId: true, user: { select: { departmentId: true } } },
+        },
+      },
+    });
+
+    if (!receipt) {
+      return NextResponse.json({ error: 'Receipt not found' }, { status: 404 });
+    }
+
+    const canResolve =
+      (hasPermission(permissions, 'receipts', 'canViewAll') && hasPermission(permissions, 'receipts', 'canEdit')) ||
+      (!!receipt.expenseReport && canReviewExpenseReport(receipt.expenseReport, user, permissions));
+    if (!canResolve) {
+      return NextResponse.json(
+        { error: 'You do not have permission to resolve duplicate receipts' },
+        { status: 403 }
+      );
+    }
+
+    if (receipt.duplicateStatus !== 'suspected') {
+      return NextResponse.json(
+        { error: 'Receipt is not a suspected duplicate' },
+        { status: 400 }
+      );
+    }
+
+    const { resolution } = parsed.data;
+    const updated = await prisma.receipt.update({
+      where: { id },
+      data: { duplicateStatus: resolution },
+      select: { id: true, duplicateStatus: true, duplicateOfId: true, duplicateReason: true },
+    });
+
+    const report = receipt.expenseReport;
+    if (report && (EDITABLE_EXPENSE_REPORT_STATUSES.includes(report.status) || report.status === 'submitted')) {
+      await refreshExpenseReportTotals(report.id);
+    }
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: user.id,
+      action: 'RECEIPT_DUPLICATE_RESOLVED',
+      entityType: 'Receipt',
+      entityId: id,
+      changes: {
+        before: { duplicateStatus: receipt.duplicateStatus },
+        after: { duplicateStatus: resolution },
+        duplicateOfId: receipt.duplicateOfId,
+        duplicateReason: receipt.duplicateReason,
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ receipt: updated });
+  } catch (error) {
+    console.error('Error resolving duplicate receipt:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve duplicate receipt' },
+      { status: 500 }
+    );
+  }
+}
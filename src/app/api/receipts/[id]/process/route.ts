@@ -2,11 +2,11 @@ import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { NextRequest, NextResponse } from 'next/server';
 import { getUserWithPermissions, hasPermission, getPermissionsFromSession } from '@/lib/check-permissions';
-import { createAuditLog, getRequestContext } from '@/lib/audit';
-import { processReceiptWithRetry, isOCRConfigured, OCRServiceError } from '@/lib/ocr';
+import { getRequestContext } from '@/lib/audit';
+import { isOCRConfigured } from '@/lib/ocr';
+import { runReceiptOcr } from '@/lib/receipt-processing';
 import { resolveUploadPath } from '@/lib/file-utils';
 import { existsSync } from 'fs';
-import { fileTypeFromFile } from 'file-type';
 
 type RouteContext = {
   params: Promise<{ id: string }>;
@@ -125,61 +125,10 @@ export async function POST(req: NextRequest, context: RouteContext) {
       );
     }
 
-    // Update status to processing
-    await prisma.receipt.update({
-      where: { id: receiptId },
-      data: { status: 'PROCESSING' },
-    });
-
-    // Create audit log
     const { ipAddress, userAgent } = getRequestContext(req);
-    await createAuditLog({
-      userId: session.user.id,
-      action: 'RECEIPT_OCR_STARTED',
-      entityType: 'Receipt',
-      entityId: receiptId,
-      ipAddress,
-      userAgent,
-    });
-
-    // Detect file type
-    const fileType = await fileTypeFromFile(resolvedImagePath);
-    const mimeType = fileType?.mime || 'image/jpeg';
 
-    // Process with OCR
     try {
-      const ocrResult = await processReceiptWithRetry(resolvedImagePath, mimeType, 3, session.user.id, receiptId);
-
-      // Update receipt with extracted data
-      const updatedReceipt = await prisma.receipt.update({
-        where: { id: receiptId },
-        data: {
-          status: 'COMPLETED',
-          merchantName: ocrResult.merchantName,
-          receiptDate: ocrResult.date ? new Date(ocrResult.date) : null,
-          totalAmount: ocrResult.totalAmount,
-          currency: ocrResult.currency,
-          taxAmount: ocrResult.taxAmount,
-          rawOcrData: JSON.stringify(ocrResult),
-        },
-        include: {
-          user: { select: { id: true, name: true } },
-          lineItems: true,
-        },
-      });
-
-      // Create line items if extracted
-      if (ocrResult.lineItems.length > 0) {
-        await prisma.receiptLineItem.createMany({
-          data: ocrResult.lineItems.map(item => ({
-            receiptId: receiptId,
-            description: item.description,
-            quantity: item.quantity || null,
-            unitPrice: item.unitPrice || null,
-            total: item.total,
-          })),
-        });
-      }
+      const ocrResult = await runReceiptOcr(receiptId, receipt.imageUrl, session.user.id, { ipAddress, userAgent });
 
       // Fetch updated receipt with line items
       const finalReceipt = await prisma.receipt.findUnique({
@@ -192,23 +141,6 @@ export async function POST(req: NextRequest, context: RouteContext) {
         },
       });
 
-      await createAuditLog({
-        userId: session.user.id,
-        action: 'RECEIPT_OCR_COMPLETED',
-        entityType: 'Receipt',
-        entityId: receiptId,
-        changes: {
-          after: {
-            merchantName: ocrResult.merchantName,
-            totalAmount: ocrResult.totalAmount,
-            lineItemsCount: ocrResult.lineItems.length,
-            confidence: ocrResult.confidence,
-          },
-        },
-        ipAddress,
-        userAgent,
-      });
-
       return NextResponse.json({
         receipt: finalReceipt,
         ocrResult: {
@@ -218,32 +150,6 @@ export async function POST(req: NextRequest, context: RouteContext) {
         message: 'Receipt processed successfully',
       });
     } catch (ocrError) {
-      // Mark as failed
-      await prisma.receipt.update({
-        where: { id: receiptId },
-        data: {
-          status: 'FAILED',
-          rawOcrData: JSON.stringify({
-            error: ocrError instanceof Error ? ocrError.message : 'Unknown error',
-            code: ocrError instanceof OCRServiceError ? ocrError.code : 'UNKNOWN',
-          }),
-        },
-      });
-
-      await createAuditLog({
-        userId: session.user.id,
-        action: 'RECEIPT_OCR_FAILED',
-        entityType: 'Receipt',
-        entityId: receiptId,
-        changes: {
-          after: {
-            error: ocrError instanceof Error ? ocrError.message : 'Unknown error',
-          },
-        },
-        ipAddress,
-        userAgent,
-      });
-
       return NextResponse.json(
         {
           error: 'OCR processing failed',
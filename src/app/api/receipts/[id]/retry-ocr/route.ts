@@ -5,6 +5,8 @@ import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
 import { createAuditLog, getRequestContext } from '@/lib/audit';
 import { processReceiptWithRetry, OCRServiceError, isOCRConfigured } from '@/lib/ocr';
 import { resolveUploadPath } from '@/lib/file-utils';
+import { applyExpensePolicies } from '@/lib/expense-policy';
+import { checkReceiptForDuplicates } from '@/lib/receipt-duplicates';
 import { existsSync } from 'fs';
 import { fileTypeFromFile } from 'file-type';
 
@@ -143,6 +145,13 @@ export async function POST(req: NextRequest, context: RouteContext) {
         });
       }
 
+      await applyExpensePolicies(receiptId);
+      try {
+        await checkReceiptForDuplicates(receiptId, session.user.id);
+      } catch (duplicateError) {
+        console.error('Error checking for duplicate receipts:', duplicateError);
+      }
+
       // Fetch updated receipt with line items
       const finalReceipt = await prisma.receipt.findUnique({
         where: { id: receiptId },
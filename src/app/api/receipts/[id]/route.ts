@@ -4,6 +4,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
 import { createAuditLog, getRequestContext, getChanges } from '@/lib/audit';
 import { convertToBaseCurrency, BASE_CURRENCY } from '@/lib/currency';
+import { EDITABLE_EXPENSE_REPORT_STATUSES, refreshExpenseReportTotals } from '@/lib/expense-reports';
+import { applyExpensePolicies, policyViolationSelect } from '@/lib/expense-policy';
+import { duplicateOfSelect } from '@/lib/receipt-duplicates';
 import { resolveUploadPath } from '@/lib/file-utils';
 import { unlink } from 'fs/promises';
 import { existsSync } from 'fs';
@@ -48,6 +51,7 @@ export async function GET(req: NextRequest, context: RouteContext) {
             vendor: { select: { name: true } },
           },
         },
+        expenseReport: { select: { id: true, title: true, status: true } },
         lineItems: {
           include: {
             budgetCategory: { select: { id: true, name: true, code: true } },
@@ -67,6 +71,12 @@ export async function GET(req: NextRequest, context: RouteContext) {
             type: true,
           },
         },
+        policyViolations: { select: policyViolationSelect, orderBy: { createdAt: 'asc' } },
+        duplicateOf: { select: duplicateOfSelect },
+        duplicates: {
+          select: { id: true, duplicateStatus: true, createdAt: true, user: { select: { id: true, name: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
       },
     });
 
@@ -86,7 +96,10 @@ export async function GET(req: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    return NextResponse.json({ receipt });
+    return NextResponse.json({
+      receipt,
+      canResolveDuplicate: canViewAll && hasPermission(permissions, 'receipts', 'canEdit'),
+    });
   } catch (error) {
     console.error('Error fetching receipt:', error);
     return NextResponse.json(
@@ -119,7 +132,7 @@ export async function PUT(req: NextRequest, context: RouteContext) {
     // Fetch existing receipt
     const existingReceipt = await prisma.receipt.findUnique({
       where: { id },
-      include: { lineItems: true },
+      include: { lineItems: true, expenseReport: { select: { status: true } } },
     });
 
     if (!existingReceipt) {
@@ -153,6 +166,20 @@ export async function PUT(req: NextRequest, context: RouteContext) {
       lineItems,
     } = body;
 
+    // The amount is fixed once the receipt is on a submitted expense report
+    const isClaimed =
+      !!existingReceipt.expenseReport &&
+      !EDITABLE_EXPENSE_REPORT_STATUSES.includes(existingReceipt.expenseReport.status);
+    const amountChanged =
+      (totalAmount !== undefined && (totalAmount ? parseFloat(totalAmount) : null) !== existingReceipt.totalAmount) ||
+      (currency !== undefined && currency !== existingReceipt.currency);
+    if (isClaimed && amountChanged) {
+      return NextResponse.json(
+        { error: `This receipt is on a ${existingReceipt.expenseReport!.status} expense report and its amount can no longer be changed` },
+        { status: 400 }
+      );
+    }
+
     // Build update data
     const updateData: any = {};
 
@@ -231,6 +258,17 @@ export async function PUT(req: NextRequest, context: RouteContext) {
       },
     });
 
+    if (existingReceipt.expenseReportId && !isClaimed && amountChanged) {
+      await refreshExpenseReportTotals(existingReceipt.expenseReportId);
+    }
+
+    await applyExpensePolicies(id);
+    const policyViolations = await prisma.receiptPolicyViolation.findMany({
+      where: { receiptId: id },
+      select: policyViolationSelect,
+      orderBy: { createdAt: 'asc' },
+    });
+
     // Create audit log
     const { ipAddress, userAgent } = getRequestContext(req);
     const changes = getChanges(
@@ -248,7 +286,7 @@ export async function PUT(req: NextRequest, context: RouteContext) {
       userAgent,
     });
 
-    return NextResponse.json({ receipt: updatedReceipt });
+    return NextResponse.json({ receipt: { ...updatedReceipt, policyViolations } });
   } catch (error) {
     console.error('Error updating receipt:', error);
     return NextResponse.json(
@@ -288,6 +326,8 @@ export async function DELETE(req: NextRequest, context: RouteContext) {
         totalAmount: true,
         imageUrl: true,
         thumbnailUrl: true,
+        expenseReportId: true,
+        expenseReport: { select: { status: true } },
       },
     });
 
@@ -308,6 +348,13 @@ export async function DELETE(req: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
+    if (receipt.expenseReport && !EDITABLE_EXPENSE_REPORT_STATUSES.includes(receipt.expenseReport.status)) {
+      return NextResponse.json(
+        { error: `This receipt is on a ${receipt.expenseReport.status} expense report and cannot be deleted` },
+        { status: 400 }
+      );
+    }
+
     // Delete the receipt in a transaction (cascades to line items and tags)
     await prisma.$transaction(async (tx) => {
       await tx.receipt.delete({
@@ -315,6 +362,10 @@ export async function DELETE(req: NextRequest, context: RouteContext) {
       });
     });
 
+    if (receipt.expenseReportId) {
+      await refreshExpenseReportTotals(receipt.expenseReportId);
+    }
+
     // After transaction succeeds, create audit log
     const { ipAddress, userAgent } = getRequestContext(req);
     await createAuditLog({
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { discardQuarantinedEmail, releaseQuarantinedEmail } from '@/lib/receipt-email';
+import { inboundEmailReviewSchema, parseWithErrors } from '@/lib/validation';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/receipts/email/[id]
+ * Release a quarantined email to a user as receipts, or discard it
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'settings', 'canManage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = parseWithErrors(inboundEmailReviewSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const context = getRequestContext(req);
+
+    if (parsed.data.action === 'release') {
+      const owner = await prisma.user.findUnique({
+        where: { id: parsed.data.userId },
+        select: { id: true, isActive: true },
+      });
+      if (!owner || !owner.isActive) {
+        return NextResponse.json({ error: 'User not found' }, { status: 400 });
+      }
+
+      const result = await releaseQuarantinedEmail(id, owner.id, session.user.id);
+      if ('error' in result) {
+        return NextResponse.json({ error: result.error }, { status: 404 });
+      }
+
+      await createAuditLog({
+        userId: session.user.id,
+        action: 'INBOUND_EMAIL_RELEASED',
+        entityType: 'InboundEmail',
+        entityId: id,
+        changes: {
+          after: { userId: owner.id, receiptIds: result.receiptIds },
+        },
+        ...context,
+      });
+
+      return NextResponse.json({ receiptIds: result.receiptIds });
+    }
+
+    const result = await discardQuarantinedEmail(id, session.user.id);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 404 });
+    }
+
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'INBOUND_EMAIL_DISCARDED',
+      entityType: 'InboundEmail',
+      entityId: id,
+      ...context,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error reviewing inbound email:', error);
+    return NextResponse.json(
+      { error: 'Failed to review inbound email' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ingestReceiptEmail,
+  isInboundEmailAuthorized,
+  isReceiptForwardingEnabled,
+  MAX_INBOUND_EMAIL_BYTES,
+} from '@/lib/receipt-email';
+
+/**
+ * POST /api/receipts/email/inbound
+ * Accept a forwarded receipt email from a mail service webhook
+ *
+ * Authenticated with the receipt forwarding secret as a bearer token. The body
+ * is the raw MIME message, or a form with the message in an "email" or
+ * "body-mime" field (SendGrid and Mailgun raw formats).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    if (!isInboundEmailAuthorized(req)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isReceiptForwardingEnabled()) {
+      return NextResponse.json({ error: 'Receipt email forwarding is disabled' }, { status: 403 });
+    }
+
+    const contentLength = Number(req.headers.get('content-length') || 0);
+    if (contentLength > MAX_INBOUND_EMAIL_BYTES) {
+      return NextResponse.json({ error: 'Email is too large' }, { status: 413 });
+    }
+
+    let raw: Buffer;
+    const contentType = req.headers.get('content-type') || '';
+    if (contentType.includes('multipart/form-data') || contentType.includes('application/x-www-form-urlencoded')) {
+      const formData = await req.formData();
+      const field = formData.get('email') ?? formData.get('body-mime');
+      if (!field) {
+        return NextResponse.json({ error: 'No email found in the form' }, { status: 400 });
+      }
+      raw = typeof field === 'string' ? Buffer.from(field) : Buffer.from(await field.arrayBuffer());
+    } else {
+      raw = Buffer.from(await req.arrayBuffer());
+    }
+
+    if (raw.length === 0) {
+      return NextResponse.json({ error: 'Empty email' }, { status: 400 });
+    }
+    if (raw.length > MAX_INBOUND_EMAIL_BYTES) {
+      return NextResponse.json({ error: 'Email is too large' }, { status: 413 });
+    }
+
+    const result = await ingestReceiptEmail(raw, 'webhook');
+
+    return NextResponse.json(result, { status: result.status === 'duplicate' ? 200 : 201 });
+  } catch (error) {
+    console.error('Error receiving receipt email:', error);
+    return NextResponse.json(
+      { error: 'Failed to import receipt email' },
+      { status: 500 }
+    );
+  }
+}
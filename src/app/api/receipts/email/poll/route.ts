@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { isInboundEmailAuthorized, isReceiptForwardingEnabled, pollReceiptMailbox } from '@/lib/receipt-email';
+
+/**
+ * POST /api/receipts/email/poll
+ * Check the receipt mailbox now and import any unread emails
+ *
+ * Called from the admin receipt inbox, or on a schedule (e.g. cron) with the
+ * receipt forwarding secret as a bearer token.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    if (!isInboundEmailAuthorized(req)) {
+      const session = await auth();
+      if (!session?.user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+
+      const userWithPerms = await getUserWithPermissions(session.user.id);
+      if (!userWithPerms) {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 });
+      }
+
+      if (!hasPermission(userWithPerms.permissions, 'settings', 'canManage')) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+    }
+
+    if (!isReceiptForwardingEnabled()) {
+      return NextResponse.json({ error: 'Receipt email forwarding is disabled' }, { status: 400 });
+    }
+
+    let result;
+    try {
+      result = await pollReceiptMailbox();
+    } catch (pollError) {
+      console.error('Error polling receipt mailbox:', pollError);
+      return NextResponse.json(
+        { error: pollError instanceof Error ? pollError.message : 'Failed to check the receipt mailbox' },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error('Error checking receipt mailbox:', error);
+    return NextResponse.json(
+      { error: 'Failed to check the receipt mailbox' },
+      { status: 500 }
+    );
+  }
+}
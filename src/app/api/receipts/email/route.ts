@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { getSettings } from '@/lib/settings';
+
+/**
+ * GET /api/receipts/email
+ * Quarantined emails awaiting review, recent imports and the forwarding setup
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'settings', 'canManage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [quarantined, recent, users] = await Promise.all([
+      prisma.inboundEmail.findMany({
+        where: { status: 'quarantined' },
+        orderBy: { receivedAt: 'desc' },
+      }),
+      prisma.inboundEmail.findMany({
+        where: { status: { not: 'quarantined' } },
+        include: { user: { select: { id: true, name: true } } },
+        orderBy: { receivedAt: 'desc' },
+        take: 50,
+      }),
+      prisma.user.findMany({
+        where: { isActive: true },
+        select: { id: true, name: true, email: true },
+        orderBy: { name: 'asc' },
+      }),
+    ]);
+
+    const forwarding = getSettings().email.receiptForwarding;
+
+    return NextResponse.json({
+      quarantined,
+      recent,
+      users,
+      config: {
+        enabled: forwarding?.enabled === true,
+        forwardingAddress: forwarding?.forwardingAddress || '',
+        imapConfigured: !!(forwarding?.imap?.host && forwarding.imap.username && forwarding.imap.password),
+        webhookConfigured: !!forwarding?.webhookSecret,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching receipt inbox:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch receipt inbox' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
 import { createAuditLog, getRequestContext } from '@/lib/audit';
 import { parsePagination } from '@/lib/validation';
+import { applyExpensePolicies } from '@/lib/expense-policy';
+import { checkReceiptForDuplicates } from '@/lib/receipt-duplicates';
 
 /**
  * GET /api/receipts
@@ -130,6 +132,9 @@ export async function GET(req: NextRequest) {
             tag: { select: { id: true, name: true, color: true } },
           },
         },
+        policyViolations: {
+          select: { id: true, message: true },
+        },
         _count: {
           select: { lineItems: true },
         },
@@ -235,6 +240,13 @@ export async function POST(req: NextRequest) {
       },
     });
 
+    await applyExpensePolicies(receipt.id);
+    try {
+      await checkReceiptForDuplicates(receipt.id, session.user.id);
+    } catch (duplicateError) {
+      console.error('Error checking for duplicate receipts:', duplicateError);
+    }
+
     // Create audit log
     const { ipAddress, userAgent } = getRequestContext(req);
     await createAuditLog({
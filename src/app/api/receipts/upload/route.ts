@@ -3,22 +3,9 @@ import { prisma } from '@/lib/prisma';
 import { NextRequest, NextResponse } from 'next/server';
 import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
 import { createAuditLog, getRequestContext } from '@/lib/audit';
-import {
-  validateUploadedFile,
-  isImageFile,
-  isPdfFile,
-} from '@/lib/file-validation';
-import { optimizeReceiptImage } from '@/lib/image-processing';
-import { optimizeReceiptPdf } from '@/lib/pdf-optimization';
-import { writeFile, mkdir } from 'fs/promises';
-import { existsSync } from 'fs';
-import path from 'path';
-
-// Upload directory configuration
-const UPLOAD_DIR = process.env.UPLOAD_DIR || './uploads/receipts';
-const THUMBNAIL_DIR = process.env.UPLOAD_DIR
-  ? path.join(path.dirname(process.env.UPLOAD_DIR), 'thumbnails')
-  : './uploads/thumbnails';
+import { validateUploadedFile } from '@/lib/file-validation';
+import { storeReceiptFile } from '@/lib/receipt-processing';
+import { checkReceiptForDuplicates } from '@/lib/receipt-duplicates';
 
 /**
  * POST /api/receipts/upload
@@ -67,62 +54,8 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Ensure upload directory exists
-    const uploadDir = path.resolve(UPLOAD_DIR);
-    if (!existsSync(uploadDir)) {
-      await mkdir(uploadDir, { recursive: true });
-    }
-
     const mimeType = validation.mimeType!;
-    const uuid = crypto.randomUUID();
-    let fileBuffer: Buffer = buffer;
-    let thumbnailBuffer: Buffer | null = null;
-    let optimizationMeta: Record<string, unknown> = {};
-
-    // Optimize based on file type
-    if (isImageFile(mimeType)) {
-      const result = await optimizeReceiptImage(buffer);
-      fileBuffer = result.buffer;
-      thumbnailBuffer = result.thumbnailBuffer;
-      optimizationMeta = {
-        originalSize: result.originalSize,
-        optimizedSize: result.optimizedSize,
-        savedBytes: result.originalSize - result.optimizedSize,
-        dimensions: `${result.width}x${result.height}`,
-        steps: result.steps,
-      };
-    } else if (isPdfFile(mimeType)) {
-      const result = await optimizeReceiptPdf(buffer);
-      fileBuffer = result.buffer;
-      optimizationMeta = {
-        originalSize: result.originalSize,
-        optimizedSize: result.newSize,
-        savedBytes: result.originalSize - result.newSize,
-        method: result.method,
-        optimized: result.optimized,
-      };
-    }
-
-    // Use .jpg extension for all optimized images, preserve .pdf for PDFs
-    const ext = isImageFile(mimeType) ? '.jpg' : '.pdf';
-    const uniqueFilename = `receipt_${uuid}${ext}`;
-    const filePath = path.join(uploadDir, uniqueFilename);
-
-    // Write optimized file to disk
-    await writeFile(filePath, fileBuffer);
-
-    // Write thumbnail if generated
-    let thumbnailUrl: string | null = null;
-    if (thumbnailBuffer) {
-      const thumbDir = path.resolve(THUMBNAIL_DIR);
-      if (!existsSync(thumbDir)) {
-        await mkdir(thumbDir, { recursive: true });
-      }
-      const thumbFilename = `thumb_${uuid}.jpg`;
-      const thumbPath = path.join(thumbDir, thumbFilename);
-      await writeFile(thumbPath, thumbnailBuffer);
-      thumbnailUrl = `thumbnails/${thumbFilename}`;
-    }
+    const stored = await storeReceiptFile(buffer, mimeType);
 
     // Create receipt record with pending status
     const receipt = await prisma.receipt.create({
@@ -130,14 +63,22 @@ export async function POST(req: NextRequest) {
         userId: session.user.id,
         status: 'PENDING',
         source: 'UPLOAD',
-        imageUrl: `receipts/${uniqueFilename}`,
-        thumbnailUrl: thumbnailUrl || (isImageFile(mimeType) ? `receipts/${uniqueFilename}` : null),
+        imageUrl: stored.imageUrl,
+        thumbnailUrl: stored.thumbnailUrl,
+        imageHash: stored.imageHash,
       },
       include: {
         user: { select: { id: true, name: true, email: true } },
       },
     });
 
+    // Same image as an earlier receipt; OCR checks merchant, date and amount later
+    try {
+      await checkReceiptForDuplicates(receipt.id, session.user.id);
+    } catch (duplicateError) {
+      console.error('Error checking for duplicate receipts:', duplicateError);
+    }
+
     // Create audit log
     const { ipAddress, userAgent } = getRequestContext(req);
     await createAuditLog({
@@ -147,10 +88,10 @@ export async function POST(req: NextRequest) {
       entityId: receipt.id,
       changes: {
         after: {
-          filename: uniqueFilename,
+          filename: stored.filename,
           mimeType: validation.mimeType,
-          size: fileBuffer.length,
-          ...optimizationMeta,
+          size: stored.size,
+          ...stored.optimizationMeta,
         },
       },
       ipAddress,
@@ -0,0 +1,124 @@
+import { auth } from '@/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { escapeCSV } from '@/lib/csv-sanitize';
+import { getBudgetForecast, type BudgetForecast, type ForecastGroup } from '@/lib/budget-forecast';
+
+const STATUS_LABELS: Record<string, string> = {
+  ON_TRACK: 'On track',
+  WATCH: 'Watch',
+  OVER: 'Projected over',
+};
+
+/**
+ * GET /api/reports/budget-forecast
+ * Projected year-end spend per budget line, department and category
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { permissions } = userWithPerms;
+
+    const canView =
+      hasPermission(permissions, 'budgetItems', 'canViewAllCategories') ||
+      hasPermission(permissions, 'budgetItems', 'canExportReports');
+
+    if (!canView) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const fiscalYear = parseInt(searchParams.get('fiscalYear') || String(new Date().getFullYear()), 10);
+    const format = searchParams.get('format') || 'json';
+
+    if (isNaN(fiscalYear) || fiscalYear < 2000 || fiscalYear > 2100) {
+      return NextResponse.json({ error: 'Invalid fiscal year' }, { status: 400 });
+    }
+
+    const forecast = await getBudgetForecast(fiscalYear);
+
+    if (format === 'csv') {
+      const csv = generateCSV(forecast);
+      return new NextResponse(csv, {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="budget-forecast-${fiscalYear}.csv"`,
+          'X-Content-Type-Options': 'nosniff',
+        },
+      });
+    }
+
+    return NextResponse.json(forecast);
+  } catch (error) {
+    console.error('Error generating budget forecast:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+function groupRows(groups: ForecastGroup[]): string[] {
+  return groups.map((group) => [
+    escapeCSV(group.name),
+    group.budgetAmount.toFixed(2),
+    group.actualSpent.toFixed(2),
+    group.encumbered.toFixed(2),
+    group.monthlyRunRate.toFixed(2),
+    group.projectedYearEnd.toFixed(2),
+    group.projectedVariance.toFixed(2),
+    group.projectedPercent.toFixed(1) + '%',
+    STATUS_LABELS[group.status],
+  ].join(','));
+}
+
+function generateCSV(forecast: BudgetForecast): string {
+  const lines: string[] = [];
+
+  // UTF-8 BOM prefix
+  const bom = '\uFEFF';
+
+  lines.push(`Budget Forecast - FY ${forecast.fiscalYear}`);
+  lines.push(`As of: ${forecast.asOf.toLocaleDateString()} (${forecast.elapsedPercent.toFixed(0)}% of year elapsed)`);
+  lines.push(`Generated: ${new Date().toLocaleString()}`);
+  lines.push('');
+
+  lines.push('Code,Description,Category,Department,Budget,Actual Spent,Encumbered,Monthly Run Rate,Projected Year-End,Projected Variance,Projected %,Status');
+  for (const line of forecast.lines) {
+    lines.push([
+      escapeCSV(line.code),
+      escapeCSV(line.description),
+      escapeCSV(line.categoryName || ''),
+      escapeCSV(line.departmentName || ''),
+      line.budgetAmount.toFixed(2),
+      line.actualSpent.toFixed(2),
+      line.encumbered.toFixed(2),
+      line.monthlyRunRate.toFixed(2),
+      line.projectedYearEnd.toFixed(2),
+      line.projectedVariance.toFixed(2),
+      line.projectedPercent.toFixed(1) + '%',
+      STATUS_LABELS[line.status],
+    ].join(','));
+  }
+
+  const groupHeader = 'Budget,Actual Spent,Encumbered,Monthly Run Rate,Projected Year-End,Projected Variance,Projected %,Status';
+
+  lines.push('');
+  lines.push(`Department,${groupHeader}`);
+  lines.push(...groupRows(forecast.departments));
+
+  lines.push('');
+  lines.push(`Category,${groupHeader}`);
+  lines.push(...groupRows(forecast.categories));
+
+  return bom + lines.join('\n');
+}
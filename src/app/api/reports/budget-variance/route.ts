@@ -3,6 +3,7 @@ import { prisma } from '@/lib/prisma';
 import { NextRequest, NextResponse } from 'next/server';
 import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
 import { escapeCSV } from '@/lib/csv-sanitize';
+import { getFiscalYearStarts, getYearToDateVariance } from '@/lib/budget-phasing';
 
 type BudgetVarianceItem = {
   id: string;
@@ -11,12 +12,17 @@ type BudgetVarianceItem = {
   categoryName: string | null;
   categoryCode: string | null;
   departmentName: string | null;
+  accrualType: string;
+  phasing: string;
   budgetAmount: number;
   encumbered: number;
   actualSpent: number;
   available: number;
   variance: number;
   variancePercent: number;
+  ytdBudget: number;
+  ytdVariance: number;
+  ytdVariancePercent: number;
 };
 
 type GroupSubtotal = {
@@ -24,6 +30,7 @@ type GroupSubtotal = {
   spent: number;
   encumbered: number;
   available: number;
+  ytdBudget: number;
 };
 
 /**
@@ -66,6 +73,9 @@ export async function GET(req: NextRequest) {
       orderBy: { code: 'asc' },
     });
 
+    // Year-to-date figures compare spend so far against the phased budget so far
+    const fiscalYearStart = (await getFiscalYearStarts([fiscalYear])).get(fiscalYear)!;
+
     // Calculate variance for each item
     const items: BudgetVarianceItem[] = budgetItems.map((item) => {
       const budgetAmount = item.budgetAmount;
@@ -74,6 +84,7 @@ export async function GET(req: NextRequest) {
       const available = budgetAmount - encumbered - actualSpent;
       const variance = budgetAmount - actualSpent;
       const variancePercent = budgetAmount > 0 ? (variance / budgetAmount) * 100 : 0;
+      const { ytdBudget, ytdVariance, ytdVariancePercent } = getYearToDateVariance(item, fiscalYearStart);
 
       return {
         id: item.id,
@@ -82,12 +93,17 @@ export async function GET(req: NextRequest) {
         categoryName: item.category?.name || null,
         categoryCode: item.category?.code || null,
         departmentName: item.department?.name || null,
+        accrualType: item.accrualType,
+        phasing: item.phasing,
         budgetAmount,
         encumbered,
         actualSpent,
         available,
         variance,
         variancePercent,
+        ytdBudget,
+        ytdVariance,
+        ytdVariancePercent,
       };
     });
 
@@ -96,18 +112,21 @@ export async function GET(req: NextRequest) {
     const totalSpent = items.reduce((sum, i) => sum + i.actualSpent, 0);
     const totalEncumbered = items.reduce((sum, i) => sum + i.encumbered, 0);
     const totalAvailable = totalBudget - totalSpent - totalEncumbered;
+    const totalYtdBudget = items.reduce((sum, i) => sum + i.ytdBudget, 0);
+    const totalYtdVariance = totalYtdBudget - totalSpent;
 
     // Group by category
     const byCategory: Record<string, GroupSubtotal> = {};
     for (const item of items) {
       const key = item.categoryName || 'Uncategorized';
       if (!byCategory[key]) {
-        byCategory[key] = { budget: 0, spent: 0, encumbered: 0, available: 0 };
+        byCategory[key] = { budget: 0, spent: 0, encumbered: 0, available: 0, ytdBudget: 0 };
       }
       byCategory[key].budget += item.budgetAmount;
       byCategory[key].spent += item.actualSpent;
       byCategory[key].encumbered += item.encumbered;
       byCategory[key].available += item.available;
+      byCategory[key].ytdBudget += item.ytdBudget;
     }
 
     // Group by department
@@ -115,12 +134,13 @@ export async function GET(req: NextRequest) {
     for (const item of items) {
       const key = item.departmentName || 'No Department';
       if (!byDepartment[key]) {
-        byDepartment[key] = { budget: 0, spent: 0, encumbered: 0, available: 0 };
+        byDepartment[key] = { budget: 0, spent: 0, encumbered: 0, available: 0, ytdBudget: 0 };
       }
       byDepartment[key].budget += item.budgetAmount;
       byDepartment[key].spent += item.actualSpent;
       byDepartment[key].encumbered += item.encumbered;
       byDepartment[key].available += item.available;
+      byDepartment[key].ytdBudget += item.ytdBudget;
     }
 
     // Handle CSV export
@@ -137,7 +157,14 @@ export async function GET(req: NextRequest) {
 
     return NextResponse.json({
       fiscalYear,
-      summary: { totalBudget, totalSpent, totalEncumbered, totalAvailable },
+      summary: {
+        totalBudget,
+        totalSpent,
+        totalEncumbered,
+        totalAvailable,
+        totalYtdBudget,
+        totalYtdVariance,
+      },
       items,
       byCategory,
       byDepartment,
@@ -162,7 +189,7 @@ function generateCSV(fiscalYear: number, items: BudgetVarianceItem[]): string {
   lines.push('');
 
   // Header row
-  lines.push('Code,Description,Category,Department,Budget,Encumbered,Actual Spent,Available,Variance,Variance %');
+  lines.push('Code,Description,Category,Department,Accrual,Budget,Encumbered,Actual Spent,Available,Variance,Variance %,YTD Budget,YTD Variance,YTD Variance %');
 
   for (const item of items) {
     lines.push([
@@ -170,12 +197,16 @@ function generateCSV(fiscalYear: number, items: BudgetVarianceItem[]): string {
       escapeCSV(item.description),
       escapeCSV(item.categoryName || ''),
       escapeCSV(item.departmentName || ''),
+      item.accrualType,
       item.budgetAmount.toFixed(2),
       item.encumbered.toFixed(2),
       item.actualSpent.toFixed(2),
       item.available.toFixed(2),
       item.variance.toFixed(2),
       item.variancePercent.toFixed(1) + '%',
+      item.ytdBudget.toFixed(2),
+      item.ytdVariance.toFixed(2),
+      item.ytdVariancePercent.toFixed(1) + '%',
     ].join(','));
   }
 
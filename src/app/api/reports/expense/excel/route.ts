@@ -51,6 +51,8 @@ export async function GET(req: NextRequest) {
     // Build where clause
     const where: Record<string, unknown> = {
       status: { in: ['COMPLETED', 'REVIEWED'] },
+      // Suspected and confirmed duplicates are not counted as spend
+      OR: [{ duplicateStatus: null }, { duplicateStatus: 'dismissed' }],
       receiptDate: {
         gte: queryStartDate,
         lte: queryEndDate,
@@ -100,6 +102,29 @@ export async function GET(req: NextRequest) {
       );
     }
 
+    // Mileage and per diem entries have no vendor, so a vendor filter excludes them
+    const entries = vendorIds.length > 0
+      ? []
+      : await prisma.expenseEntry.findMany({
+          where: {
+            expenseDate: { gte: queryStartDate, lte: queryEndDate },
+            userId: where.userId as string | { in: string[] } | undefined,
+            budgetCategoryId: categoryIds.length > 0 ? { in: categoryIds } : undefined,
+            user: departmentIds.length > 0 ? { departmentId: { in: departmentIds } } : undefined,
+          },
+          include: {
+            budgetCategory: { select: { id: true, name: true, code: true } },
+            user: { select: { id: true, name: true, department: { select: { id: true, name: true } } } },
+          },
+          orderBy: { expenseDate: 'desc' },
+          take: 10000,
+        });
+
+    const totalExpenses =
+      filteredReceipts.reduce((sum, r) => sum + (r.totalAmount || 0), 0) +
+      entries.reduce((sum, e) => sum + e.amount, 0);
+    const itemCount = filteredReceipts.length + entries.length;
+
     // Create workbook
     const workbook = XLSX.utils.book_new();
 
@@ -110,9 +135,10 @@ export async function GET(req: NextRequest) {
       ['Date Range', `${queryStartDate.toLocaleDateString()} - ${queryEndDate.toLocaleDateString()}`],
       [],
       ['Summary'],
-      ['Total Expenses', filteredReceipts.reduce((sum, r) => sum + (r.totalAmount || 0), 0)],
+      ['Total Expenses', totalExpenses],
       ['Total Receipts', filteredReceipts.length],
-      ['Average Expense', filteredReceipts.length > 0 ? filteredReceipts.reduce((sum, r) => sum + (r.totalAmount || 0), 0) / filteredReceipts.length : 0],
+      ['Mileage/Per Diem Entries', entries.length],
+      ['Average Expense', itemCount > 0 ? totalExpenses / itemCount : 0],
     ];
     const summarySheet = XLSX.utils.aoa_to_sheet(summaryData);
     XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary');
@@ -133,8 +159,30 @@ export async function GET(req: NextRequest) {
     const receiptsSheet = XLSX.utils.json_to_sheet(receiptData);
     XLSX.utils.book_append_sheet(workbook, receiptsSheet, 'Receipts');
 
-    // Sheet 3: By Category
-    const categoryMap = new Map<string, { name: string; code: string | null; total: number; count: number }>();
+    // Sheet 3: Mileage & Per Diem
+    const entryData = entries.map((e) => ({
+      Date: e.expenseDate.toISOString().split('T')[0],
+      Type: e.type === 'mileage' ? 'Mileage' : 'Per Diem',
+      Description: e.description || '',
+      From: e.startLocation || '',
+      To: e.endLocation || '',
+      Distance: e.distance,
+      Unit: e.distanceUnit || '',
+      Location: e.location || '',
+      Days: e.days,
+      Rate: e.rate,
+      Amount: e.amount,
+      Category: e.budgetCategory?.name || '',
+      Department: e.user.department?.name || '',
+      User: e.user.name || '',
+    }));
+    if (entryData.length > 0) {
+      const entriesSheet = XLSX.utils.json_to_sheet(entryData);
+      XLSX.utils.book_append_sheet(workbook, entriesSheet, 'Mileage & Per Diem');
+    }
+
+    // Sheet 4: By Category
+    const categoryMap = new Map<string, { name: string; code: string | null; total: number; count: number; entries: number }>();
     for (const receipt of filteredReceipts) {
       const categoryId = receipt.budgetCategoryId || 'uncategorized';
       const existing = categoryMap.get(categoryId) || {
@@ -142,11 +190,25 @@ export async function GET(req: NextRequest) {
         code: receipt.budgetCategory?.code || null,
         total: 0,
         count: 0,
+        entries: 0,
       };
       existing.total += receipt.totalAmount || 0;
       existing.count += 1;
       categoryMap.set(categoryId, existing);
     }
+    for (const entry of entries) {
+      const categoryId = entry.budgetCategoryId || 'uncategorized';
+      const existing = categoryMap.get(categoryId) || {
+        name: entry.budgetCategory?.name || 'Uncategorized',
+        code: entry.budgetCategory?.code || null,
+        total: 0,
+        count: 0,
+        entries: 0,
+      };
+      existing.total += entry.amount;
+      existing.entries += 1;
+      categoryMap.set(categoryId, existing);
+    }
     const categoryData = Array.from(categoryMap.values())
       .sort((a, b) => b.total - a.total)
       .map((c) => ({
@@ -154,11 +216,12 @@ export async function GET(req: NextRequest) {
         Code: c.code || '',
         'Total Amount': c.total,
         'Receipt Count': c.count,
+        'Mileage/Per Diem Count': c.entries,
       }));
     const categorySheet = XLSX.utils.json_to_sheet(categoryData);
     XLSX.utils.book_append_sheet(workbook, categorySheet, 'By Category');
 
-    // Sheet 4: By Vendor
+    // Sheet 5: By Vendor
     const vendorMap = new Map<string, { name: string; total: number; count: number }>();
     for (const receipt of filteredReceipts) {
       const vendorId = receipt.vendorId || 'no-vendor';
@@ -181,8 +244,8 @@ export async function GET(req: NextRequest) {
     const vendorSheet = XLSX.utils.json_to_sheet(vendorData);
     XLSX.utils.book_append_sheet(workbook, vendorSheet, 'By Vendor');
 
-    // Sheet 5: By Department
-    const deptMap = new Map<string, { name: string; total: number; count: number }>();
+    // Sheet 6: By Department
+    const deptMap = new Map<string, { name: string; total: number; count: number; entries: number }>();
     for (const receipt of filteredReceipts) {
       const dept = receipt.user?.department;
       const deptId = dept?.id || 'no-department';
@@ -190,43 +253,66 @@ export async function GET(req: NextRequest) {
         name: dept?.name || 'No Department',
         total: 0,
         count: 0,
+        entries: 0,
       };
       existing.total += receipt.totalAmount || 0;
       existing.count += 1;
       deptMap.set(deptId, existing);
     }
+    for (const entry of entries) {
+      const dept = entry.user.department;
+      const deptId = dept?.id || 'no-department';
+      const existing = deptMap.get(deptId) || {
+        name: dept?.name || 'No Department',
+        total: 0,
+        count: 0,
+        entries: 0,
+      };
+      existing.total += entry.amount;
+      existing.entries += 1;
+      deptMap.set(deptId, existing);
+    }
     const deptData = Array.from(deptMap.values())
       .sort((a, b) => b.total - a.total)
       .map((d) => ({
         Department: d.name,
         'Total Amount': d.total,
         'Receipt Count': d.count,
+        'Mileage/Per Diem Count': d.entries,
       }));
     const deptSheet = XLSX.utils.json_to_sheet(deptData);
     XLSX.utils.book_append_sheet(workbook, deptSheet, 'By Department');
 
-    // Sheet 6: By Month
-    const monthMap = new Map<string, { total: number; count: number }>();
+    // Sheet 7: By Month
+    const monthMap = new Map<string, { total: number; count: number; entries: number }>();
     for (const receipt of filteredReceipts) {
       if (!receipt.receiptDate) continue;
       const date = new Date(receipt.receiptDate);
       const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      const existing = monthMap.get(monthKey) || { total: 0, count: 0 };
+      const existing = monthMap.get(monthKey) || { total: 0, count: 0, entries: 0 };
       existing.total += receipt.totalAmount || 0;
       existing.count += 1;
       monthMap.set(monthKey, existing);
     }
+    for (const entry of entries) {
+      const monthKey = entry.expenseDate.toISOString().slice(0, 7);
+      const existing = monthMap.get(monthKey) || { total: 0, count: 0, entries: 0 };
+      existing.total += entry.amount;
+      existing.entries += 1;
+      monthMap.set(monthKey, existing);
+    }
     const monthData = Array.from(monthMap.entries())
       .sort((a, b) => a[0].localeCompare(b[0]))
       .map(([month, data]) => ({
         Month: month,
         'Total Amount': data.total,
         'Receipt Count': data.count,
+        'Mileage/Per Diem Count': data.entries,
       }));
     const monthSheet = XLSX.utils.json_to_sheet(monthData);
     XLSX.utils.book_append_sheet(workbook, monthSheet, 'By Month');
 
-    // Sheet 7: Line Items (if any)
+    // Sheet 8: Line Items (if any)
     const lineItemsData: Array<{
       'Receipt Date': string;
       Merchant: string;
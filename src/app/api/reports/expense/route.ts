@@ -10,6 +10,7 @@ type ExpenseByCategory = {
   categoryCode: string | null;
   totalAmount: number;
   receiptCount: number;
+  entryCount: number;
 };
 
 type ExpenseByDepartment = {
@@ -17,6 +18,7 @@ type ExpenseByDepartment = {
   departmentName: string;
   totalAmount: number;
   receiptCount: number;
+  entryCount: number;
 };
 
 type ExpenseByVendor = {
@@ -30,6 +32,7 @@ type ExpenseByMonth = {
   month: string;
   totalAmount: number;
   receiptCount: number;
+  entryCount: number;
 };
 
 type ReceiptDetail = {
@@ -50,6 +53,21 @@ type ReceiptDetail = {
   }>;
 };
 
+type EntryDetail = {
+  id: string;
+  type: string;
+  expenseDate: string;
+  description: string | null;
+  distance: number | null;
+  distanceUnit: string | null;
+  location: string | null;
+  days: number | null;
+  rate: number;
+  amount: number;
+  category: { id: string; name: string; code: string | null } | null;
+  user: { id: string; name: string | null } | null;
+};
+
 export interface ExpenseReport {
   title: string;
   generatedAt: string;
@@ -66,6 +84,7 @@ export interface ExpenseReport {
   summary: {
     totalExpenses: number;
     receiptCount: number;
+    entryCount: number;
     averageExpense: number;
     topCategory: string | null;
     topVendor: string | null;
@@ -75,6 +94,7 @@ export interface ExpenseReport {
   byVendor: ExpenseByVendor[];
   byMonth: ExpenseByMonth[];
   receipts: ReceiptDetail[];
+  entries: EntryDetail[];
 }
 
 /**
@@ -125,6 +145,8 @@ export async function GET(req: NextRequest) {
     // Build where clause
     const where: Record<string, unknown> = {
       status: { in: ['COMPLETED', 'REVIEWED'] },
+      // Suspected and confirmed duplicates are not counted as spend
+      OR: [{ duplicateStatus: null }, { duplicateStatus: 'dismissed' }],
       receiptDate: {
         gte: queryStartDate,
         lte: queryEndDate,
@@ -174,10 +196,31 @@ export async function GET(req: NextRequest) {
       );
     }
 
+    // Mileage and per diem entries have no vendor, so a vendor filter excludes them
+    const entries = vendorIds.length > 0
+      ? []
+      : await prisma.expenseEntry.findMany({
+          where: {
+            expenseDate: { gte: queryStartDate, lte: queryEndDate },
+            userId: where.userId as string | { in: string[] } | undefined,
+            budgetCategoryId: categoryIds.length > 0 ? { in: categoryIds } : undefined,
+            user: departmentIds.length > 0 ? { departmentId: { in: departmentIds } } : undefined,
+          },
+          include: {
+            budgetCategory: { select: { id: true, name: true, code: true } },
+            user: { select: { id: true, name: true, department: { select: { id: true, name: true } } } },
+          },
+          orderBy: { expenseDate: 'desc' },
+          take: 10000,
+        });
+
     // Calculate summary stats
-    const totalExpenses = filteredReceipts.reduce((sum, r) => sum + (r.totalAmount || 0), 0);
+    const totalExpenses =
+      filteredReceipts.reduce((sum, r) => sum + (r.totalAmount || 0), 0) +
+      entries.reduce((sum, e) => sum + e.amount, 0);
     const receiptCount = filteredReceipts.length;
-    const averageExpense = receiptCount > 0 ? totalExpenses / receiptCount : 0;
+    const entryCount = entries.length;
+    const averageExpense = receiptCount + entryCount > 0 ? totalExpenses / (receiptCount + entryCount) : 0;
 
     // Group by category
     const categoryMap = new Map<string, ExpenseByCategory>();
@@ -189,11 +232,26 @@ export async function GET(req: NextRequest) {
         categoryCode: receipt.budgetCategory?.code || null,
         totalAmount: 0,
         receiptCount: 0,
+        entryCount: 0,
       };
       existing.totalAmount += receipt.totalAmount || 0;
       existing.receiptCount += 1;
       categoryMap.set(categoryId, existing);
     }
+    for (const entry of entries) {
+      const categoryId = entry.budgetCategoryId || 'uncategorized';
+      const existing = categoryMap.get(categoryId) || {
+        categoryId: entry.budgetCategoryId,
+        categoryName: entry.budgetCategory?.name || 'Uncategorized',
+        categoryCode: entry.budgetCategory?.code || null,
+        totalAmount: 0,
+        receiptCount: 0,
+        entryCount: 0,
+      };
+      existing.totalAmount += entry.amount;
+      existing.entryCount += 1;
+      categoryMap.set(categoryId, existing);
+    }
     const byCategory = Array.from(categoryMap.values()).sort((a, b) => b.totalAmount - a.totalAmount);
 
     // Group by department
@@ -206,11 +264,26 @@ export async function GET(req: NextRequest) {
         departmentName: dept?.name || 'No Department',
         totalAmount: 0,
         receiptCount: 0,
+        entryCount: 0,
       };
       existing.totalAmount += receipt.totalAmount || 0;
       existing.receiptCount += 1;
       departmentMap.set(departmentId, existing);
     }
+    for (const entry of entries) {
+      const dept = entry.user.department;
+      const departmentId = dept?.id || 'no-department';
+      const existing = departmentMap.get(departmentId) || {
+        departmentId: dept?.id || null,
+        departmentName: dept?.name || 'No Department',
+        totalAmount: 0,
+        receiptCount: 0,
+        entryCount: 0,
+      };
+      existing.totalAmount += entry.amount;
+      existing.entryCount += 1;
+      departmentMap.set(departmentId, existing);
+    }
     const byDepartment = Array.from(departmentMap.values()).sort((a, b) => b.totalAmount - a.totalAmount);
 
     // Group by vendor
@@ -239,11 +312,25 @@ export async function GET(req: NextRequest) {
         month: monthKey,
         totalAmount: 0,
         receiptCount: 0,
+        entryCount: 0,
       };
       existing.totalAmount += receipt.totalAmount || 0;
       existing.receiptCount += 1;
       monthMap.set(monthKey, existing);
     }
+    for (const entry of entries) {
+      // Entry dates are stored as UTC midnight
+      const monthKey = entry.expenseDate.toISOString().slice(0, 7);
+      const existing = monthMap.get(monthKey) || {
+        month: monthKey,
+        totalAmount: 0,
+        receiptCount: 0,
+        entryCount: 0,
+      };
+      existing.totalAmount += entry.amount;
+      existing.entryCount += 1;
+      monthMap.set(monthKey, existing);
+    }
     const byMonth = Array.from(monthMap.values()).sort((a, b) => a.month.localeCompare(b.month));
 
     // Build report
@@ -263,6 +350,7 @@ export async function GET(req: NextRequest) {
       summary: {
         totalExpenses,
         receiptCount,
+        entryCount,
         averageExpense,
         topCategory: byCategory.length > 0 ? byCategory[0].categoryName : null,
         topVendor: byVendor.length > 0 ? byVendor[0].vendorName : null,
@@ -283,6 +371,20 @@ export async function GET(req: NextRequest) {
         user: r.user ? { id: r.user.id, name: r.user.name } : null,
         lineItems: r.lineItems,
       })),
+      entries: entries.map((e) => ({
+        id: e.id,
+        type: e.type,
+        expenseDate: e.expenseDate.toISOString(),
+        description: e.description,
+        distance: e.distance,
+        distanceUnit: e.distanceUnit,
+        location: e.location,
+        days: e.days,
+        rate: e.rate,
+        amount: e.amount,
+        category: e.budgetCategory,
+        user: { id: e.user.id, name: e.user.name },
+      })),
     };
 
     // Handle different export formats
@@ -323,16 +425,17 @@ function generateCSV(report: ExpenseReport): string {
   lines.push('Summary');
   lines.push(`Total Expenses,${report.summary.totalExpenses.toFixed(2)}`);
   lines.push(`Receipt Count,${report.summary.receiptCount}`);
+  lines.push(`Mileage/Per Diem Entries,${report.summary.entryCount}`);
   lines.push(`Average Expense,${report.summary.averageExpense.toFixed(2)}`);
   lines.push('');
 
   // By Category
   lines.push('Expenses by Category');
-  lines.push('Category,Code,Total Amount,Receipt Count');
+  lines.push('Category,Code,Total Amount,Receipt Count,Mileage/Per Diem Count');
   for (const cat of report.byCategory) {
     const catName = sanitizeCSVValue(cat.categoryName);
     const catCode = sanitizeCSVValue(cat.categoryCode || '');
-    lines.push(`"${catName}","${catCode}",${cat.totalAmount.toFixed(2)},${cat.receiptCount}`);
+    lines.push(`"${catName}","${catCode}",${cat.totalAmount.toFixed(2)},${cat.receiptCount},${cat.entryCount}`);
   }
   lines.push('');
 
@@ -358,5 +461,23 @@ function generateCSV(report: ExpenseReport): string {
     );
   }
 
+  // Mileage and Per Diem
+  if (report.entries.length > 0) {
+    lines.push('');
+    lines.push('Mileage and Per Diem');
+    lines.push('Date,Type,Employee,Description,Quantity,Rate,Amount,Category');
+    for (const entry of report.entries) {
+      const date = new Date(entry.expenseDate).toLocaleDateString(undefined, { timeZone: 'UTC' });
+      const type = entry.type === 'mileage' ? 'Mileage' : 'Per Diem';
+      const employee = sanitizeCSVValue(entry.user?.name || '');
+      const description = sanitizeCSVValue(entry.description || entry.location || '');
+      const quantity = entry.type === 'mileage' ? `${entry.distance} ${entry.distanceUnit}` : `${entry.days} days`;
+      const categoryName = sanitizeCSVValue(entry.category?.name || '');
+      lines.push(
+        `${date},${type},"${employee}","${description}",${quantity},${entry.rate.toFixed(2)},${entry.amount.toFixed(2)},"${categoryName}"`
+      );
+    }
+  }
+
   return bom + lines.join('\n');
 }
@@ -115,6 +115,7 @@ export async function POST(req: NextRequest) {
               canManage: true,
               canCreateAmendments: true,
               canTransferFunds: true,
+              canOverrideBudget: true,
               canViewAllCategories: true,
               canManageCategories: true,
               canCloseFiscalYear: true,
@@ -127,6 +128,7 @@ export async function POST(req: NextRequest) {
             roles: { canManage: true },
             auditLog: { canView: true, canViewAll: true, canExport: true },
             settings: { canManage: true },
+            expenseReports: { canCreate: true, canViewDepartment: true, canViewAll: true, canApprove: true, canExport: true },
           }),
         },
       });
@@ -169,6 +171,7 @@ export async function POST(req: NextRequest) {
               canManage: true,
               canCreateAmendments: true,
               canTransferFunds: true,
+              canOverrideBudget: false,
               canViewAllCategories: true,
               canManageCategories: false,
               canCloseFiscalYear: false,
@@ -181,6 +184,7 @@ export async function POST(req: NextRequest) {
             roles: { canManage: false },
             auditLog: { canView: true, canViewAll: false, canExport: true },
             settings: { canManage: false },
+            expenseReports: { canCreate: true, canViewDepartment: true, canViewAll: false, canApprove: true, canExport: false },
           }),
         },
       });
@@ -222,6 +226,7 @@ export async function POST(req: NextRequest) {
               canManage: false,
               canCreateAmendments: false,
               canTransferFunds: false,
+              canOverrideBudget: false,
               canViewAllCategories: false,
               canManageCategories: false,
               canCloseFiscalYear: false,
@@ -234,6 +239,7 @@ export async function POST(req: NextRequest) {
             roles: { canManage: false },
             auditLog: { canView: false, canViewAll: false, canExport: false },
             settings: { canManage: false },
+            expenseReports: { canCreate: true, canViewDepartment: false, canViewAll: false, canApprove: false, canExport: false },
           }),
         },
       });
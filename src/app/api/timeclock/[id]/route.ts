@@ -3,6 +3,7 @@ import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
 import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { isInLockedPayPeriod } from '@/lib/pay-period-lock';
 
 type RouteParams = {
   params: Promise<{ id: string }>;
@@ -144,14 +145,7 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
     }
 
     // Check pay period lock for this entry's date
-    const locks = await prisma.payPeriodLock.findMany({
-      where: {
-        isActive: true,
-        periodStart: { lte: entry.clockIn },
-        periodEnd: { gte: entry.clockIn },
-      },
-    });
-    if (locks.length > 0 && !canViewAll) {
+    if (!canViewAll && (await isInLockedPayPeriod(entry.clockIn))) {
       return NextResponse.json(
         { error: 'This pay period is locked. Only administrators can edit entries in locked periods.' },
         { status: 403 }
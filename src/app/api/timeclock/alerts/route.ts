@@ -2,11 +2,13 @@ import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { checkAlertStatus, TimeclockEntryForCalculation } from '@/lib/overtime';
+import { getOvertimeConfigForUser } from '@/lib/overtime-rules';
 import { getSystemConfig } from '@/lib/setup-status';
+import { parseScheduleVariances } from '@/lib/timeclock-schedule';
 
 /**
  * GET /api/timeclock/alerts
- * Get overtime alert status for the current user
+ * Get overtime alert status and today's schedule variances for the current user
  */
 export async function GET() {
   try {
@@ -15,16 +17,32 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const now = new Date();
+
+    // Late arrivals, early departures and unscheduled shifts punched today
+    const startOfToday = new Date(now);
+    startOfToday.setHours(0, 0, 0, 0);
+
+    const todayEntries = await prisma.timeclockEntry.findMany({
+      where: {
+        userId: session.user.id,
+        clockIn: { gte: startOfToday },
+        scheduleVariances: { not: null },
+      },
+      select: { scheduleVariances: true },
+      orderBy: { clockIn: 'asc' },
+    });
+    const scheduleVariances = todayEntries.flatMap((e) => parseScheduleVariances(e.scheduleVariances));
+
     // Get overtime config
-    const config = await prisma.overtimeConfig.findFirst();
+    const config = await getOvertimeConfigForUser(session.user.id, await prisma.overtimeConfig.findFirst());
 
     // If no config or employee notifications disabled, return null
     if (!config || !config.notifyEmployee) {
-      return NextResponse.json({ alertStatus: null });
+      return NextResponse.json({ alertStatus: null, scheduleVariances });
     }
 
     // Get user's entries for today and this week
-    const now = new Date();
     const startOfWeek = new Date(now);
     startOfWeek.setDate(now.getDate() - now.getDay()); // Sunday
     startOfWeek.setHours(0, 0, 0, 0);
@@ -75,6 +93,7 @@ export async function GET() {
         weeklyThreshold: config.weeklyThreshold,
         notifyEmployee: config.notifyEmployee,
       },
+      scheduleVariances,
     });
   } catch (error) {
     console.error('Error fetching alert status:', error);
@@ -0,0 +1,48 @@
+import { auth } from '@/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { endBreak } from '@/lib/timeclock-breaks';
+import { getPunchLocation } from '@/lib/timeclock-location';
+
+/**
+ * POST /api/timeclock/break-end
+ * End the current break
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { user, permissions } = userWithPerms;
+
+    if (!hasPermission(permissions, 'timeclock', 'canClockInOut')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Position the browser shared, if any
+    const body = await req.json().catch(() => ({}));
+    const result = await endBreak(user.id, { location: getPunchLocation(req, body) });
+
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ break: result.breakPunch });
+  } catch (error) {
+    console.error('Error ending break:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { auth } from '@/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { isBreakType, startBreak } from '@/lib/timeclock-breaks';
+import { getPunchLocation } from '@/lib/timeclock-location';
+
+/**
+ * POST /api/timeclock/break-start
+ * Start a break on the open entry. Body: { type: 'MEAL' | 'REST', latitude?, longitude? }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { user, permissions } = userWithPerms;
+
+    if (!hasPermission(permissions, 'timeclock', 'canClockInOut')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    if (!isBreakType(body.type)) {
+      return NextResponse.json({ error: 'Invalid break type' }, { status: 400 });
+    }
+
+    const result = await startBreak(user.id, body.type, { location: getPunchLocation(req, body) });
+
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ break: result.breakPunch });
+  } catch (error) {
+    console.error('Error starting break:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
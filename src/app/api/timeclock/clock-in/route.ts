@@ -1,10 +1,11 @@
 import { auth } from '@/auth';
-import { prisma } from '@/lib/prisma';
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { clockInUser } from '@/lib/timeclock-punch';
+import { getPunchLocation } from '@/lib/timeclock-location';
 
 
-export async function POST() {
+export async function POST(req: NextRequest) {
   try {
     const session = await auth();
     if (!session?.user) {
@@ -23,29 +24,11 @@ export async function POST() {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    const userId = user.id;
+    // Optional job / cost code for the shift
+    const body = await req.json().catch(() => ({}));
+    const jobCodeId = typeof body.jobCodeId === 'string' ? body.jobCodeId : null;
 
-    // Use transaction to prevent race condition between check and create
-    const result = await prisma.$transaction(async (tx) => {
-      // Check if already clocked in
-      const openEntry = await tx.timeclockEntry.findFirst({
-        where: { userId, clockOut: null },
-      });
-
-      if (openEntry) {
-        return { error: 'Already clocked in' };
-      }
-
-      // Create new entry
-      const entry = await tx.timeclockEntry.create({
-        data: {
-          userId,
-          clockIn: new Date(),
-        },
-      });
-
-      return { entry };
-    });
+    const result = await clockInUser(user.id, { jobCodeId, location: getPunchLocation(req, body) });
 
     if ('error' in result) {
       return NextResponse.json(
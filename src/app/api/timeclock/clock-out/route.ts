@@ -1,12 +1,11 @@
 import { auth } from '@/auth';
-import { prisma } from '@/lib/prisma';
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
-import { processClockOut } from '@/lib/timeclock-rules';
-import { createAuditLog } from '@/lib/audit';
+import { clockOutUser } from '@/lib/timeclock-punch';
+import { getPunchLocation } from '@/lib/timeclock-location';
 
 
-export async function POST() {
+export async function POST(req: NextRequest) {
   try {
     const session = await auth();
     if (!session?.user) {
@@ -25,103 +24,18 @@ export async function POST() {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    const userId = user.id;
+    // Position the browser shared, if any
+    const body = await req.json().catch(() => ({}));
+    const result = await clockOutUser(user.id, { location: getPunchLocation(req, body) });
 
-    const now = new Date();
-
-    // Find active entry to calculate duration
-    const entry = await prisma.timeclockEntry.findFirst({
-      where: {
-        userId,
-        clockOut: null,
-      },
-    });
-
-    if (!entry) {
-      return NextResponse.json(
-        { error: 'Not clocked in' },
-        { status: 400 }
-      );
-    }
-
-    const clockIn = new Date(entry.clockIn);
-    const rawDurationSeconds = Math.floor((now.getTime() - clockIn.getTime()) / 1000);
-
-    // Process through rules engine: break deduction -> rounding -> min duration -> auto-approve
-    const result = await processClockOut(rawDurationSeconds, userId);
-
-    // Build update data with processed values
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const updateData: any = {
-      clockOut: now,
-      duration: result.finalDuration,
-      rawDuration: result.rawDuration,
-      breakDeducted: result.breakDeducted > 0 ? result.breakDeducted : null,
-      flagReason: result.flagReason,
-      autoApproved: result.autoApproved,
-      status: result.status,
-      rejectedNote: result.rejectedNote,
-      updatedAt: now,
-    };
-
-    // If auto-approved, set approval fields
-    if (result.autoApproved) {
-      updateData.approvedAt = now;
-      updateData.approvedBy = 'system';
-      updateData.isLocked = true;
-    }
-
-    // Use updateMany to atomically update only entries with clockOut IS NULL
-    const updateResult = await prisma.timeclockEntry.updateMany({
-      where: { userId, clockOut: null },
-      data: updateData,
-    });
-
-    if (updateResult.count === 0) {
+    if ('error' in result) {
       return NextResponse.json(
-        { error: 'Not clocked in' },
+        { error: result.error },
         { status: 400 }
       );
     }
 
-    // Fetch the updated entry for the response
-    const updated = await prisma.timeclockEntry.findUnique({
-      where: { id: entry.id },
-    });
-
-    // Audit log for auto-approve/auto-reject events
-    if (result.autoApproved) {
-      createAuditLog({
-        userId: 'system',
-        action: 'TIMECLOCK_ENTRY_AUTO_APPROVED',
-        entityType: 'TimeclockEntry',
-        entityId: entry.id,
-        changes: {
-          after: {
-            duration: result.finalDuration,
-            rawDuration: result.rawDuration,
-            breakDeducted: result.breakDeducted,
-            autoApproved: true,
-          },
-        },
-      });
-    } else if (result.status === 'rejected') {
-      createAuditLog({
-        userId: 'system',
-        action: 'TIMECLOCK_ENTRY_AUTO_REJECTED',
-        entityType: 'TimeclockEntry',
-        entityId: entry.id,
-        changes: {
-          after: {
-            duration: result.finalDuration,
-            flagReason: result.flagReason,
-            rejectedNote: result.rejectedNote,
-          },
-        },
-      });
-    }
-
-    return NextResponse.json({ entry: updated });
+    return NextResponse.json({ entry: result.entry });
   } catch (error) {
     console.error('Error clocking out:', error);
     return NextResponse.json(
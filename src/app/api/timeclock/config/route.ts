@@ -124,6 +124,8 @@ export async function PUT(req: NextRequest) {
       alertBeforeWeekly,
       notifyEmployee,
       notifyManager,
+      overtimeMultiplier,
+      doubleTimeMultiplier,
     } = body;
 
     const { ipAddress, userAgent } = getRequestContext(req);
@@ -234,7 +236,9 @@ export async function PUT(req: NextRequest) {
       alertBeforeDaily !== undefined ||
       alertBeforeWeekly !== undefined ||
       notifyEmployee !== undefined ||
-      notifyManager !== undefined;
+      notifyManager !== undefined ||
+      overtimeMultiplier !== undefined ||
+      doubleTimeMultiplier !== undefined;
 
     if (hasOvertimeFields) {
       // Validate thresholds (must be positive integers or null)
@@ -249,6 +253,15 @@ export async function PUT(req: NextRequest) {
         return num;
       };
 
+      // Pay multipliers used to cost overtime hours (e.g. 1.5 for time-and-a-half)
+      const validateMultiplier = (value: unknown, fieldName: string): number => {
+        const num = parseFloat(String(value));
+        if (isNaN(num) || num < 1 || num > 10) {
+          throw new Error(`${fieldName} must be a number between 1 and 10`);
+        }
+        return num;
+      };
+
       try {
         const overtimeUpdateData: {
           dailyThreshold?: number | null;
@@ -257,6 +270,8 @@ export async function PUT(req: NextRequest) {
           alertBeforeWeekly?: number | null;
           notifyEmployee?: boolean;
           notifyManager?: boolean;
+          overtimeMultiplier?: number;
+          doubleTimeMultiplier?: number;
         } = {};
 
         if (dailyThreshold !== undefined) {
@@ -283,6 +298,14 @@ export async function PUT(req: NextRequest) {
           overtimeUpdateData.notifyManager = Boolean(notifyManager);
         }
 
+        if (overtimeMultiplier !== undefined) {
+          overtimeUpdateData.overtimeMultiplier = validateMultiplier(overtimeMultiplier, 'Overtime multiplier');
+        }
+
+        if (doubleTimeMultiplier !== undefined) {
+          overtimeUpdateData.doubleTimeMultiplier = validateMultiplier(doubleTimeMultiplier, 'Double time multiplier');
+        }
+
         if (overtimeConfig) {
           overtimeConfig = await prisma.overtimeConfig.update({
             where: { id: overtimeConfig.id },
@@ -297,6 +320,8 @@ export async function PUT(req: NextRequest) {
               alertBeforeWeekly: overtimeUpdateData.alertBeforeWeekly ?? 120,
               notifyEmployee: overtimeUpdateData.notifyEmployee ?? true,
               notifyManager: overtimeUpdateData.notifyManager ?? true,
+              overtimeMultiplier: overtimeUpdateData.overtimeMultiplier ?? 1.5,
+              doubleTimeMultiplier: overtimeUpdateData.doubleTimeMultiplier ?? 2,
             },
           });
         }
@@ -316,6 +341,8 @@ export async function PUT(req: NextRequest) {
                   alertBeforeWeekly: previousOvertimeConfig.alertBeforeWeekly,
                   notifyEmployee: previousOvertimeConfig.notifyEmployee,
                   notifyManager: previousOvertimeConfig.notifyManager,
+                  overtimeMultiplier: previousOvertimeConfig.overtimeMultiplier,
+                  doubleTimeMultiplier: previousOvertimeConfig.doubleTimeMultiplier,
                 }
               : null,
             after: {
@@ -325,6 +352,8 @@ export async function PUT(req: NextRequest) {
               alertBeforeWeekly: overtimeConfig.alertBeforeWeekly,
               notifyEmployee: overtimeConfig.notifyEmployee,
               notifyManager: overtimeConfig.notifyManager,
+              overtimeMultiplier: overtimeConfig.overtimeMultiplier,
+              doubleTimeMultiplier: overtimeConfig.doubleTimeMultiplier,
             },
           },
           ipAddress,
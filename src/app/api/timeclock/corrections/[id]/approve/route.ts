@@ -0,0 +1,223 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { isInLockedPayPeriod } from '@/lib/pay-period-lock';
+import {
+  findOverlappingEntry,
+  getCorrectionReviewDepartmentIds,
+  resolveCorrectedTimes,
+  type TimeclockCorrectionType,
+} from '@/lib/timeclock-corrections';
+import { reprocessEntry } from '@/lib/timeclock-punch';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+// Thrown from the approval transaction to roll it back and answer with a 400
+class CorrectionError extends Error {}
+
+/**
+ * POST /api/timeclock/corrections/[id]/approve
+ * Approve a correction request and apply it: the entry is re-timed (or the
+ * forgotten shift created) and run back through the clock-out rules.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const departmentIds = await getCorrectionReviewDepartmentIds(session.user.id, userWithPerms.permissions);
+    if (departmentIds && departmentIds.length === 0) {
+      return NextResponse.json(
+        { error: 'You do not have permission to approve correction requests' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const correction = await prisma.timeclockCorrection.findUnique({
+      where: { id },
+      include: {
+        user: { select: { id: true, name: true, departmentId: true } },
+        entry: true,
+      },
+    });
+
+    if (!correction) {
+      return NextResponse.json({ error: 'Correction request not found' }, { status: 404 });
+    }
+
+    // Cannot approve own requests
+    if (correction.userId === session.user.id) {
+      return NextResponse.json({ error: 'Cannot approve own correction requests' }, { status: 403 });
+    }
+
+    if (departmentIds && (!correction.user.departmentId || !departmentIds.includes(correction.user.departmentId))) {
+      return NextResponse.json(
+        { error: 'You can only approve corrections in your assigned departments' },
+        { status: 403 }
+      );
+    }
+
+    if (correction.status !== 'pending') {
+      return NextResponse.json(
+        { error: `Correction request is already ${correction.status}` },
+        { status: 400 }
+      );
+    }
+
+    const type = correction.type as TimeclockCorrectionType;
+    const entry = correction.entry;
+    if (type !== 'add_shift' && !entry) {
+      return NextResponse.json(
+        { error: 'The entry for this request no longer exists' },
+        { status: 400 }
+      );
+    }
+
+    if (entry?.isLocked) {
+      return NextResponse.json(
+        { error: 'Cannot correct locked entries' },
+        { status: 400 }
+      );
+    }
+
+    const times = resolveCorrectedTimes(type, entry, {
+      clockIn: correction.requestedClockIn,
+      clockOut: correction.requestedClockOut,
+    });
+    if ('error' in times) {
+      return NextResponse.json({ error: times.error }, { status: 400 });
+    }
+
+    // Same rule as manual edits: only administrators change locked periods
+    const canViewAll = hasPermission(userWithPerms.permissions, 'timeclock', 'canViewAllEntries');
+    if (
+      !canViewAll &&
+      ((await isInLockedPayPeriod(times.clockIn)) || (entry && (await isInLockedPayPeriod(entry.clockIn))))
+    ) {
+      return NextResponse.json(
+        { error: 'This pay period is locked. Only administrators can correct entries in locked periods.' },
+        { status: 403 }
+      );
+    }
+
+    const overlap = await findOverlappingEntry(correction.userId, times.clockIn, times.clockOut, entry?.id);
+    if (overlap) {
+      return NextResponse.json(
+        { error: 'The corrected times overlap another entry for this employee' },
+        { status: 400 }
+      );
+    }
+
+    // Claim the request, then create or re-time the entry, all or nothing
+    let applied;
+    try {
+      applied = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.timeclockCorrection.updateMany({
+          where: { id, status: 'pending' },
+          data: {
+            status: 'approved',
+            reviewedById: session.user.id,
+            reviewedAt: new Date(),
+            reviewNote: null,
+          },
+        });
+        if (count === 0) {
+          throw new CorrectionError('Correction request has already been reviewed');
+        }
+
+        const target = entry ?? await tx.timeclockEntry.create({
+          data: { userId: correction.userId, clockIn: times.clockIn },
+        });
+        const reprocessed = await reprocessEntry(target, times.clockIn, times.clockOut, session.user.id, tx);
+
+        const approved = await tx.timeclockCorrection.update({
+          where: { id },
+          data: { entryId: reprocessed.id },
+        });
+
+        return { updated: approved, updatedEntry: reprocessed };
+      });
+    } catch (error) {
+      if (error instanceof CorrectionError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+    const { updated, updatedEntry } = applied;
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'TIMECLOCK_CORRECTION_APPROVED',
+      entityType: 'TimeclockCorrection',
+      entityId: id,
+      changes: {
+        before: { status: correction.status },
+        after: { status: 'approved' },
+        employeeName: correction.user.name,
+      },
+      ipAddress,
+      userAgent,
+    });
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'TIMECLOCK_ENTRY_EDITED',
+      entityType: 'TimeclockEntry',
+      entityId: updatedEntry.id,
+      changes: {
+        before: entry
+          ? {
+              clockIn: entry.clockIn.toISOString(),
+              clockOut: entry.clockOut?.toISOString() || null,
+              duration: entry.duration,
+            }
+          : undefined,
+        after: {
+          clockIn: updatedEntry.clockIn.toISOString(),
+          clockOut: updatedEntry.clockOut?.toISOString() || null,
+          duration: updatedEntry.duration,
+        },
+        editedUser: correction.user.name,
+        correctionId: id,
+      },
+      ipAddress,
+      userAgent,
+    });
+    if (updatedEntry.autoApproved) {
+      await createAuditLog({
+        userId: 'system',
+        action: 'TIMECLOCK_ENTRY_AUTO_APPROVED',
+        entityType: 'TimeclockEntry',
+        entityId: updatedEntry.id,
+        changes: {
+          after: {
+            duration: updatedEntry.duration,
+            rawDuration: updatedEntry.rawDuration,
+            breakDeducted: updatedEntry.breakDeducted ?? 0,
+            autoApproved: true,
+          },
+        },
+      });
+    }
+
+    return NextResponse.json({ correction: updated, entry: updatedEntry });
+  } catch (error) {
+    console.error('Error approving correction request:', error);
+    return NextResponse.json(
+      { error: 'Failed to approve correction request' },
+      { status: 500 }
+    );
+  }
+}
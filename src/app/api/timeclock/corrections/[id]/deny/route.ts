@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { getCorrectionReviewDepartmentIds } from '@/lib/timeclock-corrections';
+import { rejectedNoteSchema, parseWithErrors } from '@/lib/validation';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * POST /api/timeclock/corrections/[id]/deny
+ * Deny a correction request with an optional note. The entry is left as it was.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const departmentIds = await getCorrectionReviewDepartmentIds(session.user.id, userWithPerms.permissions);
+    if (departmentIds && departmentIds.length === 0) {
+      return NextResponse.json(
+        { error: 'You do not have permission to deny correction requests' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = parseWithErrors(rejectedNoteSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const correction = await prisma.timeclockCorrection.findUnique({
+      where: { id },
+      include: { user: { select: { id: true, name: true, departmentId: true } } },
+    });
+
+    if (!correction) {
+      return NextResponse.json({ error: 'Correction request not found' }, { status: 404 });
+    }
+
+    if (correction.userId === session.user.id) {
+      return NextResponse.json({ error: 'Cannot deny own correction requests' }, { status: 403 });
+    }
+
+    if (departmentIds && (!correction.user.departmentId || !departmentIds.includes(correction.user.departmentId))) {
+      return NextResponse.json(
+        { error: 'You can only deny corrections in your assigned departments' },
+        { status: 403 }
+      );
+    }
+
+    if (correction.status !== 'pending') {
+      return NextResponse.json(
+        { error: `Correction request is already ${correction.status}` },
+        { status: 400 }
+      );
+    }
+
+    // Only deny it if no one approved it in the meantime
+    const { count } = await prisma.timeclockCorrection.updateMany({
+      where: { id, status: 'pending' },
+      data: {
+        status: 'denied',
+        reviewedById: session.user.id,
+        reviewedAt: new Date(),
+        reviewNote: parsed.data.rejectedNote?.trim() || null,
+      },
+    });
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Correction request has already been reviewed' },
+        { status: 400 }
+      );
+    }
+    const updated = await prisma.timeclockCorrection.findUniqueOrThrow({ where: { id } });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'TIMECLOCK_CORRECTION_DENIED',
+      entityType: 'TimeclockCorrection',
+      entityId: id,
+      changes: {
+        before: { status: correction.status },
+        after: { status: 'denied', reviewNote: updated.reviewNote },
+        employeeName: correction.user.name,
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ correction: updated });
+  } catch (error) {
+    console.error('Error denying correction request:', error);
+    return NextResponse.json(
+      { error: 'Failed to deny correction request' },
+      { status: 500 }
+    );
+  }
+}
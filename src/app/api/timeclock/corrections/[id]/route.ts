@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * DELETE /api/timeclock/corrections/[id]
+ * Cancel one of the current user's pending correction requests
+ */
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const correction = await prisma.timeclockCorrection.findUnique({ where: { id } });
+
+    if (!correction || correction.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Correction request not found' }, { status: 404 });
+    }
+
+    if (correction.status !== 'pending') {
+      return NextResponse.json(
+        { error: 'Only pending requests can be cancelled' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.timeclockCorrection.update({
+      where: { id },
+      data: { status: 'cancelled' },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'TIMECLOCK_CORRECTION_CANCELLED',
+      entityType: 'TimeclockCorrection',
+      entityId: id,
+      changes: {
+        before: { status: correction.status },
+        after: { status: 'cancelled' },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ correction: updated });
+  } catch (error) {
+    console.error('Error cancelling correction request:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel correction request' },
+      { status: 500 }
+    );
+  }
+}
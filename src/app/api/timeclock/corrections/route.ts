@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { isInLockedPayPeriod } from '@/lib/pay-period-lock';
+import {
+  findOverlappingEntry,
+  getCorrectionReviewDepartmentIds,
+  resolveCorrectedTimes,
+} from '@/lib/timeclock-corrections';
+import { timeclockCorrectionSchema, parseWithErrors } from '@/lib/validation';
+
+/**
+ * GET /api/timeclock/corrections
+ * The current user's correction requests, or with ?scope=team the requests of
+ * employees in the departments the user approves for (optionally ?status=).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const status = searchParams.get('status');
+
+    if (searchParams.get('scope') !== 'team') {
+      const corrections = await prisma.timeclockCorrection.findMany({
+        where: { userId: session.user.id, status: status || undefined },
+        include: { reviewedBy: { select: { id: true, name: true } } },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return NextResponse.json({ corrections });
+    }
+
+    const departmentIds = await getCorrectionReviewDepartmentIds(session.user.id, userWithPerms.permissions);
+    if (departmentIds && departmentIds.length === 0) {
+      return NextResponse.json(
+        { error: 'You do not have permission to review correction requests' },
+        { status: 403 }
+      );
+    }
+
+    const corrections = await prisma.timeclockCorrection.findMany({
+      where: {
+        status: status || undefined,
+        userId: { not: session.user.id },
+        user: departmentIds ? { departmentId: { in: departmentIds } } : undefined,
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            department: { select: { id: true, name: true } },
+          },
+        },
+        reviewedBy: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ corrections });
+  } catch (error) {
+    console.error('Error fetching correction requests:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch correction requests' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/timeclock/corrections
+ * Ask a manager to fix one of the current user's entries, or to add a shift
+ * they forgot to punch
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const parsed = parseWithErrors(timeclockCorrectionSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { type, entryId, reason } = parsed.data;
+
+    const entry = type !== 'add_shift' && entryId
+      ? await prisma.timeclockEntry.findUnique({ where: { id: entryId } })
+      : null;
+
+    if (entry && entry.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+
+    if (entry?.isLocked) {
+      return NextResponse.json(
+        { error: 'This entry is locked. Ask your manager to correct it.' },
+        { status: 400 }
+      );
+    }
+
+    const times = resolveCorrectedTimes(type, entry, {
+      clockIn: parsed.data.requestedClockIn ? new Date(parsed.data.requestedClockIn) : null,
+      clockOut: parsed.data.requestedClockOut ? new Date(parsed.data.requestedClockOut) : null,
+    });
+    if ('error' in times) {
+      return NextResponse.json({ error: times.error }, { status: 400 });
+    }
+
+    if (
+      (await isInLockedPayPeriod(times.clockIn)) ||
+      (entry && (await isInLockedPayPeriod(entry.clockIn)))
+    ) {
+      return NextResponse.json(
+        { error: 'This pay period is locked and can no longer be corrected' },
+        { status: 400 }
+      );
+    }
+
+    if (entry) {
+      const pending = await prisma.timeclockCorrection.findFirst({
+        where: { entryId: entry.id, status: 'pending' },
+      });
+      if (pending) {
+        return NextResponse.json(
+          { error: 'There is already a pending correction for this entry' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const overlap = await findOverlappingEntry(session.user.id, times.clockIn, times.clockOut, entry?.id);
+    if (overlap) {
+      return NextResponse.json(
+        { error: 'Those times overlap another of your entries' },
+        { status: 400 }
+      );
+    }
+
+    const correction = await prisma.timeclockCorrection.create({
+      data: {
+        userId: session.user.id,
+        entryId: entry?.id ?? null,
+        type,
+        requestedClockIn: type === 'add_shift' || type === 'wrong_clock_in' ? times.clockIn : null,
+        requestedClockOut: type === 'wrong_clock_in' ? null : times.clockOut,
+        originalClockIn: entry?.clockIn ?? null,
+        originalClockOut: entry?.clockOut ?? null,
+        reason,
+      },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'TIMECLOCK_CORRECTION_REQUESTED',
+      entityType: 'TimeclockCorrection',
+      entityId: correction.id,
+      changes: {
+        after: {
+          type,
+          entryId: correction.entryId,
+          requestedClockIn: correction.requestedClockIn,
+          requestedClockOut: correction.requestedClockOut,
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ correction }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating correction request:', error);
+    return NextResponse.json(
+      { error: 'Failed to create correction request' },
+      { status: 500 }
+    );
+  }
+}
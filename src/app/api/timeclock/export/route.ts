@@ -2,8 +2,17 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
-import { calculateOvertime, TimeclockEntryForCalculation } from '@/lib/overtime';
+import { calculateOvertime, NO_JOB_CODE, TimeclockEntryForCalculation } from '@/lib/overtime';
 import { getSystemConfig } from '@/lib/setup-status';
+import { getApprovedLeaveHours } from '@/lib/pto';
+import { getOvertimeRuleSetsByUser } from '@/lib/overtime-rules';
+import {
+  getPayrollProviderSettings,
+  isPayrollProviderId,
+  renderPayrollFile,
+  validatePayrollExport,
+  type PayrollEmployeeHours,
+} from '@/lib/payroll-providers';
 import { TemplateColumn } from '../templates/shared';
 import { escapeCSV } from '@/lib/csv-sanitize';
 import * as XLSX from 'xlsx';
@@ -16,22 +25,31 @@ const DEFAULT_COLUMNS: TemplateColumn[] = [
   { sourceField: 'department', headerName: 'Department', order: 2 },
   { sourceField: 'regularHours', headerName: 'Regular Hours', order: 3 },
   { sourceField: 'dailyOvertimeHours', headerName: 'Daily OT Hours', order: 4 },
-  { sourceField: 'weeklyOvertimeHours', headerName: 'Weekly OT Hours', order: 5 },
-  { sourceField: 'totalHours', headerName: 'Total Hours', order: 6 },
+  { sourceField: 'doubleTimeHours', headerName: 'Double Time Hours', order: 5 },
+  { sourceField: 'weeklyOvertimeHours', headerName: 'Weekly OT Hours', order: 6 },
+  { sourceField: 'totalHours', headerName: 'Total Hours', order: 7 },
 ];
 
+// Columns that break an employee's hours out into one row per job code
+const JOB_CODE_FIELDS = ['jobCode', 'jobCodeName', 'jobBudgetCode'];
+
 interface ExportRow {
   employeeId: string;
   employeeName: string;
   employeeEmail: string;
   department: string;
+  jobCode: string;
+  jobCodeName: string;
+  jobBudgetCode: string;
   clockIn: string;
   clockOut: string;
   date: string;
   regularHours: string;
   dailyOvertimeHours: string;
+  doubleTimeHours: string;
   weeklyOvertimeHours: string;
   totalHours: string;
+  leaveHours: string;
   status: string;
   approvedBy: string;
   approvedAt: string;
@@ -46,7 +64,8 @@ function formatHours(minutes: number): string {
 
 /**
  * GET /api/timeclock/export
- * Export timeclock data in various formats
+ * Export timeclock data in various formats, or with ?provider= as a payroll
+ * provider's native import file
  */
 export async function GET(req: NextRequest) {
   try {
@@ -110,6 +129,7 @@ export async function GET(req: NextRequest) {
     const periodEnd = searchParams.get('periodEnd');
     const departmentId = searchParams.get('departmentId');
     const templateId = searchParams.get('templateId');
+    const providerId = searchParams.get('provider');
 
     // Validate date params
     if (!periodStart || !periodEnd) {
@@ -121,7 +141,7 @@ export async function GET(req: NextRequest) {
 
     const startDate = new Date(periodStart);
     const endDate = new Date(periodEnd);
-    endDate.setHours(23, 59, 59, 999); // End of day
+    endDate.setUTCHours(23, 59, 59, 999); // End of day (dates parse as UTC)
 
     if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
       return NextResponse.json(
@@ -130,6 +150,20 @@ export async function GET(req: NextRequest) {
       );
     }
 
+    if (providerId && !isPayrollProviderId(providerId)) {
+      return NextResponse.json(
+        { error: `Unsupported payroll provider: ${providerId}` },
+        { status: 400 }
+      );
+    }
+
+    if (providerId && ![periodStart, periodEnd].every((d) => /^\d{4}-\d{2}-\d{2}$/.test(d))) {
+      return NextResponse.json(
+        { error: 'Payroll provider exports need periodStart and periodEnd as YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
     // Get template columns
     let columns: TemplateColumn[] = DEFAULT_COLUMNS;
 
@@ -188,6 +222,11 @@ export async function GET(req: NextRequest) {
             department: true,
           },
         },
+        jobCode: {
+          include: {
+            budgetItem: { select: { code: true } },
+          },
+        },
       },
       orderBy: [
         { userId: 'asc' },
@@ -206,10 +245,12 @@ export async function GET(req: NextRequest) {
       clockOut: e.clockOut,
       duration: e.duration,
       status: e.status,
+      jobCodeId: e.jobCodeId,
     }));
 
     const timezone = await getSystemConfig('timezone') || 'UTC';
-    const overtimeResult = calculateOvertime(entriesForCalc, overtimeConfig, timezone);
+    const ruleSets = await getOvertimeRuleSetsByUser(entries.map((e) => e.userId));
+    const overtimeResult = calculateOvertime(entriesForCalc, overtimeConfig, timezone, ruleSets);
 
     // Get approver names
     const approverIds = [...new Set(entries.filter(e => e.approvedBy).map(e => e.approvedBy!))];
@@ -219,21 +260,83 @@ export async function GET(req: NextRequest) {
     });
     const approverMap = new Map(approvers.map(a => [a.id, a.name]));
 
-    // Build export rows - one row per employee with aggregated data
-    const employeeMap = new Map<string, ExportRow>();
+    // Job codes seen in the period, for per-job rows
+    const jobCodeMap = new Map<string, NonNullable<(typeof entries)[number]['jobCode']>>();
+    for (const entry of entries) {
+      if (entry.jobCode) {
+        jobCodeMap.set(entry.jobCode.id, entry.jobCode);
+      }
+    }
+
+    const splitByJobCode = columns.some((col) => JOB_CODE_FIELDS.includes(col.sourceField));
+
+    // Approved paid leave overlapping the period, in the same departments
+    const leaveHours = await getApprovedLeaveHours(startDate, endDate, whereClause.user?.departmentId);
+
+    // Native payroll provider import file: one set of totals per employee
+    if (providerId && isPayrollProviderId(providerId)) {
+      const payrollUsers = await prisma.user.findMany({
+        where: { id: { in: [...new Set([...entries.map((e) => e.userId), ...leaveHours.keys()])] } },
+        select: { id: true, name: true, payrollEmployeeId: true },
+        orderBy: { name: 'asc' },
+      });
+
+      const payrollRows: PayrollEmployeeHours[] = payrollUsers.map((user) => {
+        const otData = overtimeResult.employees[user.id];
+        const toHours = (minutes: number) => Math.round((minutes / 60) * 100) / 100;
+        return {
+          employeeName: user.name,
+          payrollEmployeeId: user.payrollEmployeeId,
+          hours: {
+            regular: toHours(otData?.regularMinutes || 0),
+            overtime: toHours((otData?.dailyOvertimeMinutes || 0) + (otData?.weeklyOvertimeMinutes || 0)),
+            doubleTime: toHours(otData?.doubleTimeMinutes || 0),
+            leave: Math.round((leaveHours.get(user.id) || 0) * 100) / 100,
+          },
+        };
+      });
+
+      const settings = await getPayrollProviderSettings(providerId);
+      const problems = validatePayrollExport(providerId, settings, payrollRows);
+      if (problems.length > 0) {
+        return NextResponse.json(
+          { error: 'Fix the payroll mappings below before exporting', problems },
+          { status: 400 }
+        );
+      }
+
+      const file = renderPayrollFile(providerId, settings, payrollRows, { start: periodStart, end: periodEnd });
+      return new NextResponse(file.content, {
+        status: 200,
+        headers: {
+          'Content-Type': file.contentType,
+          'Content-Disposition': `attachment; filename="${file.filename}"`,
+          'X-Content-Type-Options': 'nosniff',
+        },
+      });
+    }
+
+    // Build export rows - one row per employee with aggregated data,
+    // or one per employee and job code when the template has job code columns
+    const rows: ExportRow[] = [];
+    const seenEmployees = new Set<string>();
 
     for (const entry of entries) {
       const userId = entry.userId;
 
-      if (!employeeMap.has(userId)) {
+      if (!seenEmployees.has(userId)) {
+        seenEmployees.add(userId);
+
         const otData = overtimeResult.employees[userId] || {
           regularMinutes: 0,
           dailyOvertimeMinutes: 0,
+          doubleTimeMinutes: 0,
           weeklyOvertimeMinutes: 0,
           totalMinutes: 0,
+          jobCodes: {},
         };
 
-        employeeMap.set(userId, {
+        const baseRow = {
           employeeId: userId,
           employeeName: entry.user.name,
           employeeEmail: entry.user.email,
@@ -241,18 +344,81 @@ export async function GET(req: NextRequest) {
           clockIn: '', // Not applicable for summary
           clockOut: '', // Not applicable for summary
           date: '', // Not applicable for summary
-          regularHours: formatHours(otData.regularMinutes),
-          dailyOvertimeHours: formatHours(otData.dailyOvertimeMinutes),
-          weeklyOvertimeHours: formatHours(otData.weeklyOvertimeMinutes),
-          totalHours: formatHours(otData.totalMinutes),
           status: 'approved',
           approvedBy: '', // Multiple approvers possible
           approvedAt: '', // Multiple dates possible
+        };
+
+        const leave = (leaveHours.get(userId) || 0).toFixed(2);
+
+        if (splitByJobCode) {
+          // Leave is not charged to a job, so it goes on the employee's first row only
+          for (const [index, [jobCodeId, minutes]] of Object.entries(otData.jobCodes).entries()) {
+            const jobCode = jobCodeId === NO_JOB_CODE ? null : jobCodeMap.get(jobCodeId);
+            rows.push({
+              ...baseRow,
+              jobCode: jobCode?.code || '',
+              jobCodeName: jobCode?.name || '',
+              jobBudgetCode: jobCode?.budgetItem?.code || '',
+              regularHours: formatHours(minutes.regularMinutes),
+              dailyOvertimeHours: formatHours(minutes.dailyOvertimeMinutes),
+              doubleTimeHours: formatHours(minutes.doubleTimeMinutes),
+              weeklyOvertimeHours: formatHours(minutes.weeklyOvertimeMinutes),
+              totalHours: formatHours(minutes.totalMinutes),
+              leaveHours: index === 0 ? leave : '',
+            });
+          }
+        } else {
+          rows.push({
+            ...baseRow,
+            jobCode: '',
+            jobCodeName: '',
+            jobBudgetCode: '',
+            regularHours: formatHours(otData.regularMinutes),
+            dailyOvertimeHours: formatHours(otData.dailyOvertimeMinutes),
+            doubleTimeHours: formatHours(otData.doubleTimeMinutes),
+            weeklyOvertimeHours: formatHours(otData.weeklyOvertimeMinutes),
+            totalHours: formatHours(otData.totalMinutes),
+            leaveHours: leave,
+          });
+        }
+      }
+    }
+
+    // Employees who were on leave without working any approved time
+    const leaveOnlyIds = [...leaveHours.keys()].filter((userId) => !seenEmployees.has(userId));
+    if (leaveOnlyIds.length > 0) {
+      const leaveOnlyUsers = await prisma.user.findMany({
+        where: { id: { in: leaveOnlyIds } },
+        include: { department: true },
+        orderBy: { name: 'asc' },
+      });
+
+      for (const user of leaveOnlyUsers) {
+        rows.push({
+          employeeId: user.id,
+          employeeName: user.name,
+          employeeEmail: user.email,
+          department: user.department?.name || '',
+          jobCode: '',
+          jobCodeName: '',
+          jobBudgetCode: '',
+          clockIn: '',
+          clockOut: '',
+          date: '',
+          regularHours: formatHours(0),
+          dailyOvertimeHours: formatHours(0),
+          doubleTimeHours: formatHours(0),
+          weeklyOvertimeHours: formatHours(0),
+          totalHours: formatHours(0),
+          leaveHours: leaveHours.get(user.id)!.toFixed(2),
+          status: 'approved',
+          approvedBy: '',
+          approvedAt: '',
         });
       }
     }
 
-    const rows = Array.from(employeeMap.values());
 
     // Generate CSV
     if (format === 'csv') {
@@ -297,7 +463,7 @@ export async function GET(req: NextRequest) {
         const rowData: (string | number)[] = columns.map((col) => {
           const value = row[col.sourceField as keyof ExportRow] || '';
           // Convert hour values to numbers for proper formatting
-          if (['regularHours', 'dailyOvertimeHours', 'weeklyOvertimeHours', 'totalHours'].includes(col.sourceField)) {
+          if (['regularHours', 'dailyOvertimeHours', 'doubleTimeHours', 'weeklyOvertimeHours', 'totalHours', 'leaveHours'].includes(col.sourceField)) {
             return parseFloat(value) || 0;
           }
           return value;
@@ -336,7 +502,7 @@ export async function GET(req: NextRequest) {
       const hourColumns = columns
         .map((col, idx) => ({ col, idx }))
         .filter(({ col }) =>
-          ['regularHours', 'dailyOvertimeHours', 'weeklyOvertimeHours', 'totalHours'].includes(col.sourceField)
+          ['regularHours', 'dailyOvertimeHours', 'doubleTimeHours', 'weeklyOvertimeHours', 'totalHours', 'leaveHours'].includes(col.sourceField)
         );
 
       for (let rowIdx = 1; rowIdx <= rows.length; rowIdx++) {
@@ -391,8 +557,10 @@ export async function GET(req: NextRequest) {
         const otData = overtimeResult.employees[userId] || {
           regularMinutes: 0,
           dailyOvertimeMinutes: 0,
+          doubleTimeMinutes: 0,
           weeklyOvertimeMinutes: 0,
           totalMinutes: 0,
+          jobCodes: {},
         };
 
         // Create page (Letter size: 612 x 792 points)
@@ -543,6 +711,51 @@ export async function GET(req: NextRequest) {
           font: boldFont,
         });
 
+        // Hours by job code, when any of the time was charged to one
+        const jobCodeTotals = Object.entries(otData.jobCodes).filter(([jobCodeId]) => jobCodeId !== NO_JOB_CODE);
+        if (jobCodeTotals.length > 0) {
+          const unassigned = otData.jobCodes[NO_JOB_CODE];
+          if (unassigned) {
+            jobCodeTotals.push([NO_JOB_CODE, unassigned]);
+          }
+
+          let jobY = y + 63; // Align with the top of the totals block
+          page.drawText('BY JOB CODE', { x: tableX + 240, y: jobY, size: 10, font: boldFont });
+          for (const [jobCodeId, minutes] of jobCodeTotals) {
+            if (jobY < 120) break;
+            jobY -= 15;
+            const jobCode = jobCodeMap.get(jobCodeId);
+            const label = jobCode ? `${jobCode.code} ${jobCode.name}`.slice(0, 28) : 'No job code';
+            page.drawText(`${label}: ${formatHours(minutes.totalMinutes)}`, {
+              x: tableX + 240,
+              y: jobY,
+              size: 9,
+              font,
+            });
+          }
+        }
+
+        if (otData.doubleTimeMinutes > 0) {
+          y -= 15;
+          page.drawText(`Double Time: ${formatHours(otData.doubleTimeMinutes)}`, {
+            x: tableX,
+            y,
+            size: 10,
+            font,
+          });
+        }
+
+        const employeeLeave = leaveHours.get(userId);
+        if (employeeLeave) {
+          y -= 15;
+          page.drawText(`Approved Leave: ${employeeLeave.toFixed(2)}`, {
+            x: tableX,
+            y,
+            size: 10,
+            font,
+          });
+        }
+
         // Signature section at bottom
         const sigY = 80;
         page.drawLine({
@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * PUT /api/timeclock/job-codes/[id]
+ * Update a job code's name, description, budget line link or active flag
+ */
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage job codes' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const existing = await prisma.jobCode.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Job code not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const updateData: {
+      name?: string;
+      description?: string | null;
+      budgetItemId?: string | null;
+      isActive?: boolean;
+    } = {};
+
+    if (body.name !== undefined) {
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name) {
+        return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+      }
+      updateData.name = name;
+    }
+
+    if (body.description !== undefined) {
+      updateData.description = typeof body.description === 'string' && body.description.trim()
+        ? body.description.trim()
+        : null;
+    }
+
+    if (body.budgetItemId !== undefined) {
+      const budgetItemId = typeof body.budgetItemId === 'string' && body.budgetItemId ? body.budgetItemId : null;
+      if (budgetItemId) {
+        const budgetItem = await prisma.budgetItem.findUnique({ where: { id: budgetItemId } });
+        if (!budgetItem) {
+          return NextResponse.json({ error: 'Budget item not found' }, { status: 400 });
+        }
+      }
+      updateData.budgetItemId = budgetItemId;
+    }
+
+    if (typeof body.isActive === 'boolean') {
+      updateData.isActive = body.isActive;
+    }
+
+    const jobCode = await prisma.jobCode.update({
+      where: { id },
+      data: updateData,
+      include: {
+        budgetItem: {
+          select: { id: true, code: true, description: true, fiscalYear: true },
+        },
+      },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'JOB_CODE_UPDATED',
+      entityType: 'JobCode',
+      entityId: id,
+      changes: {
+        before: {
+          name: existing.name,
+          description: existing.description,
+          budgetItemId: existing.budgetItemId,
+          isActive: existing.isActive,
+        },
+        after: {
+          name: jobCode.name,
+          description: jobCode.description,
+          budgetItemId: jobCode.budgetItemId,
+          isActive: jobCode.isActive,
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ jobCode });
+  } catch (error) {
+    console.error('Error updating job code:', error);
+    return NextResponse.json(
+      { error: 'Failed to update job code' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/timeclock/job-codes/[id]
+ * Delete a job code that has never been used. Used codes are deactivated instead.
+ */
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage job codes' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const existing = await prisma.jobCode.findUnique({
+      where: { id },
+      include: { _count: { select: { timeclockEntries: true } } },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: 'Job code not found' }, { status: 404 });
+    }
+
+    if (existing._count.timeclockEntries > 0) {
+      return NextResponse.json(
+        {
+          error: `Cannot delete job code with ${existing._count.timeclockEntries} timeclock entr${existing._count.timeclockEntries === 1 ? 'y' : 'ies'}. Deactivate it instead.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    await prisma.jobCode.delete({ where: { id } });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'JOB_CODE_DELETED',
+      entityType: 'JobCode',
+      entityId: id,
+      changes: { before: { code: existing.code, name: existing.name } },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting job code:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete job code' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+
+/**
+ * GET /api/timeclock/job-codes
+ * List job codes. Employees get the active codes to pick from at clock-in;
+ * timeclock admins (?all=true) also get inactive codes, approved hours and
+ * the budget lines codes can be linked to.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const canManage = hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig');
+    const canClock = hasPermission(userWithPerms.permissions, 'timeclock', 'canClockInOut');
+
+    if (!canManage && !canClock) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const includeAll = canManage && req.nextUrl.searchParams.get('all') === 'true';
+
+    if (!includeAll) {
+      const jobCodes = await prisma.jobCode.findMany({
+        where: { isActive: true },
+        select: { id: true, code: true, name: true },
+        orderBy: { code: 'asc' },
+      });
+
+      return NextResponse.json({ jobCodes });
+    }
+
+    const jobCodes = await prisma.jobCode.findMany({
+      include: {
+        budgetItem: {
+          select: { id: true, code: true, description: true, fiscalYear: true },
+        },
+        _count: { select: { timeclockEntries: true } },
+      },
+      orderBy: { code: 'asc' },
+    });
+
+    // Approved hours charged to each code
+    const approved = await prisma.timeclockEntry.groupBy({
+      by: ['jobCodeId'],
+      where: { status: 'approved', jobCodeId: { not: null } },
+      _sum: { duration: true },
+    });
+    const approvedSeconds = new Map(approved.map((row) => [row.jobCodeId, row._sum.duration || 0]));
+
+    // Budget lines a job code can be linked to
+    const budgetItems = await prisma.budgetItem.findMany({
+      where: { isActive: true },
+      select: { id: true, code: true, description: true, fiscalYear: true },
+      orderBy: [{ fiscalYear: 'desc' }, { code: 'asc' }],
+    });
+
+    return NextResponse.json({
+      jobCodes: jobCodes.map((jobCode) => ({
+        ...jobCode,
+        approvedHours: Math.round(((approvedSeconds.get(jobCode.id) || 0) / 3600) * 100) / 100,
+      })),
+      budgetItems,
+    });
+  } catch (error) {
+    console.error('Error fetching job codes:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch job codes' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/timeclock/job-codes
+ * Create a job / cost code
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage job codes' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const code = typeof body.code === 'string' ? body.code.trim().toUpperCase() : '';
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const description = typeof body.description === 'string' ? body.description.trim() : '';
+    const budgetItemId = typeof body.budgetItemId === 'string' && body.budgetItemId ? body.budgetItemId : null;
+
+    if (!code || !name) {
+      return NextResponse.json({ error: 'Code and name are required' }, { status: 400 });
+    }
+
+    const duplicate = await prisma.jobCode.findUnique({ where: { code } });
+    if (duplicate) {
+      return NextResponse.json({ error: `Job code ${code} already exists` }, { status: 400 });
+    }
+
+    if (budgetItemId) {
+      const budgetItem = await prisma.budgetItem.findUnique({ where: { id: budgetItemId } });
+      if (!budgetItem) {
+        return NextResponse.json({ error: 'Budget item not found' }, { status: 400 });
+      }
+    }
+
+    const jobCode = await prisma.jobCode.create({
+      data: {
+        code,
+        name,
+        description: description || null,
+        budgetItemId,
+      },
+      include: {
+        budgetItem: {
+          select: { id: true, code: true, description: true, fiscalYear: true },
+        },
+      },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'JOB_CODE_CREATED',
+      entityType: 'JobCode',
+      entityId: jobCode.id,
+      changes: { after: { code, name, budgetItemId } },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ jobCode }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating job code:', error);
+    return NextResponse.json(
+      { error: 'Failed to create job code' },
+      { status: 500 }
+    );
+  }
+}
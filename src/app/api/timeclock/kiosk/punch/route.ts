@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { getKioskFromRequest, identifyKioskEmployee } from '@/lib/timeclock-kiosk';
+import { getPunchLocation } from '@/lib/timeclock-location';
+import { clockInUser, clockOutUser } from '@/lib/timeclock-punch';
+
+/**
+ * POST /api/timeclock/kiosk/punch
+ * Clock an employee in or out from a registered kiosk.
+ * Body: { badgeNumber?, pin?, latitude?, longitude? } — punches in when the
+ * employee has no open entry, otherwise punches out. The punch is checked
+ * against the employee's department punch restriction.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const kiosk = await getKioskFromRequest(req);
+    if (!kiosk) {
+      return NextResponse.json({ error: 'This device is not a registered kiosk' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const identified = await identifyKioskEmployee(kiosk, {
+      badgeNumber: typeof body.badgeNumber === 'string' ? body.badgeNumber : undefined,
+      pin: typeof body.pin === 'string' ? body.pin : undefined,
+    });
+
+    if ('error' in identified) {
+      return NextResponse.json({ error: identified.error }, { status: identified.status });
+    }
+
+    const userWithPerms = await getUserWithPermissions(identified.userId);
+    if (!userWithPerms || !hasPermission(userWithPerms.permissions, 'timeclock', 'canClockInOut')) {
+      return NextResponse.json(
+        { error: 'You are not set up to use the time clock' },
+        { status: 403 }
+      );
+    }
+
+    const openEntry = await prisma.timeclockEntry.findFirst({
+      where: { userId: identified.userId, clockOut: null },
+      select: { id: true },
+    });
+
+    const action = openEntry ? 'out' : 'in';
+    const location = getPunchLocation(req, body);
+    const result = openEntry
+      ? await clockOutUser(identified.userId, { kioskId: kiosk.id, location })
+      : await clockInUser(identified.userId, { kioskId: kiosk.id, location });
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      action,
+      employee: { name: identified.name },
+      entry: {
+        clockIn: result.entry.clockIn,
+        clockOut: result.entry.clockOut,
+        duration: result.entry.duration,
+      },
+    });
+  } catch (error) {
+    console.error('Error recording kiosk punch:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
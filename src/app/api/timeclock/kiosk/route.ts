@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getKioskFromRequest } from '@/lib/timeclock-kiosk';
+
+/**
+ * GET /api/timeclock/kiosk
+ * Identify the kiosk calling with its device token (no user session)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const kiosk = await getKioskFromRequest(req);
+    if (!kiosk) {
+      return NextResponse.json({ error: 'This device is not a registered kiosk' }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      kiosk: {
+        id: kiosk.id,
+        name: kiosk.name,
+        identificationMode: kiosk.identificationMode,
+      },
+    });
+  } catch (error) {
+    console.error('Error checking kiosk:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import type { Prisma } from '@prisma/client';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { generateKioskToken, isKioskIdentificationMode } from '@/lib/timeclock-kiosk';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * PUT /api/timeclock/kiosks/[id]
+ * Rename, change identification mode, enable/disable, unlock,
+ * or issue a new device token (regenerateToken: true)
+ */
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage kiosks' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const existing = await prisma.timeclockKiosk.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Kiosk not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const updateData: Prisma.TimeclockKioskUpdateInput = {};
+
+    if (body.name !== undefined) {
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name) {
+        return NextResponse.json({ error: 'Kiosk name is required' }, { status: 400 });
+      }
+      updateData.name = name;
+    }
+
+    if (body.identificationMode !== undefined) {
+      if (!isKioskIdentificationMode(body.identificationMode)) {
+        return NextResponse.json({ error: 'Invalid identification mode' }, { status: 400 });
+      }
+      updateData.identificationMode = body.identificationMode;
+    }
+
+    if (typeof body.isActive === 'boolean') {
+      updateData.isActive = body.isActive;
+    }
+
+    if (body.unlock === true) {
+      updateData.failedAttempts = 0;
+      updateData.lockedUntil = null;
+    }
+
+    let token: string | undefined;
+    if (body.regenerateToken === true) {
+      const generated = generateKioskToken();
+      token = generated.token;
+      updateData.tokenHash = generated.tokenHash;
+    }
+
+    const kiosk = await prisma.timeclockKiosk.update({
+      where: { id },
+      data: updateData,
+      select: {
+        id: true,
+        name: true,
+        isActive: true,
+        identificationMode: true,
+        lockedUntil: true,
+        lastSeenAt: true,
+        createdAt: true,
+        createdBy: { select: { id: true, name: true } },
+      },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'TIMECLOCK_KIOSK_UPDATED',
+      entityType: 'TimeclockKiosk',
+      entityId: id,
+      changes: {
+        before: {
+          name: existing.name,
+          identificationMode: existing.identificationMode,
+          isActive: existing.isActive,
+        },
+        after: {
+          name: kiosk.name,
+          identificationMode: kiosk.identificationMode,
+          isActive: kiosk.isActive,
+          ...(body.unlock === true && { unlocked: true }),
+          ...(token && { tokenRegenerated: true }),
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ kiosk, ...(token && { token }) });
+  } catch (error) {
+    console.error('Error updating kiosk:', error);
+    return NextResponse.json(
+      { error: 'Failed to update kiosk' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/timeclock/kiosks/[id]
+ * Remove a kiosk. Entries keep their times but lose the kiosk reference.
+ */
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage kiosks' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const existing = await prisma.timeclockKiosk.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Kiosk not found' }, { status: 404 });
+    }
+
+    await prisma.timeclockKiosk.delete({ where: { id } });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'TIMECLOCK_KIOSK_DELETED',
+      entityType: 'TimeclockKiosk',
+      entityId: id,
+      changes: { before: { name: existing.name } },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting kiosk:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete kiosk' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { generateKioskToken, isKioskIdentificationMode } from '@/lib/timeclock-kiosk';
+
+/**
+ * GET /api/timeclock/kiosks
+ * List registered clock-in kiosks
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage kiosks' },
+        { status: 403 }
+      );
+    }
+
+    const kiosks = await prisma.timeclockKiosk.findMany({
+      select: {
+        id: true,
+        name: true,
+        isActive: true,
+        identificationMode: true,
+        lockedUntil: true,
+        lastSeenAt: true,
+        createdAt: true,
+        createdBy: { select: { id: true, name: true } },
+        _count: { select: { clockInEntries: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ kiosks });
+  } catch (error) {
+    console.error('Error fetching kiosks:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch kiosks' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/timeclock/kiosks
+ * Register a kiosk. The device token is only returned here.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage kiosks' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const identificationMode = body.identificationMode ?? 'BADGE_AND_PIN';
+
+    if (!name) {
+      return NextResponse.json({ error: 'Kiosk name is required' }, { status: 400 });
+    }
+
+    if (!isKioskIdentificationMode(identificationMode)) {
+      return NextResponse.json({ error: 'Invalid identification mode' }, { status: 400 });
+    }
+
+    const { token, tokenHash } = generateKioskToken();
+
+    const kiosk = await prisma.timeclockKiosk.create({
+      data: {
+        name,
+        identificationMode,
+        tokenHash,
+        createdById: session.user.id,
+      },
+      select: {
+        id: true,
+        name: true,
+        isActive: true,
+        identificationMode: true,
+        lockedUntil: true,
+        lastSeenAt: true,
+        createdAt: true,
+        createdBy: { select: { id: true, name: true } },
+      },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'TIMECLOCK_KIOSK_CREATED',
+      entityType: 'TimeclockKiosk',
+      entityId: kiosk.id,
+      changes: { after: { name, identificationMode } },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ kiosk, token }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating kiosk:', error);
+    return NextResponse.json(
+      { error: 'Failed to create kiosk' },
+      { status: 500 }
+    );
+  }
+}
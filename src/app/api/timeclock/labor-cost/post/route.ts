@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { cache, CacheKeys } from '@/lib/cache';
+import { getLaborCostDepartmentIds, parseLaborCostPeriod, postLaborCost } from '@/lib/labor-cost';
+import { laborCostPostingSchema, parseWithErrors } from '@/lib/validation';
+
+/**
+ * POST /api/timeclock/labor-cost/post
+ * Post a department's approved labor cost for a pay period to its payroll budget line
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'budgetItems', 'canManage')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to post to budget items' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = parseWithErrors(laborCostPostingSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { departmentId, periodStart, periodEnd } = parsed.data;
+
+    const departmentIds = await getLaborCostDepartmentIds(session.user.id, userWithPerms.permissions);
+    if (departmentIds !== null && !departmentIds.includes(departmentId)) {
+      return NextResponse.json(
+        { error: 'You do not have access to this department' },
+        { status: 403 }
+      );
+    }
+
+    const period = parseLaborCostPeriod(periodStart, periodEnd);
+    if (!period) {
+      return NextResponse.json({ error: 'Invalid pay period' }, { status: 400 });
+    }
+
+    const result = await postLaborCost(departmentId, period.start, period.end, session.user.id);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    cache.delete(CacheKeys.budgetItems());
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'LABOR_COST_POSTED',
+      entityType: 'LaborCostPosting',
+      entityId: result.posting.id,
+      changes: {
+        before: result.posting.previousAmount !== null ? { amount: result.posting.previousAmount } : null,
+        after: {
+          departmentId,
+          periodStart,
+          periodEnd,
+          budgetItemId: result.posting.budgetItemId,
+          amount: result.posting.amount,
+          hours: result.posting.hours,
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ posting: result.posting });
+  } catch (error) {
+    console.error('Error posting labor cost:', error);
+    return NextResponse.json(
+      { error: 'Failed to post labor cost' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { getLaborCostDepartmentIds, getLaborCostReport, parseLaborCostPeriod } from '@/lib/labor-cost';
+
+/**
+ * GET /api/timeclock/labor-cost
+ * Labor cost of approved time for a pay period, by department and employee
+ *
+ * Query params:
+ * - periodStart: YYYY-MM-DD (required)
+ * - periodEnd: YYYY-MM-DD (required)
+ * - departmentId: Filter by department (optional)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    let departmentIds = await getLaborCostDepartmentIds(session.user.id, userWithPerms.permissions);
+    if (departmentIds !== null && departmentIds.length === 0) {
+      return NextResponse.json(
+        { error: 'You do not have permission to view labor cost' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const period = parseLaborCostPeriod(searchParams.get('periodStart') || '', searchParams.get('periodEnd') || '');
+    if (!period) {
+      return NextResponse.json(
+        { error: 'periodStart and periodEnd are required as YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    const departmentId = searchParams.get('departmentId');
+    if (departmentId) {
+      if (departmentIds !== null && !departmentIds.includes(departmentId)) {
+        return NextResponse.json(
+          { error: 'You do not have access to this department' },
+          { status: 403 }
+        );
+      }
+      departmentIds = [departmentId];
+    }
+
+    const report = await getLaborCostReport(period.start, period.end, departmentIds);
+
+    const postings = await prisma.laborCostPosting.findMany({
+      where: {
+        periodStart: period.start,
+        periodEnd: period.end,
+        ...(departmentIds !== null ? { departmentId: { in: departmentIds } } : {}),
+      },
+      select: {
+        departmentId: true,
+        amount: true,
+        hours: true,
+        postedAt: true,
+        budgetItem: { select: { id: true, code: true, description: true } },
+      },
+    });
+
+    return NextResponse.json({
+      ...report,
+      postings,
+      canPost: hasPermission(userWithPerms.permissions, 'budgetItems', 'canManage'),
+    });
+  } catch (error) {
+    console.error('Error fetching labor cost:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch labor cost' },
+      { status: 500 }
+    );
+  }
+}
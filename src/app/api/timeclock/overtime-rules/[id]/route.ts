@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { validateOvertimeRuleThresholds } from '@/lib/overtime-rules';
+import { overtimeRuleSetSchema, parseWithErrors } from '@/lib/validation';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * PUT /api/timeclock/overtime-rules/[id]
+ * Update an overtime rule set. Reports and exports recalculate with the new rules.
+ */
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage overtime rules' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const existing = await prisma.overtimeRuleSet.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Overtime rule set not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const parsed = parseWithErrors(overtimeRuleSetSchema.partial(), body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const thresholdError = validateOvertimeRuleThresholds({
+      dailyThreshold: parsed.data.dailyThreshold !== undefined ? parsed.data.dailyThreshold : existing.dailyThreshold,
+      dailyDoubleTimeThreshold: parsed.data.dailyDoubleTimeThreshold !== undefined
+        ? parsed.data.dailyDoubleTimeThreshold
+        : existing.dailyDoubleTimeThreshold,
+    });
+    if (thresholdError) {
+      return NextResponse.json({ error: thresholdError }, { status: 400 });
+    }
+
+    if (parsed.data.name && parsed.data.name !== existing.name) {
+      const duplicate = await prisma.overtimeRuleSet.findUnique({ where: { name: parsed.data.name } });
+      if (duplicate) {
+        return NextResponse.json(
+          { error: `A rule set named ${parsed.data.name} already exists` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const ruleSet = await prisma.overtimeRuleSet.update({
+      where: { id },
+      data: {
+        ...parsed.data,
+        description: parsed.data.description !== undefined ? parsed.data.description.trim() || null : undefined,
+      },
+      include: { _count: { select: { users: true, departments: true } } },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'OVERTIME_RULE_SET_UPDATED',
+      entityType: 'OvertimeRuleSet',
+      entityId: id,
+      changes: {
+        before: {
+          name: existing.name,
+          dailyThreshold: existing.dailyThreshold,
+          dailyDoubleTimeThreshold: existing.dailyDoubleTimeThreshold,
+          weeklyThreshold: existing.weeklyThreshold,
+          seventhDayRule: existing.seventhDayRule,
+          isActive: existing.isActive,
+        },
+        after: parsed.data,
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ ruleSet });
+  } catch (error) {
+    console.error('Error updating overtime rule set:', error);
+    return NextResponse.json(
+      { error: 'Failed to update overtime rule set' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/timeclock/overtime-rules/[id]
+ * Delete an overtime rule set no department or employee is on
+ */
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage overtime rules' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const existing = await prisma.overtimeRuleSet.findUnique({
+      where: { id },
+      include: { _count: { select: { users: true, departments: true } } },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: 'Overtime rule set not found' }, { status: 404 });
+    }
+
+    if (existing._count.users > 0 || existing._count.departments > 0) {
+      return NextResponse.json(
+        { error: 'Departments or employees are still assigned to this rule set. Deactivate it instead.' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.overtimeRuleSet.delete({ where: { id } });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'OVERTIME_RULE_SET_DELETED',
+      entityType: 'OvertimeRuleSet',
+      entityId: id,
+      changes: { before: { name: existing.name } },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting overtime rule set:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete overtime rule set' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+
+/**
+ * PUT /api/timeclock/overtime-rules/assignments
+ * Assign an overtime rule set to a department ({ departmentId }) or an
+ * employee ({ userId }). A null ruleSetId removes the assignment.
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage overtime rules' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const departmentId = typeof body.departmentId === 'string' ? body.departmentId : null;
+    const userId = typeof body.userId === 'string' ? body.userId : null;
+    const ruleSetId = typeof body.ruleSetId === 'string' && body.ruleSetId ? body.ruleSetId : null;
+
+    if (!departmentId === !userId) {
+      return NextResponse.json(
+        { error: 'Provide either departmentId or userId' },
+        { status: 400 }
+      );
+    }
+
+    if (ruleSetId) {
+      const ruleSet = await prisma.overtimeRuleSet.findUnique({ where: { id: ruleSetId } });
+      if (!ruleSet || !ruleSet.isActive) {
+        return NextResponse.json({ error: 'Overtime rule set not found or inactive' }, { status: 400 });
+      }
+    }
+
+    let entityType: 'Department' | 'User';
+    let entityId: string;
+    let name: string;
+    let previousRuleSetId: string | null;
+
+    if (departmentId) {
+      const department = await prisma.department.findUnique({ where: { id: departmentId } });
+      if (!department) {
+        return NextResponse.json({ error: 'Department not found' }, { status: 404 });
+      }
+      await prisma.department.update({
+        where: { id: departmentId },
+        data: { overtimeRuleSetId: ruleSetId },
+      });
+      entityType = 'Department';
+      entityId = department.id;
+      name = department.name;
+      previousRuleSetId = department.overtimeRuleSetId;
+    } else {
+      const user = await prisma.user.findUnique({ where: { id: userId! } });
+      if (!user) {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 });
+      }
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { overtimeRuleSetId: ruleSetId },
+      });
+      entityType = 'User';
+      entityId = user.id;
+      name = user.name;
+      previousRuleSetId = user.overtimeRuleSetId;
+    }
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'OVERTIME_RULE_SET_ASSIGNED',
+      entityType,
+      entityId,
+      changes: {
+        before: { overtimeRuleSetId: previousRuleSetId },
+        after: { overtimeRuleSetId: ruleSetId },
+        name,
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error assigning overtime rule set:', error);
+    return NextResponse.json(
+      { error: 'Failed to assign overtime rule set' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { validateOvertimeRuleThresholds } from '@/lib/overtime-rules';
+import { overtimeRuleSetSchema, parseWithErrors } from '@/lib/validation';
+
+/**
+ * GET /api/timeclock/overtime-rules
+ * List overtime rule sets with the departments and employees they can be assigned to
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [ruleSets, departments, employees] = await Promise.all([
+      prisma.overtimeRuleSet.findMany({
+        include: { _count: { select: { users: true, departments: true } } },
+        orderBy: { name: 'asc' },
+      }),
+      prisma.department.findMany({
+        where: { isActive: true },
+        select: { id: true, name: true, overtimeRuleSetId: true },
+        orderBy: { name: 'asc' },
+      }),
+      prisma.user.findMany({
+        where: { isActive: true },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          overtimeRuleSetId: true,
+          department: { select: { id: true, name: true } },
+        },
+        orderBy: { name: 'asc' },
+      }),
+    ]);
+
+    return NextResponse.json({ ruleSets, departments, employees });
+  } catch (error) {
+    console.error('Error fetching overtime rule sets:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch overtime rule sets' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/timeclock/overtime-rules
+ * Create an overtime rule set
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage overtime rules' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = parseWithErrors(overtimeRuleSetSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const thresholdError = validateOvertimeRuleThresholds(parsed.data);
+    if (thresholdError) {
+      return NextResponse.json({ error: thresholdError }, { status: 400 });
+    }
+
+    const duplicate = await prisma.overtimeRuleSet.findUnique({ where: { name: parsed.data.name } });
+    if (duplicate) {
+      return NextResponse.json(
+        { error: `A rule set named ${parsed.data.name} already exists` },
+        { status: 400 }
+      );
+    }
+
+    const ruleSet = await prisma.overtimeRuleSet.create({
+      data: {
+        name: parsed.data.name,
+        description: parsed.data.description?.trim() || null,
+        dailyThreshold: parsed.data.dailyThreshold,
+        dailyDoubleTimeThreshold: parsed.data.dailyDoubleTimeThreshold,
+        weeklyThreshold: parsed.data.weeklyThreshold,
+        seventhDayRule: parsed.data.seventhDayRule,
+      },
+      include: { _count: { select: { users: true, departments: true } } },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'OVERTIME_RULE_SET_CREATED',
+      entityType: 'OvertimeRuleSet',
+      entityId: ruleSet.id,
+      changes: { after: parsed.data },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ ruleSet }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating overtime rule set:', error);
+    return NextResponse.json(
+      { error: 'Failed to create overtime rule set' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * DELETE /api/timeclock/pay-rates/[id]
+ * Remove a pay rate; the employee's earlier rate applies again from its date
+ */
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'users', 'canManage')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage pay rates' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const rate = await prisma.payRate.findUnique({ where: { id } });
+    if (!rate) {
+      return NextResponse.json({ error: 'Pay rate not found' }, { status: 404 });
+    }
+
+    await prisma.payRate.delete({ where: { id } });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'PAY_RATE_DELETED',
+      entityType: 'PayRate',
+      entityId: id,
+      changes: {
+        before: {
+          userId: rate.userId,
+          hourlyRate: rate.hourlyRate,
+          effectiveDate: rate.effectiveDate.toISOString().slice(0, 10),
+          note: rate.note,
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting pay rate:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete pay rate' },
+      { status: 500 }
+    );
+  }
+}
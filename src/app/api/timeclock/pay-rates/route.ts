@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { getRateOnDate } from '@/lib/labor-cost';
+import { getSystemConfig } from '@/lib/setup-status';
+import { payRateSchema, parseWithErrors } from '@/lib/validation';
+
+/**
+ * GET /api/timeclock/pay-rates
+ * List active employees with their pay rate history and the rate in effect today
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'users', 'canManage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const users = await prisma.user.findMany({
+      where: { isActive: true },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        department: { select: { id: true, name: true } },
+        payRates: { orderBy: { effectiveDate: 'asc' } },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    const timezone = (await getSystemConfig('timezone')) || 'UTC';
+    const today = new Date().toLocaleDateString('en-CA', { timeZone: timezone });
+
+    return NextResponse.json({
+      employees: users.map((user) => ({
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        department: user.department,
+        currentRate: getRateOnDate(user.payRates, today),
+        rates: user.payRates
+          .map((rate) => ({
+            id: rate.id,
+            hourlyRate: rate.hourlyRate,
+            effectiveDate: rate.effectiveDate.toISOString().slice(0, 10),
+            note: rate.note,
+          }))
+          .reverse(),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching pay rates:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch pay rates' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/timeclock/pay-rates
+ * Add an hourly rate for an employee, effective from a date
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'users', 'canManage')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage pay rates' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = parseWithErrors(payRateSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { userId, hourlyRate, note } = parsed.data;
+    const effectiveDate = new Date(`${parsed.data.effectiveDate}T00:00:00.000Z`);
+    if (isNaN(effectiveDate.getTime())) {
+      return NextResponse.json({ error: 'Invalid effective date' }, { status: 400 });
+    }
+
+    const employee = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!employee) {
+      return NextResponse.json({ error: 'Employee not found' }, { status: 404 });
+    }
+
+    const existing = await prisma.payRate.findUnique({
+      where: { userId_effectiveDate: { userId, effectiveDate } },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { error: 'This employee already has a rate effective on that date' },
+        { status: 409 }
+      );
+    }
+
+    const rate = await prisma.payRate.create({
+      data: {
+        userId,
+        hourlyRate,
+        effectiveDate,
+        note: note || null,
+        createdById: session.user.id,
+      },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'PAY_RATE_CREATED',
+      entityType: 'PayRate',
+      entityId: rate.id,
+      changes: {
+        after: {
+          userId,
+          hourlyRate,
+          effectiveDate: parsed.data.effectiveDate,
+          note: rate.note,
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ rate }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating pay rate:', error);
+    return NextResponse.json(
+      { error: 'Failed to create pay rate' },
+      { status: 500 }
+    );
+  }
+}
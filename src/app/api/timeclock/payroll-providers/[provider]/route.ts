@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { getPayrollProviderSettings, isPayrollProviderId, PAYROLL_PROVIDERS } from '@/lib/payroll-providers';
+import { payrollProviderConfigSchema, parseWithErrors } from '@/lib/validation';
+
+type RouteParams = {
+  params: Promise<{ provider: string }>;
+};
+
+/**
+ * PUT /api/timeclock/payroll-providers/[provider]
+ * Save a provider's company code, batch ID and earning code mappings
+ */
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage payroll export settings' },
+        { status: 403 }
+      );
+    }
+
+    const { provider: providerId } = await params;
+    if (!isPayrollProviderId(providerId)) {
+      return NextResponse.json({ error: 'Unknown payroll provider' }, { status: 404 });
+    }
+    const provider = PAYROLL_PROVIDERS[providerId];
+
+    const body = await req.json();
+    const parsed = parseWithErrors(payrollProviderConfigSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const companyCode = provider.companyCodeLabel ? parsed.data.companyCode?.toUpperCase() || null : null;
+    if (companyCode && provider.companyCodePattern && !provider.companyCodePattern.test(companyCode)) {
+      return NextResponse.json(
+        { error: `${provider.companyCodeLabel} must be ${provider.companyCodeHint}` },
+        { status: 400 }
+      );
+    }
+
+    // Only the earnings the provider identifies by code are kept
+    const earningCodes: Record<string, string> = {};
+    for (const type of provider.codedEarnings) {
+      const code = parsed.data.earningCodes[type];
+      if (code && code.length > provider.maxEarningCodeLength) {
+        return NextResponse.json(
+          { error: `${provider.label} earning codes can be at most ${provider.maxEarningCodeLength} characters` },
+          { status: 400 }
+        );
+      }
+      if (code) earningCodes[type] = code;
+    }
+
+    const before = await getPayrollProviderSettings(providerId);
+    const data = {
+      companyCode,
+      batchId: provider.hasBatchId ? parsed.data.batchId || null : null,
+      earningCodes: JSON.stringify(earningCodes),
+    };
+
+    await prisma.payrollProviderConfig.upsert({
+      where: { provider: providerId },
+      update: data,
+      create: { provider: providerId, ...data },
+    });
+
+    const settings = await getPayrollProviderSettings(providerId);
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'PAYROLL_PROVIDER_CONFIG_UPDATED',
+      entityType: 'PayrollProviderConfig',
+      entityId: providerId,
+      changes: { before, after: settings },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error('Error saving payroll provider settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to save payroll provider settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import {
+  getPayrollProviderSettings,
+  PAYROLL_PROVIDERS,
+  type PayrollProviderId,
+} from '@/lib/payroll-providers';
+
+/**
+ * GET /api/timeclock/payroll-providers
+ * Built-in payroll provider export formats with their saved code mappings
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (
+      !hasPermission(userWithPerms.permissions, 'timeclock', 'canExportPayroll') &&
+      !hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')
+    ) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const providers = await Promise.all(
+      (Object.keys(PAYROLL_PROVIDERS) as PayrollProviderId[]).map(async (id) => {
+        const provider = PAYROLL_PROVIDERS[id];
+        return {
+          id,
+          label: provider.label,
+          description: provider.description,
+          companyCodeLabel: provider.companyCodeLabel,
+          companyCodeHint: provider.companyCodeHint,
+          employeeIdHint: provider.employeeIdHint,
+          codedEarnings: provider.codedEarnings,
+          hasBatchId: provider.hasBatchId,
+          settings: await getPayrollProviderSettings(id),
+        };
+      })
+    );
+
+    return NextResponse.json({ providers });
+  } catch (error) {
+    console.error('Error fetching payroll providers:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch payroll providers' },
+      { status: 500 }
+    );
+  }
+}
@@ -109,6 +109,10 @@ export async function GET(req: NextRequest) {
             },
           },
         },
+        breaks: {
+          select: { id: true, type: true, isPaid: true, startedAt: true, endedAt: true, duration: true },
+          orderBy: { startedAt: 'asc' },
+        },
       },
       orderBy: {
         clockIn: 'asc', // Oldest first
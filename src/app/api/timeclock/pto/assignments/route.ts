@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { getPtoBalance, syncPtoAccruals } from '@/lib/pto';
+
+/**
+ * GET /api/timeclock/pto/assignments
+ * Active employees with their PTO policy and current balance
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const users = await prisma.user.findMany({
+      where: { isActive: true },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        ptoPolicyId: true,
+        ptoPolicyAssignedAt: true,
+        department: { select: { id: true, name: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    const employees = [];
+    for (const user of users) {
+      const { balance, pendingHours } = await getPtoBalance(user.id);
+      employees.push({ ...user, balance, pendingHours });
+    }
+
+    return NextResponse.json({ employees });
+  } catch (error) {
+    console.error('Error fetching PTO assignments:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch PTO assignments' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/timeclock/pto/assignments
+ * Put an employee on a PTO policy (or take them off one with policyId null).
+ * Accruals under the previous policy are settled first.
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage PTO policies' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const userId = typeof body.userId === 'string' ? body.userId : '';
+    const policyId = typeof body.policyId === 'string' && body.policyId ? body.policyId : null;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, name: true, ptoPolicyId: true },
+    });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (policyId) {
+      const policy = await prisma.ptoPolicy.findUnique({ where: { id: policyId } });
+      if (!policy || !policy.isActive) {
+        return NextResponse.json({ error: 'PTO policy not found or inactive' }, { status: 400 });
+      }
+    }
+
+    if (user.ptoPolicyId === policyId) {
+      return NextResponse.json({ user });
+    }
+
+    await syncPtoAccruals(userId);
+
+    const updated = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        ptoPolicyId: policyId,
+        ptoPolicyAssignedAt: policyId ? new Date() : null,
+      },
+      select: { id: true, ptoPolicyId: true, ptoPolicyAssignedAt: true },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'PTO_POLICY_ASSIGNED',
+      entityType: 'User',
+      entityId: userId,
+      changes: {
+        before: { ptoPolicyId: user.ptoPolicyId },
+        after: { ptoPolicyId: policyId },
+        employeeName: user.name,
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ user: updated });
+  } catch (error) {
+    console.error('Error assigning PTO policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to assign PTO policy' },
+      { status: 500 }
+    );
+  }
+}
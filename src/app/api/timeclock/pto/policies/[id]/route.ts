@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { ptoPolicySchema, parseWithErrors } from '@/lib/validation';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * PUT /api/timeclock/pto/policies/[id]
+ * Update a PTO policy. Changes apply to accruals recorded from now on.
+ */
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage PTO policies' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const existing = await prisma.ptoPolicy.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'PTO policy not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const parsed = parseWithErrors(ptoPolicySchema.partial(), body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    if (parsed.data.name && parsed.data.name !== existing.name) {
+      const duplicate = await prisma.ptoPolicy.findUnique({ where: { name: parsed.data.name } });
+      if (duplicate) {
+        return NextResponse.json(
+          { error: `A policy named ${parsed.data.name} already exists` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const policy = await prisma.ptoPolicy.update({
+      where: { id },
+      data: {
+        ...parsed.data,
+        description: parsed.data.description !== undefined ? parsed.data.description.trim() || null : undefined,
+      },
+      include: { _count: { select: { users: true } } },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'PTO_POLICY_UPDATED',
+      entityType: 'PtoPolicy',
+      entityId: id,
+      changes: {
+        before: {
+          name: existing.name,
+          accrualMethod: existing.accrualMethod,
+          accrualRate: existing.accrualRate,
+          maxBalance: existing.maxBalance,
+          carryoverMax: existing.carryoverMax,
+          isActive: existing.isActive,
+        },
+        after: parsed.data,
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error('Error updating PTO policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to update PTO policy' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/timeclock/pto/policies/[id]
+ * Delete a PTO policy no employee is on
+ */
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage PTO policies' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const existing = await prisma.ptoPolicy.findUnique({
+      where: { id },
+      include: { _count: { select: { users: true } } },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: 'PTO policy not found' }, { status: 404 });
+    }
+
+    if (existing._count.users > 0) {
+      return NextResponse.json(
+        { error: 'Employees are still assigned to this policy. Deactivate it instead.' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.ptoPolicy.delete({ where: { id } });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'PTO_POLICY_DELETED',
+      entityType: 'PtoPolicy',
+      entityId: id,
+      changes: { before: { name: existing.name } },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting PTO policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete PTO policy' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { ptoPolicySchema, parseWithErrors } from '@/lib/validation';
+
+/**
+ * GET /api/timeclock/pto/policies
+ * List PTO policies with the number of employees on each
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const policies = await prisma.ptoPolicy.findMany({
+      include: { _count: { select: { users: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ policies });
+  } catch (error) {
+    console.error('Error fetching PTO policies:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch PTO policies' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/timeclock/pto/policies
+ * Create a PTO policy
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage PTO policies' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = parseWithErrors(ptoPolicySchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const duplicate = await prisma.ptoPolicy.findUnique({ where: { name: parsed.data.name } });
+    if (duplicate) {
+      return NextResponse.json(
+        { error: `A policy named ${parsed.data.name} already exists` },
+        { status: 400 }
+      );
+    }
+
+    const policy = await prisma.ptoPolicy.create({
+      data: {
+        name: parsed.data.name,
+        description: parsed.data.description?.trim() || null,
+        accrualMethod: parsed.data.accrualMethod,
+        accrualRate: parsed.data.accrualRate,
+        maxBalance: parsed.data.maxBalance ?? null,
+        carryoverMax: parsed.data.carryoverMax ?? null,
+      },
+      include: { _count: { select: { users: true } } },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'PTO_POLICY_CREATED',
+      entityType: 'PtoPolicy',
+      entityId: policy.id,
+      changes: { after: parsed.data },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ policy }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating PTO policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to create PTO policy' },
+      { status: 500 }
+    );
+  }
+}
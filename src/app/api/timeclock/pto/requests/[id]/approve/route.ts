@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { getPtoBalance, getPtoReviewDepartmentIds, syncPtoAccruals } from '@/lib/pto';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * POST /api/timeclock/pto/requests/[id]/approve
+ * Approve a leave request and take the hours from the employee's balance
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const departmentIds = await getPtoReviewDepartmentIds(session.user.id, userWithPerms.permissions);
+    if (departmentIds && departmentIds.length === 0) {
+      return NextResponse.json(
+        { error: 'You do not have permission to approve leave requests' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const request = await prisma.ptoRequest.findUnique({
+      where: { id },
+      include: { user: { select: { id: true, name: true, departmentId: true } } },
+    });
+
+    if (!request) {
+      return NextResponse.json({ error: 'Leave request not found' }, { status: 404 });
+    }
+
+    // Cannot approve own requests
+    if (request.userId === session.user.id) {
+      return NextResponse.json({ error: 'Cannot approve own leave requests' }, { status: 403 });
+    }
+
+    if (departmentIds && (!request.user.departmentId || !departmentIds.includes(request.user.departmentId))) {
+      return NextResponse.json(
+        { error: 'You can only approve leave in your assigned departments' },
+        { status: 403 }
+      );
+    }
+
+    if (request.status !== 'pending') {
+      return NextResponse.json(
+        { error: `Leave request is already ${request.status}` },
+        { status: 400 }
+      );
+    }
+
+    // Post accruals due so far, so the usage lands after them in the ledger
+    await syncPtoAccruals(request.userId);
+    const { balance } = await getPtoBalance(request.userId);
+    if (request.hours > balance) {
+      return NextResponse.json(
+        { error: `${request.user.name} only has ${balance} hours of PTO` },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    const updated = await prisma.$transaction(async (tx) => {
+      const approved = await tx.ptoRequest.update({
+        where: { id },
+        data: {
+          status: 'approved',
+          reviewedById: session.user.id,
+          reviewedAt: now,
+          reviewNote: null,
+        },
+      });
+
+      await tx.ptoTransaction.create({
+        data: {
+          userId: request.userId,
+          type: 'USAGE',
+          hours: -request.hours,
+          effectiveDate: now,
+          requestId: id,
+          note: `Leave ${request.startDate.toISOString().slice(0, 10)} to ${request.endDate.toISOString().slice(0, 10)}`,
+        },
+      });
+
+      return approved;
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'PTO_REQUEST_APPROVED',
+      entityType: 'PtoRequest',
+      entityId: id,
+      changes: {
+        before: { status: request.status },
+        after: { status: 'approved', hours: request.hours },
+        employeeName: request.user.name,
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ request: updated });
+  } catch (error) {
+    console.error('Error approving leave request:', error);
+    return NextResponse.json(
+      { error: 'Failed to approve leave request' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { getPtoReviewDepartmentIds } from '@/lib/pto';
+import { rejectedNoteSchema, parseWithErrors } from '@/lib/validation';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * POST /api/timeclock/pto/requests/[id]/reject
+ * Reject a leave request with an optional note
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const departmentIds = await getPtoReviewDepartmentIds(session.user.id, userWithPerms.permissions);
+    if (departmentIds && departmentIds.length === 0) {
+      return NextResponse.json(
+        { error: 'You do not have permission to reject leave requests' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = parseWithErrors(rejectedNoteSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const request = await prisma.ptoRequest.findUnique({
+      where: { id },
+      include: { user: { select: { id: true, name: true, departmentId: true } } },
+    });
+
+    if (!request) {
+      return NextResponse.json({ error: 'Leave request not found' }, { status: 404 });
+    }
+
+    if (request.userId === session.user.id) {
+      return NextResponse.json({ error: 'Cannot reject own leave requests' }, { status: 403 });
+    }
+
+    if (departmentIds && (!request.user.departmentId || !departmentIds.includes(request.user.departmentId))) {
+      return NextResponse.json(
+        { error: 'You can only reject leave in your assigned departments' },
+        { status: 403 }
+      );
+    }
+
+    if (request.status !== 'pending') {
+      return NextResponse.json(
+        { error: `Leave request is already ${request.status}` },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.ptoRequest.update({
+      where: { id },
+      data: {
+        status: 'rejected',
+        reviewedById: session.user.id,
+        reviewedAt: new Date(),
+        reviewNote: parsed.data.rejectedNote?.trim() || null,
+      },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'PTO_REQUEST_REJECTED',
+      entityType: 'PtoRequest',
+      entityId: id,
+      changes: {
+        before: { status: request.status },
+        after: { status: 'rejected', reviewNote: updated.reviewNote },
+        employeeName: request.user.name,
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ request: updated });
+  } catch (error) {
+    console.error('Error rejecting leave request:', error);
+    return NextResponse.json(
+      { error: 'Failed to reject leave request' },
+      { status: 500 }
+    );
+  }
+}
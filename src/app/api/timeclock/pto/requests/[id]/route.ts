@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * DELETE /api/timeclock/pto/requests/[id]
+ * Cancel one of the current user's pending leave requests
+ */
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const request = await prisma.ptoRequest.findUnique({ where: { id } });
+
+    if (!request || request.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Leave request not found' }, { status: 404 });
+    }
+
+    if (request.status !== 'pending') {
+      return NextResponse.json(
+        { error: 'Only pending requests can be cancelled' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.ptoRequest.update({
+      where: { id },
+      data: { status: 'cancelled' },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'PTO_REQUEST_CANCELLED',
+      entityType: 'PtoRequest',
+      entityId: id,
+      changes: {
+        before: { status: request.status },
+        after: { status: 'cancelled' },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ request: updated });
+  } catch (error) {
+    console.error('Error cancelling leave request:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel leave request' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { getPtoBalance, getPtoReviewDepartmentIds } from '@/lib/pto';
+import { ptoRequestSchema, parseWithErrors } from '@/lib/validation';
+
+/**
+ * GET /api/timeclock/pto/requests
+ * The current user's leave requests, or with ?scope=team the requests of
+ * employees in the departments the user approves for (optionally ?status=).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const status = searchParams.get('status');
+
+    if (searchParams.get('scope') !== 'team') {
+      const requests = await prisma.ptoRequest.findMany({
+        where: { userId: session.user.id, status: status || undefined },
+        include: { reviewedBy: { select: { id: true, name: true } } },
+        orderBy: { startDate: 'desc' },
+      });
+
+      return NextResponse.json({ requests });
+    }
+
+    const departmentIds = await getPtoReviewDepartmentIds(session.user.id, userWithPerms.permissions);
+    if (departmentIds && departmentIds.length === 0) {
+      return NextResponse.json(
+        { error: 'You do not have permission to review leave requests' },
+        { status: 403 }
+      );
+    }
+
+    const requests = await prisma.ptoRequest.findMany({
+      where: {
+        status: status || undefined,
+        userId: { not: session.user.id },
+        user: departmentIds ? { departmentId: { in: departmentIds } } : undefined,
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            department: { select: { id: true, name: true } },
+          },
+        },
+        reviewedBy: { select: { id: true, name: true } },
+      },
+      orderBy: { startDate: 'asc' },
+    });
+
+    // Balances so reviewers can see whether the leave is covered
+    const balances: Record<string, number> = {};
+    for (const userId of new Set(requests.map((r) => r.userId))) {
+      balances[userId] = (await getPtoBalance(userId)).balance;
+    }
+
+    return NextResponse.json({
+      requests: requests.map((request) => ({ ...request, balance: balances[request.userId] })),
+    });
+  } catch (error) {
+    console.error('Error fetching leave requests:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch leave requests' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/timeclock/pto/requests
+ * Request paid leave for the current user
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const parsed = parseWithErrors(ptoRequestSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { policy, available } = await getPtoBalance(session.user.id);
+    if (!policy) {
+      return NextResponse.json(
+        { error: 'You are not on a PTO policy' },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.data.hours > available) {
+      return NextResponse.json(
+        { error: `Only ${available} hours available after pending requests` },
+        { status: 400 }
+      );
+    }
+
+    const request = await prisma.ptoRequest.create({
+      data: {
+        userId: session.user.id,
+        startDate: new Date(parsed.data.startDate),
+        endDate: new Date(parsed.data.endDate),
+        hours: parsed.data.hours,
+        reason: parsed.data.reason?.trim() || null,
+      },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'PTO_REQUEST_CREATED',
+      entityType: 'PtoRequest',
+      entityId: request.id,
+      changes: {
+        after: {
+          startDate: request.startDate,
+          endDate: request.endDate,
+          hours: request.hours,
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ request }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating leave request:', error);
+    return NextResponse.json(
+      { error: 'Failed to create leave request' },
+      { status: 500 }
+    );
+  }
+}
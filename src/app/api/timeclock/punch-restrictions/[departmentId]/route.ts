@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { getPunchRestrictionSettings, isValidNetwork } from '@/lib/timeclock-location';
+import { punchRestrictionSchema, parseWithErrors } from '@/lib/validation';
+
+type RouteParams = {
+  params: Promise<{ departmentId: string }>;
+};
+
+/**
+ * PUT /api/timeclock/punch-restrictions/[departmentId]
+ * Set where a department's employees may punch from and what happens to punches from elsewhere
+ */
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage punch restrictions' },
+        { status: 403 }
+      );
+    }
+
+    const { departmentId } = await params;
+    const department = await prisma.department.findUnique({
+      where: { id: departmentId },
+      include: { punchRestriction: true },
+    });
+    if (!department) {
+      return NextResponse.json({ error: 'Department not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const parsed = parseWithErrors(punchRestrictionSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const invalidNetwork = parsed.data.allowedNetworks.find((network) => !isValidNetwork(network));
+    if (invalidNetwork) {
+      return NextResponse.json(
+        { error: `${invalidNetwork} is not a valid IP address or CIDR range` },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.data.allowedNetworks.length === 0 && parsed.data.workSites.length === 0) {
+      return NextResponse.json(
+        { error: 'Add at least one allowed network or work site' },
+        { status: 400 }
+      );
+    }
+
+    const data = {
+      allowedNetworks: JSON.stringify(parsed.data.allowedNetworks),
+      workSites: JSON.stringify(parsed.data.workSites),
+      enforcement: parsed.data.enforcement,
+      isActive: parsed.data.isActive,
+    };
+
+    const restriction = await prisma.punchRestriction.upsert({
+      where: { departmentId },
+      update: data,
+      create: { departmentId, ...data },
+    });
+
+    const before = department.punchRestriction
+      ? getPunchRestrictionSettings(department.punchRestriction)
+      : undefined;
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'PUNCH_RESTRICTION_UPDATED',
+      entityType: 'PunchRestriction',
+      entityId: restriction.id,
+      changes: { before, after: parsed.data, departmentName: department.name },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ restriction: getPunchRestrictionSettings(restriction) });
+  } catch (error) {
+    console.error('Error saving punch restriction:', error);
+    return NextResponse.json(
+      { error: 'Failed to save punch restriction' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/timeclock/punch-restrictions/[departmentId]
+ * Remove a department's punch restriction so its employees can punch from anywhere
+ */
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage punch restrictions' },
+        { status: 403 }
+      );
+    }
+
+    const { departmentId } = await params;
+    const restriction = await prisma.punchRestriction.findUnique({
+      where: { departmentId },
+      include: { department: { select: { name: true } } },
+    });
+    if (!restriction) {
+      return NextResponse.json({ error: 'Punch restriction not found' }, { status: 404 });
+    }
+
+    await prisma.punchRestriction.delete({ where: { id: restriction.id } });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'PUNCH_RESTRICTION_DELETED',
+      entityType: 'PunchRestriction',
+      entityId: restriction.id,
+      changes: {
+        before: getPunchRestrictionSettings(restriction),
+        departmentName: restriction.department.name,
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting punch restriction:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete punch restriction' },
+      { status: 500 }
+    );
+  }
+}
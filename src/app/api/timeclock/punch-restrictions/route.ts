@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { getPunchRestrictionSettings } from '@/lib/timeclock-location';
+
+/**
+ * GET /api/timeclock/punch-restrictions
+ * List active departments with the networks and work sites their employees may punch from
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!hasPermission(userWithPerms.permissions, 'timeclock', 'canManageConfig')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const departments = await prisma.department.findMany({
+      where: { isActive: true },
+      select: { id: true, name: true, punchRestriction: true },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({
+      departments: departments.map((department) => ({
+        id: department.id,
+        name: department.name,
+        restriction: department.punchRestriction
+          ? getPunchRestrictionSettings(department.punchRestriction)
+          : null,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching punch restrictions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch punch restrictions' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,7 +4,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
 import { getCurrentPayPeriod, getRecentPeriods, PayPeriod } from '@/lib/pay-period';
 import { calculateOvertime, TimeclockEntryForCalculation } from '@/lib/overtime';
+import { getOvertimeConfigForUser, getOvertimeRuleSetsByUser } from '@/lib/overtime-rules';
 import { getSystemConfig } from '@/lib/setup-status';
+import { isPunchLocationRequired } from '@/lib/timeclock-location';
 
 export async function GET(req: NextRequest) {
   try {
@@ -35,6 +37,7 @@ export async function GET(req: NextRequest) {
     // Get pay period config
     const payPeriodConfig = await prisma.payPeriodConfig.findFirst();
     const overtimeConfig = await prisma.overtimeConfig.findFirst();
+    const userOvertimeConfig = await getOvertimeConfigForUser(userId, overtimeConfig);
 
     // Calculate current period and available periods
     const currentPeriod = getCurrentPayPeriod(payPeriodConfig);
@@ -67,6 +70,10 @@ export async function GET(req: NextRequest) {
         userId,
         clockOut: null,
       },
+      include: {
+        jobCode: { select: { id: true, code: true, name: true } },
+        breaks: { where: { endedAt: null }, select: { id: true, type: true, startedAt: true } },
+      },
     });
 
     // Get entries for the selected period
@@ -78,11 +85,31 @@ export async function GET(req: NextRequest) {
           lte: queryEnd,
         },
       },
+      include: {
+        jobCode: { select: { id: true, code: true, name: true } },
+      },
       orderBy: {
         clockIn: 'desc',
       },
     });
 
+    // Upcoming scheduled shifts (including one in progress) for the next week
+    const upcomingShifts = await prisma.scheduledShift.findMany({
+      where: {
+        userId,
+        endsAt: { gt: new Date() },
+        startsAt: { lt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) },
+      },
+      select: {
+        id: true,
+        startsAt: true,
+        endsAt: true,
+        notes: true,
+        department: { select: { id: true, name: true } },
+      },
+      orderBy: { startsAt: 'asc' },
+    });
+
     // Get today's entries for "today's totals"
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -112,11 +139,17 @@ export async function GET(req: NextRequest) {
         clockOut: e.clockOut ? new Date(e.clockOut) : null,
         duration: e.duration,
         status: e.status,
+        jobCodeId: e.jobCodeId,
       })
     );
 
     const timezone = await getSystemConfig('timezone') || 'UTC';
-    const overtimeResult = calculateOvertime(calcEntries, overtimeConfig, timezone);
+    const overtimeResult = calculateOvertime(
+      calcEntries,
+      overtimeConfig,
+      timezone,
+      await getOvertimeRuleSetsByUser([userId])
+    );
     const userOT = overtimeResult.employees[userId];
 
     // Period stats
@@ -124,6 +157,7 @@ export async function GET(req: NextRequest) {
       totalMinutes: userOT?.totalMinutes || 0,
       regularMinutes: userOT?.regularMinutes || 0,
       dailyOvertimeMinutes: userOT?.dailyOvertimeMinutes || 0,
+      doubleTimeMinutes: userOT?.doubleTimeMinutes || 0,
       weeklyOvertimeMinutes: userOT?.weeklyOvertimeMinutes || 0,
       sessionsCompleted: completedEntries.length,
       pendingCount: periodEntries.filter((e) => e.status === 'pending').length,
@@ -144,10 +178,12 @@ export async function GET(req: NextRequest) {
       availablePeriods,
       periodStats,
       todayStats,
-      overtimeConfig: overtimeConfig
+      upcomingShifts,
+      punchLocationRequired: await isPunchLocationRequired(userId),
+      overtimeConfig: userOvertimeConfig
         ? {
-            dailyThreshold: overtimeConfig.dailyThreshold,
-            weeklyThreshold: overtimeConfig.weeklyThreshold,
+            dailyThreshold: userOvertimeConfig.dailyThreshold,
+            weeklyThreshold: userOvertimeConfig.weeklyThreshold,
           }
         : null,
     });
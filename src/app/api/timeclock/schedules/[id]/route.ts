@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { findOverlappingShift, getScheduleDepartmentIds } from '@/lib/timeclock-schedule';
+import { scheduledShiftUpdateSchema, parseWithErrors } from '@/lib/validation';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * PUT /api/timeclock/schedules/[id]
+ * Move, reassign or annotate a scheduled shift
+ */
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { id } = await params;
+    const existing = await prisma.scheduledShift.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Scheduled shift not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const parsed = parseWithErrors(scheduledShiftUpdateSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const userId = parsed.data.userId ?? existing.userId;
+    const departmentId = parsed.data.departmentId ?? existing.departmentId;
+    const startsAt = parsed.data.startsAt ? new Date(parsed.data.startsAt) : existing.startsAt;
+    const endsAt = parsed.data.endsAt ? new Date(parsed.data.endsAt) : existing.endsAt;
+
+    const departmentIds = await getScheduleDepartmentIds(session.user.id, userWithPerms.permissions);
+    if (
+      departmentIds &&
+      (!departmentIds.includes(existing.departmentId) || !departmentIds.includes(departmentId))
+    ) {
+      return NextResponse.json(
+        { error: 'You are not assigned to this department' },
+        { status: 403 }
+      );
+    }
+
+    const duration = endsAt.getTime() - startsAt.getTime();
+    if (duration <= 0 || duration > 24 * 60 * 60 * 1000) {
+      return NextResponse.json(
+        { error: 'Shift must end after it starts and last at most 24 hours' },
+        { status: 400 }
+      );
+    }
+
+    if (userId !== existing.userId || departmentId !== existing.departmentId) {
+      const employee = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { isActive: true, departmentId: true },
+      });
+      if (!employee || !employee.isActive || employee.departmentId !== departmentId) {
+        return NextResponse.json(
+          { error: 'Employee not found in this department' },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (await findOverlappingShift(userId, startsAt, endsAt, id)) {
+      return NextResponse.json(
+        { error: 'Employee already has a shift during this time' },
+        { status: 400 }
+      );
+    }
+
+    const shift = await prisma.scheduledShift.update({
+      where: { id },
+      data: {
+        userId,
+        departmentId,
+        startsAt,
+        endsAt,
+        notes: parsed.data.notes !== undefined ? parsed.data.notes.trim() || null : undefined,
+      },
+      include: {
+        user: { select: { id: true, name: true } },
+      },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'SCHEDULED_SHIFT_UPDATED',
+      entityType: 'ScheduledShift',
+      entityId: id,
+      changes: {
+        before: {
+          userId: existing.userId,
+          departmentId: existing.departmentId,
+          startsAt: existing.startsAt,
+          endsAt: existing.endsAt,
+        },
+        after: { userId, departmentId, startsAt, endsAt },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ shift });
+  } catch (error) {
+    console.error('Error updating scheduled shift:', error);
+    return NextResponse.json(
+      { error: 'Failed to update scheduled shift' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/timeclock/schedules/[id]
+ * Remove a shift from the schedule. Entries already matched to it are kept
+ * and lose the link.
+ */
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { id } = await params;
+    const existing = await prisma.scheduledShift.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Scheduled shift not found' }, { status: 404 });
+    }
+
+    const departmentIds = await getScheduleDepartmentIds(session.user.id, userWithPerms.permissions);
+    if (departmentIds && !departmentIds.includes(existing.departmentId)) {
+      return NextResponse.json(
+        { error: 'You are not assigned to this department' },
+        { status: 403 }
+      );
+    }
+
+    await prisma.scheduledShift.delete({ where: { id } });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'SCHEDULED_SHIFT_DELETED',
+      entityType: 'ScheduledShift',
+      entityId: id,
+      changes: {
+        before: {
+          userId: existing.userId,
+          departmentId: existing.departmentId,
+          startsAt: existing.startsAt,
+          endsAt: existing.endsAt,
+        },
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting scheduled shift:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete scheduled shift' },
+      { status: 500 }
+    );
+  }
+}
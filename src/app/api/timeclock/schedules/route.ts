@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getUserWithPermissions } from '@/lib/check-permissions';
+import { createAuditLog, getRequestContext } from '@/lib/audit';
+import { findOverlappingShift, getScheduleDepartmentIds } from '@/lib/timeclock-schedule';
+import { scheduledShiftSchema, parseWithErrors } from '@/lib/validation';
+
+/**
+ * GET /api/timeclock/schedules
+ * Scheduled shifts between ?start and ?end for the departments the user can
+ * schedule, with the departments and employees to build the schedule from.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const departmentIds = await getScheduleDepartmentIds(session.user.id, userWithPerms.permissions);
+    if (departmentIds && departmentIds.length === 0) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage schedules' },
+        { status: 403 }
+      );
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const start = searchParams.get('start');
+    const end = searchParams.get('end');
+    const departmentId = searchParams.get('departmentId');
+
+    if (!start || !end) {
+      return NextResponse.json({ error: 'start and end are required' }, { status: 400 });
+    }
+
+    if (departmentId && departmentIds && !departmentIds.includes(departmentId)) {
+      return NextResponse.json(
+        { error: 'You are not assigned to this department' },
+        { status: 403 }
+      );
+    }
+
+    const departmentFilter = departmentId
+      ? departmentId
+      : departmentIds
+        ? { in: departmentIds }
+        : undefined;
+
+    const shifts = await prisma.scheduledShift.findMany({
+      where: {
+        departmentId: departmentFilter,
+        startsAt: { gte: new Date(start), lt: new Date(end) },
+      },
+      include: {
+        user: { select: { id: true, name: true } },
+      },
+      orderBy: { startsAt: 'asc' },
+    });
+
+    const departments = await prisma.department.findMany({
+      where: {
+        id: departmentIds ? { in: departmentIds } : undefined,
+        isActive: true,
+      },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    });
+
+    const employees = await prisma.user.findMany({
+      where: {
+        isActive: true,
+        departmentId: departmentFilter ?? { not: null },
+      },
+      select: { id: true, name: true, departmentId: true },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ shifts, departments, employees });
+  } catch (error) {
+    console.error('Error fetching schedules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch schedules' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/timeclock/schedules
+ * Schedule a shift for an employee
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const parsed = parseWithErrors(scheduledShiftSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { userId, departmentId, notes } = parsed.data;
+    const startsAt = new Date(parsed.data.startsAt);
+    const endsAt = new Date(parsed.data.endsAt);
+
+    const departmentIds = await getScheduleDepartmentIds(session.user.id, userWithPerms.permissions);
+    if (departmentIds && !departmentIds.includes(departmentId)) {
+      return NextResponse.json(
+        { error: 'You are not assigned to this department' },
+        { status: 403 }
+      );
+    }
+
+    const employee = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { isActive: true, departmentId: true },
+    });
+    if (!employee || !employee.isActive || employee.departmentId !== departmentId) {
+      return NextResponse.json(
+        { error: 'Employee not found in this department' },
+        { status: 400 }
+      );
+    }
+
+    if (await findOverlappingShift(userId, startsAt, endsAt)) {
+      return NextResponse.json(
+        { error: 'Employee already has a shift during this time' },
+        { status: 400 }
+      );
+    }
+
+    const shift = await prisma.scheduledShift.create({
+      data: {
+        userId,
+        departmentId,
+        startsAt,
+        endsAt,
+        notes: notes?.trim() || null,
+        createdById: session.user.id,
+      },
+      include: {
+        user: { select: { id: true, name: true } },
+      },
+    });
+
+    const { ipAddress, userAgent } = getRequestContext(req);
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'SCHEDULED_SHIFT_CREATED',
+      entityType: 'ScheduledShift',
+      entityId: shift.id,
+      changes: { after: { userId, departmentId, startsAt, endsAt } },
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ shift }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating scheduled shift:', error);
+    return NextResponse.json(
+      { error: 'Failed to create scheduled shift' },
+      { status: 500 }
+    );
+  }
+}
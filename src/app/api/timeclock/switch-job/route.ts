@@ -0,0 +1,50 @@
+import { auth } from '@/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
+import { getPunchLocation } from '@/lib/timeclock-location';
+import { switchJobCode } from '@/lib/timeclock-punch';
+
+/**
+ * POST /api/timeclock/switch-job
+ * Switch the open shift to another job code. Body: { jobCodeId, latitude?, longitude? }
+ * (null jobCodeId = no job code)
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userWithPerms = await getUserWithPermissions(session.user.id);
+    if (!userWithPerms) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { user, permissions } = userWithPerms;
+
+    if (!hasPermission(permissions, 'timeclock', 'canClockInOut')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const jobCodeId = typeof body.jobCodeId === 'string' ? body.jobCodeId : null;
+
+    const result = await switchJobCode(user.id, jobCodeId, { location: getPunchLocation(req, body) });
+
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ entry: result.entry });
+  } catch (error) {
+    console.error('Error switching job code:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,7 +3,9 @@ import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { getUserWithPermissions, hasPermission } from '@/lib/check-permissions';
 import { calculateOvertime, TimeclockEntryForCalculation } from '@/lib/overtime';
+import { getOvertimeRuleSetsByUser } from '@/lib/overtime-rules';
 import { getSystemConfig } from '@/lib/setup-status';
+import { parseScheduleVariances } from '@/lib/timeclock-schedule';
 
 /**
  * GET /api/timeclock/team
@@ -142,6 +144,9 @@ export async function GET(req: NextRequest) {
             },
           },
         },
+        jobCode: {
+          select: { id: true, code: true, name: true },
+        },
       },
       orderBy: [
         { clockIn: 'desc' },
@@ -162,6 +167,10 @@ export async function GET(req: NextRequest) {
       pendingCount: number;
       approvedCount: number;
       rejectedCount: number;
+      lateArrivalCount: number;
+      earlyDepartureCount: number;
+      unscheduledCount: number;
+      outsidePunchAreaCount: number;
     }> = {};
 
     for (const entry of entries) {
@@ -181,6 +190,10 @@ export async function GET(req: NextRequest) {
           pendingCount: 0,
           approvedCount: 0,
           rejectedCount: 0,
+          lateArrivalCount: 0,
+          earlyDepartureCount: 0,
+          unscheduledCount: 0,
+          outsidePunchAreaCount: 0,
         };
       }
 
@@ -197,6 +210,22 @@ export async function GET(req: NextRequest) {
       } else if (entry.status === 'rejected') {
         employeeTotals[userId].rejectedCount += 1;
       }
+
+      // Count differences from the schedule
+      for (const variance of parseScheduleVariances(entry.scheduleVariances)) {
+        if (variance.type === 'late_arrival') {
+          employeeTotals[userId].lateArrivalCount += 1;
+        } else if (variance.type === 'early_departure') {
+          employeeTotals[userId].earlyDepartureCount += 1;
+        } else if (variance.type === 'unscheduled') {
+          employeeTotals[userId].unscheduledCount += 1;
+        }
+      }
+
+      // Punches from outside the department's allowed networks / work sites
+      if (entry.locationViolations) {
+        employeeTotals[userId].outsidePunchAreaCount += 1;
+      }
     }
 
     // Calculate overtime using the overtime service
@@ -212,10 +241,12 @@ export async function GET(req: NextRequest) {
         clockOut: e.clockOut ? new Date(e.clockOut) : null,
         duration: e.duration,
         status: e.status,
+        jobCodeId: e.jobCodeId,
       }));
 
     const timezone = await getSystemConfig('timezone') || 'UTC';
-    const overtimeResult = calculateOvertime(calcEntries, overtimeConfig, timezone);
+    const ruleSets = await getOvertimeRuleSetsByUser(Object.keys(employeeTotals));
+    const overtimeResult = calculateOvertime(calcEntries, overtimeConfig, timezone, ruleSets);
 
     // Update employee totals with OT breakdown
     for (const userId in employeeTotals) {
@@ -223,7 +254,7 @@ export async function GET(req: NextRequest) {
       if (otResult) {
         employeeTotals[userId].regularMinutes = otResult.regularMinutes;
         employeeTotals[userId].overtimeMinutes =
-          otResult.dailyOvertimeMinutes + otResult.weeklyOvertimeMinutes;
+          otResult.dailyOvertimeMinutes + otResult.doubleTimeMinutes + otResult.weeklyOvertimeMinutes;
       } else {
         employeeTotals[userId].regularMinutes = employeeTotals[userId].totalMinutes;
         employeeTotals[userId].overtimeMinutes = 0;
@@ -234,20 +265,25 @@ export async function GET(req: NextRequest) {
     const entriesWithOTFlags = entries.map((entry) => {
       // Calculate if this individual entry exceeds daily threshold
       let exceedsDailyThreshold = false;
+      const dailyThreshold = ruleSets[entry.userId]
+        ? ruleSets[entry.userId].dailyThreshold
+        : overtimeConfig?.dailyThreshold;
       if (
-        overtimeConfig?.dailyThreshold &&
+        dailyThreshold &&
         entry.duration &&
         entry.clockOut
       ) {
         const entryMinutes = Math.floor(entry.duration / 60);
-        exceedsDailyThreshold = entryMinutes > overtimeConfig.dailyThreshold;
+        exceedsDailyThreshold = entryMinutes > dailyThreshold;
       }
 
       // Check if employee has any overtime
       const employeeOT = overtimeResult.employees[entry.userId];
       const hasOvertime =
         employeeOT &&
-        (employeeOT.dailyOvertimeMinutes > 0 || employeeOT.weeklyOvertimeMinutes > 0);
+        (employeeOT.dailyOvertimeMinutes > 0 ||
+          employeeOT.doubleTimeMinutes > 0 ||
+          employeeOT.weeklyOvertimeMinutes > 0);
 
       return {
         ...entry,
@@ -255,6 +291,7 @@ export async function GET(req: NextRequest) {
           exceedsDailyThreshold,
           hasEmployeeOvertime: hasOvertime,
           dailyOvertimeMinutes: employeeOT?.dailyOvertimeMinutes || 0,
+          doubleTimeMinutes: employeeOT?.doubleTimeMinutes || 0,
           weeklyOvertimeMinutes: employeeOT?.weeklyOvertimeMinutes || 0,
         },
       };
@@ -284,6 +321,7 @@ export async function GET(req: NextRequest) {
       ...emp,
       hasOvertime: emp.overtimeMinutes > 0,
       dailyOvertimeMinutes: overtimeResult.employees[emp.userId]?.dailyOvertimeMinutes || 0,
+      doubleTimeMinutes: overtimeResult.employees[emp.userId]?.doubleTimeMinutes || 0,
       weeklyOvertimeMinutes: overtimeResult.employees[emp.userId]?.weeklyOvertimeMinutes || 0,
     }));
 
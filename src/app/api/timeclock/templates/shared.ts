@@ -11,13 +11,18 @@ export const AVAILABLE_EXPORT_FIELDS = [
   { field: 'employeeName', label: 'Employee Name' },
   { field: 'employeeEmail', label: 'Employee Email' },
   { field: 'department', label: 'Department' },
+  { field: 'jobCode', label: 'Job Code' },
+  { field: 'jobCodeName', label: 'Job Name' },
+  { field: 'jobBudgetCode', label: 'Job Budget Line' },
   { field: 'clockIn', label: 'Clock In' },
   { field: 'clockOut', label: 'Clock Out' },
   { field: 'date', label: 'Date' },
   { field: 'regularHours', label: 'Regular Hours' },
   { field: 'dailyOvertimeHours', label: 'Daily OT Hours' },
+  { field: 'doubleTimeHours', label: 'Double Time Hours' },
   { field: 'weeklyOvertimeHours', label: 'Weekly OT Hours' },
   { field: 'totalHours', label: 'Total Hours' },
+  { field: 'leaveHours', label: 'Leave Hours' },
   { field: 'status', label: 'Status' },
   { field: 'approvedBy', label: 'Approved By' },
   { field: 'approvedAt', label: 'Approved At' },
@@ -5,6 +5,8 @@ import { getPermissionsFromSession, hasPermission } from '@/lib/check-permission
 import bcrypt from 'bcryptjs';
 import { createAuditLog, getRequestContext, sanitizeData, getChanges } from '@/lib/audit';
 import { validatePassword } from '@/lib/settings';
+import { buildKioskCredentialUpdate } from '@/lib/timeclock-kiosk';
+import { buildPayrollIdUpdate } from '@/lib/payroll-providers';
 
 
 export async function PUT(
@@ -24,7 +26,7 @@ export async function PUT(
 
     const { id } = await params;
     const body = await request.json();
-    const { email, name, password, roleId, departmentId, isActive } = body;
+    const { email, name, password, roleId, departmentId, isActive, badgeNumber, kioskPin, payrollEmployeeId } = body;
 
     // Get current user state for audit log
     const existingUser = await prisma.user.findUnique({
@@ -57,6 +59,17 @@ export async function PUT(
       isActive,
     };
 
+    const kioskCredentials = await buildKioskCredentialUpdate({ badgeNumber, kioskPin }, id);
+    if ('error' in kioskCredentials) {
+      return NextResponse.json({ error: kioskCredentials.error }, { status: 400 });
+    }
+
+    const payrollId = await buildPayrollIdUpdate({ payrollEmployeeId }, id);
+    if ('error' in payrollId) {
+      return NextResponse.json({ error: payrollId.error }, { status: 400 });
+    }
+    Object.assign(updateData, kioskCredentials.data, payrollId.data);
+
     // Only update password if provided
     let passwordChanged = false;
     if (password) {
@@ -88,8 +101,8 @@ export async function PUT(
     });
 
     // Remove password from response
-    const { password: _, ...userWithoutPassword } = user;
-    const { password: __, ...existingWithoutPassword } = existingUser;
+    const { password: _, kioskPin: _pin, ...userWithoutPassword } = user;
+    const { password: __, kioskPin: __pin, ...existingWithoutPassword } = existingUser;
 
     // Audit log the update
     const { ipAddress, userAgent } = getRequestContext(request);
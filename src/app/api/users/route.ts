@@ -5,6 +5,8 @@ import { getPermissionsFromSession, hasPermission } from '@/lib/check-permission
 import bcrypt from 'bcryptjs';
 import { createAuditLog, getRequestContext, sanitizeData } from '@/lib/audit';
 import { validatePassword } from '@/lib/settings';
+import { buildKioskCredentialUpdate } from '@/lib/timeclock-kiosk';
+import { buildPayrollIdUpdate } from '@/lib/payroll-providers';
 import { parsePagination } from '@/lib/validation';
 
 
@@ -60,6 +62,9 @@ export async function GET(req: NextRequest) {
         roleId: true,
         departmentId: true,
         isActive: true,
+        badgeNumber: true,
+        kioskPin: true,
+        payrollEmployeeId: true,
         createdAt: true,
         updatedAt: true,
         role: {
@@ -84,7 +89,8 @@ export async function GET(req: NextRequest) {
     });
 
     return NextResponse.json({
-      users: users,
+      // Only say whether a kiosk PIN is set, never return its hash
+      users: users.map(({ kioskPin, ...rest }) => ({ ...rest, hasKioskPin: !!kioskPin })),
       pagination: {
         page,
         limit,
@@ -114,7 +120,7 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json();
-    const { email, name, password, roleId, departmentId, isActive } = body;
+    const { email, name, password, roleId, departmentId, isActive, badgeNumber, kioskPin, payrollEmployeeId } = body;
 
     if (!email || !name || !password || !roleId) {
       return NextResponse.json(
@@ -141,6 +147,16 @@ export async function POST(request: Request) {
       );
     }
 
+    const kioskCredentials = await buildKioskCredentialUpdate({ badgeNumber, kioskPin });
+    if ('error' in kioskCredentials) {
+      return NextResponse.json({ error: kioskCredentials.error }, { status: 400 });
+    }
+
+    const payrollId = await buildPayrollIdUpdate({ payrollEmployeeId });
+    if ('error' in payrollId) {
+      return NextResponse.json({ error: payrollId.error }, { status: 400 });
+    }
+
     // Hash password
     const hashedPassword = await bcrypt.hash(password, 10);
 
@@ -152,6 +168,8 @@ export async function POST(request: Request) {
         roleId,
         departmentId: departmentId || null,
         isActive: isActive !== undefined ? isActive : true,
+        ...kioskCredentials.data,
+        ...payrollId.data,
       },
       include: {
         role: {
@@ -170,7 +188,7 @@ export async function POST(request: Request) {
     });
 
     // Remove password from response
-    const { password: _, ...userWithoutPassword } = user;
+    const { password: _, kioskPin: _pin, ...userWithoutPassword } = user;
 
     // Audit log the creation
     const { ipAddress, userAgent } = getRequestContext(request);
@@ -13,6 +13,10 @@ type BudgetItem = {
   budgetAmount: number;
   fiscalYear: number;
   accrualType: string;
+  phasing: string;
+  phasingSchedule: number[] | null;
+  isPayroll: boolean;
+  fiscalYearStart: string;
   department: { id: string; name: string } | null;
   category: { id: string; code: string; name: string } | null;
   encumbered: number;
@@ -23,6 +27,26 @@ type BudgetItem = {
   spent: number; // Legacy compatibility
 };
 
+const PERIODS_PER_YEAR: Record<string, number> = {
+  ANNUAL: 1,
+  QUARTERLY: 4,
+  MONTHLY: 12,
+};
+
+/**
+ * Labels for each budget period, starting from the fiscal year's first month
+ */
+function getPeriodLabels(accrualType: string, fiscalYearStart: string): string[] {
+  const start = new Date(fiscalYearStart);
+  const monthName = (offset: number) =>
+    new Date(start.getFullYear(), start.getMonth() + offset, 1).toLocaleString('en-US', { month: 'short' });
+
+  if (accrualType === 'QUARTERLY') {
+    return [0, 1, 2, 3].map((q) => `Q${q + 1} (${monthName(q * 3)}-${monthName(q * 3 + 2)})`);
+  }
+  return Array.from({ length: 12 }, (_, m) => monthName(m));
+}
+
 export default function BudgetItemsPage() {
   const { data: session } = useSession();
   const user = session?.user;
@@ -34,6 +58,14 @@ export default function BudgetItemsPage() {
   const debouncedSearch = useDebounce(searchTerm);
   const [departmentFilter, setDepartmentFilter] = useState('');
   const [showModal, setShowModal] = useState(false);
+  const [phasingItem, setPhasingItem] = useState<BudgetItem | null>(null);
+  const [phasingForm, setPhasingForm] = useState({
+    accrualType: 'ANNUAL',
+    phasing: 'EVEN',
+    amounts: [] as string[],
+    isPayroll: false,
+  });
+  const [savingPhasing, setSavingPhasing] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [pagination, setPagination] = useState({
     page: 1,
@@ -49,6 +81,7 @@ export default function BudgetItemsPage() {
     departmentId: '',
     fiscalYear: new Date().getFullYear().toString(),
     accrualType: 'ANNUAL',
+    isPayroll: false,
   });
 
   const canManage = user && permissions.canManageBudgetItems(user.role as any);
@@ -107,6 +140,7 @@ export default function BudgetItemsPage() {
       departmentId: '',
       fiscalYear: new Date().getFullYear().toString(),
       accrualType: 'ANNUAL',
+      isPayroll: false,
     });
     setShowModal(true);
   };
@@ -125,7 +159,8 @@ export default function BudgetItemsPage() {
         setShowModal(false);
         fetchData();
       } else {
-        alert('Error saving budget item');
+        const data = await res.json();
+        alert(data.error || 'Error saving budget item');
       }
     } catch (error) {
       console.error('Error saving budget item:', error);
@@ -155,6 +190,71 @@ export default function BudgetItemsPage() {
     }
   };
 
+  const evenAmounts = (budgetAmount: number, accrualType: string) => {
+    const periods = PERIODS_PER_YEAR[accrualType] || 1;
+    const amounts = Array(periods).fill((budgetAmount / periods).toFixed(2));
+    // Put any rounding difference in the last period
+    const allocated = amounts.slice(0, -1).reduce((sum, amount) => sum + parseFloat(amount), 0);
+    amounts[periods - 1] = (budgetAmount - allocated).toFixed(2);
+    return amounts;
+  };
+
+  const openPhasingModal = (item: BudgetItem) => {
+    setPhasingItem(item);
+    setPhasingForm({
+      accrualType: item.accrualType,
+      phasing: item.phasing,
+      amounts: item.phasingSchedule
+        ? item.phasingSchedule.map((amount) => amount.toFixed(2))
+        : evenAmounts(item.budgetAmount, item.accrualType),
+      isPayroll: item.isPayroll,
+    });
+  };
+
+  const handleAccrualTypeChange = (accrualType: string) => {
+    if (!phasingItem) return;
+    setPhasingForm({
+      ...phasingForm,
+      accrualType,
+      phasing: accrualType === 'ANNUAL' ? 'EVEN' : phasingForm.phasing,
+      amounts: evenAmounts(phasingItem.budgetAmount, accrualType),
+    });
+  };
+
+  const handleSavePhasing = async () => {
+    if (!phasingItem) return;
+
+    setSavingPhasing(true);
+    try {
+      const res = await fetch(`/api/budget-items/${phasingItem.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          accrualType: phasingForm.accrualType,
+          phasing: phasingForm.phasing,
+          phasingSchedule:
+            phasingForm.phasing === 'CUSTOM'
+              ? phasingForm.amounts.map((amount) => parseFloat(amount) || 0)
+              : null,
+          isPayroll: phasingForm.isPayroll,
+        }),
+      });
+
+      if (res.ok) {
+        setPhasingItem(null);
+        fetchItems();
+      } else {
+        const data = await res.json();
+        alert(data.error || 'Error saving phasing');
+      }
+    } catch (error) {
+      console.error('Error saving phasing:', error);
+      alert('Error saving phasing');
+    } finally {
+      setSavingPhasing(false);
+    }
+  };
+
   const handleSearch = () => {
     setCurrentPage(1);
     fetchItems();
@@ -292,6 +392,12 @@ export default function BudgetItemsPage() {
                            item.accrualType === 'MONTHLY' ? '📆 Monthly' :
                            '📊 Quarterly'}
                         </span>
+                        {item.phasing === 'CUSTOM' && (
+                          <span className="badge badge-info">Custom phasing</span>
+                        )}
+                        {item.isPayroll && (
+                          <span className="badge badge-info">Payroll</span>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-start gap-2 ml-4">
@@ -304,6 +410,17 @@ export default function BudgetItemsPage() {
                           FY {item.fiscalYear}
                         </div>
                       </div>
+                      {canManage && (
+                        <button
+                          onClick={() => openPhasingModal(item)}
+                          className="p-1.5 text-[var(--text-muted)] hover:text-[var(--accent-primary)] hover:bg-[var(--bg-hover)] rounded transition-colors"
+                          title="Edit accrual and phasing"
+                        >
+                          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                            <path d="M2 11a1 1 0 011-1h2a1 1 0 011 1v5a1 1 0 01-1 1H3a1 1 0 01-1-1v-5zM8 7a1 1 0 011-1h2a1 1 0 011 1v9a1 1 0 01-1 1H9a1 1 0 01-1-1V7zM14 4a1 1 0 011-1h2a1 1 0 011 1v12a1 1 0 01-1 1h-2a1 1 0 01-1-1V4z" />
+                          </svg>
+                        </button>
+                      )}
                       {canManage && (
                         <button
                           onClick={() => handleDelete(item)}
@@ -570,6 +687,17 @@ export default function BudgetItemsPage() {
                 </select>
               </div>
 
+              <label className="flex items-center gap-2 text-sm text-[var(--text-primary)]">
+                <input
+                  type="checkbox"
+                  checked={formData.isPayroll}
+                  onChange={(e) =>
+                    setFormData({ ...formData, isPayroll: e.target.checked })
+                  }
+                />
+                Payroll line (receives the department&apos;s posted labor cost)
+              </label>
+
               <div className="flex justify-end space-x-4 mt-6">
                 <button
                   type="button"
@@ -589,6 +717,128 @@ export default function BudgetItemsPage() {
           </div>
         </div>
       )}
+
+      {/* Phasing Modal */}
+      {phasingItem && canManage && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="card w-full max-w-lg max-h-[90vh] overflow-y-auto">
+            <h2 className="text-2xl font-bold text-[var(--text-primary)] mb-1">
+              Accrual &amp; Phasing
+            </h2>
+            <p className="text-sm text-[var(--text-secondary)] mb-4">
+              {phasingItem.code} - ${phasingItem.budgetAmount.toFixed(2)} (FY {phasingItem.fiscalYear})
+            </p>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="form-label">Accrual Type</label>
+                  <select
+                    value={phasingForm.accrualType}
+                    onChange={(e) => handleAccrualTypeChange(e.target.value)}
+                    className="form-input form-select"
+                  >
+                    <option value="ANNUAL">Annual</option>
+                    <option value="MONTHLY">Monthly</option>
+                    <option value="QUARTERLY">Quarterly</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="form-label">Phasing</label>
+                  <select
+                    value={phasingForm.phasing}
+                    onChange={(e) => setPhasingForm({ ...phasingForm, phasing: e.target.value })}
+                    disabled={phasingForm.accrualType === 'ANNUAL'}
+                    className="form-input form-select"
+                  >
+                    <option value="EVEN">Even split</option>
+                    <option value="CUSTOM">Custom amounts</option>
+                  </select>
+                </div>
+              </div>
+
+              {phasingForm.phasing === 'CUSTOM' && phasingForm.accrualType !== 'ANNUAL' && (() => {
+                const labels = getPeriodLabels(phasingForm.accrualType, phasingItem.fiscalYearStart);
+                const total = phasingForm.amounts.reduce((sum, amount) => sum + (parseFloat(amount) || 0), 0);
+                const difference = phasingItem.budgetAmount - total;
+                return (
+                  <div>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                      {labels.map((label, index) => (
+                        <div key={label}>
+                          <label className="text-xs text-[var(--text-secondary)]">{label}</label>
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={phasingForm.amounts[index] ?? ''}
+                            onChange={(e) => {
+                              const amounts = [...phasingForm.amounts];
+                              amounts[index] = e.target.value;
+                              setPhasingForm({ ...phasingForm, amounts });
+                            }}
+                            className="form-input"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex justify-between items-center mt-3 text-sm">
+                      <span className={Math.abs(difference) > 0.005 ? 'text-[var(--error)]' : 'text-[var(--text-secondary)]'}>
+                        Total ${total.toFixed(2)}
+                        {Math.abs(difference) > 0.005 && ` (${difference > 0 ? '$' + difference.toFixed(2) + ' unallocated' : '$' + Math.abs(difference).toFixed(2) + ' over budget'})`}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setPhasingForm({
+                            ...phasingForm,
+                            amounts: evenAmounts(phasingItem.budgetAmount, phasingForm.accrualType),
+                          })
+                        }
+                        className="btn btn-secondary btn-sm"
+                      >
+                        Reset to even
+                      </button>
+                    </div>
+                  </div>
+                );
+              })()}
+
+              <p className="text-xs text-[var(--text-muted)]">
+                Phasing sets how much budget is released in each period. Year-to-date variance compares spending against the phased budget.
+              </p>
+
+              <label className="flex items-center gap-2 text-sm text-[var(--text-primary)]">
+                <input
+                  type="checkbox"
+                  checked={phasingForm.isPayroll}
+                  onChange={(e) => setPhasingForm({ ...phasingForm, isPayroll: e.target.checked })}
+                  disabled={!phasingItem.department}
+                />
+                Payroll line (receives the department&apos;s posted labor cost)
+              </label>
+
+              <div className="flex justify-end space-x-4 mt-6">
+                <button
+                  type="button"
+                  onClick={() => setPhasingItem(null)}
+                  className="btn btn-secondary"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSavePhasing}
+                  disabled={savingPhasing}
+                  className="btn btn-primary"
+                >
+                  {savingPhasing ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
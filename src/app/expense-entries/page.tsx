@@ -0,0 +1,538 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+
+type ExpenseEntry = {
+  id: string;
+  type: 'mileage' | 'per_diem';
+  expenseDate: string;
+  endDate: string | null;
+  description: string | null;
+  startLocation: string | null;
+  endLocation: string | null;
+  odometerStart: number | null;
+  odometerEnd: number | null;
+  distance: number | null;
+  distanceUnit: string | null;
+  location: string | null;
+  days: number | null;
+  rate: number;
+  amount: number;
+  budgetCategoryId: string | null;
+  budgetCategory: { id: string; name: string } | null;
+  expenseReport: { id: string; title: string; status: string } | null;
+};
+
+type Rates = {
+  distanceUnit: 'mi' | 'km';
+  mileageRate: number | null;
+  perDiem: {
+    defaultDailyRate: number;
+    travelDayPercent: number;
+    locations: { name: string; dailyRate: number }[];
+  };
+};
+
+type Category = { id: string; name: string };
+
+const EDITABLE_REPORT_STATUSES = ['draft', 'rejected'];
+
+const formatMoney = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+// Entry dates are stored as UTC midnight
+const formatDate = (value: string) => new Date(value).toLocaleDateString(undefined, { timeZone: 'UTC' });
+
+const toInputDate = (value: string | null) => (value ? value.split('T')[0] : '');
+
+const emptyForm = () => ({
+  type: 'mileage' as 'mileage' | 'per_diem',
+  expenseDate: new Date().toISOString().split('T')[0],
+  endDate: '',
+  description: '',
+  budgetCategoryId: '',
+  startLocation: '',
+  endLocation: '',
+  odometerStart: '',
+  odometerEnd: '',
+  distance: '',
+  location: '',
+});
+
+const toNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+export default function ExpenseEntriesPage() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [entries, setEntries] = useState<ExpenseEntry[]>([]);
+  const [rates, setRates] = useState<Rates | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm());
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const [entriesRes, catRes] = await Promise.all([
+        fetch('/api/expense-entries'),
+        fetch('/api/budget-categories'),
+      ]);
+
+      if (entriesRes.ok) {
+        const data = await entriesRes.json();
+        setEntries(data.entries || []);
+        setRates(data.rates);
+      }
+
+      if (catRes.ok) {
+        const data = await catRes.json();
+        setCategories(data.categories || []);
+      }
+    } catch (error) {
+      console.error('Error fetching expense entries:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+    setError(null);
+    setShowForm(true);
+  };
+
+  const openEdit = (entry: ExpenseEntry) => {
+    setEditingId(entry.id);
+    setForm({
+      type: entry.type,
+      expenseDate: toInputDate(entry.expenseDate),
+      endDate: entry.type === 'per_diem' ? toInputDate(entry.endDate) : '',
+      description: entry.description || '',
+      budgetCategoryId: entry.budgetCategoryId || '',
+      startLocation: entry.startLocation || '',
+      endLocation: entry.endLocation || '',
+      odometerStart: entry.odometerStart?.toString() || '',
+      odometerEnd: entry.odometerEnd?.toString() || '',
+      distance: entry.odometerStart === null ? entry.distance?.toString() || '' : '',
+      location: entry.location || '',
+    });
+    setError(null);
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const payload =
+      form.type === 'mileage'
+        ? {
+            type: form.type,
+            expenseDate: form.expenseDate,
+            description: form.description || null,
+            budgetCategoryId: form.budgetCategoryId || null,
+            startLocation: form.startLocation || null,
+            endLocation: form.endLocation || null,
+            odometerStart: toNumber(form.odometerStart),
+            odometerEnd: toNumber(form.odometerEnd),
+            distance: toNumber(form.distance),
+          }
+        : {
+            type: form.type,
+            expenseDate: form.expenseDate,
+            endDate: form.endDate || null,
+            description: form.description || null,
+            budgetCategoryId: form.budgetCategoryId || null,
+            location: form.location || null,
+          };
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const res = await fetch(editingId ? `/api/expense-entries/${editingId}` : '/api/expense-entries', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to save entry');
+        return;
+      }
+
+      setShowForm(false);
+      await fetchEntries();
+    } catch (error) {
+      console.error('Error saving expense entry:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (entry: ExpenseEntry) => {
+    if (!confirm('Delete this entry?')) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const res = await fetch(`/api/expense-entries/${entry.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || 'Failed to delete entry');
+        return;
+      }
+      await fetchEntries();
+    } catch (error) {
+      console.error('Error deleting expense entry:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const unit = rates?.distanceUnit || 'mi';
+
+  return (
+    <div className="page-container">
+      {/* Page Header */}
+      <header className="page-header animate-fade-in">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="page-title">Mileage &amp; Per Diem</h1>
+            <p className="page-subtitle">
+              Claim business driving and travel days, then add them to an{' '}
+              <Link href="/expense-reports" className="text-[var(--accent-primary)] hover:underline">expense report</Link>
+            </p>
+          </div>
+          <button onClick={openCreate} className="btn btn-primary">
+            New Entry
+          </button>
+        </div>
+      </header>
+
+      {error && !showForm && (
+        <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--error-muted)] bg-[var(--error-subtle)] text-[var(--error)] px-4 py-3">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {/* Current rates */}
+      {rates && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+          <div className="card">
+            <div className="text-sm text-[var(--text-muted)] mb-1">Mileage Rate</div>
+            <div className="text-2xl font-bold text-[var(--text-primary)]">
+              {rates.mileageRate === null ? 'Not set' : `${formatMoney(rates.mileageRate)} / ${unit}`}
+            </div>
+          </div>
+          <div className="card">
+            <div className="text-sm text-[var(--text-muted)] mb-1">Per Diem</div>
+            <div className="text-2xl font-bold text-[var(--text-primary)]">
+              {formatMoney(rates.perDiem.defaultDailyRate)} / day
+            </div>
+            <div className="text-xs text-[var(--text-muted)] mt-1">
+              First and last travel days at {rates.perDiem.travelDayPercent}%
+              {rates.perDiem.locations.length > 0 ? ` · ${rates.perDiem.locations.length} location rate(s)` : ''}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="card animate-fade-in-up" style={{ animationDelay: '50ms' }}>
+        {loading ? (
+          <div className="animate-pulse space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-12 bg-[var(--bg-hover)] rounded"></div>
+            ))}
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="empty-state">
+            <p className="empty-state-title">No entries</p>
+            <p className="empty-state-description">
+              Record a trip or travel days, then add it to an expense report for reimbursement.
+            </p>
+          </div>
+        ) : (
+          <div className="table-container">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Type</th>
+                  <th>Details</th>
+                  <th>Category</th>
+                  <th className="text-right">Amount</th>
+                  <th>Report</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => {
+                  const locked = entry.expenseReport !== null && !EDITABLE_REPORT_STATUSES.includes(entry.expenseReport.status);
+                  return (
+                    <tr key={entry.id}>
+                      <td>
+                        {formatDate(entry.expenseDate)}
+                        {entry.endDate && entry.endDate !== entry.expenseDate ? ` – ${formatDate(entry.endDate)}` : ''}
+                      </td>
+                      <td>{entry.type === 'mileage' ? 'Mileage' : 'Per Diem'}</td>
+                      <td>
+                        <div className="text-[var(--text-primary)]">
+                          {entry.type === 'mileage'
+                            ? [entry.startLocation, entry.endLocation].filter(Boolean).join(' → ') || '—'
+                            : entry.location || 'Default rate'}
+                        </div>
+                        <div className="text-xs text-[var(--text-muted)]">
+                          {entry.type === 'mileage'
+                            ? `${entry.distance} ${entry.distanceUnit} @ ${formatMoney(entry.rate)}`
+                            : `${entry.days} day(s) @ ${formatMoney(entry.rate)}`}
+                          {entry.description ? ` · ${entry.description}` : ''}
+                        </div>
+                      </td>
+                      <td>{entry.budgetCategory?.name || '—'}</td>
+                      <td className="text-right font-mono">{formatMoney(entry.amount)}</td>
+                      <td>
+                        {entry.expenseReport ? (
+                          <Link href={`/expense-reports/${entry.expenseReport.id}`} className="text-[var(--accent-primary)] hover:underline">
+                            {entry.expenseReport.title}
+                          </Link>
+                        ) : (
+                          <span className="text-[var(--text-muted)]">Not claimed</span>
+                        )}
+                      </td>
+                      <td>
+                        {!locked && (
+                          <div className="flex justify-end gap-2">
+                            <button onClick={() => openEdit(entry)} disabled={saving} className="btn btn-secondary btn-sm">
+                              Edit
+                            </button>
+                            <button onClick={() => handleDelete(entry)} disabled={saving} className="btn btn-secondary btn-sm">
+                              Delete
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Entry Modal */}
+      {showForm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4" style={{ background: 'rgba(0,0,0,0.5)' }}>
+          <form onSubmit={handleSubmit} className="card w-full max-w-lg animate-fade-in max-h-[90vh] overflow-y-auto">
+            <h3 className="section-title mb-4">{editingId ? 'Edit Entry' : 'New Entry'}</h3>
+
+            {error && (
+              <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--error-muted)] bg-[var(--error-subtle)] text-[var(--error)] px-4 py-3">
+                <p>{error}</p>
+              </div>
+            )}
+
+            <div className="flex gap-2 mb-4">
+              <button
+                type="button"
+                onClick={() => setForm({ ...form, type: 'mileage' })}
+                className={`btn btn-sm ${form.type === 'mileage' ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                Mileage
+              </button>
+              <button
+                type="button"
+                onClick={() => setForm({ ...form, type: 'per_diem' })}
+                className={`btn btn-sm ${form.type === 'per_diem' ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                Per Diem
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+              <div>
+                <label htmlFor="expenseDate" className="block text-sm font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>
+                  {form.type === 'mileage' ? 'Date' : 'First Travel Day'}
+                </label>
+                <input
+                  id="expenseDate"
+                  type="date"
+                  value={form.expenseDate}
+                  onChange={(e) => setForm({ ...form, expenseDate: e.target.value })}
+                  className="input w-full"
+                  required
+                />
+              </div>
+              {form.type === 'per_diem' && (
+                <div>
+                  <label htmlFor="endDate" className="block text-sm font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>
+                    Last Travel Day
+                  </label>
+                  <input
+                    id="endDate"
+                    type="date"
+                    value={form.endDate}
+                    min={form.expenseDate}
+                    onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                    className="input w-full"
+                  />
+                </div>
+              )}
+            </div>
+
+            {form.type === 'mileage' ? (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+                  <div>
+                    <label htmlFor="startLocation" className="block text-sm font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>
+                      From
+                    </label>
+                    <input
+                      id="startLocation"
+                      value={form.startLocation}
+                      onChange={(e) => setForm({ ...form, startLocation: e.target.value })}
+                      className="input w-full"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="endLocation" className="block text-sm font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>
+                      To
+                    </label>
+                    <input
+                      id="endLocation"
+                      value={form.endLocation}
+                      onChange={(e) => setForm({ ...form, endLocation: e.target.value })}
+                      className="input w-full"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="odometerStart" className="block text-sm font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>
+                      Odometer Start
+                    </label>
+                    <input
+                      id="odometerStart"
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={form.odometerStart}
+                      onChange={(e) => setForm({ ...form, odometerStart: e.target.value })}
+                      className="input w-full"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="odometerEnd" className="block text-sm font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>
+                      Odometer End
+                    </label>
+                    <input
+                      id="odometerEnd"
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={form.odometerEnd}
+                      onChange={(e) => setForm({ ...form, odometerEnd: e.target.value })}
+                      className="input w-full"
+                    />
+                  </div>
+                </div>
+                <div className="mb-4">
+                  <label htmlFor="distance" className="block text-sm font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>
+                    Distance ({unit})
+                  </label>
+                  <input
+                    id="distance"
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={form.distance}
+                    onChange={(e) => setForm({ ...form, distance: e.target.value })}
+                    placeholder="Or enter both odometer readings"
+                    className="input w-full"
+                    disabled={form.odometerStart !== '' && form.odometerEnd !== ''}
+                  />
+                </div>
+              </>
+            ) : (
+              <div className="mb-4">
+                <label htmlFor="location" className="block text-sm font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>
+                  Location
+                </label>
+                {rates && rates.perDiem.locations.length > 0 ? (
+                  <select
+                    id="location"
+                    value={form.location}
+                    onChange={(e) => setForm({ ...form, location: e.target.value })}
+                    className="input w-full"
+                  >
+                    <option value="">Other ({formatMoney(rates.perDiem.defaultDailyRate)} / day)</option>
+                    {rates.perDiem.locations.map((l) => (
+                      <option key={l.name} value={l.name}>
+                        {l.name} ({formatMoney(l.dailyRate)} / day)
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    id="location"
+                    value={form.location}
+                    onChange={(e) => setForm({ ...form, location: e.target.value })}
+                    className="input w-full"
+                  />
+                )}
+              </div>
+            )}
+
+            <div className="mb-4">
+              <label htmlFor="budgetCategoryId" className="block text-sm font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>
+                Budget Category
+              </label>
+              <select
+                id="budgetCategoryId"
+                value={form.budgetCategoryId}
+                onChange={(e) => setForm({ ...form, budgetCategoryId: e.target.value })}
+                className="input w-full"
+              >
+                <option value="">Uncategorized</option>
+                {categories.map((c) => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="mb-4">
+              <label htmlFor="description" className="block text-sm font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>
+                Description
+              </label>
+              <input
+                id="description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="e.g. Site visit at Acme Corp"
+                className="input w-full"
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={() => setShowForm(false)} disabled={saving} className="btn btn-secondary">
+                Cancel
+              </button>
+              <button type="submit" disabled={saving} className="btn btn-primary">
+                {saving ? 'Saving...' : 'Save Entry'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
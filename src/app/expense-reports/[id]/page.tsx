@@ -0,0 +1,749 @@
+'use client';
+
+import { useState, useEffect, useCallback, use } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+
+type ReportReceipt = {
+  id: string;
+  merchantName: string | null;
+  receiptDate: string | null;
+  totalAmount: number | null;
+  currency: string;
+  convertedAmount: number | null;
+  paymentMethod: string;
+  status: string;
+  budgetCategory: { id: string; name: string } | null;
+  policyViolations: { id: string; message: string; policy: { id: string; name: string } }[];
+  duplicateStatus: string | null;
+  duplicateReason: string | null;
+  duplicateOf: { id: string; merchantName: string | null; user: { name: string | null } } | null;
+};
+
+type ReportEntry = {
+  id: string;
+  type: string;
+  expenseDate: string;
+  endDate: string | null;
+  description: string | null;
+  startLocation: string | null;
+  endLocation: string | null;
+  distance: number | null;
+  distanceUnit: string | null;
+  location: string | null;
+  days: number | null;
+  rate: number;
+  amount: number;
+  budgetCategory: { id: string; name: string } | null;
+};
+
+type ExpenseReportDetail = {
+  id: string;
+  userId: string;
+  title: string;
+  businessPurpose: string;
+  status: string;
+  totalAmount: number;
+  reimbursableAmount: number;
+  submittedAt: string | null;
+  reviewedAt: string | null;
+  reviewNote: string | null;
+  reimbursedAt: string | null;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    department: { id: string; name: string } | null;
+  };
+  reviewedBy: { id: string; name: string } | null;
+  receipts: ReportReceipt[];
+  entries: ReportEntry[];
+};
+
+type ReportTotals = {
+  receiptCount: number;
+  entryCount: number;
+  totalAmount: number;
+  reimbursableAmount: number;
+  companyCardAmount: number;
+  missingAmountCount: number;
+  heldDuplicateCount: number;
+};
+
+const STATUS_BADGES: Record<string, string> = {
+  draft: 'badge-neutral',
+  submitted: 'badge-warning',
+  approved: 'badge-success',
+  rejected: 'badge-error',
+  reimbursed: 'badge-info',
+};
+
+const formatMoney = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const receiptAmount = (receipt: ReportReceipt) => receipt.convertedAmount ?? receipt.totalAmount;
+
+const isHeldDuplicate = (receipt: ReportReceipt) =>
+  receipt.duplicateStatus === 'suspected' || receipt.duplicateStatus === 'confirmed';
+
+const describeEntry = (entry: ReportEntry) =>
+  entry.type === 'mileage'
+    ? [entry.startLocation, entry.endLocation].filter(Boolean).join(' → ') || 'Mileage'
+    : entry.location || 'Per diem';
+
+const entryQuantity = (entry: ReportEntry) =>
+  entry.type === 'mileage'
+    ? `${entry.distance} ${entry.distanceUnit} @ ${formatMoney(entry.rate)}`
+    : `${entry.days} day(s) @ ${formatMoney(entry.rate)}`;
+
+export default function ExpenseReportDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [report, setReport] = useState<ExpenseReportDetail | null>(null);
+  const [totals, setTotals] = useState<ReportTotals | null>(null);
+  const [availableReceipts, setAvailableReceipts] = useState<ReportReceipt[]>([]);
+  const [availableEntries, setAvailableEntries] = useState<ReportEntry[]>([]);
+  const [canEdit, setCanEdit] = useState(false);
+  const [canReview, setCanReview] = useState(false);
+
+  // Edit state: title, purpose, the payment method of each included receipt
+  // and the included mileage and per diem entries
+  const [title, setTitle] = useState('');
+  const [businessPurpose, setBusinessPurpose] = useState('');
+  const [included, setIncluded] = useState<Record<string, string>>({});
+  const [includedEntries, setIncludedEntries] = useState<Set<string>>(new Set());
+
+  // Rejection modal
+  const [showReject, setShowReject] = useState(false);
+  const [rejectNote, setRejectNote] = useState('');
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const res = await fetch(`/api/expense-reports/${id}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to load expense report');
+        return;
+      }
+
+      setReport(data.report);
+      setTotals(data.totals);
+      setAvailableReceipts(data.availableReceipts || []);
+      setAvailableEntries(data.availableEntries || []);
+      setCanEdit(data.canEdit);
+      setCanReview(data.canReview);
+      setTitle(data.report.title);
+      setBusinessPurpose(data.report.businessPurpose);
+      setIncluded(
+        Object.fromEntries(data.report.receipts.map((r: ReportReceipt) => [r.id, r.paymentMethod]))
+      );
+      setIncludedEntries(new Set(data.report.entries.map((e: ReportEntry) => e.id)));
+    } catch (error) {
+      console.error('Error fetching expense report:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const toggleReceipt = (receipt: ReportReceipt) => {
+    const next = { ...included };
+    if (next[receipt.id]) {
+      delete next[receipt.id];
+    } else {
+      next[receipt.id] = receipt.paymentMethod || 'personal';
+    }
+    setIncluded(next);
+  };
+
+  const toggleEntry = (entryId: string) => {
+    const next = new Set(includedEntries);
+    if (next.has(entryId)) {
+      next.delete(entryId);
+    } else {
+      next.add(entryId);
+    }
+    setIncludedEntries(next);
+  };
+
+  const saveReport = async (): Promise<boolean> => {
+    const res = await fetch(`/api/expense-reports/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        title,
+        businessPurpose,
+        receipts: Object.entries(included).map(([receiptId, paymentMethod]) => ({ id: receiptId, paymentMethod })),
+        entryIds: Array.from(includedEntries),
+      }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setError(data.error || 'Failed to save expense report');
+      return false;
+    }
+    return true;
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      if (await saveReport()) {
+        await fetchReport();
+      }
+    } catch (error) {
+      console.error('Error saving expense report:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!confirm('Submit this report for approval? You cannot change it while it is being reviewed.')) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      if (!(await saveReport())) return;
+
+      const res = await fetch(`/api/expense-reports/${id}/submit`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to submit expense report');
+      }
+      await fetchReport();
+    } catch (error) {
+      console.error('Error submitting expense report:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Delete this expense report? Its receipts and entries are kept.')) return;
+
+    try {
+      setSaving(true);
+      const res = await fetch(`/api/expense-reports/${id}`, { method: 'DELETE' });
+      if (res.ok) {
+        router.push('/expense-reports');
+      } else {
+        const data = await res.json();
+        setError(data.error || 'Failed to delete expense report');
+      }
+    } catch (error) {
+      console.error('Error deleting expense report:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleApprove = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const res = await fetch(`/api/expense-reports/${id}/approve`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to approve expense report');
+        return;
+      }
+      await fetchReport();
+    } catch (error) {
+      console.error('Error approving expense report:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleResolveDuplicate = async (receiptId: string, resolution: 'confirmed' | 'dismissed') => {
+    try {
+      setSaving(true);
+      setError(null);
+      const res = await fetch(`/api/receipts/${receiptId}/duplicate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resolution }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to resolve duplicate receipt');
+        return;
+      }
+      await fetchReport();
+    } catch (error) {
+      console.error('Error resolving duplicate receipt:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirmReject = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const res = await fetch(`/api/expense-reports/${id}/reject`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rejectedNote: rejectNote.trim() || undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to reject expense report');
+        return;
+      }
+      setShowReject(false);
+      setRejectNote('');
+      await fetchReport();
+    } catch (error) {
+      console.error('Error rejecting expense report:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading && !report) {
+    return (
+      <div className="page-container">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-[var(--bg-hover)] rounded w-64"></div>
+          <div className="h-40 bg-[var(--bg-hover)] rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!report) {
+    return (
+      <div className="page-container">
+        <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--error-muted)] bg-[var(--error-subtle)] text-[var(--error)] px-4 py-3">
+          <p>{error || 'Expense report not found'}</p>
+        </div>
+        <Link href="/expense-reports" className="btn btn-secondary">Back to Expense Reports</Link>
+      </div>
+    );
+  }
+
+  const receiptRows = canEdit ? [...report.receipts, ...availableReceipts] : report.receipts;
+  const entryRows = canEdit ? [...report.entries, ...availableEntries] : report.entries;
+  const flaggedReceipts = report.receipts.filter((r) => r.policyViolations.length > 0);
+  const duplicateReceipts = report.receipts.filter(isHeldDuplicate);
+
+  return (
+    <div className="page-container">
+      {/* Page Header */}
+      <header className="page-header animate-fade-in">
+        <div className="text-sm text-[var(--text-muted)] mb-2">
+          <Link href="/expense-reports" className="hover:underline">Expense Reports</Link> / {report.title}
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="page-title">{report.title}</h1>
+            <p className="page-subtitle">
+              {report.user.name}
+              {report.user.department ? ` · ${report.user.department.name}` : ''}
+              {' · '}
+              <span className={`badge ${STATUS_BADGES[report.status] || 'badge-neutral'}`}>{report.status}</span>
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {canEdit && (
+              <>
+                <button onClick={handleDelete} disabled={saving} className="btn btn-secondary">
+                  Delete
+                </button>
+                <button onClick={handleSave} disabled={saving} className="btn btn-secondary">
+                  Save Draft
+                </button>
+                <button onClick={handleSubmit} disabled={saving} className="btn btn-primary">
+                  Submit for Approval
+                </button>
+              </>
+            )}
+            {canReview && (
+              <>
+                <button onClick={() => setShowReject(true)} disabled={saving} className="btn btn-secondary">
+                  Reject
+                </button>
+                <button onClick={handleApprove} disabled={saving} className="btn btn-primary">
+                  Approve
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </header>
+
+      {error && (
+        <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--error-muted)] bg-[var(--error-subtle)] text-[var(--error)] px-4 py-3">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {report.status === 'rejected' && (
+        <div className="card mb-4">
+          <p className="font-medium text-[var(--text-primary)]">
+            Rejected by {report.reviewedBy?.name || 'a manager'}
+          </p>
+          <p className="text-sm text-[var(--text-secondary)]">
+            {report.reviewNote || 'No reason given.'} Fix the report and submit it again.
+          </p>
+        </div>
+      )}
+
+      {/* Totals */}
+      {totals && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+          <div className="card">
+            <div className="text-sm text-[var(--text-muted)] mb-1">Report Total</div>
+            <div className="text-2xl font-bold text-[var(--text-primary)]">{formatMoney(totals.totalAmount)}</div>
+            <div className="text-xs text-[var(--text-muted)] mt-1">
+              {totals.receiptCount} receipt(s)
+              {totals.entryCount > 0 ? `, ${totals.entryCount} mileage/per diem` : ''}
+              {totals.heldDuplicateCount > 0 ? `, ${totals.heldDuplicateCount} held as duplicate` : ''}
+            </div>
+          </div>
+          <div className="card">
+            <div className="text-sm text-[var(--text-muted)] mb-1">Company Card</div>
+            <div className="text-2xl font-bold text-[var(--text-primary)]">{formatMoney(totals.companyCardAmount)}</div>
+          </div>
+          <div className="card">
+            <div className="text-sm text-[var(--text-muted)] mb-1">Reimbursement Due</div>
+            <div className="text-2xl font-bold text-[var(--text-primary)]">{formatMoney(totals.reimbursableAmount)}</div>
+            <div className="text-xs text-[var(--text-muted)] mt-1">
+              {report.status === 'reimbursed' && report.reimbursedAt
+                ? `Paid ${new Date(report.reimbursedAt).toLocaleDateString()}`
+                : report.status === 'approved'
+                  ? 'Approved, awaiting payment'
+                  : 'Paid personally'}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Suspected duplicates */}
+      {duplicateReceipts.length > 0 && (
+        <div className="card mb-6 border border-[var(--warning-muted)]">
+          <h2 className="section-title mb-2">Possible Duplicates</h2>
+          <p className="text-sm text-[var(--text-secondary)] mb-4">
+            {canReview
+              ? 'These receipts match one uploaded earlier and are left out of the totals. Resolve each before approving.'
+              : 'These receipts match one uploaded earlier and are left out of the totals until a reviewer resolves them.'}
+          </p>
+          <ul className="space-y-3">
+            {duplicateReceipts.map((receipt) => (
+              <li
+                key={receipt.id}
+                className="border-l-2 border-[var(--warning-muted)] pl-3 flex flex-wrap items-start justify-between gap-2"
+              >
+                <div>
+                  <Link href={`/receipts/${receipt.id}`} className="font-medium text-[var(--accent-primary)] hover:underline">
+                    {receipt.merchantName || 'Unknown merchant'}
+                  </Link>
+                  {receipt.duplicateStatus === 'confirmed' && <span className="badge badge-error ml-2">Duplicate</span>}
+                  <p className="text-sm text-[var(--text-secondary)]">
+                    {receipt.duplicateReason || 'Matches another receipt'}
+                    {receipt.duplicateOf && (
+                      <>
+                        {' as '}
+                        <Link href={`/receipts/${receipt.duplicateOf.id}`} className="text-[var(--accent-primary)] hover:underline">
+                          {receipt.duplicateOf.merchantName || 'the original'}
+                        </Link>
+                        {` from ${receipt.duplicateOf.user.name || 'another user'}`}
+                      </>
+                    )}
+                  </p>
+                </div>
+                {canReview && receipt.duplicateStatus === 'suspected' && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleResolveDuplicate(receipt.id, 'dismissed')}
+                      disabled={saving}
+                      className="btn btn-secondary btn-sm"
+                    >
+                      Not a Duplicate
+                    </button>
+                    <button
+                      onClick={() => handleResolveDuplicate(receipt.id, 'confirmed')}
+                      disabled={saving}
+                      className="btn btn-danger btn-sm"
+                    >
+                      Confirm Duplicate
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Policy violations */}
+      {flaggedReceipts.length > 0 && (
+        <div className="card mb-6 border border-[var(--warning-muted)]">
+          <h2 className="section-title mb-2">Policy Violations</h2>
+          <p className="text-sm text-[var(--text-secondary)] mb-4">
+            {canReview
+              ? 'These receipts break an expense policy. Check the business purpose covers them before approving.'
+              : 'These receipts break an expense policy. Explain them in the business purpose or the receipt notes.'}
+          </p>
+          <ul className="space-y-3">
+            {flaggedReceipts.map((receipt) => (
+              <li key={receipt.id} className="border-l-2 border-[var(--warning-muted)] pl-3">
+                <Link href={`/receipts/${receipt.id}`} className="font-medium text-[var(--accent-primary)] hover:underline">
+                  {receipt.merchantName || 'Unknown merchant'}
+                </Link>
+                <ul className="text-sm text-[var(--text-secondary)]">
+                  {receipt.policyViolations.map((violation) => (
+                    <li key={violation.id}>
+                      <span className="text-[var(--text-primary)]">{violation.policy.name}:</span> {violation.message}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Details */}
+      <div className="card mb-6">
+        {canEdit ? (
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="title" className="block text-sm font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>
+                Title
+              </label>
+              <input id="title" value={title} onChange={(e) => setTitle(e.target.value)} className="input w-full" />
+            </div>
+            <div>
+              <label htmlFor="purpose" className="block text-sm font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>
+                Business Purpose
+              </label>
+              <textarea
+                id="purpose"
+                value={businessPurpose}
+                onChange={(e) => setBusinessPurpose(e.target.value)}
+                className="input w-full h-24 resize-none"
+              />
+            </div>
+          </div>
+        ) : (
+          <div>
+            <div className="text-sm text-[var(--text-muted)] mb-1">Business Purpose</div>
+            <p className="text-[var(--text-primary)] whitespace-pre-wrap">{report.businessPurpose}</p>
+            {report.submittedAt && (
+              <p className="text-xs text-[var(--text-muted)] mt-3">
+                Submitted {new Date(report.submittedAt).toLocaleString()}
+                {report.reviewedBy && report.reviewedAt && report.status !== 'rejected'
+                  ? ` · Approved by ${report.reviewedBy.name} ${new Date(report.reviewedAt).toLocaleString()}`
+                  : ''}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Receipts */}
+      <div className="card">
+        <h2 className="section-title mb-4">Receipts</h2>
+        {canEdit && (
+          <p className="text-sm text-[var(--text-secondary)] mb-4">
+            Tick the receipts to claim and say how each was paid. Only receipts paid personally are reimbursed.
+          </p>
+        )}
+        {receiptRows.length === 0 ? (
+          <div className="empty-state">
+            <p className="empty-state-title">No receipts</p>
+            <p className="empty-state-description">
+              {canEdit ? (
+                <>Upload receipts on the <Link href="/receipts" className="text-[var(--accent-primary)] hover:underline">Receipts</Link> page first.</>
+              ) : (
+                'This report has no receipts.'
+              )}
+            </p>
+          </div>
+        ) : (
+          <div className="table-container">
+            <table className="table">
+              <thead>
+                <tr>
+                  {canEdit && <th></th>}
+                  <th>Merchant</th>
+                  <th>Date</th>
+                  <th>Category</th>
+                  <th className="text-right">Amount</th>
+                  <th>Paid With</th>
+                </tr>
+              </thead>
+              <tbody>
+                {receiptRows.map((receipt) => {
+                  const isIncluded = canEdit ? !!included[receipt.id] : true;
+                  const amount = receiptAmount(receipt);
+                  return (
+                    <tr key={receipt.id} className={isIncluded ? '' : 'opacity-60'}>
+                      {canEdit && (
+                        <td>
+                          <input type="checkbox" checked={isIncluded} onChange={() => toggleReceipt(receipt)} />
+                        </td>
+                      )}
+                      <td>
+                        <Link href={`/receipts/${receipt.id}`} className="text-[var(--accent-primary)] hover:underline">
+                          {receipt.merchantName || 'Unknown merchant'}
+                        </Link>
+                        {receipt.policyViolations.length > 0 && (
+                          <span
+                            className="badge badge-warning ml-2"
+                            title={receipt.policyViolations.map((v) => v.message).join('\n')}
+                          >
+                            {receipt.policyViolations.length} policy flag{receipt.policyViolations.length !== 1 ? 's' : ''}
+                          </span>
+                        )}
+                        {isHeldDuplicate(receipt) && (
+                          <span className="badge badge-warning ml-2">
+                            {receipt.duplicateStatus === 'confirmed' ? 'Duplicate' : 'Possible duplicate'}
+                          </span>
+                        )}
+                      </td>
+                      <td>{receipt.receiptDate ? new Date(receipt.receiptDate).toLocaleDateString() : '—'}</td>
+                      <td>{receipt.budgetCategory?.name || '—'}</td>
+                      <td className="text-right font-mono">
+                        {amount === null ? (
+                          <span className="text-[var(--error)]">Missing</span>
+                        ) : isHeldDuplicate(receipt) ? (
+                          <span className="line-through text-[var(--text-muted)]" title="Not counted while held as a duplicate">
+                            {formatMoney(amount)}
+                          </span>
+                        ) : (
+                          formatMoney(amount)
+                        )}
+                        {receipt.convertedAmount !== null && receipt.totalAmount !== null && (
+                          <div className="text-xs text-[var(--text-muted)]">
+                            {receipt.totalAmount.toFixed(2)} {receipt.currency}
+                          </div>
+                        )}
+                      </td>
+                      <td>
+                        {canEdit && isIncluded ? (
+                          <select
+                            value={included[receipt.id]}
+                            onChange={(e) => setIncluded({ ...included, [receipt.id]: e.target.value })}
+                            className="input"
+                          >
+                            <option value="personal">Personal (reimburse me)</option>
+                            <option value="company_card">Company card</option>
+                          </select>
+                        ) : isIncluded ? (
+                          receipt.paymentMethod === 'company_card' ? 'Company card' : 'Personal'
+                        ) : (
+                          '—'
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Mileage and per diem */}
+      {entryRows.length > 0 && (
+        <div className="card mt-6">
+          <h2 className="section-title mb-4">Mileage &amp; Per Diem</h2>
+          {canEdit && (
+            <p className="text-sm text-[var(--text-secondary)] mb-4">
+              Tick the entries to claim. Add new ones on the{' '}
+              <Link href="/expense-entries" className="text-[var(--accent-primary)] hover:underline">Mileage &amp; Per Diem</Link> page.
+            </p>
+          )}
+          <div className="table-container">
+            <table className="table">
+              <thead>
+                <tr>
+                  {canEdit && <th></th>}
+                  <th>Type</th>
+                  <th>Details</th>
+                  <th>Date</th>
+                  <th>Category</th>
+                  <th className="text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entryRows.map((entry) => {
+                  const isIncluded = canEdit ? includedEntries.has(entry.id) : true;
+                  return (
+                    <tr key={entry.id} className={isIncluded ? '' : 'opacity-60'}>
+                      {canEdit && (
+                        <td>
+                          <input type="checkbox" checked={isIncluded} onChange={() => toggleEntry(entry.id)} />
+                        </td>
+                      )}
+                      <td>{entry.type === 'mileage' ? 'Mileage' : 'Per Diem'}</td>
+                      <td>
+                        <div className="text-[var(--text-primary)]">{describeEntry(entry)}</div>
+                        <div className="text-xs text-[var(--text-muted)]">{entryQuantity(entry)}</div>
+                      </td>
+                      <td>
+                        {new Date(entry.expenseDate).toLocaleDateString(undefined, { timeZone: 'UTC' })}
+                        {entry.endDate && entry.endDate !== entry.expenseDate
+                          ? ` – ${new Date(entry.endDate).toLocaleDateString(undefined, { timeZone: 'UTC' })}`
+                          : ''}
+                      </td>
+                      <td>{entry.budgetCategory?.name || '—'}</td>
+                      <td className="text-right font-mono">{formatMoney(entry.amount)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Reject Modal */}
+      {showReject && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4" style={{ background: 'rgba(0,0,0,0.5)' }}>
+          <div className="card w-full max-w-md animate-fade-in">
+            <h3 className="section-title mb-4">Reject Expense Report</h3>
+            <p className="text-sm mb-4" style={{ color: 'var(--text-secondary)' }}>
+              The report goes back to {report.user.name} to fix and resubmit. Optionally explain what needs to change.
+            </p>
+            <textarea
+              value={rejectNote}
+              onChange={(e) => setRejectNote(e.target.value)}
+              placeholder="Enter reason for rejection..."
+              className="input w-full h-24 resize-none mb-4"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setShowReject(false)} disabled={saving} className="btn btn-secondary">
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmReject}
+                disabled={saving}
+                className="btn"
+                style={{ background: 'var(--error)', color: 'white' }}
+              >
+                {saving ? 'Rejecting...' : 'Confirm Reject'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+
+type ExpenseReport = {
+  id: string;
+  title: string;
+  businessPurpose: string;
+  status: string;
+  totalAmount: number;
+  reimbursableAmount: number;
+  submittedAt: string | null;
+  reviewedAt: string | null;
+  reviewNote: string | null;
+  reimbursedAt: string | null;
+  createdAt: string;
+  user?: {
+    id: string;
+    name: string;
+    email: string;
+    department: { id: string; name: string } | null;
+  };
+  reviewedBy: { id: string; name: string } | null;
+  _count: { receipts: number; entries: number };
+};
+
+const STATUS_BADGES: Record<string, string> = {
+  draft: 'badge-neutral',
+  submitted: 'badge-warning',
+  approved: 'badge-success',
+  rejected: 'badge-error',
+  reimbursed: 'badge-info',
+};
+
+const formatMoney = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '—');
+
+export default function ExpenseReportsPage() {
+  const router = useRouter();
+  const [tab, setTab] = useState<'mine' | 'team'>('mine');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [reports, setReports] = useState<ExpenseReport[]>([]);
+  const [teamReports, setTeamReports] = useState<ExpenseReport[]>([]);
+  const [canViewTeam, setCanViewTeam] = useState(false);
+  const [canExport, setCanExport] = useState(false);
+  const [statusFilter, setStatusFilter] = useState('submitted');
+  const [marking, setMarking] = useState<string | null>(null);
+
+  // New report form
+  const [showCreate, setShowCreate] = useState(false);
+  const [title, setTitle] = useState('');
+  const [businessPurpose, setBusinessPurpose] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const fetchReports = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const params = new URLSearchParams({ scope: 'team' });
+      if (statusFilter !== 'all') {
+        params.set('status', statusFilter);
+      }
+
+      const [mineRes, teamRes] = await Promise.all([
+        fetch('/api/expense-reports'),
+        fetch(`/api/expense-reports?${params}`),
+      ]);
+
+      if (mineRes.ok) {
+        const data = await mineRes.json();
+        setReports(data.reports || []);
+      }
+
+      if (teamRes.ok) {
+        const data = await teamRes.json();
+        setTeamReports(data.reports || []);
+        setCanViewTeam(true);
+        setCanExport(data.canExport === true);
+      } else {
+        setCanViewTeam(false);
+      }
+    } catch (error) {
+      console.error('Error fetching expense reports:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setCreating(true);
+      setError(null);
+
+      const res = await fetch('/api/expense-reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title, businessPurpose }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to create expense report');
+        return;
+      }
+
+      router.push(`/expense-reports/${data.report.id}`);
+    } catch (error) {
+      console.error('Error creating expense report:', error);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleMarkReimbursed = async (report: ExpenseReport) => {
+    if (!confirm(`Mark ${formatMoney(report.reimbursableAmount)} as paid to ${report.user?.name}?`)) return;
+
+    try {
+      setMarking(report.id);
+      setError(null);
+
+      const res = await fetch('/api/expense-reports/reimburse', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reportIds: [report.id] }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to mark expense report reimbursed');
+        return;
+      }
+
+      await fetchReports();
+    } catch (error) {
+      console.error('Error marking expense report reimbursed:', error);
+    } finally {
+      setMarking(null);
+    }
+  };
+
+  const visible = tab === 'mine' ? reports : teamReports;
+
+  return (
+    <div className="page-container">
+      {/* Page Header */}
+      <header className="page-header animate-fade-in">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="page-title">Expense Reports</h1>
+            <p className="page-subtitle">Bundle receipts you paid for and submit them for reimbursement</p>
+          </div>
+          <div className="flex items-center gap-2">
+            {canExport && (
+              <button
+                onClick={() => { window.location.href = '/api/expense-reports/export'; }}
+                className="btn btn-secondary"
+              >
+                Export Approved for AP
+              </button>
+            )}
+            <button onClick={() => setShowCreate(true)} className="btn btn-primary">
+              New Report
+            </button>
+          </div>
+        </div>
+      </header>
+
+      {error && (
+        <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--error-muted)] bg-[var(--error-subtle)] text-[var(--error)] px-4 py-3">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {canViewTeam && (
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-4">
+          <div className="flex gap-2">
+            <button
+              onClick={() => setTab('mine')}
+              className={`btn btn-sm ${tab === 'mine' ? 'btn-primary' : 'btn-secondary'}`}
+            >
+              My Reports
+            </button>
+            <button
+              onClick={() => setTab('team')}
+              className={`btn btn-sm ${tab === 'team' ? 'btn-primary' : 'btn-secondary'}`}
+            >
+              Team Reports
+            </button>
+          </div>
+          {tab === 'team' && (
+            <div>
+              <label htmlFor="reportStatus" className="block text-sm font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>
+                Status
+              </label>
+              <select
+                id="reportStatus"
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value)}
+                className="input"
+              >
+                <option value="submitted">Awaiting approval</option>
+                <option value="approved">Approved</option>
+                <option value="rejected">Rejected</option>
+                <option value="reimbursed">Reimbursed</option>
+                <option value="all">All</option>
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="card animate-fade-in-up" style={{ animationDelay: '50ms' }}>
+        {loading ? (
+          <div className="animate-pulse space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-12 bg-[var(--bg-hover)] rounded"></div>
+            ))}
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="empty-state">
+            <p className="empty-state-title">No expense reports</p>
+            <p className="empty-state-description">
+              {tab === 'mine'
+                ? 'Start a report, add the receipts you paid for, and submit it to your manager.'
+                : 'No team reports match this filter.'}
+            </p>
+          </div>
+        ) : (
+          <div className="table-container">
+            <table className="table">
+              <thead>
+                <tr>
+                  {tab === 'team' && <th>Employee</th>}
+                  <th>Report</th>
+                  <th>Items</th>
+                  <th className="text-right">Total</th>
+                  <th className="text-right">Reimbursement Due</th>
+                  <th>Submitted</th>
+                  <th>Status</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((report) => (
+                  <tr key={report.id}>
+                    {tab === 'team' && (
+                      <td>
+                        <div className="font-medium text-[var(--text-primary)]">{report.user?.name}</div>
+                        <div className="text-xs text-[var(--text-muted)]">
+                          {report.user?.department?.name || 'No department'}
+                        </div>
+                      </td>
+                    )}
+                    <td>
+                      <Link href={`/expense-reports/${report.id}`} className="font-medium text-[var(--accent-primary)] hover:underline">
+                        {report.title}
+                      </Link>
+                      <div className="text-xs text-[var(--text-muted)]">{report.businessPurpose}</div>
+                    </td>
+                    <td>{report._count.receipts + report._count.entries}</td>
+                    <td className="text-right font-mono">{formatMoney(report.totalAmount)}</td>
+                    <td className="text-right font-mono">{formatMoney(report.reimbursableAmount)}</td>
+                    <td>{formatDate(report.submittedAt)}</td>
+                    <td>
+                      <span className={`badge ${STATUS_BADGES[report.status] || 'badge-neutral'}`}>
+                        {report.status}
+                      </span>
+                      {report.reviewedBy && (
+                        <div className="text-xs text-[var(--text-muted)] mt-1">by {report.reviewedBy.name}</div>
+                      )}
+                      {report.status === 'rejected' && report.reviewNote && (
+                        <div className="text-xs text-[var(--text-muted)]">{report.reviewNote}</div>
+                      )}
+                    </td>
+                    <td>
+                      <div className="flex justify-end gap-2">
+                        {tab === 'team' && canExport && report.status === 'approved' && (
+                          <button
+                            onClick={() => handleMarkReimbursed(report)}
+                            disabled={marking !== null}
+                            className="btn btn-secondary btn-sm"
+                          >
+                            Mark Paid
+                          </button>
+                        )}
+                        <Link href={`/expense-reports/${report.id}`} className="btn btn-secondary btn-sm">
+                          {tab === 'team' && report.status === 'submitted' ? 'Review' : 'Open'}
+                        </Link>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* New Report Modal */}
+      {showCreate && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4" style={{ background: 'rgba(0,0,0,0.5)' }}>
+          <form onSubmit={handleCreate} className="card w-full max-w-md animate-fade-in">
+            <h3 className="section-title mb-4">New Expense Report</h3>
+            <label htmlFor="reportTitle" className="block text-sm font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>
+              Title
+            </label>
+            <input
+              id="reportTitle"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Chicago client visit"
+              className="input w-full mb-4"
+              required
+              autoFocus
+            />
+            <label htmlFor="reportPurpose" className="block text-sm font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>
+              Business Purpose
+            </label>
+            <textarea
+              id="reportPurpose"
+              value={businessPurpose}
+              onChange={(e) => setBusinessPurpose(e.target.value)}
+              placeholder="Why were these expenses incurred?"
+              className="input w-full h-24 resize-none mb-4"
+              required
+            />
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={() => setShowCreate(false)} disabled={creating} className="btn btn-secondary">
+                Cancel
+              </button>
+              <button type="submit" disabled={creating} className="btn btn-primary">
+                {creating ? 'Creating...' : 'Create and Add Receipts'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
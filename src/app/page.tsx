@@ -4,6 +4,7 @@ import { useSession } from 'next-auth/react';
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import Link from 'next/link';
 import { OvertimeAlertBanner } from '@/components/OvertimeAlertBanner';
+import { getBrowserPosition } from '@/lib/geolocation';
 
 type PayPeriod = {
   startDate: string;
@@ -36,6 +37,7 @@ type PeriodStats = {
   totalMinutes: number;
   regularMinutes: number;
   dailyOvertimeMinutes: number;
+  doubleTimeMinutes: number;
   weeklyOvertimeMinutes: number;
   sessionsCompleted: number;
   pendingCount: number;
@@ -72,6 +74,7 @@ export default function TimeclockPage() {
   const [submittingAll, setSubmittingAll] = useState(false);
   const [statusFilter, setStatusFilter] = useState<string | null>(null);
   const [periodDropdownOpen, setPeriodDropdownOpen] = useState(false);
+  const [punchLocationRequired, setPunchLocationRequired] = useState(false);
   const periodDropdownRef = useRef<HTMLDivElement>(null);
   const entriesRef = useRef<HTMLDivElement>(null);
 
@@ -136,6 +139,7 @@ export default function TimeclockPage() {
       setAvailablePeriods(data.availablePeriods || []);
       setPeriodStats(data.periodStats || null);
       setTodayStats(data.todayStats || null);
+      setPunchLocationRequired(!!data.punchLocationRequired);
     } catch (error) {
       console.error('Error fetching entries:', error);
     } finally {
@@ -163,12 +167,18 @@ export default function TimeclockPage() {
   const handleClockIn = async () => {
     setIsClocking(true);
     try {
+      const position = punchLocationRequired ? await getBrowserPosition() : null;
       const res = await fetch('/api/timeclock/clock-in', {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...position }),
       });
       if (res.ok) {
         await fetchEntries();
         refreshAlerts();
+      } else {
+        const data = await res.json();
+        alert(data.error || 'Failed to clock in');
       }
     } catch (error) {
       console.error('Error clocking in:', error);
@@ -181,12 +191,18 @@ export default function TimeclockPage() {
     if (!activeEntry) return;
     setIsClocking(true);
     try {
+      const position = punchLocationRequired ? await getBrowserPosition() : null;
       const res = await fetch('/api/timeclock/clock-out', {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...position }),
       });
       if (res.ok) {
         await fetchEntries();
         refreshAlerts();
+      } else {
+        const data = await res.json();
+        alert(data.error || 'Failed to clock out');
       }
     } catch (error) {
       console.error('Error clocking out:', error);
@@ -247,6 +263,11 @@ export default function TimeclockPage() {
     return `${hours}h ${mins}m`;
   };
 
+  const periodOvertimeMinutes =
+    (periodStats?.dailyOvertimeMinutes || 0) +
+    (periodStats?.doubleTimeMinutes || 0) +
+    (periodStats?.weeklyOvertimeMinutes || 0);
+
   const getCurrentDuration = () => {
     if (!activeEntry) return 0;
     const start = new Date(activeEntry.clockIn);
@@ -502,11 +523,11 @@ export default function TimeclockPage() {
             className="stat-icon"
             style={{
               background:
-                (periodStats?.dailyOvertimeMinutes || 0) + (periodStats?.weeklyOvertimeMinutes || 0) > 0
+                periodOvertimeMinutes > 0
                   ? 'var(--warning-bg, rgba(234, 179, 8, 0.1))'
                   : 'var(--bg-surface)',
               color:
-                (periodStats?.dailyOvertimeMinutes || 0) + (periodStats?.weeklyOvertimeMinutes || 0) > 0
+                periodOvertimeMinutes > 0
                   ? 'var(--warning)'
                   : 'var(--text-secondary)',
             }}
@@ -516,9 +537,14 @@ export default function TimeclockPage() {
             </svg>
           </div>
           <div className="stat-value font-mono">
-            {formatMinutes((periodStats?.dailyOvertimeMinutes || 0) + (periodStats?.weeklyOvertimeMinutes || 0))}
+            {formatMinutes(periodOvertimeMinutes)}
           </div>
           <div className="stat-label">Period Overtime</div>
+          {(periodStats?.doubleTimeMinutes || 0) > 0 && (
+            <div className="text-xs text-[var(--text-muted)] mt-1">
+              incl. {formatMinutes(periodStats?.doubleTimeMinutes || 0)} double time
+            </div>
+          )}
         </div>
       </div>
 
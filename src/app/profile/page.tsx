@@ -3,6 +3,30 @@
 import { useSession } from 'next-auth/react';
 import { useState, useEffect } from 'react';
 
+type PtoBalance = {
+  policy: { id: string; name: string; accrualMethod: string; accrualRate: number } | null;
+  balance: number;
+  pendingHours: number;
+  available: number;
+};
+
+type LeaveRequest = {
+  id: string;
+  startDate: string;
+  endDate: string;
+  hours: number;
+  reason: string | null;
+  status: string;
+  reviewNote: string | null;
+};
+
+const LEAVE_STATUS_BADGES: Record<string, string> = {
+  pending: 'badge-warning',
+  approved: 'badge-success',
+  rejected: 'badge-error',
+  cancelled: 'badge-neutral',
+};
+
 export default function ProfilePage() {
   const { data: session } = useSession();
   const [profile, setProfile] = useState<{
@@ -23,6 +47,14 @@ export default function ProfilePage() {
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
 
+  // Paid time off
+  const [pto, setPto] = useState<PtoBalance | null>(null);
+  const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
+  const [leaveStart, setLeaveStart] = useState('');
+  const [leaveEnd, setLeaveEnd] = useState('');
+  const [leaveHours, setLeaveHours] = useState('');
+  const [leaveReason, setLeaveReason] = useState('');
+
   useEffect(() => {
     fetchProfile();
   }, []);
@@ -42,6 +74,13 @@ export default function ProfilePage() {
         const data = await res.json();
         setProfile(data.user);
         setName(data.user.name);
+        setPto(data.pto || null);
+      }
+
+      const leaveRes = await fetch('/api/timeclock/pto/requests');
+      if (leaveRes.ok) {
+        const leaveData = await leaveRes.json();
+        setLeaveRequests(leaveData.requests || []);
       }
     } catch (error) {
       console.error('Error fetching profile:', error);
@@ -117,6 +156,64 @@ export default function ProfilePage() {
     }
   }
 
+  async function handleRequestLeave(e: React.FormEvent) {
+    e.preventDefault();
+    setFeedback(null);
+    setSaving(true);
+
+    try {
+      const res = await fetch('/api/timeclock/pto/requests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          startDate: new Date(`${leaveStart}T00:00`).toISOString(),
+          endDate: new Date(`${leaveEnd || leaveStart}T00:00`).toISOString(),
+          hours: parseFloat(leaveHours),
+          reason: leaveReason || undefined,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        setFeedback({ type: 'error', message: data.error });
+        return;
+      }
+
+      setFeedback({ type: 'success', message: 'Leave requested' });
+      setLeaveStart('');
+      setLeaveEnd('');
+      setLeaveHours('');
+      setLeaveReason('');
+      await fetchProfile();
+    } catch {
+      setFeedback({ type: 'error', message: 'Failed to request leave' });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleCancelLeave(request: LeaveRequest) {
+    if (!confirm('Cancel this leave request?')) return;
+
+    try {
+      const res = await fetch(`/api/timeclock/pto/requests/${request.id}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok) {
+        setFeedback({ type: 'error', message: data.error });
+        return;
+      }
+      await fetchProfile();
+    } catch {
+      setFeedback({ type: 'error', message: 'Failed to cancel leave request' });
+    }
+  }
+
+  const formatLeaveDates = (request: LeaveRequest) => {
+    const start = new Date(request.startDate).toLocaleDateString();
+    const end = new Date(request.endDate).toLocaleDateString();
+    return start === end ? start : `${start} – ${end}`;
+  };
+
   if (loading) {
     return (
       <div className="page-container">
@@ -177,6 +274,127 @@ export default function ProfilePage() {
         </div>
       </div>
 
+      {/* Paid Time Off Card */}
+      <div className="card p-6 mb-6">
+        <h2 className="text-lg font-semibold text-[var(--text-primary)] mb-4">Paid Time Off</h2>
+        {!pto?.policy ? (
+          <p className="text-sm text-[var(--text-secondary)]">
+            You are not on a PTO policy. Ask your administrator if you expect to accrue paid time off.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+              <div>
+                <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1">Balance</label>
+                <p className="text-2xl font-mono text-[var(--text-primary)]">{pto.balance.toFixed(2)} hrs</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1">Pending Requests</label>
+                <p className="text-2xl font-mono text-[var(--text-primary)]">{pto.pendingHours.toFixed(2)} hrs</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1">Policy</label>
+                <p className="text-[var(--text-primary)]">{pto.policy.name}</p>
+              </div>
+            </div>
+
+            <form onSubmit={handleRequestLeave} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 items-end mb-6">
+              <div>
+                <label htmlFor="leaveStart" className="block text-sm font-medium text-[var(--text-secondary)] mb-1">
+                  First Day
+                </label>
+                <input
+                  id="leaveStart"
+                  type="date"
+                  value={leaveStart}
+                  onChange={(e) => setLeaveStart(e.target.value)}
+                  className="form-input w-full"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="leaveEnd" className="block text-sm font-medium text-[var(--text-secondary)] mb-1">
+                  Last Day
+                </label>
+                <input
+                  id="leaveEnd"
+                  type="date"
+                  value={leaveEnd}
+                  min={leaveStart}
+                  onChange={(e) => setLeaveEnd(e.target.value)}
+                  className="form-input w-full"
+                />
+              </div>
+              <div>
+                <label htmlFor="leaveHours" className="block text-sm font-medium text-[var(--text-secondary)] mb-1">
+                  Hours
+                </label>
+                <input
+                  id="leaveHours"
+                  type="number"
+                  value={leaveHours}
+                  onChange={(e) => setLeaveHours(e.target.value)}
+                  className="form-input w-full"
+                  min="0.25"
+                  step="0.25"
+                  max={pto.available}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="leaveReason" className="block text-sm font-medium text-[var(--text-secondary)] mb-1">
+                  Reason
+                </label>
+                <input
+                  id="leaveReason"
+                  type="text"
+                  value={leaveReason}
+                  onChange={(e) => setLeaveReason(e.target.value)}
+                  className="form-input w-full"
+                  maxLength={1000}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={saving || !leaveStart || !leaveHours}
+                className="btn btn-primary"
+              >
+                Request Leave
+              </button>
+            </form>
+          </>
+        )}
+
+        {leaveRequests.length > 0 && (
+          <div className="space-y-2">
+            {leaveRequests.map((request) => (
+              <div
+                key={request.id}
+                className="flex flex-wrap items-center justify-between gap-2 border-b border-[var(--border-default)] pb-2 last:border-0"
+              >
+                <div>
+                  <span className="text-[var(--text-primary)]">{formatLeaveDates(request)}</span>
+                  <span className="text-sm text-[var(--text-muted)] ml-2">{request.hours} hrs</span>
+                  {request.reviewNote && (
+                    <p className="text-xs text-[var(--text-muted)] mt-1">{request.reviewNote}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`badge ${LEAVE_STATUS_BADGES[request.status] || 'badge-neutral'}`}>
+                    {request.status}
+                  </span>
+                  {request.status === 'pending' && (
+                    <button onClick={() => handleCancelLeave(request)} className="btn btn-secondary btn-sm">
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Edit Name Card */}
       <div className="card p-6 mb-6">
         <h2 className="text-lg font-semibold text-[var(--text-primary)] mb-4">Edit Name</h2>
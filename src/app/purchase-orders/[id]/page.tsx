@@ -23,6 +23,7 @@ const statusColors: Record<string, string> = {
   DRAFT: 'badge badge-neutral',
   PENDING_APPROVAL: 'badge badge-warning',
   APPROVED: 'badge badge-success',
+  PARTIALLY_RECEIVED: 'badge badge-warning',
   REJECTED: 'badge badge-error',
   COMPLETED: 'badge badge-info',
   CANCELLED: 'badge badge-error',
@@ -32,6 +33,7 @@ const statusLabels: Record<string, string> = {
   DRAFT: 'Draft',
   PENDING_APPROVAL: 'Pending Approval',
   APPROVED: 'Approved',
+  PARTIALLY_RECEIVED: 'Partially Received',
   REJECTED: 'Rejected',
   COMPLETED: 'Completed',
   CANCELLED: 'Cancelled',
@@ -50,6 +52,7 @@ type Vendor = {
   id: string;
   name: string;
   vendorNumber: string;
+  email?: string | null;
 };
 
 type LinkedReceipt = {
@@ -62,6 +65,113 @@ type LinkedReceipt = {
   thumbnailUrl: string | null;
 };
 
+type ApprovalStep = {
+  id: string;
+  stepOrder: number;
+  name: string;
+  approverType: string;
+  status: string;
+  actedAt: string | null;
+  actedBy: { id: string; name: string } | null;
+  note: string | null;
+};
+
+const approvalStepColors: Record<string, string> = {
+  PENDING: 'badge badge-warning',
+  APPROVED: 'badge badge-success',
+  REJECTED: 'badge badge-error',
+};
+
+type ReceivingEntry = {
+  id: string;
+  quantity: number | null;
+  amount: number;
+  note: string | null;
+  receivedAt: string;
+  lineItem: { id: string; description: string };
+  receivedBy: { id: string; name: string };
+};
+
+type LineItemValues = {
+  description: string;
+  amount: number;
+  budgetItemId: string;
+};
+
+type ChangeOrder = {
+  id: string;
+  revision: number | null;
+  status: string;
+  reason: string;
+  previousTotal: number;
+  newTotal: number;
+  changes: string;
+  createdAt: string;
+  requestedBy: { id: string; name: string };
+  reviewedBy: { id: string; name: string } | null;
+  reviewedAt: string | null;
+  reviewNote: string | null;
+  approvalSteps: ApprovalStep[];
+};
+
+const changeOrderStatusColors: Record<string, string> = {
+  PENDING_APPROVAL: 'badge badge-warning',
+  APPROVED: 'badge badge-success',
+  REJECTED: 'badge badge-error',
+  CANCELLED: 'badge badge-neutral',
+};
+
+const changeOrderStatusLabels: Record<string, string> = {
+  PENDING_APPROVAL: 'Pending Approval',
+  APPROVED: 'Applied',
+  REJECTED: 'Rejected',
+  CANCELLED: 'Withdrawn',
+};
+
+type BudgetOverride = {
+  id: string;
+  overdraftAmount: number;
+  justification: string;
+  createdAt: string;
+  budgetItem: { id: string; code: string };
+  overriddenBy: { id: string; name: string };
+};
+
+type BudgetOverdraft = {
+  budgetItemId: string;
+  code: string;
+  description: string;
+  requested: number;
+  available: number;
+  overdraft: number;
+};
+
+type BlanketRelease = {
+  id: string;
+  poNumber: string;
+  poDate: string;
+  status: string;
+  totalAmount: number;
+  requestedBy: { id: string; name: string };
+};
+
+type BlanketSummary = {
+  ceiling: number;
+  consumed: number;
+  remaining: number;
+  percentConsumed: number;
+  expiresAt: string | null;
+  daysUntilExpiry: number | null;
+  isExpired: boolean;
+  warnings: string[];
+};
+
+type ReleaseLine = {
+  description: string;
+  amount: string;
+  budgetItemId: string;
+};
+
 type PurchaseOrder = {
   id: string;
   poNumber: string;
@@ -70,6 +180,11 @@ type PurchaseOrder = {
   vendor: Vendor;
   status: string;
   totalAmount: number;
+  revision: number;
+  type: string;
+  expiresAt: string | null;
+  blanketPo: { id: string; poNumber: string } | null;
+  releases: BlanketRelease[];
   notes: string | null;
   autoApprovalNote: string | null;
   departmentId: string | null;
@@ -89,6 +204,10 @@ type PurchaseOrder = {
   receiptFilePath: string | null;
   lineItems: POLineItem[];
   receipts: LinkedReceipt[];
+  approvalSteps: ApprovalStep[];
+  receivingEntries: ReceivingEntry[];
+  changeOrders: ChangeOrder[];
+  budgetOverrides: BudgetOverride[];
   createdAt: string;
   updatedAt: string;
 };
@@ -114,6 +233,19 @@ export default function PurchaseOrderDetailPage({
   const [showStatusModal, setShowStatusModal] = useState(false);
   const [statusAction, setStatusAction] = useState<string>('');
   const [statusNote, setStatusNote] = useState('');
+  const [showReceiveModal, setShowReceiveModal] = useState(false);
+  const [receiveLines, setReceiveLines] = useState<Record<string, { amount: string; quantity: string }>>({});
+  const [receiveNote, setReceiveNote] = useState('');
+  const [changeOrderMode, setChangeOrderMode] = useState(false);
+  const [changeOrderReason, setChangeOrderReason] = useState('');
+  const [changeOrderAction, setChangeOrderAction] = useState<{ id: string; newStatus: string } | null>(null);
+  const [blanketSummary, setBlanketSummary] = useState<BlanketSummary | null>(null);
+  const [showReleaseModal, setShowReleaseModal] = useState(false);
+  const [releaseLines, setReleaseLines] = useState<ReleaseLine[]>([]);
+  const [releaseNote, setReleaseNote] = useState('');
+  const [sendingToVendor, setSendingToVendor] = useState(false);
+  const [budgetOverdrafts, setBudgetOverdrafts] = useState<BudgetOverdraft[] | null>(null);
+  const [budgetOverrideNote, setBudgetOverrideNote] = useState('');
   const [receiptError, setReceiptError] = useState('');
   const [receiptSuccess, setReceiptSuccess] = useState('');
   const [canUploadReceipt, setCanUploadReceipt] = useState(false);
@@ -186,6 +318,7 @@ export default function PurchaseOrderDetailPage({
       if (res.ok) {
         const data = await res.json();
         setPo(data.purchaseOrder);
+        setBlanketSummary(data.blanketSummary || null);
         setLineItems(data.purchaseOrder.lineItems || []);
         setFormData({
           poDate: data.purchaseOrder.poDate.split('T')[0],
@@ -305,7 +438,185 @@ export default function PurchaseOrderDetailPage({
     }
   };
 
+  const handleSubmitChangeOrder = async () => {
+    if (!changeOrderReason.trim()) {
+      alert('A reason is required for a change order');
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/purchase-orders/${id}/change-orders`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          reason: changeOrderReason,
+          lineItems: lineItems.map((item) => ({
+            id: item.id && !item.id.startsWith('temp-') ? item.id : undefined,
+            description: item.description,
+            amount: item.amount,
+            budgetItemId: item.budgetItemId,
+          })),
+        }),
+      });
+
+      if (res.ok) {
+        const data = await res.json();
+        setEditing(false);
+        setChangeOrderMode(false);
+        setChangeOrderReason('');
+        if (data.requiresApproval) {
+          alert('Change order increases or reallocates budget and has been submitted for approval');
+        }
+        fetchPO();
+      } else {
+        const error = await res.json();
+        alert(error.error || 'Failed to submit change order');
+      }
+    } catch (error) {
+      console.error('Error submitting change order:', error);
+      alert('Failed to submit change order');
+    }
+  };
+
+  const processChangeOrderAction = async (
+    changeOrderId: string,
+    newStatus: string,
+    note: string,
+    overrideNote?: string
+  ) => {
+    try {
+      const res = await fetch(`/api/purchase-orders/${id}/change-orders/${changeOrderId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ newStatus, note, budgetOverrideNote: overrideNote }),
+      });
+
+      if (res.ok) {
+        const data = await res.json();
+        setShowStatusModal(false);
+        setStatusNote('');
+        setChangeOrderAction(null);
+        setBudgetOverdrafts(null);
+        setBudgetOverrideNote('');
+        fetchPO();
+        if (data.budgetWarnings?.length > 0) {
+          alert(data.budgetWarnings.join('\n'));
+        }
+      } else {
+        const error = await res.json();
+        // Overdrawn lines under the override policy need a justification
+        if (error.requiresOverride && error.canOverride) {
+          setChangeOrderAction({ id: changeOrderId, newStatus });
+          setStatusNote(note);
+          setShowStatusModal(false);
+          setBudgetOverdrafts(error.budgetOverdrafts || []);
+          return;
+        }
+        alert(error.error || 'Failed to update change order');
+      }
+    } catch (error) {
+      console.error('Error updating change order:', error);
+      alert('Failed to update change order');
+    }
+  };
+
+  const handleChangeOrderAction = async (changeOrderId: string, newStatus: string) => {
+    if (newStatus === 'CANCELLED') {
+      if (confirm('Withdraw this change order?')) {
+        await processChangeOrderAction(changeOrderId, newStatus, '');
+      }
+      return;
+    }
+
+    setChangeOrderAction({ id: changeOrderId, newStatus });
+    setShowStatusModal(true);
+  };
+
+  const handleCreateRelease = async () => {
+    const lines = releaseLines
+      .filter((line) => parseFloat(line.amount) > 0)
+      .map((line) => ({
+        description: line.description,
+        amount: parseFloat(line.amount),
+        budgetItemId: line.budgetItemId,
+      }));
+
+    if (lines.length === 0 || lines.some((line) => !line.description.trim())) {
+      alert('Each release line needs a description and an amount');
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/purchase-orders/${id}/releases`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ lineItems: lines, note: releaseNote || undefined }),
+      });
+
+      if (res.ok) {
+        const data = await res.json();
+        setShowReleaseModal(false);
+        router.push(`/purchase-orders/${data.purchaseOrder.id}`);
+      } else {
+        const error = await res.json();
+        alert(error.error || 'Failed to create release');
+      }
+    } catch (error) {
+      console.error('Error creating release:', error);
+      alert('Failed to create release');
+    }
+  };
+
+  const handleSendToVendor = async () => {
+    if (!po?.vendor.email) return;
+    if (!confirm(`Email ${po.poNumber} to ${po.vendor.name} at ${po.vendor.email}?`)) return;
+
+    setSendingToVendor(true);
+    try {
+      const res = await fetch(`/api/purchase-orders/${id}/send`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+
+      if (res.ok) {
+        alert(`Purchase order sent to ${po.vendor.email}`);
+      } else {
+        const error = await res.json();
+        alert(error.error || 'Failed to send purchase order');
+      }
+    } catch (error) {
+      console.error('Error sending purchase order:', error);
+      alert('Failed to send purchase order');
+    } finally {
+      setSendingToVendor(false);
+    }
+  };
+
   const handleStatusChange = async (newStatus: string) => {
+    if (newStatus === 'RELEASE') {
+      const firstLine = po?.lineItems[0];
+      setReleaseLines([{ description: '', amount: '', budgetItemId: firstLine?.budgetItemId || '' }]);
+      setReleaseNote('');
+      setShowReleaseModal(true);
+      return;
+    }
+
+    if (newStatus === 'CHANGE_ORDER') {
+      setLineItems(po?.lineItems || []);
+      setChangeOrderReason('');
+      setChangeOrderMode(true);
+      setEditing(true);
+      return;
+    }
+
+    if (newStatus === 'RECEIVE') {
+      setReceiveLines({});
+      setReceiveNote('');
+      setShowReceiveModal(true);
+      return;
+    }
+
     setStatusAction(newStatus);
 
     // Show modal for actions that require a note
@@ -314,24 +625,44 @@ export default function PurchaseOrderDetailPage({
       return;
     }
 
+    // Approval chain sign-offs take an optional note
+    if (newStatus === 'APPROVED' && po?.approvalSteps && po.approvalSteps.length > 0) {
+      setShowStatusModal(true);
+      return;
+    }
+
     // Process without note
     await processStatusChange(newStatus, '');
   };
 
-  const processStatusChange = async (newStatus: string, note: string) => {
+  const processStatusChange = async (newStatus: string, note: string, overrideNote?: string) => {
     try {
       const res = await fetch(`/api/purchase-orders/${id}/status`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ newStatus, note }),
+        body: JSON.stringify({ newStatus, note, budgetOverrideNote: overrideNote }),
       });
 
       if (res.ok) {
+        const data = await res.json();
         setShowStatusModal(false);
         setStatusNote('');
+        setBudgetOverdrafts(null);
+        setBudgetOverrideNote('');
         fetchPO();
+        if (data.budgetWarnings?.length > 0) {
+          alert(data.budgetWarnings.join('\n'));
+        }
       } else {
         const error = await res.json();
+        // Overdrawn lines under the override policy need a justification
+        if (error.requiresOverride && error.canOverride) {
+          setStatusAction(newStatus);
+          setStatusNote(note);
+          setShowStatusModal(false);
+          setBudgetOverdrafts(error.budgetOverdrafts || []);
+          return;
+        }
         alert(error.error || 'Failed to change status');
       }
     } catch (error) {
@@ -340,6 +671,40 @@ export default function PurchaseOrderDetailPage({
     }
   };
 
+  const handleReceive = async () => {
+    const lines = Object.entries(receiveLines)
+      .filter(([, line]) => parseFloat(line.amount) > 0)
+      .map(([lineItemId, line]) => ({
+        lineItemId,
+        amount: parseFloat(line.amount),
+        quantity: line.quantity ? parseFloat(line.quantity) : null,
+      }));
+
+    if (lines.length === 0) {
+      alert('Enter a received amount for at least one line item');
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/purchase-orders/${id}/receive`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ lines, note: receiveNote || undefined }),
+      });
+
+      if (res.ok) {
+        setShowReceiveModal(false);
+        fetchPO();
+      } else {
+        const error = await res.json();
+        alert(error.error || 'Failed to record received items');
+      }
+    } catch (error) {
+      console.error('Error receiving items:', error);
+      alert('Failed to record received items');
+    }
+  };
+
   const canEdit = () => {
     if (!po || !user) return false;
     // Can edit if: owner and DRAFT, or has canEdit permission
@@ -351,24 +716,61 @@ export default function PurchaseOrderDetailPage({
 
     const actions: Array<{ label: string; action: string; color: string }> = [];
 
+    if (po.type === 'BLANKET') {
+      switch (po.status) {
+        case 'APPROVED':
+          if (!blanketSummary?.isExpired && (blanketSummary?.remaining ?? 0) > 0) {
+            actions.push({ label: 'Create Release', action: 'RELEASE', color: 'btn-primary' });
+          }
+          actions.push({ label: 'Change Order', action: 'CHANGE_ORDER', color: 'btn-secondary' });
+          actions.push({ label: 'Close Blanket PO', action: 'COMPLETED', color: 'btn-primary' });
+          actions.push({ label: 'Void', action: 'CANCELLED', color: 'btn-danger' });
+          return actions;
+        case 'PENDING_APPROVAL':
+        case 'DRAFT':
+        case 'REJECTED':
+          break;
+        default:
+          return actions;
+      }
+    }
+
     switch (po.status) {
       case 'DRAFT':
         actions.push({ label: 'Submit for Approval', action: 'PENDING_APPROVAL', color: 'btn-primary' });
         actions.push({ label: 'Cancel', action: 'CANCELLED', color: 'btn-danger' });
         break;
-      case 'PENDING_APPROVAL':
-        actions.push({ label: 'Approve', action: 'APPROVED', color: 'btn-success' });
+      case 'PENDING_APPROVAL': {
+        const currentStep = po.approvalSteps?.find((step) => step.status === 'PENDING');
+        actions.push({
+          label: currentStep ? `Approve (${currentStep.name})` : 'Approve',
+          action: 'APPROVED',
+          color: 'btn-success',
+        });
         actions.push({ label: 'Reject', action: 'REJECTED', color: 'bg-[var(--warning)] hover:bg-[var(--warning)] text-white' });
         actions.push({ label: 'Cancel', action: 'CANCELLED', color: 'btn-danger' });
         break;
+      }
       case 'REJECTED':
         actions.push({ label: 'Revise & Resubmit', action: 'DRAFT', color: 'btn-primary' });
         actions.push({ label: 'Cancel', action: 'CANCELLED', color: 'btn-danger' });
         break;
       case 'APPROVED':
+        actions.push({ label: 'Receive Items', action: 'RECEIVE', color: 'btn-primary' });
+        if (!po.blanketPo) {
+          actions.push({ label: 'Change Order', action: 'CHANGE_ORDER', color: 'btn-secondary' });
+        }
         actions.push({ label: 'Mark Completed', action: 'COMPLETED', color: 'btn-primary' });
         actions.push({ label: 'Void', action: 'CANCELLED', color: 'btn-danger' });
         break;
+      case 'PARTIALLY_RECEIVED':
+        actions.push({ label: 'Receive Items', action: 'RECEIVE', color: 'btn-primary' });
+        if (!po.blanketPo) {
+          actions.push({ label: 'Change Order', action: 'CHANGE_ORDER', color: 'btn-secondary' });
+        }
+        actions.push({ label: 'Close PO', action: 'COMPLETED', color: 'btn-primary' });
+        actions.push({ label: 'Void', action: 'CANCELLED', color: 'btn-danger' });
+        break;
       case 'COMPLETED':
         actions.push({ label: 'Void', action: 'CANCELLED', color: 'btn-danger' });
         break;
@@ -394,6 +796,19 @@ export default function PurchaseOrderDetailPage({
   }
 
   const totalAmount = lineItems.reduce((sum, item) => sum + item.amount, 0);
+  const editingDetails = editing && !changeOrderMode;
+  const modalAction = changeOrderAction ? changeOrderAction.newStatus : statusAction;
+  const displayPONumber = po.revision > 1 ? `${po.poNumber} rev ${po.revision}` : po.poNumber;
+  const pendingChangeOrder = po.changeOrders?.find((co) => co.status === 'PENDING_APPROVAL');
+  const isBlanket = po.type === 'BLANKET';
+  // Approved POs are the ones that go out to the vendor
+  const isIssued = ['APPROVED', 'PARTIALLY_RECEIVED', 'COMPLETED'].includes(po.status);
+  // Open POs show received vs outstanding; blanket POs show released vs remaining
+  const showReceiving = po.status === 'APPROVED' || po.status === 'PARTIALLY_RECEIVED';
+  const consumedAmount = (item: POLineItem) => (isBlanket ? item.releasedAmount : item.receivedAmount) || 0;
+  const consumedLabel = isBlanket ? 'Released' : 'Received';
+  const remainingLabel = isBlanket ? 'Remaining' : 'Outstanding';
+  const totalReceived = lineItems.reduce((sum, item) => sum + consumedAmount(item), 0);
 
   const renderBudgetContext = (item: POLineItem) => {
     if (po.status !== 'PENDING_APPROVAL' || !item.budgetItem) return null;
@@ -432,16 +847,45 @@ export default function PurchaseOrderDetailPage({
               Purchase Orders
             </Link>
             <span>/</span>
-            <span>{po.poNumber}</span>
+            <span>{displayPONumber}</span>
           </div>
           <div className="flex justify-between items-start">
             <div>
-              <h1 className="page-title mb-2">{po.poNumber}</h1>
-              <span className={statusColors[po.status]}>
-                {statusLabels[po.status]}
-              </span>
+              <h1 className="page-title mb-2">{displayPONumber}</h1>
+              <div className="flex items-center gap-2">
+                <span className={statusColors[po.status]}>
+                  {statusLabels[po.status]}
+                </span>
+                {isBlanket && <span className="badge badge-info">Blanket</span>}
+                {po.blanketPo && (
+                  <span className="text-sm text-[var(--text-secondary)]">
+                    Release of{' '}
+                    <Link
+                      href={`/purchase-orders/${po.blanketPo.id}`}
+                      className="text-[var(--accent-primary)] hover:text-[var(--accent-primary-hover)]"
+                    >
+                      {po.blanketPo.poNumber}
+                    </Link>
+                  </span>
+                )}
+              </div>
             </div>
             <div className="flex gap-2">
+              {!editing && isIssued && (
+                <a href={`/api/purchase-orders/${id}/pdf`} className="btn btn-secondary">
+                  Download PDF
+                </a>
+              )}
+              {!editing && isIssued && po.status !== 'COMPLETED' && (
+                <button
+                  onClick={handleSendToVendor}
+                  disabled={!po.vendor.email || sendingToVendor}
+                  title={po.vendor.email ? undefined : 'Vendor has no email address on file'}
+                  className="btn btn-secondary"
+                >
+                  {sendingToVendor ? 'Sending...' : 'Email to Vendor'}
+                </button>
+              )}
               {!editing && canEdit() && po.status === 'DRAFT' && (
                 <button
                   onClick={() => setEditing(true)}
@@ -455,6 +899,7 @@ export default function PurchaseOrderDetailPage({
                   <button
                     onClick={() => {
                       setEditing(false);
+                      setChangeOrderMode(false);
                       setLineItems(po.lineItems || []);
                       setFormData({
                         poDate: po.poDate.split('T')[0],
@@ -467,10 +912,10 @@ export default function PurchaseOrderDetailPage({
                     Cancel
                   </button>
                   <button
-                    onClick={handleSave}
+                    onClick={changeOrderMode ? handleSubmitChangeOrder : handleSave}
                     className="btn btn-success"
                   >
-                    Save Changes
+                    {changeOrderMode ? 'Submit Change Order' : 'Save Changes'}
                   </button>
                 </>
               )}
@@ -478,6 +923,19 @@ export default function PurchaseOrderDetailPage({
           </div>
         </div>
 
+        {/* Budget Override Banner */}
+        {po.budgetOverrides?.length > 0 && (
+          <div className="mb-6 rounded-[var(--radius-lg)] border border-[var(--warning-muted)] bg-[var(--warning-subtle)] px-4 py-3 text-sm text-[var(--warning)] space-y-1">
+            {po.budgetOverrides.map((override) => (
+              <div key={override.id}>
+                <strong>Budget override ({override.budgetItem.code}):</strong> ${override.overdraftAmount.toFixed(2)} over
+                budget, approved by {override.overriddenBy.name} on {new Date(override.createdAt).toLocaleDateString()} &mdash;{' '}
+                {override.justification}
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Auto-approval Note Banner */}
         {po.autoApprovalNote && po.status === 'PENDING_APPROVAL' && (
           <div className="mb-6 rounded-[var(--radius-lg)] border border-[var(--warning-muted)] bg-[var(--warning-subtle)] px-4 py-3 text-sm text-[var(--warning)]">
@@ -494,7 +952,7 @@ export default function PurchaseOrderDetailPage({
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="form-label">PO Date</label>
-                  {editing ? (
+                  {editingDetails ? (
                     <input
                       type="date"
                       value={formData.poDate}
@@ -507,7 +965,7 @@ export default function PurchaseOrderDetailPage({
                 </div>
                 <div>
                   <label className="form-label">Vendor</label>
-                  {editing ? (
+                  {editingDetails ? (
                     <select
                       value={formData.vendorId}
                       onChange={(e) => setFormData({ ...formData, vendorId: e.target.value })}
@@ -527,7 +985,7 @@ export default function PurchaseOrderDetailPage({
                 </div>
                 <div className="col-span-2">
                   <label className="form-label">Notes</label>
-                  {editing ? (
+                  {editingDetails ? (
                     <textarea
                       value={formData.notes}
                       onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
@@ -541,6 +999,97 @@ export default function PurchaseOrderDetailPage({
               </div>
             </div>
 
+            {/* Blanket Drawdown */}
+            {isBlanket && blanketSummary && (
+              <div className="card p-6">
+                <h2 className="section-title mb-4">Blanket Drawdown</h2>
+                {blanketSummary.warnings.length > 0 && po.status === 'APPROVED' && (
+                  <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--warning-muted)] bg-[var(--warning-subtle)] px-4 py-3 text-sm text-[var(--warning)]">
+                    {blanketSummary.warnings.map((warning) => (
+                      <div key={warning}>{warning}</div>
+                    ))}
+                  </div>
+                )}
+                <div className="grid grid-cols-3 gap-4 mb-4">
+                  <div>
+                    <div className="text-sm text-[var(--text-secondary)]">Ceiling</div>
+                    <div className="text-lg font-semibold text-[var(--text-primary)]">${blanketSummary.ceiling.toFixed(2)}</div>
+                  </div>
+                  <div>
+                    <div className="text-sm text-[var(--text-secondary)]">Consumed</div>
+                    <div className="text-lg font-semibold text-[var(--text-primary)]">${blanketSummary.consumed.toFixed(2)}</div>
+                  </div>
+                  <div>
+                    <div className="text-sm text-[var(--text-secondary)]">Remaining</div>
+                    <div className="text-lg font-semibold text-[var(--text-primary)]">${blanketSummary.remaining.toFixed(2)}</div>
+                  </div>
+                </div>
+                <div className="w-full h-2 rounded-full bg-[var(--bg-tertiary)] overflow-hidden">
+                  <div
+                    className={`h-full ${blanketSummary.percentConsumed >= 80 ? 'bg-[var(--warning)]' : 'bg-[var(--accent-primary)]'}`}
+                    style={{ width: `${Math.min(blanketSummary.percentConsumed, 100)}%` }}
+                  />
+                </div>
+                <div className="flex justify-between text-xs text-[var(--text-muted)] mt-2">
+                  <span>{blanketSummary.percentConsumed.toFixed(0)}% consumed</span>
+                  {po.expiresAt && <span>Expires {new Date(po.expiresAt).toLocaleDateString()}</span>}
+                </div>
+
+                {po.releases.length > 0 && (
+                  <div className="mt-6">
+                    <h3 className="text-sm font-semibold text-[var(--text-primary)] mb-2">Releases</h3>
+                    <div className="space-y-2">
+                      {po.releases.map((release) => (
+                        <Link
+                          key={release.id}
+                          href={`/purchase-orders/${release.id}`}
+                          className="flex justify-between items-center border border-[var(--border-default)] rounded-lg px-3 py-2 hover:bg-[var(--bg-hover)] transition-colors text-sm"
+                        >
+                          <span className="text-[var(--text-primary)]">
+                            {release.poNumber}
+                            <span className="text-[var(--text-muted)]">
+                              {' '}&middot; {new Date(release.poDate).toLocaleDateString()} &middot; {release.requestedBy.name}
+                            </span>
+                          </span>
+                          <span className="flex items-center gap-2">
+                            <span className="text-[var(--text-primary)]">${release.totalAmount.toFixed(2)}</span>
+                            <span className={statusColors[release.status]}>{statusLabels[release.status]}</span>
+                          </span>
+                        </Link>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Change Order Reason */}
+            {changeOrderMode && (
+              <div className="card p-6">
+                <h2 className="section-title mb-2">Change Order</h2>
+                <p className="text-sm text-[var(--text-secondary)] mb-4">
+                  Edit the line items below. Changes that increase the total are routed for approval;
+                  other changes are applied immediately as a new revision.
+                </p>
+                <label className="form-label">Reason *</label>
+                <textarea
+                  value={changeOrderReason}
+                  onChange={(e) => setChangeOrderReason(e.target.value)}
+                  rows={3}
+                  placeholder="Why are the line items changing?"
+                  className="form-input"
+                />
+              </div>
+            )}
+
+            {/* Pending Change Order Banner */}
+            {pendingChangeOrder && !changeOrderMode && (
+              <div className="rounded-[var(--radius-lg)] border border-[var(--warning-muted)] bg-[var(--warning-subtle)] px-4 py-3 text-sm text-[var(--warning)]">
+                <strong>Change order awaiting approval:</strong> total ${pendingChangeOrder.previousTotal.toFixed(2)} &rarr; $
+                {pendingChangeOrder.newTotal.toFixed(2)}
+              </div>
+            )}
+
             {/* Line Items */}
             <div className="card p-6">
               <div className="flex justify-between items-center mb-4">
@@ -576,6 +1125,20 @@ export default function PurchaseOrderDetailPage({
                           <span className="text-[var(--text-secondary)]">Amount:</span>
                           <span className="text-[var(--text-primary)] font-medium">${item.amount.toFixed(2)}</span>
                         </div>
+                        {showReceiving && (
+                          <>
+                            <div className="flex justify-between">
+                              <span className="text-[var(--text-secondary)]">{consumedLabel}:</span>
+                              <span className="text-[var(--text-primary)]">${consumedAmount(item).toFixed(2)}</span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span className="text-[var(--text-secondary)]">{remainingLabel}:</span>
+                              <span className="text-[var(--text-primary)] font-medium">
+                                ${(item.amount - consumedAmount(item)).toFixed(2)}
+                              </span>
+                            </div>
+                          </>
+                        )}
                       </div>
                       {renderBudgetContext(item)}
                       {editing && (
@@ -603,6 +1166,14 @@ export default function PurchaseOrderDetailPage({
                     <span className="text-sm font-bold text-[var(--text-primary)]">Total:</span>
                     <span className="text-sm font-bold text-[var(--text-primary)]">${totalAmount.toFixed(2)}</span>
                   </div>
+                  {showReceiving && (
+                    <div className="flex justify-between">
+                      <span className="text-sm font-bold text-[var(--text-primary)]">{remainingLabel}:</span>
+                      <span className="text-sm font-bold text-[var(--text-primary)]">
+                        ${(totalAmount - totalReceived).toFixed(2)}
+                      </span>
+                    </div>
+                  )}
                 </div>
 
                 {/* Desktop Table View */}
@@ -613,6 +1184,12 @@ export default function PurchaseOrderDetailPage({
                         <th scope="col" className="text-left py-2 px-3">Description</th>
                         <th scope="col" className="text-left py-2 px-3">Budget Code</th>
                         <th scope="col" className="text-right py-2 px-3">Amount</th>
+                        {showReceiving && (
+                          <>
+                            <th scope="col" className="text-right py-2 px-3">{consumedLabel}</th>
+                            <th scope="col" className="text-right py-2 px-3">{remainingLabel}</th>
+                          </>
+                        )}
                         {editing && (
                           <th scope="col" className="text-right py-2 px-3">Actions</th>
                         )}
@@ -631,6 +1208,16 @@ export default function PurchaseOrderDetailPage({
                               <td className="py-2 px-3 text-sm text-[var(--text-primary)] text-right">
                                 ${item.amount.toFixed(2)}
                               </td>
+                              {showReceiving && (
+                                <>
+                                  <td className="py-2 px-3 text-sm text-[var(--text-secondary)] text-right">
+                                    ${consumedAmount(item).toFixed(2)}
+                                  </td>
+                                  <td className="py-2 px-3 text-sm text-[var(--text-primary)] text-right">
+                                    ${(item.amount - consumedAmount(item)).toFixed(2)}
+                                  </td>
+                                </>
+                              )}
                               {editing && (
                                 <td className="py-2 px-3 text-sm text-right space-x-2">
                                   <button
@@ -668,6 +1255,16 @@ export default function PurchaseOrderDetailPage({
                         <td className="py-2 px-3 text-sm text-[var(--text-primary)] text-right">
                           ${totalAmount.toFixed(2)}
                         </td>
+                        {showReceiving && (
+                          <>
+                            <td className="py-2 px-3 text-sm text-[var(--text-secondary)] text-right">
+                              ${totalReceived.toFixed(2)}
+                            </td>
+                            <td className="py-2 px-3 text-sm text-[var(--text-primary)] text-right">
+                              ${(totalAmount - totalReceived).toFixed(2)}
+                            </td>
+                          </>
+                        )}
                         {editing && <td></td>}
                       </tr>
                     </tbody>
@@ -896,6 +1493,166 @@ export default function PurchaseOrderDetailPage({
               </div>
             </div>
 
+            {/* Approval Chain */}
+            {po.approvalSteps && po.approvalSteps.length > 0 && (
+              <div className="card p-6">
+                <h2 className="section-title mb-4">Approval Chain</h2>
+                <ol className="space-y-3">
+                  {po.approvalSteps.map((step) => (
+                    <li key={step.id} className="border-l-2 border-[var(--border-default)] pl-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium text-[var(--text-primary)]">
+                          {step.stepOrder}. {step.name}
+                        </span>
+                        <span className={approvalStepColors[step.status] || 'badge badge-neutral'}>
+                          {step.status === 'PENDING' ? 'Pending' : step.status === 'APPROVED' ? 'Approved' : 'Rejected'}
+                        </span>
+                      </div>
+                      {step.actedBy && step.actedAt && (
+                        <div className="text-xs text-[var(--text-muted)] mt-1">
+                          {step.actedBy.name} &middot; {new Date(step.actedAt).toLocaleString()}
+                        </div>
+                      )}
+                      {step.note && (
+                        <div className="mt-1 text-sm text-[var(--text-secondary)]">{step.note}</div>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
+            {/* Change Orders */}
+            {po.changeOrders && po.changeOrders.length > 0 && (
+              <div className="card p-6">
+                <h2 className="section-title mb-4">Change Orders</h2>
+                <ul className="space-y-4">
+                  {po.changeOrders.map((co) => {
+                    const diff: {
+                      added: LineItemValues[];
+                      removed: LineItemValues[];
+                      changed: { before: LineItemValues; after: LineItemValues }[];
+                    } = JSON.parse(co.changes);
+                    const currentStep = co.approvalSteps.find((step) => step.status === 'PENDING');
+                    return (
+                      <li key={co.id} className="border-l-2 border-[var(--border-default)] pl-3">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-sm font-medium text-[var(--text-primary)]">
+                            {co.revision ? `Rev ${co.revision}` : 'Proposed'}
+                          </span>
+                          <span className={changeOrderStatusColors[co.status] || 'badge badge-neutral'}>
+                            {changeOrderStatusLabels[co.status] || co.status}
+                          </span>
+                        </div>
+                        <div className="text-sm text-[var(--text-primary)] mt-1">
+                          ${co.previousTotal.toFixed(2)} &rarr; ${co.newTotal.toFixed(2)}
+                        </div>
+                        <div className="text-sm text-[var(--text-secondary)] mt-1">{co.reason}</div>
+                        <ul className="mt-2 space-y-1 text-xs text-[var(--text-secondary)]">
+                          {diff.added.map((item, i) => (
+                            <li key={`a-${i}`}>+ {item.description} (${item.amount.toFixed(2)})</li>
+                          ))}
+                          {diff.removed.map((item, i) => (
+                            <li key={`r-${i}`}>&minus; {item.description} (${item.amount.toFixed(2)})</li>
+                          ))}
+                          {diff.changed.map((item, i) => (
+                            <li key={`c-${i}`}>
+                              ~ {item.after.description}: ${item.before.amount.toFixed(2)} &rarr; ${item.after.amount.toFixed(2)}
+                              {item.before.description !== item.after.description && ` (was "${item.before.description}")`}
+                            </li>
+                          ))}
+                        </ul>
+                        <div className="text-xs text-[var(--text-muted)] mt-1">
+                          {co.requestedBy.name} &middot; {new Date(co.createdAt).toLocaleString()}
+                        </div>
+                        {co.reviewedBy && co.reviewedAt && co.reviewedBy.id !== co.requestedBy.id && (
+                          <div className="text-xs text-[var(--text-muted)]">
+                            Reviewed by {co.reviewedBy.name} &middot; {new Date(co.reviewedAt).toLocaleString()}
+                          </div>
+                        )}
+                        {co.reviewNote && (
+                          <div className="mt-1 text-sm text-[var(--text-secondary)]">{co.reviewNote}</div>
+                        )}
+                        {co.approvalSteps.length > 0 && (
+                          <ol className="mt-2 space-y-1 text-xs">
+                            {co.approvalSteps.map((step) => (
+                              <li key={step.id} className="flex items-center gap-2">
+                                <span className="text-[var(--text-secondary)]">
+                                  {step.stepOrder}. {step.name}
+                                </span>
+                                <span className={approvalStepColors[step.status] || 'badge badge-neutral'}>
+                                  {step.status === 'PENDING' ? 'Pending' : step.status === 'APPROVED' ? 'Approved' : 'Rejected'}
+                                </span>
+                                {step.actedBy && (
+                                  <span className="text-[var(--text-muted)]">{step.actedBy.name}</span>
+                                )}
+                              </li>
+                            ))}
+                          </ol>
+                        )}
+                        {co.status === 'PENDING_APPROVAL' && (
+                          <div className="flex gap-3 mt-2 text-sm">
+                            {co.requestedBy.id !== user?.id && (
+                              <>
+                                <button
+                                  onClick={() => handleChangeOrderAction(co.id, 'APPROVED')}
+                                  className="text-[var(--success)] hover:text-[var(--success)]"
+                                >
+                                  {currentStep ? `Approve (${currentStep.name})` : 'Approve'}
+                                </button>
+                                <button
+                                  onClick={() => handleChangeOrderAction(co.id, 'REJECTED')}
+                                  className="text-[var(--error)] hover:text-[var(--error)]"
+                                >
+                                  Reject
+                                </button>
+                              </>
+                            )}
+                            <button
+                              onClick={() => handleChangeOrderAction(co.id, 'CANCELLED')}
+                              className="text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+                            >
+                              Withdraw
+                            </button>
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+
+            {/* Receiving History */}
+            {po.receivingEntries && po.receivingEntries.length > 0 && (
+              <div className="card p-6">
+                <h2 className="section-title mb-4">Receiving History</h2>
+                <ul className="space-y-3">
+                  {po.receivingEntries.map((entry) => (
+                    <li key={entry.id} className="border-l-2 border-[var(--border-default)] pl-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium text-[var(--text-primary)]">
+                          {entry.lineItem.description}
+                        </span>
+                        <span className="text-sm text-[var(--text-primary)]">
+                          ${entry.amount.toFixed(2)}
+                          {entry.quantity !== null && (
+                            <span className="text-[var(--text-muted)]"> ({entry.quantity})</span>
+                          )}
+                        </span>
+                      </div>
+                      <div className="text-xs text-[var(--text-muted)] mt-1">
+                        {entry.receivedBy.name} &middot; {new Date(entry.receivedAt).toLocaleString()}
+                      </div>
+                      {entry.note && (
+                        <div className="mt-1 text-sm text-[var(--text-secondary)]">{entry.note}</div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Receipt */}
             {po.receiptFileName && (
               <div className="card p-6">
@@ -925,19 +1682,33 @@ export default function PurchaseOrderDetailPage({
           <div className="card w-full max-w-md">
             <div className="border-b border-[var(--border-default)] px-6 py-4">
               <h2 className="text-2xl font-bold text-[var(--text-primary)]">
-                {statusAction === 'CANCELLED' ? 'Void Purchase Order' : 'Reject Purchase Order'}
+                {changeOrderAction
+                  ? changeOrderAction.newStatus === 'APPROVED'
+                    ? 'Approve Change Order'
+                    : 'Reject Change Order'
+                  : statusAction === 'CANCELLED'
+                  ? 'Void Purchase Order'
+                  : statusAction === 'APPROVED'
+                  ? 'Approve Purchase Order'
+                  : 'Reject Purchase Order'}
               </h2>
             </div>
             <div className="p-6 space-y-4">
               <div>
                 <label className="form-label">
-                  Note *
+                  {modalAction === 'APPROVED' ? 'Note' : 'Note *'}
                 </label>
                 <textarea
                   value={statusNote}
                   onChange={(e) => setStatusNote(e.target.value)}
                   rows={4}
-                  placeholder={statusAction === 'CANCELLED' ? 'Reason for voiding...' : 'Reason for rejection...'}
+                  placeholder={
+                    modalAction === 'CANCELLED'
+                      ? 'Reason for voiding...'
+                      : modalAction === 'APPROVED'
+                      ? 'Optional approval note...'
+                      : 'Reason for rejection...'
+                  }
                   className="form-input"
                 />
               </div>
@@ -946,15 +1717,20 @@ export default function PurchaseOrderDetailPage({
                   onClick={() => {
                     setShowStatusModal(false);
                     setStatusNote('');
+                    setChangeOrderAction(null);
                   }}
                   className="btn btn-secondary"
                 >
                   Cancel
                 </button>
                 <button
-                  onClick={() => processStatusChange(statusAction, statusNote)}
-                  disabled={!statusNote.trim()}
-                  className="btn btn-danger"
+                  onClick={() =>
+                    changeOrderAction
+                      ? processChangeOrderAction(changeOrderAction.id, changeOrderAction.newStatus, statusNote)
+                      : processStatusChange(statusAction, statusNote)
+                  }
+                  disabled={modalAction !== 'APPROVED' && !statusNote.trim()}
+                  className={`btn ${modalAction === 'APPROVED' ? 'btn-success' : 'btn-danger'}`}
                 >
                   Confirm
                 </button>
@@ -964,6 +1740,267 @@ export default function PurchaseOrderDetailPage({
         </div>
       )}
 
+      {/* Budget Override Modal */}
+      {budgetOverdrafts && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="card w-full max-w-md">
+            <div className="border-b border-[var(--border-default)] px-6 py-4">
+              <h2 className="text-2xl font-bold text-[var(--text-primary)]">Override Budget</h2>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-[var(--text-secondary)]">
+                {changeOrderAction ? 'This change order' : 'This purchase order'} would overdraw the following budget
+                lines:
+              </p>
+              <ul className="text-sm space-y-1">
+                {budgetOverdrafts.map((overdraft) => (
+                  <li key={overdraft.budgetItemId} className="text-[var(--error)]">
+                    <span className="font-medium">{overdraft.code}</span> - ${overdraft.requested.toFixed(2)} requested,
+                    ${overdraft.available.toFixed(2)} available
+                  </li>
+                ))}
+              </ul>
+              <div>
+                <label className="form-label">Justification *</label>
+                <textarea
+                  value={budgetOverrideNote}
+                  onChange={(e) => setBudgetOverrideNote(e.target.value)}
+                  rows={4}
+                  placeholder="Why this purchase should proceed over budget..."
+                  className="form-input"
+                />
+              </div>
+              <div className="flex justify-end gap-3 pt-4">
+                <button
+                  onClick={() => {
+                    setBudgetOverdrafts(null);
+                    setBudgetOverrideNote('');
+                    setStatusNote('');
+                    setChangeOrderAction(null);
+                  }}
+                  className="btn btn-secondary"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() =>
+                    changeOrderAction
+                      ? processChangeOrderAction(
+                          changeOrderAction.id,
+                          changeOrderAction.newStatus,
+                          statusNote,
+                          budgetOverrideNote
+                        )
+                      : processStatusChange(statusAction, statusNote, budgetOverrideNote)
+                  }
+                  disabled={!budgetOverrideNote.trim()}
+                  className="btn btn-danger"
+                >
+                  Override &amp; Continue
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Create Release Modal */}
+      {showReleaseModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="card w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <div className="border-b border-[var(--border-default)] px-6 py-4">
+              <h2 className="text-2xl font-bold text-[var(--text-primary)]">Create Release</h2>
+              {blanketSummary && (
+                <p className="text-sm text-[var(--text-secondary)] mt-1">
+                  ${blanketSummary.remaining.toFixed(2)} remaining on this blanket PO
+                </p>
+              )}
+            </div>
+            <div className="p-6 space-y-4">
+              {releaseLines.map((line, index) => (
+                <div key={index} className="border border-[var(--border-default)] rounded-lg p-3">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div>
+                      <label className="form-label">Description *</label>
+                      <input
+                        type="text"
+                        value={line.description}
+                        onChange={(e) =>
+                          setReleaseLines(releaseLines.map((l, i) => (i === index ? { ...l, description: e.target.value } : l)))
+                        }
+                        className="form-input w-full"
+                      />
+                    </div>
+                    <div>
+                      <label className="form-label">Budget Item</label>
+                      <select
+                        value={line.budgetItemId}
+                        onChange={(e) =>
+                          setReleaseLines(releaseLines.map((l, i) => (i === index ? { ...l, budgetItemId: e.target.value } : l)))
+                        }
+                        className="form-input form-select w-full"
+                      >
+                        {po.lineItems
+                          .filter((item, i, all) => all.findIndex((other) => other.budgetItemId === item.budgetItemId) === i)
+                          .map((item) => {
+                            const remaining = po.lineItems
+                              .filter((other) => other.budgetItemId === item.budgetItemId)
+                              .reduce((sum, other) => sum + other.amount - (other.releasedAmount || 0), 0);
+                            return (
+                              <option key={item.budgetItemId} value={item.budgetItemId}>
+                                {item.budgetItem ? item.budgetItem.code : item.budgetItemId} (${remaining.toFixed(2)} left)
+                              </option>
+                            );
+                          })}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="form-label">Amount ($) *</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={line.amount}
+                        onChange={(e) =>
+                          setReleaseLines(releaseLines.map((l, i) => (i === index ? { ...l, amount: e.target.value } : l)))
+                        }
+                        className="form-input w-full"
+                      />
+                    </div>
+                  </div>
+                  {releaseLines.length > 1 && (
+                    <div className="flex justify-end mt-2">
+                      <button
+                        type="button"
+                        onClick={() => setReleaseLines(releaseLines.filter((_, i) => i !== index))}
+                        className="text-sm text-[var(--error)]"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() =>
+                  setReleaseLines([
+                    ...releaseLines,
+                    { description: '', amount: '', budgetItemId: po.lineItems[0]?.budgetItemId || '' },
+                  ])
+                }
+                className="btn btn-secondary btn-sm"
+              >
+                + Add Line
+              </button>
+              <div>
+                <label className="form-label">Note</label>
+                <textarea
+                  value={releaseNote}
+                  onChange={(e) => setReleaseNote(e.target.value)}
+                  rows={2}
+                  className="form-input"
+                />
+              </div>
+              <div className="flex justify-end gap-3 pt-4">
+                <button onClick={() => setShowReleaseModal(false)} className="btn btn-secondary">
+                  Cancel
+                </button>
+                <button onClick={handleCreateRelease} className="btn btn-primary">
+                  Create Release
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Receive Items Modal */}
+      {showReceiveModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="card w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <div className="border-b border-[var(--border-default)] px-6 py-4">
+              <h2 className="text-2xl font-bold text-[var(--text-primary)]">Receive Items</h2>
+            </div>
+            <div className="p-6 space-y-4">
+              {po.lineItems.map((item) => {
+                const outstanding = item.amount - (item.receivedAmount || 0);
+                const line = receiveLines[item.id!] || { amount: '', quantity: '' };
+                return (
+                  <div key={item.id} className="border border-[var(--border-default)] rounded-lg p-3">
+                    <div className="flex justify-between text-sm mb-2">
+                      <span className="font-medium text-[var(--text-primary)]">{item.description}</span>
+                      <span className="text-[var(--text-secondary)]">Outstanding: ${outstanding.toFixed(2)}</span>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="form-label">Amount Received ($)</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          max={outstanding}
+                          value={line.amount}
+                          disabled={outstanding <= 0}
+                          onChange={(e) =>
+                            setReceiveLines({ ...receiveLines, [item.id!]: { ...line, amount: e.target.value } })
+                          }
+                          className="form-input w-full"
+                        />
+                      </div>
+                      <div>
+                        <label className="form-label">Quantity</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={line.quantity}
+                          disabled={outstanding <= 0}
+                          onChange={(e) =>
+                            setReceiveLines({ ...receiveLines, [item.id!]: { ...line, quantity: e.target.value } })
+                          }
+                          placeholder="Optional"
+                          className="form-input w-full"
+                        />
+                      </div>
+                    </div>
+                    {outstanding > 0 && (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setReceiveLines({ ...receiveLines, [item.id!]: { ...line, amount: outstanding.toFixed(2) } })
+                        }
+                        className="mt-2 text-sm text-[var(--accent-primary)] hover:text-[var(--accent-primary-hover)]"
+                      >
+                        Receive remaining
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+              <div>
+                <label className="form-label">Note</label>
+                <textarea
+                  value={receiveNote}
+                  onChange={(e) => setReceiveNote(e.target.value)}
+                  rows={2}
+                  placeholder="Packing slip, shipment reference..."
+                  className="form-input"
+                />
+              </div>
+              <div className="flex justify-end gap-3 pt-4">
+                <button onClick={() => setShowReceiveModal(false)} className="btn btn-secondary">
+                  Cancel
+                </button>
+                <button onClick={handleReceive} className="btn btn-primary">
+                  Record Receipt
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Find & Attach Receipts Panel */}
       <FindReceiptsPanel
         poId={id}
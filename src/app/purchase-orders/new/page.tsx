@@ -58,6 +58,8 @@ export default function NewPurchaseOrderPage() {
   const [vendorId, setVendorId] = useState('');
   const [department, setDepartment] = useState('');
   const [note, setNote] = useState('');
+  const [poType, setPoType] = useState<'STANDARD' | 'BLANKET'>('STANDARD');
+  const [expiresAt, setExpiresAt] = useState('');
   const [lineItems, setLineItems] = useState<LineItem[]>([
     { id: '1', budgetItemId: '', description: '', amount: '' },
   ]);
@@ -192,6 +194,8 @@ export default function NewPurchaseOrderPage() {
           vendorId,
           department: department || null,
           note: note || null,
+          type: poType,
+          expiresAt: poType === 'BLANKET' ? expiresAt : null,
           status: saveAsDraft ? 'DRAFT' : undefined, // If over budget, save as DRAFT
           lineItems: lineItems.map((item) => ({
             budgetItemId: item.budgetItemId,
@@ -202,7 +206,8 @@ export default function NewPurchaseOrderPage() {
       });
 
       if (!res.ok) {
-        alert('Error creating purchase order');
+        const error = await res.json().catch(() => null);
+        alert(error?.error || 'Error creating purchase order');
         return;
       }
 
@@ -308,6 +313,44 @@ export default function NewPurchaseOrderPage() {
               </div>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+              <div>
+                <label className="form-label">
+                  Order Type
+                </label>
+                <select
+                  value={poType}
+                  onChange={(e) => setPoType(e.target.value as 'STANDARD' | 'BLANKET')}
+                  className="form-input form-select"
+                >
+                  <option value="STANDARD">Standard</option>
+                  <option value="BLANKET">Blanket (draw down with releases)</option>
+                </select>
+              </div>
+
+              {poType === 'BLANKET' && (
+                <div>
+                  <label className="form-label">
+                    Expires On *
+                  </label>
+                  <input
+                    type="date"
+                    value={expiresAt}
+                    onChange={(e) => setExpiresAt(e.target.value)}
+                    required
+                    className="form-input"
+                  />
+                </div>
+              )}
+            </div>
+
+            {poType === 'BLANKET' && (
+              <p className="mt-2 text-sm text-[var(--text-secondary)]">
+                Line items set the ceiling for each budget item. Once approved, releases can be drawn
+                against the ceiling without their own approval until the expiry date.
+              </p>
+            )}
+
             <div className="mt-4">
               <label className="form-label">
                 Note
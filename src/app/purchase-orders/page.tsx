@@ -8,6 +8,7 @@ import { useDebounce } from '@/hooks/useDebounce';
 type PurchaseOrder = {
   id: string;
   poNumber: string;
+  revision: number;
   poDate: string;
   vendor: {
     name: string;
@@ -22,6 +23,7 @@ const statusColors: Record<string, string> = {
   DRAFT: 'badge badge-neutral',
   PENDING_APPROVAL: 'badge badge-warning',
   APPROVED: 'badge badge-success',
+  PARTIALLY_RECEIVED: 'badge badge-warning',
   REJECTED: 'badge badge-error',
   COMPLETED: 'badge badge-info',
   CANCELLED: 'badge badge-error',
@@ -31,6 +33,7 @@ const statusLabels: Record<string, string> = {
   DRAFT: 'Draft',
   PENDING_APPROVAL: 'Pending Approval',
   APPROVED: 'Approved',
+  PARTIALLY_RECEIVED: 'Partially Received',
   REJECTED: 'Rejected',
   COMPLETED: 'Completed',
   CANCELLED: 'Cancelled',
@@ -144,6 +147,7 @@ export default function PurchaseOrdersPage() {
                 <option value="DRAFT">Draft</option>
                 <option value="PENDING_APPROVAL">Pending Approval</option>
                 <option value="APPROVED">Approved</option>
+                <option value="PARTIALLY_RECEIVED">Partially Received</option>
                 <option value="REJECTED">Rejected</option>
                 <option value="COMPLETED">Completed</option>
                 <option value="CANCELLED">Cancelled</option>
@@ -169,7 +173,10 @@ export default function PurchaseOrdersPage() {
                   <div className="card">
                     <div className="flex justify-between items-start mb-3">
                       <div>
-                        <h3 className="text-lg font-bold text-[var(--accent-primary)]">{order.poNumber}</h3>
+                        <h3 className="text-lg font-bold text-[var(--accent-primary)]">
+                          {order.poNumber}
+                          {order.revision > 1 && ` rev ${order.revision}`}
+                        </h3>
                         <p className="text-sm text-[var(--text-secondary)]">{order.vendor.name}</p>
                       </div>
                       <span className={statusColors[order.status]}>
@@ -232,6 +239,7 @@ export default function PurchaseOrdersPage() {
                       <td className="py-3 px-4 text-sm font-medium text-[var(--accent-primary)]">
                         <Link href={`/purchase-orders/${order.id}`}>
                           {order.poNumber}
+                          {order.revision > 1 && ` rev ${order.revision}`}
                         </Link>
                       </td>
                       <td className="py-3 px-4 text-sm text-[var(--text-primary)]">
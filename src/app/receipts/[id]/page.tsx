@@ -32,6 +32,20 @@ type Receipt = {
   purchaseOrder: { id: string; poNumber: string } | null;
   user: { id: string; name: string | null; email: string | null } | null;
   lineItems: LineItem[];
+  policyViolations: { id: string; message: string; policy: { id: string; name: string } }[];
+  duplicateStatus: string | null;
+  duplicateReason: string | null;
+  // Only returned by GET, not after saving
+  duplicateOf?: {
+    id: string;
+    merchantName: string | null;
+    receiptDate: string | null;
+    totalAmount: number | null;
+    currency: string;
+    createdAt: string;
+    user: { id: string; name: string | null };
+  } | null;
+  duplicates?: { id: string; duplicateStatus: string | null; createdAt: string; user: { id: string; name: string | null } }[];
   createdAt: string;
   updatedAt: string;
 };
@@ -94,6 +108,8 @@ export default function ReceiptDetailPage({ params }: { params: Promise<{ id: st
   const [isEditing, setIsEditing] = useState(false);
   const [saving, setSaving] = useState(false);
   const [processing, setProcessing] = useState(false);
+  const [canResolveDuplicate, setCanResolveDuplicate] = useState(false);
+  const [resolvingDuplicate, setResolvingDuplicate] = useState(false);
   const [showFullImage, setShowFullImage] = useState(false);
   const [showPOLinking, setShowPOLinking] = useState(false);
   const [poSuggestions, setPOSuggestions] = useState<POSuggestion[]>([]);
@@ -150,6 +166,7 @@ export default function ReceiptDetailPage({ params }: { params: Promise<{ id: st
       }
       const data = await res.json();
       setReceipt(data.receipt);
+      setCanResolveDuplicate(!!data.canResolveDuplicate);
       // Initialize form data
       setFormData({
         merchantName: data.receipt.merchantName || '',
@@ -193,7 +210,7 @@ export default function ReceiptDetailPage({ params }: { params: Promise<{ id: st
       }
 
       const data = await res.json();
-      setReceipt(data.receipt);
+      setReceipt((prev) => ({ ...prev, ...data.receipt }));
       setIsEditing(false);
     } catch (err) {
       console.error('Error saving receipt:', err);
@@ -292,6 +309,29 @@ export default function ReceiptDetailPage({ params }: { params: Promise<{ id: st
     }
   };
 
+  const handleResolveDuplicate = async (resolution: 'confirmed' | 'dismissed') => {
+    try {
+      setResolvingDuplicate(true);
+      const res = await fetch(`/api/receipts/${id}/duplicate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resolution }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to resolve duplicate');
+      }
+
+      await fetchReceipt();
+    } catch (err) {
+      console.error('Error resolving duplicate:', err);
+      alert(err instanceof Error ? err.message : 'Failed to resolve duplicate');
+    } finally {
+      setResolvingDuplicate(false);
+    }
+  };
+
   const handleUnlinkPO = async () => {
     if (!confirm('Are you sure you want to unlink this receipt from the purchase order?')) {
       return;
@@ -322,7 +362,7 @@ export default function ReceiptDetailPage({ params }: { params: Promise<{ id: st
     try {
       setLoadingAllPOs(true);
       const params = new URLSearchParams({
-        status: 'DRAFT,PENDING_APPROVAL,APPROVED,COMPLETED,REJECTED',
+        status: 'DRAFT,PENDING_APPROVAL,APPROVED,PARTIALLY_RECEIVED,COMPLETED,REJECTED',
         page: pageNum.toString(),
         limit: '10',
       });
@@ -563,6 +603,87 @@ export default function ReceiptDetailPage({ params }: { params: Promise<{ id: st
           </div>
         </div>
 
+        {receipt.policyViolations.length > 0 && (
+          <div className="mb-6 rounded-[var(--radius-lg)] border border-[var(--warning-muted)] bg-[var(--warning-subtle)] px-4 py-3">
+            <p className="font-medium text-[var(--warning)]">
+              This receipt breaks {receipt.policyViolations.length === 1 ? 'an expense policy' : `${receipt.policyViolations.length} expense policies`}
+            </p>
+            <ul className="mt-1 text-sm text-[var(--text-secondary)] list-disc pl-5">
+              {receipt.policyViolations.map((violation) => (
+                <li key={violation.id}>
+                  <span className="font-medium text-[var(--text-primary)]">{violation.policy.name}:</span> {violation.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {(receipt.duplicateStatus === 'suspected' || receipt.duplicateStatus === 'confirmed') && (
+          <div className="mb-6 rounded-[var(--radius-lg)] border border-[var(--warning-muted)] bg-[var(--warning-subtle)] px-4 py-3">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <p className="font-medium text-[var(--warning)]">
+                  {receipt.duplicateStatus === 'confirmed' ? 'Confirmed duplicate' : 'Possible duplicate'}
+                  {receipt.duplicateReason && ` (${receipt.duplicateReason.toLowerCase()})`}
+                </p>
+                {receipt.duplicateOf ? (
+                  <p className="mt-1 text-sm text-[var(--text-secondary)]">
+                    Matches{' '}
+                    <Link href={`/receipts/${receipt.duplicateOf.id}`} className="text-[var(--accent-primary)] hover:underline">
+                      {receipt.duplicateOf.merchantName || 'a receipt'}
+                      {receipt.duplicateOf.receiptDate && ` on ${formatDate(receipt.duplicateOf.receiptDate)}`}
+                      {receipt.duplicateOf.totalAmount !== null &&
+                        ` for ${formatAmount(receipt.duplicateOf.totalAmount, receipt.duplicateOf.currency)}`}
+                    </Link>
+                    , uploaded by {receipt.duplicateOf.user.name || 'another user'} on {formatDate(receipt.duplicateOf.createdAt)}.
+                  </p>
+                ) : (
+                  <p className="mt-1 text-sm text-[var(--text-secondary)]">The original receipt has been deleted.</p>
+                )}
+                <p className="mt-1 text-sm text-[var(--text-secondary)]">
+                  {receipt.duplicateStatus === 'confirmed'
+                    ? 'It is not counted in expense report totals.'
+                    : 'It is not counted in expense report totals until someone resolves it.'}
+                </p>
+              </div>
+              {receipt.duplicateStatus === 'suspected' && canResolveDuplicate && (
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleResolveDuplicate('dismissed')}
+                    disabled={resolvingDuplicate}
+                    className="btn btn-secondary btn-sm"
+                  >
+                    Not a Duplicate
+                  </button>
+                  <button
+                    onClick={() => handleResolveDuplicate('confirmed')}
+                    disabled={resolvingDuplicate}
+                    className="btn btn-danger btn-sm"
+                  >
+                    Confirm Duplicate
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {receipt.duplicates && receipt.duplicates.length > 0 && (
+          <div className="mb-6 rounded-[var(--radius-lg)] border border-[var(--border-default)] bg-[var(--bg-tertiary)] px-4 py-3 text-sm text-[var(--text-secondary)]">
+            {receipt.duplicates.length === 1 ? 'Another receipt was' : `${receipt.duplicates.length} other receipts were`} flagged as a
+            copy of this one:{' '}
+            {receipt.duplicates.map((duplicate, index) => (
+              <span key={duplicate.id}>
+                {index > 0 && ', '}
+                <Link href={`/receipts/${duplicate.id}`} className="text-[var(--accent-primary)] hover:underline">
+                  {duplicate.user.name || 'Unknown'} on {formatDate(duplicate.createdAt)}
+                </Link>
+                {duplicate.duplicateStatus === 'dismissed' && ' (not a duplicate)'}
+              </span>
+            ))}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Image/PDF Section */}
           <div className="card overflow-hidden lg:sticky lg:top-4 lg:self-start">
@@ -10,12 +10,17 @@ type BudgetVarianceItem = {
   categoryName: string | null;
   categoryCode: string | null;
   departmentName: string | null;
+  accrualType: string;
+  phasing: string;
   budgetAmount: number;
   encumbered: number;
   actualSpent: number;
   available: number;
   variance: number;
   variancePercent: number;
+  ytdBudget: number;
+  ytdVariance: number;
+  ytdVariancePercent: number;
 };
 
 type GroupSubtotal = {
@@ -23,6 +28,7 @@ type GroupSubtotal = {
   spent: number;
   encumbered: number;
   available: number;
+  ytdBudget: number;
 };
 
 type BudgetVarianceReport = {
@@ -32,6 +38,8 @@ type BudgetVarianceReport = {
     totalSpent: number;
     totalEncumbered: number;
     totalAvailable: number;
+    totalYtdBudget: number;
+    totalYtdVariance: number;
   };
   items: BudgetVarianceItem[];
   byCategory: Record<string, GroupSubtotal>;
@@ -172,7 +180,7 @@ export default function BudgetVariancePage() {
       ) : (
         <>
           {/* Summary Stat Cards */}
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4 mb-8">
             <div className="stat-card">
               <div className="stat-label">Total Budget</div>
               <div className="stat-value">
@@ -197,6 +205,18 @@ export default function BudgetVariancePage() {
                 {formatCurrency(report.summary.totalAvailable)}
               </div>
             </div>
+            <div className="stat-card">
+              <div className="stat-label">YTD Phased Budget</div>
+              <div className="stat-value">
+                {formatCurrency(report.summary.totalYtdBudget)}
+              </div>
+            </div>
+            <div className="stat-card">
+              <div className="stat-label">YTD Variance</div>
+              <div className={`stat-value ${report.summary.totalYtdVariance >= 0 ? 'text-[var(--success)]' : 'text-[var(--error)]'}`}>
+                {formatCurrency(report.summary.totalYtdVariance)}
+              </div>
+            </div>
           </div>
 
           {/* Detailed Table */}
@@ -261,6 +281,18 @@ export default function BudgetVariancePage() {
                         {formatCurrency(item.available)}
                       </span>
                     </div>
+                    <div className="flex justify-between">
+                      <span className="text-[var(--text-secondary)]">YTD Budget:</span>
+                      <span className="text-[var(--text-primary)]">
+                        {formatCurrency(item.ytdBudget)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-[var(--text-secondary)]">YTD Variance:</span>
+                      <span className={getVarianceColor(item.ytdVariancePercent)}>
+                        {formatCurrency(item.ytdVariance)} ({item.ytdVariancePercent.toFixed(1)}%)
+                      </span>
+                    </div>
                   </div>
                 </div>
               ))}
@@ -280,6 +312,8 @@ export default function BudgetVariancePage() {
                     <th scope="col" className="text-right py-3 px-4">Spent</th>
                     <th scope="col" className="text-right py-3 px-4">Available</th>
                     <th scope="col" className="text-right py-3 px-4">Variance %</th>
+                    <th scope="col" className="text-right py-3 px-4">YTD Budget</th>
+                    <th scope="col" className="text-right py-3 px-4">YTD Variance</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -314,6 +348,20 @@ export default function BudgetVariancePage() {
                           {item.variancePercent.toFixed(1)}%
                         </span>
                       </td>
+                      <td className="py-3 px-4 text-sm text-[var(--text-primary)] text-right">
+                        {formatCurrency(item.ytdBudget)}
+                        {item.accrualType !== 'ANNUAL' && (
+                          <div className="text-xs text-[var(--text-muted)]">
+                            {item.accrualType === 'MONTHLY' ? 'Monthly' : 'Quarterly'}
+                            {item.phasing === 'CUSTOM' ? ', custom' : ''}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-right">
+                        <span className={getVarianceColor(item.ytdVariancePercent)}>
+                          {formatCurrency(item.ytdVariance)}
+                        </span>
+                      </td>
                     </tr>
                   ))}
                 </tbody>
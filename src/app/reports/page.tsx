@@ -24,6 +24,7 @@ type ExpenseReport = {
   summary: {
     totalExpenses: number;
     receiptCount: number;
+    entryCount: number;
     averageExpense: number;
     topCategory: string | null;
     topVendor: string | null;
@@ -174,7 +175,7 @@ export default function ReportsPage() {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         {/* Header */}
         <div className="mb-8">
-          <h1 className="page-title">Expense Reports</h1>
+          <h1 className="page-title">Spending Reports</h1>
           <p className="text-[var(--text-secondary)] mt-1">
             Generate and export expense reports by date range, category, or department
           </p>
@@ -310,6 +311,11 @@ export default function ReportsPage() {
                   {report.summary.receiptCount}
                 </div>
                 <div className="stat-label">Total Receipts</div>
+                {report.summary.entryCount > 0 && (
+                  <div className="text-xs text-[var(--text-muted)] mt-1">
+                    + {report.summary.entryCount} mileage/per diem
+                  </div>
+                )}
               </div>
               <div className="stat-card">
                 <div className="stat-value">
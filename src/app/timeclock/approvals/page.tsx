@@ -25,6 +25,14 @@ type TimeclockEntry = {
   breakDeducted: number | null;
   autoApproved: boolean;
   flagReason: string | null;
+  breakViolations: string | null;
+  locationViolations: string | null;
+  breaks?: {
+    id: string;
+    type: string;
+    isPaid: boolean;
+    duration: number | null;
+  }[];
   status: string;
   isLocked: boolean;
   rejectedNote: string | null;
@@ -41,6 +49,42 @@ type TimeclockEntry = {
 
 type MissedPunch = TimeclockEntry & { clockOut: null };
 
+type BreakViolation = {
+  rule: string;
+  message: string;
+};
+
+function parseBreakViolations(entry: TimeclockEntry): BreakViolation[] {
+  if (!entry.breakViolations) return [];
+  try {
+    return JSON.parse(entry.breakViolations) as BreakViolation[];
+  } catch {
+    return [];
+  }
+}
+
+type LocationViolation = {
+  punch: 'clock_in' | 'clock_out' | 'break_start' | 'break_end' | 'job_switch';
+  message: string;
+};
+
+const PUNCH_LABELS: Record<string, string> = {
+  clock_in: 'Clock in',
+  clock_out: 'Clock out',
+  break_start: 'Break start',
+  break_end: 'Break end',
+  job_switch: 'Job switch',
+};
+
+function parseLocationViolations(entry: TimeclockEntry): LocationViolation[] {
+  if (!entry.locationViolations) return [];
+  try {
+    return JSON.parse(entry.locationViolations) as LocationViolation[];
+  } catch {
+    return [];
+  }
+}
+
 type GroupedEntries = {
   [userId: string]: {
     user: TimeclockEntry['user'];
@@ -267,6 +311,53 @@ export default function PendingApprovalsPage() {
       );
     }
 
+    const breakViolations = parseBreakViolations(entry);
+    if (breakViolations.length > 0) {
+      badges.push(
+        <span
+          key="break-violation"
+          className="badge text-xs"
+          style={{ background: 'var(--error)', color: 'white' }}
+          title={breakViolations.map((v) => v.message).join('\n')}
+        >
+          Break Violation
+        </span>
+      );
+    }
+
+    const locationViolations = parseLocationViolations(entry);
+    if (locationViolations.length > 0) {
+      badges.push(
+        <span
+          key="location-violation"
+          className="badge text-xs"
+          style={{ background: 'var(--error)', color: 'white' }}
+          title={locationViolations
+            .map((v) => `${PUNCH_LABELS[v.punch] || v.punch}: ${v.message}`)
+            .join('\n')}
+        >
+          Outside Area
+        </span>
+      );
+    }
+
+    if (entry.breaks && entry.breaks.length > 0) {
+      const meals = entry.breaks.filter((b) => b.type === 'MEAL').length;
+      const rests = entry.breaks.length - meals;
+      badges.push(
+        <span
+          key="break-punches"
+          className="badge text-xs"
+          style={{ background: 'var(--bg-hover)', color: 'var(--text-secondary)' }}
+          title={entry.breaks
+            .map((b) => `${b.type === 'MEAL' ? 'Meal' : 'Rest'} ${b.isPaid ? '(paid)' : '(unpaid)'}: ${Math.round((b.duration || 0) / 60)}m`)
+            .join('\n')}
+        >
+          {[meals > 0 && `${meals} meal`, rests > 0 && `${rests} rest`].filter(Boolean).join(', ')}
+        </span>
+      );
+    }
+
     if (entry.breakDeducted && entry.breakDeducted > 0) {
       badges.push(
         <span
@@ -477,6 +568,40 @@ export default function PendingApprovalsPage() {
         </div>
       )}
 
+      {/* Break Compliance */}
+      {entries.some((e) => parseBreakViolations(e).length > 0) && (
+        <div
+          className="card mb-6 animate-fade-in-up"
+          style={{
+            animationDelay: '90ms',
+            borderColor: 'var(--warning)',
+            borderWidth: '1px',
+            borderStyle: 'solid',
+          }}
+        >
+          <h2 className="section-title mb-3" style={{ color: 'var(--warning)' }}>
+            Break Compliance
+          </h2>
+          <div className="space-y-2">
+            {entries
+              .filter((e) => parseBreakViolations(e).length > 0)
+              .map((entry) => (
+                <div key={entry.id} className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-4 text-sm">
+                  <span className="font-medium" style={{ color: 'var(--text-primary)' }}>
+                    {entry.user.name}
+                  </span>
+                  <span className="font-mono" style={{ color: 'var(--text-secondary)' }}>
+                    {new Date(entry.clockIn).toLocaleDateString()}
+                  </span>
+                  <span style={{ color: 'var(--text-muted)' }}>
+                    {parseBreakViolations(entry).map((v) => v.message).join('; ')}
+                  </span>
+                </div>
+              ))}
+          </div>
+        </div>
+      )}
+
       {/* Bulk Actions */}
       {selectedIds.size > 0 && (
         <div className="card mb-4 animate-fade-in" style={{ background: 'var(--bg-secondary)' }}>
@@ -0,0 +1,303 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+
+type CorrectionRequest = {
+  id: string;
+  userId: string;
+  type: string;
+  requestedClockIn: string | null;
+  requestedClockOut: string | null;
+  originalClockIn: string | null;
+  originalClockOut: string | null;
+  reason: string;
+  status: string;
+  reviewedAt: string | null;
+  reviewNote: string | null;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    department: {
+      id: string;
+      name: string;
+    } | null;
+  };
+  reviewedBy: {
+    id: string;
+    name: string;
+  } | null;
+};
+
+const CORRECTION_TYPES: Record<string, string> = {
+  missed_clock_out: 'Missed clock-out',
+  wrong_clock_in: 'Wrong clock-in time',
+  wrong_clock_out: 'Wrong clock-out time',
+  add_shift: 'Forgotten shift',
+};
+
+const STATUS_BADGES: Record<string, string> = {
+  pending: 'badge-warning',
+  approved: 'badge-success',
+  denied: 'badge-error',
+  cancelled: 'badge-neutral',
+};
+
+export default function CorrectionRequestsPage() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [corrections, setCorrections] = useState<CorrectionRequest[]>([]);
+  const [statusFilter, setStatusFilter] = useState('pending');
+
+  // Denial modal
+  const [denyTarget, setDenyTarget] = useState<CorrectionRequest | null>(null);
+  const [denyNote, setDenyNote] = useState('');
+
+  const fetchCorrections = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const params = new URLSearchParams({ scope: 'team' });
+      if (statusFilter !== 'all') {
+        params.set('status', statusFilter);
+      }
+
+      const res = await fetch(`/api/timeclock/corrections?${params}`);
+      const data = await res.json();
+
+      if (res.ok) {
+        setCorrections(data.corrections || []);
+      } else if (res.status === 403) {
+        router.push('/');
+      }
+    } catch (error) {
+      console.error('Error fetching correction requests:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, router]);
+
+  useEffect(() => {
+    fetchCorrections();
+  }, [fetchCorrections]);
+
+  const handleApprove = async (correction: CorrectionRequest) => {
+    try {
+      setReviewing(correction.id);
+      setError(null);
+
+      const res = await fetch(`/api/timeclock/corrections/${correction.id}/approve`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to approve correction request');
+        return;
+      }
+
+      await fetchCorrections();
+    } catch (error) {
+      console.error('Error approving correction request:', error);
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  const handleConfirmDeny = async () => {
+    if (!denyTarget) return;
+
+    try {
+      setReviewing(denyTarget.id);
+      setError(null);
+
+      const res = await fetch(`/api/timeclock/corrections/${denyTarget.id}/deny`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rejectedNote: denyNote.trim() || undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to deny correction request');
+        return;
+      }
+
+      setDenyTarget(null);
+      setDenyNote('');
+      await fetchCorrections();
+    } catch (error) {
+      console.error('Error denying correction request:', error);
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+  return (
+    <div className="page-container">
+      {/* Page Header */}
+      <header className="page-header animate-fade-in">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="page-title">Timesheet Corrections</h1>
+            <p className="page-subtitle">Review punch corrections requested by your team</p>
+          </div>
+          <div>
+            <label htmlFor="correctionStatus" className="block text-sm font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>
+              Status
+            </label>
+            <select
+              id="correctionStatus"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="input"
+            >
+              <option value="pending">Pending</option>
+              <option value="approved">Approved</option>
+              <option value="denied">Denied</option>
+              <option value="cancelled">Cancelled</option>
+              <option value="all">All</option>
+            </select>
+          </div>
+        </div>
+      </header>
+
+      {error && (
+        <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--error-muted)] bg-[var(--error-subtle)] text-[var(--error)] px-4 py-3">
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="card animate-fade-in-up" style={{ animationDelay: '50ms' }}>
+        {loading ? (
+          <div className="animate-pulse space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-12 bg-[var(--bg-hover)] rounded"></div>
+            ))}
+          </div>
+        ) : corrections.length === 0 ? (
+          <div className="empty-state">
+            <p className="empty-state-title">No correction requests</p>
+            <p className="empty-state-description">
+              {statusFilter === 'pending' ? 'Nothing is waiting for review.' : 'No requests match this filter.'}
+            </p>
+          </div>
+        ) : (
+          <div className="table-container">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Employee</th>
+                  <th>Correction</th>
+                  <th>Recorded</th>
+                  <th>Requested</th>
+                  <th>Status</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {corrections.map((correction) => (
+                  <tr key={correction.id}>
+                    <td>
+                      <div className="font-medium text-[var(--text-primary)]">{correction.user.name}</div>
+                      <div className="text-xs text-[var(--text-muted)]">
+                        {correction.user.department?.name || 'No department'}
+                      </div>
+                    </td>
+                    <td>
+                      <div>{CORRECTION_TYPES[correction.type] || correction.type}</div>
+                      <div className="text-xs text-[var(--text-muted)]">{correction.reason}</div>
+                    </td>
+                    <td className="font-mono text-sm">
+                      {correction.type === 'add_shift' ? (
+                        <span className="text-[var(--text-muted)]">No entry</span>
+                      ) : (
+                        <>
+                          <div>In: {formatTime(correction.originalClockIn)}</div>
+                          <div>Out: {formatTime(correction.originalClockOut)}</div>
+                        </>
+                      )}
+                    </td>
+                    <td className="font-mono text-sm">
+                      {correction.requestedClockIn && <div>In: {formatTime(correction.requestedClockIn)}</div>}
+                      {correction.requestedClockOut && <div>Out: {formatTime(correction.requestedClockOut)}</div>}
+                    </td>
+                    <td>
+                      <span className={`badge ${STATUS_BADGES[correction.status] || 'badge-neutral'}`}>
+                        {correction.status}
+                      </span>
+                      {correction.reviewedBy && (
+                        <div className="text-xs text-[var(--text-muted)] mt-1">by {correction.reviewedBy.name}</div>
+                      )}
+                      {correction.reviewNote && (
+                        <div className="text-xs text-[var(--text-muted)]">{correction.reviewNote}</div>
+                      )}
+                    </td>
+                    <td>
+                      {correction.status === 'pending' && (
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => handleApprove(correction)}
+                            disabled={reviewing !== null}
+                            className="btn btn-primary btn-sm"
+                          >
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => setDenyTarget(correction)}
+                            disabled={reviewing !== null}
+                            className="btn btn-secondary btn-sm"
+                          >
+                            Deny
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Deny Modal */}
+      {denyTarget && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4" style={{ background: 'rgba(0,0,0,0.5)' }}>
+          <div className="card w-full max-w-md animate-fade-in">
+            <h3 className="section-title mb-4">Deny Correction for {denyTarget.user.name}</h3>
+            <p className="text-sm mb-4" style={{ color: 'var(--text-secondary)' }}>
+              Optionally explain why. The note is shown to the employee on their time history.
+            </p>
+            <textarea
+              value={denyNote}
+              onChange={(e) => setDenyNote(e.target.value)}
+              placeholder="Enter reason for denial..."
+              className="input w-full h-24 resize-none mb-4"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setDenyTarget(null)}
+                disabled={reviewing !== null}
+                className="btn btn-secondary"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmDeny}
+                disabled={reviewing !== null}
+                className="btn"
+                style={{ background: 'var(--error)', color: 'white' }}
+              >
+                {reviewing ? 'Denying...' : 'Confirm Deny'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
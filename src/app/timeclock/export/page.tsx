@@ -22,12 +22,19 @@ interface ExportTemplate {
   isDefault: boolean;
 }
 
+interface PayrollProvider {
+  id: string;
+  label: string;
+  description: string;
+}
+
 interface PreviewRow {
   employeeId: string;
   employeeName: string;
   department: string;
   regularHours: string;
   dailyOvertimeHours: string;
+  doubleTimeHours: string;
   weeklyOvertimeHours: string;
   totalHours: string;
 }
@@ -39,11 +46,13 @@ export default function ExportPage() {
   const [loading, setLoading] = useState(true);
   const [exporting, setExporting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [problems, setProblems] = useState<string[]>([]);
 
   // Options
   const [payPeriods, setPayPeriods] = useState<PayPeriod[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
   const [templates, setTemplates] = useState<ExportTemplate[]>([]);
+  const [payrollProviders, setPayrollProviders] = useState<PayrollProvider[]>([]);
 
   // Selection state
   const [selectedPeriodIndex, setSelectedPeriodIndex] = useState(0);
@@ -106,6 +115,13 @@ export default function ExportPage() {
         }
       }
 
+      // Fetch native payroll provider formats
+      const providersRes = await fetch('/api/timeclock/payroll-providers');
+      if (providersRes.ok) {
+        const providersData = await providersRes.json();
+        setPayrollProviders(providersData.providers || []);
+      }
+
       // Generate pay periods
       setPayPeriods(generatePayPeriods());
     } catch (err) {
@@ -179,6 +195,8 @@ export default function ExportPage() {
     }
   }, [loading, payPeriods, selectedPeriodIndex, selectedDepartment, selectedTemplate, fetchPreview]);
 
+  const selectedProvider = payrollProviders.find((p) => p.id === selectedFormat);
+
   const handleExport = async () => {
     const period = payPeriods[selectedPeriodIndex];
     if (!period) return;
@@ -186,6 +204,7 @@ export default function ExportPage() {
     try {
       setExporting(true);
       setError(null);
+      setProblems([]);
 
       const params = new URLSearchParams({
         format: selectedFormat,
@@ -193,11 +212,16 @@ export default function ExportPage() {
         periodEnd: period.end,
       });
 
+      if (selectedProvider) {
+        params.delete('format');
+        params.set('provider', selectedProvider.id);
+      }
+
       if (selectedDepartment !== 'all') {
         params.set('departmentId', selectedDepartment);
       }
 
-      if (selectedTemplate) {
+      if (selectedTemplate && !selectedProvider) {
         params.set('templateId', selectedTemplate);
       }
 
@@ -205,6 +229,7 @@ export default function ExportPage() {
 
       if (!res.ok) {
         const data = await res.json();
+        setProblems(data.problems || []);
         throw new Error(data.error || 'Export failed');
       }
 
@@ -255,6 +280,13 @@ export default function ExportPage() {
       {error && (
         <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--error-muted)] bg-[var(--error-subtle)] text-[var(--error)] px-4 py-3">
           {error}
+          {problems.length > 0 && (
+            <ul className="mt-2 list-disc list-inside text-sm">
+              {problems.map((problem) => (
+                <li key={problem}>{problem}</li>
+              ))}
+            </ul>
+          )}
         </div>
       )}
 
@@ -330,6 +362,7 @@ export default function ExportPage() {
             value={selectedTemplate}
             onChange={(e) => setSelectedTemplate(e.target.value)}
             className="form-input form-select"
+            disabled={!!selectedProvider}
           >
             <option value="">Default Template</option>
             {templates.map((template) => (
@@ -380,6 +413,33 @@ export default function ExportPage() {
               <span className="text-sm">PDF Timesheets</span>
             </label>
           </div>
+          {payrollProviders.length > 0 && (
+            <>
+              <p className="text-sm text-[var(--text-secondary)] mt-4 mb-2">Payroll provider import file</p>
+              <div className="flex flex-wrap gap-4">
+                {payrollProviders.map((provider) => (
+                  <label key={provider.id} className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name="format"
+                      value={provider.id}
+                      checked={selectedFormat === provider.id}
+                      onChange={(e) => setSelectedFormat(e.target.value)}
+                      className="h-4 w-4 text-[var(--accent-primary)]"
+                    />
+                    <span className="text-sm">{provider.label}</span>
+                  </label>
+                ))}
+              </div>
+              {selectedProvider && (
+                <p className="text-xs text-[var(--text-muted)] mt-2">
+                  {selectedProvider.description}. Uses the codes set under{' '}
+                  <Link href="/admin/timeclock/payroll-providers" className="underline">Payroll Providers</Link>
+                  {' '}and each employee&apos;s payroll ID; the export template is not used.
+                </p>
+              )}
+            </>
+          )}
         </div>
 
         {/* Preview Table */}
@@ -415,6 +475,10 @@ export default function ExportPage() {
                         <span className="text-[var(--text-secondary)]">Daily OT:</span>
                         <span className="text-[var(--text-primary)]">{row.dailyOvertimeHours}h</span>
                       </div>
+                      <div className="flex justify-between">
+                        <span className="text-[var(--text-secondary)]">Double Time:</span>
+                        <span className="text-[var(--text-primary)]">{row.doubleTimeHours}h</span>
+                      </div>
                       <div className="flex justify-between">
                         <span className="text-[var(--text-secondary)]">Weekly OT:</span>
                         <span className="text-[var(--text-primary)]">{row.weeklyOvertimeHours}h</span>
@@ -437,6 +501,7 @@ export default function ExportPage() {
                       <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase">Dept</th>
                       <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase">Regular</th>
                       <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase">Daily OT</th>
+                      <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase">Double Time</th>
                       <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase">Weekly OT</th>
                       <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase">Total</th>
                     </tr>
@@ -448,6 +513,7 @@ export default function ExportPage() {
                         <td className="px-4 py-2 text-sm text-[var(--text-muted)]">{row.department}</td>
                         <td className="px-4 py-2 text-sm text-[var(--text-primary)] text-right">{row.regularHours}</td>
                         <td className="px-4 py-2 text-sm text-[var(--text-primary)] text-right">{row.dailyOvertimeHours}</td>
+                        <td className="px-4 py-2 text-sm text-[var(--text-primary)] text-right">{row.doubleTimeHours}</td>
                         <td className="px-4 py-2 text-sm text-[var(--text-primary)] text-right">{row.weeklyOvertimeHours}</td>
                         <td className="px-4 py-2 text-sm font-medium text-[var(--text-primary)] text-right">{row.totalHours}</td>
                       </tr>
@@ -35,6 +35,51 @@ type Summary = {
   };
 };
 
+type CorrectionRequest = {
+  id: string;
+  entryId: string | null;
+  type: string;
+  requestedClockIn: string | null;
+  requestedClockOut: string | null;
+  reason: string;
+  status: string;
+  reviewNote: string | null;
+  createdAt: string;
+  reviewedBy: {
+    id: string;
+    name: string;
+  } | null;
+};
+
+type CorrectionForm = {
+  type: string;
+  entry: TimeclockEntry | null;
+  clockIn: string;
+  clockOut: string;
+  reason: string;
+};
+
+const CORRECTION_TYPES: Record<string, string> = {
+  missed_clock_out: 'Missed clock-out',
+  wrong_clock_in: 'Wrong clock-in time',
+  wrong_clock_out: 'Wrong clock-out time',
+  add_shift: 'Forgotten shift',
+};
+
+const CORRECTION_BADGES: Record<string, string> = {
+  pending: 'badge-warning',
+  approved: 'badge-success',
+  denied: 'badge-error',
+  cancelled: 'badge-neutral',
+};
+
+// Value for a datetime-local input, in the browser's timezone
+const toLocalInput = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
 const DATE_PRESETS = [
   { value: '', label: 'All Time' },
   { value: 'this_week', label: 'This Week' },
@@ -65,10 +110,20 @@ export default function TimeclockHistoryPage() {
   const [status, setStatus] = useState('all');
   const [page, setPage] = useState(1);
 
+  // Correction requests
+  const [corrections, setCorrections] = useState<CorrectionRequest[]>([]);
+  const [correctionForm, setCorrectionForm] = useState<CorrectionForm | null>(null);
+  const [correctionError, setCorrectionError] = useState<string | null>(null);
+  const [submittingCorrection, setSubmittingCorrection] = useState(false);
+
   useEffect(() => {
     fetchHistory();
   }, [preset, status, page]);
 
+  useEffect(() => {
+    fetchCorrections();
+  }, []);
+
   const fetchHistory = async () => {
     try {
       setLoading(true);
@@ -93,6 +148,96 @@ export default function TimeclockHistoryPage() {
     }
   };
 
+  const fetchCorrections = async () => {
+    try {
+      const res = await fetch('/api/timeclock/corrections');
+      const data = await res.json();
+
+      if (res.ok) {
+        setCorrections(data.corrections || []);
+      }
+    } catch (error) {
+      console.error('Error fetching correction requests:', error);
+    }
+  };
+
+  const openCorrection = (entry: TimeclockEntry | null) => {
+    setCorrectionError(null);
+    setCorrectionForm({
+      type: entry ? (entry.clockOut ? 'wrong_clock_out' : 'missed_clock_out') : 'add_shift',
+      entry,
+      clockIn: toLocalInput(entry?.clockIn ?? null),
+      clockOut: toLocalInput(entry?.clockOut ?? null),
+      reason: '',
+    });
+  };
+
+  const handleSubmitCorrection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!correctionForm) return;
+
+    const needsClockIn = correctionForm.type === 'wrong_clock_in' || correctionForm.type === 'add_shift';
+    const needsClockOut = correctionForm.type !== 'wrong_clock_in';
+
+    try {
+      setSubmittingCorrection(true);
+      setCorrectionError(null);
+
+      const res = await fetch('/api/timeclock/corrections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: correctionForm.type,
+          entryId: correctionForm.entry?.id,
+          requestedClockIn: needsClockIn && correctionForm.clockIn
+            ? new Date(correctionForm.clockIn).toISOString()
+            : undefined,
+          requestedClockOut: needsClockOut && correctionForm.clockOut
+            ? new Date(correctionForm.clockOut).toISOString()
+            : undefined,
+          reason: correctionForm.reason,
+        }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setCorrectionError(data.error || 'Failed to submit correction request');
+        return;
+      }
+
+      setCorrectionForm(null);
+      await fetchCorrections();
+    } catch (error) {
+      console.error('Error submitting correction request:', error);
+      setCorrectionError('Failed to submit correction request');
+    } finally {
+      setSubmittingCorrection(false);
+    }
+  };
+
+  const handleCancelCorrection = async (correction: CorrectionRequest) => {
+    if (!confirm('Cancel this correction request?')) return;
+
+    try {
+      const res = await fetch(`/api/timeclock/corrections/${correction.id}`, { method: 'DELETE' });
+      if (res.ok) {
+        await fetchCorrections();
+      } else {
+        const data = await res.json();
+        alert(data.error || 'Failed to cancel correction request');
+      }
+    } catch (error) {
+      console.error('Error cancelling correction request:', error);
+    }
+  };
+
+  const pendingCorrectionEntryIds = new Set(
+    corrections.filter((c) => c.status === 'pending' && c.entryId).map((c) => c.entryId)
+  );
+
+  const canRequestCorrection = (entry: TimeclockEntry) =>
+    !entry.isLocked && !pendingCorrectionEntryIds.has(entry.id);
+
   const handleExport = async () => {
     try {
       setExporting(true);
@@ -178,15 +323,23 @@ export default function TimeclockHistoryPage() {
             <h1 className="page-title">Time History</h1>
             <p className="page-subtitle">View and export your complete timeclock history</p>
           </div>
-          <button
-            onClick={() => router.push('/')}
-            className="btn btn-secondary"
-          >
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
-              <path strokeLinecap="round" strokeLinejoin="round" d="M10 19l-7-7m0 0l7-7m-7 7h18" />
-            </svg>
-            Back to Timeclock
-          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => openCorrection(null)}
+              className="btn btn-secondary"
+            >
+              Add Forgotten Shift
+            </button>
+            <button
+              onClick={() => router.push('/')}
+              className="btn btn-secondary"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+              Back to Timeclock
+            </button>
+          </div>
         </div>
       </header>
 
@@ -382,6 +535,14 @@ export default function TimeclockHistoryPage() {
                     <span className="font-medium">Note:</span> {entry.rejectedNote}
                   </div>
                 )}
+                {canRequestCorrection(entry) && (
+                  <button
+                    onClick={() => openCorrection(entry)}
+                    className="btn btn-secondary btn-sm w-full mt-3"
+                  >
+                    Request Correction
+                  </button>
+                )}
               </div>
             ))}
           </div>
@@ -396,6 +557,7 @@ export default function TimeclockHistoryPage() {
                   <th scope="col">Clock Out</th>
                   <th scope="col">Duration</th>
                   <th scope="col">Status</th>
+                  <th scope="col"><span className="sr-only">Actions</span></th>
                 </tr>
               </thead>
               <tbody>
@@ -442,6 +604,18 @@ export default function TimeclockHistoryPage() {
                         </div>
                       )}
                     </td>
+                    <td className="text-right">
+                      {pendingCorrectionEntryIds.has(entry.id) ? (
+                        <span className="text-xs" style={{ color: 'var(--text-muted)' }}>Correction pending</span>
+                      ) : canRequestCorrection(entry) && (
+                        <button
+                          onClick={() => openCorrection(entry)}
+                          className="btn btn-secondary btn-sm"
+                        >
+                          Request Correction
+                        </button>
+                      )}
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -479,6 +653,157 @@ export default function TimeclockHistoryPage() {
           </div>
         )}
       </div>
+
+      {/* Correction Requests */}
+      {corrections.length > 0 && (
+        <div className="card mt-6 animate-fade-in-up" style={{ animationDelay: '200ms' }}>
+          <h2 className="section-title mb-4">Correction Requests</h2>
+          <div className="table-container">
+            <table className="table" aria-label="Correction requests">
+              <thead>
+                <tr>
+                  <th scope="col">Requested</th>
+                  <th scope="col">Correction</th>
+                  <th scope="col">New Times</th>
+                  <th scope="col">Status</th>
+                  <th scope="col"><span className="sr-only">Actions</span></th>
+                </tr>
+              </thead>
+              <tbody>
+                {corrections.map((correction) => (
+                  <tr key={correction.id}>
+                    <td className="font-mono">{new Date(correction.createdAt).toLocaleDateString()}</td>
+                    <td>
+                      <div>{CORRECTION_TYPES[correction.type] || correction.type}</div>
+                      <div className="text-xs" style={{ color: 'var(--text-muted)' }}>{correction.reason}</div>
+                    </td>
+                    <td className="font-mono text-sm">
+                      {correction.requestedClockIn && (
+                        <div>In: {new Date(correction.requestedClockIn).toLocaleString()}</div>
+                      )}
+                      {correction.requestedClockOut && (
+                        <div>Out: {new Date(correction.requestedClockOut).toLocaleString()}</div>
+                      )}
+                    </td>
+                    <td>
+                      <span className={`badge ${CORRECTION_BADGES[correction.status] || 'badge-neutral'}`}>
+                        {correction.status}
+                      </span>
+                      {correction.reviewNote && (
+                        <div className="mt-1 text-xs" style={{ color: 'var(--text-muted)' }}>
+                          <span className="font-medium">Note:</span> {correction.reviewNote}
+                        </div>
+                      )}
+                    </td>
+                    <td className="text-right">
+                      {correction.status === 'pending' && (
+                        <button
+                          onClick={() => handleCancelCorrection(correction)}
+                          className="btn btn-secondary btn-sm"
+                        >
+                          Cancel
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Correction Modal */}
+      {correctionForm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4" style={{ background: 'rgba(0,0,0,0.5)' }}>
+          <form onSubmit={handleSubmitCorrection} className="card w-full max-w-md animate-fade-in">
+            <h3 className="section-title mb-4">
+              {correctionForm.entry ? 'Request Correction' : 'Add Forgotten Shift'}
+            </h3>
+            {correctionForm.entry && (
+              <p className="text-sm mb-4" style={{ color: 'var(--text-secondary)' }}>
+                Entry from {new Date(correctionForm.entry.clockIn).toLocaleString()}
+                {correctionForm.entry.clockOut && ` to ${new Date(correctionForm.entry.clockOut).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+              </p>
+            )}
+
+            {correctionError && (
+              <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--error-muted)] bg-[var(--error-subtle)] text-[var(--error)] px-4 py-3">
+                <p>{correctionError}</p>
+              </div>
+            )}
+
+            <div className="space-y-4 mb-4">
+              {correctionForm.entry?.clockOut && (
+                <div>
+                  <label htmlFor="correctionType" className="form-label">What needs fixing?</label>
+                  <select
+                    id="correctionType"
+                    value={correctionForm.type}
+                    onChange={(e) => setCorrectionForm({ ...correctionForm, type: e.target.value })}
+                    className="form-select"
+                  >
+                    <option value="wrong_clock_in">{CORRECTION_TYPES.wrong_clock_in}</option>
+                    <option value="wrong_clock_out">{CORRECTION_TYPES.wrong_clock_out}</option>
+                  </select>
+                </div>
+              )}
+              {(correctionForm.type === 'wrong_clock_in' || correctionForm.type === 'add_shift') && (
+                <div>
+                  <label htmlFor="correctionClockIn" className="form-label">Clock In</label>
+                  <input
+                    id="correctionClockIn"
+                    type="datetime-local"
+                    value={correctionForm.clockIn}
+                    onChange={(e) => setCorrectionForm({ ...correctionForm, clockIn: e.target.value })}
+                    className="form-input"
+                    required
+                  />
+                </div>
+              )}
+              {correctionForm.type !== 'wrong_clock_in' && (
+                <div>
+                  <label htmlFor="correctionClockOut" className="form-label">Clock Out</label>
+                  <input
+                    id="correctionClockOut"
+                    type="datetime-local"
+                    value={correctionForm.clockOut}
+                    onChange={(e) => setCorrectionForm({ ...correctionForm, clockOut: e.target.value })}
+                    className="form-input"
+                    required
+                  />
+                </div>
+              )}
+              <div>
+                <label htmlFor="correctionReason" className="form-label">Reason</label>
+                <textarea
+                  id="correctionReason"
+                  value={correctionForm.reason}
+                  onChange={(e) => setCorrectionForm({ ...correctionForm, reason: e.target.value })}
+                  placeholder="e.g. Forgot to clock out when leaving"
+                  className="input w-full h-20 resize-none"
+                  maxLength={1000}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setCorrectionForm(null)}
+                disabled={submittingCorrection}
+                className="btn btn-secondary"
+              >
+                Cancel
+              </button>
+              <button type="submit" disabled={submittingCorrection} className="btn btn-primary">
+                {submittingCorrection ? 'Submitting...' : 'Submit Request'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
     </div>
   );
 }
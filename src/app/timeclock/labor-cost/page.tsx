@@ -0,0 +1,397 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+
+interface PayPeriod {
+  start: string;
+  end: string;
+  label: string;
+}
+
+interface Department {
+  id: string;
+  name: string;
+}
+
+interface CostLine {
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
+  totalHours: number;
+  regularCost: number;
+  overtimeCost: number;
+  doubleTimeCost: number;
+  totalCost: number;
+  unratedHours: number;
+}
+
+interface EmployeeCost extends CostLine {
+  userId: string;
+  name: string;
+  departmentName: string | null;
+  currentRate: number | null;
+}
+
+interface DepartmentCost extends CostLine {
+  departmentId: string | null;
+  departmentName: string | null;
+  employeeCount: number;
+}
+
+interface Posting {
+  departmentId: string;
+  amount: number;
+  hours: number;
+  postedAt: string;
+  budgetItem: { id: string; code: string; description: string };
+}
+
+interface LaborCostReport {
+  employees: EmployeeCost[];
+  departments: DepartmentCost[];
+  totals: CostLine;
+  multipliers: { overtimeMultiplier: number; doubleTimeMultiplier: number };
+  postings: Posting[];
+  canPost: boolean;
+}
+
+const formatMoney = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+export default function LaborCostPage() {
+  const { status } = useSession();
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [loadingReport, setLoadingReport] = useState(false);
+  const [posting, setPosting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [payPeriods, setPayPeriods] = useState<PayPeriod[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [selectedPeriodIndex, setSelectedPeriodIndex] = useState(0);
+  const [selectedDepartment, setSelectedDepartment] = useState('all');
+  const [report, setReport] = useState<LaborCostReport | null>(null);
+
+  const fetchOptions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const deptRes = await fetch('/api/departments');
+      if (deptRes.ok) {
+        const deptData = await deptRes.json();
+        setDepartments(deptData.departments || []);
+      }
+
+      // Pay periods as configured, most recent first
+      const periodsRes = await fetch('/api/timeclock');
+      if (!periodsRes.ok) {
+        throw new Error('Failed to load pay periods');
+      }
+      const periodsData = await periodsRes.json();
+      setPayPeriods(
+        (periodsData.availablePeriods || []).map((period: { startDate: string; endDate: string; label: string }) => ({
+          start: new Date(period.startDate).toLocaleDateString('en-CA'),
+          end: new Date(period.endDate).toLocaleDateString('en-CA'),
+          label: period.label,
+        }))
+      );
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchReport = useCallback(async () => {
+    const period = payPeriods[selectedPeriodIndex];
+    if (!period) return;
+
+    try {
+      setLoadingReport(true);
+      setError(null);
+
+      const params = new URLSearchParams({ periodStart: period.start, periodEnd: period.end });
+      if (selectedDepartment !== 'all') {
+        params.set('departmentId', selectedDepartment);
+      }
+
+      const res = await fetch(`/api/timeclock/labor-cost?${params}`);
+      if (res.status === 403) {
+        router.push('/');
+        return;
+      }
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load labor cost');
+      }
+      setReport(data);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoadingReport(false);
+    }
+  }, [payPeriods, selectedPeriodIndex, selectedDepartment, router]);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchOptions();
+    }
+  }, [status, fetchOptions]);
+
+  useEffect(() => {
+    if (!loading) {
+      fetchReport();
+    }
+  }, [loading, fetchReport]);
+
+  const handlePost = async (department: DepartmentCost) => {
+    const period = payPeriods[selectedPeriodIndex];
+    if (!period || !department.departmentId) return;
+
+    const existing = report?.postings.find((p) => p.departmentId === department.departmentId);
+    const message = existing
+      ? `Replace the ${formatMoney(existing.amount)} already posted for ${department.departmentName} with ${formatMoney(department.totalCost)}?`
+      : `Post ${formatMoney(department.totalCost)} of labor cost for ${department.departmentName} to its payroll budget line?`;
+    if (!confirm(message)) {
+      return;
+    }
+
+    try {
+      setPosting(department.departmentId);
+      setError(null);
+
+      const res = await fetch('/api/timeclock/labor-cost/post', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          departmentId: department.departmentId,
+          periodStart: period.start,
+          periodEnd: period.end,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to post labor cost');
+      }
+
+      await fetchReport();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setPosting(null);
+    }
+  };
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-[var(--bg-hover)] rounded w-1/4"></div>
+          <div className="h-64 bg-[var(--bg-hover)] rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto">
+      <h1 className="page-title mb-2">Labor Cost</h1>
+      <p className="text-[var(--text-secondary)] mb-6">
+        Approved time costed at each employee&apos;s pay rate on the day worked
+        {report && (
+          <>
+            , with overtime at {report.multipliers.overtimeMultiplier}&times; and double time at{' '}
+            {report.multipliers.doubleTimeMultiplier}&times;
+          </>
+        )}
+        . Pending entries are not included.
+      </p>
+
+      {error && (
+        <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--error-muted)] bg-[var(--error-subtle)] text-[var(--error)] px-4 py-3">
+          {error}
+        </div>
+      )}
+
+      {report && report.totals.unratedHours > 0 && (
+        <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--warning-muted)] bg-[var(--warning-subtle)] px-4 py-3 text-[var(--warning)]">
+          {report.totals.unratedHours} approved hours have no pay rate and are not costed.
+          Set rates on the{' '}
+          <Link href="/admin/timeclock/pay-rates" className="underline">Pay Rates</Link> page.
+        </div>
+      )}
+
+      <div className="card p-6 mb-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="form-label">Pay Period</label>
+          <select
+            value={selectedPeriodIndex}
+            onChange={(e) => setSelectedPeriodIndex(parseInt(e.target.value))}
+            className="form-input form-select"
+          >
+            {payPeriods.map((period, index) => (
+              <option key={period.start} value={index}>
+                {period.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="form-label">Department</label>
+          <select
+            value={selectedDepartment}
+            onChange={(e) => setSelectedDepartment(e.target.value)}
+            className="form-input form-select"
+          >
+            <option value="all">All Departments</option>
+            {departments.map((dept) => (
+              <option key={dept.id} value={dept.id}>
+                {dept.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loadingReport || !report ? (
+        <div className="animate-pulse h-64 bg-[var(--bg-hover)] rounded"></div>
+      ) : report.employees.length === 0 ? (
+        <div className="card">
+          <div className="empty-state">
+            <p className="empty-state-title">No approved time in this period</p>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {/* By Department */}
+          <div className="card">
+            <h2 className="section-title mb-4">By Department</h2>
+            <div className="table-container">
+              <table className="table" aria-label="Labor cost by department">
+                <thead>
+                  <tr>
+                    <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase">Department</th>
+                    <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase">Employees</th>
+                    <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase">Hours</th>
+                    <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase">Regular</th>
+                    <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase">Overtime</th>
+                    <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase">Double Time</th>
+                    <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase">Total</th>
+                    {report.canPost && (
+                      <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase">Budget</th>
+                    )}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.departments.map((department) => {
+                    const existing = report.postings.find((p) => p.departmentId === department.departmentId);
+                    return (
+                      <tr key={department.departmentId || 'none'}>
+                        <td className="px-4 py-2 text-sm text-[var(--text-primary)]">
+                          {department.departmentName || 'No department'}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-[var(--text-primary)] text-right">{department.employeeCount}</td>
+                        <td className="px-4 py-2 text-sm text-[var(--text-primary)] text-right">{department.totalHours.toFixed(2)}</td>
+                        <td className="px-4 py-2 text-sm text-[var(--text-primary)] text-right">{formatMoney(department.regularCost)}</td>
+                        <td className="px-4 py-2 text-sm text-[var(--text-primary)] text-right">{formatMoney(department.overtimeCost)}</td>
+                        <td className="px-4 py-2 text-sm text-[var(--text-primary)] text-right">{formatMoney(department.doubleTimeCost)}</td>
+                        <td className="px-4 py-2 text-sm font-medium text-[var(--text-primary)] text-right">{formatMoney(department.totalCost)}</td>
+                        {report.canPost && (
+                          <td className="px-4 py-2 text-sm text-right">
+                            {department.departmentId && (
+                              <div className="flex flex-col items-end gap-1">
+                                <button
+                                  onClick={() => handlePost(department)}
+                                  disabled={posting !== null || department.unratedHours > 0}
+                                  className="btn btn-secondary btn-sm"
+                                  title={department.unratedHours > 0 ? 'Some hours have no pay rate' : undefined}
+                                >
+                                  {posting === department.departmentId ? 'Posting...' : existing ? 'Re-post' : 'Post to Budget'}
+                                </button>
+                                {existing && (
+                                  <span className="text-xs text-[var(--text-muted)]">
+                                    {formatMoney(existing.amount)} to {existing.budgetItem.code} on{' '}
+                                    {new Date(existing.postedAt).toLocaleDateString()}
+                                  </span>
+                                )}
+                              </div>
+                            )}
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                  <tr>
+                    <td className="px-4 py-2 text-sm font-medium text-[var(--text-primary)]">Total</td>
+                    <td className="px-4 py-2 text-sm font-medium text-[var(--text-primary)] text-right">{report.employees.length}</td>
+                    <td className="px-4 py-2 text-sm font-medium text-[var(--text-primary)] text-right">{report.totals.totalHours.toFixed(2)}</td>
+                    <td className="px-4 py-2 text-sm font-medium text-[var(--text-primary)] text-right">{formatMoney(report.totals.regularCost)}</td>
+                    <td className="px-4 py-2 text-sm font-medium text-[var(--text-primary)] text-right">{formatMoney(report.totals.overtimeCost)}</td>
+                    <td className="px-4 py-2 text-sm font-medium text-[var(--text-primary)] text-right">{formatMoney(report.totals.doubleTimeCost)}</td>
+                    <td className="px-4 py-2 text-sm font-bold text-[var(--text-primary)] text-right">{formatMoney(report.totals.totalCost)}</td>
+                    {report.canPost && <td></td>}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+            {report.canPost && (
+              <p className="text-xs text-[var(--text-muted)] mt-3">
+                Posting adds the department&apos;s cost to the actual spend of its payroll budget line for the
+                fiscal year. Posting a period again replaces the earlier amount.
+              </p>
+            )}
+          </div>
+
+          {/* By Employee */}
+          <div className="card">
+            <h2 className="section-title mb-4">By Employee</h2>
+            <div className="table-container">
+              <table className="table" aria-label="Labor cost by employee">
+                <thead>
+                  <tr>
+                    <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase">Name</th>
+                    <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase">Dept</th>
+                    <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase">Rate</th>
+                    <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase">Regular</th>
+                    <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase">OT</th>
+                    <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase">DT</th>
+                    <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase">Total Hours</th>
+                    <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.employees.map((employee) => (
+                    <tr key={employee.userId}>
+                      <td className="px-4 py-2 text-sm text-[var(--text-primary)]">
+                        {employee.name}
+                        {employee.unratedHours > 0 && (
+                          <span className="badge badge-warning ml-2">{employee.unratedHours}h unrated</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-[var(--text-muted)]">{employee.departmentName || '—'}</td>
+                      <td className="px-4 py-2 text-sm text-[var(--text-primary)] text-right">
+                        {employee.currentRate !== null ? `${formatMoney(employee.currentRate)}/hr` : '—'}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-[var(--text-primary)] text-right">{employee.regularHours.toFixed(2)}</td>
+                      <td className="px-4 py-2 text-sm text-[var(--text-primary)] text-right">{employee.overtimeHours.toFixed(2)}</td>
+                      <td className="px-4 py-2 text-sm text-[var(--text-primary)] text-right">{employee.doubleTimeHours.toFixed(2)}</td>
+                      <td className="px-4 py-2 text-sm text-[var(--text-primary)] text-right">{employee.totalHours.toFixed(2)}</td>
+                      <td className="px-4 py-2 text-sm font-medium text-[var(--text-primary)] text-right">{formatMoney(employee.totalCost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+
+type LeaveRequest = {
+  id: string;
+  userId: string;
+  startDate: string;
+  endDate: string;
+  hours: number;
+  reason: string | null;
+  status: string;
+  reviewedAt: string | null;
+  reviewNote: string | null;
+  balance: number;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    department: {
+      id: string;
+      name: string;
+    } | null;
+  };
+  reviewedBy: {
+    id: string;
+    name: string;
+  } | null;
+};
+
+const STATUS_BADGES: Record<string, string> = {
+  pending: 'badge-warning',
+  approved: 'badge-success',
+  rejected: 'badge-error',
+  cancelled: 'badge-neutral',
+};
+
+export default function LeaveRequestsPage() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [statusFilter, setStatusFilter] = useState('pending');
+
+  // Rejection modal
+  const [rejectTarget, setRejectTarget] = useState<LeaveRequest | null>(null);
+  const [rejectNote, setRejectNote] = useState('');
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const params = new URLSearchParams({ scope: 'team' });
+      if (statusFilter !== 'all') {
+        params.set('status', statusFilter);
+      }
+
+      const res = await fetch(`/api/timeclock/pto/requests?${params}`);
+      const data = await res.json();
+
+      if (res.ok) {
+        setRequests(data.requests || []);
+      } else if (res.status === 403) {
+        router.push('/');
+      }
+    } catch (error) {
+      console.error('Error fetching leave requests:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, router]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const handleApprove = async (request: LeaveRequest) => {
+    try {
+      setReviewing(request.id);
+      setError(null);
+
+      const res = await fetch(`/api/timeclock/pto/requests/${request.id}/approve`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to approve leave request');
+        return;
+      }
+
+      await fetchRequests();
+    } catch (error) {
+      console.error('Error approving leave request:', error);
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  const handleConfirmReject = async () => {
+    if (!rejectTarget) return;
+
+    try {
+      setReviewing(rejectTarget.id);
+      setError(null);
+
+      const res = await fetch(`/api/timeclock/pto/requests/${rejectTarget.id}/reject`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rejectedNote: rejectNote.trim() || undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to reject leave request');
+        return;
+      }
+
+      setRejectTarget(null);
+      setRejectNote('');
+      await fetchRequests();
+    } catch (error) {
+      console.error('Error rejecting leave request:', error);
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  const formatDates = (request: LeaveRequest) => {
+    const start = new Date(request.startDate).toLocaleDateString();
+    const end = new Date(request.endDate).toLocaleDateString();
+    return start === end ? start : `${start} – ${end}`;
+  };
+
+  return (
+    <div className="page-container">
+      {/* Page Header */}
+      <header className="page-header animate-fade-in">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="page-title">Leave Requests</h1>
+            <p className="page-subtitle">Review paid time off requested by your team</p>
+          </div>
+          <div>
+            <label htmlFor="leaveStatus" className="block text-sm font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>
+              Status
+            </label>
+            <select
+              id="leaveStatus"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="input"
+            >
+              <option value="pending">Pending</option>
+              <option value="approved">Approved</option>
+              <option value="rejected">Rejected</option>
+              <option value="cancelled">Cancelled</option>
+              <option value="all">All</option>
+            </select>
+          </div>
+        </div>
+      </header>
+
+      {error && (
+        <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--error-muted)] bg-[var(--error-subtle)] text-[var(--error)] px-4 py-3">
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="card animate-fade-in-up" style={{ animationDelay: '50ms' }}>
+        {loading ? (
+          <div className="animate-pulse space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-12 bg-[var(--bg-hover)] rounded"></div>
+            ))}
+          </div>
+        ) : requests.length === 0 ? (
+          <div className="empty-state">
+            <p className="empty-state-title">No leave requests</p>
+            <p className="empty-state-description">
+              {statusFilter === 'pending' ? 'Nothing is waiting for review.' : 'No requests match this filter.'}
+            </p>
+          </div>
+        ) : (
+          <div className="table-container">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Employee</th>
+                  <th>Dates</th>
+                  <th className="text-right">Hours</th>
+                  <th className="text-right">Balance</th>
+                  <th>Status</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {requests.map((request) => (
+                  <tr key={request.id}>
+                    <td>
+                      <div className="font-medium text-[var(--text-primary)]">{request.user.name}</div>
+                      <div className="text-xs text-[var(--text-muted)]">
+                        {request.user.department?.name || 'No department'}
+                      </div>
+                    </td>
+                    <td>
+                      <div>{formatDates(request)}</div>
+                      {request.reason && (
+                        <div className="text-xs text-[var(--text-muted)]">{request.reason}</div>
+                      )}
+                    </td>
+                    <td className="text-right font-mono">{request.hours.toFixed(2)}</td>
+                    <td
+                      className="text-right font-mono"
+                      style={{
+                        color: request.status === 'pending' && request.hours > request.balance ? 'var(--error)' : undefined,
+                      }}
+                    >
+                      {request.balance.toFixed(2)}
+                    </td>
+                    <td>
+                      <span className={`badge ${STATUS_BADGES[request.status] || 'badge-neutral'}`}>
+                        {request.status}
+                      </span>
+                      {request.reviewedBy && (
+                        <div className="text-xs text-[var(--text-muted)] mt-1">by {request.reviewedBy.name}</div>
+                      )}
+                      {request.reviewNote && (
+                        <div className="text-xs text-[var(--text-muted)]">{request.reviewNote}</div>
+                      )}
+                    </td>
+                    <td>
+                      {request.status === 'pending' && (
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => handleApprove(request)}
+                            disabled={reviewing !== null || request.hours > request.balance}
+                            className="btn btn-primary btn-sm"
+                          >
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => setRejectTarget(request)}
+                            disabled={reviewing !== null}
+                            className="btn btn-secondary btn-sm"
+                          >
+                            Reject
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Reject Modal */}
+      {rejectTarget && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4" style={{ background: 'rgba(0,0,0,0.5)' }}>
+          <div className="card w-full max-w-md animate-fade-in">
+            <h3 className="section-title mb-4">Reject Leave for {rejectTarget.user.name}</h3>
+            <p className="text-sm mb-4" style={{ color: 'var(--text-secondary)' }}>
+              Optionally explain why. The note is shown to the employee on their profile.
+            </p>
+            <textarea
+              value={rejectNote}
+              onChange={(e) => setRejectNote(e.target.value)}
+              placeholder="Enter rejection reason..."
+              className="input w-full h-24 resize-none mb-4"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setRejectTarget(null)}
+                disabled={reviewing !== null}
+                className="btn btn-secondary"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmReject}
+                disabled={reviewing !== null}
+                className="btn"
+                style={{ background: 'var(--error)', color: 'white' }}
+              >
+                {reviewing ? 'Rejecting...' : 'Confirm Reject'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,401 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+
+type Department = {
+  id: string;
+  name: string;
+};
+
+type Employee = {
+  id: string;
+  name: string;
+  departmentId: string | null;
+};
+
+type ScheduledShift = {
+  id: string;
+  userId: string;
+  departmentId: string;
+  startsAt: string;
+  endsAt: string;
+  notes: string | null;
+  user: { id: string; name: string };
+};
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function startOfWeek(date: Date): Date {
+  const start = new Date(date);
+  start.setDate(start.getDate() - start.getDay());
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function toDateInput(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+function formatTime(value: string): string {
+  return new Date(value).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
+
+export default function SchedulePage() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [selectedDepartment, setSelectedDepartment] = useState('all');
+
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [shifts, setShifts] = useState<ScheduledShift[]>([]);
+
+  // Add shift form
+  const [formUserId, setFormUserId] = useState('');
+  const [formDate, setFormDate] = useState(toDateInput(new Date()));
+  const [formStart, setFormStart] = useState('09:00');
+  const [formEnd, setFormEnd] = useState('17:00');
+  const [formNotes, setFormNotes] = useState('');
+
+  const fetchSchedule = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({
+        start: weekStart.toISOString(),
+        end: addDays(weekStart, 7).toISOString(),
+      });
+      if (selectedDepartment !== 'all') {
+        params.set('departmentId', selectedDepartment);
+      }
+
+      const res = await fetch(`/api/timeclock/schedules?${params}`);
+      if (!res.ok) {
+        if (res.status === 403) {
+          router.push('/');
+          return;
+        }
+        throw new Error('Failed to fetch schedule');
+      }
+
+      const data = await res.json();
+      setShifts(data.shifts || []);
+      setDepartments(data.departments || []);
+      setEmployees(data.employees || []);
+    } catch (err) {
+      console.error('Error fetching schedule:', err);
+      setError('Failed to load schedule');
+    } finally {
+      setLoading(false);
+    }
+  }, [weekStart, selectedDepartment, router]);
+
+  useEffect(() => {
+    fetchSchedule();
+  }, [fetchSchedule]);
+
+  const handleAddShift = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const employee = employees.find((emp) => emp.id === formUserId);
+    if (!employee?.departmentId) return;
+
+    const startsAt = new Date(`${formDate}T${formStart}`);
+    let endsAt = new Date(`${formDate}T${formEnd}`);
+    // An end time at or before the start is an overnight shift
+    if (endsAt <= startsAt) {
+      endsAt = addDays(endsAt, 1);
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const res = await fetch('/api/timeclock/schedules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          userId: employee.id,
+          departmentId: employee.departmentId,
+          startsAt: startsAt.toISOString(),
+          endsAt: endsAt.toISOString(),
+          notes: formNotes || undefined,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to add shift');
+      }
+
+      setShifts((prev) =>
+        [...prev, data.shift].sort((a, b) => a.startsAt.localeCompare(b.startsAt))
+      );
+      setFormNotes('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteShift = async (shift: ScheduledShift) => {
+    if (!confirm(`Remove ${shift.user.name}'s shift on ${new Date(shift.startsAt).toLocaleDateString()}?`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const res = await fetch(`/api/timeclock/schedules/${shift.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to remove shift');
+      }
+
+      setShifts((prev) => prev.filter((s) => s.id !== shift.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const startAddShift = (employee: Employee, day: Date) => {
+    setFormUserId(employee.id);
+    setFormDate(toDateInput(day));
+  };
+
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const weekLabel = `${weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${addDays(weekStart, 6).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+  const shiftsFor = (employeeId: string, day: Date) => {
+    const dayKey = toDateInput(day);
+    return shifts.filter((s) => s.userId === employeeId && toDateInput(new Date(s.startsAt)) === dayKey);
+  };
+
+  const weeklyMinutes = (employeeId: string) =>
+    shifts
+      .filter((s) => s.userId === employeeId)
+      .reduce((sum, s) => sum + (new Date(s.endsAt).getTime() - new Date(s.startsAt).getTime()) / 60000, 0);
+
+  return (
+    <div className="page-container">
+      {/* Page Header */}
+      <header className="page-header animate-fade-in">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="page-title">Schedule</h1>
+            <p className="page-subtitle">
+              Build weekly shift schedules. Punches are compared against them to flag late arrivals,
+              early departures and unscheduled shifts.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={() => router.push('/timeclock/team')} className="btn btn-secondary">
+              Team Overview
+            </button>
+          </div>
+        </div>
+      </header>
+
+      {error && (
+        <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--error-muted)] bg-[var(--error-subtle)] text-[var(--error)] px-4 py-3">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="card mb-6 animate-fade-in-up" style={{ animationDelay: '50ms' }}>
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="flex-1">
+            <label htmlFor="scheduleDepartment" className="form-label">Department</label>
+            <select
+              id="scheduleDepartment"
+              value={selectedDepartment}
+              onChange={(e) => setSelectedDepartment(e.target.value)}
+              className="form-input form-select"
+            >
+              <option value="all">All Departments</option>
+              {departments.map((dept) => (
+                <option key={dept.id} value={dept.id}>
+                  {dept.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => setWeekStart(addDays(weekStart, -7))} className="btn btn-secondary btn-sm" aria-label="Previous week">
+              ←
+            </button>
+            <span className="text-sm font-medium text-[var(--text-primary)] min-w-[12rem] text-center">{weekLabel}</span>
+            <button onClick={() => setWeekStart(addDays(weekStart, 7))} className="btn btn-secondary btn-sm" aria-label="Next week">
+              →
+            </button>
+            <button onClick={() => setWeekStart(startOfWeek(new Date()))} className="btn btn-secondary btn-sm">
+              This Week
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Add Shift */}
+      <div className="card mb-6 animate-fade-in-up" style={{ animationDelay: '100ms' }}>
+        <h2 className="section-title mb-4">Add Shift</h2>
+        <form onSubmit={handleAddShift} className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+          <div>
+            <label htmlFor="shiftEmployee" className="form-label">Employee</label>
+            <select
+              id="shiftEmployee"
+              value={formUserId}
+              onChange={(e) => setFormUserId(e.target.value)}
+              className="form-input form-select"
+              required
+            >
+              <option value="">Select...</option>
+              {employees.map((emp) => (
+                <option key={emp.id} value={emp.id}>
+                  {emp.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="shiftDate" className="form-label">Date</label>
+            <input
+              id="shiftDate"
+              type="date"
+              value={formDate}
+              onChange={(e) => setFormDate(e.target.value)}
+              className="form-input"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="shiftStart" className="form-label">Start</label>
+            <input
+              id="shiftStart"
+              type="time"
+              value={formStart}
+              onChange={(e) => setFormStart(e.target.value)}
+              className="form-input"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="shiftEnd" className="form-label">End</label>
+            <input
+              id="shiftEnd"
+              type="time"
+              value={formEnd}
+              onChange={(e) => setFormEnd(e.target.value)}
+              className="form-input"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="shiftNotes" className="form-label">Notes</label>
+            <input
+              id="shiftNotes"
+              type="text"
+              value={formNotes}
+              onChange={(e) => setFormNotes(e.target.value)}
+              className="form-input"
+              maxLength={500}
+            />
+          </div>
+          <div>
+            <button type="submit" disabled={saving || !formUserId} className="btn btn-primary w-full">
+              {saving ? 'Adding...' : 'Add Shift'}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {/* Weekly Grid */}
+      <div className="table-container animate-fade-in-up" style={{ animationDelay: '150ms' }}>
+        {loading ? (
+          <div className="p-8 space-y-4">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="skeleton h-10 w-full"></div>
+            ))}
+          </div>
+        ) : employees.length === 0 ? (
+          <div className="empty-state">
+            <div className="empty-state-title">No employees to schedule</div>
+            <div className="empty-state-description">
+              Employees appear here once they are assigned to a department you manage.
+            </div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table" aria-label="Weekly schedule">
+              <thead>
+                <tr>
+                  <th scope="col">Employee</th>
+                  {days.map((day) => (
+                    <th scope="col" key={day.toISOString()}>
+                      {DAY_NAMES[day.getDay()]} {day.getMonth() + 1}/{day.getDate()}
+                    </th>
+                  ))}
+                  <th scope="col">Hours</th>
+                </tr>
+              </thead>
+              <tbody>
+                {employees.map((employee) => (
+                  <tr key={employee.id}>
+                    <td className="font-medium text-[var(--text-primary)] whitespace-nowrap">{employee.name}</td>
+                    {days.map((day) => (
+                      <td key={day.toISOString()} className="align-top">
+                        <div className="space-y-1">
+                          {shiftsFor(employee.id, day).map((shift) => (
+                            <div
+                              key={shift.id}
+                              className="flex items-center justify-between gap-1 rounded px-2 py-1 text-xs bg-[var(--bg-hover)]"
+                              title={shift.notes || undefined}
+                            >
+                              <span className="whitespace-nowrap">
+                                {formatTime(shift.startsAt)}–{formatTime(shift.endsAt)}
+                              </span>
+                              <button
+                                onClick={() => handleDeleteShift(shift)}
+                                className="text-[var(--text-muted)] hover:text-[var(--error)]"
+                                aria-label={`Remove ${employee.name}'s shift`}
+                              >
+                                ×
+                              </button>
+                            </div>
+                          ))}
+                          <button
+                            onClick={() => startAddShift(employee, day)}
+                            className="text-xs text-[var(--text-muted)] hover:text-[var(--accent-primary)]"
+                            aria-label={`Add shift for ${employee.name}`}
+                          >
+                            +
+                          </button>
+                        </div>
+                      </td>
+                    ))}
+                    <td className="font-mono">{(weeklyMinutes(employee.id) / 60).toFixed(1)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
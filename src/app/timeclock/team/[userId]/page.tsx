@@ -19,6 +19,13 @@ type TimeclockEntry = {
   status: string;
   isLocked: boolean;
   rejectedNote: string | null;
+  clockInIp: string | null;
+  clockInLatitude: number | null;
+  clockInLongitude: number | null;
+  clockOutIp: string | null;
+  clockOutLatitude: number | null;
+  clockOutLongitude: number | null;
+  locationViolations: string | null;
   user: {
     id: string;
     name: string;
@@ -44,6 +51,14 @@ type EmployeeSummary = {
   rejectedCount: number;
 };
 
+const PUNCH_LABELS: Record<string, string> = {
+  clock_in: 'Clock in',
+  clock_out: 'Clock out',
+  break_start: 'Break start',
+  break_end: 'Break end',
+  job_switch: 'Job switch',
+};
+
 export default function EmployeeDetailPage() {
   const router = useRouter();
   const params = useParams();
@@ -287,6 +302,38 @@ export default function EmployeeDetailPage() {
     );
   };
 
+  // IP and browser position recorded with a punch from the employee's own session
+  const renderPunchLocation = (ip: string | null, latitude: number | null, longitude: number | null) => {
+    if (!ip && latitude === null) return null;
+
+    return (
+      <div className="text-xs font-sans" style={{ color: 'var(--text-muted)' }}>
+        {ip}
+        {ip && latitude !== null && ' · '}
+        {latitude !== null && longitude !== null && `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`}
+      </div>
+    );
+  };
+
+  const getLocationBadge = (entry: TimeclockEntry) => {
+    if (!entry.locationViolations) return null;
+
+    let messages: string[] = [];
+    try {
+      messages = JSON.parse(entry.locationViolations).map(
+        (v: { punch: string; message: string }) => `${PUNCH_LABELS[v.punch] || v.punch}: ${v.message}`
+      );
+    } catch {
+      // Unreadable details still get the badge
+    }
+
+    return (
+      <span className="badge badge-error ml-1" title={messages.join('\n')}>
+        Outside Area
+      </span>
+    );
+  };
+
   const selectableCount = entries.filter((e) => !e.isLocked && e.clockOut).length;
 
   return (
@@ -459,6 +506,7 @@ export default function EmployeeDetailPage() {
                     </div>
                     <div className="flex items-center gap-2">
                       {getStatusBadge(entry.status, entry.isLocked)}
+                      {getLocationBadge(entry)}
                       {!entry.isLocked && entry.clockOut && (
                         <button
                           onClick={() => handleStartEdit(entry)}
@@ -487,16 +535,18 @@ export default function EmployeeDetailPage() {
                   <div className="space-y-2 text-sm mb-2">
                     <div className="flex justify-between">
                       <span className="text-[var(--text-secondary)]">Clock In:</span>
-                      <span className="text-[var(--text-primary)] font-mono">
+                      <span className="text-[var(--text-primary)] font-mono text-right">
                         {new Date(entry.clockIn).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        {renderPunchLocation(entry.clockInIp, entry.clockInLatitude, entry.clockInLongitude)}
                       </span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-[var(--text-secondary)]">Clock Out:</span>
-                      <span className="font-mono">
+                      <span className="font-mono text-right">
                         {entry.clockOut
                           ? <span className="text-[var(--text-primary)]">{new Date(entry.clockOut).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
                           : <span className="badge badge-warning badge-dot">Active</span>}
+                        {renderPunchLocation(entry.clockOutIp, entry.clockOutLatitude, entry.clockOutLongitude)}
                       </span>
                     </div>
                     <div className="flex justify-between">
@@ -609,17 +659,20 @@ export default function EmployeeDetailPage() {
                         </td>
                         <td className="font-mono">
                           {new Date(entry.clockIn).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                          {renderPunchLocation(entry.clockInIp, entry.clockInLatitude, entry.clockInLongitude)}
                         </td>
                         <td className="font-mono">
                           {entry.clockOut
                             ? new Date(entry.clockOut).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
                             : <span className="badge badge-warning badge-dot">Active</span>}
+                          {renderPunchLocation(entry.clockOutIp, entry.clockOutLatitude, entry.clockOutLongitude)}
                         </td>
                         <td className="font-mono font-medium">
                           {entry.clockOut ? formatDuration(entry.duration) : '—'}
                         </td>
                         <td>
                           {getStatusBadge(entry.status, entry.isLocked)}
+                          {getLocationBadge(entry)}
                           {entry.status === 'rejected' && entry.rejectedNote && (
                             <div className="mt-1 text-xs" style={{ color: 'var(--error)' }}>
                               {entry.rejectedNote}
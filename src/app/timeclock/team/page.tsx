@@ -30,7 +30,12 @@ type EmployeeSummary = {
   rejectedCount: number;
   hasOvertime: boolean;
   dailyOvertimeMinutes: number;
+  doubleTimeMinutes: number;
   weeklyOvertimeMinutes: number;
+  lateArrivalCount: number;
+  earlyDepartureCount: number;
+  unscheduledCount: number;
+  outsidePunchAreaCount: number;
 };
 
 type TimeclockEntry = {
@@ -180,6 +185,31 @@ export default function TeamOverviewPage() {
     return `${hours}h ${mins}m`;
   };
 
+  const renderFlagBadges = (employee: EmployeeSummary) => (
+    <>
+      {employee.lateArrivalCount > 0 && (
+        <span className="badge badge-warning" title="Clocked in after the scheduled start">
+          {employee.lateArrivalCount} late
+        </span>
+      )}
+      {employee.earlyDepartureCount > 0 && (
+        <span className="badge badge-warning" title="Clocked out before the scheduled end">
+          {employee.earlyDepartureCount} left early
+        </span>
+      )}
+      {employee.unscheduledCount > 0 && (
+        <span className="badge badge-neutral" title="Clocked in without a scheduled shift">
+          {employee.unscheduledCount} unscheduled
+        </span>
+      )}
+      {employee.outsidePunchAreaCount > 0 && (
+        <span className="badge badge-error" title="Punched from outside the allowed networks and work sites">
+          {employee.outsidePunchAreaCount} outside area
+        </span>
+      )}
+    </>
+  );
+
   return (
     <div className="page-container">
       {/* Page Header */}
@@ -364,7 +394,7 @@ export default function TeamOverviewPage() {
                           <span
                             className="text-xs px-1.5 py-0.5 rounded"
                             style={{ background: 'var(--warning)', color: 'white' }}
-                            title={`OT: ${formatHours(employee.overtimeMinutes)}`}
+                            title={`OT: ${formatHours(employee.overtimeMinutes)}${employee.doubleTimeMinutes > 0 ? ` (${formatHours(employee.doubleTimeMinutes)} double time)` : ''}`}
                           >
                             OT
                           </span>
@@ -411,6 +441,7 @@ export default function TeamOverviewPage() {
                         {employee.rejectedCount} rejected
                       </span>
                     )}
+                    {renderFlagBadges(employee)}
                   </div>
                 </div>
               ))}
@@ -445,7 +476,7 @@ export default function TeamOverviewPage() {
                             <span
                               className="text-xs px-1.5 py-0.5 rounded"
                               style={{ background: 'var(--warning)', color: 'white' }}
-                              title={`OT: ${formatHours(employee.overtimeMinutes)}`}
+                              title={`OT: ${formatHours(employee.overtimeMinutes)}${employee.doubleTimeMinutes > 0 ? ` (${formatHours(employee.doubleTimeMinutes)} double time)` : ''}`}
                             >
                               OT
                             </span>
@@ -483,6 +514,7 @@ export default function TeamOverviewPage() {
                               {employee.rejectedCount} rejected
                             </span>
                           )}
+                          {renderFlagBadges(employee)}
                         </div>
                       </td>
                     </tr>
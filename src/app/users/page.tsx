@@ -21,6 +21,9 @@ type User = {
   isActive: boolean;
   department: { name: string } | null;
   departmentId: string | null;
+  badgeNumber: string | null;
+  hasKioskPin: boolean;
+  payrollEmployeeId: string | null;
 };
 
 export default function UsersPage() {
@@ -55,6 +58,10 @@ export default function UsersPage() {
     roleId: '',
     departmentId: '',
     isActive: true,
+    badgeNumber: '',
+    kioskPin: '',
+    removeKioskPin: false,
+    payrollEmployeeId: '',
   });
 
   // Check if user is admin
@@ -136,6 +143,10 @@ export default function UsersPage() {
         roleId: user.roleId,
         departmentId: user.departmentId || '',
         isActive: user.isActive,
+        badgeNumber: user.badgeNumber || '',
+        kioskPin: '',
+        removeKioskPin: false,
+        payrollEmployeeId: user.payrollEmployeeId || '',
       });
     } else {
       setEditingUser(null);
@@ -147,6 +158,10 @@ export default function UsersPage() {
         roleId: userRole?.id || '',
         departmentId: '',
         isActive: true,
+        badgeNumber: '',
+        kioskPin: '',
+        removeKioskPin: false,
+        payrollEmployeeId: '',
       });
     }
     setShowModal(true);
@@ -162,7 +177,11 @@ export default function UsersPage() {
       const res = await fetch(url, {
         method,
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          kioskPin: formData.removeKioskPin ? null : formData.kioskPin,
+          removeKioskPin: undefined,
+        }),
       });
 
       if (res.ok) {
@@ -584,6 +603,72 @@ export default function UsersPage() {
                 </div>
               </div>
 
+              {/* Kiosk clock-in identification */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="badgeNumber" className="form-label">
+                    Badge Number
+                  </label>
+                  <input
+                    id="badgeNumber"
+                    type="text"
+                    value={formData.badgeNumber}
+                    onChange={(e) =>
+                      setFormData({ ...formData, badgeNumber: e.target.value })
+                    }
+                    className="form-input"
+                    placeholder="For kiosk clock-in"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="kioskPin" className="form-label">
+                    Kiosk PIN {editingUser?.hasKioskPin ? '(leave blank to keep current)' : ''}
+                  </label>
+                  <input
+                    id="kioskPin"
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="new-password"
+                    value={formData.kioskPin}
+                    onChange={(e) =>
+                      setFormData({ ...formData, kioskPin: e.target.value, removeKioskPin: false })
+                    }
+                    className="form-input"
+                    placeholder="4-8 digits"
+                    disabled={formData.removeKioskPin}
+                  />
+                  {editingUser?.hasKioskPin && (
+                    <label className="mt-1 flex items-center text-xs text-[var(--text-secondary)]">
+                      <input
+                        type="checkbox"
+                        checked={formData.removeKioskPin}
+                        onChange={(e) =>
+                          setFormData({ ...formData, removeKioskPin: e.target.checked, kioskPin: '' })
+                        }
+                        className="mr-1"
+                      />
+                      Remove PIN
+                    </label>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="payrollEmployeeId" className="form-label">
+                  Payroll ID
+                </label>
+                <input
+                  id="payrollEmployeeId"
+                  type="text"
+                  value={formData.payrollEmployeeId}
+                  onChange={(e) =>
+                    setFormData({ ...formData, payrollEmployeeId: e.target.value })
+                  }
+                  className="form-input"
+                  placeholder="Employee's ID in ADP, Paychex, Gusto or QuickBooks"
+                />
+              </div>
+
               <div className="flex items-center">
                 <input
                   type="checkbox"
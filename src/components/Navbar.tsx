@@ -113,7 +113,7 @@ export default function Navbar() {
   } = userPermissions;
 
   const showTimeclockManager = canViewTeamEntries || canApproveEntries || canExportPayroll;
-  const showTimeclockAdmin = canManageTimeclockConfig || canAssignManagers || canManageExportTemplates;
+  const showTimeclockAdmin = canManageTimeclockConfig || canAssignManagers || canManageExportTemplates || canManageUsers;
 
   const showAdminMenu =
     canManageUsers ||
@@ -187,6 +187,14 @@ export default function Navbar() {
                         Team Overview
                       </Link>
                     )}
+                    {canViewTeamEntries && (
+                      <Link
+                        href="/timeclock/schedule"
+                        className={`nav-dropdown-link ${isActive('/timeclock/schedule') ? 'nav-dropdown-link-active' : ''}`}
+                      >
+                        Schedule
+                      </Link>
+                    )}
                     {canApproveEntries && (
                       <Link
                         href="/timeclock/approvals"
@@ -205,6 +213,22 @@ export default function Navbar() {
                         </span>
                       </Link>
                     )}
+                    {canApproveEntries && (
+                      <Link
+                        href="/timeclock/leave"
+                        className={`nav-dropdown-link ${isActive('/timeclock/leave') ? 'nav-dropdown-link-active' : ''}`}
+                      >
+                        Leave Requests
+                      </Link>
+                    )}
+                    {canApproveEntries && (
+                      <Link
+                        href="/timeclock/corrections"
+                        className={`nav-dropdown-link ${isActive('/timeclock/corrections') ? 'nav-dropdown-link-active' : ''}`}
+                      >
+                        Corrections
+                      </Link>
+                    )}
                     {canExportPayroll && (
                       <Link
                         href="/timeclock/export"
@@ -213,6 +237,14 @@ export default function Navbar() {
                         Export
                       </Link>
                     )}
+                    {canExportPayroll && (
+                      <Link
+                        href="/timeclock/labor-cost"
+                        className={`nav-dropdown-link ${isActive('/timeclock/labor-cost') ? 'nav-dropdown-link-active' : ''}`}
+                      >
+                        Labor Cost
+                      </Link>
+                    )}
                   </>
                 )}
               </div>
@@ -256,11 +288,23 @@ export default function Navbar() {
                 >
                   Vendors
                 </Link>
+                <Link
+                  href="/expense-reports"
+                  className={`nav-dropdown-link ${isActive('/expense-reports') ? 'nav-dropdown-link-active' : ''}`}
+                >
+                  Expense Reports
+                </Link>
+                <Link
+                  href="/expense-entries"
+                  className={`nav-dropdown-link ${isActive('/expense-entries') ? 'nav-dropdown-link-active' : ''}`}
+                >
+                  Mileage &amp; Per Diem
+                </Link>
                 <Link
                   href="/reports"
                   className={`nav-dropdown-link ${isActive('/reports') ? 'nav-dropdown-link-active' : ''}`}
                 >
-                  Expense Reports
+                  Spending Reports
                 </Link>
               </div>
             </div>
@@ -296,6 +340,12 @@ export default function Navbar() {
                 >
                   Budget Variance
                 </Link>
+                <Link
+                  href="/admin/department-budgets"
+                  className={`nav-dropdown-link ${isActive('/admin/department-budgets') ? 'nav-dropdown-link-active' : ''}`}
+                >
+                  Department Targets
+                </Link>
                 {canCreateAmendments && (
                   <Link
                     href="/admin/budget-amendments"
@@ -347,6 +397,62 @@ export default function Navbar() {
                           TC Configuration
                         </Link>
                       )}
+                      {canManageTimeclockConfig && (
+                        <Link
+                          href="/admin/timeclock/kiosks"
+                          className={`nav-dropdown-link ${isActive('/admin/timeclock/kiosks') ? 'nav-dropdown-link-active' : ''}`}
+                        >
+                          TC Kiosks
+                        </Link>
+                      )}
+                      {canManageTimeclockConfig && (
+                        <Link
+                          href="/admin/timeclock/job-codes"
+                          className={`nav-dropdown-link ${isActive('/admin/timeclock/job-codes') ? 'nav-dropdown-link-active' : ''}`}
+                        >
+                          TC Job Codes
+                        </Link>
+                      )}
+                      {canManageTimeclockConfig && (
+                        <Link
+                          href="/admin/timeclock/overtime-rules"
+                          className={`nav-dropdown-link ${isActive('/admin/timeclock/overtime-rules') ? 'nav-dropdown-link-active' : ''}`}
+                        >
+                          TC Overtime Rules
+                        </Link>
+                      )}
+                      {canManageTimeclockConfig && (
+                        <Link
+                          href="/admin/timeclock/payroll-providers"
+                          className={`nav-dropdown-link ${isActive('/admin/timeclock/payroll-providers') ? 'nav-dropdown-link-active' : ''}`}
+                        >
+                          TC Payroll Providers
+                        </Link>
+                      )}
+                      {canManageUsers && (
+                        <Link
+                          href="/admin/timeclock/pay-rates"
+                          className={`nav-dropdown-link ${isActive('/admin/timeclock/pay-rates') ? 'nav-dropdown-link-active' : ''}`}
+                        >
+                          TC Pay Rates
+                        </Link>
+                      )}
+                      {canManageTimeclockConfig && (
+                        <Link
+                          href="/admin/timeclock/punch-restrictions"
+                          className={`nav-dropdown-link ${isActive('/admin/timeclock/punch-restrictions') ? 'nav-dropdown-link-active' : ''}`}
+                        >
+                          TC Punch Restrictions
+                        </Link>
+                      )}
+                      {canManageTimeclockConfig && (
+                        <Link
+                          href="/admin/timeclock/pto"
+                          className={`nav-dropdown-link ${isActive('/admin/timeclock/pto') ? 'nav-dropdown-link-active' : ''}`}
+                        >
+                          TC PTO Policies
+                        </Link>
+                      )}
                       {canAssignManagers && (
                         <Link
                           href="/admin/timeclock/managers"
@@ -398,6 +504,22 @@ export default function Navbar() {
                       Departments
                     </Link>
                   )}
+                  {canManageSettings && (
+                    <Link
+                      href="/admin/approval-chains"
+                      className={`nav-dropdown-link ${isActive('/admin/approval-chains') ? 'nav-dropdown-link-active' : ''}`}
+                    >
+                      PO Approval Chains
+                    </Link>
+                  )}
+                  {canManageSettings && (
+                    <Link
+                      href="/admin/expense-policies"
+                      className={`nav-dropdown-link ${isActive('/admin/expense-policies') ? 'nav-dropdown-link-active' : ''}`}
+                    >
+                      Expense Policies
+                    </Link>
+                  )}
                   {canManageSettings && (
                     <Link
                       href="/admin/ai-usage"
@@ -406,6 +528,14 @@ export default function Navbar() {
                       AI Usage
                     </Link>
                   )}
+                  {canManageSettings && (
+                    <Link
+                      href="/admin/receipt-inbox"
+                      className={`nav-dropdown-link ${isActive('/admin/receipt-inbox') ? 'nav-dropdown-link-active' : ''}`}
+                    >
+                      Receipt Inbox
+                    </Link>
+                  )}
                   {canManageSettings && (
                     <Link
                       href="/admin/settings"
@@ -517,6 +647,15 @@ export default function Navbar() {
                 Team Overview
               </Link>
             )}
+            {canViewTeamEntries && (
+              <Link
+                href="/timeclock/schedule"
+                onClick={() => setMobileMenuOpen(false)}
+                className={`nav-mobile-link ${isActive('/timeclock/schedule') ? 'nav-mobile-link-active' : ''}`}
+              >
+                Schedule
+              </Link>
+            )}
             {canApproveEntries && (
               <Link
                 href="/timeclock/approvals"
@@ -536,6 +675,24 @@ export default function Navbar() {
                 </span>
               </Link>
             )}
+            {canApproveEntries && (
+              <Link
+                href="/timeclock/leave"
+                onClick={() => setMobileMenuOpen(false)}
+                className={`nav-mobile-link ${isActive('/timeclock/leave') ? 'nav-mobile-link-active' : ''}`}
+              >
+                Leave Requests
+              </Link>
+            )}
+            {canApproveEntries && (
+              <Link
+                href="/timeclock/corrections"
+                onClick={() => setMobileMenuOpen(false)}
+                className={`nav-mobile-link ${isActive('/timeclock/corrections') ? 'nav-mobile-link-active' : ''}`}
+              >
+                Corrections
+              </Link>
+            )}
             {canExportPayroll && (
               <Link
                 href="/timeclock/export"
@@ -545,6 +702,15 @@ export default function Navbar() {
                 Export
               </Link>
             )}
+            {canExportPayroll && (
+              <Link
+                href="/timeclock/labor-cost"
+                onClick={() => setMobileMenuOpen(false)}
+                className={`nav-mobile-link ${isActive('/timeclock/labor-cost') ? 'nav-mobile-link-active' : ''}`}
+              >
+                Labor Cost
+              </Link>
+            )}
           </div>
 
           <div className="nav-mobile-section">
@@ -577,12 +743,26 @@ export default function Navbar() {
             >
               Vendors
             </Link>
+            <Link
+              href="/expense-reports"
+              onClick={() => setMobileMenuOpen(false)}
+              className={`nav-mobile-link ${isActive('/expense-reports') ? 'nav-mobile-link-active' : ''}`}
+            >
+              Expense Reports
+            </Link>
+            <Link
+              href="/expense-entries"
+              onClick={() => setMobileMenuOpen(false)}
+              className={`nav-mobile-link ${isActive('/expense-entries') ? 'nav-mobile-link-active' : ''}`}
+            >
+              Mileage &amp; Per Diem
+            </Link>
             <Link
               href="/reports"
               onClick={() => setMobileMenuOpen(false)}
               className={`nav-mobile-link ${isActive('/reports') ? 'nav-mobile-link-active' : ''}`}
             >
-              Expense Reports
+              Spending Reports
             </Link>
           </div>
 
@@ -609,6 +789,13 @@ export default function Navbar() {
             >
               Budget Variance
             </Link>
+            <Link
+              href="/admin/department-budgets"
+              onClick={() => setMobileMenuOpen(false)}
+              className={`nav-mobile-link ${isActive('/admin/department-budgets') ? 'nav-mobile-link-active' : ''}`}
+            >
+              Department Targets
+            </Link>
             {canCreateAmendments && (
               <Link
                 href="/admin/budget-amendments"
@@ -643,6 +830,69 @@ export default function Navbar() {
                       TC Configuration
                     </Link>
                   )}
+                  {canManageTimeclockConfig && (
+                    <Link
+                      href="/admin/timeclock/kiosks"
+                      onClick={() => setMobileMenuOpen(false)}
+                      className={`nav-mobile-link ${isActive('/admin/timeclock/kiosks') ? 'nav-mobile-link-active' : ''}`}
+                    >
+                      TC Kiosks
+                    </Link>
+                  )}
+                  {canManageTimeclockConfig && (
+                    <Link
+                      href="/admin/timeclock/job-codes"
+                      onClick={() => setMobileMenuOpen(false)}
+                      className={`nav-mobile-link ${isActive('/admin/timeclock/job-codes') ? 'nav-mobile-link-active' : ''}`}
+                    >
+                      TC Job Codes
+                    </Link>
+                  )}
+                  {canManageTimeclockConfig && (
+                    <Link
+                      href="/admin/timeclock/overtime-rules"
+                      onClick={() => setMobileMenuOpen(false)}
+                      className={`nav-mobile-link ${isActive('/admin/timeclock/overtime-rules') ? 'nav-mobile-link-active' : ''}`}
+                    >
+                      TC Overtime Rules
+                    </Link>
+                  )}
+                  {canManageTimeclockConfig && (
+                    <Link
+                      href="/admin/timeclock/payroll-providers"
+                      onClick={() => setMobileMenuOpen(false)}
+                      className={`nav-mobile-link ${isActive('/admin/timeclock/payroll-providers') ? 'nav-mobile-link-active' : ''}`}
+                    >
+                      TC Payroll Providers
+                    </Link>
+                  )}
+                  {canManageUsers && (
+                    <Link
+                      href="/admin/timeclock/pay-rates"
+                      onClick={() => setMobileMenuOpen(false)}
+                      className={`nav-mobile-link ${isActive('/admin/timeclock/pay-rates') ? 'nav-mobile-link-active' : ''}`}
+                    >
+                      TC Pay Rates
+                    </Link>
+                  )}
+                  {canManageTimeclockConfig && (
+                    <Link
+                      href="/admin/timeclock/punch-restrictions"
+                      onClick={() => setMobileMenuOpen(false)}
+                      className={`nav-mobile-link ${isActive('/admin/timeclock/punch-restrictions') ? 'nav-mobile-link-active' : ''}`}
+                    >
+                      TC Punch Restrictions
+                    </Link>
+                  )}
+                  {canManageTimeclockConfig && (
+                    <Link
+                      href="/admin/timeclock/pto"
+                      onClick={() => setMobileMenuOpen(false)}
+                      className={`nav-mobile-link ${isActive('/admin/timeclock/pto') ? 'nav-mobile-link-active' : ''}`}
+                    >
+                      TC PTO Policies
+                    </Link>
+                  )}
                   {canAssignManagers && (
                     <Link
                       href="/admin/timeclock/managers"
@@ -700,6 +950,24 @@ export default function Navbar() {
                   Departments
                 </Link>
               )}
+              {canManageSettings && (
+                <Link
+                  href="/admin/approval-chains"
+                  onClick={() => setMobileMenuOpen(false)}
+                  className={`nav-mobile-link ${isActive('/admin/approval-chains') ? 'nav-mobile-link-active' : ''}`}
+                >
+                  PO Approval Chains
+                </Link>
+              )}
+              {canManageSettings && (
+                <Link
+                  href="/admin/expense-policies"
+                  onClick={() => setMobileMenuOpen(false)}
+                  className={`nav-mobile-link ${isActive('/admin/expense-policies') ? 'nav-mobile-link-active' : ''}`}
+                >
+                  Expense Policies
+                </Link>
+              )}
               {canManageSettings && (
                 <Link
                   href="/admin/ai-usage"
@@ -709,6 +977,15 @@ export default function Navbar() {
                   AI Usage
                 </Link>
               )}
+              {canManageSettings && (
+                <Link
+                  href="/admin/receipt-inbox"
+                  onClick={() => setMobileMenuOpen(false)}
+                  className={`nav-mobile-link ${isActive('/admin/receipt-inbox') ? 'nav-mobile-link-active' : ''}`}
+                >
+                  Receipt Inbox
+                </Link>
+              )}
               {canManageSettings && (
                 <Link
                   href="/admin/settings"
@@ -23,6 +23,12 @@ interface AlertConfig {
   notifyEmployee: boolean;
 }
 
+interface ScheduleVariance {
+  type: 'late_arrival' | 'early_departure' | 'unscheduled';
+  minutes: number;
+  message: string;
+}
+
 interface OvertimeAlertBannerProps {
   onUpdate?: () => void;
 }
@@ -30,9 +36,11 @@ interface OvertimeAlertBannerProps {
 export function OvertimeAlertBanner({ onUpdate }: OvertimeAlertBannerProps) {
   const [alertStatus, setAlertStatus] = useState<AlertStatus | null>(null);
   const [config, setConfig] = useState<AlertConfig | null>(null);
-  const [dismissed, setDismissed] = useState<{ daily: boolean; weekly: boolean }>({
+  const [scheduleVariances, setScheduleVariances] = useState<ScheduleVariance[]>([]);
+  const [dismissed, setDismissed] = useState<{ daily: boolean; weekly: boolean; schedule: boolean }>({
     daily: false,
     weekly: false,
+    schedule: false,
   });
   const [loading, setLoading] = useState(true);
 
@@ -43,6 +51,7 @@ export function OvertimeAlertBanner({ onUpdate }: OvertimeAlertBannerProps) {
         const data = await res.json();
         setAlertStatus(data.alertStatus);
         setConfig(data.config);
+        setScheduleVariances(data.scheduleVariances || []);
       }
     } catch (error) {
       console.error('Error fetching alert status:', error);
@@ -73,28 +82,34 @@ export function OvertimeAlertBanner({ onUpdate }: OvertimeAlertBannerProps) {
     return `${hours}h ${mins}m`;
   };
 
-  if (loading || !alertStatus || !config) {
+  if (loading) {
     return null;
   }
 
   const showDailyAlert =
+    !!alertStatus &&
+    !!config &&
     !dismissed.daily &&
     alertStatus.daily.thresholdMinutes !== null &&
     (alertStatus.daily.approaching || alertStatus.daily.exceeded);
 
   const showWeeklyAlert =
+    !!alertStatus &&
+    !!config &&
     !dismissed.weekly &&
     alertStatus.weekly.thresholdMinutes !== null &&
     (alertStatus.weekly.approaching || alertStatus.weekly.exceeded);
 
-  if (!showDailyAlert && !showWeeklyAlert) {
+  const showScheduleAlert = !dismissed.schedule && scheduleVariances.length > 0;
+
+  if (!showDailyAlert && !showWeeklyAlert && !showScheduleAlert) {
     return null;
   }
 
   return (
     <div className="space-y-3 mb-6 animate-fade-in">
       {/* Daily Alert */}
-      {showDailyAlert && (
+      {showDailyAlert && alertStatus && (
         <div
           className="rounded-lg p-4 flex items-start justify-between"
           style={{
@@ -160,7 +175,7 @@ export function OvertimeAlertBanner({ onUpdate }: OvertimeAlertBannerProps) {
       )}
 
       {/* Weekly Alert */}
-      {showWeeklyAlert && (
+      {showWeeklyAlert && alertStatus && (
         <div
           className="rounded-lg p-4 flex items-start justify-between"
           style={{
@@ -224,6 +239,45 @@ export function OvertimeAlertBanner({ onUpdate }: OvertimeAlertBannerProps) {
           </button>
         </div>
       )}
+
+      {/* Schedule Alert */}
+      {showScheduleAlert && (
+        <div
+          className="rounded-lg p-4 flex items-start justify-between"
+          style={{
+            background: 'var(--warning-bg, rgba(234, 179, 8, 0.1))',
+            border: '1px solid var(--warning, #eab308)',
+          }}
+        >
+          <div className="flex items-start gap-3">
+            <div className="flex-shrink-0 mt-0.5" style={{ color: 'var(--warning, #eab308)' }}>
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+              </svg>
+            </div>
+            <div>
+              <p className="font-medium text-sm" style={{ color: 'var(--warning, #eab308)' }}>
+                Off Schedule Today
+              </p>
+              {scheduleVariances.map((variance, index) => (
+                <p key={index} className="text-sm mt-1" style={{ color: 'var(--text-secondary)' }}>
+                  {variance.message}
+                </p>
+              ))}
+            </div>
+          </div>
+          <button
+            onClick={() => setDismissed((prev) => ({ ...prev, schedule: true }))}
+            className="flex-shrink-0 p-1 rounded hover:bg-black/10 transition-colors"
+            style={{ color: 'var(--text-muted)' }}
+            aria-label="Dismiss schedule alert"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -6,6 +6,8 @@ export type POLineItem = {
   id?: string;
   description: string;
   amount: number;
+  receivedAmount?: number;
+  releasedAmount?: number;
   budgetItemId: string;
   budgetItem?: {
     id: string;
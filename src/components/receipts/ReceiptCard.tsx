@@ -16,6 +16,8 @@ interface Receipt {
   user: { id: string; name: string | null } | null;
   createdAt: string;
   _count?: { lineItems: number };
+  policyViolations?: { id: string; message: string }[];
+  duplicateStatus?: string | null;
 }
 
 interface ReceiptCardProps {
@@ -117,11 +119,30 @@ export default function ReceiptCard({ receipt }: ReceiptCardProps) {
             </span>
           </div>
 
-          {receipt.budgetCategory && (
-            <div className="mt-2">
-              <span className="badge badge-info">
-                {receipt.budgetCategory.name}
-              </span>
+          {(receipt.budgetCategory ||
+            (receipt.policyViolations && receipt.policyViolations.length > 0) ||
+            receipt.duplicateStatus === 'suspected' ||
+            receipt.duplicateStatus === 'confirmed') && (
+            <div className="mt-2 flex flex-wrap gap-1">
+              {receipt.budgetCategory && (
+                <span className="badge badge-info">
+                  {receipt.budgetCategory.name}
+                </span>
+              )}
+              {receipt.policyViolations && receipt.policyViolations.length > 0 && (
+                <span
+                  className="badge badge-warning"
+                  title={receipt.policyViolations.map((v) => v.message).join('\n')}
+                >
+                  {receipt.policyViolations.length} policy flag{receipt.policyViolations.length !== 1 ? 's' : ''}
+                </span>
+              )}
+              {receipt.duplicateStatus === 'suspected' && (
+                <span className="badge badge-warning">Possible duplicate</span>
+              )}
+              {receipt.duplicateStatus === 'confirmed' && (
+                <span className="badge badge-error">Duplicate</span>
+              )}
             </div>
           )}
 
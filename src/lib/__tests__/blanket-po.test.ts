@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+const { updateBudgetFromPO } = vi.hoisted(() => ({ updateBudgetFromPO: vi.fn() }));
+
+vi.mock('../budget-tracking', () => ({ updateBudgetFromPO }));
+
+import { getBlanketSummary, validateRelease, adjustBlanketDrawdown, BlanketDrawdownError } from '../blanket-po';
+
+const now = new Date('2026-06-01T00:00:00.000Z');
+
+function blanket(releasedAmounts: number[], overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'blanket-1',
+    type: 'BLANKET',
+    status: 'APPROVED',
+    totalAmount: releasedAmounts.length * 1000,
+    expiresAt: new Date('2026-12-31T00:00:00.000Z'),
+    lineItems: releasedAmounts.map((releasedAmount, index) => ({
+      id: `line-${index + 1}`,
+      amount: 1000,
+      budgetItemId: 'ops',
+      releasedAmount,
+    })),
+    ...overrides,
+  };
+}
+
+function createTx(po: ReturnType<typeof blanket>, count = 1) {
+  return {
+    purchaseOrder: { findUnique: vi.fn().mockResolvedValue(po) },
+    pOLineItem: { updateMany: vi.fn().mockResolvedValue({ count }) },
+  };
+}
+
+type Tx = Parameters<typeof adjustBlanketDrawdown>[3];
+
+function writtenAmounts(tx: ReturnType<typeof createTx>) {
+  return Object.fromEntries(
+    tx.pOLineItem.updateMany.mock.calls.map(([args]) => [args.where.id, args.data.releasedAmount])
+  );
+}
+
+beforeEach(() => {
+  updateBudgetFromPO.mockReset();
+});
+
+describe('getBlanketSummary', () => {
+  it('should report consumed and remaining against the ceiling', () => {
+    const summary = getBlanketSummary(blanket([250, 250]), now);
+    expect(summary.consumed).toBe(500);
+    expect(summary.remaining).toBe(1500);
+    expect(summary.percentConsumed).toBe(25);
+    expect(summary.warnings).toEqual([]);
+  });
+
+  it('should warn as the ceiling and expiry date approach', () => {
+    const summary = getBlanketSummary(blanket([900], { expiresAt: new Date('2026-06-11T00:00:00.000Z') }), now);
+    expect(summary.warnings).toEqual(['90% of the ceiling has been consumed ($100.00 remaining)', 'Expires in 10 days']);
+  });
+
+  it('should say when no further releases can be drawn', () => {
+    const summary = getBlanketSummary(blanket([1000], { expiresAt: new Date('2026-05-01T00:00:00.000Z') }), now);
+    expect(summary.isExpired).toBe(true);
+    expect(summary.warnings).toEqual([
+      'Ceiling fully consumed - no further releases can be drawn',
+      'Blanket PO has expired - no further releases can be drawn',
+    ]);
+  });
+});
+
+describe('validateRelease', () => {
+  it('should allow a release up to the remaining amount for its budget item', () => {
+    expect(validateRelease(blanket([600, 0]), [{ budgetItemId: 'ops', amount: 1400 }], now)).toBeNull();
+  });
+
+  it('should add up release lines on the same budget item', () => {
+    expect(
+      validateRelease(
+        blanket([600]),
+        [
+          { budgetItemId: 'ops', amount: 300 },
+          { budgetItemId: 'ops', amount: 200 },
+        ],
+        now
+      )
+    ).toBe('Release exceeds the remaining blanket amount for this budget item ($400.00)');
+  });
+
+  it('should refuse budget items the blanket does not cover', () => {
+    expect(validateRelease(blanket([0]), [{ budgetItemId: 'it', amount: 10 }], now)).toContain('budget item covered');
+  });
+
+  it('should refuse releases from standard, unapproved or expired POs', () => {
+    const lines = [{ budgetItemId: 'ops', amount: 10 }];
+    expect(validateRelease(blanket([0], { type: 'STANDARD' }), lines, now)).toContain('only be drawn from blanket');
+    expect(validateRelease(blanket([0], { status: 'PENDING_APPROVAL' }), lines, now)).toContain('APPROVED');
+    expect(validateRelease(blanket([0], { expiresAt: new Date('2026-05-01T00:00:00.000Z') }), lines, now)).toBe(
+      'Blanket purchase order has expired'
+    );
+  });
+});
+
+describe('adjustBlanketDrawdown', () => {
+  it('should draw a release down across lines in order', async () => {
+    const tx = createTx(blanket([800, 0]));
+
+    await adjustBlanketDrawdown('blanket-1', [{ budgetItemId: 'ops', amount: 500 }], 1, tx as unknown as Tx);
+
+    expect(writtenAmounts(tx)).toEqual({ 'line-1': 1000, 'line-2': 300 });
+  });
+
+  it('should return a cancelled release starting from the last line', async () => {
+    const tx = createTx(blanket([1000, 300]));
+
+    await adjustBlanketDrawdown('blanket-1', [{ budgetItemId: 'ops', amount: 500 }], -1, tx as unknown as Tx);
+
+    expect(writtenAmounts(tx)).toEqual({ 'line-1': 800, 'line-2': 0 });
+  });
+
+  it('should only write over the drawn-down amount it read', async () => {
+    const tx = createTx(blanket([800]));
+
+    await adjustBlanketDrawdown('blanket-1', [{ budgetItemId: 'ops', amount: 100 }], 1, tx as unknown as Tx);
+
+    expect(tx.pOLineItem.updateMany).toHaveBeenCalledWith({
+      where: { id: 'line-1', releasedAmount: 800 },
+      data: { releasedAmount: 900 },
+    });
+  });
+
+  it('should rebook the blanket encumbrance around the change', async () => {
+    const tx = createTx(blanket([0]));
+
+    await adjustBlanketDrawdown('blanket-1', [{ budgetItemId: 'ops', amount: 100 }], 1, tx as unknown as Tx);
+
+    expect(updateBudgetFromPO).toHaveBeenNthCalledWith(1, 'blanket-1', 'APPROVED', 'CANCELLED', tx);
+    expect(updateBudgetFromPO).toHaveBeenNthCalledWith(2, 'blanket-1', 'CANCELLED', 'APPROVED', tx);
+  });
+
+  it('should fail when another release changed the line first', async () => {
+    const tx = createTx(blanket([0]), 0);
+
+    await expect(
+      adjustBlanketDrawdown('blanket-1', [{ budgetItemId: 'ops', amount: 100 }], 1, tx as unknown as Tx)
+    ).rejects.toBeInstanceOf(BlanketDrawdownError);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prisma = vi.hoisted(() => ({
+  fiscalYear: { findUnique: vi.fn() },
+  budgetItem: { findMany: vi.fn() },
+  pOReceivingEntry: { findMany: vi.fn() },
+  pOLineItem: { findMany: vi.fn() },
+  laborCostPosting: { findMany: vi.fn() },
+  receipt: { findMany: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma }));
+
+import { getBudgetForecast } from '../budget-forecast';
+
+const startDate = new Date('2026-01-01T00:00:00.000Z');
+const endDate = new Date('2026-12-31T23:59:59.999Z');
+const asOf = new Date('2026-04-01T00:00:00.000Z');
+
+function budgetItem(id: string, actualSpent: number) {
+  return {
+    id,
+    code: id.toUpperCase(),
+    description: id,
+    budgetAmount: 10000,
+    actualSpent,
+    encumbered: 0,
+    department: { id: 'ops', name: 'Operations' },
+    category: { id: 'payroll', name: 'Payroll' },
+  };
+}
+
+beforeEach(() => {
+  prisma.fiscalYear.findUnique.mockResolvedValue({ startDate, endDate });
+  prisma.pOReceivingEntry.findMany.mockResolvedValue([]);
+  prisma.pOLineItem.findMany.mockResolvedValue([]);
+  prisma.laborCostPosting.findMany.mockResolvedValue([]);
+  prisma.receipt.findMany.mockResolvedValue([]);
+});
+
+describe('getBudgetForecast', () => {
+  it('should carry posted labor cost through the run rate like received PO spend', async () => {
+    prisma.budgetItem.findMany.mockResolvedValue([budgetItem('wages', 3000), budgetItem('supplies', 3000)]);
+    prisma.laborCostPosting.findMany.mockResolvedValue([{ budgetItemId: 'wages', amount: 3000 }]);
+    prisma.pOReceivingEntry.findMany.mockResolvedValue([{ amount: 3000, lineItem: { budgetItemId: 'supplies' } }]);
+
+    const forecast = await getBudgetForecast(2026, asOf);
+    const wages = forecast.lines.find((line) => line.budgetItemId === 'wages')!;
+    const supplies = forecast.lines.find((line) => line.budgetItemId === 'supplies')!;
+
+    expect(wages.projectedRunRateSpend).toBeGreaterThan(0);
+    expect(wages.projectedYearEnd).toBeCloseTo(supplies.projectedYearEnd);
+    // A quarter of the year gone at $3,000 projects roughly $12,000 by year end
+    expect(wages.projectedYearEnd).toBeGreaterThan(11500);
+    expect(wages.status).toBe('OVER');
+  });
+
+  it('should only read postings for periods ending between the year start and the forecast date', async () => {
+    prisma.budgetItem.findMany.mockResolvedValue([budgetItem('wages', 0)]);
+
+    await getBudgetForecast(2026, asOf);
+
+    expect(prisma.laborCostPosting.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { budgetItemId: { in: ['wages'] }, periodEnd: { gte: startDate, lte: asOf } },
+      })
+    );
+  });
+
+  it('should leave a line with no dated spend at its actuals', async () => {
+    prisma.budgetItem.findMany.mockResolvedValue([budgetItem('wages', 500)]);
+
+    const forecast = await getBudgetForecast(2026, asOf);
+
+    expect(forecast.lines[0].projectedRunRateSpend).toBe(0);
+    expect(forecast.lines[0].projectedYearEnd).toBe(500);
+    expect(forecast.lines[0].status).toBe('ON_TRACK');
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import {
+  getPeriodsElapsed,
+  getPhasedAmounts,
+  getPhasedBudgetToDate,
+  getYearToDateVariance,
+  validatePhasing,
+  parsePhasingSchedule,
+} from '../budget-phasing';
+
+// Fiscal year starting July 1 (local time, as getFiscalYearStarts builds it)
+const fyStart = new Date(2026, 6, 1);
+
+describe('getPeriodsElapsed', () => {
+  it('should count the current month as elapsed', () => {
+    expect(getPeriodsElapsed('MONTHLY', fyStart, new Date(2026, 6, 1))).toBe(1);
+    expect(getPeriodsElapsed('MONTHLY', fyStart, new Date(2026, 6, 31))).toBe(1);
+    expect(getPeriodsElapsed('MONTHLY', fyStart, new Date(2026, 7, 1))).toBe(2);
+  });
+
+  it('should count months across the calendar year boundary', () => {
+    // January is the 7th month of a July fiscal year
+    expect(getPeriodsElapsed('MONTHLY', fyStart, new Date(2027, 0, 15))).toBe(7);
+    expect(getPeriodsElapsed('MONTHLY', fyStart, new Date(2027, 5, 30))).toBe(12);
+  });
+
+  it('should round quarters up so a started quarter counts', () => {
+    expect(getPeriodsElapsed('QUARTERLY', fyStart, new Date(2026, 6, 1))).toBe(1);
+    expect(getPeriodsElapsed('QUARTERLY', fyStart, new Date(2026, 8, 30))).toBe(1);
+    expect(getPeriodsElapsed('QUARTERLY', fyStart, new Date(2026, 9, 1))).toBe(2);
+    expect(getPeriodsElapsed('QUARTERLY', fyStart, new Date(2027, 3, 1))).toBe(4);
+  });
+
+  it('should be zero before the year starts and capped after it ends', () => {
+    expect(getPeriodsElapsed('MONTHLY', fyStart, new Date(2026, 5, 30))).toBe(0);
+    expect(getPeriodsElapsed('MONTHLY', fyStart, new Date(2027, 8, 1))).toBe(12);
+    expect(getPeriodsElapsed('QUARTERLY', fyStart, new Date(2028, 0, 1))).toBe(4);
+  });
+
+  it('should treat an annual line as one period once the year starts', () => {
+    expect(getPeriodsElapsed('ANNUAL', fyStart, new Date(2026, 6, 1))).toBe(1);
+    expect(getPeriodsElapsed('ANNUAL', fyStart, new Date(2026, 5, 1))).toBe(0);
+  });
+});
+
+describe('getPhasedAmounts', () => {
+  it('should spread an even budget across the periods', () => {
+    const amounts = getPhasedAmounts({ budgetAmount: 1200, accrualType: 'MONTHLY', phasing: 'EVEN', phasingSchedule: null });
+    expect(amounts).toHaveLength(12);
+    expect(amounts.every((amount) => amount === 100)).toBe(true);
+  });
+
+  it('should follow a custom schedule', () => {
+    const amounts = getPhasedAmounts({
+      budgetAmount: 1000,
+      accrualType: 'QUARTERLY',
+      phasing: 'CUSTOM',
+      phasingSchedule: JSON.stringify([100, 200, 300, 400]),
+    });
+    expect(amounts).toEqual([100, 200, 300, 400]);
+  });
+
+  it('should scale a custom schedule to an amended budget', () => {
+    const amounts = getPhasedAmounts({
+      budgetAmount: 2000,
+      accrualType: 'QUARTERLY',
+      phasing: 'CUSTOM',
+      phasingSchedule: JSON.stringify([100, 200, 300, 400]),
+    });
+    expect(amounts).toEqual([200, 400, 600, 800]);
+  });
+
+  it('should fall back to even phasing for a schedule that does not fit', () => {
+    const amounts = getPhasedAmounts({
+      budgetAmount: 400,
+      accrualType: 'QUARTERLY',
+      phasing: 'CUSTOM',
+      phasingSchedule: JSON.stringify([100, 300]),
+    });
+    expect(amounts).toEqual([100, 100, 100, 100]);
+  });
+});
+
+describe('getPhasedBudgetToDate', () => {
+  const quarterly = {
+    budgetAmount: 1000,
+    accrualType: 'QUARTERLY',
+    phasing: 'CUSTOM',
+    phasingSchedule: JSON.stringify([100, 200, 300, 400]),
+  };
+
+  it('should add up the periods started so far', () => {
+    expect(getPhasedBudgetToDate(quarterly, fyStart, new Date(2026, 7, 15))).toBe(100);
+    expect(getPhasedBudgetToDate(quarterly, fyStart, new Date(2027, 0, 15))).toBe(600);
+    expect(getPhasedBudgetToDate(quarterly, fyStart, new Date(2027, 5, 30))).toBe(1000);
+  });
+
+  it('should release an annual budget in full up front', () => {
+    const annual = { budgetAmount: 5000, accrualType: 'ANNUAL', phasing: 'EVEN', phasingSchedule: null };
+    expect(getPhasedBudgetToDate(annual, fyStart, new Date(2026, 6, 1))).toBe(5000);
+  });
+});
+
+describe('getYearToDateVariance', () => {
+  const monthly = { budgetAmount: 1200, accrualType: 'MONTHLY', phasing: 'EVEN', phasingSchedule: null };
+
+  it('should compare spend with the phased budget to date', () => {
+    // Three months into the year: $300 phased
+    const variance = getYearToDateVariance({ ...monthly, actualSpent: 450 }, fyStart, new Date(2026, 8, 10));
+    expect(variance.ytdBudget).toBe(300);
+    expect(variance.ytdVariance).toBe(-150);
+    expect(variance.ytdVariancePercent).toBe(-50);
+  });
+
+  it('should report spend before anything is phased as fully over', () => {
+    const variance = getYearToDateVariance({ ...monthly, actualSpent: 50 }, fyStart, new Date(2026, 5, 1));
+    expect(variance.ytdBudget).toBe(0);
+    expect(variance.ytdVariancePercent).toBe(-100);
+  });
+});
+
+describe('validatePhasing', () => {
+  it('should accept even phasing for any accrual type', () => {
+    expect(validatePhasing('ANNUAL', 'EVEN', null, 1000)).toBeNull();
+  });
+
+  it('should require one amount per period adding up to the budget', () => {
+    expect(validatePhasing('QUARTERLY', 'CUSTOM', [250, 250, 250, 250], 1000)).toBeNull();
+    expect(validatePhasing('QUARTERLY', 'CUSTOM', [500, 500], 1000)).toBe('Custom phasing needs 4 period amounts');
+    expect(validatePhasing('QUARTERLY', 'CUSTOM', [250, 250, 250, 200], 1000)).toContain('total $950.00');
+    expect(validatePhasing('QUARTERLY', 'CUSTOM', [-250, 750, 250, 250], 1000)).toBe('Period amounts must be zero or more');
+  });
+
+  it('should reject custom phasing on an annual line', () => {
+    expect(validatePhasing('ANNUAL', 'CUSTOM', [1000], 1000)).toContain('MONTHLY or QUARTERLY');
+  });
+});
+
+describe('parsePhasingSchedule', () => {
+  it('should read a stored array and ignore anything else', () => {
+    expect(parsePhasingSchedule('[1,2,3]')).toEqual([1, 2, 3]);
+    expect(parsePhasingSchedule('{"a":1}')).toBeNull();
+    expect(parsePhasingSchedule('not json')).toBeNull();
+    expect(parsePhasingSchedule(null)).toBeNull();
+  });
+});
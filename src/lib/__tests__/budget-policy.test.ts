@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prisma = vi.hoisted(() => ({
+  pOLineItem: { findMany: vi.fn() },
+  budgetCategory: { findMany: vi.fn() },
+  fiscalYear: { findMany: vi.fn() },
+  budgetOverride: { findMany: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma }));
+
+import { checkBudgetPolicy, isOverdraftPolicy, formatOverdraft } from '../budget-policy';
+
+// $1,000 budget with $600 already committed leaves $400
+const budgetItem = {
+  id: 'ops',
+  code: 'OPS-100',
+  description: 'Operations',
+  budgetAmount: 1000,
+  encumbered: 400,
+  actualSpent: 200,
+  categoryId: 'supplies',
+  fiscalYear: 2026,
+};
+
+function lineItems(...amounts: number[]) {
+  return amounts.map((amount) => ({ budgetItemId: 'ops', amount, budgetItem }));
+}
+
+beforeEach(() => {
+  prisma.budgetCategory.findMany.mockResolvedValue([
+    { id: 'facilities', parentId: null, overdraftPolicy: null },
+    { id: 'supplies', parentId: 'facilities', overdraftPolicy: null },
+  ]);
+  prisma.fiscalYear.findMany.mockResolvedValue([]);
+  prisma.budgetOverride.findMany.mockResolvedValue([]);
+});
+
+describe('checkBudgetPolicy', () => {
+  it('should pass lines within the remaining budget', async () => {
+    prisma.pOLineItem.findMany.mockResolvedValue(lineItems(250, 150));
+
+    const result = await checkBudgetPolicy('po-1');
+    expect(result.overdrafts).toEqual([]);
+  });
+
+  it('should add up lines on the same budget item and warn by default', async () => {
+    prisma.pOLineItem.findMany.mockResolvedValue(lineItems(250, 200));
+
+    const result = await checkBudgetPolicy('po-1');
+    expect(result.overdrafts).toHaveLength(1);
+    expect(result.overdrafts[0]).toMatchObject({ policy: 'WARN', requested: 450, available: 400, overdraft: 50 });
+    expect(result.warnings).toEqual(['Over budget: OPS-100 - Operations: $450.00 requested, $400.00 available']);
+  });
+
+  it('should take the policy from the nearest category that sets one', async () => {
+    prisma.pOLineItem.findMany.mockResolvedValue(lineItems(500));
+    prisma.budgetCategory.findMany.mockResolvedValue([
+      { id: 'facilities', parentId: null, overdraftPolicy: 'OVERRIDE' },
+      { id: 'supplies', parentId: 'facilities', overdraftPolicy: 'BLOCK' },
+    ]);
+    prisma.fiscalYear.findMany.mockResolvedValue([{ year: 2026, overdraftPolicy: 'WARN' }]);
+
+    expect((await checkBudgetPolicy('po-1')).blocked).toHaveLength(1);
+
+    prisma.budgetCategory.findMany.mockResolvedValue([
+      { id: 'facilities', parentId: null, overdraftPolicy: 'OVERRIDE' },
+      { id: 'supplies', parentId: 'facilities', overdraftPolicy: null },
+    ]);
+    expect((await checkBudgetPolicy('po-1')).needsOverride).toHaveLength(1);
+  });
+
+  it("should fall back to the fiscal year's policy", async () => {
+    prisma.pOLineItem.findMany.mockResolvedValue(lineItems(500));
+    prisma.fiscalYear.findMany.mockResolvedValue([{ year: 2026, overdraftPolicy: 'BLOCK' }]);
+
+    expect((await checkBudgetPolicy('po-1')).blocked).toHaveLength(1);
+  });
+
+  it('should not loop on a category cycle', async () => {
+    prisma.pOLineItem.findMany.mockResolvedValue(lineItems(500));
+    prisma.budgetCategory.findMany.mockResolvedValue([
+      { id: 'facilities', parentId: 'supplies', overdraftPolicy: null },
+      { id: 'supplies', parentId: 'facilities', overdraftPolicy: null },
+    ]);
+
+    expect((await checkBudgetPolicy('po-1')).overdrafts[0].policy).toBe('WARN');
+  });
+
+  it('should accept an existing override that covers the overdraft', async () => {
+    prisma.pOLineItem.findMany.mockResolvedValue(lineItems(500));
+    prisma.fiscalYear.findMany.mockResolvedValue([{ year: 2026, overdraftPolicy: 'OVERRIDE' }]);
+
+    prisma.budgetOverride.findMany.mockResolvedValue([{ budgetItemId: 'ops', overdraftAmount: 100 }]);
+    const covered = await checkBudgetPolicy('po-1');
+    expect(covered.needsOverride).toEqual([]);
+    expect(covered.overdrafts[0].overridden).toBe(true);
+
+    // An override for a smaller overdraft does not cover a larger one
+    prisma.budgetOverride.findMany.mockResolvedValue([{ budgetItemId: 'ops', overdraftAmount: 50 }]);
+    expect((await checkBudgetPolicy('po-1')).needsOverride).toHaveLength(1);
+  });
+});
+
+describe('isOverdraftPolicy', () => {
+  it('should accept only the known policies', () => {
+    expect(isOverdraftPolicy('BLOCK')).toBe(true);
+    expect(isOverdraftPolicy('block')).toBe(false);
+    expect(isOverdraftPolicy(null)).toBe(false);
+  });
+});
+
+describe('formatOverdraft', () => {
+  it('should show the requested and available amounts', () => {
+    expect(
+      formatOverdraft({
+        budgetItemId: 'ops',
+        code: 'OPS-100',
+        description: 'Operations',
+        policy: 'BLOCK',
+        requested: 1200,
+        available: 999.5,
+        overdraft: 200.5,
+        overridden: false,
+      })
+    ).toBe('OPS-100 - Operations: $1200.00 requested, $999.50 available');
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prisma = vi.hoisted(() => ({
+  purchaseOrder: { findUnique: vi.fn() },
+  budgetItem: { update: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma }));
+
+import { isFullyReceived, updateBudgetFromPO, recordReceivedAmount } from '../budget-tracking';
+
+function purchaseOrder(
+  lines: { budgetItemId: string; amount: number; receivedAmount?: number; releasedAmount?: number }[],
+  type = 'STANDARD'
+) {
+  return {
+    id: 'po-1',
+    type,
+    lineItems: lines.map((line) => ({ receivedAmount: 0, releasedAmount: 0, ...line })),
+  };
+}
+
+function budgetDelta(budgetItemId: string) {
+  const call = prisma.budgetItem.update.mock.calls.find(([args]) => args.where.id === budgetItemId);
+  if (!call) return null;
+  return { encumbered: call[0].data.encumbered.increment, actualSpent: call[0].data.actualSpent.increment };
+}
+
+beforeEach(() => {
+  prisma.budgetItem.update.mockReset();
+});
+
+describe('isFullyReceived', () => {
+  it('should need every line received in full', () => {
+    expect(
+      isFullyReceived([
+        { amount: 100, receivedAmount: 100 },
+        { amount: 50, receivedAmount: 20 },
+      ])
+    ).toBe(false);
+    expect(
+      isFullyReceived([
+        { amount: 100, receivedAmount: 100 },
+        { amount: 50, receivedAmount: 50 },
+      ])
+    ).toBe(true);
+  });
+
+  it('should ignore floating point noise but not a missing cent', () => {
+    expect(isFullyReceived([{ amount: 0.3, receivedAmount: 0.1 + 0.2 - 0.001 }])).toBe(true);
+    expect(isFullyReceived([{ amount: 10, receivedAmount: 9.99 }])).toBe(false);
+  });
+
+  it('should not treat a PO without lines as received', () => {
+    expect(isFullyReceived([])).toBe(false);
+  });
+});
+
+describe('updateBudgetFromPO', () => {
+  it('should encumber the line amounts grouped by budget item on approval', async () => {
+    prisma.purchaseOrder.findUnique.mockResolvedValue(
+      purchaseOrder([
+        { budgetItemId: 'a', amount: 100 },
+        { budgetItemId: 'a', amount: 50 },
+        { budgetItemId: 'b', amount: 25 },
+      ])
+    );
+
+    await updateBudgetFromPO('po-1', 'PENDING_APPROVAL', 'APPROVED');
+
+    expect(budgetDelta('a')).toEqual({ encumbered: 150, actualSpent: 0 });
+    expect(budgetDelta('b')).toEqual({ encumbered: 25, actualSpent: 0 });
+  });
+
+  it('should book only what was received when a partially received PO is closed', async () => {
+    prisma.purchaseOrder.findUnique.mockResolvedValue(
+      purchaseOrder([{ budgetItemId: 'a', amount: 500, receivedAmount: 200 }])
+    );
+
+    await updateBudgetFromPO('po-1', 'PARTIALLY_RECEIVED', 'COMPLETED');
+
+    // The received $200 is already in actuals; the open $300 is released
+    expect(budgetDelta('a')).toEqual({ encumbered: -300, actualSpent: 0 });
+  });
+
+  it('should book the full amount when a PO is completed without receiving entries', async () => {
+    prisma.purchaseOrder.findUnique.mockResolvedValue(purchaseOrder([{ budgetItemId: 'a', amount: 500 }]));
+
+    await updateBudgetFromPO('po-1', 'APPROVED', 'COMPLETED');
+
+    expect(budgetDelta('a')).toEqual({ encumbered: -500, actualSpent: 500 });
+  });
+
+  it('should reverse received actuals when a partially received PO is cancelled', async () => {
+    prisma.purchaseOrder.findUnique.mockResolvedValue(
+      purchaseOrder([{ budgetItemId: 'a', amount: 500, receivedAmount: 200 }])
+    );
+
+    await updateBudgetFromPO('po-1', 'PARTIALLY_RECEIVED', 'CANCELLED');
+
+    expect(budgetDelta('a')).toEqual({ encumbered: -300, actualSpent: -200 });
+  });
+
+  it('should leave the drawn-down part of a blanket PO to its releases', async () => {
+    prisma.purchaseOrder.findUnique.mockResolvedValue(
+      purchaseOrder([{ budgetItemId: 'a', amount: 1000, releasedAmount: 400 }], 'BLANKET')
+    );
+
+    await updateBudgetFromPO('po-1', 'APPROVED', 'COMPLETED');
+
+    expect(budgetDelta('a')).toEqual({ encumbered: -600, actualSpent: 0 });
+  });
+
+  it('should skip budget items whose totals do not move', async () => {
+    prisma.purchaseOrder.findUnique.mockResolvedValue(
+      purchaseOrder([{ budgetItemId: 'a', amount: 500, receivedAmount: 200 }])
+    );
+
+    await updateBudgetFromPO('po-1', 'APPROVED', 'PARTIALLY_RECEIVED');
+
+    expect(prisma.budgetItem.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('recordReceivedAmount', () => {
+  it('should move the received amount from encumbered to actuals', async () => {
+    await recordReceivedAmount('a', 75);
+    expect(prisma.budgetItem.update).toHaveBeenCalledWith({
+      where: { id: 'a' },
+      data: { encumbered: { decrement: 75 }, actualSpent: { increment: 75 } },
+    });
+  });
+
+  it('should do nothing for a zero amount', async () => {
+    await recordReceivedAmount('a', 0);
+    expect(prisma.budgetItem.update).not.toHaveBeenCalled();
+  });
+});
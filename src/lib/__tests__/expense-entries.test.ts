@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getMileageRateOnDate,
+  getPerDiemDailyRate,
+  countPerDiemDays,
+  calculateExpenseEntry,
+} from '../expense-entries';
+import type { SystemSettings } from '../settings';
+
+const settings: SystemSettings['expenses'] = {
+  distanceUnit: 'mi',
+  mileageRates: [
+    { effectiveDate: '2026-01-01', rate: 0.725 },
+    { effectiveDate: '2025-01-01', rate: 0.7 },
+  ],
+  perDiem: {
+    defaultDailyRate: 68,
+    travelDayPercent: 75,
+    locations: [{ name: 'New York City', dailyRate: 92 }],
+  },
+};
+
+describe('getMileageRateOnDate', () => {
+  it('should use the latest rate in effect on the date', () => {
+    expect(getMileageRateOnDate(settings.mileageRates, '2025-12-31')).toBe(0.7);
+    expect(getMileageRateOnDate(settings.mileageRates, '2026-01-01')).toBe(0.725);
+    expect(getMileageRateOnDate(settings.mileageRates, '2024-06-30')).toBeNull();
+  });
+});
+
+describe('getPerDiemDailyRate', () => {
+  it('should match the location by name regardless of case, else use the default', () => {
+    expect(getPerDiemDailyRate(settings.perDiem, ' new york city ')).toBe(92);
+    expect(getPerDiemDailyRate(settings.perDiem, 'Boston')).toBe(68);
+    expect(getPerDiemDailyRate(settings.perDiem, null)).toBe(68);
+  });
+});
+
+describe('countPerDiemDays', () => {
+  it('should pay the first and last travel days at the travel day percent', () => {
+    expect(countPerDiemDays('2026-03-02', '2026-03-02', 75)).toBe(0.75);
+    expect(countPerDiemDays('2026-03-02', '2026-03-03', 75)).toBe(1.5);
+    expect(countPerDiemDays('2026-03-02', '2026-03-06', 75)).toBe(4.5);
+  });
+
+  it('should count calendar days across a daylight saving change', () => {
+    expect(countPerDiemDays('2026-03-07', '2026-03-09', 100)).toBe(3);
+  });
+
+  it('should reject a trip that ends before it starts', () => {
+    expect(countPerDiemDays('2026-03-06', '2026-03-02', 75)).toBeNull();
+  });
+});
+
+describe('calculateExpenseEntry', () => {
+  it('should work out mileage from odometer readings', () => {
+    const result = calculateExpenseEntry(
+      { type: 'mileage', expenseDate: '2026-03-02', odometerStart: 12040, odometerEnd: 12100, distance: 10 },
+      settings
+    );
+
+    expect(result).toMatchObject({
+      data: { distance: 60, distanceUnit: 'mi', rate: 0.725, amount: 43.5, endDate: null, days: null },
+    });
+  });
+
+  it('should round entered mileage to a tenth before pricing it', () => {
+    const result = calculateExpenseEntry({ type: 'mileage', expenseDate: '2025-06-01', distance: 12.34 }, settings);
+    expect(result).toMatchObject({ data: { distance: 12.3, rate: 0.7, amount: 8.61 } });
+  });
+
+  it('should reject missing or backwards mileage and dates without a rate', () => {
+    expect(calculateExpenseEntry({ type: 'mileage', expenseDate: '2026-03-02' }, settings)).toEqual({
+      error: 'Enter the distance driven or both odometer readings',
+    });
+    expect(
+      calculateExpenseEntry({ type: 'mileage', expenseDate: '2026-03-02', odometerStart: 500, odometerEnd: 500 }, settings)
+    ).toEqual({ error: 'The ending odometer reading must be higher than the starting one' });
+    expect(calculateExpenseEntry({ type: 'mileage', expenseDate: '2024-03-02', distance: 5 }, settings)).toEqual({
+      error: 'No mileage rate is configured for that date',
+    });
+  });
+
+  it('should price a per diem trip at the location rate', () => {
+    const result = calculateExpenseEntry(
+      { type: 'per_diem', expenseDate: '2026-03-02', endDate: '2026-03-04', location: 'New York City', distance: 40 },
+      settings
+    );
+
+    expect(result).toMatchObject({
+      data: {
+        endDate: new Date('2026-03-04T00:00:00.000Z'),
+        location: 'New York City',
+        distance: null,
+        days: 2.5,
+        rate: 92,
+        amount: 230,
+      },
+    });
+  });
+
+  it('should treat a per diem without an end date as a single travel day', () => {
+    const result = calculateExpenseEntry({ type: 'per_diem', expenseDate: '2026-03-02' }, settings);
+    expect(result).toMatchObject({ data: { endDate: new Date('2026-03-02T00:00:00.000Z'), days: 0.75, amount: 51 } });
+
+    expect(
+      calculateExpenseEntry({ type: 'per_diem', expenseDate: '2026-03-04', endDate: '2026-03-02' }, settings)
+    ).toEqual({ error: 'The last travel day cannot be before the first' });
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prisma = vi.hoisted(() => ({
+  $transaction: vi.fn(),
+  receipt: { findUnique: vi.fn(), findMany: vi.fn() },
+  expensePolicy: { findMany: vi.fn() },
+  receiptPolicyViolation: { deleteMany: vi.fn(), createMany: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma }));
+
+import { parseBannedMerchants, policyApplies, evaluateExpensePolicy, applyExpensePolicies } from '../expense-policy';
+
+type Policy = Parameters<typeof evaluateExpensePolicy>[0];
+
+function policy(rule: string, overrides: Partial<Policy> = {}): Policy {
+  return {
+    id: `policy-${rule}`,
+    name: rule,
+    rule,
+    departmentId: null,
+    budgetCategoryId: null,
+    amount: null,
+    maxDays: null,
+    merchants: null,
+    ...overrides,
+  };
+}
+
+// Bought on a Tuesday, submitted a week later
+const receipt = {
+  merchantName: 'Corner Bistro',
+  receiptDate: new Date('2026-03-03T00:00:00.000Z'),
+  amount: 80,
+  notes: null,
+  budgetCategoryId: 'meals',
+  createdAt: new Date('2026-03-10T15:00:00.000Z'),
+};
+
+describe('parseBannedMerchants', () => {
+  it('should read one lowercased merchant per line and skip blanks', () => {
+    expect(parseBannedMerchants('Liquor Barn\n\n  CASINO  \n')).toEqual(['liquor barn', 'casino']);
+    expect(parseBannedMerchants(null)).toEqual([]);
+  });
+});
+
+describe('policyApplies', () => {
+  it('should apply unscoped policies everywhere and scoped ones only to their match', () => {
+    expect(policyApplies({ departmentId: null, budgetCategoryId: null }, null, null)).toBe(true);
+    expect(policyApplies({ departmentId: 'sales', budgetCategoryId: 'meals' }, 'meals', 'sales')).toBe(true);
+    expect(policyApplies({ departmentId: 'sales', budgetCategoryId: null }, 'meals', 'ops')).toBe(false);
+    expect(policyApplies({ departmentId: null, budgetCategoryId: 'travel' }, 'meals', 'sales')).toBe(false);
+  });
+});
+
+describe('evaluateExpensePolicy', () => {
+  it('should flag a receipt over the per-receipt cap', () => {
+    expect(evaluateExpensePolicy(policy('receipt_cap', { amount: 75 }), receipt)).toBe(
+      '$80.00 is over the $75.00 limit per receipt'
+    );
+    expect(evaluateExpensePolicy(policy('receipt_cap', { amount: 80 }), receipt)).toBeNull();
+    expect(evaluateExpensePolicy(policy('receipt_cap', { amount: 75 }), { ...receipt, amount: null })).toBeNull();
+  });
+
+  it('should flag a day whose total is over the daily limit', () => {
+    expect(evaluateExpensePolicy(policy('daily_limit', { amount: 100 }), receipt, 120.5)).toBe(
+      '$120.50 spent that day is over the $100.00 daily limit'
+    );
+    expect(evaluateExpensePolicy(policy('daily_limit', { amount: 100 }), receipt, 100)).toBeNull();
+  });
+
+  it('should require a note above the amount', () => {
+    const notesRequired = policy('notes_required', { amount: 50 });
+    expect(evaluateExpensePolicy(notesRequired, receipt)).toBe('Receipts over $50.00 need a note explaining the expense');
+    expect(evaluateExpensePolicy(notesRequired, { ...receipt, notes: '   ' })).not.toBeNull();
+    expect(evaluateExpensePolicy(notesRequired, { ...receipt, notes: 'Client lunch' })).toBeNull();
+  });
+
+  it('should match banned merchants by substring regardless of case', () => {
+    const banned = policy('banned_merchant', { merchants: 'bistro\ncasino' });
+    expect(evaluateExpensePolicy(banned, receipt)).toBe('Corner Bistro is not an allowed merchant');
+    expect(evaluateExpensePolicy(banned, { ...receipt, merchantName: 'Cafe' })).toBeNull();
+    expect(evaluateExpensePolicy(banned, { ...receipt, merchantName: null })).toBeNull();
+  });
+
+  it('should flag weekend purchases by their UTC date', () => {
+    const weekend = policy('weekend');
+    expect(evaluateExpensePolicy(weekend, { ...receipt, receiptDate: new Date('2026-03-07T00:00:00.000Z') })).toBe(
+      'Purchased on a weekend'
+    );
+    expect(evaluateExpensePolicy(weekend, receipt)).toBeNull();
+  });
+
+  it('should flag receipts submitted too long after purchase', () => {
+    expect(evaluateExpensePolicy(policy('receipt_age', { maxDays: 5 }), receipt)).toBe(
+      'Submitted 7 days after purchase, over the 5 day limit'
+    );
+    expect(evaluateExpensePolicy(policy('receipt_age', { maxDays: 7 }), receipt)).toBeNull();
+    expect(evaluateExpensePolicy(policy('receipt_age', { maxDays: 5 }), { ...receipt, receiptDate: null })).toBeNull();
+  });
+
+  it('should ignore unknown rules', () => {
+    expect(evaluateExpensePolicy(policy('mystery', { amount: 1 }), receipt)).toBeNull();
+  });
+});
+
+describe('applyExpensePolicies', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.receipt.findUnique.mockResolvedValue({
+      ...receipt,
+      id: 'receipt-1',
+      userId: 'user-1',
+      totalAmount: 80,
+      convertedAmount: null,
+      user: { departmentId: 'sales' },
+    });
+    prisma.receiptPolicyViolation.deleteMany.mockReturnValue('delete');
+    prisma.receiptPolicyViolation.createMany.mockReturnValue('create');
+  });
+
+  it('should replace stored violations with those from policies covering the receipt', async () => {
+    prisma.expensePolicy.findMany.mockResolvedValue([
+      policy('receipt_cap', { amount: 75 }),
+      policy('notes_required', { amount: 50, departmentId: 'ops' }),
+      policy('weekend'),
+    ]);
+
+    expect(await applyExpensePolicies('receipt-1')).toBe(1);
+    expect(prisma.receiptPolicyViolation.createMany).toHaveBeenCalledWith({
+      data: [
+        { receiptId: 'receipt-1', policyId: 'policy-receipt_cap', message: '$80.00 is over the $75.00 limit per receipt' },
+      ],
+    });
+    expect(prisma.$transaction).toHaveBeenCalledWith(['delete', 'create']);
+  });
+
+  it('should total the day in the policy category, converted amounts first', async () => {
+    prisma.expensePolicy.findMany.mockResolvedValue([policy('daily_limit', { amount: 100, budgetCategoryId: 'meals' })]);
+    prisma.receipt.findMany.mockResolvedValue([
+      { totalAmount: 80, convertedAmount: null },
+      { totalAmount: 30, convertedAmount: 25 },
+    ]);
+
+    expect(await applyExpensePolicies('receipt-1')).toBe(1);
+    expect(prisma.receipt.findMany).toHaveBeenCalledWith({
+      where: {
+        userId: 'user-1',
+        receiptDate: { gte: new Date('2026-03-03T00:00:00.000Z'), lt: new Date('2026-03-04T00:00:00.000Z') },
+        budgetCategoryId: 'meals',
+      },
+      select: { totalAmount: true, convertedAmount: true },
+    });
+    expect(prisma.receiptPolicyViolation.createMany.mock.calls[0][0].data[0].message).toBe(
+      '$105.00 spent that day is over the $100.00 daily limit'
+    );
+  });
+
+  it('should do nothing for a missing receipt', async () => {
+    prisma.receipt.findUnique.mockResolvedValue(null);
+
+    expect(await applyExpensePolicies('missing')).toBe(0);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
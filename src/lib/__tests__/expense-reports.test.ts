@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import {
+  summarizeExpenseReport,
+  canReviewExpenseReport,
+  canViewExpenseReport,
+  getExpenseReportDepartmentScope,
+} from '../expense-reports';
+import type { UserPermissions } from '../check-permissions';
+
+const approver: UserPermissions = { expenseReports: { canApprove: true, canViewDepartment: true } };
+const financeApprover: UserPermissions = { expenseReports: { canApprove: true, canViewAll: true } };
+const viewerOnly: UserPermissions = { expenseReports: { canViewDepartment: true } };
+
+const manager = { id: 'manager', departmentId: 'sales' };
+const salesReport = { userId: 'employee', user: { departmentId: 'sales' } };
+const opsReport = { userId: 'employee', user: { departmentId: 'ops' } };
+
+describe('summarizeExpenseReport', () => {
+  it('should split personal spend from company card spend', () => {
+    const totals = summarizeExpenseReport([
+      { totalAmount: 42.5, convertedAmount: null, paymentMethod: 'personal' },
+      { totalAmount: 100, convertedAmount: null, paymentMethod: 'company_card' },
+    ]);
+    expect(totals.totalAmount).toBe(142.5);
+    expect(totals.reimbursableAmount).toBe(42.5);
+    expect(totals.companyCardAmount).toBe(100);
+  });
+
+  it('should prefer the converted amount for foreign currency receipts', () => {
+    const totals = summarizeExpenseReport([{ totalAmount: 50, convertedAmount: 36.75, paymentMethod: 'personal' }]);
+    expect(totals.totalAmount).toBe(36.75);
+  });
+
+  it('should count receipts without an amount but leave them out of the totals', () => {
+    const totals = summarizeExpenseReport([
+      { totalAmount: null, convertedAmount: null, paymentMethod: 'personal' },
+      { totalAmount: 10, convertedAmount: null, paymentMethod: 'personal' },
+    ]);
+    expect(totals.receiptCount).toBe(2);
+    expect(totals.missingAmountCount).toBe(1);
+    expect(totals.totalAmount).toBe(10);
+  });
+
+  it('should hold suspected and confirmed duplicates out of the totals', () => {
+    const totals = summarizeExpenseReport([
+      { totalAmount: 10, convertedAmount: null, paymentMethod: 'personal', duplicateStatus: 'suspected' },
+      { totalAmount: 20, convertedAmount: null, paymentMethod: 'personal', duplicateStatus: 'confirmed' },
+      { totalAmount: 30, convertedAmount: null, paymentMethod: 'personal', duplicateStatus: 'dismissed' },
+    ]);
+    expect(totals.heldDuplicateCount).toBe(2);
+    expect(totals.totalAmount).toBe(30);
+  });
+
+  it('should always reimburse mileage and per diem entries', () => {
+    const totals = summarizeExpenseReport(
+      [{ totalAmount: 100, convertedAmount: null, paymentMethod: 'company_card' }],
+      [{ amount: 33.5 }, { amount: 0.1 }, { amount: 0.2 }]
+    );
+    expect(totals.entryCount).toBe(3);
+    expect(totals.reimbursableAmount).toBe(33.8);
+    expect(totals.totalAmount).toBe(133.8);
+  });
+});
+
+describe('getExpenseReportDepartmentScope', () => {
+  it("should cover every department with view-all, and only the viewer's own with view-department", () => {
+    expect(getExpenseReportDepartmentScope(financeApprover, 'sales')).toBeNull();
+    expect(getExpenseReportDepartmentScope(viewerOnly, 'sales')).toEqual(['sales']);
+  });
+
+  it('should cover nothing without a department or view permission', () => {
+    expect(getExpenseReportDepartmentScope(viewerOnly, null)).toEqual([]);
+    expect(getExpenseReportDepartmentScope({}, 'sales')).toEqual([]);
+  });
+});
+
+describe('canViewExpenseReport', () => {
+  it('should let employees see their own reports without any permission', () => {
+    expect(canViewExpenseReport(opsReport, { id: 'employee', departmentId: 'ops' }, {})).toBe(true);
+  });
+
+  it('should limit department viewers to their own department', () => {
+    expect(canViewExpenseReport(salesReport, manager, viewerOnly)).toBe(true);
+    expect(canViewExpenseReport(opsReport, manager, viewerOnly)).toBe(false);
+  });
+});
+
+describe('canReviewExpenseReport', () => {
+  it('should let a department approver review reports from their department', () => {
+    expect(canReviewExpenseReport(salesReport, manager, approver)).toBe(true);
+  });
+
+  it('should not let a department approver review another department', () => {
+    expect(canReviewExpenseReport(opsReport, manager, approver)).toBe(false);
+  });
+
+  it('should let a view-all approver review any department', () => {
+    expect(canReviewExpenseReport(opsReport, manager, financeApprover)).toBe(true);
+  });
+
+  it('should not let anyone approve their own report, admins included', () => {
+    const ownReport = { userId: 'manager', user: { departmentId: 'sales' } };
+    expect(canReviewExpenseReport(ownReport, manager, approver)).toBe(false);
+    expect(canReviewExpenseReport(ownReport, manager, { _isAdmin: true })).toBe(false);
+  });
+
+  it('should require canApprove even when the report is in scope', () => {
+    expect(canReviewExpenseReport(salesReport, manager, viewerOnly)).toBe(false);
+  });
+
+  it('should not match a report from an employee with no department to a department approver', () => {
+    const unassigned = { userId: 'employee', user: { departmentId: null } };
+    expect(canReviewExpenseReport(unassigned, manager, approver)).toBe(false);
+    expect(canReviewExpenseReport(unassigned, manager, financeApprover)).toBe(true);
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+const { updateBudgetFromPO, adjustBlanketDrawdown } = vi.hoisted(() => ({
+  updateBudgetFromPO: vi.fn(),
+  adjustBlanketDrawdown: vi.fn(),
+}));
+
+vi.mock('../budget-tracking', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../budget-tracking')>()),
+  updateBudgetFromPO,
+}));
+vi.mock('../blanket-po', () => ({ adjustBlanketDrawdown }));
+
+import {
+  cancelForYearEnd,
+  findRolloverTarget,
+  getOpenAmount,
+  rollOverPurchaseOrder,
+} from '../fiscal-year-close';
+
+type LineFixture = {
+  id: string;
+  amount: number;
+  receivedAmount?: number;
+  releasedAmount?: number;
+  fiscalYear?: number;
+};
+
+function createPO(status: string, lines: LineFixture[], overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'po-1',
+    status,
+    blanketPoId: null,
+    lineItems: lines.map((line) => ({
+      id: line.id,
+      description: `Line ${line.id}`,
+      amount: line.amount,
+      receivedAmount: line.receivedAmount ?? 0,
+      releasedAmount: line.releasedAmount ?? 0,
+      budgetItemId: `item-${line.fiscalYear ?? 2026}`,
+      budgetItem: { code: `OPS-${line.fiscalYear ?? 2026}`, fiscalYear: line.fiscalYear ?? 2026 },
+    })),
+    ...overrides,
+  };
+}
+
+// A transaction client holding one PO; line writes are applied so re-reads see them
+function createTx(po: ReturnType<typeof createPO>) {
+  let lineItems = po.lineItems.map((lineItem) => ({ ...lineItem }));
+  return {
+    purchaseOrder: {
+      findUnique: vi.fn().mockResolvedValue(po),
+      update: vi.fn(),
+    },
+    pOLineItem: {
+      findMany: vi.fn(async () => lineItems),
+      create: vi.fn(),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: { amount?: number } }) => {
+        lineItems = lineItems.map((li) => (li.id === where.id ? { ...li, ...data } : li));
+      }),
+      delete: vi.fn(async ({ where }: { where: { id: string } }) => {
+        lineItems = lineItems.filter((li) => li.id !== where.id);
+      }),
+    },
+    pOChangeOrder: { updateMany: vi.fn() },
+  };
+}
+
+type Tx = Parameters<typeof cancelForYearEnd>[4];
+
+beforeEach(() => {
+  updateBudgetFromPO.mockReset();
+  adjustBlanketDrawdown.mockReset();
+});
+
+describe('getOpenAmount', () => {
+  it('should leave out what was received or released, never going below zero', () => {
+    expect(getOpenAmount({ amount: 100, receivedAmount: 30, releasedAmount: 20 })).toBe(50);
+    expect(getOpenAmount({ amount: 100, receivedAmount: 120, releasedAmount: 0 })).toBe(0);
+  });
+});
+
+describe('findRolloverTarget', () => {
+  const targets = [
+    { id: 'a', code: 'FAC-MAINT' },
+    { id: 'b', code: 'IT-OPS-2027' },
+  ];
+
+  it('should match the same code, or the code with the year swapped', () => {
+    expect(findRolloverTarget('FAC-MAINT', 2026, 2027, targets)?.id).toBe('a');
+    expect(findRolloverTarget('IT-OPS-2026', 2026, 2027, targets)?.id).toBe('b');
+  });
+
+  it('should return null when the new year has no matching line', () => {
+    expect(findRolloverTarget('HR-TRAIN-2026', 2026, 2027, targets)).toBeNull();
+  });
+});
+
+describe('cancelForYearEnd', () => {
+  it('should cancel a PO with nothing received', async () => {
+    const tx = createTx(createPO('APPROVED', [{ id: 'l1', amount: 500 }]));
+
+    const result = await cancelForYearEnd('po-1', 2026, 'user-1', 'Year-end close', tx as unknown as Tx);
+
+    expect(result).toMatchObject({ action: 'CANCELLED', amount: 500 });
+    expect(tx.purchaseOrder.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'CANCELLED' }) })
+    );
+    expect(updateBudgetFromPO).toHaveBeenCalledWith('po-1', 'APPROVED', 'CANCELLED', tx);
+  });
+
+  it('should close a partially received PO short and keep what was received as spent', async () => {
+    const tx = createTx(createPO('PARTIALLY_RECEIVED', [{ id: 'l1', amount: 500, receivedAmount: 200 }]));
+
+    const result = await cancelForYearEnd('po-1', 2026, 'user-1', 'Year-end close', tx as unknown as Tx);
+
+    expect(result).toMatchObject({ action: 'CLOSED_SHORT', amount: 300 });
+    expect(updateBudgetFromPO).toHaveBeenCalledWith('po-1', 'PARTIALLY_RECEIVED', 'COMPLETED', tx);
+  });
+
+  it('should only trim the closing year on a PO that spans fiscal years', async () => {
+    const tx = createTx(
+      createPO('PARTIALLY_RECEIVED', [
+        { id: 'l1', amount: 500, receivedAmount: 200 },
+        { id: 'l2', amount: 300 },
+        { id: 'l3', amount: 400, fiscalYear: 2027 },
+      ])
+    );
+
+    const result = await cancelForYearEnd('po-1', 2026, 'user-1', 'Year-end close', tx as unknown as Tx);
+
+    expect(result).toMatchObject({ action: 'LINES_RELEASED', amount: 600 });
+    expect(tx.pOLineItem.update).toHaveBeenCalledWith({ where: { id: 'l1' }, data: { amount: 200 } });
+    expect(tx.pOLineItem.delete).toHaveBeenCalledWith({ where: { id: 'l2' } });
+    expect(tx.purchaseOrder.update).toHaveBeenCalledWith({
+      where: { id: 'po-1' },
+      data: { totalAmount: { decrement: 600 } },
+    });
+    // The next year's line is still open
+    expect(tx.purchaseOrder.update).not.toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'COMPLETED' }) })
+    );
+  });
+
+  it('should complete a spanning PO once trimming leaves nothing outstanding', async () => {
+    const tx = createTx(
+      createPO('PARTIALLY_RECEIVED', [
+        { id: 'l1', amount: 500, receivedAmount: 200 },
+        { id: 'l2', amount: 400, receivedAmount: 400, fiscalYear: 2027 },
+      ])
+    );
+
+    await cancelForYearEnd('po-1', 2026, 'user-1', 'Year-end close', tx as unknown as Tx);
+
+    expect(tx.purchaseOrder.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'COMPLETED' }) })
+    );
+    expect(updateBudgetFromPO).toHaveBeenLastCalledWith('po-1', 'PARTIALLY_RECEIVED', 'COMPLETED', tx);
+  });
+
+  it('should give a trimmed release back to its blanket PO', async () => {
+    const tx = createTx(
+      createPO('APPROVED', [{ id: 'l1', amount: 250 }, { id: 'l2', amount: 100, fiscalYear: 2027 }], {
+        blanketPoId: 'blanket-1',
+      })
+    );
+
+    await cancelForYearEnd('po-1', 2026, 'user-1', 'Year-end close', tx as unknown as Tx);
+
+    expect(adjustBlanketDrawdown).toHaveBeenCalledWith('blanket-1', [{ budgetItemId: 'item-2026', amount: 250 }], -1, tx);
+  });
+
+  it('should refuse a PO that is no longer open', async () => {
+    const tx = createTx(createPO('COMPLETED', [{ id: 'l1', amount: 500 }]));
+
+    await expect(cancelForYearEnd('po-1', 2026, 'user-1', 'Year-end close', tx as unknown as Tx)).rejects.toThrow(
+      'Purchase order is not open'
+    );
+  });
+});
+
+describe('rollOverPurchaseOrder', () => {
+  const target = { id: 'item-2027', code: 'OPS-2027' };
+
+  it('should move a line with nothing received to the new year outright', async () => {
+    const tx = createTx(createPO('APPROVED', [{ id: 'l1', amount: 500 }]));
+
+    const result = await rollOverPurchaseOrder('po-1', 2026, { l1: target }, tx as unknown as Tx);
+
+    expect(result.amount).toBe(500);
+    expect(result.lines).toEqual([{ description: 'Line l1', fromCode: 'OPS-2026', toCode: 'OPS-2027', amount: 500 }]);
+    expect(tx.pOLineItem.update).toHaveBeenCalledWith({ where: { id: 'l1' }, data: { budgetItemId: 'item-2027' } });
+    expect(tx.pOLineItem.create).not.toHaveBeenCalled();
+  });
+
+  it('should split a partly received line, keeping the received part on the old year', async () => {
+    const tx = createTx(createPO('PARTIALLY_RECEIVED', [{ id: 'l1', amount: 500, receivedAmount: 150 }]));
+
+    const result = await rollOverPurchaseOrder('po-1', 2026, { l1: target }, tx as unknown as Tx);
+
+    expect(result.amount).toBe(350);
+    expect(tx.pOLineItem.update).toHaveBeenCalledWith({ where: { id: 'l1' }, data: { amount: 150 } });
+    expect(tx.pOLineItem.create).toHaveBeenCalledWith({
+      data: { purchaseOrderId: 'po-1', description: 'Line l1', amount: 350, budgetItemId: 'item-2027' },
+    });
+    // The budget is released and re-booked around the move
+    expect(updateBudgetFromPO).toHaveBeenNthCalledWith(1, 'po-1', 'PARTIALLY_RECEIVED', 'CANCELLED', tx);
+    expect(updateBudgetFromPO).toHaveBeenNthCalledWith(2, 'po-1', 'CANCELLED', 'PARTIALLY_RECEIVED', tx);
+  });
+
+  it('should leave lines on other years and fully received lines alone', async () => {
+    const tx = createTx(
+      createPO('PARTIALLY_RECEIVED', [
+        { id: 'l1', amount: 500, receivedAmount: 500 },
+        { id: 'l2', amount: 300, fiscalYear: 2027 },
+      ])
+    );
+
+    const result = await rollOverPurchaseOrder('po-1', 2026, {}, tx as unknown as Tx);
+
+    expect(result.lines).toEqual([]);
+    expect(tx.pOLineItem.update).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to roll over a line without a target before changing anything', async () => {
+    const tx = createTx(createPO('APPROVED', [{ id: 'l1', amount: 500 }]));
+
+    await expect(rollOverPurchaseOrder('po-1', 2026, {}, tx as unknown as Tx)).rejects.toThrow(
+      'No target budget line for "Line l1"'
+    );
+    expect(updateBudgetFromPO).not.toHaveBeenCalled();
+  });
+});
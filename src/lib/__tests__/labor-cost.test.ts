@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { parseLaborCostPeriod, getRateOnDate } from '../labor-cost';
+
+describe('parseLaborCostPeriod', () => {
+  it('should cover whole UTC days from the first to the last', () => {
+    const period = parseLaborCostPeriod('2026-03-01', '2026-03-15');
+    expect(period).not.toBeNull();
+    expect(period!.start.toISOString()).toBe('2026-03-01T00:00:00.000Z');
+    expect(period!.end.toISOString()).toBe('2026-03-15T23:59:59.999Z');
+  });
+
+  it('should allow a single-day period', () => {
+    const period = parseLaborCostPeriod('2026-03-01', '2026-03-01');
+    expect(period!.end.getTime() - period!.start.getTime()).toBe(24 * 60 * 60 * 1000 - 1);
+  });
+
+  it('should keep the end of a period on its own day across a DST change', () => {
+    // US clocks go forward on 2026-03-08
+    const period = parseLaborCostPeriod('2026-03-08', '2026-03-08');
+    expect(period!.end.toISOString().slice(0, 10)).toBe('2026-03-08');
+  });
+
+  it('should reject an end before the start', () => {
+    expect(parseLaborCostPeriod('2026-03-15', '2026-03-01')).toBeNull();
+  });
+
+  it('should reject anything but YYYY-MM-DD', () => {
+    expect(parseLaborCostPeriod('2026-3-1', '2026-03-15')).toBeNull();
+    expect(parseLaborCostPeriod('2026-03-01T00:00:00Z', '2026-03-15')).toBeNull();
+    expect(parseLaborCostPeriod('', '')).toBeNull();
+  });
+
+  it('should reject days that do not exist', () => {
+    expect(parseLaborCostPeriod('2026-02-30', '2026-03-15')).toBeNull();
+    expect(parseLaborCostPeriod('2026-03-01', '2026-13-01')).toBeNull();
+  });
+});
+
+describe('getRateOnDate', () => {
+  const rates = [
+    { hourlyRate: 20, effectiveDate: new Date('2026-01-01T00:00:00.000Z') },
+    { hourlyRate: 22, effectiveDate: new Date('2026-04-01T00:00:00.000Z') },
+  ];
+
+  it('should use the latest rate starting on or before the day', () => {
+    expect(getRateOnDate(rates, '2026-03-31')).toBe(20);
+    expect(getRateOnDate(rates, '2026-04-01')).toBe(22);
+    expect(getRateOnDate(rates, '2026-12-31')).toBe(22);
+  });
+
+  it('should return null before the first rate', () => {
+    expect(getRateOnDate(rates, '2025-12-31')).toBeNull();
+  });
+});
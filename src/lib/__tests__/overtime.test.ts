@@ -4,6 +4,8 @@ import {
   calculateDailyMinutes,
   calculateWeeklyMinutes,
   checkAlertStatus,
+  NO_JOB_CODE,
+  OvertimeRules,
   TimeclockEntryForCalculation,
 } from '../overtime';
 import { OvertimeConfig } from '@prisma/client';
@@ -39,6 +41,8 @@ function createConfig(
     alertBeforeWeekly: null,
     notifyEmployee: true,
     notifyManager: true,
+    overtimeMultiplier: 1.5,
+    doubleTimeMultiplier: 2,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
@@ -280,6 +284,187 @@ describe('calculateOvertime', () => {
       expect(Object.keys(result.employees)).toHaveLength(0);
     });
   });
+
+  describe('job code breakdown', () => {
+    it('charges daily OT to the job worked after the threshold', () => {
+      const config = createConfig(480, null);
+      const entries = [
+        { ...createEntry('user1', '2024-01-15T07:00:00', 360), jobCodeId: 'grant' }, // 6 hours
+        { ...createEntry('user1', '2024-01-15T13:00:00', 240), jobCodeId: 'project' }, // 4 hours
+      ];
+
+      const result = calculateOvertime(entries, config);
+      const jobCodes = result.employees['user1'].jobCodes;
+
+      expect(jobCodes['grant'].regularMinutes).toBe(360);
+      expect(jobCodes['grant'].dailyOvertimeMinutes).toBe(0);
+      expect(jobCodes['project'].regularMinutes).toBe(120);
+      expect(jobCodes['project'].dailyOvertimeMinutes).toBe(120);
+    });
+
+    it('charges weekly OT to the job worked after the threshold', () => {
+      const config = createConfig(null, 2400);
+      const entries = [
+        createEntry('user1', '2024-01-15T08:00:00', 1200), // 20 hours, no job code
+        { ...createEntry('user1', '2024-01-17T08:00:00', 1500), jobCodeId: 'grant' }, // 25 hours
+      ];
+
+      const result = calculateOvertime(entries, config);
+      const jobCodes = result.employees['user1'].jobCodes;
+
+      expect(jobCodes[NO_JOB_CODE].regularMinutes).toBe(1200);
+      expect(jobCodes['grant'].regularMinutes).toBe(1200);
+      expect(jobCodes['grant'].weeklyOvertimeMinutes).toBe(300);
+    });
+
+    it('adds up to the employee totals', () => {
+      const config = createConfig(480, 2400);
+      const entries = [
+        { ...createEntry('user1', '2024-01-15T08:00:00', 600), jobCodeId: 'grant' },
+        { ...createEntry('user1', '2024-01-16T08:00:00', 300), jobCodeId: 'project' },
+        { ...createEntry('user1', '2024-01-16T14:00:00', 300), jobCodeId: 'grant' },
+        { ...createEntry('user1', '2024-01-17T08:00:00', 600), jobCodeId: 'project' },
+        { ...createEntry('user1', '2024-01-18T08:00:00', 600), jobCodeId: 'grant' },
+        { ...createEntry('user1', '2024-01-19T08:00:00', 600), jobCodeId: 'project' },
+      ];
+
+      const result = calculateOvertime(entries, config);
+      const employee = result.employees['user1'];
+      const jobTotals = Object.values(employee.jobCodes);
+
+      expect(jobTotals.reduce((sum, j) => sum + j.regularMinutes, 0)).toBe(employee.regularMinutes);
+      expect(jobTotals.reduce((sum, j) => sum + j.dailyOvertimeMinutes, 0)).toBe(employee.dailyOvertimeMinutes);
+      expect(jobTotals.reduce((sum, j) => sum + j.weeklyOvertimeMinutes, 0)).toBe(employee.weeklyOvertimeMinutes);
+    });
+
+    it('breaks the minutes out per entry', () => {
+      const config = createConfig(480, null);
+      const first = createEntry('user1', '2024-01-15T07:00:00', 360); // 6 hours
+      const second = createEntry('user1', '2024-01-15T13:00:00', 240); // 4 hours
+
+      const result = calculateOvertime([first, second], config);
+      const entryMinutes = result.employees['user1'].entries;
+
+      expect(entryMinutes[first.id].regularMinutes).toBe(360);
+      expect(entryMinutes[second.id].regularMinutes).toBe(120);
+      expect(entryMinutes[second.id].dailyOvertimeMinutes).toBe(120);
+    });
+  });
+
+  describe('rule sets', () => {
+    // California: 1.5x over 8h/day, 2x over 12h/day, 1.5x over 40h/week, 7th day rule
+    const california: OvertimeRules = {
+      dailyThreshold: 480,
+      dailyDoubleTimeThreshold: 720,
+      weeklyThreshold: 2400,
+      seventhDayRule: true,
+    };
+
+    // Eight hours on each day of the week starting Sunday 2024-01-14
+    function fullWeek(userId: string, saturdayMinutes = 480): TimeclockEntryForCalculation[] {
+      return ['14', '15', '16', '17', '18', '19', '20'].map((day) =>
+        createEntry(userId, `2024-01-${day}T08:00:00`, day === '20' ? saturdayMinutes : 480)
+      );
+    }
+
+    it('splits a long day into regular, overtime and double time', () => {
+      const entries = [createEntry('user1', '2024-01-15T06:00:00', 840)]; // 14 hours
+
+      const result = calculateOvertime(entries, california);
+
+      expect(result.employees['user1'].regularMinutes).toBe(480);
+      expect(result.employees['user1'].dailyOvertimeMinutes).toBe(240);
+      expect(result.employees['user1'].doubleTimeMinutes).toBe(120);
+      expect(result.employees['user1'].totalMinutes).toBe(840);
+      expect(result.totalDoubleTimeMinutes).toBe(120);
+    });
+
+    it('charges double time to the job worked after the threshold', () => {
+      const entries = [
+        { ...createEntry('user1', '2024-01-15T06:00:00', 600), jobCodeId: 'grant' }, // 10 hours
+        { ...createEntry('user1', '2024-01-15T16:00:00', 180), jobCodeId: 'project' }, // 3 hours
+      ];
+
+      const result = calculateOvertime(entries, california);
+      const jobCodes = result.employees['user1'].jobCodes;
+
+      expect(jobCodes['grant'].dailyOvertimeMinutes).toBe(120);
+      expect(jobCodes['grant'].doubleTimeMinutes).toBe(0);
+      expect(jobCodes['project'].dailyOvertimeMinutes).toBe(120);
+      expect(jobCodes['project'].doubleTimeMinutes).toBe(60);
+    });
+
+    it('makes the first 8 hours of a 7th consecutive day overtime', () => {
+      const result = calculateOvertime(fullWeek('user1'), california);
+      const employee = result.employees['user1'];
+
+      // Sunday to Friday: 48 regular hours, 8 of them past the weekly threshold
+      expect(employee.regularMinutes).toBe(2400);
+      expect(employee.weeklyOvertimeMinutes).toBe(480);
+      // Saturday is all overtime
+      expect(employee.dailyOvertimeMinutes).toBe(480);
+      expect(employee.doubleTimeMinutes).toBe(0);
+    });
+
+    it('makes 7th consecutive day hours past 8 double time', () => {
+      const result = calculateOvertime(fullWeek('user1', 600), california);
+
+      expect(result.employees['user1'].dailyOvertimeMinutes).toBe(480);
+      expect(result.employees['user1'].doubleTimeMinutes).toBe(120);
+    });
+
+    it('does not apply the 7th day rule when a day was skipped', () => {
+      const entries = fullWeek('user1').filter((e) => e.clockIn.getDate() !== 17);
+
+      const result = calculateOvertime(entries, california);
+
+      expect(result.employees['user1'].dailyOvertimeMinutes).toBe(0);
+      expect(result.employees['user1'].regularMinutes).toBe(2400);
+      expect(result.employees['user1'].weeklyOvertimeMinutes).toBe(480);
+    });
+
+    it('ignores the 7th day when the rule is off', () => {
+      const result = calculateOvertime(fullWeek('user1'), { ...california, seventhDayRule: false });
+
+      expect(result.employees['user1'].dailyOvertimeMinutes).toBe(0);
+      expect(result.employees['user1'].weeklyOvertimeMinutes).toBe(960);
+    });
+
+    it('uses double time without a daily overtime threshold', () => {
+      const entries = [createEntry('user1', '2024-01-15T06:00:00', 840)];
+
+      const result = calculateOvertime(entries, { dailyThreshold: null, weeklyThreshold: null, dailyDoubleTimeThreshold: 720 });
+
+      expect(result.employees['user1'].regularMinutes).toBe(720);
+      expect(result.employees['user1'].dailyOvertimeMinutes).toBe(0);
+      expect(result.employees['user1'].doubleTimeMinutes).toBe(120);
+    });
+
+    it('applies per-user rule sets in place of the config', () => {
+      const config = createConfig(null, 2400);
+      const entries = [
+        createEntry('ca-user', '2024-01-15T06:00:00', 840),
+        createEntry('other-user', '2024-01-15T06:00:00', 840),
+      ];
+
+      const result = calculateOvertime(entries, config, 'UTC', { 'ca-user': california });
+
+      expect(result.employees['ca-user'].doubleTimeMinutes).toBe(120);
+      expect(result.employees['other-user'].regularMinutes).toBe(840);
+      expect(result.employees['other-user'].doubleTimeMinutes).toBe(0);
+    });
+
+    it('adds up to the employee totals', () => {
+      const entries = fullWeek('user1', 720).map((entry, i) => ({ ...entry, jobCodeId: i % 2 ? 'grant' : 'project' }));
+
+      const employee = calculateOvertime(entries, california).employees['user1'];
+      const jobTotals = Object.values(employee.jobCodes);
+
+      expect(jobTotals.reduce((sum, j) => sum + j.doubleTimeMinutes, 0)).toBe(employee.doubleTimeMinutes);
+      expect(employee.regularMinutes + employee.dailyOvertimeMinutes + employee.doubleTimeMinutes + employee.weeklyOvertimeMinutes)
+        .toBe(employee.totalMinutes);
+    });
+  });
 });
 
 describe('calculateDailyMinutes', () => {
@@ -346,6 +531,8 @@ function createConfigWithAlerts(
     alertBeforeWeekly,
     notifyEmployee: true,
     notifyManager: true,
+    overtimeMultiplier: 1.5,
+    doubleTimeMultiplier: 2,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
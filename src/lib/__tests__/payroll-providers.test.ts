@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import {
+  PAYROLL_PROVIDERS,
+  renderPayrollFile,
+  validatePayrollExport,
+  type PayrollEmployeeHours,
+  type PayrollProviderId,
+  type PayrollProviderSettings,
+} from '../payroll-providers';
+
+const period = { start: '2026-03-01', end: '2026-03-15' };
+
+function employee(
+  employeeName: string,
+  payrollEmployeeId: string | null,
+  hours: Partial<PayrollEmployeeHours['hours']> = {}
+): PayrollEmployeeHours {
+  return {
+    employeeName,
+    payrollEmployeeId,
+    hours: { regular: 0, overtime: 0, doubleTime: 0, leave: 0, ...hours },
+  };
+}
+
+function settings(providerId: PayrollProviderId, overrides: Partial<PayrollProviderSettings> = {}) {
+  return {
+    companyCode: null,
+    batchId: null,
+    earningCodes: { ...PAYROLL_PROVIDERS[providerId].defaultEarningCodes },
+    ...overrides,
+  };
+}
+
+const rows = [
+  employee('Ana Maria Lopez', '42', { regular: 72, overtime: 3.5, leave: 8 }),
+  employee('Sam Lee', '7', { regular: 40, doubleTime: 1.25 }),
+];
+
+describe('renderPayrollFile', () => {
+  it('should build an ADP paydata file with coded hours in the Hours 3 and 4 columns', () => {
+    const file = renderPayrollFile('adp', settings('adp', { companyCode: 'XYZ' }), rows, period);
+
+    expect(file.filename).toBe('PRXYZEPI.csv');
+    expect(file.content.split('\r\n')).toEqual([
+      'Co Code,Batch ID,File #,Reg Hours,O/T Hours,Hours 3 Code,Hours 3 Amount,Hours 4 Code,Hours 4 Amount',
+      'XYZ,031526,000042,72.00,3.50,,,V,8.00',
+      'XYZ,031526,000007,40.00,0.00,D,1.25,,',
+      '',
+    ]);
+  });
+
+  it('should use a saved ADP batch ID over the period end', () => {
+    const file = renderPayrollFile('adp', settings('adp', { companyCode: 'XYZ', batchId: 'B7' }), rows, period);
+    expect(file.content.split('\r\n')[1]).toMatch(/^XYZ,B7,/);
+  });
+
+  it('should build 34-character Paychex lines, one per earning with hours', () => {
+    const file = renderPayrollFile('paychex', settings('paychex', { companyCode: 'ACME' }), rows, period);
+    const lines = file.content.split('\r\n').filter(Boolean);
+
+    expect(lines).toEqual([
+      'ACME    000042REG  000720003152026',
+      'ACME    000042OT   000035003152026',
+      'ACME    000042PTO  000080003152026',
+      'ACME    000007REG  000400003152026',
+      'ACME    000007DT   000012503152026',
+    ]);
+    expect(lines.every((line) => line.length === 34)).toBe(true);
+  });
+
+  it('should quote every Gusto field and split names on the last space', () => {
+    const file = renderPayrollFile('gusto', settings('gusto'), [rows[0], employee('=Cher', 'g-1')], period);
+
+    expect(file.filename).toBe('gusto-hours-2026-03-01-to-2026-03-15.csv');
+    expect(file.content.split('\n')).toEqual([
+      '"last_name","first_name","employee_id","regular_hours","overtime_hours","double_overtime_hours","pto_hours"',
+      '"Lopez","Ana Maria","42","72.00","3.50","0.00","8.00"',
+      '"","\'=Cher","g-1","0.00","0.00","0.00","0.00"',
+      '',
+    ]);
+  });
+
+  it('should date QuickBooks Time rows on the period end with the payroll item names', () => {
+    const file = renderPayrollFile('qbtime', settings('qbtime'), [rows[1]], period);
+
+    expect(file.content.split('\n')).toEqual([
+      'Employee ID,Date,Payroll Item,Hours',
+      '7,03/15/2026,Hourly,40.00',
+      '7,03/15/2026,Double Time (2x),1.25',
+      '',
+    ]);
+  });
+});
+
+describe('validatePayrollExport', () => {
+  it('should pass a complete export', () => {
+    expect(validatePayrollExport('adp', settings('adp', { companyCode: 'XYZ' }), rows)).toEqual([]);
+    expect(validatePayrollExport('gusto', settings('gusto'), rows)).toEqual([]);
+  });
+
+  it('should require a well-formed company code where the provider uses one', () => {
+    expect(validatePayrollExport('adp', settings('adp'), rows)).toEqual(['ADP Workforce Now company code is not set']);
+    expect(validatePayrollExport('adp', settings('adp', { companyCode: 'TOOLONG' }), rows)).toEqual([
+      'Company code must be 3 letters or digits',
+    ]);
+  });
+
+  it('should only require earning codes for hours being sent', () => {
+    const noLeaveCode = settings('adp', {
+      companyCode: 'XYZ',
+      earningCodes: { regular: '', overtime: '', doubleTime: 'D', leave: '' },
+    });
+    expect(validatePayrollExport('adp', noLeaveCode, [rows[1]])).toEqual([]);
+    expect(validatePayrollExport('adp', noLeaveCode, rows)).toEqual([
+      'No ADP Workforce Now earning code is set for paid leave hours',
+    ]);
+  });
+
+  it('should reject earning codes longer than the file allows', () => {
+    const longCode = settings('paychex', {
+      companyCode: 'ACME',
+      earningCodes: { regular: 'REGULAR', overtime: 'OT', doubleTime: 'DT', leave: 'PTO' },
+    });
+    expect(validatePayrollExport('paychex', longCode, rows)).toEqual([
+      'Earning code "REGULAR" is longer than 5 characters',
+    ]);
+  });
+
+  it('should list employees with missing or malformed payroll IDs', () => {
+    const problems = validatePayrollExport('paychex', settings('paychex', { companyCode: 'ACME' }), [
+      employee('Ana Maria Lopez', null, { regular: 8 }),
+      employee('Sam Lee', 'W-7', { regular: 8 }),
+    ]);
+    expect(problems).toEqual([
+      'No payroll ID for: Ana Maria Lopez',
+      'Payroll ID for Sam Lee must be a worker ID of up to 6 digits',
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prisma = vi.hoisted(() => ({
+  purchaseOrder: { findUnique: vi.fn() },
+  approvalChain: { findMany: vi.fn() },
+  managerAssignment: { findUnique: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma }));
+
+import { getRequiredApprovalSteps, getCurrentStep, canUserApproveStep } from '../po-approval';
+import type { UserPermissions } from '../check-permissions';
+
+function chain(id: string, departmentId: string | null, budgetCategoryId: string | null, minAmounts: number[]) {
+  return {
+    id,
+    departmentId,
+    budgetCategoryId,
+    steps: minAmounts.map((minAmount, index) => ({ id: `${id}-${index + 1}`, stepOrder: index + 1, minAmount })),
+  };
+}
+
+function purchaseOrder(totalAmount: number, departmentId = 'ops', categoryIds = ['it']) {
+  return {
+    id: 'po-1',
+    departmentId,
+    totalAmount,
+    lineItems: categoryIds.map((categoryId) => ({ budgetItem: { categoryId } })),
+  };
+}
+
+beforeEach(() => {
+  prisma.purchaseOrder.findUnique.mockResolvedValue(purchaseOrder(5000));
+});
+
+describe('getRequiredApprovalSteps', () => {
+  it('should use the most specific chain for the department and categories', async () => {
+    prisma.approvalChain.findMany.mockResolvedValue([
+      chain('catch-all', null, null, [0]),
+      chain('category', null, 'it', [0]),
+      chain('department', 'ops', null, [0]),
+      chain('both', 'ops', 'it', [0]),
+      chain('other-department', 'sales', 'it', [0]),
+    ]);
+
+    const steps = await getRequiredApprovalSteps('po-1');
+    expect(steps.map((step) => step.id)).toEqual(['both-1']);
+  });
+
+  it('should prefer a department chain over a category chain', async () => {
+    prisma.approvalChain.findMany.mockResolvedValue([
+      chain('category', null, 'it', [0]),
+      chain('department', 'ops', null, [0]),
+    ]);
+
+    const steps = await getRequiredApprovalSteps('po-1');
+    expect(steps.map((step) => step.id)).toEqual(['department-1']);
+  });
+
+  it('should fall back to the catch-all chain and return nothing without one', async () => {
+    prisma.approvalChain.findMany.mockResolvedValue([chain('catch-all', null, null, [0]), chain('sales', 'sales', null, [0])]);
+    expect((await getRequiredApprovalSteps('po-1')).map((step) => step.id)).toEqual(['catch-all-1']);
+
+    prisma.approvalChain.findMany.mockResolvedValue([chain('sales', 'sales', null, [0])]);
+    expect(await getRequiredApprovalSteps('po-1')).toEqual([]);
+  });
+
+  it('should only add steps whose minimum the PO total exceeds', async () => {
+    prisma.approvalChain.findMany.mockResolvedValue([chain('tiers', null, null, [0, 1000, 5000, 25000])]);
+
+    const steps = await getRequiredApprovalSteps('po-1');
+    // $5,000 exactly does not exceed the $5,000 tier
+    expect(steps.map((step) => step.minAmount)).toEqual([0, 1000]);
+  });
+
+  it('should throw for a missing purchase order', async () => {
+    prisma.purchaseOrder.findUnique.mockResolvedValue(null);
+    await expect(getRequiredApprovalSteps('missing')).rejects.toThrow('Purchase order not found');
+  });
+});
+
+describe('getCurrentStep', () => {
+  it('should return the lowest pending step regardless of order', () => {
+    const steps = [
+      { stepOrder: 3, status: 'PENDING' },
+      { stepOrder: 1, status: 'APPROVED' },
+      { stepOrder: 2, status: 'PENDING' },
+    ];
+    expect(getCurrentStep(steps)?.stepOrder).toBe(2);
+  });
+
+  it('should return null once every step is approved', () => {
+    expect(getCurrentStep([{ stepOrder: 1, status: 'APPROVED' }])).toBeNull();
+  });
+});
+
+describe('canUserApproveStep', () => {
+  const approver: UserPermissions = { purchaseOrders: { canApprove: true } };
+  const user = { id: 'user-1', roleId: 'finance' };
+
+  it('should match named users and roles', async () => {
+    const userStep = { approverType: 'USER', approverRoleId: null, approverUserId: 'user-1' };
+    const roleStep = { approverType: 'ROLE', approverRoleId: 'controller', approverUserId: null };
+
+    expect(await canUserApproveStep(userStep, user, approver, 'ops')).toBe(true);
+    expect(await canUserApproveStep(roleStep, user, approver, 'ops')).toBe(false);
+  });
+
+  it("should require a manager assignment for the PO's department", async () => {
+    const step = { approverType: 'DEPARTMENT_MANAGER', approverRoleId: null, approverUserId: null };
+
+    prisma.managerAssignment.findUnique.mockResolvedValue({ id: 'assignment-1' });
+    expect(await canUserApproveStep(step, user, approver, 'ops')).toBe(true);
+    expect(await canUserApproveStep(step, user, approver, null)).toBe(false);
+
+    prisma.managerAssignment.findUnique.mockResolvedValue(null);
+    expect(await canUserApproveStep(step, user, approver, 'ops')).toBe(false);
+  });
+
+  it('should require canApprove unless the user is an admin', async () => {
+    const step = { approverType: 'USER', approverRoleId: null, approverUserId: 'user-1' };
+
+    expect(await canUserApproveStep(step, user, {}, 'ops')).toBe(false);
+    expect(await canUserApproveStep({ ...step, approverUserId: 'someone-else' }, user, { _isAdmin: true }, 'ops')).toBe(
+      true
+    );
+  });
+});
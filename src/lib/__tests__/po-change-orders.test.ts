@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import {
+  formatPONumber,
+  diffLineItems,
+  changesBudgetAllocation,
+  validateProposedLineItems,
+} from '../po-change-orders';
+
+function line(id: string, amount: number, consumed: { receivedAmount?: number; releasedAmount?: number } = {}) {
+  return {
+    id,
+    description: `Line ${id}`,
+    amount,
+    budgetItemId: 'ops',
+    receivedAmount: consumed.receivedAmount ?? 0,
+    releasedAmount: consumed.releasedAmount ?? 0,
+  };
+}
+
+describe('formatPONumber', () => {
+  it('should only show the revision after the original', () => {
+    expect(formatPONumber('PO-2026-0042', 1)).toBe('PO-2026-0042');
+    expect(formatPONumber('PO-2026-0042', 2)).toBe('PO-2026-0042 rev 2');
+  });
+});
+
+describe('diffLineItems', () => {
+  const current = [line('a', 100), line('b', 200), line('c', 300)];
+
+  it('should sort proposed lines into added, changed and removed', () => {
+    const diff = diffLineItems(current, [
+      { id: 'a', description: 'Line a', amount: 100, budgetItemId: 'ops' },
+      { id: 'b', description: 'Line b', amount: 250, budgetItemId: 'ops' },
+      { description: 'Freight', amount: 40, budgetItemId: 'ops' },
+    ]);
+
+    expect(diff.added).toEqual([{ description: 'Freight', amount: 40, budgetItemId: 'ops' }]);
+    expect(diff.changed).toEqual([
+      {
+        id: 'b',
+        before: { description: 'Line b', amount: 200, budgetItemId: 'ops' },
+        after: { description: 'Line b', amount: 250, budgetItemId: 'ops' },
+      },
+    ]);
+    expect(diff.removed.map((item) => item.id)).toEqual(['c']);
+  });
+
+  it('should ignore floating point noise in amounts', () => {
+    const diff = diffLineItems([line('a', 0.3)], [{ id: 'a', description: 'Line a', amount: 0.1 + 0.2, budgetItemId: 'ops' }]);
+    expect(diff.changed).toEqual([]);
+  });
+
+  it('should treat an id from another PO as a new line', () => {
+    const diff = diffLineItems(current, [{ id: 'elsewhere', description: 'Other', amount: 10, budgetItemId: 'ops' }]);
+    expect(diff.added).toHaveLength(1);
+    expect(diff.removed).toHaveLength(3);
+  });
+});
+
+describe('changesBudgetAllocation', () => {
+  const before = { description: 'Line a', amount: 100, budgetItemId: 'ops' };
+
+  it('should flag new lines, raised amounts and moved lines', () => {
+    expect(changesBudgetAllocation({ added: [before], removed: [], changed: [] })).toBe(true);
+    expect(
+      changesBudgetAllocation({ added: [], removed: [], changed: [{ id: 'a', before, after: { ...before, amount: 150 } }] })
+    ).toBe(true);
+    expect(
+      changesBudgetAllocation({
+        added: [],
+        removed: [],
+        changed: [{ id: 'a', before, after: { ...before, budgetItemId: 'it' } }],
+      })
+    ).toBe(true);
+  });
+
+  it('should not flag removals, lower amounts or new descriptions', () => {
+    expect(
+      changesBudgetAllocation({
+        added: [],
+        removed: [{ id: 'b', ...before }],
+        changed: [{ id: 'a', before, after: { ...before, description: 'Renamed', amount: 60 } }],
+      })
+    ).toBe(false);
+  });
+});
+
+describe('validateProposedLineItems', () => {
+  const current = [line('a', 500, { receivedAmount: 200 }), line('b', 300, { releasedAmount: 100 }), line('c', 100)];
+
+  it('should accept changes that keep what was received or released', () => {
+    expect(
+      validateProposedLineItems(current, [
+        { id: 'a', description: 'Line a', amount: 200, budgetItemId: 'ops' },
+        { id: 'b', description: 'Line b', amount: 400, budgetItemId: 'ops' },
+        { description: 'New', amount: 50, budgetItemId: 'it' },
+      ])
+    ).toBeNull();
+  });
+
+  it('should refuse to reduce a line below what was received or released', () => {
+    const error = validateProposedLineItems(current, [
+      { id: 'a', description: 'Line a', amount: 150, budgetItemId: 'ops' },
+      { id: 'b', description: 'Line b', amount: 300, budgetItemId: 'ops' },
+    ]);
+    expect(error).toContain('cannot be reduced below');
+    expect(error).toContain('$200.00');
+  });
+
+  it('should refuse to move or remove a line with consumed amounts', () => {
+    expect(
+      validateProposedLineItems(current, [
+        { id: 'a', description: 'Line a', amount: 500, budgetItemId: 'it' },
+        { id: 'b', description: 'Line b', amount: 300, budgetItemId: 'ops' },
+      ])
+    ).toContain('cannot be moved to another budget line');
+    expect(
+      validateProposedLineItems(current, [{ id: 'a', description: 'Line a', amount: 500, budgetItemId: 'ops' }])
+    ).toBe('"Line b" has received or released amounts and cannot be removed');
+  });
+
+  it('should reject a line item that belongs to another PO', () => {
+    expect(
+      validateProposedLineItems(current, [{ id: 'elsewhere', description: 'Other', amount: 10, budgetItemId: 'ops' }])
+    ).toBe('Line item elsewhere does not belong to this purchase order');
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+const prisma = vi.hoisted(() => {
+  const client = {
+    $transaction: vi.fn(),
+    user: { findUnique: vi.fn() },
+    ptoTransaction: { findMany: vi.fn(), create: vi.fn(), aggregate: vi.fn() },
+    ptoRequest: { aggregate: vi.fn() },
+    timeclockEntry: { findMany: vi.fn() },
+    payPeriodConfig: { findFirst: vi.fn() },
+  };
+  client.$transaction.mockImplementation((fn: (tx: typeof client) => unknown) => fn(client));
+  return client;
+});
+
+vi.mock('@/lib/prisma', () => ({ prisma }));
+
+import { capAccrual, carryoverForfeit, leaveHoursInRange, syncPtoAccruals, getPtoBalance } from '../pto';
+
+function policy(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'policy-1',
+    name: 'Hourly PTO',
+    isActive: true,
+    accrualMethod: 'PER_HOUR_WORKED',
+    accrualRate: 0.05,
+    maxBalance: null,
+    carryoverMax: null,
+    ...overrides,
+  };
+}
+
+function createdRows() {
+  return prisma.ptoTransaction.create.mock.calls.map(([args]) => args.data);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date(2026, 2, 1));
+  prisma.ptoTransaction.create.mockReset();
+  prisma.ptoTransaction.findMany.mockResolvedValue([]);
+  prisma.timeclockEntry.findMany.mockReset().mockResolvedValue([]);
+  prisma.ptoTransaction.aggregate.mockResolvedValue({ _sum: { hours: null } });
+  prisma.ptoRequest.aggregate.mockResolvedValue({ _sum: { hours: null } });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('capAccrual', () => {
+  it('should only accrue up to the balance cap', () => {
+    expect(capAccrual(4, 38, 40)).toBe(2);
+    expect(capAccrual(4, 41, 40)).toBe(0);
+    expect(capAccrual(4, 100, null)).toBe(4);
+  });
+
+  it('should round to hundredths', () => {
+    expect(capAccrual(1 / 3, 0, null)).toBe(0.33);
+  });
+});
+
+describe('carryoverForfeit', () => {
+  it('should forfeit the balance above the carryover limit', () => {
+    expect(carryoverForfeit(52.5, 40)).toBe(12.5);
+    expect(carryoverForfeit(30, 40)).toBe(0);
+    expect(carryoverForfeit(500, null)).toBe(0);
+  });
+});
+
+describe('leaveHoursInRange', () => {
+  const request = { startDate: new Date(2026, 2, 2), endDate: new Date(2026, 2, 6), hours: 40 };
+
+  it('should split hours evenly across the days in the range', () => {
+    expect(leaveHoursInRange(request, new Date(2026, 2, 1), new Date(2026, 2, 31))).toBe(40);
+    expect(leaveHoursInRange(request, new Date(2026, 2, 5), new Date(2026, 2, 31))).toBe(16);
+    expect(leaveHoursInRange(request, new Date(2026, 2, 9), new Date(2026, 2, 13))).toBe(0);
+  });
+});
+
+describe('syncPtoAccruals', () => {
+  it('should accrue on approved hours worked since the policy was assigned', async () => {
+    prisma.user.findUnique.mockResolvedValue({ ptoPolicyAssignedAt: new Date(2026, 0, 1), ptoPolicy: policy() });
+    prisma.timeclockEntry.findMany.mockResolvedValue([
+      { id: 'entry-1', duration: 8 * 3600, approvedAt: new Date(2026, 0, 10) },
+    ]);
+
+    await syncPtoAccruals('user-1');
+
+    expect(createdRows()).toEqual([
+      {
+        userId: 'user-1',
+        type: 'ACCRUAL',
+        hours: 0.4,
+        effectiveDate: new Date(2026, 0, 10),
+        periodStart: null,
+        entryId: 'entry-1',
+        note: '8 hours worked',
+      },
+    ]);
+  });
+
+  it('should forfeit above the carryover limit and cap later accruals against the new balance', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      ptoPolicyAssignedAt: new Date(2025, 5, 1),
+      ptoPolicy: policy({ carryoverMax: 40, maxBalance: 40.25 }),
+    });
+    prisma.ptoTransaction.findMany.mockResolvedValue([
+      { type: 'ACCRUAL', hours: 50, effectiveDate: new Date(2025, 9, 1), periodStart: null },
+    ]);
+    prisma.timeclockEntry.findMany.mockResolvedValue([
+      { id: 'entry-1', duration: 10 * 3600, approvedAt: new Date(2026, 1, 1) },
+    ]);
+
+    await syncPtoAccruals('user-1');
+
+    expect(createdRows().map((row) => [row.type, row.hours])).toEqual([
+      ['FORFEIT', -10],
+      ['ACCRUAL', 0.25],
+    ]);
+  });
+
+  it('should not forfeit a year that was already processed', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      ptoPolicyAssignedAt: new Date(2025, 5, 1),
+      ptoPolicy: policy({ carryoverMax: 40 }),
+    });
+    prisma.ptoTransaction.findMany.mockResolvedValue([
+      { type: 'ACCRUAL', hours: 50, effectiveDate: new Date(2025, 9, 1), periodStart: null },
+      { type: 'FORFEIT', hours: -10, effectiveDate: new Date(2026, 0, 1), periodStart: new Date(2026, 0, 1) },
+    ]);
+
+    await syncPtoAccruals('user-1');
+
+    expect(prisma.ptoTransaction.create).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing without an active policy', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      ptoPolicyAssignedAt: new Date(2026, 0, 1),
+      ptoPolicy: policy({ isActive: false }),
+    });
+
+    await syncPtoAccruals('user-1');
+
+    expect(prisma.timeclockEntry.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should treat a duplicate row from a concurrent sync as already accrued', async () => {
+    prisma.$transaction.mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+    );
+    await expect(syncPtoAccruals('user-1')).resolves.toBeUndefined();
+
+    prisma.$transaction.mockRejectedValueOnce(new Error('database is locked'));
+    await expect(syncPtoAccruals('user-1')).rejects.toThrow('database is locked');
+  });
+});
+
+describe('getPtoBalance', () => {
+  it('should count accruals that are due but not yet written, without writing them', async () => {
+    prisma.user.findUnique.mockResolvedValue({ ptoPolicyAssignedAt: new Date(2026, 0, 1), ptoPolicy: policy() });
+    prisma.ptoTransaction.aggregate.mockResolvedValue({ _sum: { hours: 10 } });
+    prisma.ptoRequest.aggregate.mockResolvedValue({ _sum: { hours: 8 } });
+    prisma.timeclockEntry.findMany.mockResolvedValue([
+      { id: 'entry-1', duration: 8 * 3600, approvedAt: new Date(2026, 0, 10) },
+    ]);
+
+    const balance = await getPtoBalance('user-1');
+
+    expect(balance.balance).toBe(10.4);
+    expect(balance.pendingHours).toBe(8);
+    expect(balance.available).toBe(2.4);
+    expect(prisma.ptoTransaction.create).not.toHaveBeenCalled();
+  });
+});
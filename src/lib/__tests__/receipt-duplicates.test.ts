@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from 'vitest';
+import sharp from 'sharp';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import {
+  imageHashDistance,
+  merchantNamesMatch,
+  describeDuplicateMatch,
+  type DuplicateCandidate,
+} from '../receipt-duplicates';
+import { computeImageHash } from '../image-processing';
+
+function createReceipt(overrides: Partial<DuplicateCandidate> = {}): DuplicateCandidate {
+  return {
+    id: `receipt-${Math.random().toString(36).substr(2, 9)}`,
+    createdAt: new Date('2026-05-04T12:00:00Z'),
+    imageHash: null,
+    merchantName: 'Blue Bottle Coffee',
+    receiptDate: new Date('2026-05-03T00:00:00Z'),
+    totalAmount: 18.5,
+    currency: 'USD',
+    ...overrides,
+  };
+}
+
+// A horizontal brightness gradient, optionally running right to left
+async function createGradient(width: number, height: number, reversed = false): Promise<Buffer> {
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = Math.round(((reversed ? width - 1 - x : x) / (width - 1)) * 255);
+      const noise = (x * 7 + y * 13) % 5;
+      pixels.fill(Math.min(255, value + noise), (y * width + x) * 3, (y * width + x) * 3 + 3);
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).png().toBuffer();
+}
+
+describe('imageHashDistance', () => {
+  it('should count differing bits', () => {
+    expect(imageHashDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(imageHashDistance('0000000000000000', '0000000000000001')).toBe(1);
+    expect(imageHashDistance('00000000000000ff', '0000000000000000')).toBe(8);
+    expect(imageHashDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+  });
+
+  it('should treat hashes of different lengths as unrelated', () => {
+    expect(imageHashDistance('00', '0000')).toBe(Infinity);
+  });
+});
+
+describe('merchantNamesMatch', () => {
+  it('should ignore case, punctuation and store numbers appended to a name', () => {
+    expect(merchantNamesMatch('STARBUCKS #1234', 'Starbucks')).toBe(true);
+    expect(merchantNamesMatch("Joe's Diner", 'JOES DINER')).toBe(true);
+  });
+
+  it('should not match different or too-short names', () => {
+    expect(merchantNamesMatch('Starbucks', 'Peets Coffee')).toBe(false);
+    expect(merchantNamesMatch('AB', 'AB')).toBe(false);
+    expect(merchantNamesMatch(null, 'Starbucks')).toBe(false);
+  });
+});
+
+describe('describeDuplicateMatch', () => {
+  it('should match the same merchant, day and amount', () => {
+    const original = createReceipt();
+    const copy = createReceipt({ merchantName: 'BLUE BOTTLE COFFEE #12', receiptDate: new Date('2026-05-03T18:30:00Z') });
+    expect(describeDuplicateMatch(copy, original)).toBe('Same merchant, date and amount');
+  });
+
+  it('should not match a different amount', () => {
+    expect(describeDuplicateMatch(createReceipt({ totalAmount: 18.51 }), createReceipt())).toBeNull();
+  });
+
+  it('should not match the same amount in another currency', () => {
+    expect(describeDuplicateMatch(createReceipt({ currency: 'CAD' }), createReceipt())).toBeNull();
+  });
+
+  it('should not match a different day', () => {
+    expect(
+      describeDuplicateMatch(createReceipt({ receiptDate: new Date('2026-05-04T00:00:00Z') }), createReceipt())
+    ).toBeNull();
+  });
+
+  it('should not match a different merchant', () => {
+    expect(describeDuplicateMatch(createReceipt({ merchantName: 'Shell' }), createReceipt())).toBeNull();
+  });
+
+  it('should not match on details that are missing', () => {
+    expect(describeDuplicateMatch(createReceipt({ totalAmount: null }), createReceipt({ totalAmount: null }))).toBeNull();
+    expect(describeDuplicateMatch(createReceipt({ receiptDate: null }), createReceipt({ receiptDate: null }))).toBeNull();
+  });
+
+  it('should match a near-identical image whatever the details say', () => {
+    const original = createReceipt({ imageHash: 'f0f0f0f0f0f0f0f0', totalAmount: null });
+    const copy = createReceipt({ imageHash: 'f0f0f0f0f0f0f0f3', merchantName: 'Shell' });
+    expect(describeDuplicateMatch(copy, original)).toBe('Same image');
+  });
+
+  it('should not match images more than a few bits apart', () => {
+    const original = createReceipt({ imageHash: '0000000000000000', totalAmount: null });
+    const other = createReceipt({ imageHash: '000000000000007f', totalAmount: null });
+    expect(describeDuplicateMatch(other, original)).toBeNull();
+  });
+
+  it('should report both when image and details match', () => {
+    const original = createReceipt({ imageHash: 'f0f0f0f0f0f0f0f0' });
+    const copy = createReceipt({ imageHash: 'f0f0f0f0f0f0f0f0' });
+    expect(describeDuplicateMatch(copy, original)).toBe('Same image, merchant, date and amount');
+  });
+});
+
+describe('computeImageHash', () => {
+  it('should hash an image to 16 hex characters', async () => {
+    const hash = await computeImageHash(await createGradient(64, 48));
+    expect(hash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('should hash a resized, recompressed copy to within the match distance', async () => {
+    const original = await createGradient(120, 90);
+    const copy = await sharp(original).resize(60, 45).jpeg({ quality: 50 }).toBuffer();
+    const distance = imageHashDistance(await computeImageHash(original), await computeImageHash(copy));
+    expect(distance).toBeLessThanOrEqual(6);
+  });
+
+  it('should hash a different image far apart', async () => {
+    const left = await computeImageHash(await createGradient(120, 90));
+    const right = await computeImageHash(await createGradient(120, 90, true));
+    expect(imageHashDistance(left, right)).toBeGreaterThan(6);
+  });
+});
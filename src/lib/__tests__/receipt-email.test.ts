@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+const prisma = vi.hoisted(() => ({
+  inboundEmail: { create: vi.fn(), update: vi.fn(), delete: vi.fn(), findUnique: vi.fn() },
+  user: { findFirst: vi.fn() },
+  receipt: { create: vi.fn() },
+}));
+
+const { storeReceiptFile } = vi.hoisted(() => ({ storeReceiptFile: vi.fn() }));
+
+vi.mock('@/lib/prisma', () => ({ prisma }));
+vi.mock('../audit', () => ({ createAuditLog: vi.fn() }));
+vi.mock('../settings', () => ({
+  getSettings: () => ({ email: { receiptForwarding: { enabled: true, webhookSecret: 'forwarding-secret' } } }),
+}));
+vi.mock('../file-utils', () => ({ resolveUploadPath: (p: string) => `/tmp/receipt-email-test/${p}` }));
+vi.mock('../file-validation', () => ({
+  validateUploadedFile: async (_buffer: Buffer, filename: string) =>
+    filename.endsWith('.jpg') ? { valid: true, mimeType: 'image/jpeg' } : { valid: false },
+}));
+vi.mock('../ocr', () => ({ isOCRConfigured: () => false }));
+vi.mock('../receipt-processing', () => ({ storeReceiptFile, runReceiptOcr: vi.fn() }));
+vi.mock('../receipt-duplicates', () => ({ checkReceiptForDuplicates: vi.fn() }));
+vi.mock('fs/promises', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('fs/promises')>()),
+  mkdir: vi.fn(),
+  writeFile: vi.fn(),
+}));
+
+import { ingestReceiptEmail, isInboundEmailAuthorized } from '../receipt-email';
+
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0]).toString('base64');
+
+function rawEmail(options: { from?: string; messageId?: string; parts: string[] }) {
+  const boundary = 'receipt-boundary';
+  return Buffer.from(
+    [
+      `From: Sam Lee <${options.from ?? 'Sam.Lee@Example.com'}>`,
+      'To: receipts@example.com',
+      'Subject: Lunch receipt',
+      `Message-ID: <${options.messageId ?? 'abc123@example.com'}>`,
+      'MIME-Version: 1.0',
+      `Content-Type: multipart/mixed; boundary="${boundary}"`,
+      '',
+      ...options.parts.flatMap((part) => [`--${boundary}`, part]),
+      `--${boundary}--`,
+      '',
+    ].join('\r\n')
+  );
+}
+
+const textPart = ['Content-Type: text/plain; charset=utf-8', '', 'Total $42.50'].join('\r\n');
+const htmlPart = [
+  'Content-Type: multipart/alternative; boundary="body-boundary"',
+  '',
+  '--body-boundary',
+  textPart,
+  '--body-boundary',
+  'Content-Type: text/html; charset=utf-8',
+  '',
+  '<p>Total $42.50</p>',
+  '--body-boundary--',
+].join('\r\n');
+
+function attachmentPart(filename: string) {
+  return [
+    'Content-Type: image/jpeg',
+    `Content-Disposition: attachment; filename="${filename}"`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    JPEG,
+  ].join('\r\n');
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  prisma.inboundEmail.create.mockResolvedValue({ id: 'inbound-1', subject: 'Lunch receipt' });
+  prisma.inboundEmail.delete.mockResolvedValue({});
+  prisma.inboundEmail.update.mockResolvedValue({});
+  prisma.user.findFirst.mockResolvedValue({ id: 'user-1' });
+  let receiptCount = 0;
+  prisma.receipt.create.mockImplementation(async () => ({ id: `receipt-${++receiptCount}` }));
+  storeReceiptFile.mockResolvedValue({
+    imageUrl: '/uploads/receipt.jpg',
+    thumbnailUrl: null,
+    imageHash: 'hash',
+    filename: 'receipt.jpg',
+    size: 4,
+    optimizationMeta: {},
+  });
+});
+
+describe('ingestReceiptEmail', () => {
+  it('should claim the Message-ID and match the sender case-insensitively', async () => {
+    await ingestReceiptEmail(rawEmail({ parts: [textPart, attachmentPart('lunch.jpg')] }), 'webhook');
+
+    expect(prisma.inboundEmail.create).toHaveBeenCalledWith({
+      data: {
+        messageId: '<abc123@example.com>',
+        source: 'webhook',
+        fromAddress: 'sam.lee@example.com',
+        subject: 'Lunch receipt',
+        status: 'processing',
+      },
+    });
+    expect(prisma.user.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { email: 'sam.lee@example.com', isActive: true } })
+    );
+  });
+
+  it('should create a receipt for each usable attachment', async () => {
+    const result = await ingestReceiptEmail(
+      rawEmail({ parts: [textPart, attachmentPart('lunch.jpg'), attachmentPart('taxi.jpg'), attachmentPart('notes.txt')] }),
+      'imap'
+    );
+
+    expect(result).toEqual({ status: 'processed', inboundEmailId: 'inbound-1', receiptIds: ['receipt-1', 'receipt-2'] });
+    expect(prisma.receipt.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'user-1', source: 'EMAIL', senderEmail: 'sam.lee@example.com' }),
+    });
+  });
+
+  it('should turn an HTML receipt with no attachment into a PDF of its body', async () => {
+    const result = await ingestReceiptEmail(rawEmail({ parts: [htmlPart] }), 'imap');
+
+    expect(result).toMatchObject({ status: 'processed', receiptIds: ['receipt-1'] });
+    const [buffer, mimeType] = storeReceiptFile.mock.calls[0];
+    expect(mimeType).toBe('application/pdf');
+    expect(buffer.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('should record a plain-text email with nothing to import', async () => {
+    const result = await ingestReceiptEmail(rawEmail({ parts: [textPart] }), 'imap');
+
+    expect(result).toMatchObject({ status: 'processed', receiptIds: [] });
+    expect(prisma.inboundEmail.update).toHaveBeenCalledWith({
+      where: { id: 'inbound-1' },
+      data: expect.objectContaining({ receiptCount: 0, error: 'No image or PDF attachment and no message body' }),
+    });
+  });
+
+  it('should quarantine mail from an unknown sender', async () => {
+    prisma.user.findFirst.mockResolvedValue(null);
+
+    const result = await ingestReceiptEmail(rawEmail({ parts: [attachmentPart('lunch.jpg')] }), 'imap');
+
+    expect(result).toEqual({ status: 'quarantined', inboundEmailId: 'inbound-1' });
+    expect(prisma.receipt.create).not.toHaveBeenCalled();
+    expect(prisma.inboundEmail.update).toHaveBeenCalledWith({
+      where: { id: 'inbound-1' },
+      data: { status: 'quarantined', rawEmailPath: 'inbound-email/inbound-1.eml' },
+    });
+  });
+
+  it('should report a Message-ID that was already imported as a duplicate', async () => {
+    prisma.inboundEmail.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+    );
+    prisma.inboundEmail.findUnique.mockResolvedValue({ id: 'inbound-0', status: 'processed' });
+
+    const result = await ingestReceiptEmail(rawEmail({ parts: [attachmentPart('lunch.jpg')] }), 'imap');
+
+    expect(result).toEqual({ status: 'duplicate', inboundEmailId: 'inbound-0' });
+    expect(prisma.receipt.create).not.toHaveBeenCalled();
+  });
+
+  it('should fail rather than drop a message still being imported elsewhere', async () => {
+    prisma.inboundEmail.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+    );
+    prisma.inboundEmail.findUnique.mockResolvedValue({ id: 'inbound-0', status: 'processing' });
+
+    await expect(ingestReceiptEmail(rawEmail({ parts: [attachmentPart('lunch.jpg')] }), 'imap')).rejects.toThrow(
+      'is already being imported'
+    );
+  });
+
+  it('should give the claim back when nothing was imported', async () => {
+    storeReceiptFile.mockRejectedValue(new Error('disk full'));
+
+    await expect(ingestReceiptEmail(rawEmail({ parts: [attachmentPart('lunch.jpg')] }), 'imap')).rejects.toThrow(
+      'disk full'
+    );
+    expect(prisma.inboundEmail.delete).toHaveBeenCalledWith({ where: { id: 'inbound-1' } });
+  });
+
+  it('should keep the claim when some receipts were already imported', async () => {
+    storeReceiptFile
+      .mockReset()
+      .mockResolvedValueOnce({ imageUrl: '/uploads/a.jpg', filename: 'a.jpg', size: 4, optimizationMeta: {} })
+      .mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(
+      ingestReceiptEmail(rawEmail({ parts: [attachmentPart('lunch.jpg'), attachmentPart('taxi.jpg')] }), 'imap')
+    ).rejects.toThrow('disk full');
+
+    expect(prisma.inboundEmail.delete).not.toHaveBeenCalled();
+    expect(prisma.inboundEmail.update).toHaveBeenCalledWith({
+      where: { id: 'inbound-1' },
+      data: { status: 'processed', receiptCount: 1, error: 'Import stopped after 1 receipt: disk full' },
+    });
+  });
+});
+
+describe('isInboundEmailAuthorized', () => {
+  function request(authorization?: string) {
+    return new Request('http://localhost/api/receipts/inbound-email', {
+      headers: authorization ? { authorization } : {},
+    });
+  }
+
+  it('should accept only the forwarding secret as a bearer token', () => {
+    expect(isInboundEmailAuthorized(request('Bearer forwarding-secret'))).toBe(true);
+    expect(isInboundEmailAuthorized(request('Bearer wrong-secret'))).toBe(false);
+    expect(isInboundEmailAuthorized(request('forwarding-secret'))).toBe(false);
+    expect(isInboundEmailAuthorized(request())).toBe(false);
+  });
+});
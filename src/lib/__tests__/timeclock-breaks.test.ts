@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { checkBreakCompliance, getUnpaidBreakSeconds, isBreakType } from '../timeclock-breaks';
+
+const shiftStart = new Date('2026-03-02T08:00:00.000Z');
+
+function at(hours: number) {
+  return new Date(shiftStart.getTime() + hours * 3600 * 1000);
+}
+
+function meal(startHour: number, minutes: number) {
+  return { type: 'MEAL', isPaid: false, startedAt: at(startHour), endedAt: at(startHour + minutes / 60) };
+}
+
+function rest(startHour: number, minutes: number) {
+  return { type: 'REST', isPaid: true, startedAt: at(startHour), endedAt: at(startHour + minutes / 60) };
+}
+
+// A 30-minute meal before hour 5 and a 10-minute rest every 4 hours
+const config = {
+  mealBreakRequired: true,
+  mealBreakMinMinutes: 30,
+  mealBreakBeforeHours: 5,
+  restBreakRequired: true,
+  restBreakMinMinutes: 10,
+  restBreakEveryHours: 4,
+};
+
+describe('getUnpaidBreakSeconds', () => {
+  it('should count only unpaid breaks, running an open one up to the given time', () => {
+    const breaks = [meal(4, 30), rest(2, 10), { type: 'MEAL', isPaid: false, startedAt: at(7), endedAt: null }];
+    expect(getUnpaidBreakSeconds(breaks, at(7.25))).toBe(1800 + 900);
+  });
+});
+
+describe('checkBreakCompliance', () => {
+  it('should pass a shift with a meal in time and enough rest breaks', () => {
+    // 8.5 hours elapsed, 8 worked after the meal
+    expect(checkBreakCompliance(shiftStart, at(8.5), [rest(2, 10), meal(4, 30), rest(6, 10)], config)).toEqual([]);
+  });
+
+  it('should flag a meal taken too late or too short', () => {
+    const late = checkBreakCompliance(shiftStart, at(8.5), [rest(2, 10), meal(5.5, 30), rest(6, 10)], config);
+    expect(late.map((v) => v.rule)).toEqual(['meal_break']);
+    expect(late[0].message).toBe('No 30-minute unpaid meal started before hour 5');
+
+    const short = checkBreakCompliance(shiftStart, at(8.5), [rest(2, 10), meal(4, 20), rest(6, 10)], config);
+    expect(short.map((v) => v.rule)).toEqual(['meal_break']);
+  });
+
+  it('should not need a meal when unpaid time keeps the hours worked under the limit', () => {
+    // 5.5 hours elapsed less a 45-minute meal is 4.75 hours worked
+    expect(checkBreakCompliance(shiftStart, at(5.5), [rest(2, 10), meal(4.75, 45)], config)).toEqual([]);
+  });
+
+  it('should need one rest break per block of hours worked', () => {
+    const violations = checkBreakCompliance(shiftStart, at(8.5), [meal(4, 30), rest(6, 5)], config);
+    expect(violations).toEqual([{ rule: 'rest_break', message: '0 of 2 required 10-minute rest breaks taken' }]);
+  });
+
+  it('should skip rules that are turned off', () => {
+    expect(
+      checkBreakCompliance(shiftStart, at(10), [], { ...config, mealBreakRequired: false, restBreakRequired: false })
+    ).toEqual([]);
+  });
+});
+
+describe('isBreakType', () => {
+  it('should accept meal and rest breaks only', () => {
+    expect(isBreakType('MEAL')).toBe(true);
+    expect(isBreakType('REST')).toBe(true);
+    expect(isBreakType('LUNCH')).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const prisma = vi.hoisted(() => ({
+  managerAssignment: { findMany: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma }));
+
+import { resolveCorrectedTimes, getCorrectionReviewDepartmentIds } from '../timeclock-corrections';
+
+function time(hhmm: string) {
+  return new Date(`2026-03-02T${hhmm}:00.000Z`);
+}
+
+const now = time('20:00');
+const closedEntry = { clockIn: time('09:00'), clockOut: time('17:00') };
+const openEntry = { clockIn: time('09:00'), clockOut: null };
+
+describe('resolveCorrectedTimes', () => {
+  it('should keep the clock-in when fixing a missed or wrong clock-out', () => {
+    expect(resolveCorrectedTimes('missed_clock_out', openEntry, { clockOut: time('17:30') }, now)).toEqual({
+      clockIn: time('09:00'),
+      clockOut: time('17:30'),
+    });
+    expect(resolveCorrectedTimes('wrong_clock_out', closedEntry, { clockOut: time('16:00') }, now)).toEqual({
+      clockIn: time('09:00'),
+      clockOut: time('16:00'),
+    });
+  });
+
+  it('should keep the clock-out when fixing a wrong clock-in', () => {
+    expect(
+      resolveCorrectedTimes('wrong_clock_in', closedEntry, { clockIn: time('08:30'), clockOut: time('12:00') }, now)
+    ).toEqual({ clockIn: time('08:30'), clockOut: time('17:00') });
+  });
+
+  it('should take both times from the request for a forgotten shift', () => {
+    expect(resolveCorrectedTimes('add_shift', null, { clockIn: time('06:00'), clockOut: time('08:00') }, now)).toEqual(
+      { clockIn: time('06:00'), clockOut: time('08:00') }
+    );
+    expect(resolveCorrectedTimes('add_shift', null, { clockIn: time('06:00') }, now)).toEqual({
+      error: 'A forgotten shift needs both a clock-in and a clock-out time',
+    });
+  });
+
+  it('should match the correction type to whether the entry is open', () => {
+    expect(resolveCorrectedTimes('missed_clock_out', closedEntry, { clockOut: time('18:00') }, now)).toEqual({
+      error: 'This entry already has a clock-out',
+    });
+    expect(resolveCorrectedTimes('wrong_clock_in', openEntry, { clockIn: time('08:00') }, now)).toEqual({
+      error: 'This entry is still open; request its missed clock-out instead',
+    });
+    expect(resolveCorrectedTimes('wrong_clock_out', null, { clockOut: time('18:00') }, now)).toEqual({
+      error: 'Pick the entry to correct',
+    });
+  });
+
+  it('should ask for the time being corrected', () => {
+    expect(resolveCorrectedTimes('wrong_clock_in', closedEntry, {}, now)).toEqual({
+      error: 'Enter the correct clock-in time',
+    });
+    expect(resolveCorrectedTimes('missed_clock_out', openEntry, { clockOut: null }, now)).toEqual({
+      error: 'Enter the correct clock-out time',
+    });
+  });
+
+  it('should reject backwards, future and over-long shifts', () => {
+    expect(resolveCorrectedTimes('wrong_clock_out', closedEntry, { clockOut: time('08:00') }, now)).toEqual({
+      error: 'Clock out time must be after clock in time',
+    });
+    expect(resolveCorrectedTimes('wrong_clock_out', closedEntry, { clockOut: time('21:00') }, now)).toEqual({
+      error: 'Clock out time cannot be in the future',
+    });
+    expect(
+      resolveCorrectedTimes(
+        'add_shift',
+        null,
+        { clockIn: new Date('2026-03-01T06:00:00.000Z'), clockOut: time('07:00') },
+        now
+      )
+    ).toEqual({ error: 'A corrected shift cannot be longer than 24 hours' });
+  });
+});
+
+describe('getCorrectionReviewDepartmentIds', () => {
+  it('should cover every department with view-all and none without approval rights', async () => {
+    expect(
+      await getCorrectionReviewDepartmentIds('user-1', { timeclock: { canApproveEntries: true, canViewAllEntries: true } })
+    ).toBeNull();
+    expect(await getCorrectionReviewDepartmentIds('user-1', { timeclock: { canViewAllEntries: true } })).toEqual([]);
+  });
+
+  it('should otherwise cover the departments the user manages', async () => {
+    prisma.managerAssignment.findMany.mockResolvedValue([{ departmentId: 'ops' }, { departmentId: 'sales' }]);
+    expect(await getCorrectionReviewDepartmentIds('user-1', { timeclock: { canApproveEntries: true } })).toEqual([
+      'ops',
+      'sales',
+    ]);
+  });
+});
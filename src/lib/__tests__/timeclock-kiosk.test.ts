@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const prisma = vi.hoisted(() => ({
+  user: { findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+  timeclockKiosk: { update: vi.fn(), updateMany: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma }));
+vi.mock('../audit', () => ({ createAuditLog: vi.fn() }));
+
+import {
+  identifyKioskEmployee,
+  hashKioskPin,
+  validateKioskPin,
+  validateBadgeNumber,
+  KIOSK_MAX_FAILED_ATTEMPTS,
+} from '../timeclock-kiosk';
+import { createAuditLog } from '../audit';
+import type { TimeclockKiosk } from '@prisma/client';
+
+function kiosk(overrides: Partial<TimeclockKiosk> = {}) {
+  return {
+    id: 'kiosk-1',
+    name: 'Front door',
+    identificationMode: 'BADGE_AND_PIN',
+    failedAttempts: 0,
+    lockedUntil: null,
+    ...overrides,
+  } as TimeclockKiosk;
+}
+
+function employee(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'user-1',
+    name: 'Sam Lee',
+    isActive: true,
+    kioskPin: hashKioskPin('1234'),
+    kioskFailedAttempts: 0,
+    kioskLockedUntil: null,
+    ...overrides,
+  };
+}
+
+function minutesFromNow(minutes: number) {
+  return new Date(Date.now() + minutes * 60000);
+}
+
+beforeEach(() => {
+  vi.stubEnv('NEXTAUTH_SECRET', 'test-secret');
+  vi.mocked(createAuditLog).mockReset();
+  prisma.user.findUnique.mockReset();
+  prisma.user.update.mockReset().mockResolvedValue({ kioskFailedAttempts: 1 });
+  prisma.user.updateMany.mockReset().mockResolvedValue({ count: 1 });
+  prisma.timeclockKiosk.update.mockReset().mockResolvedValue({ failedAttempts: 1 });
+  prisma.timeclockKiosk.updateMany.mockReset().mockResolvedValue({ count: 1 });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('identifyKioskEmployee', () => {
+  it('should identify an employee by badge and PIN', async () => {
+    prisma.user.findUnique.mockResolvedValue(employee());
+
+    const result = await identifyKioskEmployee(kiosk(), { badgeNumber: ' B-100 ', pin: '1234' });
+
+    expect(result).toEqual({ userId: 'user-1', name: 'Sam Lee' });
+    expect(prisma.user.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { badgeNumber: 'B-100' } }));
+  });
+
+  it('should count a wrong PIN against the employee, not the kiosk', async () => {
+    prisma.user.findUnique.mockResolvedValue(employee());
+
+    const result = await identifyKioskEmployee(kiosk(), { badgeNumber: 'B-100', pin: '9999' });
+
+    expect(result).toEqual({ error: 'Badge or PIN not recognized', status: 401 });
+    expect(prisma.user.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { kioskFailedAttempts: { increment: 1 } } })
+    );
+    expect(prisma.timeclockKiosk.update).not.toHaveBeenCalled();
+    expect(prisma.user.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should lock the employee out on the last allowed wrong PIN', async () => {
+    prisma.user.findUnique.mockResolvedValue(employee());
+    prisma.user.update.mockResolvedValue({ kioskFailedAttempts: KIOSK_MAX_FAILED_ATTEMPTS });
+
+    await identifyKioskEmployee(kiosk(), { badgeNumber: 'B-100', pin: '9999' });
+
+    expect(prisma.user.updateMany).toHaveBeenCalledWith({
+      where: { id: 'user-1', kioskFailedAttempts: { gte: KIOSK_MAX_FAILED_ATTEMPTS } },
+      data: { kioskFailedAttempts: 0, kioskLockedUntil: expect.any(Date) },
+    });
+    expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'TIMECLOCK_KIOSK_LOCKED' }));
+  });
+
+  it('should only audit the lockout once when attempts race', async () => {
+    prisma.user.findUnique.mockResolvedValue(employee());
+    prisma.user.update.mockResolvedValue({ kioskFailedAttempts: KIOSK_MAX_FAILED_ATTEMPTS + 1 });
+    prisma.user.updateMany.mockResolvedValue({ count: 0 });
+
+    await identifyKioskEmployee(kiosk(), { badgeNumber: 'B-100', pin: '9999' });
+
+    expect(createAuditLog).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a locked-out employee even with the right PIN', async () => {
+    prisma.user.findUnique.mockResolvedValue(employee({ kioskLockedUntil: minutesFromNow(10) }));
+
+    const result = await identifyKioskEmployee(kiosk(), { badgeNumber: 'B-100', pin: '1234' });
+
+    expect(result).toMatchObject({ status: 423 });
+    expect((result as { error: string }).error).toContain('10 minute(s)');
+  });
+
+  it('should clear the employee count after a successful identification', async () => {
+    prisma.user.findUnique.mockResolvedValue(
+      employee({ kioskFailedAttempts: 3, kioskLockedUntil: minutesFromNow(-1) })
+    );
+
+    await identifyKioskEmployee(kiosk(), { badgeNumber: 'B-100', pin: '1234' });
+
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { kioskFailedAttempts: 0, kioskLockedUntil: null },
+    });
+  });
+
+  it('should count unrecognized badges and inactive employees against the kiosk', async () => {
+    prisma.user.findUnique.mockResolvedValue(null);
+    expect(await identifyKioskEmployee(kiosk(), { badgeNumber: 'B-404', pin: '1234' })).toMatchObject({ status: 401 });
+
+    prisma.user.findUnique.mockResolvedValue(employee({ isActive: false }));
+    expect(await identifyKioskEmployee(kiosk(), { badgeNumber: 'B-100', pin: '1234' })).toMatchObject({ status: 401 });
+
+    expect(prisma.timeclockKiosk.update).toHaveBeenCalledTimes(2);
+  });
+
+  it('should lock the kiosk after too many unrecognized attempts', async () => {
+    prisma.user.findUnique.mockResolvedValue(null);
+    prisma.timeclockKiosk.update.mockResolvedValue({ failedAttempts: KIOSK_MAX_FAILED_ATTEMPTS });
+
+    await identifyKioskEmployee(kiosk(), { badgeNumber: 'B-404', pin: '1234' });
+
+    expect(prisma.timeclockKiosk.updateMany).toHaveBeenCalledWith({
+      where: { id: 'kiosk-1', failedAttempts: { gte: KIOSK_MAX_FAILED_ATTEMPTS } },
+      data: { failedAttempts: 0, lockedUntil: expect.any(Date) },
+    });
+  });
+
+  it('should refuse every attempt while the kiosk is locked', async () => {
+    const result = await identifyKioskEmployee(kiosk({ lockedUntil: minutesFromNow(5) }), {
+      badgeNumber: 'B-100',
+      pin: '1234',
+    });
+
+    expect(result).toMatchObject({ status: 423 });
+    expect(prisma.user.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('should ask for the credentials the kiosk mode needs', async () => {
+    expect(await identifyKioskEmployee(kiosk(), { pin: '1234' })).toEqual({
+      error: 'Scan or enter your badge number',
+      status: 400,
+    });
+    expect(await identifyKioskEmployee(kiosk({ identificationMode: 'PIN' }), { badgeNumber: 'B-100' })).toEqual({
+      error: 'Enter your PIN',
+      status: 400,
+    });
+  });
+
+  it('should look employees up by PIN hash in PIN mode', async () => {
+    prisma.user.findUnique.mockResolvedValue(employee());
+
+    await identifyKioskEmployee(kiosk({ identificationMode: 'PIN' }), { pin: '1234' });
+
+    expect(prisma.user.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { kioskPin: hashKioskPin('1234') } })
+    );
+  });
+});
+
+describe('validateKioskPin', () => {
+  it('should accept 4 to 8 digits only', () => {
+    expect(validateKioskPin('1234')).toBeNull();
+    expect(validateKioskPin('12345678')).toBeNull();
+    expect(validateKioskPin('123')).not.toBeNull();
+    expect(validateKioskPin('123456789')).not.toBeNull();
+    expect(validateKioskPin('12a4')).not.toBeNull();
+  });
+});
+
+describe('validateBadgeNumber', () => {
+  it('should accept letters, numbers and dashes up to 32 characters', () => {
+    expect(validateBadgeNumber('B-100')).toBeNull();
+    expect(validateBadgeNumber('B 100')).not.toBeNull();
+    expect(validateBadgeNumber('x'.repeat(33))).not.toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import {
+  isIpInNetwork,
+  isValidNetwork,
+  getTrustedClientIp,
+  evaluatePunchRestriction,
+} from '../timeclock-location';
+
+describe('isIpInNetwork', () => {
+  describe('IPv4', () => {
+    it('should match addresses inside a /24 and not just outside it', () => {
+      expect(isIpInNetwork('203.0.113.0', '203.0.113.0/24')).toBe(true);
+      expect(isIpInNetwork('203.0.113.255', '203.0.113.0/24')).toBe(true);
+      expect(isIpInNetwork('203.0.112.255', '203.0.113.0/24')).toBe(false);
+      expect(isIpInNetwork('203.0.114.0', '203.0.113.0/24')).toBe(false);
+    });
+
+    it('should respect prefixes that do not fall on an octet boundary', () => {
+      // 10.0.0.0/12 covers 10.0.0.0 - 10.15.255.255
+      expect(isIpInNetwork('10.15.255.255', '10.0.0.0/12')).toBe(true);
+      expect(isIpInNetwork('10.16.0.0', '10.0.0.0/12')).toBe(false);
+      // 192.168.1.128/25 covers .128 - .255
+      expect(isIpInNetwork('192.168.1.127', '192.168.1.128/25')).toBe(false);
+      expect(isIpInNetwork('192.168.1.128', '192.168.1.128/25')).toBe(true);
+    });
+
+    it('should match every IPv4 address with /0', () => {
+      expect(isIpInNetwork('0.0.0.0', '0.0.0.0/0')).toBe(true);
+      expect(isIpInNetwork('255.255.255.255', '0.0.0.0/0')).toBe(true);
+    });
+
+    it('should match only the exact address with /32 or no prefix', () => {
+      expect(isIpInNetwork('198.51.100.7', '198.51.100.7/32')).toBe(true);
+      expect(isIpInNetwork('198.51.100.8', '198.51.100.7/32')).toBe(false);
+      expect(isIpInNetwork('198.51.100.7', '198.51.100.7')).toBe(true);
+      expect(isIpInNetwork('198.51.100.6', '198.51.100.7')).toBe(false);
+    });
+  });
+
+  describe('IPv6', () => {
+    it('should match addresses inside a /32 and not just outside it', () => {
+      expect(isIpInNetwork('2001:db8::1', '2001:db8::/32')).toBe(true);
+      expect(isIpInNetwork('2001:db8:ffff:ffff:ffff:ffff:ffff:ffff', '2001:db8::/32')).toBe(true);
+      expect(isIpInNetwork('2001:db9::', '2001:db8::/32')).toBe(false);
+      expect(isIpInNetwork('2001:db7:ffff::', '2001:db8::/32')).toBe(false);
+    });
+
+    it('should respect prefixes inside a group', () => {
+      // 2001:db8:8000::/33 is the upper half of 2001:db8::/32
+      expect(isIpInNetwork('2001:db8:7fff::1', '2001:db8:8000::/33')).toBe(false);
+      expect(isIpInNetwork('2001:db8:8000::1', '2001:db8:8000::/33')).toBe(true);
+    });
+
+    it('should match every IPv6 address with /0', () => {
+      expect(isIpInNetwork('::', '::/0')).toBe(true);
+      expect(isIpInNetwork('ffff:ffff:ffff:ffff:ffff:ffff:ffff:ffff', '::/0')).toBe(true);
+    });
+
+    it('should match only the exact address with /128', () => {
+      expect(isIpInNetwork('2001:db8::10', '2001:db8::10/128')).toBe(true);
+      expect(isIpInNetwork('2001:db8::11', '2001:db8::10/128')).toBe(false);
+    });
+
+    it('should accept expanded, bracketed and zone-scoped forms', () => {
+      expect(isIpInNetwork('2001:0db8:0000:0000:0000:0000:0000:0001', '2001:db8::/64')).toBe(true);
+      expect(isIpInNetwork('[2001:db8::1]', '2001:db8::/64')).toBe(true);
+      expect(isIpInNetwork('fe80::1%eth0', 'fe80::/10')).toBe(true);
+    });
+  });
+
+  describe('IPv4-mapped IPv6', () => {
+    it('should compare a mapped client address against IPv4 ranges', () => {
+      expect(isIpInNetwork('::ffff:203.0.113.9', '203.0.113.0/24')).toBe(true);
+      expect(isIpInNetwork('::ffff:cb00:7109', '203.0.113.0/24')).toBe(true);
+      expect(isIpInNetwork('::ffff:203.0.114.9', '203.0.113.0/24')).toBe(false);
+    });
+
+    it('should accept a network written in mapped form', () => {
+      expect(isIpInNetwork('203.0.113.9', '::ffff:203.0.113.0/24')).toBe(true);
+    });
+
+    it('should not treat IPv4 ranges as matching real IPv6 addresses', () => {
+      expect(isIpInNetwork('2001:db8::1', '0.0.0.0/0')).toBe(false);
+      expect(isIpInNetwork('203.0.113.9', '::/0')).toBe(false);
+    });
+  });
+
+  it('should reject malformed addresses and networks', () => {
+    expect(isIpInNetwork('203.0.113.256', '203.0.113.0/24')).toBe(false);
+    expect(isIpInNetwork('203.0.113', '203.0.113.0/24')).toBe(false);
+    expect(isIpInNetwork('2001:db8::1::2', '2001:db8::/32')).toBe(false);
+    expect(isIpInNetwork('not-an-ip', '0.0.0.0/0')).toBe(false);
+    expect(isIpInNetwork('203.0.113.9', '203.0.113.0/33')).toBe(false);
+  });
+});
+
+describe('isValidNetwork', () => {
+  it('should accept addresses and CIDR ranges within the prefix length', () => {
+    expect(isValidNetwork('203.0.113.0/24')).toBe(true);
+    expect(isValidNetwork('203.0.113.7')).toBe(true);
+    expect(isValidNetwork('2001:db8::/128')).toBe(true);
+  });
+
+  it('should reject prefixes past the address length and extra slashes', () => {
+    expect(isValidNetwork('203.0.113.0/33')).toBe(false);
+    expect(isValidNetwork('2001:db8::/129')).toBe(false);
+    expect(isValidNetwork('203.0.113.0/24/8')).toBe(false);
+    expect(isValidNetwork('203.0.113.0/-1')).toBe(false);
+  });
+});
+
+describe('getTrustedClientIp', () => {
+  it('should take the entry appended by the single trusted proxy', () => {
+    expect(getTrustedClientIp('198.51.100.20', 1)).toBe('198.51.100.20');
+  });
+
+  it('should ignore values the client forged to the left', () => {
+    // Client sent "X-Forwarded-For: 203.0.113.9"; the proxy appended the real address
+    expect(getTrustedClientIp('203.0.113.9, 198.51.100.20', 1)).toBe('198.51.100.20');
+  });
+
+  it('should count trusted hops from the right', () => {
+    expect(getTrustedClientIp('203.0.113.9, 198.51.100.20, 10.0.0.2', 2)).toBe('198.51.100.20');
+  });
+
+  it('should return null without enough hops, a trusted proxy or a valid address', () => {
+    expect(getTrustedClientIp('198.51.100.20', 2)).toBeNull();
+    expect(getTrustedClientIp('198.51.100.20', 0)).toBeNull();
+    expect(getTrustedClientIp(null, 1)).toBeNull();
+    expect(getTrustedClientIp('unknown', 1)).toBeNull();
+  });
+
+  it('should trust no proxy unless TRUSTED_PROXY_COUNT is set', () => {
+    vi.stubEnv('TRUSTED_PROXY_COUNT', undefined);
+    expect(getTrustedClientIp('198.51.100.20')).toBeNull();
+    vi.stubEnv('TRUSTED_PROXY_COUNT', '1');
+    expect(getTrustedClientIp('198.51.100.20')).toBe('198.51.100.20');
+    vi.unstubAllEnvs();
+  });
+});
+
+describe('evaluatePunchRestriction', () => {
+  const site = { name: 'Main Office', latitude: 40.0, longitude: -75.0, radiusMeters: 200 };
+
+  it('should pass a punch from an allowed network', () => {
+    expect(
+      evaluatePunchRestriction(['203.0.113.0/24'], [], { ipAddress: '203.0.113.9', latitude: null, longitude: null })
+    ).toBeNull();
+  });
+
+  it('should pass a punch within a work site radius even off the network', () => {
+    expect(
+      evaluatePunchRestriction(['203.0.113.0/24'], [site], { ipAddress: '198.51.100.1', latitude: 40.0005, longitude: -75.0 })
+    ).toBeNull();
+  });
+
+  it('should explain why a punch failed', () => {
+    const result = evaluatePunchRestriction(['203.0.113.0/24'], [site], {
+      ipAddress: null,
+      latitude: null,
+      longitude: null,
+    });
+    expect(result).toContain('IP address unknown');
+    expect(result).toContain('no location shared');
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prisma = vi.hoisted(() => ({
+  timeclockRulesConfig: { findFirst: vi.fn(), create: vi.fn() },
+  overtimeConfig: { findFirst: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma }));
+vi.mock('../overtime-rules', () => ({ getOvertimeConfigForUser: vi.fn().mockResolvedValue(null) }));
+
+import { processClockOut, invalidateRulesConfigCache } from '../timeclock-rules';
+import type { TimeclockRulesConfig } from '@prisma/client';
+
+const HOUR = 3600;
+
+// 30 minute break deducted from shifts over 6 hours; shifts under 15 minutes flagged
+function rulesConfig(overrides: Partial<TimeclockRulesConfig> = {}) {
+  return {
+    id: 'config-1',
+    roundingMode: 'none',
+    breakDeductionEnabled: true,
+    breakDeductionAfterHours: 6,
+    breakDeductionMinutes: 30,
+    minDurationEnabled: true,
+    minDurationSeconds: 900,
+    minDurationAction: 'flag',
+    autoApproveEnabled: false,
+    autoApproveMinHours: 0,
+    autoApproveMaxHours: 24,
+    autoApproveBlockOnOT: false,
+    ...overrides,
+  } as TimeclockRulesConfig;
+}
+
+beforeEach(() => {
+  invalidateRulesConfigCache();
+  prisma.timeclockRulesConfig.findFirst.mockResolvedValue(rulesConfig());
+});
+
+describe('processClockOut', () => {
+  it('should deduct the break from a whole shift over the threshold', async () => {
+    const result = await processClockOut(8 * HOUR, 'user-1');
+    expect(result.breakDeducted).toBe(1800);
+    expect(result.finalDuration).toBe(8 * HOUR - 1800);
+  });
+
+  describe('when a job code switch splits a shift', () => {
+    it('should not deduct a break or check the minimum on a mid-shift segment', async () => {
+      // 10 minutes on the first job before switching
+      const result = await processClockOut(600, 'user-1', { midShift: true });
+      expect(result.breakDeducted).toBe(0);
+      expect(result.flagReason).toBeNull();
+      expect(result.finalDuration).toBe(600);
+    });
+
+    it('should decide the break on the whole shift length for the last segment', async () => {
+      // 4 hours on the second job after 4 hours on the first
+      const result = await processClockOut(4 * HOUR, 'user-1', { shiftSeconds: 8 * HOUR });
+      expect(result.breakDeducted).toBe(1800);
+      expect(result.finalDuration).toBe(4 * HOUR - 1800);
+    });
+
+    it('should not deduct more than the last segment worked', async () => {
+      const result = await processClockOut(1200, 'user-1', { shiftSeconds: 8 * HOUR });
+      expect(result.breakDeducted).toBe(1200);
+      expect(result.finalDuration).toBe(0);
+    });
+
+    it('should leave a short shift alone even when split', async () => {
+      const result = await processClockOut(3 * HOUR, 'user-1', { shiftSeconds: 5 * HOUR });
+      expect(result.breakDeducted).toBe(0);
+    });
+  });
+
+  it('should use punched breaks instead of the automatic deduction', async () => {
+    const result = await processClockOut(8 * HOUR, 'user-1', { unpaidBreakSeconds: 2700 });
+    expect(result.breakDeducted).toBe(2700);
+  });
+
+  it('should flag or reject a shift below the minimum duration', async () => {
+    expect((await processClockOut(300, 'user-1')).flagReason).toBe('min_duration');
+
+    invalidateRulesConfigCache();
+    prisma.timeclockRulesConfig.findFirst.mockResolvedValue(rulesConfig({ minDurationAction: 'reject' }));
+    const rejected = await processClockOut(300, 'user-1');
+    expect(rejected.status).toBe('rejected');
+    expect(rejected.rejectedNote).toContain('below minimum threshold');
+  });
+
+  it('should auto-approve only entries without a flag', async () => {
+    invalidateRulesConfigCache();
+    prisma.timeclockRulesConfig.findFirst.mockResolvedValue(rulesConfig({ autoApproveEnabled: true }));
+
+    expect((await processClockOut(4 * HOUR, 'user-1')).status).toBe('approved');
+
+    const flagged = await processClockOut(4 * HOUR, 'user-1', { complianceFlag: 'break_violation' });
+    expect(flagged.status).toBe('pending');
+    expect(flagged.flagReason).toBe('break_violation');
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+vi.mock('../timeclock-rules', () => ({
+  getTimeclockRulesConfig: vi.fn().mockResolvedValue({ scheduleComparisonEnabled: true, scheduleGraceMinutes: 5 }),
+}));
+
+import {
+  findScheduledShift,
+  compareArrival,
+  compareDeparture,
+  parseScheduleVariances,
+  matchClockInToSchedule,
+} from '../timeclock-schedule';
+
+type Db = Parameters<typeof matchClockInToSchedule>[2];
+
+function time(hhmm: string) {
+  return new Date(`2026-03-02T${hhmm}:00.000Z`);
+}
+
+function shift(id: string, start: string, end: string) {
+  return { id, startsAt: time(start), endsAt: time(end) };
+}
+
+const dayShift = shift('day', '09:00', '17:00');
+
+describe('findScheduledShift', () => {
+  const evening = shift('evening', '17:00', '23:00');
+
+  it('should match a punch up to two hours before the shift until it ends', () => {
+    expect(findScheduledShift([dayShift], time('07:00'))?.id).toBe('day');
+    expect(findScheduledShift([dayShift], time('16:59'))?.id).toBe('day');
+    expect(findScheduledShift([dayShift], time('06:59'))).toBeNull();
+    expect(findScheduledShift([dayShift], time('17:00'))).toBeNull();
+  });
+
+  it('should prefer the shift starting closest to the punch', () => {
+    expect(findScheduledShift([dayShift, evening], time('16:30'))?.id).toBe('evening');
+    expect(findScheduledShift([dayShift, evening], time('12:00'))?.id).toBe('day');
+  });
+});
+
+describe('compareArrival', () => {
+  it('should flag a late arrival only past the grace period', () => {
+    expect(compareArrival(time('09:05'), dayShift, 5)).toEqual([]);
+    expect(compareArrival(time('09:12'), dayShift, 5)).toEqual([
+      { type: 'late_arrival', minutes: 12, message: 'Clocked in 12 min late' },
+    ]);
+  });
+
+  it('should not flag an early arrival', () => {
+    expect(compareArrival(time('08:30'), dayShift, 0)).toEqual([]);
+  });
+
+  it('should flag a clock-in without a shift as unscheduled', () => {
+    expect(compareArrival(time('09:00'), null, 5)).toEqual([
+      { type: 'unscheduled', minutes: 0, message: 'Clocked in without a scheduled shift' },
+    ]);
+  });
+});
+
+describe('compareDeparture', () => {
+  it('should flag an early departure only past the grace period', () => {
+    expect(compareDeparture(time('16:55'), dayShift, 5)).toEqual([]);
+    expect(compareDeparture(time('16:20'), dayShift, 5)).toEqual([
+      { type: 'early_departure', minutes: 40, message: 'Clocked out 40 min early' },
+    ]);
+    expect(compareDeparture(time('17:30'), dayShift, 0)).toEqual([]);
+  });
+});
+
+describe('parseScheduleVariances', () => {
+  it('should read a stored array and ignore anything else', () => {
+    expect(parseScheduleVariances('[{"type":"unscheduled","minutes":0,"message":"x"}]')).toHaveLength(1);
+    expect(parseScheduleVariances('{}')).toEqual([]);
+    expect(parseScheduleVariances('oops')).toEqual([]);
+    expect(parseScheduleVariances(null)).toEqual([]);
+  });
+});
+
+describe('matchClockInToSchedule', () => {
+  const db = {
+    scheduledShift: { findMany: vi.fn() },
+    timeclockEntry: { findMany: vi.fn(), update: vi.fn() },
+  };
+
+  beforeEach(() => {
+    db.scheduledShift.findMany.mockResolvedValue([dayShift]);
+    db.timeclockEntry.findMany.mockResolvedValue([]);
+    db.timeclockEntry.update.mockReset();
+  });
+
+  it('should record a late arrival on the first clock-in to a shift', async () => {
+    const result = await matchClockInToSchedule('user-1', time('09:20'), db as unknown as Db);
+
+    expect(result?.scheduledShiftId).toBe('day');
+    expect(parseScheduleVariances(result?.scheduleVariances)).toEqual([
+      { type: 'late_arrival', minutes: 20, message: 'Clocked in 20 min late' },
+    ]);
+  });
+
+  it('should clear the early departure when clocking back in to a started shift', async () => {
+    db.timeclockEntry.findMany.mockResolvedValue([
+      {
+        id: 'morning',
+        scheduleVariances: JSON.stringify([
+          { type: 'late_arrival', minutes: 20, message: 'Clocked in 20 min late' },
+          { type: 'early_departure', minutes: 240, message: 'Clocked out 240 min early' },
+        ]),
+      },
+    ]);
+
+    const result = await matchClockInToSchedule('user-1', time('13:30'), db as unknown as Db);
+
+    expect(result).toEqual({ scheduledShiftId: 'day', scheduleVariances: null });
+    expect(db.timeclockEntry.update).toHaveBeenCalledWith({
+      where: { id: 'morning' },
+      data: { scheduleVariances: JSON.stringify([{ type: 'late_arrival', minutes: 20, message: 'Clocked in 20 min late' }]) },
+    });
+  });
+
+  it('should record an unscheduled shift when nothing matches', async () => {
+    db.scheduledShift.findMany.mockResolvedValue([]);
+
+    const result = await matchClockInToSchedule('user-1', time('20:00'), db as unknown as Db);
+
+    expect(result?.scheduledShiftId).toBeNull();
+    expect(parseScheduleVariances(result?.scheduleVariances)[0].type).toBe('unscheduled');
+  });
+});
@@ -16,12 +16,26 @@ export type AuditAction =
   | 'PO_SUBMITTED'
   | 'PO_APPROVED'
   | 'PO_REJECTED'
+  | 'PO_ITEMS_RECEIVED'
+  | 'PO_CHANGE_ORDER_CREATED'
+  | 'PO_CHANGE_ORDER_APPROVED'
+  | 'PO_CHANGE_ORDER_REJECTED'
+  | 'PO_CHANGE_ORDER_CANCELLED'
+  | 'PO_CHANGE_ORDER_STEP_APPROVED'
+  | 'PO_RELEASE_CREATED'
+  | 'PO_SENT_TO_VENDOR'
+  | 'PO_BUDGET_OVERRIDDEN'
+  | 'PO_ROLLED_OVER'
   | 'PO_COMPLETED'
   | 'PO_VOIDED'
   | 'PO_DELETED'
   | 'PO_LINE_ITEM_ADDED'
   | 'PO_LINE_ITEM_REMOVED'
   | 'PO_LINE_ITEM_UPDATED'
+  | 'PO_APPROVAL_STEP_APPROVED'
+  | 'APPROVAL_CHAIN_CREATED'
+  | 'APPROVAL_CHAIN_UPDATED'
+  | 'APPROVAL_CHAIN_DELETED'
   // Role actions
   | 'ROLE_CREATED'
   | 'ROLE_UPDATED'
@@ -42,10 +56,13 @@ export type AuditAction =
   | 'BUDGET_CATEGORY_UPDATED'
   | 'BUDGET_CATEGORY_DELETED'
   | 'BUDGET_ITEM_COPIED'
+  | 'DEPARTMENT_BUDGET_TARGET_SET'
+  | 'DEPARTMENT_BUDGET_TARGET_REMOVED'
   // Fiscal year actions
   | 'FISCAL_YEAR_CREATED'
   | 'FISCAL_YEAR_UPDATED'
   | 'FISCAL_YEAR_DELETED'
+  | 'FISCAL_YEAR_CLOSE_PROCESSED'
   // Vendor actions
   | 'VENDOR_CREATED'
   | 'VENDOR_UPDATED'
@@ -71,6 +88,8 @@ export type AuditAction =
   | 'RECEIPT_UNLINKED_FROM_PO'
   | 'RECEIPT_CATEGORY_ASSIGNED'
   | 'RECEIPT_CATEGORY_REMOVED'
+  | 'RECEIPT_DUPLICATE_FLAGGED'
+  | 'RECEIPT_DUPLICATE_RESOLVED'
   // Bank statement actions
   | 'BANK_STATEMENT_UPLOADED'
   | 'BANK_STATEMENT_PARSED'
@@ -100,6 +119,55 @@ export type AuditAction =
   | 'EXPORT_TEMPLATE_UPDATED'
   | 'EXPORT_TEMPLATE_DELETED'
   | 'TIMECLOCK_RULES_CONFIG_UPDATED'
+  | 'TIMECLOCK_KIOSK_CREATED'
+  | 'TIMECLOCK_KIOSK_UPDATED'
+  | 'TIMECLOCK_KIOSK_DELETED'
+  | 'TIMECLOCK_KIOSK_LOCKED'
+  | 'JOB_CODE_CREATED'
+  | 'JOB_CODE_UPDATED'
+  | 'JOB_CODE_DELETED'
+  | 'SCHEDULED_SHIFT_CREATED'
+  | 'SCHEDULED_SHIFT_UPDATED'
+  | 'SCHEDULED_SHIFT_DELETED'
+  | 'PTO_POLICY_CREATED'
+  | 'PTO_POLICY_UPDATED'
+  | 'PTO_POLICY_DELETED'
+  | 'PTO_POLICY_ASSIGNED'
+  | 'OVERTIME_RULE_SET_CREATED'
+  | 'OVERTIME_RULE_SET_UPDATED'
+  | 'OVERTIME_RULE_SET_DELETED'
+  | 'OVERTIME_RULE_SET_ASSIGNED'
+  | 'PAYROLL_PROVIDER_CONFIG_UPDATED'
+  | 'PUNCH_RESTRICTION_UPDATED'
+  | 'PUNCH_RESTRICTION_DELETED'
+  | 'PAY_RATE_CREATED'
+  | 'PAY_RATE_DELETED'
+  | 'LABOR_COST_POSTED'
+  | 'INBOUND_EMAIL_PROCESSED'
+  | 'INBOUND_EMAIL_QUARANTINED'
+  | 'INBOUND_EMAIL_RELEASED'
+  | 'INBOUND_EMAIL_DISCARDED'
+  | 'EXPENSE_REPORT_CREATED'
+  | 'EXPENSE_REPORT_UPDATED'
+  | 'EXPENSE_REPORT_DELETED'
+  | 'EXPENSE_REPORT_SUBMITTED'
+  | 'EXPENSE_REPORT_APPROVED'
+  | 'EXPENSE_REPORT_REJECTED'
+  | 'EXPENSE_REPORT_REIMBURSED'
+  | 'EXPENSE_ENTRY_CREATED'
+  | 'EXPENSE_ENTRY_UPDATED'
+  | 'EXPENSE_ENTRY_DELETED'
+  | 'EXPENSE_POLICY_CREATED'
+  | 'EXPENSE_POLICY_UPDATED'
+  | 'EXPENSE_POLICY_DELETED'
+  | 'PTO_REQUEST_CREATED'
+  | 'PTO_REQUEST_APPROVED'
+  | 'PTO_REQUEST_REJECTED'
+  | 'PTO_REQUEST_CANCELLED'
+  | 'TIMECLOCK_CORRECTION_REQUESTED'
+  | 'TIMECLOCK_CORRECTION_APPROVED'
+  | 'TIMECLOCK_CORRECTION_DENIED'
+  | 'TIMECLOCK_CORRECTION_CANCELLED'
   // AI actions
   | 'AI_PROVIDER_CONFIGURED'
   | 'AI_CONNECTION_TESTED'
@@ -117,9 +185,11 @@ export type AuditEntityType =
   | 'Department'
   | 'PurchaseOrder'
   | 'POLineItem'
+  | 'ApprovalChain'
   | 'BudgetItem'
   | 'BudgetAmendment'
   | 'BudgetCategory'
+  | 'DepartmentBudgetTarget'
   | 'FiscalYear'
   | 'Vendor'
   | 'Settings'
@@ -134,6 +204,21 @@ export type AuditEntityType =
   | 'ManagerAssignment'
   | 'ExportTemplate'
   | 'TimeclockRulesConfig'
+  | 'TimeclockKiosk'
+  | 'JobCode'
+  | 'ScheduledShift'
+  | 'PtoPolicy'
+  | 'OvertimeRuleSet'
+  | 'PayrollProviderConfig'
+  | 'PunchRestriction'
+  | 'PayRate'
+  | 'LaborCostPosting'
+  | 'InboundEmail'
+  | 'ExpenseReport'
+  | 'ExpenseEntry'
+  | 'ExpensePolicy'
+  | 'PtoRequest'
+  | 'TimeclockCorrection'
   | 'PayPeriodLock'
   | 'AIUsage'
   | 'System';
@@ -220,7 +305,7 @@ export function sanitizeData(data: any): any {
   }
 
   const sanitized = { ...data };
-  const sensitiveFields = ['password', 'passwordHash', 'token', 'secret'];
+  const sensitiveFields = ['password', 'passwordHash', 'token', 'secret', 'kioskPin', 'tokenHash'];
 
   for (const field of sensitiveFields) {
     if (field in sanitized) {
@@ -0,0 +1,189 @@
+import { PrismaClient } from '@prisma/client';
+import { updateBudgetFromPO } from './budget-tracking';
+
+type PrismaTransactionClient = Parameters<Parameters<PrismaClient['$transaction']>[0]>[0];
+
+// Allow for floating point noise when comparing amounts
+const AMOUNT_TOLERANCE = 0.005;
+
+// Warn once this share of the ceiling has been drawn down
+export const BLANKET_CEILING_WARNING_PERCENT = 80;
+
+// Warn this many days before a blanket PO expires
+export const BLANKET_EXPIRY_WARNING_DAYS = 30;
+
+type BlanketLineItem = {
+  id: string;
+  amount: number;
+  budgetItemId: string;
+  releasedAmount: number;
+};
+
+type BlanketPO = {
+  type: string;
+  status: string;
+  totalAmount: number;
+  expiresAt: Date | null;
+  lineItems: BlanketLineItem[];
+};
+
+export type ReleaseLine = {
+  budgetItemId: string;
+  amount: number;
+};
+
+/**
+ * Thrown when a blanket line's drawn-down amount changed between reading the
+ * blanket and writing the adjustment, so a concurrent release can't push the
+ * drawdown past the ceiling
+ */
+export class BlanketDrawdownError extends Error {}
+
+export interface BlanketSummary {
+  ceiling: number;
+  consumed: number;
+  remaining: number;
+  percentConsumed: number;
+  expiresAt: Date | null;
+  daysUntilExpiry: number | null;
+  isExpired: boolean;
+  warnings: string[];
+}
+
+/**
+ * Consumed vs remaining for a blanket PO, with warnings as the ceiling
+ * or expiry date approaches
+ */
+export function getBlanketSummary(po: BlanketPO, now: Date = new Date()): BlanketSummary {
+  const ceiling = po.totalAmount;
+  const consumed = po.lineItems.reduce((sum, li) => sum + li.releasedAmount, 0);
+  const remaining = ceiling - consumed;
+  const percentConsumed = ceiling > 0 ? (consumed / ceiling) * 100 : 0;
+
+  const daysUntilExpiry = po.expiresAt
+    ? Math.ceil((po.expiresAt.getTime() - now.getTime()) / (24 * 60 * 60 * 1000))
+    : null;
+  const isExpired = po.expiresAt !== null && po.expiresAt.getTime() < now.getTime();
+
+  const warnings: string[] = [];
+  if (remaining <= AMOUNT_TOLERANCE) {
+    warnings.push('Ceiling fully consumed - no further releases can be drawn');
+  } else if (percentConsumed >= BLANKET_CEILING_WARNING_PERCENT) {
+    warnings.push(`${percentConsumed.toFixed(0)}% of the ceiling has been consumed ($${remaining.toFixed(2)} remaining)`);
+  }
+  if (isExpired) {
+    warnings.push('Blanket PO has expired - no further releases can be drawn');
+  } else if (daysUntilExpiry !== null && daysUntilExpiry <= BLANKET_EXPIRY_WARNING_DAYS) {
+    warnings.push(`Expires in ${daysUntilExpiry} day${daysUntilExpiry === 1 ? '' : 's'}`);
+  }
+
+  return {
+    ceiling,
+    consumed,
+    remaining,
+    percentConsumed,
+    expiresAt: po.expiresAt,
+    daysUntilExpiry,
+    isExpired,
+    warnings,
+  };
+}
+
+/**
+ * Check that a release can be drawn from a blanket PO.
+ * Returns an error message, or null if the release is allowed.
+ */
+export function validateRelease(blanket: BlanketPO, lines: ReleaseLine[], now: Date = new Date()): string | null {
+  if (blanket.type !== 'BLANKET') {
+    return 'Releases can only be drawn from blanket purchase orders';
+  }
+  if (blanket.status !== 'APPROVED') {
+    return 'Releases can only be drawn from APPROVED blanket purchase orders';
+  }
+  if (blanket.expiresAt && blanket.expiresAt.getTime() < now.getTime()) {
+    return 'Blanket purchase order has expired';
+  }
+
+  const requested = new Map<string, number>();
+  for (const line of lines) {
+    requested.set(line.budgetItemId, (requested.get(line.budgetItemId) || 0) + line.amount);
+  }
+
+  for (const [budgetItemId, amount] of requested.entries()) {
+    const blanketLines = blanket.lineItems.filter((li) => li.budgetItemId === budgetItemId);
+    if (blanketLines.length === 0) {
+      return 'Release line items must use a budget item covered by the blanket purchase order';
+    }
+    const remaining = blanketLines.reduce((sum, li) => sum + li.amount - li.releasedAmount, 0);
+    if (amount > remaining + AMOUNT_TOLERANCE) {
+      return `Release exceeds the remaining blanket amount for this budget item ($${remaining.toFixed(2)})`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Draw release amounts down from (direction 1) or return them to
+ * (direction -1) a blanket PO.
+ *
+ * The blanket's encumbrance is adjusted through updateBudgetFromPO: its
+ * effect is released, the drawn-down amounts are updated, and the effect is
+ * booked again in the blanket's current status.
+ */
+export async function adjustBlanketDrawdown(
+  blanketPoId: string,
+  lines: ReleaseLine[],
+  direction: 1 | -1,
+  tx: PrismaTransactionClient
+) {
+  const blanket = await tx.purchaseOrder.findUnique({
+    where: { id: blanketPoId },
+    include: { lineItems: { orderBy: { id: 'asc' } } },
+  });
+
+  if (!blanket) {
+    throw new Error('Blanket purchase order not found');
+  }
+
+  await updateBudgetFromPO(blanket.id, blanket.status, 'CANCELLED', tx);
+
+  const released = new Map(blanket.lineItems.map((li) => [li.id, li.releasedAmount]));
+
+  for (const line of lines) {
+    let outstanding = line.amount;
+    const blanketLines = blanket.lineItems.filter((li) => li.budgetItemId === line.budgetItemId);
+    if (direction === -1) blanketLines.reverse();
+
+    for (const blanketLine of blanketLines) {
+      if (outstanding <= 0) break;
+      const current = released.get(blanketLine.id) || 0;
+      const available = direction === 1 ? blanketLine.amount - current : current;
+      const portion = Math.min(outstanding, Math.max(available, 0));
+      released.set(blanketLine.id, current + direction * portion);
+      outstanding -= portion;
+    }
+
+    // Any remainder (e.g. rounding) goes to the first matching line
+    if (outstanding > 0 && blanketLines.length > 0) {
+      const first = blanketLines[0];
+      released.set(first.id, (released.get(first.id) || 0) + direction * outstanding);
+    }
+  }
+
+  for (const lineItem of blanket.lineItems) {
+    const releasedAmount = released.get(lineItem.id) || 0;
+    if (releasedAmount !== lineItem.releasedAmount) {
+      // Only write over the amount read above; anything else means another release got there first
+      const { count } = await tx.pOLineItem.updateMany({
+        where: { id: lineItem.id, releasedAmount: lineItem.releasedAmount },
+        data: { releasedAmount: Math.max(releasedAmount, 0) },
+      });
+      if (count === 0) {
+        throw new BlanketDrawdownError('The blanket purchase order changed while this release was being drawn');
+      }
+    }
+  }
+
+  await updateBudgetFromPO(blanket.id, 'CANCELLED', blanket.status, tx);
+}
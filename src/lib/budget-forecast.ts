@@ -0,0 +1,266 @@
+import { prisma } from './prisma';
+import { getFiscalYearStarts } from './budget-phasing';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Lines projected to use this share of their budget are worth watching
+export const FORECAST_WATCH_PERCENT = 90;
+
+export type ForecastStatus = 'ON_TRACK' | 'WATCH' | 'OVER';
+
+type ForecastFigures = {
+  budgetAmount: number;
+  actualSpent: number;
+  encumbered: number;
+  monthlyRunRate: number;
+  projectedRunRateSpend: number;
+  projectedYearEnd: number;
+  projectedVariance: number;
+  projectedPercent: number;
+  status: ForecastStatus;
+};
+
+export type ForecastLine = ForecastFigures & {
+  budgetItemId: string;
+  code: string;
+  description: string;
+  departmentName: string | null;
+  categoryName: string | null;
+};
+
+export type ForecastGroup = ForecastFigures & {
+  name: string;
+  lineCount: number;
+  // Category rollups only: receipts booked to the category outside of POs
+  receiptSpend?: number;
+};
+
+export type BudgetForecast = {
+  fiscalYear: number;
+  asOf: Date;
+  startDate: Date;
+  endDate: Date;
+  elapsedPercent: number;
+  summary: ForecastFigures;
+  lines: ForecastLine[];
+  departments: ForecastGroup[];
+  categories: ForecastGroup[];
+};
+
+type Totals = {
+  budgetAmount: number;
+  actualSpent: number;
+  encumbered: number;
+  // Dated spend between the start of the year and the forecast date
+  spendToDate: number;
+};
+
+function getStatus(budgetAmount: number, projectedYearEnd: number): ForecastStatus {
+  if (projectedYearEnd > budgetAmount + 0.005) return 'OVER';
+  if (budgetAmount > 0 && (projectedYearEnd / budgetAmount) * 100 >= FORECAST_WATCH_PERCENT) return 'WATCH';
+  return 'ON_TRACK';
+}
+
+/**
+ * Project year-end spend: what has been spent, plus open commitments,
+ * plus the run rate so far carried through the rest of the year
+ */
+function project(totals: Totals, elapsedDays: number, remainingDays: number, yearDays: number): ForecastFigures {
+  const dailyRunRate = elapsedDays > 0 ? totals.spendToDate / elapsedDays : 0;
+  const projectedRunRateSpend = dailyRunRate * remainingDays;
+  const projectedYearEnd = totals.actualSpent + totals.encumbered + projectedRunRateSpend;
+
+  return {
+    budgetAmount: totals.budgetAmount,
+    actualSpent: totals.actualSpent,
+    encumbered: totals.encumbered,
+    monthlyRunRate: dailyRunRate * (yearDays / 12),
+    projectedRunRateSpend,
+    projectedYearEnd,
+    projectedVariance: totals.budgetAmount - projectedYearEnd,
+    projectedPercent: totals.budgetAmount > 0 ? (projectedYearEnd / totals.budgetAmount) * 100 : 0,
+    status: getStatus(totals.budgetAmount, projectedYearEnd),
+  };
+}
+
+function addTotals(target: Totals, source: Totals) {
+  target.budgetAmount += source.budgetAmount;
+  target.actualSpent += source.actualSpent;
+  target.encumbered += source.encumbered;
+  target.spendToDate += source.spendToDate;
+}
+
+function emptyTotals(): Totals {
+  return { budgetAmount: 0, actualSpent: 0, encumbered: 0, spendToDate: 0 };
+}
+
+/**
+ * Start and end of a fiscal year, from its FiscalYear record when one exists
+ */
+async function getFiscalYearRange(fiscalYear: number): Promise<{ startDate: Date; endDate: Date }> {
+  const record = await prisma.fiscalYear.findUnique({
+    where: { year: fiscalYear },
+    select: { startDate: true, endDate: true },
+  });
+  if (record) {
+    return { startDate: record.startDate, endDate: record.endDate };
+  }
+
+  const startDate = (await getFiscalYearStarts([fiscalYear])).get(fiscalYear)!;
+  const endDate = new Date(startDate.getFullYear(), startDate.getMonth() + 12, 1);
+  endDate.setTime(endDate.getTime() - 1);
+  return { startDate, endDate };
+}
+
+/**
+ * Build the year-end forecast for every active budget line in a fiscal year,
+ * rolled up by department and category.
+ *
+ * The run rate comes from dated spend: PO receiving entries, the completion
+ * date of POs closed without receiving, and labor cost posted to payroll
+ * lines (dated by the end of the pay period), matching what
+ * recalculateAllBudgets books as actuals. Category rollups also include
+ * receipts booked to the category that are not tied to a PO.
+ */
+export async function getBudgetForecast(fiscalYear: number, asOf: Date = new Date()): Promise<BudgetForecast> {
+  const { startDate, endDate } = await getFiscalYearRange(fiscalYear);
+
+  const effectiveDate = new Date(Math.min(Math.max(asOf.getTime(), startDate.getTime()), endDate.getTime()));
+  const yearDays = Math.max((endDate.getTime() - startDate.getTime()) / DAY_MS, 1);
+  const elapsedDays = (effectiveDate.getTime() - startDate.getTime()) / DAY_MS;
+  const remainingDays = Math.max(yearDays - elapsedDays, 0);
+
+  const budgetItems = await prisma.budgetItem.findMany({
+    where: { fiscalYear, isActive: true },
+    include: {
+      department: { select: { id: true, name: true } },
+      category: { select: { id: true, name: true } },
+    },
+    orderBy: { code: 'asc' },
+  });
+  const budgetItemIds = budgetItems.map((item) => item.id);
+
+  const [receivingEntries, completedLines, laborPostings, receipts] = await Promise.all([
+    prisma.pOReceivingEntry.findMany({
+      where: {
+        receivedAt: { gte: startDate, lte: effectiveDate },
+        lineItem: { budgetItemId: { in: budgetItemIds } },
+        purchaseOrder: { status: { not: 'CANCELLED' } },
+      },
+      select: { amount: true, lineItem: { select: { budgetItemId: true } } },
+    }),
+    // POs completed without any receiving entries book their full amount on completion
+    prisma.pOLineItem.findMany({
+      where: {
+        budgetItemId: { in: budgetItemIds },
+        purchaseOrder: {
+          status: 'COMPLETED',
+          type: { not: 'BLANKET' },
+          completedAt: { gte: startDate, lte: effectiveDate },
+          receivingEntries: { none: {} },
+        },
+      },
+      select: { amount: true, budgetItemId: true },
+    }),
+    prisma.laborCostPosting.findMany({
+      where: {
+        budgetItemId: { in: budgetItemIds },
+        periodEnd: { gte: startDate, lte: effectiveDate },
+      },
+      select: { amount: true, budgetItemId: true },
+    }),
+    prisma.receipt.findMany({
+      where: {
+        status: { in: ['COMPLETED', 'REVIEWED'] },
+        purchaseOrderId: null,
+        budgetCategoryId: { not: null },
+        receiptDate: { gte: startDate, lte: effectiveDate },
+      },
+      select: { totalAmount: true, budgetCategoryId: true, budgetCategory: { select: { name: true } } },
+    }),
+  ]);
+
+  const spendByItem = new Map<string, number>();
+  for (const entry of receivingEntries) {
+    const id = entry.lineItem.budgetItemId;
+    spendByItem.set(id, (spendByItem.get(id) || 0) + entry.amount);
+  }
+  for (const line of [...completedLines, ...laborPostings]) {
+    spendByItem.set(line.budgetItemId, (spendByItem.get(line.budgetItemId) || 0) + line.amount);
+  }
+
+  const overall = emptyTotals();
+  const departmentTotals = new Map<string, { totals: Totals; lineCount: number }>();
+  const categoryTotals = new Map<string, { totals: Totals; lineCount: number; receiptSpend: number }>();
+
+  const lines: ForecastLine[] = budgetItems.map((item) => {
+    const totals: Totals = {
+      budgetAmount: item.budgetAmount,
+      actualSpent: item.actualSpent,
+      encumbered: item.encumbered,
+      spendToDate: spendByItem.get(item.id) || 0,
+    };
+
+    addTotals(overall, totals);
+
+    const departmentName = item.department?.name || 'No Department';
+    const department = departmentTotals.get(departmentName) || { totals: emptyTotals(), lineCount: 0 };
+    addTotals(department.totals, totals);
+    department.lineCount += 1;
+    departmentTotals.set(departmentName, department);
+
+    const categoryName = item.category?.name || 'Uncategorized';
+    const category = categoryTotals.get(categoryName) || { totals: emptyTotals(), lineCount: 0, receiptSpend: 0 };
+    addTotals(category.totals, totals);
+    category.lineCount += 1;
+    categoryTotals.set(categoryName, category);
+
+    return {
+      budgetItemId: item.id,
+      code: item.code,
+      description: item.description,
+      departmentName: item.department?.name || null,
+      categoryName: item.category?.name || null,
+      ...project(totals, elapsedDays, remainingDays, yearDays),
+    };
+  });
+
+  for (const receipt of receipts) {
+    const amount = receipt.totalAmount || 0;
+    const categoryName = receipt.budgetCategory?.name || 'Uncategorized';
+    const category = categoryTotals.get(categoryName) || { totals: emptyTotals(), lineCount: 0, receiptSpend: 0 };
+    category.totals.actualSpent += amount;
+    category.totals.spendToDate += amount;
+    category.receiptSpend += amount;
+    categoryTotals.set(categoryName, category);
+  }
+
+  const departments: ForecastGroup[] = Array.from(departmentTotals.entries())
+    .map(([name, group]) => ({
+      name,
+      lineCount: group.lineCount,
+      ...project(group.totals, elapsedDays, remainingDays, yearDays),
+    }))
+    .sort((a, b) => a.projectedVariance - b.projectedVariance);
+
+  const categories: ForecastGroup[] = Array.from(categoryTotals.entries())
+    .map(([name, group]) => ({
+      name,
+      lineCount: group.lineCount,
+      receiptSpend: group.receiptSpend,
+      ...project(group.totals, elapsedDays, remainingDays, yearDays),
+    }))
+    .sort((a, b) => a.projectedVariance - b.projectedVariance);
+
+  return {
+    fiscalYear,
+    asOf: effectiveDate,
+    startDate,
+    endDate,
+    elapsedPercent: (elapsedDays / yearDays) * 100,
+    summary: project(overall, elapsedDays, remainingDays, yearDays),
+    lines,
+    departments,
+    categories,
+  };
+}
@@ -0,0 +1,178 @@
+import { prisma } from './prisma';
+import { getSettings } from './settings';
+
+// Allow for floating point noise when comparing amounts
+const AMOUNT_TOLERANCE = 0.005;
+
+export type PhasingMethod = 'EVEN' | 'CUSTOM';
+
+// Number of budget periods in a fiscal year for each accrual type
+export const PERIODS_PER_YEAR: Record<string, number> = {
+  ANNUAL: 1,
+  QUARTERLY: 4,
+  MONTHLY: 12,
+};
+
+export type PhasedBudgetItem = {
+  budgetAmount: number;
+  accrualType: string;
+  phasing: string;
+  phasingSchedule: string | null;
+};
+
+export type YearToDateVariance = {
+  ytdBudget: number;
+  ytdActual: number;
+  ytdVariance: number;
+  ytdVariancePercent: number;
+};
+
+function getPeriodCount(accrualType: string): number {
+  return PERIODS_PER_YEAR[accrualType] || 1;
+}
+
+/**
+ * Parse a stored custom schedule (JSON array of per-period amounts)
+ */
+export function parsePhasingSchedule(schedule: string | null): number[] | null {
+  if (!schedule) return null;
+  try {
+    const parsed = JSON.parse(schedule);
+    if (Array.isArray(parsed) && parsed.every((amount) => typeof amount === 'number' && isFinite(amount))) {
+      return parsed;
+    }
+  } catch {
+    // Fall through to even phasing
+  }
+  return null;
+}
+
+/**
+ * Check a phasing setup before it is saved.
+ * Returns an error message, or null if it is valid.
+ */
+export function validatePhasing(
+  accrualType: string,
+  phasing: string,
+  schedule: number[] | null | undefined,
+  budgetAmount: number
+): string | null {
+  if (phasing !== 'EVEN' && phasing !== 'CUSTOM') {
+    return 'Phasing must be EVEN or CUSTOM';
+  }
+  if (phasing === 'EVEN') return null;
+
+  if (accrualType === 'ANNUAL') {
+    return 'Custom phasing requires a MONTHLY or QUARTERLY accrual type';
+  }
+
+  const periods = getPeriodCount(accrualType);
+  if (!schedule || schedule.length !== periods) {
+    return `Custom phasing needs ${periods} period amounts`;
+  }
+  if (schedule.some((amount) => typeof amount !== 'number' || !isFinite(amount) || amount < 0)) {
+    return 'Period amounts must be zero or more';
+  }
+
+  const total = schedule.reduce((sum, amount) => sum + amount, 0);
+  if (Math.abs(total - budgetAmount) > AMOUNT_TOLERANCE) {
+    return `Period amounts total $${total.toFixed(2)} but the budget is $${budgetAmount.toFixed(2)}`;
+  }
+
+  return null;
+}
+
+/**
+ * Budget amount for each period of the fiscal year.
+ *
+ * A custom schedule is treated as a shape: if amendments have since changed
+ * the budget, the schedule is scaled so the periods still add up to it.
+ */
+export function getPhasedAmounts(item: PhasedBudgetItem): number[] {
+  const periods = getPeriodCount(item.accrualType);
+  const schedule = item.phasing === 'CUSTOM' ? parsePhasingSchedule(item.phasingSchedule) : null;
+
+  if (schedule && schedule.length === periods) {
+    const total = schedule.reduce((sum, amount) => sum + amount, 0);
+    if (total > 0) {
+      return schedule.map((amount) => (amount / total) * item.budgetAmount);
+    }
+  }
+
+  return Array(periods).fill(item.budgetAmount / periods);
+}
+
+/**
+ * Number of periods that have started by `asOf` (the current period counts)
+ */
+export function getPeriodsElapsed(accrualType: string, fiscalYearStart: Date, asOf: Date): number {
+  const monthsElapsed =
+    (asOf.getFullYear() - fiscalYearStart.getFullYear()) * 12 +
+    (asOf.getMonth() - fiscalYearStart.getMonth()) +
+    1;
+  const months = Math.min(Math.max(monthsElapsed, 0), 12);
+  const periods = getPeriodCount(accrualType);
+
+  return Math.ceil((months / 12) * periods);
+}
+
+/**
+ * Phased budget released from the start of the fiscal year through the
+ * period containing `asOf`. ANNUAL items release their full budget up front.
+ */
+export function getPhasedBudgetToDate(
+  item: PhasedBudgetItem,
+  fiscalYearStart: Date,
+  asOf: Date = new Date()
+): number {
+  if (item.accrualType === 'ANNUAL') {
+    return item.budgetAmount;
+  }
+
+  const elapsed = getPeriodsElapsed(item.accrualType, fiscalYearStart, asOf);
+  return getPhasedAmounts(item)
+    .slice(0, elapsed)
+    .reduce((sum, amount) => sum + amount, 0);
+}
+
+/**
+ * Year-to-date variance: phased budget to date less actual spend to date.
+ * Negative values mean the line is running ahead of its phasing.
+ */
+export function getYearToDateVariance(
+  item: PhasedBudgetItem & { actualSpent: number },
+  fiscalYearStart: Date,
+  asOf: Date = new Date()
+): YearToDateVariance {
+  const ytdBudget = getPhasedBudgetToDate(item, fiscalYearStart, asOf);
+  const ytdActual = item.actualSpent;
+  const ytdVariance = ytdBudget - ytdActual;
+
+  return {
+    ytdBudget,
+    ytdActual,
+    ytdVariance,
+    ytdVariancePercent: ytdBudget > 0 ? (ytdVariance / ytdBudget) * 100 : ytdActual > 0 ? -100 : 0,
+  };
+}
+
+/**
+ * Start date of each fiscal year. Uses the FiscalYear record when one exists,
+ * otherwise the configured start month in the calendar year of the same number.
+ */
+export async function getFiscalYearStarts(years: number[]): Promise<Map<number, Date>> {
+  const uniqueYears = Array.from(new Set(years));
+  const records = await prisma.fiscalYear.findMany({
+    where: { year: { in: uniqueYears } },
+    select: { year: true, startDate: true },
+  });
+
+  const startMonth = getSettings().fiscalYear?.startMonth || 1;
+  const starts = new Map<number, Date>();
+  for (const year of uniqueYears) {
+    const record = records.find((fy) => fy.year === year);
+    starts.set(year, record ? record.startDate : new Date(year, startMonth - 1, 1));
+  }
+
+  return starts;
+}
@@ -0,0 +1,189 @@
+import { prisma } from './prisma';
+import { PrismaClient } from '@prisma/client';
+
+type PrismaTransactionClient = Parameters<Parameters<PrismaClient['$transaction']>[0]>[0];
+type PrismaLike = PrismaClient | PrismaTransactionClient;
+
+// Allow for floating point noise when comparing amounts
+const AMOUNT_TOLERANCE = 0.005;
+
+export type OverdraftPolicy = 'WARN' | 'BLOCK' | 'OVERRIDE';
+
+export const OVERDRAFT_POLICIES: OverdraftPolicy[] = ['WARN', 'BLOCK', 'OVERRIDE'];
+
+// Used when neither the category nor the fiscal year sets a policy
+const DEFAULT_OVERDRAFT_POLICY: OverdraftPolicy = 'WARN';
+
+export type BudgetOverdraft = {
+  budgetItemId: string;
+  code: string;
+  description: string;
+  policy: OverdraftPolicy;
+  requested: number;
+  available: number;
+  overdraft: number;
+  // An existing override on this PO already covers the overdraft
+  overridden: boolean;
+};
+
+export type BudgetPolicyResult = {
+  overdrafts: BudgetOverdraft[];
+  blocked: BudgetOverdraft[];
+  needsOverride: BudgetOverdraft[];
+  warnings: string[];
+};
+
+/**
+ * Raised when line items would overdraw a budget line beyond what its
+ * overdraft policy allows
+ */
+export class BudgetPolicyError extends Error {
+  overdrafts: BudgetOverdraft[];
+  requiresOverride: boolean;
+
+  constructor(message: string, overdrafts: BudgetOverdraft[], requiresOverride: boolean) {
+    super(message);
+    this.name = 'BudgetPolicyError';
+    this.overdrafts = overdrafts;
+    this.requiresOverride = requiresOverride;
+  }
+}
+
+export function isOverdraftPolicy(value: unknown): value is OverdraftPolicy {
+  return typeof value === 'string' && (OVERDRAFT_POLICIES as string[]).includes(value);
+}
+
+export function formatOverdraft(overdraft: BudgetOverdraft): string {
+  return `${overdraft.code} - ${overdraft.description}: $${overdraft.requested.toFixed(2)} requested, $${overdraft.available.toFixed(2)} available`;
+}
+
+/**
+ * Resolve the overdraft policy for a budget line.
+ * The nearest category (walking up the hierarchy) with a policy wins,
+ * then the fiscal year's policy, then the default.
+ */
+function resolvePolicy(
+  categoryId: string | null,
+  fiscalYear: number,
+  categories: Map<string, { parentId: string | null; overdraftPolicy: string | null }>,
+  fiscalYearPolicies: Map<number, string>
+): OverdraftPolicy {
+  const visited = new Set<string>();
+  let id = categoryId;
+
+  while (id && !visited.has(id)) {
+    visited.add(id);
+    const category = categories.get(id);
+    if (!category) break;
+    if (isOverdraftPolicy(category.overdraftPolicy)) {
+      return category.overdraftPolicy;
+    }
+    id = category.parentId;
+  }
+
+  const yearPolicy = fiscalYearPolicies.get(fiscalYear);
+  return isOverdraftPolicy(yearPolicy) ? yearPolicy : DEFAULT_OVERDRAFT_POLICY;
+}
+
+/**
+ * Check a PO's line items against remaining budget and the overdraft policy
+ * that applies to each budget line. Must be called before the PO's own
+ * amounts are encumbered.
+ */
+export async function checkBudgetPolicy(
+  purchaseOrderId: string,
+  db: PrismaLike = prisma
+): Promise<BudgetPolicyResult> {
+  const lineItems = await db.pOLineItem.findMany({
+    where: { purchaseOrderId },
+    include: { budgetItem: true },
+  });
+
+  // Several lines can draw on the same budget item
+  const requestedByItem = new Map<string, number>();
+  for (const lineItem of lineItems) {
+    requestedByItem.set(
+      lineItem.budgetItemId,
+      (requestedByItem.get(lineItem.budgetItemId) || 0) + lineItem.amount
+    );
+  }
+
+  const budgetItems = new Map(lineItems.map((lineItem) => [lineItem.budgetItemId, lineItem.budgetItem]));
+
+  const [categories, fiscalYears, overrides] = await Promise.all([
+    db.budgetCategory.findMany({ select: { id: true, parentId: true, overdraftPolicy: true } }),
+    db.fiscalYear.findMany({
+      where: { year: { in: Array.from(new Set(lineItems.map((li) => li.budgetItem.fiscalYear))) } },
+      select: { year: true, overdraftPolicy: true },
+    }),
+    db.budgetOverride.findMany({ where: { purchaseOrderId } }),
+  ]);
+
+  const categoryMap = new Map(categories.map((category) => [category.id, category]));
+  const fiscalYearPolicies = new Map(fiscalYears.map((fy) => [fy.year, fy.overdraftPolicy]));
+
+  const result: BudgetPolicyResult = { overdrafts: [], blocked: [], needsOverride: [], warnings: [] };
+
+  for (const [budgetItemId, requested] of requestedByItem.entries()) {
+    const budgetItem = budgetItems.get(budgetItemId);
+    if (!budgetItem) continue;
+
+    const available = budgetItem.budgetAmount - budgetItem.encumbered - budgetItem.actualSpent;
+    const overdraft = requested - available;
+    if (overdraft <= AMOUNT_TOLERANCE) continue;
+
+    const policy = resolvePolicy(budgetItem.categoryId, budgetItem.fiscalYear, categoryMap, fiscalYearPolicies);
+    const overridden = overrides.some(
+      (override) =>
+        override.budgetItemId === budgetItemId &&
+        override.overdraftAmount + AMOUNT_TOLERANCE >= overdraft
+    );
+
+    const entry: BudgetOverdraft = {
+      budgetItemId,
+      code: budgetItem.code,
+      description: budgetItem.description,
+      policy,
+      requested,
+      available,
+      overdraft,
+      overridden,
+    };
+
+    result.overdrafts.push(entry);
+    if (policy === 'BLOCK') {
+      result.blocked.push(entry);
+    } else if (policy === 'OVERRIDE' && !overridden) {
+      result.needsOverride.push(entry);
+    } else {
+      result.warnings.push(`Over budget: ${formatOverdraft(entry)}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Record overrides for the overdrawn lines of a PO
+ */
+export async function recordBudgetOverrides(
+  purchaseOrderId: string,
+  overdrafts: BudgetOverdraft[],
+  justification: string,
+  overriddenById: string,
+  tx: PrismaTransactionClient
+) {
+  for (const overdraft of overdrafts) {
+    await tx.budgetOverride.create({
+      data: {
+        purchaseOrderId,
+        budgetItemId: overdraft.budgetItemId,
+        requestedAmount: overdraft.requested,
+        availableAmount: overdraft.available,
+        overdraftAmount: overdraft.overdraft,
+        justification,
+        overriddenById,
+      },
+    });
+  }
+}
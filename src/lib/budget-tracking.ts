@@ -4,6 +4,9 @@ import { PrismaClient, POStatus } from '@prisma/client';
 type PrismaTransactionClient = Parameters<Parameters<PrismaClient['$transaction']>[0]>[0];
 type PrismaLike = PrismaClient | PrismaTransactionClient;
 
+// Allow for floating point noise when comparing received vs ordered amounts
+const RECEIVED_TOLERANCE = 0.005;
+
 /**
  * Update budget item encumbered and actualSpent amounts based on PO status
  * This is called whenever a PO status changes.
@@ -33,17 +36,56 @@ export async function updateBudgetFromPO(
     throw new Error('Purchase order not found');
   }
 
+  const context: BudgetEffectContext = {
+    hasReceipts: po.lineItems.some((lineItem) => lineItem.receivedAmount > 0),
+    isBlanket: po.type === 'BLANKET',
+  };
+
   // Group line items by budget item
-  const budgetItemGroups = new Map<string, number>();
+  const budgetItemGroups = new Map<string, LineTotals>();
   for (const lineItem of po.lineItems) {
-    const currentAmount = budgetItemGroups.get(lineItem.budgetItemId) || 0;
-    budgetItemGroups.set(lineItem.budgetItemId, currentAmount + lineItem.amount);
+    const current = budgetItemGroups.get(lineItem.budgetItemId) || { amount: 0, received: 0, released: 0 };
+    current.amount += lineItem.amount;
+    current.received += lineItem.receivedAmount;
+    current.released += lineItem.releasedAmount;
+    budgetItemGroups.set(lineItem.budgetItemId, current);
   }
 
   // Update each affected budget item
-  for (const [budgetItemId, amount] of budgetItemGroups.entries()) {
-    await updateBudgetItem(db, budgetItemId, amount, oldStatus, newStatus);
+  for (const [budgetItemId, totals] of budgetItemGroups.entries()) {
+    await updateBudgetItem(db, budgetItemId, totals, context, oldStatus, newStatus);
+  }
+}
+
+type LineTotals = { amount: number; received: number; released: number };
+type BudgetEffectContext = { hasReceipts: boolean; isBlanket: boolean };
+
+/**
+ * Budget effect of PO line amounts in a given status.
+ * Open POs encumber whatever has not been received (or, for blanket POs,
+ * drawn down by releases) and book the received portion as actuals.
+ * A completed PO books only what was received; POs completed without any
+ * receiving entries are treated as received in full. Closing a blanket PO
+ * books nothing - its releases carry the spend.
+ */
+function getBudgetEffect(
+  status: POStatus | null,
+  totals: LineTotals,
+  context: BudgetEffectContext
+): { encumbered: number; actualSpent: number } {
+  if (status === 'APPROVED' || status === 'PARTIALLY_RECEIVED') {
+    return {
+      encumbered: totals.amount - totals.received - totals.released,
+      actualSpent: totals.received,
+    };
+  }
+  if (status === 'COMPLETED') {
+    if (context.isBlanket) {
+      return { encumbered: 0, actualSpent: 0 };
+    }
+    return { encumbered: 0, actualSpent: context.hasReceipts ? totals.received : totals.amount };
   }
+  return { encumbered: 0, actualSpent: 0 };
 }
 
 /**
@@ -53,41 +95,17 @@ export async function updateBudgetFromPO(
 async function updateBudgetItem(
   db: PrismaLike,
   budgetItemId: string,
-  amount: number,
+  totals: LineTotals,
+  context: BudgetEffectContext,
   oldStatus: POStatus | null,
   newStatus: POStatus
 ) {
-  let encumberedDelta = 0;
-  let actualSpentDelta = 0;
-
-  // Calculate changes based on status transition
-  if (oldStatus === null) {
-    // New PO being created
-    if (newStatus === 'APPROVED') {
-      encumberedDelta = amount;
-    } else if (newStatus === 'COMPLETED') {
-      actualSpentDelta = amount;
-    }
-  } else {
-    // Status change on existing PO
-    // First, remove the effect of the old status
-    if (oldStatus === 'APPROVED') {
-      encumberedDelta -= amount;
-    } else if (oldStatus === 'COMPLETED') {
-      actualSpentDelta -= amount;
-    }
+  // Remove the effect of the old status, then add the effect of the new one
+  const before = getBudgetEffect(oldStatus, totals, context);
+  const after = getBudgetEffect(newStatus, totals, context);
 
-    // Then, add the effect of the new status
-    if (newStatus === 'APPROVED') {
-      encumberedDelta += amount;
-    } else if (newStatus === 'COMPLETED') {
-      // When completing, move from encumbered to actualSpent
-      encumberedDelta -= amount;
-      actualSpentDelta += amount;
-    } else if (newStatus === 'CANCELLED') {
-      // Releasing funds - already handled by removing old status effect
-    }
-  }
+  const encumberedDelta = after.encumbered - before.encumbered;
+  const actualSpentDelta = after.actualSpent - before.actualSpent;
 
   // Skip update if no changes
   if (encumberedDelta === 0 && actualSpentDelta === 0) {
@@ -104,6 +122,40 @@ async function updateBudgetItem(
   });
 }
 
+/**
+ * Whether every line of a PO has been received in full
+ */
+export function isFullyReceived(lineItems: { amount: number; receivedAmount: number }[]): boolean {
+  return (
+    lineItems.length > 0 &&
+    lineItems.every((lineItem) => lineItem.receivedAmount + RECEIVED_TOLERANCE >= lineItem.amount)
+  );
+}
+
+/**
+ * Move a received amount from encumbered to actualSpent on a budget item.
+ * Called when goods are received against an open (approved) PO.
+ */
+export async function recordReceivedAmount(
+  budgetItemId: string,
+  amount: number,
+  tx?: PrismaTransactionClient
+) {
+  const db: PrismaLike = tx || prisma;
+
+  if (amount === 0) {
+    return;
+  }
+
+  await db.budgetItem.update({
+    where: { id: budgetItemId },
+    data: {
+      encumbered: { decrement: amount },
+      actualSpent: { increment: amount },
+    },
+  });
+}
+
 /**
  * Recalculate all budget item encumbered and actualSpent from scratch
  * Useful for data fixes or migrations
@@ -120,17 +172,9 @@ export async function recalculateAllBudgets(fiscalYear?: number) {
     },
   });
 
-  // Get all APPROVED POs
-  const approvedPOs = await prisma.purchaseOrder.findMany({
-    where: { status: 'APPROVED' },
-    include: {
-      lineItems: true,
-    },
-  });
-
-  // Get all COMPLETED POs
-  const completedPOs = await prisma.purchaseOrder.findMany({
-    where: { status: 'COMPLETED' },
+  // Get all open (APPROVED / PARTIALLY_RECEIVED) and COMPLETED POs
+  const pos = await prisma.purchaseOrder.findMany({
+    where: { status: { in: ['APPROVED', 'PARTIALLY_RECEIVED', 'COMPLETED'] } },
     include: {
       lineItems: true,
     },
@@ -142,28 +186,44 @@ export async function recalculateAllBudgets(fiscalYear?: number) {
     { encumbered: number; actualSpent: number }
   >();
 
-  // Process APPROVED POs (encumbered)
-  for (const po of approvedPOs) {
+  for (const po of pos) {
+    const context: BudgetEffectContext = {
+      hasReceipts: po.lineItems.some((lineItem) => lineItem.receivedAmount > 0),
+      isBlanket: po.type === 'BLANKET',
+    };
+
     for (const lineItem of po.lineItems) {
       const current = budgetTotals.get(lineItem.budgetItemId) || {
         encumbered: 0,
         actualSpent: 0,
       };
-      current.encumbered += lineItem.amount;
+      const effect = getBudgetEffect(
+        po.status,
+        {
+          amount: lineItem.amount,
+          received: lineItem.receivedAmount,
+          released: lineItem.releasedAmount,
+        },
+        context
+      );
+      current.encumbered += effect.encumbered;
+      current.actualSpent += effect.actualSpent;
       budgetTotals.set(lineItem.budgetItemId, current);
     }
   }
 
-  // Process COMPLETED POs (actualSpent)
-  for (const po of completedPOs) {
-    for (const lineItem of po.lineItems) {
-      const current = budgetTotals.get(lineItem.budgetItemId) || {
-        encumbered: 0,
-        actualSpent: 0,
-      };
-      current.actualSpent += lineItem.amount;
-      budgetTotals.set(lineItem.budgetItemId, current);
-    }
+  // Labor cost posted from the timeclock to payroll lines
+  const laborPostings = await prisma.laborCostPosting.findMany({
+    where: fiscalYear ? { budgetItem: { fiscalYear } } : {},
+    select: { budgetItemId: true, amount: true },
+  });
+  for (const posting of laborPostings) {
+    const current = budgetTotals.get(posting.budgetItemId) || {
+      encumbered: 0,
+      actualSpent: 0,
+    };
+    current.actualSpent += posting.amount;
+    budgetTotals.set(posting.budgetItemId, current);
   }
 
   // Update all affected budget items
@@ -179,7 +239,7 @@ export async function recalculateAllBudgets(fiscalYear?: number) {
 
   return {
     budgetItemsUpdated: budgetTotals.size,
-    approvedPOsProcessed: approvedPOs.length,
-    completedPOsProcessed: completedPOs.length,
+    approvedPOsProcessed: pos.filter((po) => po.status !== 'COMPLETED').length,
+    completedPOsProcessed: pos.filter((po) => po.status === 'COMPLETED').length,
   };
 }
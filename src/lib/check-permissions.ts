@@ -32,6 +32,7 @@ export type UserPermissions = {
     canManage?: boolean;
     canCreateAmendments?: boolean;
     canTransferFunds?: boolean;
+    canOverrideBudget?: boolean;
     canViewAllCategories?: boolean;
     canManageCategories?: boolean;
     canCloseFiscalYear?: boolean;
@@ -81,6 +82,13 @@ export type UserPermissions = {
     canDelete?: boolean;
     canMatch?: boolean;
   };
+  expenseReports?: {
+    canCreate?: boolean;
+    canViewDepartment?: boolean;
+    canViewAll?: boolean;
+    canApprove?: boolean;
+    canExport?: boolean;
+  };
 };
 
 /**
@@ -152,7 +160,7 @@ export function hasPermission(
  */
 export function canViewDepartmentData(
   permissions: UserPermissions,
-  section: 'purchaseOrders' | 'auditLog'
+  section: 'purchaseOrders' | 'expenseReports' | 'auditLog'
 ): boolean {
   if (permissions._isAdmin === true) {
     return true;
@@ -162,6 +170,10 @@ export function canViewDepartmentData(
     return permissions.purchaseOrders?.canViewDepartment === true;
   }
 
+  if (section === 'expenseReports') {
+    return permissions.expenseReports?.canViewDepartment === true;
+  }
+
   return false;
 }
 
@@ -170,7 +182,7 @@ export function canViewDepartmentData(
  */
 export function canViewAllData(
   permissions: UserPermissions,
-  section: 'purchaseOrders' | 'departments' | 'auditLog'
+  section: 'purchaseOrders' | 'expenseReports' | 'departments' | 'auditLog'
 ): boolean {
   if (permissions._isAdmin === true) {
     return true;
@@ -180,6 +192,10 @@ export function canViewAllData(
     return permissions.purchaseOrders?.canViewAll === true;
   }
 
+  if (section === 'expenseReports') {
+    return permissions.expenseReports?.canViewAll === true;
+  }
+
   if (section === 'departments') {
     return permissions.departments?.canViewAll === true;
   }
@@ -180,13 +180,15 @@ function validateBudgetItemRow(
   index: number,
   previousRows: ImportRow[],
 ) {
+  // Codes are unique within a fiscal year
   const code = row.code?.trim();
+  const year = row.fiscalYear?.trim();
   if (code) {
-    if (existingCodes.has(code)) {
-      errors.push(`Budget item code "${code}" already exists`);
+    if (existingCodes.has(`${code}|${year}`)) {
+      errors.push(`Budget item code "${code}" already exists for FY ${year}`);
     }
     const duplicate = previousRows.find(
-      (r) => r.valid && r.data.code?.trim() === code,
+      (r) => r.valid && r.data.code?.trim() === code && r.data.fiscalYear?.trim() === year,
     );
     if (duplicate) {
       errors.push(`Duplicate code in file (row ${duplicate.rowNumber})`);
@@ -220,8 +222,8 @@ async function fetchExistingData(entityType: ImportEntityType): Promise<Set<stri
       return new Set(vendors.map((v) => v.vendorNumber));
     }
     case 'budgetItems': {
-      const items = await prisma.budgetItem.findMany({ select: { code: true } });
-      return new Set(items.map((i) => i.code));
+      const items = await prisma.budgetItem.findMany({ select: { code: true, fiscalYear: true } });
+      return new Set(items.map((i) => `${i.code}|${i.fiscalYear}`));
     }
   }
 }
@@ -0,0 +1,288 @@
+import { prisma } from './prisma';
+import { PrismaClient } from '@prisma/client';
+
+type PrismaTransactionClient = Parameters<Parameters<PrismaClient['$transaction']>[0]>[0];
+type PrismaLike = PrismaClient | PrismaTransactionClient;
+
+// Allow for floating point noise when comparing amounts
+const AMOUNT_TOLERANCE = 0.005;
+
+export type TargetEnforcement = 'WARN' | 'BLOCK';
+
+export const TARGET_ENFORCEMENTS: TargetEnforcement[] = ['WARN', 'BLOCK'];
+
+export type DepartmentBudgetFigures = {
+  // Line budgets as first allocated, before amendments and transfers
+  original: number;
+  // Net change from amendments and transfers
+  amended: number;
+  // Current line budgets (original + amended)
+  allocated: number;
+  encumbered: number;
+  spent: number;
+};
+
+export type DepartmentBudgetNode = {
+  departmentId: string;
+  name: string;
+  parentId: string | null;
+  depth: number;
+  isActive: boolean;
+  lineCount: number;
+  target: number | null;
+  enforcement: TargetEnforcement;
+  // This department's own budget lines
+  own: DepartmentBudgetFigures;
+  // Own lines plus every descendant department's lines
+  rollup: DepartmentBudgetFigures;
+  // Rolled-up allocation minus target (positive = over target)
+  overTarget: number | null;
+  // Targets set on children, compared with this department's target
+  childTargets: number;
+};
+
+export type DepartmentTargetBreach = {
+  departmentId: string;
+  name: string;
+  enforcement: TargetEnforcement;
+  target: number;
+  allocated: number;
+  proposed: number;
+  excess: number;
+};
+
+export function isTargetEnforcement(value: unknown): value is TargetEnforcement {
+  return typeof value === 'string' && (TARGET_ENFORCEMENTS as string[]).includes(value);
+}
+
+export function formatTargetBreach(breach: DepartmentTargetBreach): string {
+  return `${breach.name}: $${breach.proposed.toFixed(2)} allocated against a $${breach.target.toFixed(2)} target`;
+}
+
+function emptyFigures(): DepartmentBudgetFigures {
+  return { original: 0, amended: 0, allocated: 0, encumbered: 0, spent: 0 };
+}
+
+function addFigures(target: DepartmentBudgetFigures, source: DepartmentBudgetFigures) {
+  target.original += source.original;
+  target.amended += source.amended;
+  target.allocated += source.allocated;
+  target.encumbered += source.encumbered;
+  target.spent += source.spent;
+}
+
+/**
+ * Walk from a department up through its parents, stopping on cycles
+ */
+function getAncestry(
+  departmentId: string,
+  parents: Map<string, string | null>
+): string[] {
+  const chain: string[] = [];
+  let id: string | null | undefined = departmentId;
+
+  while (id && !chain.includes(id)) {
+    chain.push(id);
+    id = parents.get(id);
+  }
+
+  return chain;
+}
+
+/**
+ * Sum of a department's budget lines, including every descendant department
+ */
+async function getRolledUpAllocations(fiscalYear: number, db: PrismaLike): Promise<Map<string, number>> {
+  const [departments, allocations] = await Promise.all([
+    db.department.findMany({ select: { id: true, parentId: true } }),
+    db.budgetItem.groupBy({
+      by: ['departmentId'],
+      where: { fiscalYear, isActive: true, departmentId: { not: null } },
+      _sum: { budgetAmount: true },
+    }),
+  ]);
+
+  const parents = new Map(departments.map((d) => [d.id, d.parentId]));
+  const rolledUp = new Map<string, number>();
+
+  for (const allocation of allocations) {
+    const amount = allocation._sum.budgetAmount || 0;
+    for (const id of getAncestry(allocation.departmentId!, parents)) {
+      rolledUp.set(id, (rolledUp.get(id) || 0) + amount);
+    }
+  }
+
+  return rolledUp;
+}
+
+/**
+ * Check proposed changes to line budgets against department targets.
+ * Each change counts against its department and every parent above it,
+ * so a transfer between two lines of the same branch nets out there.
+ */
+export async function checkDepartmentTargets(
+  fiscalYear: number,
+  changes: { departmentId: string | null; delta: number }[],
+  db: PrismaLike = prisma
+): Promise<DepartmentTargetBreach[]> {
+  const [departments, targets] = await Promise.all([
+    db.department.findMany({ select: { id: true, name: true, parentId: true } }),
+    db.departmentBudgetTarget.findMany({ where: { fiscalYear } }),
+  ]);
+
+  if (targets.length === 0) return [];
+
+  const parents = new Map(departments.map((d) => [d.id, d.parentId]));
+  const names = new Map(departments.map((d) => [d.id, d.name]));
+
+  const deltas = new Map<string, number>();
+  for (const change of changes) {
+    if (!change.departmentId) continue;
+    for (const id of getAncestry(change.departmentId, parents)) {
+      deltas.set(id, (deltas.get(id) || 0) + change.delta);
+    }
+  }
+
+  const allocations = await getRolledUpAllocations(fiscalYear, db);
+  const breaches: DepartmentTargetBreach[] = [];
+
+  for (const target of targets) {
+    const delta = deltas.get(target.departmentId) || 0;
+    // Reductions never make a department worse off
+    if (delta <= AMOUNT_TOLERANCE) continue;
+
+    const allocated = allocations.get(target.departmentId) || 0;
+    const proposed = allocated + delta;
+    const excess = proposed - target.targetAmount;
+    if (excess <= AMOUNT_TOLERANCE) continue;
+
+    breaches.push({
+      departmentId: target.departmentId,
+      name: names.get(target.departmentId) || 'Unknown department',
+      enforcement: isTargetEnforcement(target.enforcement) ? target.enforcement : 'WARN',
+      target: target.targetAmount,
+      allocated,
+      proposed,
+      excess,
+    });
+  }
+
+  return breaches;
+}
+
+/**
+ * Target vs allocated vs amended vs spent for every department in a fiscal
+ * year, in hierarchy order (each parent followed by its children), with
+ * figures rolled up from children to parents.
+ */
+export async function getDepartmentBudgetTree(fiscalYear: number): Promise<DepartmentBudgetNode[]> {
+  const [departments, targets, budgetItems, amendments] = await Promise.all([
+    prisma.department.findMany({
+      select: { id: true, name: true, parentId: true, isActive: true },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.departmentBudgetTarget.findMany({ where: { fiscalYear } }),
+    prisma.budgetItem.findMany({
+      where: { fiscalYear, isActive: true },
+      select: { id: true, departmentId: true, budgetAmount: true, encumbered: true, actualSpent: true },
+    }),
+    prisma.budgetAmendment.findMany({
+      where: { fiscalYear },
+      select: { budgetItemId: true, type: true, amount: true },
+    }),
+  ]);
+
+  const amendedByItem = new Map<string, number>();
+  for (const amendment of amendments) {
+    const sign = amendment.type === 'INCREASE' || amendment.type === 'TRANSFER_IN' ? 1 : -1;
+    amendedByItem.set(
+      amendment.budgetItemId,
+      (amendedByItem.get(amendment.budgetItemId) || 0) + sign * amendment.amount
+    );
+  }
+
+  const ownFigures = new Map<string, DepartmentBudgetFigures>();
+  const lineCounts = new Map<string, number>();
+  for (const item of budgetItems) {
+    if (!item.departmentId) continue;
+    const amended = amendedByItem.get(item.id) || 0;
+    const figures = ownFigures.get(item.departmentId) || emptyFigures();
+    addFigures(figures, {
+      original: item.budgetAmount - amended,
+      amended,
+      allocated: item.budgetAmount,
+      encumbered: item.encumbered,
+      spent: item.actualSpent,
+    });
+    ownFigures.set(item.departmentId, figures);
+    lineCounts.set(item.departmentId, (lineCounts.get(item.departmentId) || 0) + 1);
+  }
+
+  const parents = new Map(departments.map((d) => [d.id, d.parentId]));
+  const ids = new Set(departments.map((d) => d.id));
+  const targetMap = new Map(targets.map((t) => [t.departmentId, t]));
+
+  const rollups = new Map<string, DepartmentBudgetFigures>();
+  for (const department of departments) {
+    rollups.set(department.id, emptyFigures());
+  }
+  for (const [departmentId, figures] of ownFigures.entries()) {
+    for (const id of getAncestry(departmentId, parents)) {
+      const rollup = rollups.get(id);
+      if (rollup) addFigures(rollup, figures);
+    }
+  }
+
+  const children = new Map<string | null, typeof departments>();
+  for (const department of departments) {
+    // Departments whose parent is missing are shown at the top level
+    const parentId = department.parentId && ids.has(department.parentId) ? department.parentId : null;
+    const siblings = children.get(parentId) || [];
+    siblings.push(department);
+    children.set(parentId, siblings);
+  }
+
+  const nodes: DepartmentBudgetNode[] = [];
+  const visited = new Set<string>();
+
+  const visit = (parentId: string | null, depth: number) => {
+    for (const department of children.get(parentId) || []) {
+      if (visited.has(department.id)) continue;
+      visited.add(department.id);
+
+      const target = targetMap.get(department.id);
+      const rollup = rollups.get(department.id)!;
+
+      nodes.push({
+        departmentId: department.id,
+        name: department.name,
+        parentId: department.parentId,
+        depth,
+        isActive: department.isActive,
+        lineCount: lineCounts.get(department.id) || 0,
+        target: target ? target.targetAmount : null,
+        enforcement: target && isTargetEnforcement(target.enforcement) ? target.enforcement : 'WARN',
+        own: ownFigures.get(department.id) || emptyFigures(),
+        rollup,
+        overTarget: target ? rollup.allocated - target.targetAmount : null,
+        childTargets: (children.get(department.id) || []).reduce(
+          (sum, child) => sum + (targetMap.get(child.id)?.targetAmount || 0),
+          0
+        ),
+      });
+
+      visit(department.id, depth + 1);
+    }
+  };
+
+  visit(null, 0);
+
+  // Departments caught in a parent cycle never hang off the top level
+  for (const department of departments) {
+    if (!visited.has(department.id)) {
+      visit(department.parentId, 0);
+    }
+  }
+
+  return nodes;
+}
@@ -67,17 +67,19 @@ function getFromAddress(): string {
 }
 
 /**
- * Send an email (fire-and-forget, catches errors silently)
+ * Send an email (fire-and-forget, catches errors silently).
+ * Resolves to true if the message was handed to the mail provider.
  */
 export async function sendEmail(options: {
   to: string;
   subject: string;
   text: string;
   html?: string;
-}): Promise<void> {
+  attachments?: { filename: string; content: Buffer; contentType?: string }[];
+}): Promise<boolean> {
   try {
     const transport = createTransport();
-    if (!transport) return;
+    if (!transport) return false;
 
     await transport.sendMail({
       from: getFromAddress(),
@@ -85,9 +87,12 @@ export async function sendEmail(options: {
       subject: options.subject,
       text: options.text,
       html: options.html,
+      attachments: options.attachments,
     });
+    return true;
   } catch (error) {
     console.error('Failed to send email:', error);
+    return false;
   }
 }
 
@@ -0,0 +1,170 @@
+import type { SystemSettings } from './settings';
+
+export const EXPENSE_ENTRY_TYPES = ['mileage', 'per_diem'] as const;
+export type ExpenseEntryType = (typeof EXPENSE_ENTRY_TYPES)[number];
+
+export const EXPENSE_ENTRY_LABELS: Record<ExpenseEntryType, string> = {
+  mileage: 'Mileage',
+  per_diem: 'Per Diem',
+};
+
+type ExpenseSettings = SystemSettings['expenses'];
+
+export interface ExpenseEntryInput {
+  type: ExpenseEntryType;
+  expenseDate: string; // YYYY-MM-DD
+  endDate?: string | null; // Per diem: last travel day
+  description?: string | null;
+  budgetCategoryId?: string | null;
+  startLocation?: string | null;
+  endLocation?: string | null;
+  odometerStart?: number | null;
+  odometerEnd?: number | null;
+  distance?: number | null;
+  location?: string | null;
+}
+
+export interface CalculatedExpenseEntry {
+  type: ExpenseEntryType;
+  expenseDate: Date;
+  endDate: Date | null;
+  description: string | null;
+  budgetCategoryId: string | null;
+  startLocation: string | null;
+  endLocation: string | null;
+  odometerStart: number | null;
+  odometerEnd: number | null;
+  distance: number | null;
+  distanceUnit: string | null;
+  location: string | null;
+  days: number | null;
+  rate: number;
+  amount: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const money = (value: number) => Math.round(value * 100) / 100;
+
+const toDate = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+/**
+ * The mileage rate in effect on a date: the latest rate whose effective date
+ * is on or before it. Null when every configured rate starts later.
+ */
+export function getMileageRateOnDate(
+  rates: ExpenseSettings['mileageRates'],
+  date: string
+): number | null {
+  let current: { effectiveDate: string; rate: number } | null = null;
+  for (const rate of rates) {
+    if (rate.effectiveDate <= date && (!current || rate.effectiveDate > current.effectiveDate)) {
+      current = rate;
+    }
+  }
+  return current ? current.rate : null;
+}
+
+/**
+ * Daily rate for a location, matched by name without regard to case, falling
+ * back to the default rate
+ */
+export function getPerDiemDailyRate(perDiem: ExpenseSettings['perDiem'], location: string | null | undefined): number {
+  const name = location?.trim().toLowerCase();
+  const match = name ? perDiem.locations.find((l) => l.name.trim().toLowerCase() === name) : undefined;
+  return match ? match.dailyRate : perDiem.defaultDailyRate;
+}
+
+/**
+ * Billable per diem days for a trip. The first and last travel days are paid
+ * at travelDayPercent of the daily rate and the days between in full; a one
+ * day trip counts as a single travel day.
+ */
+export function countPerDiemDays(startDate: string, endDate: string, travelDayPercent: number): number | null {
+  const calendarDays = Math.round((toDate(endDate).getTime() - toDate(startDate).getTime()) / DAY_MS) + 1;
+  if (!Number.isFinite(calendarDays) || calendarDays < 1) {
+    return null;
+  }
+
+  const travelDay = travelDayPercent / 100;
+  if (calendarDays === 1) {
+    return travelDay;
+  }
+  return calendarDays - 2 + travelDay * 2;
+}
+
+/**
+ * Work out the distance or days, rate and amount for a mileage or per diem
+ * entry from the configured rates
+ */
+export function calculateExpenseEntry(
+  input: ExpenseEntryInput,
+  settings: ExpenseSettings
+): { error: string } | { data: CalculatedExpenseEntry } {
+  const base = {
+    type: input.type,
+    expenseDate: toDate(input.expenseDate),
+    description: input.description?.trim() || null,
+    budgetCategoryId: input.budgetCategoryId || null,
+  };
+
+  if (input.type === 'mileage') {
+    let distance = input.distance ?? null;
+    if (input.odometerStart != null && input.odometerEnd != null) {
+      if (input.odometerEnd <= input.odometerStart) {
+        return { error: 'The ending odometer reading must be higher than the starting one' };
+      }
+      distance = input.odometerEnd - input.odometerStart;
+    }
+    if (distance === null || distance <= 0) {
+      return { error: 'Enter the distance driven or both odometer readings' };
+    }
+
+    const rate = getMileageRateOnDate(settings.mileageRates, input.expenseDate);
+    if (rate === null) {
+      return { error: 'No mileage rate is configured for that date' };
+    }
+
+    distance = Math.round(distance * 10) / 10;
+    return {
+      data: {
+        ...base,
+        endDate: null,
+        startLocation: input.startLocation?.trim() || null,
+        endLocation: input.endLocation?.trim() || null,
+        odometerStart: input.odometerStart ?? null,
+        odometerEnd: input.odometerEnd ?? null,
+        distance,
+        distanceUnit: settings.distanceUnit,
+        location: null,
+        days: null,
+        rate,
+        amount: money(distance * rate),
+      },
+    };
+  }
+
+  const endDate = input.endDate || input.expenseDate;
+  const days = countPerDiemDays(input.expenseDate, endDate, settings.perDiem.travelDayPercent);
+  if (days === null) {
+    return { error: 'The last travel day cannot be before the first' };
+  }
+
+  const rate = getPerDiemDailyRate(settings.perDiem, input.location);
+  return {
+    data: {
+      ...base,
+      endDate: toDate(endDate),
+      startLocation: null,
+      endLocation: null,
+      odometerStart: null,
+      odometerEnd: null,
+      distance: null,
+      distanceUnit: null,
+      location: input.location?.trim() || null,
+      days,
+      rate,
+      amount: money(days * rate),
+    },
+  };
+}
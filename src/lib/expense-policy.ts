@@ -0,0 +1,185 @@
+import { prisma } from './prisma';
+import { getReceiptExpenseAmount } from './expense-reports';
+
+export const EXPENSE_POLICY_RULES = [
+  'receipt_cap',
+  'daily_limit',
+  'notes_required',
+  'banned_merchant',
+  'weekend',
+  'receipt_age',
+] as const;
+export type ExpensePolicyRule = (typeof EXPENSE_POLICY_RULES)[number];
+
+export const EXPENSE_POLICY_RULE_LABELS: Record<ExpensePolicyRule, string> = {
+  receipt_cap: 'Per-receipt cap',
+  daily_limit: 'Daily limit',
+  notes_required: 'Notes required above amount',
+  banned_merchant: 'Banned merchants',
+  weekend: 'Weekend spending',
+  receipt_age: 'Receipt age limit',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// What API routes return for a receipt's violations
+export const policyViolationSelect = {
+  id: true,
+  message: true,
+  policy: { select: { id: true, name: true, rule: true } },
+} as const;
+
+type PolicyDefinition = {
+  id: string;
+  name: string;
+  rule: string;
+  departmentId: string | null;
+  budgetCategoryId: string | null;
+  amount: number | null;
+  maxDays: number | null;
+  merchants: string | null;
+};
+
+export type PolicyReceipt = {
+  merchantName: string | null;
+  receiptDate: Date | null;
+  amount: number | null;
+  notes: string | null;
+  budgetCategoryId: string | null;
+  createdAt: Date;
+};
+
+const formatAmount = (value: number) => `$${value.toFixed(2)}`;
+
+export function parseBannedMerchants(merchants: string | null): string[] {
+  return (merchants || '')
+    .split('\n')
+    .map((m) => m.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Whether a policy covers a receipt. Unscoped policies apply to every
+ * department and category.
+ */
+export function policyApplies(
+  policy: Pick<PolicyDefinition, 'departmentId' | 'budgetCategoryId'>,
+  budgetCategoryId: string | null,
+  departmentId: string | null
+): boolean {
+  if (policy.budgetCategoryId && policy.budgetCategoryId !== budgetCategoryId) return false;
+  if (policy.departmentId && policy.departmentId !== departmentId) return false;
+  return true;
+}
+
+/**
+ * Check one receipt against one policy and describe the violation, or null
+ * when it passes. dailyTotal is the employee's spend in the policy's scope on
+ * the receipt's date, including this receipt; only daily_limit uses it.
+ */
+export function evaluateExpensePolicy(
+  policy: PolicyDefinition,
+  receipt: PolicyReceipt,
+  dailyTotal = 0
+): string | null {
+  switch (policy.rule) {
+    case 'receipt_cap':
+      if (policy.amount !== null && receipt.amount !== null && receipt.amount > policy.amount) {
+        return `${formatAmount(receipt.amount)} is over the ${formatAmount(policy.amount)} limit per receipt`;
+      }
+      return null;
+
+    case 'daily_limit':
+      if (policy.amount !== null && receipt.receiptDate && dailyTotal > policy.amount) {
+        return `${formatAmount(dailyTotal)} spent that day is over the ${formatAmount(policy.amount)} daily limit`;
+      }
+      return null;
+
+    case 'notes_required':
+      if (policy.amount !== null && receipt.amount !== null && receipt.amount > policy.amount && !receipt.notes?.trim()) {
+        return `Receipts over ${formatAmount(policy.amount)} need a note explaining the expense`;
+      }
+      return null;
+
+    case 'banned_merchant': {
+      const merchant = receipt.merchantName?.toLowerCase();
+      const banned = merchant ? parseBannedMerchants(policy.merchants).find((m) => merchant.includes(m)) : undefined;
+      return banned ? `${receipt.merchantName} is not an allowed merchant` : null;
+    }
+
+    case 'weekend': {
+      const day = receipt.receiptDate?.getUTCDay();
+      return day === 0 || day === 6 ? 'Purchased on a weekend' : null;
+    }
+
+    case 'receipt_age': {
+      if (policy.maxDays === null || !receipt.receiptDate) return null;
+      const age = Math.floor((receipt.createdAt.getTime() - receipt.receiptDate.getTime()) / DAY_MS);
+      return age > policy.maxDays
+        ? `Submitted ${age} days after purchase, over the ${policy.maxDays} day limit`
+        : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check a receipt against every active policy that covers it and replace its
+ * stored violations. A daily limit flags the receipt when the day's total,
+ * including it, is over the limit.
+ */
+export async function applyExpensePolicies(receiptId: string): Promise<number> {
+  const receipt = await prisma.receipt.findUnique({
+    where: { id: receiptId },
+    include: { user: { select: { departmentId: true } } },
+  });
+  if (!receipt) {
+    return 0;
+  }
+
+  const departmentId = receipt.user.departmentId;
+  const policies = (await prisma.expensePolicy.findMany({ where: { isActive: true } })).filter((p) =>
+    policyApplies(p, receipt.budgetCategoryId, departmentId)
+  );
+
+  const subject: PolicyReceipt = {
+    merchantName: receipt.merchantName,
+    receiptDate: receipt.receiptDate,
+    amount: getReceiptExpenseAmount(receipt),
+    notes: receipt.notes,
+    budgetCategoryId: receipt.budgetCategoryId,
+    createdAt: receipt.createdAt,
+  };
+
+  const violations: { receiptId: string; policyId: string; message: string }[] = [];
+  for (const policy of policies) {
+    let dailyTotal = 0;
+    if (policy.rule === 'daily_limit' && receipt.receiptDate) {
+      const dayStart = new Date(receipt.receiptDate);
+      dayStart.setUTCHours(0, 0, 0, 0);
+      const sameDay = await prisma.receipt.findMany({
+        where: {
+          userId: receipt.userId,
+          receiptDate: { gte: dayStart, lt: new Date(dayStart.getTime() + DAY_MS) },
+          budgetCategoryId: policy.budgetCategoryId ?? undefined,
+        },
+        select: { totalAmount: true, convertedAmount: true },
+      });
+      dailyTotal = sameDay.reduce((sum, r) => sum + (getReceiptExpenseAmount(r) ?? 0), 0);
+    }
+
+    const message = evaluateExpensePolicy(policy, subject, dailyTotal);
+    if (message) {
+      violations.push({ receiptId, policyId: policy.id, message });
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.receiptPolicyViolation.deleteMany({ where: { receiptId } }),
+    prisma.receiptPolicyViolation.createMany({ data: violations }),
+  ]);
+
+  return violations.length;
+}
@@ -0,0 +1,240 @@
+import { prisma } from './prisma';
+import {
+  canViewAllData,
+  canViewDepartmentData,
+  hasPermission,
+  type UserPermissions,
+} from './check-permissions';
+
+export const EXPENSE_PAYMENT_METHODS = ['personal', 'company_card'] as const;
+export type ExpensePaymentMethod = (typeof EXPENSE_PAYMENT_METHODS)[number];
+
+// Statuses in which the submitter can still change the report
+export const EDITABLE_EXPENSE_REPORT_STATUSES = ['draft', 'rejected'];
+
+// Duplicate statuses that keep a receipt out of report totals
+export const HELD_DUPLICATE_STATUSES = ['suspected', 'confirmed'];
+
+export interface ExpenseReceiptAmount {
+  totalAmount: number | null;
+  convertedAmount: number | null;
+  paymentMethod: string;
+  duplicateStatus?: string | null;
+}
+
+export interface ExpenseReportTotals {
+  receiptCount: number;
+  entryCount: number; // Mileage and per diem
+  totalAmount: number;
+  reimbursableAmount: number; // Paid personally, owed to the employee
+  companyCardAmount: number;
+  missingAmountCount: number; // Receipts with no amount yet
+  heldDuplicateCount: number; // Suspected or confirmed duplicates, not counted
+}
+
+const money = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Whether a receipt is held out of report totals as a suspected or confirmed duplicate
+ */
+export function isHeldDuplicate(receipt: Pick<ExpenseReceiptAmount, 'duplicateStatus'>): boolean {
+  return !!receipt.duplicateStatus && HELD_DUPLICATE_STATUSES.includes(receipt.duplicateStatus);
+}
+
+/**
+ * Amount a receipt counts for on a report: the base-currency conversion when
+ * there is one, otherwise the amount as read from the receipt
+ */
+export function getReceiptExpenseAmount(receipt: Pick<ExpenseReceiptAmount, 'totalAmount' | 'convertedAmount'>): number | null {
+  return receipt.convertedAmount ?? receipt.totalAmount;
+}
+
+/**
+ * Totals for a report's receipts and its mileage and per diem entries, which
+ * are always reimbursable. Suspected and confirmed duplicate receipts are
+ * counted but left out of the amounts.
+ */
+export function summarizeExpenseReport(
+  receipts: ExpenseReceiptAmount[],
+  entries: { amount: number }[] = []
+): ExpenseReportTotals {
+  let total = 0;
+  let reimbursable = 0;
+  let missingAmountCount = 0;
+  let heldDuplicateCount = 0;
+
+  for (const receipt of receipts) {
+    if (isHeldDuplicate(receipt)) {
+      heldDuplicateCount++;
+      continue;
+    }
+    const amount = getReceiptExpenseAmount(receipt);
+    if (amount === null) {
+      missingAmountCount++;
+      continue;
+    }
+    total += amount;
+    if (receipt.paymentMethod !== 'company_card') {
+      reimbursable += amount;
+    }
+  }
+
+  for (const entry of entries) {
+    total += entry.amount;
+    reimbursable += entry.amount;
+  }
+
+  return {
+    receiptCount: receipts.length,
+    entryCount: entries.length,
+    totalAmount: money(total),
+    reimbursableAmount: money(reimbursable),
+    companyCardAmount: money(total - reimbursable),
+    missingAmountCount,
+    heldDuplicateCount,
+  };
+}
+
+/**
+ * Departments whose expense reports a user can see beyond their own, using the
+ * same view-all / view-department scoping as purchase orders. Returns null for
+ * every department and an empty list for none.
+ */
+export function getExpenseReportDepartmentScope(
+  permissions: UserPermissions,
+  departmentId: string | null
+): string[] | null {
+  if (canViewAllData(permissions, 'expenseReports')) {
+    return null;
+  }
+
+  if (canViewDepartmentData(permissions, 'expenseReports') && departmentId) {
+    return [departmentId];
+  }
+
+  return [];
+}
+
+function isInScope(scope: string[] | null, departmentId: string | null): boolean {
+  return scope === null || (!!departmentId && scope.includes(departmentId));
+}
+
+export function canViewExpenseReport(
+  report: { userId: string; user: { departmentId: string | null } },
+  viewer: { id: string; departmentId: string | null },
+  permissions: UserPermissions
+): boolean {
+  if (report.userId === viewer.id) {
+    return true;
+  }
+
+  return isInScope(getExpenseReportDepartmentScope(permissions, viewer.departmentId), report.user.departmentId);
+}
+
+/**
+ * Approvers need canApprove and the report's department in their scope, and
+ * cannot approve their own reports
+ */
+export function canReviewExpenseReport(
+  report: { userId: string; user: { departmentId: string | null } },
+  viewer: { id: string; departmentId: string | null },
+  permissions: UserPermissions
+): boolean {
+  if (report.userId === viewer.id || !hasPermission(permissions, 'expenseReports', 'canApprove')) {
+    return false;
+  }
+
+  return isInScope(getExpenseReportDepartmentScope(permissions, viewer.departmentId), report.user.departmentId);
+}
+
+/**
+ * Replace the receipts (and, when given, the mileage and per diem entries) on
+ * an editable report and refresh its totals. Everything must belong to the
+ * report's owner and not be claimed on another report.
+ */
+export async function setExpenseReportItems(
+  reportId: string,
+  ownerId: string,
+  receipts: { id: string; paymentMethod: ExpensePaymentMethod }[],
+  entryIds?: string[]
+): Promise<{ error: string } | { totals: ExpenseReportTotals }> {
+  const ids = receipts.map((r) => r.id);
+  const found = await prisma.receipt.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, userId: true, expenseReportId: true },
+  });
+
+  if (found.length !== new Set(ids).size || found.some((r) => r.userId !== ownerId)) {
+    return { error: 'One or more receipts were not found' };
+  }
+
+  if (found.some((r) => r.expenseReportId && r.expenseReportId !== reportId)) {
+    return { error: 'One or more receipts are already on another expense report' };
+  }
+
+  if (entryIds) {
+    const entries = await prisma.expenseEntry.findMany({
+      where: { id: { in: entryIds } },
+      select: { userId: true, expenseReportId: true },
+    });
+
+    if (entries.length !== new Set(entryIds).size || entries.some((e) => e.userId !== ownerId)) {
+      return { error: 'One or more mileage or per diem entries were not found' };
+    }
+
+    if (entries.some((e) => e.expenseReportId && e.expenseReportId !== reportId)) {
+      return { error: 'One or more mileage or per diem entries are already on another expense report' };
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.receipt.updateMany({
+      where: { expenseReportId: reportId, id: { notIn: ids } },
+      data: { expenseReportId: null },
+    }),
+    ...receipts.map((r) =>
+      prisma.receipt.update({
+        where: { id: r.id },
+        data: { expenseReportId: reportId, paymentMethod: r.paymentMethod },
+      })
+    ),
+    ...(entryIds
+      ? [
+          prisma.expenseEntry.updateMany({
+            where: { expenseReportId: reportId, id: { notIn: entryIds } },
+            data: { expenseReportId: null },
+          }),
+          prisma.expenseEntry.updateMany({
+            where: { id: { in: entryIds } },
+            data: { expenseReportId: reportId },
+          }),
+        ]
+      : []),
+  ]);
+
+  return { totals: await refreshExpenseReportTotals(reportId) };
+}
+
+/**
+ * Recalculate a report's totals from its receipts and entries and store them
+ */
+export async function refreshExpenseReportTotals(reportId: string): Promise<ExpenseReportTotals> {
+  const [receipts, entries] = await Promise.all([
+    prisma.receipt.findMany({
+      where: { expenseReportId: reportId },
+      select: { totalAmount: true, convertedAmount: true, paymentMethod: true, duplicateStatus: true },
+    }),
+    prisma.expenseEntry.findMany({
+      where: { expenseReportId: reportId },
+      select: { amount: true },
+    }),
+  ]);
+
+  const totals = summarizeExpenseReport(receipts, entries);
+  await prisma.expenseReport.update({
+    where: { id: reportId },
+    data: { totalAmount: totals.totalAmount, reimbursableAmount: totals.reimbursableAmount },
+  });
+
+  return totals;
+}
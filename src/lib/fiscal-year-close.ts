@@ -0,0 +1,287 @@
+import { prisma } from './prisma';
+import { PrismaClient, POStatus } from '@prisma/client';
+import { isFullyReceived, updateBudgetFromPO } from './budget-tracking';
+import { adjustBlanketDrawdown } from './blanket-po';
+
+type PrismaTransactionClient = Parameters<Parameters<PrismaClient['$transaction']>[0]>[0];
+
+// Allow for floating point noise when comparing amounts
+const AMOUNT_TOLERANCE = 0.005;
+
+// POs in these statuses still encumber budget
+export const OPEN_PO_STATUSES: POStatus[] = ['APPROVED', 'PARTIALLY_RECEIVED'];
+
+export type CloseAction = 'CANCELLED' | 'CLOSED_SHORT' | 'LINES_RELEASED' | 'ROLLED_OVER';
+
+export type CloseActionLine = {
+  description: string;
+  fromCode: string;
+  toCode: string | null;
+  amount: number;
+};
+
+type TargetBudgetItem = {
+  id: string;
+  code: string;
+};
+
+type OpenLineItem = {
+  id: string;
+  description: string;
+  amount: number;
+  receivedAmount: number;
+  releasedAmount: number;
+  budgetItemId: string;
+  budgetItem: { code: string; fiscalYear: number };
+};
+
+/**
+ * Amount of a line that is still encumbered (not yet received or released)
+ */
+export function getOpenAmount(lineItem: Pick<OpenLineItem, 'amount' | 'receivedAmount' | 'releasedAmount'>): number {
+  return Math.max(lineItem.amount - lineItem.receivedAmount - lineItem.releasedAmount, 0);
+}
+
+/**
+ * Find the budget line in the new fiscal year that continues a line from the
+ * old one: the same code, or the same code with the year swapped
+ * (e.g. "IT-OPS-2026" becomes "IT-OPS-2027").
+ */
+export function findRolloverTarget<T extends TargetBudgetItem>(
+  code: string,
+  sourceFiscalYear: number,
+  targetFiscalYear: number,
+  targetItems: T[]
+): T | null {
+  const exact = targetItems.find((item) => item.code === code);
+  if (exact) return exact;
+
+  const sourceYear = String(sourceFiscalYear);
+  if (code.includes(sourceYear)) {
+    const renamed = code.split(sourceYear).join(String(targetFiscalYear));
+    return targetItems.find((item) => item.code === renamed) || null;
+  }
+
+  return null;
+}
+
+/**
+ * Approved and partially received POs with lines still encumbering the fiscal year
+ */
+export async function getOpenPurchaseOrders(fiscalYear: number) {
+  const purchaseOrders = await prisma.purchaseOrder.findMany({
+    where: {
+      status: { in: OPEN_PO_STATUSES },
+      lineItems: { some: { budgetItem: { fiscalYear } } },
+    },
+    include: {
+      vendor: { select: { id: true, name: true } },
+      requestedBy: { select: { id: true, name: true } },
+      department: { select: { id: true, name: true } },
+      lineItems: {
+        include: { budgetItem: { select: { id: true, code: true, description: true, fiscalYear: true } } },
+        orderBy: { id: 'asc' },
+      },
+    },
+    orderBy: { poNumber: 'asc' },
+  });
+
+  // A PO whose lines for the year are all received is only open on other years
+  return purchaseOrders.filter((po) =>
+    po.lineItems.some(
+      (lineItem) => lineItem.budgetItem.fiscalYear === fiscalYear && getOpenAmount(lineItem) > AMOUNT_TOLERANCE
+    )
+  );
+}
+
+/**
+ * Release a PO's open encumbrance on the closing year's budget lines.
+ * POs with nothing received are cancelled; partially received POs are closed
+ * short so what was received stays booked as spent. A PO that also has lines
+ * on another fiscal year stays open: only the closing year's lines are cut
+ * back to what was received or released (or removed if nothing was), and it
+ * is completed if that leaves nothing outstanding.
+ */
+export async function cancelForYearEnd(
+  purchaseOrderId: string,
+  fiscalYear: number,
+  userId: string,
+  note: string,
+  tx: PrismaTransactionClient
+): Promise<{ action: CloseAction; amount: number; lines: CloseActionLine[] }> {
+  const po = await tx.purchaseOrder.findUnique({
+    where: { id: purchaseOrderId },
+    include: { lineItems: { include: { budgetItem: true } } },
+  });
+
+  if (!po || !OPEN_PO_STATUSES.includes(po.status)) {
+    throw new Error('Purchase order is not open');
+  }
+
+  const linesToRelease = po.lineItems.filter(
+    (lineItem) => lineItem.budgetItem.fiscalYear === fiscalYear && getOpenAmount(lineItem) > AMOUNT_TOLERANCE
+  );
+  const lines = linesToRelease.map((lineItem) => ({
+    description: lineItem.description,
+    fromCode: lineItem.budgetItem.code,
+    toCode: null,
+    amount: getOpenAmount(lineItem),
+  }));
+  const amount = lines.reduce((sum, line) => sum + line.amount, 0);
+
+  if (po.lineItems.some((lineItem) => lineItem.budgetItem.fiscalYear !== fiscalYear)) {
+    // Release the budget effect of the current line items
+    await updateBudgetFromPO(po.id, po.status, 'CANCELLED', tx);
+
+    for (const lineItem of linesToRelease) {
+      const consumed = lineItem.receivedAmount + lineItem.releasedAmount;
+      if (consumed > AMOUNT_TOLERANCE) {
+        await tx.pOLineItem.update({ where: { id: lineItem.id }, data: { amount: consumed } });
+      } else {
+        await tx.pOLineItem.delete({ where: { id: lineItem.id } });
+      }
+    }
+
+    await tx.purchaseOrder.update({
+      where: { id: po.id },
+      data: { totalAmount: { decrement: amount } },
+    });
+
+    // Book the budget effect of what is left
+    await updateBudgetFromPO(po.id, 'CANCELLED', po.status, tx);
+
+    // The trimmed lines may have been all that was still outstanding
+    const remaining = await tx.pOLineItem.findMany({ where: { purchaseOrderId: po.id } });
+    if (po.status === 'PARTIALLY_RECEIVED' && isFullyReceived(remaining)) {
+      await tx.purchaseOrder.update({
+        where: { id: po.id },
+        data: { status: 'COMPLETED', completedAt: new Date() },
+      });
+      await updateBudgetFromPO(po.id, 'PARTIALLY_RECEIVED', 'COMPLETED', tx);
+    }
+
+    // A release gives the released amount back to its blanket PO
+    if (po.blanketPoId) {
+      await adjustBlanketDrawdown(
+        po.blanketPoId,
+        linesToRelease.map((lineItem) => ({ budgetItemId: lineItem.budgetItemId, amount: getOpenAmount(lineItem) })),
+        -1,
+        tx
+      );
+    }
+
+    // A change order drafted against the old lines no longer applies
+    await tx.pOChangeOrder.updateMany({
+      where: { purchaseOrderId: po.id, status: 'PENDING_APPROVAL' },
+      data: { status: 'CANCELLED' },
+    });
+
+    return { action: 'LINES_RELEASED', amount, lines };
+  }
+
+  const action: CloseAction = po.status === 'PARTIALLY_RECEIVED' ? 'CLOSED_SHORT' : 'CANCELLED';
+
+  if (action === 'CLOSED_SHORT') {
+    await tx.purchaseOrder.update({
+      where: { id: po.id },
+      data: { status: 'COMPLETED', completedAt: new Date() },
+    });
+    await updateBudgetFromPO(po.id, po.status, 'COMPLETED', tx);
+  } else {
+    await tx.purchaseOrder.update({
+      where: { id: po.id },
+      data: { status: 'CANCELLED', voidedBy: userId, voidedAt: new Date(), voidNote: note },
+    });
+    await updateBudgetFromPO(po.id, po.status, 'CANCELLED', tx);
+
+    // Voiding a release returns its amount to the blanket PO it was drawn from
+    if (po.blanketPoId) {
+      await adjustBlanketDrawdown(po.blanketPoId, po.lineItems, -1, tx);
+    }
+  }
+
+  // A closed PO can no longer take a change order
+  await tx.pOChangeOrder.updateMany({
+    where: { purchaseOrderId: po.id, status: 'PENDING_APPROVAL' },
+    data: { status: 'CANCELLED' },
+  });
+
+  return { action, amount, lines };
+}
+
+/**
+ * Move a PO's open encumbrance on the closing year's budget lines to the
+ * given lines of the new year.
+ *
+ * Lines with nothing received or released move outright. Lines that are
+ * partly received or released are split: the consumed portion stays on the
+ * old budget line (with its receiving history) and the remainder becomes a
+ * new line on the target budget line.
+ */
+export async function rollOverPurchaseOrder(
+  purchaseOrderId: string,
+  fiscalYear: number,
+  lineTargets: Record<string, TargetBudgetItem>,
+  tx: PrismaTransactionClient
+): Promise<{ amount: number; lines: CloseActionLine[] }> {
+  const po = await tx.purchaseOrder.findUnique({
+    where: { id: purchaseOrderId },
+    include: { lineItems: { include: { budgetItem: true } } },
+  });
+
+  if (!po || !OPEN_PO_STATUSES.includes(po.status)) {
+    throw new Error('Purchase order is not open');
+  }
+
+  const linesToMove = po.lineItems.filter(
+    (lineItem) => lineItem.budgetItem.fiscalYear === fiscalYear && getOpenAmount(lineItem) > AMOUNT_TOLERANCE
+  );
+
+  for (const lineItem of linesToMove) {
+    if (!lineTargets[lineItem.id]) {
+      throw new Error(`No target budget line for "${lineItem.description}"`);
+    }
+  }
+
+  // Release the budget effect of the current line items
+  await updateBudgetFromPO(po.id, po.status, 'CANCELLED', tx);
+
+  const lines: CloseActionLine[] = [];
+  for (const lineItem of linesToMove) {
+    const target = lineTargets[lineItem.id];
+    const openAmount = getOpenAmount(lineItem);
+    const consumed = lineItem.receivedAmount + lineItem.releasedAmount;
+
+    if (consumed > 0) {
+      await tx.pOLineItem.update({
+        where: { id: lineItem.id },
+        data: { amount: consumed },
+      });
+      await tx.pOLineItem.create({
+        data: {
+          purchaseOrderId: po.id,
+          description: lineItem.description,
+          amount: openAmount,
+          budgetItemId: target.id,
+        },
+      });
+    } else {
+      await tx.pOLineItem.update({
+        where: { id: lineItem.id },
+        data: { budgetItemId: target.id },
+      });
+    }
+
+    lines.push({
+      description: lineItem.description,
+      fromCode: lineItem.budgetItem.code,
+      toCode: target.code,
+      amount: openAmount,
+    });
+  }
+
+  // Book the budget effect of the rolled-over line items
+  await updateBudgetFromPO(po.id, 'CANCELLED', po.status, tx);
+
+  return { amount: lines.reduce((sum, line) => sum + line.amount, 0), lines };
+}
@@ -0,0 +1,19 @@
+/**
+ * Ask the browser for its current position. Resolves to null when geolocation
+ * is unavailable, refused or times out, so a punch can still be sent and the
+ * server decides what a missing location means.
+ */
+export function getBrowserPosition(timeoutMs = 10000): Promise<{ latitude: number; longitude: number } | null> {
+  return new Promise((resolve) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      resolve(null);
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60000 }
+    );
+  });
+}
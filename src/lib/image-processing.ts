@@ -428,3 +428,32 @@ export async function optimizeReceiptImage(
     };
   }
 }
+
+const IMAGE_HASH_SIZE = 8; // 8x8 comparisons = 64-bit hash
+
+/**
+ * Perceptual difference hash (dHash) of an image as 16 hex characters.
+ * Shrinks to a 9x8 grayscale grid and records whether each pixel is brighter
+ * than its right neighbour, so re-encoded, resized or slightly recompressed
+ * copies of the same photo hash to within a few bits of each other.
+ */
+export async function computeImageHash(buffer: Buffer): Promise<string> {
+  const pixels = await sharp(buffer)
+    .rotate()
+    .grayscale()
+    .resize(IMAGE_HASH_SIZE + 1, IMAGE_HASH_SIZE, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = '';
+  for (let row = 0; row < IMAGE_HASH_SIZE; row++) {
+    let byte = 0;
+    for (let col = 0; col < IMAGE_HASH_SIZE; col++) {
+      const offset = row * (IMAGE_HASH_SIZE + 1) + col;
+      byte = (byte << 1) | (pixels[offset] > pixels[offset + 1] ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+
+  return hash;
+}
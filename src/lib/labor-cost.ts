@@ -0,0 +1,405 @@
+import { prisma } from './prisma';
+import { getSettings } from './settings';
+import { calculateOvertime, type JobCodeMinutes, type TimeclockEntryForCalculation } from './overtime';
+import { getOvertimeRuleSetsByUser } from './overtime-rules';
+import { getSystemConfig } from './setup-status';
+import { hasPermission, type UserPermissions } from './check-permissions';
+import type { PayRate } from '@prisma/client';
+
+export interface PayMultipliers {
+  overtimeMultiplier: number;
+  doubleTimeMultiplier: number;
+}
+
+export const DEFAULT_PAY_MULTIPLIERS: PayMultipliers = {
+  overtimeMultiplier: 1.5,
+  doubleTimeMultiplier: 2,
+};
+
+export interface LaborCostLine {
+  regularHours: number;
+  overtimeHours: number; // Daily + weekly overtime
+  doubleTimeHours: number;
+  totalHours: number;
+  regularCost: number;
+  overtimeCost: number;
+  doubleTimeCost: number;
+  totalCost: number;
+  unratedHours: number; // Hours worked with no pay rate in effect
+}
+
+export interface EmployeeLaborCost extends LaborCostLine {
+  userId: string;
+  name: string;
+  departmentId: string | null;
+  departmentName: string | null;
+  currentRate: number | null;
+}
+
+export interface DepartmentLaborCost extends LaborCostLine {
+  departmentId: string | null;
+  departmentName: string | null;
+  employeeCount: number;
+}
+
+export interface LaborCostReport {
+  employees: EmployeeLaborCost[];
+  departments: DepartmentLaborCost[];
+  totals: LaborCostLine;
+  multipliers: PayMultipliers;
+}
+
+type EntryForCost = TimeclockEntryForCalculation & {
+  user: {
+    id: string;
+    name: string;
+    department: { id: string; name: string } | null;
+  };
+};
+
+function emptyLine(): LaborCostLine {
+  return {
+    regularHours: 0,
+    overtimeHours: 0,
+    doubleTimeHours: 0,
+    totalHours: 0,
+    regularCost: 0,
+    overtimeCost: 0,
+    doubleTimeCost: 0,
+    totalCost: 0,
+    unratedHours: 0,
+  };
+}
+
+function addLine(target: LaborCostLine, line: LaborCostLine) {
+  target.regularHours += line.regularHours;
+  target.overtimeHours += line.overtimeHours;
+  target.doubleTimeHours += line.doubleTimeHours;
+  target.totalHours += line.totalHours;
+  target.regularCost += line.regularCost;
+  target.overtimeCost += line.overtimeCost;
+  target.doubleTimeCost += line.doubleTimeCost;
+  target.totalCost += line.totalCost;
+  target.unratedHours += line.unratedHours;
+}
+
+function roundLine<T extends LaborCostLine>(line: T): T {
+  const hours = (value: number) => Math.round(value * 100) / 100;
+  const money = (value: number) => Math.round(value * 100) / 100;
+  return {
+    ...line,
+    regularHours: hours(line.regularHours),
+    overtimeHours: hours(line.overtimeHours),
+    doubleTimeHours: hours(line.doubleTimeHours),
+    totalHours: hours(line.totalHours),
+    regularCost: money(line.regularCost),
+    overtimeCost: money(line.overtimeCost),
+    doubleTimeCost: money(line.doubleTimeCost),
+    totalCost: money(line.totalCost),
+    unratedHours: hours(line.unratedHours),
+  };
+}
+
+/**
+ * The rate in effect on a day (YYYY-MM-DD): the latest one starting on or before it.
+ * Rates must be sorted by effectiveDate ascending.
+ */
+export function getRateOnDate(rates: Pick<PayRate, 'hourlyRate' | 'effectiveDate'>[], dateKey: string): number | null {
+  let rate: number | null = null;
+  for (const payRate of rates) {
+    if (payRate.effectiveDate.toISOString().slice(0, 10) > dateKey) break;
+    rate = payRate.hourlyRate;
+  }
+  return rate;
+}
+
+/**
+ * Cost of one entry's regular / overtime / double time minutes at an hourly rate
+ */
+export function costEntryMinutes(minutes: JobCodeMinutes, rate: number | null, multipliers: PayMultipliers): LaborCostLine {
+  const regularHours = minutes.regularMinutes / 60;
+  const overtimeHours = (minutes.dailyOvertimeMinutes + minutes.weeklyOvertimeMinutes) / 60;
+  const doubleTimeHours = minutes.doubleTimeMinutes / 60;
+  const totalHours = minutes.totalMinutes / 60;
+
+  if (rate === null) {
+    return { ...emptyLine(), regularHours, overtimeHours, doubleTimeHours, totalHours, unratedHours: totalHours };
+  }
+
+  const regularCost = regularHours * rate;
+  const overtimeCost = overtimeHours * rate * multipliers.overtimeMultiplier;
+  const doubleTimeCost = doubleTimeHours * rate * multipliers.doubleTimeMultiplier;
+
+  return {
+    regularHours,
+    overtimeHours,
+    doubleTimeHours,
+    totalHours,
+    regularCost,
+    overtimeCost,
+    doubleTimeCost,
+    totalCost: regularCost + overtimeCost + doubleTimeCost,
+    unratedHours: 0,
+  };
+}
+
+/**
+ * Pay rates per employee, oldest first
+ */
+export async function getPayRatesByUser(userIds: string[]): Promise<Record<string, PayRate[]>> {
+  const rates = await prisma.payRate.findMany({
+    where: { userId: { in: [...new Set(userIds)] } },
+    orderBy: { effectiveDate: 'asc' },
+  });
+
+  const byUser: Record<string, PayRate[]> = {};
+  for (const rate of rates) {
+    (byUser[rate.userId] ||= []).push(rate);
+  }
+  return byUser;
+}
+
+/**
+ * Departments whose labor cost a user may see: null for all, otherwise the
+ * departments they manage (or their own). Mirrors the payroll export.
+ */
+export async function getLaborCostDepartmentIds(
+  userId: string,
+  permissions: UserPermissions
+): Promise<string[] | null> {
+  if (!hasPermission(permissions, 'timeclock', 'canExportPayroll')) return [];
+  if (hasPermission(permissions, 'timeclock', 'canViewAllEntries')) return null;
+
+  const assignments = await prisma.managerAssignment.findMany({
+    where: { userId },
+    select: { departmentId: true },
+  });
+  if (assignments.length > 0) {
+    return assignments.map((a) => a.departmentId);
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { departmentId: true } });
+  return user?.departmentId ? [user.departmentId] : [];
+}
+
+/**
+ * Labor cost of approved time clocked in between start and end
+ *
+ * Overtime is worked out per employee across the whole range with the same
+ * rules as the payroll export, then each entry is costed at the pay rate in
+ * effect on its clock-in day. Overtime and double time use the multipliers
+ * from the overtime config.
+ */
+export async function getLaborCostReport(
+  start: Date,
+  end: Date,
+  departmentIds: string[] | null
+): Promise<LaborCostReport> {
+  const entries: EntryForCost[] = await prisma.timeclockEntry.findMany({
+    where: {
+      status: 'approved',
+      clockIn: { gte: start, lte: end },
+      clockOut: { not: null },
+      ...(departmentIds !== null ? { user: { departmentId: { in: departmentIds } } } : {}),
+    },
+    select: {
+      id: true,
+      userId: true,
+      clockIn: true,
+      clockOut: true,
+      duration: true,
+      status: true,
+      jobCodeId: true,
+      user: {
+        select: {
+          id: true,
+          name: true,
+          department: { select: { id: true, name: true } },
+        },
+      },
+    },
+    orderBy: { clockIn: 'asc' },
+  });
+
+  const userIds = entries.map((e) => e.userId);
+  const overtimeConfig = await prisma.overtimeConfig.findFirst();
+  const timezone = (await getSystemConfig('timezone')) || 'UTC';
+  const overtime = calculateOvertime(entries, overtimeConfig, timezone, await getOvertimeRuleSetsByUser(userIds));
+  const rates = await getPayRatesByUser(userIds);
+  const multipliers = overtimeConfig
+    ? { overtimeMultiplier: overtimeConfig.overtimeMultiplier, doubleTimeMultiplier: overtimeConfig.doubleTimeMultiplier }
+    : DEFAULT_PAY_MULTIPLIERS;
+  const today = new Date().toLocaleDateString('en-CA', { timeZone: timezone });
+
+  const employees = new Map<string, EmployeeLaborCost>();
+  for (const entry of entries) {
+    const minutes = overtime.employees[entry.userId]?.entries[entry.id];
+    if (!minutes) continue;
+
+    const userRates = rates[entry.userId] || [];
+    const dateKey = entry.clockIn.toLocaleDateString('en-CA', { timeZone: timezone });
+    const line = costEntryMinutes(minutes, getRateOnDate(userRates, dateKey), multipliers);
+
+    let employee = employees.get(entry.userId);
+    if (!employee) {
+      employee = {
+        userId: entry.userId,
+        name: entry.user.name,
+        departmentId: entry.user.department?.id || null,
+        departmentName: entry.user.department?.name || null,
+        currentRate: getRateOnDate(userRates, today),
+        ...emptyLine(),
+      };
+      employees.set(entry.userId, employee);
+    }
+    addLine(employee, line);
+  }
+
+  const departments = new Map<string, DepartmentLaborCost>();
+  const totals = emptyLine();
+  for (const employee of employees.values()) {
+    const key = employee.departmentId || '';
+    let department = departments.get(key);
+    if (!department) {
+      department = {
+        departmentId: employee.departmentId,
+        departmentName: employee.departmentName,
+        employeeCount: 0,
+        ...emptyLine(),
+      };
+      departments.set(key, department);
+    }
+    department.employeeCount += 1;
+    addLine(department, employee);
+    addLine(totals, employee);
+  }
+
+  return {
+    employees: [...employees.values()].map(roundLine).sort((a, b) => a.name.localeCompare(b.name)),
+    departments: [...departments.values()]
+      .map(roundLine)
+      .sort((a, b) => (a.departmentName || '').localeCompare(b.departmentName || '')),
+    totals: roundLine(totals),
+    multipliers,
+  };
+}
+
+/**
+ * Date range of a YYYY-MM-DD period in UTC, from the start of the first day
+ * to the last millisecond of the last, read the same way as the payroll
+ * export so both cover the same entries
+ */
+export function parseLaborCostPeriod(periodStart: string, periodEnd: string): { start: Date; end: Date } | null {
+  if (![periodStart, periodEnd].every((d) => /^\d{4}-\d{2}-\d{2}$/.test(d))) return null;
+
+  const start = new Date(`${periodStart}T00:00:00.000Z`);
+  const end = new Date(`${periodEnd}T23:59:59.999Z`);
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) return null;
+
+  // Reject days the Date constructor rolls over, e.g. 2026-02-30
+  if (start.toISOString().slice(0, 10) !== periodStart || end.toISOString().slice(0, 10) !== periodEnd) return null;
+
+  return { start, end };
+}
+
+/**
+ * Fiscal year a date falls in: the FiscalYear record covering it, otherwise
+ * worked out from the configured start month
+ */
+export async function getFiscalYearForDate(date: Date): Promise<number> {
+  const record = await prisma.fiscalYear.findFirst({
+    where: { startDate: { lte: date }, endDate: { gte: date } },
+    select: { year: true },
+  });
+  if (record) return record.year;
+
+  const startMonth = getSettings().fiscalYear?.startMonth || 1;
+  return date.getMonth() >= startMonth - 1 ? date.getFullYear() : date.getFullYear() - 1;
+}
+
+/**
+ * Book a department's approved labor cost for a period to its payroll budget
+ * line for the period's fiscal year. Posting the same period again replaces
+ * the earlier amount, so re-posting after late approvals is safe. A period
+ * that overlaps a different posted period is rejected, since the shared days
+ * would be booked twice.
+ */
+export async function postLaborCost(
+  departmentId: string,
+  start: Date,
+  end: Date,
+  postedById: string
+): Promise<{ error: string } | { posting: { id: string; amount: number; hours: number; budgetItemId: string; previousAmount: number | null } }> {
+  const fiscalYear = await getFiscalYearForDate(end);
+  const budgetItem = await prisma.budgetItem.findFirst({
+    where: { departmentId, fiscalYear, isPayroll: true, isActive: true },
+    orderBy: { code: 'asc' },
+    select: { id: true },
+  });
+  if (!budgetItem) {
+    return { error: `No active payroll budget line for this department in fiscal year ${fiscalYear}` };
+  }
+
+  const report = await getLaborCostReport(start, end, [departmentId]);
+  const { totalCost, totalHours, unratedHours } = report.totals;
+  if (unratedHours > 0) {
+    return { error: `${unratedHours} approved hours have no pay rate. Set pay rates before posting.` };
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const overlapping = await tx.laborCostPosting.findFirst({
+      where: {
+        departmentId,
+        periodStart: { lte: end },
+        periodEnd: { gte: start },
+        NOT: { periodStart: start, periodEnd: end },
+      },
+      orderBy: { periodStart: 'asc' },
+    });
+    if (overlapping) {
+      const range = `${overlapping.periodStart.toISOString().slice(0, 10)} to ${overlapping.periodEnd.toISOString().slice(0, 10)}`;
+      return { error: `This period overlaps labor cost already posted for ${range}. Re-post that period instead.` };
+    }
+
+    const previous = await tx.laborCostPosting.findUnique({
+      where: { departmentId_periodStart_periodEnd: { departmentId, periodStart: start, periodEnd: end } },
+    });
+
+    // Take the earlier posting back off whichever line it went to
+    if (previous) {
+      await tx.budgetItem.update({
+        where: { id: previous.budgetItemId },
+        data: { actualSpent: { decrement: previous.amount } },
+      });
+    }
+
+    const posting = await tx.laborCostPosting.upsert({
+      where: { departmentId_periodStart_periodEnd: { departmentId, periodStart: start, periodEnd: end } },
+      update: { budgetItemId: budgetItem.id, amount: totalCost, hours: totalHours, postedById, postedAt: new Date() },
+      create: {
+        budgetItemId: budgetItem.id,
+        departmentId,
+        periodStart: start,
+        periodEnd: end,
+        amount: totalCost,
+        hours: totalHours,
+        postedById,
+      },
+    });
+
+    await tx.budgetItem.update({
+      where: { id: budgetItem.id },
+      data: { actualSpent: { increment: totalCost } },
+    });
+
+    return {
+      posting: {
+        id: posting.id,
+        amount: posting.amount,
+        hours: posting.hours,
+        budgetItemId: posting.budgetItemId,
+        previousAmount: previous?.amount ?? null,
+      },
+    };
+  });
+}
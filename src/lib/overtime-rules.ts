@@ -0,0 +1,79 @@
+import { prisma } from './prisma';
+import type { OvertimeConfig, OvertimeRuleSet } from '@prisma/client';
+
+/**
+ * Active overtime rule sets for the given users, keyed by user id
+ *
+ * A rule set assigned to the user wins over one assigned to their department.
+ * Users without either are left out so the global OvertimeConfig applies.
+ */
+export async function getOvertimeRuleSetsByUser(
+  userIds: string[]
+): Promise<Record<string, OvertimeRuleSet>> {
+  if (userIds.length === 0) return {};
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: [...new Set(userIds)] } },
+    select: {
+      id: true,
+      overtimeRuleSet: true,
+      department: { select: { overtimeRuleSet: true } },
+    },
+  });
+
+  const ruleSets: Record<string, OvertimeRuleSet> = {};
+  for (const user of users) {
+    const ruleSet = [user.overtimeRuleSet, user.department?.overtimeRuleSet].find((r) => r?.isActive);
+    if (ruleSet) {
+      ruleSets[user.id] = ruleSet;
+    }
+  }
+  return ruleSets;
+}
+
+/**
+ * The overtime config a single user is held to, for threshold checks and alerts
+ *
+ * The user's rule set thresholds replace the global ones; alert, notification
+ * and pay multiplier settings still come from the global config.
+ */
+export async function getOvertimeConfigForUser(
+  userId: string,
+  config: OvertimeConfig | null
+): Promise<OvertimeConfig | null> {
+  const ruleSet = (await getOvertimeRuleSetsByUser([userId]))[userId];
+  if (!ruleSet) return config;
+
+  return {
+    id: config?.id ?? ruleSet.id,
+    alertBeforeDaily: config?.alertBeforeDaily ?? null,
+    alertBeforeWeekly: config?.alertBeforeWeekly ?? null,
+    notifyEmployee: config?.notifyEmployee ?? true,
+    notifyManager: config?.notifyManager ?? true,
+    overtimeMultiplier: config?.overtimeMultiplier ?? 1.5,
+    doubleTimeMultiplier: config?.doubleTimeMultiplier ?? 2,
+    createdAt: config?.createdAt ?? ruleSet.createdAt,
+    updatedAt: config?.updatedAt ?? ruleSet.updatedAt,
+    dailyThreshold: ruleSet.dailyThreshold,
+    weeklyThreshold: ruleSet.weeklyThreshold,
+  };
+}
+
+/**
+ * Check that a rule set's thresholds make sense together
+ *
+ * @returns An error message, or null when the thresholds are valid
+ */
+export function validateOvertimeRuleThresholds(rules: {
+  dailyThreshold: number | null;
+  dailyDoubleTimeThreshold: number | null;
+}): string | null {
+  if (
+    rules.dailyThreshold !== null &&
+    rules.dailyDoubleTimeThreshold !== null &&
+    rules.dailyDoubleTimeThreshold <= rules.dailyThreshold
+  ) {
+    return 'Daily double time must start after daily overtime';
+  }
+  return null;
+}
@@ -2,11 +2,22 @@
  * Overtime Calculation Service
  *
  * Calculates regular and overtime hours for timeclock entries
- * based on configured daily and weekly thresholds.
+ * based on configured daily, double-time and weekly thresholds.
  */
 
 import { OvertimeConfig } from '@prisma/client';
 
+// Thresholds used by the calculation, from OvertimeConfig or an OvertimeRuleSet
+export interface OvertimeRules {
+  dailyThreshold: number | null;
+  weeklyThreshold: number | null;
+  dailyDoubleTimeThreshold?: number | null;
+  seventhDayRule?: boolean;
+}
+
+// Minutes on a 7th consecutive day after which time is double time
+export const SEVENTH_DAY_DOUBLE_TIME_AFTER = 8 * 60;
+
 // Type for timeclock entry used in calculations
 export interface TimeclockEntryForCalculation {
   id: string;
@@ -15,6 +26,19 @@ export interface TimeclockEntryForCalculation {
   clockOut: Date | null;
   duration: number | null; // Duration in seconds
   status: string;
+  jobCodeId?: string | null;
+}
+
+// Key used in per-job breakdowns for time not charged to a job code
+export const NO_JOB_CODE = 'none';
+
+// Regular and OT minutes charged to one job code, or worked on one entry
+export interface JobCodeMinutes {
+  regularMinutes: number;
+  dailyOvertimeMinutes: number;
+  doubleTimeMinutes: number;
+  weeklyOvertimeMinutes: number;
+  totalMinutes: number;
 }
 
 // Result for a single employee
@@ -22,9 +46,12 @@ export interface EmployeeOvertimeResult {
   userId: string;
   regularMinutes: number;
   dailyOvertimeMinutes: number;
+  doubleTimeMinutes: number;
   weeklyOvertimeMinutes: number;
   totalMinutes: number;
   entriesProcessed: number;
+  jobCodes: Record<string, JobCodeMinutes>; // Keyed by job code id, or NO_JOB_CODE
+  entries: Record<string, JobCodeMinutes>; // Keyed by entry id
 }
 
 // Result for the entire calculation
@@ -32,6 +59,7 @@ export interface OvertimeCalculationResult {
   employees: Record<string, EmployeeOvertimeResult>;
   totalRegularMinutes: number;
   totalDailyOvertimeMinutes: number;
+  totalDoubleTimeMinutes: number;
   totalWeeklyOvertimeMinutes: number;
 }
 
@@ -71,16 +99,22 @@ function getWeekStart(date: Date, timezone: string = 'UTC'): string {
  * Calculate overtime for a set of entries
  *
  * Daily OT: hours exceeding daily threshold per day
+ * Double time: hours exceeding the daily double-time threshold per day
+ * 7th day: with seventhDayRule, the 7th consecutive workday of a week is OT
+ *   for its first 8 hours and double time after
  * Weekly OT: hours exceeding weekly threshold (after daily OT is subtracted)
  *
  * @param entries - Array of timeclock entries with completed clock out
  * @param config - Overtime configuration (thresholds in minutes)
+ * @param timezone - Timezone used to group entries into days and weeks
+ * @param userRules - Rule sets keyed by user id; these replace config for those users
  * @returns Calculation results with regular and OT breakdown
  */
 export function calculateOvertime(
   entries: TimeclockEntryForCalculation[],
-  config: OvertimeConfig | null,
-  timezone: string = 'UTC'
+  config: OvertimeRules | null,
+  timezone: string = 'UTC',
+  userRules: Record<string, OvertimeRules> = {}
 ): OvertimeCalculationResult {
   // Group entries by employee
   const employeeEntries: Record<string, TimeclockEntryForCalculation[]> = {};
@@ -99,6 +133,7 @@ export function calculateOvertime(
     employees: {},
     totalRegularMinutes: 0,
     totalDailyOvertimeMinutes: 0,
+    totalDoubleTimeMinutes: 0,
     totalWeeklyOvertimeMinutes: 0,
   };
 
@@ -106,12 +141,13 @@ export function calculateOvertime(
   for (const userId of Object.keys(employeeEntries)) {
     const employeeResult = calculateEmployeeOvertime(
       employeeEntries[userId],
-      config,
+      userRules[userId] || config,
       timezone
     );
     result.employees[userId] = employeeResult;
     result.totalRegularMinutes += employeeResult.regularMinutes;
     result.totalDailyOvertimeMinutes += employeeResult.dailyOvertimeMinutes;
+    result.totalDoubleTimeMinutes += employeeResult.doubleTimeMinutes;
     result.totalWeeklyOvertimeMinutes += employeeResult.weeklyOvertimeMinutes;
   }
 
@@ -120,96 +156,138 @@ export function calculateOvertime(
 
 /**
  * Calculate overtime for a single employee
+ *
+ * Entries are walked in clock-in order so overtime is charged to whichever
+ * job was being worked when a threshold was crossed. The employee totals are
+ * the sum of the per-job minutes.
  */
 function calculateEmployeeOvertime(
   entries: TimeclockEntryForCalculation[],
-  config: OvertimeConfig | null,
+  rules: OvertimeRules | null,
   timezone: string = 'UTC'
 ): EmployeeOvertimeResult {
   const userId = entries[0]?.userId || '';
+  const jobCodes: Record<string, JobCodeMinutes> = {};
+  const entryMinutes: Record<string, JobCodeMinutes> = {};
 
-  // If no config or no thresholds, all time is regular
-  if (!config || (config.dailyThreshold === null && config.weeklyThreshold === null)) {
-    const totalMinutes = entries.reduce((sum, entry) => {
-      return sum + Math.floor((entry.duration || 0) / 60);
-    }, 0);
-
-    return {
-      userId,
-      regularMinutes: totalMinutes,
-      dailyOvertimeMinutes: 0,
-      weeklyOvertimeMinutes: 0,
-      totalMinutes,
-      entriesProcessed: entries.length,
-    };
-  }
+  const dailyThreshold = rules?.dailyThreshold ?? null;
+  const doubleTimeThreshold = rules?.dailyDoubleTimeThreshold ?? null;
+  const weeklyThreshold = rules?.weeklyThreshold ?? null;
 
-  const dailyThreshold = config.dailyThreshold; // minutes or null
-  const weeklyThreshold = config.weeklyThreshold; // minutes or null
+  const sorted = [...entries].sort((a, b) => a.clockIn.getTime() - b.clockIn.getTime());
+  const seventhDays = rules?.seventhDayRule ? findSeventhDays(sorted, timezone) : new Set<string>();
 
-  // Group entries by day
-  const dailyMinutes: Record<string, number> = {};
+  const dayMinutes: Record<string, number> = {};
+  const weekRegularMinutes: Record<string, number> = {};
 
-  for (const entry of entries) {
-    const dateKey = getDateKey(entry.clockIn, timezone);
+  for (const entry of sorted) {
     const minutes = Math.floor((entry.duration || 0) / 60);
-    dailyMinutes[dateKey] = (dailyMinutes[dateKey] || 0) + minutes;
-  }
-
-  // Calculate daily regular and daily OT
-  let totalDailyRegular = 0;
-  let totalDailyOT = 0;
-  const dailyRegularByDay: Record<string, number> = {};
-
-  for (const dateKey of Object.keys(dailyMinutes)) {
-    const dayTotal = dailyMinutes[dateKey];
-
-    if (dailyThreshold !== null && dayTotal > dailyThreshold) {
-      // Some OT on this day
-      totalDailyRegular += dailyThreshold;
-      totalDailyOT += dayTotal - dailyThreshold;
-      dailyRegularByDay[dateKey] = dailyThreshold;
-    } else {
-      // All regular on this day
-      totalDailyRegular += dayTotal;
-      dailyRegularByDay[dateKey] = dayTotal;
+    const dateKey = getDateKey(entry.clockIn, timezone);
+    const weekKey = getWeekStart(new Date(dateKey + 'T12:00:00'), timezone); // Use noon to avoid DST issues
+
+    // On a 7th consecutive day every minute is premium
+    const isSeventhDay = seventhDays.has(dateKey);
+    const premiumAfter = isSeventhDay ? 0 : minThreshold(dailyThreshold, doubleTimeThreshold);
+    const doubleAfter = isSeventhDay ? SEVENTH_DAY_DOUBLE_TIME_AFTER : doubleTimeThreshold;
+
+    // Daily premium: minutes past the daily (or double-time) threshold
+    const workedToday = dayMinutes[dateKey] || 0;
+    const dailyRegular = premiumAfter === null
+      ? minutes
+      : Math.min(minutes, Math.max(0, premiumAfter - workedToday));
+    const doubleTime = doubleAfter === null
+      ? 0
+      : Math.min(minutes, Math.max(0, workedToday + minutes - Math.max(doubleAfter, workedToday)));
+    dayMinutes[dateKey] = workedToday + minutes;
+
+    // Weekly OT: daily-regular minutes past the weekly threshold
+    const regularThisWeek = weekRegularMinutes[weekKey] || 0;
+    const regular = weeklyThreshold === null
+      ? dailyRegular
+      : Math.min(dailyRegular, Math.max(0, weeklyThreshold - regularThisWeek));
+    weekRegularMinutes[weekKey] = regularThisWeek + dailyRegular;
+
+    const split: JobCodeMinutes = {
+      regularMinutes: regular,
+      dailyOvertimeMinutes: minutes - dailyRegular - doubleTime,
+      doubleTimeMinutes: doubleTime,
+      weeklyOvertimeMinutes: dailyRegular - regular,
+      totalMinutes: minutes,
+    };
+    entryMinutes[entry.id] = split;
+
+    const key = entry.jobCodeId || NO_JOB_CODE;
+    if (!jobCodes[key]) {
+      jobCodes[key] = {
+        regularMinutes: 0,
+        dailyOvertimeMinutes: 0,
+        doubleTimeMinutes: 0,
+        weeklyOvertimeMinutes: 0,
+        totalMinutes: 0,
+      };
     }
+    jobCodes[key].regularMinutes += split.regularMinutes;
+    jobCodes[key].dailyOvertimeMinutes += split.dailyOvertimeMinutes;
+    jobCodes[key].doubleTimeMinutes += split.doubleTimeMinutes;
+    jobCodes[key].weeklyOvertimeMinutes += split.weeklyOvertimeMinutes;
+    jobCodes[key].totalMinutes += split.totalMinutes;
   }
 
-  // Calculate weekly OT (from the regular minutes, after daily OT removed)
-  let weeklyOT = 0;
+  const totals = Object.values(jobCodes).reduce(
+    (sum, job) => ({
+      regularMinutes: sum.regularMinutes + job.regularMinutes,
+      dailyOvertimeMinutes: sum.dailyOvertimeMinutes + job.dailyOvertimeMinutes,
+      doubleTimeMinutes: sum.doubleTimeMinutes + job.doubleTimeMinutes,
+      weeklyOvertimeMinutes: sum.weeklyOvertimeMinutes + job.weeklyOvertimeMinutes,
+      totalMinutes: sum.totalMinutes + job.totalMinutes,
+    }),
+    { regularMinutes: 0, dailyOvertimeMinutes: 0, doubleTimeMinutes: 0, weeklyOvertimeMinutes: 0, totalMinutes: 0 }
+  );
 
-  if (weeklyThreshold !== null) {
-    // Group daily regular by week
-    const weeklyRegular: Record<string, number> = {};
+  return {
+    userId,
+    ...totals,
+    entriesProcessed: entries.length,
+    jobCodes,
+    entries: entryMinutes,
+  };
+}
 
-    for (const dateKey of Object.keys(dailyRegularByDay)) {
-      const date = new Date(dateKey + 'T12:00:00'); // Use noon to avoid DST issues
-      const weekKey = getWeekStart(date, timezone);
-      weeklyRegular[weekKey] = (weeklyRegular[weekKey] || 0) + dailyRegularByDay[dateKey];
-    }
+/**
+ * The lower of two optional thresholds
+ */
+function minThreshold(a: number | null, b: number | null): number | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return Math.min(a, b);
+}
+
+/**
+ * Days that are the 7th consecutive workday of their week
+ *
+ * The workweek starts on Sunday, so a 7th consecutive day within one
+ * workweek is a Saturday after work on each of the six days before it.
+ */
+function findSeventhDays(entries: TimeclockEntryForCalculation[], timezone: string): Set<string> {
+  const daysByWeek: Record<string, Set<string>> = {};
 
-    // Check each week for weekly OT
-    for (const weekKey of Object.keys(weeklyRegular)) {
-      const weekTotal = weeklyRegular[weekKey];
-      if (weekTotal > weeklyThreshold) {
-        weeklyOT += weekTotal - weeklyThreshold;
-      }
+  for (const entry of entries) {
+    if (!entry.duration || entry.duration < 60) continue;
+    const dateKey = getDateKey(entry.clockIn, timezone);
+    const weekKey = getWeekStart(new Date(dateKey + 'T12:00:00'), timezone);
+    if (!daysByWeek[weekKey]) {
+      daysByWeek[weekKey] = new Set();
     }
+    daysByWeek[weekKey].add(dateKey);
   }
 
-  // Regular = total daily regular - weekly OT
-  const regularMinutes = totalDailyRegular - weeklyOT;
-  const totalMinutes = regularMinutes + totalDailyOT + weeklyOT;
-
-  return {
-    userId,
-    regularMinutes,
-    dailyOvertimeMinutes: totalDailyOT,
-    weeklyOvertimeMinutes: weeklyOT,
-    totalMinutes,
-    entriesProcessed: entries.length,
-  };
+  const seventhDays = new Set<string>();
+  for (const days of Object.values(daysByWeek)) {
+    if (days.size === 7) {
+      seventhDays.add([...days].sort()[6]);
+    }
+  }
+  return seventhDays;
 }
 
 /**
@@ -30,6 +30,20 @@ export async function getPayPeriodLockStatus(
   };
 }
 
+/**
+ * Whether a date falls inside an active pay period lock
+ */
+export async function isInLockedPayPeriod(date: Date): Promise<boolean> {
+  const count = await prisma.payPeriodLock.count({
+    where: {
+      isActive: true,
+      periodStart: { lte: date },
+      periodEnd: { gte: date },
+    },
+  });
+  return count > 0;
+}
+
 /**
  * Lock a pay period
  */
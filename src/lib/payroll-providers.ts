@@ -0,0 +1,370 @@
+import { prisma } from './prisma';
+import { escapeCSV, sanitizeCSVValue } from './csv-sanitize';
+
+/**
+ * Kinds of hours sent to payroll
+ */
+export const PAYROLL_EARNING_TYPES = {
+  regular: 'Regular',
+  overtime: 'Overtime',
+  doubleTime: 'Double time',
+  leave: 'Paid leave',
+} as const;
+
+export type PayrollEarningType = keyof typeof PAYROLL_EARNING_TYPES;
+
+export type PayrollProviderId = 'adp' | 'paychex' | 'gusto' | 'qbtime';
+
+export interface PayrollEmployeeHours {
+  employeeName: string;
+  payrollEmployeeId: string | null;
+  hours: Record<PayrollEarningType, number>;
+}
+
+export interface PayrollProviderSettings {
+  companyCode: string | null;
+  batchId: string | null;
+  earningCodes: Record<PayrollEarningType, string>;
+}
+
+export interface PayrollFile {
+  content: string;
+  filename: string;
+  contentType: string;
+}
+
+// Pay period as YYYY-MM-DD dates
+type PayrollPeriod = { start: string; end: string };
+
+interface PayrollProvider {
+  label: string;
+  description: string;
+  // Null when the provider's file carries no company code
+  companyCodeLabel: string | null;
+  companyCodePattern: RegExp | null;
+  companyCodeHint: string | null;
+  // Whether the file carries a batch ID (defaults to the period end)
+  hasBatchId: boolean;
+  employeeIdPattern: RegExp;
+  employeeIdHint: string;
+  // Earning types the file identifies by code rather than by column
+  codedEarnings: PayrollEarningType[];
+  maxEarningCodeLength: number;
+  defaultEarningCodes: Record<PayrollEarningType, string>;
+  render(rows: PayrollEmployeeHours[], settings: PayrollProviderSettings, period: PayrollPeriod): PayrollFile;
+}
+
+function formatHours(hours: number): string {
+  return hours.toFixed(2);
+}
+
+/**
+ * YYYY-MM-DD as MM{sep}DD{sep}YYYY
+ */
+function formatUsDate(date: string, separator: string): string {
+  const [year, month, day] = date.split('-');
+  return [month, day, year].join(separator);
+}
+
+function splitName(name: string): { first: string; last: string } {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length === 1) return { first: parts[0], last: '' };
+  return { first: parts.slice(0, -1).join(' '), last: parts[parts.length - 1] };
+}
+
+// Earnings with hours to send, in file order
+function earningsWithHours(row: PayrollEmployeeHours): PayrollEarningType[] {
+  return (Object.keys(PAYROLL_EARNING_TYPES) as PayrollEarningType[]).filter(
+    (type) => Math.round(row.hours[type] * 100) > 0
+  );
+}
+
+export const PAYROLL_PROVIDERS: Record<PayrollProviderId, PayrollProvider> = {
+  // ADP Workforce Now paydata import (EPI): one row per employee, regular and
+  // overtime in fixed columns, other hours under Hours 3 / Hours 4 codes
+  adp: {
+    label: 'ADP Workforce Now',
+    description: 'Paydata import file (PRcccEPI.csv)',
+    companyCodeLabel: 'Company code',
+    companyCodePattern: /^[A-Z0-9]{3}$/,
+    companyCodeHint: '3 letters or digits',
+    hasBatchId: true,
+    employeeIdPattern: /^\d{1,6}$/,
+    employeeIdHint: 'a file number of up to 6 digits',
+    codedEarnings: ['doubleTime', 'leave'],
+    maxEarningCodeLength: 3,
+    defaultEarningCodes: { regular: '', overtime: '', doubleTime: 'D', leave: 'V' },
+    render(rows, settings, period) {
+      // Batch defaults to the period end as MMDDYY
+      const batchId = settings.batchId || formatUsDate(period.end, '').replace(/^(\d{4})\d{2}/, '$1');
+      const lines = [
+        'Co Code,Batch ID,File #,Reg Hours,O/T Hours,Hours 3 Code,Hours 3 Amount,Hours 4 Code,Hours 4 Amount',
+      ];
+
+      for (const row of rows) {
+        const { doubleTime, leave } = row.hours;
+        lines.push(
+          [
+            settings.companyCode,
+            batchId,
+            row.payrollEmployeeId!.padStart(6, '0'),
+            formatHours(row.hours.regular),
+            formatHours(row.hours.overtime),
+            doubleTime > 0 ? settings.earningCodes.doubleTime : '',
+            doubleTime > 0 ? formatHours(doubleTime) : '',
+            leave > 0 ? settings.earningCodes.leave : '',
+            leave > 0 ? formatHours(leave) : '',
+          ].join(',')
+        );
+      }
+
+      return {
+        content: lines.join('\r\n') + '\r\n',
+        filename: `PR${settings.companyCode}EPI.csv`,
+        contentType: 'text/csv',
+      };
+    },
+  },
+
+  // Paychex fixed-width hours import: one 34-character line per employee and
+  // earning. Client ID (8, left-aligned), worker ID (6, zero-filled), earning
+  // code (5, left-aligned), hours (7, zero-filled, 2 implied decimals) and
+  // period end date (MMDDYYYY).
+  paychex: {
+    label: 'Paychex Flex',
+    description: 'Fixed-width hours import (.txt)',
+    companyCodeLabel: 'Client ID',
+    companyCodePattern: /^[A-Z0-9]{1,8}$/,
+    companyCodeHint: 'up to 8 letters or digits',
+    hasBatchId: false,
+    employeeIdPattern: /^\d{1,6}$/,
+    employeeIdHint: 'a worker ID of up to 6 digits',
+    codedEarnings: ['regular', 'overtime', 'doubleTime', 'leave'],
+    maxEarningCodeLength: 5,
+    defaultEarningCodes: { regular: 'REG', overtime: 'OT', doubleTime: 'DT', leave: 'PTO' },
+    render(rows, settings, period) {
+      const periodEnd = formatUsDate(period.end, '');
+      const lines: string[] = [];
+
+      for (const row of rows) {
+        for (const type of earningsWithHours(row)) {
+          lines.push(
+            settings.companyCode!.padEnd(8) +
+              row.payrollEmployeeId!.padStart(6, '0') +
+              settings.earningCodes[type].padEnd(5) +
+              String(Math.round(row.hours[type] * 100)).padStart(7, '0') +
+              periodEnd
+          );
+        }
+      }
+
+      return {
+        content: lines.join('\r\n') + '\r\n',
+        filename: `paychex-${settings.companyCode}-${period.end}.txt`,
+        contentType: 'text/plain',
+      };
+    },
+  },
+
+  // Gusto hours import: one row per employee, every field quoted
+  gusto: {
+    label: 'Gusto',
+    description: 'Hours import CSV',
+    companyCodeLabel: null,
+    companyCodePattern: null,
+    companyCodeHint: null,
+    hasBatchId: false,
+    employeeIdPattern: /^[A-Za-z0-9-]{1,36}$/,
+    employeeIdHint: 'the Gusto employee ID',
+    codedEarnings: [],
+    maxEarningCodeLength: 0,
+    defaultEarningCodes: { regular: '', overtime: '', doubleTime: '', leave: '' },
+    render(rows, _settings, period) {
+      const quote = (value: string) => `"${sanitizeCSVValue(value).replace(/"/g, '""')}"`;
+      const lines = [
+        ['last_name', 'first_name', 'employee_id', 'regular_hours', 'overtime_hours', 'double_overtime_hours', 'pto_hours']
+          .map(quote)
+          .join(','),
+      ];
+
+      for (const row of rows) {
+        const { first, last } = splitName(row.employeeName);
+        lines.push(
+          [
+            last,
+            first,
+            row.payrollEmployeeId!,
+            formatHours(row.hours.regular),
+            formatHours(row.hours.overtime),
+            formatHours(row.hours.doubleTime),
+            formatHours(row.hours.leave),
+          ]
+            .map(quote)
+            .join(',')
+        );
+      }
+
+      return {
+        content: lines.join('\n') + '\n',
+        filename: `gusto-hours-${period.start}-to-${period.end}.csv`,
+        contentType: 'text/csv',
+      };
+    },
+  },
+
+  // QuickBooks Time payroll hours: one row per employee and payroll item,
+  // dated the last day of the period
+  qbtime: {
+    label: 'QuickBooks Time',
+    description: 'Payroll hours CSV',
+    companyCodeLabel: null,
+    companyCodePattern: null,
+    companyCodeHint: null,
+    hasBatchId: false,
+    employeeIdPattern: /^[A-Za-z0-9-]{1,36}$/,
+    employeeIdHint: 'the QuickBooks employee ID',
+    codedEarnings: ['regular', 'overtime', 'doubleTime', 'leave'],
+    maxEarningCodeLength: 31,
+    defaultEarningCodes: {
+      regular: 'Hourly',
+      overtime: 'Overtime (1.5x)',
+      doubleTime: 'Double Time (2x)',
+      leave: 'Paid Time Off',
+    },
+    render(rows, settings, period) {
+      const date = formatUsDate(period.end, '/');
+      const lines = ['Employee ID,Date,Payroll Item,Hours'];
+
+      for (const row of rows) {
+        for (const type of earningsWithHours(row)) {
+          lines.push(
+            [row.payrollEmployeeId!, date, settings.earningCodes[type], formatHours(row.hours[type])]
+              .map(escapeCSV)
+              .join(',')
+          );
+        }
+      }
+
+      return {
+        content: lines.join('\n') + '\n',
+        filename: `quickbooks-time-${period.start}-to-${period.end}.csv`,
+        contentType: 'text/csv',
+      };
+    },
+  },
+};
+
+export function isPayrollProviderId(value: unknown): value is PayrollProviderId {
+  return typeof value === 'string' && value in PAYROLL_PROVIDERS;
+}
+
+/**
+ * A provider's saved company and earning code mappings, with its default
+ * earning codes filling any gaps
+ */
+export async function getPayrollProviderSettings(providerId: PayrollProviderId): Promise<PayrollProviderSettings> {
+  const provider = PAYROLL_PROVIDERS[providerId];
+  const config = await prisma.payrollProviderConfig.findUnique({ where: { provider: providerId } });
+
+  let saved: Partial<Record<PayrollEarningType, string>> = {};
+  try {
+    saved = config ? JSON.parse(config.earningCodes) : {};
+  } catch {
+    saved = {};
+  }
+
+  const earningCodes = { ...provider.defaultEarningCodes };
+  for (const type of provider.codedEarnings) {
+    if (typeof saved[type] === 'string' && saved[type]) {
+      earningCodes[type] = saved[type];
+    }
+  }
+
+  return {
+    companyCode: config?.companyCode || null,
+    batchId: config?.batchId || null,
+    earningCodes,
+  };
+}
+
+/**
+ * Everything that would make the provider reject the file: missing or
+ * malformed company codes, earning codes and employee payroll IDs
+ *
+ * @returns Problems to fix before exporting; empty when the file can be built
+ */
+export function validatePayrollExport(
+  providerId: PayrollProviderId,
+  settings: PayrollProviderSettings,
+  rows: PayrollEmployeeHours[]
+): string[] {
+  const provider = PAYROLL_PROVIDERS[providerId];
+  const problems: string[] = [];
+
+  if (provider.companyCodeLabel) {
+    if (!settings.companyCode) {
+      problems.push(`${provider.label} ${provider.companyCodeLabel.toLowerCase()} is not set`);
+    } else if (provider.companyCodePattern && !provider.companyCodePattern.test(settings.companyCode)) {
+      problems.push(`${provider.companyCodeLabel} must be ${provider.companyCodeHint}`);
+    }
+  }
+
+  for (const type of provider.codedEarnings) {
+    const code = settings.earningCodes[type];
+    const used = rows.some((row) => row.hours[type] > 0);
+    if (!code) {
+      if (used) problems.push(`No ${provider.label} earning code is set for ${PAYROLL_EARNING_TYPES[type].toLowerCase()} hours`);
+    } else if (code.length > provider.maxEarningCodeLength) {
+      problems.push(`Earning code "${code}" is longer than ${provider.maxEarningCodeLength} characters`);
+    }
+  }
+
+  const missing = rows.filter((row) => !row.payrollEmployeeId).map((row) => row.employeeName);
+  if (missing.length > 0) {
+    problems.push(`No payroll ID for: ${missing.join(', ')}`);
+  }
+
+  for (const row of rows) {
+    if (row.payrollEmployeeId && !provider.employeeIdPattern.test(row.payrollEmployeeId)) {
+      problems.push(`Payroll ID for ${row.employeeName} must be ${provider.employeeIdHint}`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Build a provider's import file. Call validatePayrollExport first.
+ */
+export function renderPayrollFile(
+  providerId: PayrollProviderId,
+  settings: PayrollProviderSettings,
+  rows: PayrollEmployeeHours[],
+  period: PayrollPeriod
+): PayrollFile {
+  return PAYROLL_PROVIDERS[providerId].render(rows, settings, period);
+}
+
+/**
+ * Validate a payroll ID change from the user admin form
+ */
+export async function buildPayrollIdUpdate(
+  input: { payrollEmployeeId?: unknown },
+  userId?: string
+): Promise<{ data: { payrollEmployeeId?: string | null } } | { error: string }> {
+  if (input.payrollEmployeeId === undefined) return { data: {} };
+
+  const payrollEmployeeId = typeof input.payrollEmployeeId === 'string' ? input.payrollEmployeeId.trim() : '';
+  if (payrollEmployeeId) {
+    if (!/^[A-Za-z0-9-]{1,36}$/.test(payrollEmployeeId)) {
+      return { error: 'Payroll ID may only contain letters, digits and dashes (max 36)' };
+    }
+
+    const holder = await prisma.user.findUnique({ where: { payrollEmployeeId }, select: { id: true } });
+    if (holder && holder.id !== userId) {
+      return { error: 'Payroll ID is already assigned to another user' };
+    }
+  }
+
+  return { data: { payrollEmployeeId: payrollEmployeeId || null } };
+}
@@ -0,0 +1,214 @@
+import { prisma } from './prisma';
+import { PrismaClient } from '@prisma/client';
+import type { POApprovalStep } from '@prisma/client';
+import type { UserPermissions } from './check-permissions';
+import type { ProposedLineItem } from './po-change-orders';
+
+type PrismaTransactionClient = Parameters<Parameters<PrismaClient['$transaction']>[0]>[0];
+type PrismaLike = PrismaClient | PrismaTransactionClient;
+
+export type ApproverType = 'DEPARTMENT_MANAGER' | 'ROLE' | 'USER';
+
+export const APPROVER_TYPES: ApproverType[] = ['DEPARTMENT_MANAGER', 'ROLE', 'USER'];
+
+type ApprovalStepAssignment = Pick<POApprovalStep, 'approverType' | 'approverRoleId' | 'approverUserId'>;
+
+/**
+ * Pick the chain for a department and set of budget categories.
+ *
+ * Chains are scoped by department and/or budget category (null = any).
+ * The most specific match wins: department + category, then department only,
+ * then category only, then the catch-all chain.
+ */
+async function findApprovalChain(departmentId: string | null, categoryIds: Set<string>, db: PrismaLike) {
+  const chains = await db.approvalChain.findMany({
+    where: { isActive: true },
+    include: { steps: { orderBy: { stepOrder: 'asc' } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  let best: (typeof chains)[number] | null = null;
+  let bestScore = -1;
+
+  for (const chain of chains) {
+    if (chain.departmentId && chain.departmentId !== departmentId) continue;
+    if (chain.budgetCategoryId && !categoryIds.has(chain.budgetCategoryId)) continue;
+
+    const score = (chain.departmentId ? 2 : 0) + (chain.budgetCategoryId ? 1 : 0);
+    if (score > bestScore) {
+      best = chain;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Find the approval chain that applies to a PO
+ */
+export async function resolveApprovalChain(purchaseOrderId: string, db: PrismaLike = prisma) {
+  const po = await db.purchaseOrder.findUnique({
+    where: { id: purchaseOrderId },
+    include: {
+      lineItems: {
+        include: {
+          budgetItem: { select: { categoryId: true } },
+        },
+      },
+    },
+  });
+
+  if (!po) {
+    throw new Error('Purchase order not found');
+  }
+
+  const categoryIds = new Set<string>();
+  for (const lineItem of po.lineItems) {
+    if (lineItem.budgetItem?.categoryId) {
+      categoryIds.add(lineItem.budgetItem.categoryId);
+    }
+  }
+
+  const chain = await findApprovalChain(po.departmentId, categoryIds, db);
+  return { po, chain };
+}
+
+/**
+ * Chain steps that apply to a PO as it stands now.
+ * Steps whose minAmount is not exceeded by the PO total are left out.
+ */
+export async function getRequiredApprovalSteps(purchaseOrderId: string, db: PrismaLike = prisma) {
+  const { po, chain } = await resolveApprovalChain(purchaseOrderId, db);
+  if (!chain) return [];
+
+  return chain.steps.filter((step) => step.minAmount <= 0 || po.totalAmount > step.minAmount);
+}
+
+/**
+ * Snapshot the applicable chain steps onto a submitted PO.
+ * Returns the number of steps created (0 = no chain applies).
+ */
+export async function createApprovalSteps(
+  purchaseOrderId: string,
+  tx: PrismaTransactionClient
+): Promise<number> {
+  const requiredSteps = await getRequiredApprovalSteps(purchaseOrderId, tx);
+
+  // Clear steps left over from a previous submission cycle
+  await tx.pOApprovalStep.deleteMany({ where: { purchaseOrderId } });
+
+  for (const step of requiredSteps) {
+    await tx.pOApprovalStep.create({
+      data: {
+        purchaseOrderId,
+        stepOrder: step.stepOrder,
+        name: step.name,
+        approverType: step.approverType,
+        approverRoleId: step.approverRoleId,
+        approverUserId: step.approverUserId,
+      },
+    });
+  }
+
+  return requiredSteps.length;
+}
+
+/**
+ * Snapshot the applicable chain steps onto a change order awaiting approval.
+ * The chain is resolved against the revised line items and total, as if the
+ * PO were being submitted with them. Returns the number of steps created
+ * (0 = no chain applies).
+ */
+export async function createChangeOrderApprovalSteps(
+  changeOrderId: string,
+  tx: PrismaTransactionClient
+): Promise<number> {
+  const changeOrder = await tx.pOChangeOrder.findUnique({
+    where: { id: changeOrderId },
+    include: { purchaseOrder: { select: { departmentId: true } } },
+  });
+
+  if (!changeOrder) {
+    throw new Error('Change order not found');
+  }
+
+  const proposed: ProposedLineItem[] = JSON.parse(changeOrder.lineItems);
+  const budgetItems = await tx.budgetItem.findMany({
+    where: { id: { in: proposed.map((item) => item.budgetItemId) } },
+    select: { categoryId: true },
+  });
+  const categoryIds = new Set<string>();
+  for (const budgetItem of budgetItems) {
+    if (budgetItem.categoryId) {
+      categoryIds.add(budgetItem.categoryId);
+    }
+  }
+
+  const chain = await findApprovalChain(changeOrder.purchaseOrder.departmentId, categoryIds, tx);
+  if (!chain) return 0;
+
+  const requiredSteps = chain.steps.filter(
+    (step) => step.minAmount <= 0 || changeOrder.newTotal > step.minAmount
+  );
+
+  for (const step of requiredSteps) {
+    await tx.pOChangeOrderApprovalStep.create({
+      data: {
+        changeOrderId,
+        stepOrder: step.stepOrder,
+        name: step.name,
+        approverType: step.approverType,
+        approverRoleId: step.approverRoleId,
+        approverUserId: step.approverUserId,
+      },
+    });
+  }
+
+  return requiredSteps.length;
+}
+
+/**
+ * Get the next step awaiting sign-off, or null if all steps are approved
+ */
+export function getCurrentStep<T extends { status: string; stepOrder: number }>(steps: T[]): T | null {
+  const pending = steps
+    .filter((step) => step.status === 'PENDING')
+    .sort((a, b) => a.stepOrder - b.stepOrder);
+  return pending[0] || null;
+}
+
+/**
+ * Check if a user is eligible to sign off a specific approval step
+ */
+export async function canUserApproveStep(
+  step: ApprovalStepAssignment,
+  user: { id: string; roleId: string },
+  permissions: UserPermissions,
+  departmentId: string | null,
+  db: PrismaLike = prisma
+): Promise<boolean> {
+  if (permissions._isAdmin === true) {
+    return true;
+  }
+
+  if (permissions.purchaseOrders?.canApprove !== true) {
+    return false;
+  }
+
+  switch (step.approverType as ApproverType) {
+    case 'USER':
+      return step.approverUserId === user.id;
+    case 'ROLE':
+      return step.approverRoleId === user.roleId;
+    case 'DEPARTMENT_MANAGER': {
+      if (!departmentId) return false;
+      const assignment = await db.managerAssignment.findUnique({
+        where: { userId_departmentId: { userId: user.id, departmentId } },
+      });
+      return assignment !== null;
+    }
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,318 @@
+import { PrismaClient } from '@prisma/client';
+import { updateBudgetFromPO } from './budget-tracking';
+import {
+  BudgetPolicyError,
+  checkBudgetPolicy,
+  formatOverdraft,
+  recordBudgetOverrides,
+} from './budget-policy';
+import type { BudgetOverdraft } from './budget-policy';
+
+type PrismaTransactionClient = Parameters<Parameters<PrismaClient['$transaction']>[0]>[0];
+
+// Allow for floating point noise when comparing amounts
+const AMOUNT_TOLERANCE = 0.005;
+
+export type ProposedLineItem = {
+  id?: string;
+  description: string;
+  amount: number;
+  budgetItemId: string;
+};
+
+type CurrentLineItem = {
+  id: string;
+  description: string;
+  amount: number;
+  budgetItemId: string;
+  receivedAmount: number;
+  releasedAmount: number;
+};
+
+type LineItemValues = {
+  description: string;
+  amount: number;
+  budgetItemId: string;
+};
+
+export type ChangeOrderBudgetOverride = {
+  // Whether the reviewer may override budget lines under the OVERRIDE policy
+  canOverride: boolean;
+  justification?: string | null;
+};
+
+/**
+ * Thrown when a change order can no longer be applied as it stands, e.g.
+ * another reviewer acted on it first or items were received since it was
+ * raised; the surrounding transaction is rolled back
+ */
+export class ChangeOrderError extends Error {}
+
+export type LineItemDiff = {
+  added: LineItemValues[];
+  removed: (LineItemValues & { id: string })[];
+  changed: { id: string; before: LineItemValues; after: LineItemValues }[];
+};
+
+/**
+ * Display form of a PO number including its revision, e.g. "PO-2026-0042 rev 2".
+ * The original approved PO (revision 1) is shown without a suffix.
+ */
+export function formatPONumber(poNumber: string, revision: number): string {
+  return revision > 1 ? `${poNumber} rev ${revision}` : poNumber;
+}
+
+/**
+ * Diff the current line items of a PO against a proposed set.
+ * Proposed items carrying an id update that line; items without one are new.
+ */
+export function diffLineItems(current: CurrentLineItem[], proposed: ProposedLineItem[]): LineItemDiff {
+  const diff: LineItemDiff = { added: [], removed: [], changed: [] };
+  const proposedIds = new Set(proposed.filter((item) => item.id).map((item) => item.id));
+
+  for (const item of proposed) {
+    const values = { description: item.description, amount: item.amount, budgetItemId: item.budgetItemId };
+    const existing = item.id ? current.find((li) => li.id === item.id) : undefined;
+
+    if (!existing) {
+      diff.added.push(values);
+      continue;
+    }
+
+    if (
+      existing.description !== item.description ||
+      Math.abs(existing.amount - item.amount) > AMOUNT_TOLERANCE ||
+      existing.budgetItemId !== item.budgetItemId
+    ) {
+      diff.changed.push({
+        id: existing.id,
+        before: {
+          description: existing.description,
+          amount: existing.amount,
+          budgetItemId: existing.budgetItemId,
+        },
+        after: values,
+      });
+    }
+  }
+
+  for (const existing of current) {
+    if (!proposedIds.has(existing.id)) {
+      diff.removed.push({
+        id: existing.id,
+        description: existing.description,
+        amount: existing.amount,
+        budgetItemId: existing.budgetItemId,
+      });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Whether a change order charges any budget line more than before: a new
+ * line, a line moved to another budget item, or a raised amount. Edits that
+ * only remove lines, lower amounts or reword descriptions leave the approved
+ * allocation intact.
+ */
+export function changesBudgetAllocation(diff: LineItemDiff): boolean {
+  if (diff.added.length > 0) {
+    return true;
+  }
+  return diff.changed.some(
+    (change) =>
+      change.after.budgetItemId !== change.before.budgetItemId ||
+      change.after.amount > change.before.amount + AMOUNT_TOLERANCE
+  );
+}
+
+/**
+ * Check a proposed line item set against what has already been received
+ * (or, for blanket POs, drawn down by releases).
+ * Returns an error message, or null if the change order can be applied.
+ */
+export function validateProposedLineItems(
+  current: CurrentLineItem[],
+  proposed: ProposedLineItem[]
+): string | null {
+  for (const item of proposed) {
+    if (!item.id) continue;
+
+    const existing = current.find((li) => li.id === item.id);
+    if (!existing) {
+      return `Line item ${item.id} does not belong to this purchase order`;
+    }
+    const consumed = existing.receivedAmount + existing.releasedAmount;
+    if (consumed > 0) {
+      if (item.amount + AMOUNT_TOLERANCE < consumed) {
+        return `"${existing.description}" cannot be reduced below the amount already received or released ($${consumed.toFixed(2)})`;
+      }
+      if (item.budgetItemId !== existing.budgetItemId) {
+        return `"${existing.description}" has received or released amounts and cannot be moved to another budget line`;
+      }
+    }
+  }
+
+  const proposedIds = new Set(proposed.filter((item) => item.id).map((item) => item.id));
+  for (const existing of current) {
+    if (!proposedIds.has(existing.id) && existing.receivedAmount + existing.releasedAmount > 0) {
+      return `"${existing.description}" has received or released amounts and cannot be removed`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Apply a change order's line items to its PO and bump the PO revision.
+ *
+ * The budget is adjusted by the delta through updateBudgetFromPO: the effect
+ * of the old line items is released, the lines are rewritten, and the effect
+ * of the new line items is booked in the PO's current status. Budget lines
+ * the change order charges more than before are checked against their
+ * overdraft policy in between; a BudgetPolicyError rolls the change back.
+ *
+ * The change order is claimed and checked against the PO as it stands inside
+ * the transaction, so two reviewers acting at once can't both apply it and a
+ * receive committed since it was raised is taken into account.
+ */
+export async function applyChangeOrder(
+  changeOrderId: string,
+  reviewedById: string,
+  tx: PrismaTransactionClient,
+  reviewNote?: string | null,
+  budgetOverride: ChangeOrderBudgetOverride = { canOverride: false }
+) {
+  const changeOrder = await tx.pOChangeOrder.findUnique({
+    where: { id: changeOrderId },
+    include: {
+      purchaseOrder: { include: { lineItems: true } },
+    },
+  });
+
+  if (!changeOrder) {
+    throw new Error('Change order not found');
+  }
+
+  const { count } = await tx.pOChangeOrder.updateMany({
+    where: { id: changeOrderId, status: 'PENDING_APPROVAL' },
+    data: { status: 'APPROVED' },
+  });
+  if (count === 0) {
+    throw new ChangeOrderError('Only change orders awaiting approval can be updated');
+  }
+
+  const po = changeOrder.purchaseOrder;
+  if (po.status !== 'APPROVED' && po.status !== 'PARTIALLY_RECEIVED') {
+    throw new ChangeOrderError(`Cannot apply a change order to a ${po.status} purchase order`);
+  }
+
+  const proposed: ProposedLineItem[] = JSON.parse(changeOrder.lineItems);
+  const validationError = validateProposedLineItems(po.lineItems, proposed);
+  if (validationError) {
+    throw new ChangeOrderError(validationError);
+  }
+
+  const previousByItem = new Map<string, number>();
+  for (const lineItem of po.lineItems) {
+    previousByItem.set(lineItem.budgetItemId, (previousByItem.get(lineItem.budgetItemId) || 0) + lineItem.amount);
+  }
+
+  // Release the budget effect of the current line items
+  await updateBudgetFromPO(po.id, po.status, 'CANCELLED', tx);
+
+  // Update lines in place so receiving history stays attached
+  const keptIds = new Set(proposed.filter((item) => item.id).map((item) => item.id));
+  await tx.pOLineItem.deleteMany({
+    where: {
+      purchaseOrderId: po.id,
+      id: { notIn: Array.from(keptIds) as string[] },
+    },
+  });
+
+  for (const item of proposed) {
+    if (item.id) {
+      await tx.pOLineItem.update({
+        where: { id: item.id },
+        data: {
+          description: item.description,
+          amount: item.amount,
+          budgetItemId: item.budgetItemId,
+        },
+      });
+    } else {
+      await tx.pOLineItem.create({
+        data: {
+          purchaseOrderId: po.id,
+          description: item.description,
+          amount: item.amount,
+          budgetItemId: item.budgetItemId,
+        },
+      });
+    }
+  }
+
+  // With the PO's own amounts released, the revised lines are checked like a
+  // new submission. Lines the change order doesn't raise are left alone so a
+  // reduction is never blocked by a budget someone else overdrew.
+  const budgetCheck = await checkBudgetPolicy(po.id, tx);
+  const isRaised = (overdraft: BudgetOverdraft) =>
+    overdraft.requested > (previousByItem.get(overdraft.budgetItemId) || 0) + AMOUNT_TOLERANCE;
+
+  const blocked = budgetCheck.blocked.filter(isRaised);
+  if (blocked.length > 0) {
+    throw new BudgetPolicyError(
+      `This change order would overdraw a budget line that does not allow overdrafts: ${blocked
+        .map(formatOverdraft)
+        .join('; ')}`,
+      blocked,
+      false
+    );
+  }
+
+  const overrides = budgetCheck.needsOverride.filter(isRaised);
+  const justification = budgetOverride.justification?.trim();
+  if (overrides.length > 0) {
+    if (!budgetOverride.canOverride || !justification) {
+      throw new BudgetPolicyError(
+        budgetOverride.canOverride
+          ? 'A justification is required to override the budget'
+          : `This change order would overdraw a budget line and needs a budget override: ${overrides
+              .map(formatOverdraft)
+              .join('; ')}`,
+        overrides,
+        true
+      );
+    }
+    await recordBudgetOverrides(po.id, overrides, justification, reviewedById, tx);
+  }
+
+  const budgetWarnings = budgetCheck.overdrafts
+    .filter((overdraft) => isRaised(overdraft) && (overdraft.policy === 'WARN' || overdraft.overridden))
+    .map((overdraft) => `Over budget: ${formatOverdraft(overdraft)}`);
+
+  const revision = po.revision + 1;
+  const purchaseOrder = await tx.purchaseOrder.update({
+    where: { id: po.id },
+    data: {
+      totalAmount: changeOrder.newTotal,
+      revision,
+    },
+  });
+
+  // Book the budget effect of the revised line items
+  await updateBudgetFromPO(po.id, 'CANCELLED', po.status, tx);
+
+  await tx.pOChangeOrder.update({
+    where: { id: changeOrderId },
+    data: {
+      revision,
+      reviewedById,
+      reviewedAt: new Date(),
+      reviewNote: reviewNote || null,
+    },
+  });
+
+  return { purchaseOrder, budgetWarnings, overrides };
+}
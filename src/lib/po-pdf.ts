@@ -0,0 +1,356 @@
+import fs from 'fs';
+import path from 'path';
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import { prisma } from './prisma';
+import { getSettings } from './settings';
+import { resolveUploadPath } from './file-utils';
+import { formatPONumber } from './po-change-orders';
+
+/**
+ * PDF page dimensions (Letter size in points)
+ */
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const LOGO_MAX_WIDTH = 150;
+const LOGO_MAX_HEIGHT = 60;
+
+const AMOUNT_COLUMN_X = PAGE_WIDTH - MARGIN - 90;
+
+type Fonts = { font: PDFFont; boldFont: PDFFont };
+
+/**
+ * Standard fonts only cover WinAnsi; replace anything else so drawText can't throw
+ */
+function pdfSafe(text: string): string {
+  return text.replace(/[\r\t]/g, ' ').replace(/[^\n\x20-\x7E\xA0-\xFF]/g, '?');
+}
+
+function formatCurrency(amount: number): string {
+  return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+/**
+ * Split text into lines that fit within maxWidth at the given size
+ */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of pdfSafe(text).split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth || !line) {
+        line = candidate;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+/**
+ * Embed the organization logo from branding settings, if it is a PNG or JPEG
+ */
+async function embedLogo(pdfDoc: PDFDocument, logoPath: string | null) {
+  if (!logoPath) return null;
+
+  const absolutePath = resolveUploadPath(logoPath);
+  if (!absolutePath || !fs.existsSync(absolutePath)) return null;
+
+  const ext = path.extname(absolutePath).toLowerCase();
+  const bytes = fs.readFileSync(absolutePath);
+
+  try {
+    if (ext === '.png') return await pdfDoc.embedPng(bytes);
+    if (ext === '.jpg' || ext === '.jpeg') return await pdfDoc.embedJpg(bytes);
+  } catch (error) {
+    console.error('Error embedding logo in PO PDF:', error);
+  }
+
+  // SVG and ICO logos can't be embedded by pdf-lib
+  return null;
+}
+
+function drawLineItemHeader(page: PDFPage, y: number, { boldFont }: Fonts) {
+  page.drawRectangle({
+    x: MARGIN,
+    y: y - 5,
+    width: CONTENT_WIDTH,
+    height: 20,
+    color: rgb(0.9, 0.9, 0.9),
+  });
+  page.drawText('#', { x: MARGIN + 5, y, size: 10, font: boldFont });
+  page.drawText('Description', { x: MARGIN + 30, y, size: 10, font: boldFont });
+  page.drawText('Amount', { x: AMOUNT_COLUMN_X, y, size: 10, font: boldFont });
+}
+
+/**
+ * Render the vendor-facing PDF for a purchase order.
+ * Returns null if the purchase order does not exist.
+ */
+export async function generatePurchaseOrderPdf(purchaseOrderId: string): Promise<Uint8Array | null> {
+  const po = await prisma.purchaseOrder.findUnique({
+    where: { id: purchaseOrderId },
+    include: {
+      vendor: true,
+      department: { select: { name: true } },
+      requestedBy: { select: { name: true, email: true } },
+      lineItems: { orderBy: { id: 'asc' } },
+      approvalSteps: {
+        where: { status: 'APPROVED' },
+        orderBy: { stepOrder: 'asc' },
+        include: { actedBy: { select: { name: true } } },
+      },
+    },
+  });
+
+  if (!po) return null;
+
+  const approver = po.approvedBy
+    ? await prisma.user.findUnique({ where: { id: po.approvedBy }, select: { name: true } })
+    : null;
+
+  const settings = getSettings();
+  const orgName = settings.organization.name;
+  const poNumber = formatPONumber(po.poNumber, po.revision);
+
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(`Purchase Order ${poNumber}`);
+  pdfDoc.setAuthor(orgName);
+  pdfDoc.setSubject(`Purchase Order for ${po.vendor.name}`);
+  pdfDoc.setCreator('ITS Business System');
+  pdfDoc.setProducer('pdf-lib');
+  pdfDoc.setCreationDate(new Date());
+
+  const fonts: Fonts = {
+    font: await pdfDoc.embedFont(StandardFonts.Helvetica),
+    boldFont: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+  };
+  const { font, boldFont } = fonts;
+
+  let page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  // Start a new page when fewer than `needed` points remain
+  const ensureSpace = (needed: number) => {
+    if (y - needed < MARGIN) {
+      page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+      return true;
+    }
+    return false;
+  };
+
+  // Header: logo and organization name on the left, PO title on the right
+  const logo = await embedLogo(pdfDoc, settings.organization.logo);
+  let headerBottom = y - 20;
+  if (logo) {
+    const scale = Math.min(LOGO_MAX_WIDTH / logo.width, LOGO_MAX_HEIGHT / logo.height, 1);
+    const logoDims = logo.scale(scale);
+    page.drawImage(logo, {
+      x: MARGIN,
+      y: y - logoDims.height,
+      width: logoDims.width,
+      height: logoDims.height,
+    });
+    headerBottom = y - logoDims.height - 16;
+    page.drawText(pdfSafe(orgName), { x: MARGIN, y: headerBottom, size: 12, font: boldFont });
+  } else {
+    page.drawText(pdfSafe(orgName), { x: MARGIN, y: y - 16, size: 16, font: boldFont });
+    headerBottom = y - 16;
+  }
+
+  const title = 'PURCHASE ORDER';
+  page.drawText(title, {
+    x: PAGE_WIDTH - MARGIN - boldFont.widthOfTextAtSize(title, 18),
+    y: y - 16,
+    size: 18,
+    font: boldFont,
+  });
+
+  const headerDetails = [
+    `PO Number: ${poNumber}`,
+    `Date: ${formatDate(po.poDate)}`,
+    ...(po.type === 'BLANKET' && po.expiresAt ? [`Blanket PO - valid until ${formatDate(po.expiresAt)}`] : []),
+  ];
+  let detailY = y - 36;
+  for (const detail of headerDetails) {
+    const text = pdfSafe(detail);
+    page.drawText(text, {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(text, 10),
+      y: detailY,
+      size: 10,
+      font,
+    });
+    detailY -= 14;
+  }
+
+  y = Math.min(headerBottom, detailY) - 30;
+
+  // Vendor and ship-to blocks
+  const vendor = po.vendor;
+  const cityLine = [vendor.city, [vendor.state, vendor.zipCode].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+  const vendorLines = [
+    vendor.name,
+    vendor.address,
+    cityLine,
+    vendor.phone ? `Phone: ${vendor.phone}` : null,
+    vendor.email,
+  ].filter((line): line is string => !!line);
+
+  const billToLines = [
+    orgName,
+    po.department ? `Department: ${po.department.name}` : null,
+    `Requested by: ${po.requestedBy.name}`,
+    po.requestedBy.email,
+  ].filter((line): line is string => !!line);
+
+  page.drawText('VENDOR', { x: MARGIN, y, size: 10, font: boldFont });
+  page.drawText('BILL TO', { x: MARGIN + CONTENT_WIDTH / 2, y, size: 10, font: boldFont });
+  let blockY = y - 16;
+  for (let i = 0; i < Math.max(vendorLines.length, billToLines.length); i++) {
+    if (vendorLines[i]) {
+      page.drawText(pdfSafe(vendorLines[i]), { x: MARGIN, y: blockY, size: 10, font });
+    }
+    if (billToLines[i]) {
+      page.drawText(pdfSafe(billToLines[i]), { x: MARGIN + CONTENT_WIDTH / 2, y: blockY, size: 10, font });
+    }
+    blockY -= 14;
+  }
+
+  y = blockY - 20;
+
+  // Line items
+  drawLineItemHeader(page, y, fonts);
+  y -= 25;
+
+  const descriptionWidth = AMOUNT_COLUMN_X - (MARGIN + 30) - 15;
+  po.lineItems.forEach((item, index) => {
+    const lines = wrapText(item.description, font, 9, descriptionWidth);
+    if (ensureSpace(lines.length * 12 + 6)) {
+      drawLineItemHeader(page, y, fonts);
+      y -= 25;
+    }
+
+    page.drawText(String(index + 1), { x: MARGIN + 5, y, size: 9, font });
+    page.drawText(formatCurrency(item.amount), { x: AMOUNT_COLUMN_X, y, size: 9, font });
+    for (const line of lines) {
+      page.drawText(line, { x: MARGIN + 30, y, size: 9, font });
+      y -= 12;
+    }
+    y -= 6;
+  });
+
+  ensureSpace(30);
+  page.drawLine({
+    start: { x: MARGIN, y: y + 8 },
+    end: { x: PAGE_WIDTH - MARGIN, y: y + 8 },
+    thickness: 1,
+    color: rgb(0.6, 0.6, 0.6),
+  });
+  y -= 8;
+  page.drawText('TOTAL', { x: AMOUNT_COLUMN_X - 60, y, size: 11, font: boldFont });
+  page.drawText(formatCurrency(po.totalAmount), { x: AMOUNT_COLUMN_X, y, size: 11, font: boldFont });
+  y -= 30;
+
+  // Notes
+  if (po.notes) {
+    const noteLines = wrapText(po.notes, font, 9, CONTENT_WIDTH);
+    ensureSpace(noteLines.length * 12 + 20);
+    page.drawText('NOTES', { x: MARGIN, y, size: 10, font: boldFont });
+    y -= 14;
+    for (const line of noteLines) {
+      page.drawText(line, { x: MARGIN, y, size: 9, font });
+      y -= 12;
+    }
+    y -= 16;
+  }
+
+  // Terms
+  const terms = settings.purchaseOrders?.vendorTerms;
+  if (terms) {
+    const termLines = wrapText(terms, font, 8, CONTENT_WIDTH);
+    ensureSpace(termLines.length * 11 + 20);
+    page.drawText('TERMS & CONDITIONS', { x: MARGIN, y, size: 10, font: boldFont });
+    y -= 14;
+    for (const line of termLines) {
+      page.drawText(line, { x: MARGIN, y, size: 8, font });
+      y -= 11;
+    }
+    y -= 16;
+  }
+
+  // Approval signature block - one signature per approval chain step, or the single approver
+  const signatures =
+    po.approvalSteps.length > 0
+      ? po.approvalSteps.map((step) => ({
+          label: step.name,
+          name: step.actedBy?.name || '',
+          date: step.actedAt,
+        }))
+      : [{ label: 'Authorized Signature', name: approver?.name || '', date: po.approvedAt }];
+
+  ensureSpace(20 + Math.ceil(signatures.length / 2) * 60);
+  page.drawText('APPROVAL', { x: MARGIN, y, size: 10, font: boldFont });
+  y -= 40;
+
+  signatures.forEach((signature, index) => {
+    const column = index % 2;
+    if (column === 0 && index > 0) {
+      y -= 60;
+      ensureSpace(60);
+    }
+    const x = MARGIN + column * (CONTENT_WIDTH / 2);
+
+    if (signature.name) {
+      page.drawText(pdfSafe(signature.name), { x, y: y + 4, size: 10, font });
+    }
+    page.drawLine({
+      start: { x, y },
+      end: { x: x + 200, y },
+      thickness: 1,
+      color: rgb(0, 0, 0),
+    });
+    page.drawText(pdfSafe(signature.label), { x, y: y - 12, size: 8, font });
+    page.drawText(
+      signature.date ? `Date: ${formatDate(signature.date)}` : 'Date: _______________',
+      { x, y: y - 24, size: 8, font }
+    );
+  });
+
+  // Page numbers
+  const pages = pdfDoc.getPages();
+  pages.forEach((p, index) => {
+    const footer = `${poNumber} - Page ${index + 1} of ${pages.length}`;
+    p.drawText(pdfSafe(footer), {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(pdfSafe(footer), 8),
+      y: MARGIN / 2,
+      size: 8,
+      font,
+      color: rgb(0.4, 0.4, 0.4),
+    });
+  });
+
+  return pdfDoc.save();
+}
+
+/**
+ * File name used when downloading or attaching a PO PDF
+ */
+export function getPurchaseOrderPdfFileName(poNumber: string, revision: number): string {
+  const suffix = revision > 1 ? `-rev${revision}` : '';
+  return `${poNumber.replace(/[^A-Za-z0-9_-]/g, '_')}${suffix}.pdf`;
+}
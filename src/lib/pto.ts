@@ -0,0 +1,329 @@
+import { prisma } from './prisma';
+import { getPayPeriodForDate, getNextPeriod } from './pay-period';
+import { hasPermission, type UserPermissions } from './check-permissions';
+import { Prisma, PrismaClient } from '@prisma/client';
+import type { PtoPolicy, PtoRequest } from '@prisma/client';
+
+type PrismaTransactionClient = Parameters<Parameters<PrismaClient['$transaction']>[0]>[0];
+type PrismaLike = PrismaClient | PrismaTransactionClient;
+
+/**
+ * How a PTO policy accrues leave
+ */
+export const PTO_ACCRUAL_METHODS = {
+  PER_HOUR_WORKED: 'Per hour worked',
+  PER_PAY_PERIOD: 'Per pay period',
+} as const;
+
+export type PtoAccrualMethod = keyof typeof PTO_ACCRUAL_METHODS;
+
+export function isPtoAccrualMethod(value: unknown): value is PtoAccrualMethod {
+  return typeof value === 'string' && value in PTO_ACCRUAL_METHODS;
+}
+
+export interface PtoBalance {
+  policy: Pick<PtoPolicy, 'id' | 'name' | 'accrualMethod' | 'accrualRate' | 'maxBalance' | 'carryoverMax'> | null;
+  balance: number;
+  pendingHours: number; // Requested but not yet approved
+  available: number; // Balance less pending requests
+}
+
+type PendingAccrual = {
+  type: 'ACCRUAL' | 'FORFEIT';
+  effectiveDate: Date;
+  periodStart?: Date;
+  entryId?: string;
+  // Hours earned (accrual) - capped or forfeited against the running balance when applied
+  earned: number;
+  note: string;
+};
+
+type PtoLedgerRow = {
+  type: string;
+  hours: number;
+  effectiveDate: Date;
+  periodStart: Date | null;
+};
+
+type NewPtoTransaction = PtoLedgerRow & {
+  entryId: string | null;
+  note: string;
+};
+
+function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+/**
+ * Hours of an accrual that fit under the policy's balance cap
+ */
+export function capAccrual(earned: number, balance: number, maxBalance: number | null): number {
+  if (maxBalance === null) return roundHours(earned);
+  return roundHours(Math.max(0, Math.min(earned, maxBalance - balance)));
+}
+
+/**
+ * Hours forfeited at a year boundary when the balance exceeds the carryover limit
+ */
+export function carryoverForfeit(balance: number, carryoverMax: number | null): number {
+  if (carryoverMax === null) return 0;
+  return roundHours(Math.max(0, balance - carryoverMax));
+}
+
+/**
+ * Ledger rows a user's PTO is missing: accruals for approved hours or
+ * completed pay periods since the policy was assigned, and forfeits of any
+ * balance above the carryover limit at each new year. Hours are worked out in
+ * date order so caps and forfeits see the balance as of that date.
+ */
+async function getMissingPtoTransactions(userId: string, db: PrismaLike): Promise<NewPtoTransaction[]> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { ptoPolicyAssignedAt: true, ptoPolicy: true },
+  });
+
+  const policy = user?.ptoPolicy;
+  const assignedAt = user?.ptoPolicyAssignedAt;
+  if (!policy || !policy.isActive || !assignedAt) return [];
+
+  const now = new Date();
+  const pending: PendingAccrual[] = [];
+
+  const existing: PtoLedgerRow[] = await db.ptoTransaction.findMany({
+    where: { userId },
+    select: { type: true, hours: true, effectiveDate: true, periodStart: true },
+    orderBy: { effectiveDate: 'asc' },
+  });
+  const hasPeriod = (type: string, periodStart: Date) =>
+    existing.some((t) => t.type === type && t.periodStart?.getTime() === periodStart.getTime());
+
+  if (policy.accrualMethod === 'PER_HOUR_WORKED') {
+    const entries = await db.timeclockEntry.findMany({
+      where: {
+        userId,
+        status: 'approved',
+        approvedAt: { gte: assignedAt },
+        duration: { gt: 0 },
+        ptoAccrual: { is: null },
+      },
+      select: { id: true, duration: true, approvedAt: true },
+    });
+
+    for (const entry of entries) {
+      const workedHours = (entry.duration || 0) / 3600;
+      pending.push({
+        type: 'ACCRUAL',
+        effectiveDate: entry.approvedAt!,
+        entryId: entry.id,
+        earned: workedHours * policy.accrualRate,
+        note: `${roundHours(workedHours)} hours worked`,
+      });
+    }
+  } else if (policy.accrualMethod === 'PER_PAY_PERIOD') {
+    const payPeriodConfig = await db.payPeriodConfig.findFirst();
+
+    // First full pay period after the policy was assigned
+    let period = getPayPeriodForDate(assignedAt, payPeriodConfig);
+    if (period.startDate < assignedAt) {
+      period = getNextPeriod(period, payPeriodConfig);
+    }
+
+    while (period.endDate < now) {
+      if (!hasPeriod('ACCRUAL', period.startDate)) {
+        pending.push({
+          type: 'ACCRUAL',
+          effectiveDate: period.endDate,
+          periodStart: period.startDate,
+          earned: policy.accrualRate,
+          note: `Pay period ${period.label}`,
+        });
+      }
+      period = getNextPeriod(period, payPeriodConfig);
+    }
+  }
+
+  if (policy.carryoverMax !== null) {
+    for (let year = assignedAt.getFullYear() + 1; year <= now.getFullYear(); year++) {
+      const yearStart = new Date(year, 0, 1);
+      if (!hasPeriod('FORFEIT', yearStart)) {
+        pending.push({
+          type: 'FORFEIT',
+          effectiveDate: yearStart,
+          periodStart: yearStart,
+          earned: 0,
+          note: `Carryover limit into ${year}`,
+        });
+      }
+    }
+  }
+
+  pending.sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime());
+
+  const missing: NewPtoTransaction[] = [];
+  for (const item of pending) {
+    const balance = existing
+      .filter((t) => t.effectiveDate <= item.effectiveDate)
+      .reduce((sum, t) => sum + t.hours, 0);
+
+    const hours =
+      item.type === 'ACCRUAL'
+        ? capAccrual(item.earned, balance, policy.maxBalance)
+        : -carryoverForfeit(balance, policy.carryoverMax);
+
+    const row: NewPtoTransaction = {
+      type: item.type,
+      hours,
+      effectiveDate: item.effectiveDate,
+      periodStart: item.periodStart ?? null,
+      entryId: item.entryId ?? null,
+      note: item.note,
+    };
+    missing.push(row);
+    existing.push(row);
+  }
+
+  return missing;
+}
+
+/**
+ * Bring a user's PTO ledger up to date. Runs from write paths only (policy
+ * assignment, leave requests and approvals); reads use getPtoBalance, which
+ * counts what is due without writing it. Safe to call concurrently: the
+ * unique (userId, type, periodStart) and entryId indexes reject a second copy
+ * of a row, and that P2002 means another sync already accrued it.
+ */
+export async function syncPtoAccruals(userId: string): Promise<void> {
+  try {
+    await prisma.$transaction(async (tx) => {
+      const missing = await getMissingPtoTransactions(userId, tx);
+
+      // Record zero-hour rows too, so the period or entry is not revisited
+      for (const row of missing) {
+        await tx.ptoTransaction.create({ data: { userId, ...row } });
+      }
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Current PTO balance for a user, including accruals and forfeits that are
+ * due but not yet written to the ledger
+ */
+export async function getPtoBalance(userId: string): Promise<PtoBalance> {
+  const [user, total, pending, missing] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        ptoPolicy: {
+          select: {
+            id: true,
+            name: true,
+            accrualMethod: true,
+            accrualRate: true,
+            maxBalance: true,
+            carryoverMax: true,
+          },
+        },
+      },
+    }),
+    prisma.ptoTransaction.aggregate({ where: { userId }, _sum: { hours: true } }),
+    prisma.ptoRequest.aggregate({ where: { userId, status: 'pending' }, _sum: { hours: true } }),
+    getMissingPtoTransactions(userId, prisma),
+  ]);
+
+  const unposted = missing.reduce((sum, row) => sum + row.hours, 0);
+  const balance = roundHours((total._sum.hours || 0) + unposted);
+  const pendingHours = roundHours(pending._sum.hours || 0);
+
+  return {
+    policy: user?.ptoPolicy ?? null,
+    balance,
+    pendingHours,
+    available: roundHours(balance - pendingHours),
+  };
+}
+
+/**
+ * Share of a leave request's hours that falls between two dates, split evenly
+ * across the calendar days it covers
+ */
+export function leaveHoursInRange(
+  request: Pick<PtoRequest, 'startDate' | 'endDate' | 'hours'>,
+  rangeStart: Date,
+  rangeEnd: Date
+): number {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const start = new Date(request.startDate);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(request.endDate);
+  end.setHours(0, 0, 0, 0);
+
+  const totalDays = Math.round((end.getTime() - start.getTime()) / dayMs) + 1;
+  if (totalDays <= 0) return 0;
+
+  let days = 0;
+  for (let i = 0; i < totalDays; i++) {
+    const day = new Date(start);
+    day.setDate(start.getDate() + i);
+    if (day >= rangeStart && day <= rangeEnd) days++;
+  }
+
+  return (request.hours * days) / totalDays;
+}
+
+/**
+ * Approved leave hours per user between two dates, optionally limited to
+ * users in the given department(s)
+ */
+export async function getApprovedLeaveHours(
+  rangeStart: Date,
+  rangeEnd: Date,
+  departmentFilter?: string | { in: string[] }
+): Promise<Map<string, number>> {
+  const requests = await prisma.ptoRequest.findMany({
+    where: {
+      status: 'approved',
+      user: departmentFilter ? { departmentId: departmentFilter } : undefined,
+      startDate: { lte: rangeEnd },
+      endDate: { gte: rangeStart },
+    },
+    select: { userId: true, startDate: true, endDate: true, hours: true },
+  });
+
+  const hours = new Map<string, number>();
+  for (const request of requests) {
+    hours.set(request.userId, (hours.get(request.userId) || 0) + leaveHoursInRange(request, rangeStart, rangeEnd));
+  }
+  return hours;
+}
+
+/**
+ * Departments whose leave requests a user may review: every department with
+ * canViewAllEntries, otherwise the departments assigned through
+ * ManagerAssignment. Returns null for "all departments" and an empty list for
+ * users who cannot approve.
+ */
+export async function getPtoReviewDepartmentIds(
+  userId: string,
+  permissions: UserPermissions
+): Promise<string[] | null> {
+  if (!hasPermission(permissions, 'timeclock', 'canApproveEntries')) {
+    return [];
+  }
+
+  if (hasPermission(permissions, 'timeclock', 'canViewAllEntries')) {
+    return null;
+  }
+
+  const assignments = await prisma.managerAssignment.findMany({
+    where: { userId },
+    select: { departmentId: true },
+  });
+
+  return assignments.map((a) => a.departmentId);
+}
@@ -0,0 +1,212 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { createAuditLog } from './audit';
+import { EDITABLE_EXPENSE_REPORT_STATUSES, refreshExpenseReportTotals } from './expense-reports';
+
+// Bits two image hashes may differ by and still be the same photo
+const IMAGE_HASH_MAX_DISTANCE = 6;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How far back an owner's own uploads are compared by image alone
+const OWN_IMAGE_WINDOW_DAYS = 90;
+
+// What API routes return for the receipt a duplicate was matched to
+export const duplicateOfSelect = {
+  id: true,
+  merchantName: true,
+  receiptDate: true,
+  totalAmount: true,
+  currency: true,
+  createdAt: true,
+  user: { select: { id: true, name: true } },
+} as const;
+
+export type DuplicateCandidate = {
+  id: string;
+  createdAt: Date;
+  imageHash: string | null;
+  merchantName: string | null;
+  receiptDate: Date | null;
+  totalAmount: number | null;
+  currency: string;
+};
+
+const candidateSelect = {
+  id: true,
+  createdAt: true,
+  imageHash: true,
+  merchantName: true,
+  receiptDate: true,
+  totalAmount: true,
+  currency: true,
+  duplicateStatus: true,
+  expenseReport: { select: { id: true, status: true } },
+} as const;
+
+/**
+ * Number of differing bits between two hex image hashes
+ */
+export function imageHashDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    return Infinity;
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Merchant names match when, ignoring case and punctuation, they are equal or
+ * one contains the other ("STARBUCKS #1234" and "Starbucks")
+ */
+export function merchantNamesMatch(a: string | null, b: string | null): boolean {
+  const normalize = (name: string | null) => (name || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+  const left = normalize(a);
+  const right = normalize(b);
+  if (left.length < 3 || right.length < 3) {
+    return false;
+  }
+  return left.includes(right) || right.includes(left);
+}
+
+/**
+ * Why two receipts look like the same purchase, or null when they don't: a
+ * near-identical image, or the same merchant, day and amount
+ */
+export function describeDuplicateMatch(receipt: DuplicateCandidate, other: DuplicateCandidate): string | null {
+  const sameImage =
+    !!receipt.imageHash &&
+    !!other.imageHash &&
+    imageHashDistance(receipt.imageHash, other.imageHash) <= IMAGE_HASH_MAX_DISTANCE;
+
+  const sameDetails =
+    receipt.totalAmount !== null &&
+    other.totalAmount !== null &&
+    receipt.currency === other.currency &&
+    Math.abs(receipt.totalAmount - other.totalAmount) < 0.005 &&
+    !!receipt.receiptDate &&
+    !!other.receiptDate &&
+    Math.floor(receipt.receiptDate.getTime() / DAY_MS) === Math.floor(other.receiptDate.getTime() / DAY_MS) &&
+    merchantNamesMatch(receipt.merchantName, other.merchantName);
+
+  if (sameImage && sameDetails) return 'Same image, merchant, date and amount';
+  if (sameImage) return 'Same image';
+  if (sameDetails) return 'Same merchant, date and amount';
+  return null;
+}
+
+/**
+ * Compare a receipt with likely matches and flag suspected duplicates: the
+ * owner's recent uploads, and anyone's receipt from around the same day for
+ * the same amount. The later of two matching receipts is the one flagged,
+ * pointing at the earlier one as the original. A receipt someone already
+ * confirmed or dismissed keeps that resolution. Returns whether this receipt
+ * is now a suspected duplicate.
+ */
+export async function checkReceiptForDuplicates(receiptId: string, actorUserId: string): Promise<boolean> {
+  const receipt = await prisma.receipt.findUnique({
+    where: { id: receiptId },
+    select: { ...candidateSelect, userId: true, duplicateOfId: true },
+  });
+  if (!receipt) {
+    return false;
+  }
+
+  const hasDetails = !!receipt.receiptDate && receipt.totalAmount !== null;
+  if (!receipt.imageHash && !hasDetails) {
+    return false;
+  }
+
+  // Image hashes can't be compared in SQL, so the query narrows to receipts
+  // worth hashing against: the owner re-uploading the same photo, or the same
+  // amount within a day either side (dates read by OCR can be off by a day)
+  const where: Prisma.ReceiptWhereInput[] = [];
+  if (receipt.imageHash) {
+    where.push({
+      userId: receipt.userId,
+      imageHash: { not: null },
+      createdAt: { gte: new Date(receipt.createdAt.getTime() - OWN_IMAGE_WINDOW_DAYS * DAY_MS) },
+    });
+  }
+  if (hasDetails) {
+    const dayStart = new Date(Math.floor(receipt.receiptDate!.getTime() / DAY_MS) * DAY_MS);
+    where.push({
+      receiptDate: { gte: new Date(dayStart.getTime() - DAY_MS), lt: new Date(dayStart.getTime() + 2 * DAY_MS) },
+      totalAmount: { gte: receipt.totalAmount! - 0.005, lte: receipt.totalAmount! + 0.005 },
+    });
+  }
+
+  const candidates = await prisma.receipt.findMany({
+    where: { id: { not: receiptId }, OR: where },
+    select: candidateSelect,
+    orderBy: { createdAt: 'asc' },
+  });
+
+  // Confirmed duplicates are copies; match against their originals instead
+  const matches = candidates
+    .filter((c) => c.duplicateStatus !== 'confirmed')
+    .map((c) => ({ candidate: c, reason: describeDuplicateMatch(receipt, c) }))
+    .filter((m): m is { candidate: (typeof candidates)[number]; reason: string } => m.reason !== null);
+
+  const original = matches.find((m) => m.candidate.createdAt < receipt.createdAt);
+  const flagged: { id: string; duplicateOfId: string; reason: string }[] = [];
+  const reportIds = new Set<string>();
+  const tracksTotals = (report: { id: string; status: string } | null) =>
+    report && (EDITABLE_EXPENSE_REPORT_STATUSES.includes(report.status) || report.status === 'submitted');
+
+  if (receipt.duplicateStatus !== 'confirmed' && receipt.duplicateStatus !== 'dismissed') {
+    const status = original ? 'suspected' : null;
+    const duplicateOfId = original?.candidate.id ?? null;
+    if (status !== receipt.duplicateStatus || duplicateOfId !== receipt.duplicateOfId) {
+      await prisma.receipt.update({
+        where: { id: receiptId },
+        data: { duplicateStatus: status, duplicateOfId, duplicateReason: original?.reason ?? null },
+      });
+      if (original) {
+        flagged.push({ id: receiptId, duplicateOfId: original.candidate.id, reason: original.reason });
+      }
+      if (tracksTotals(receipt.expenseReport)) {
+        reportIds.add(receipt.expenseReport!.id);
+      }
+    }
+  }
+
+  // A later receipt read first (OCR finishing out of order) is flagged against this one
+  for (const { candidate, reason } of matches) {
+    if (candidate.createdAt < receipt.createdAt || candidate.duplicateStatus !== null) {
+      continue;
+    }
+    await prisma.receipt.update({
+      where: { id: candidate.id },
+      data: { duplicateStatus: 'suspected', duplicateOfId: receiptId, duplicateReason: reason },
+    });
+    flagged.push({ id: candidate.id, duplicateOfId: receiptId, reason });
+    if (tracksTotals(candidate.expenseReport)) {
+      reportIds.add(candidate.expenseReport!.id);
+    }
+  }
+
+  for (const flag of flagged) {
+    await createAuditLog({
+      userId: actorUserId,
+      action: 'RECEIPT_DUPLICATE_FLAGGED',
+      entityType: 'Receipt',
+      entityId: flag.id,
+      changes: {
+        after: { duplicateStatus: 'suspected', duplicateOfId: flag.duplicateOfId, duplicateReason: flag.reason },
+      },
+    });
+  }
+
+  for (const reportId of reportIds) {
+    await refreshExpenseReportTotals(reportId);
+  }
+
+  return !!original && receipt.duplicateStatus !== 'confirmed' && receipt.duplicateStatus !== 'dismissed';
+}
@@ -0,0 +1,462 @@
+import crypto from 'crypto';
+import path from 'path';
+import { existsSync } from 'fs';
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises';
+import { ImapFlow } from 'imapflow';
+import { simpleParser, type ParsedMail } from 'mailparser';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { createAuditLog } from './audit';
+import { getSettings } from './settings';
+import { resolveUploadPath } from './file-utils';
+import { validateUploadedFile } from './file-validation';
+import { isOCRConfigured } from './ocr';
+import { runReceiptOcr, storeReceiptFile } from './receipt-processing';
+import { checkReceiptForDuplicates } from './receipt-duplicates';
+
+export type InboundEmailSource = 'imap' | 'webhook';
+
+export type InboundEmailResult =
+  | { status: 'processed'; inboundEmailId: string; receiptIds: string[] }
+  | { status: 'quarantined'; inboundEmailId: string }
+  | { status: 'duplicate'; inboundEmailId: string };
+
+export interface MailboxPollResult {
+  fetched: number;
+  processed: number;
+  quarantined: number;
+  duplicates: number;
+  failed: number;
+}
+
+// Largest raw email accepted, attachments included
+export const MAX_INBOUND_EMAIL_BYTES = 25 * 1024 * 1024;
+
+// Messages read per poll; the rest stay unread for the next one
+const MAX_MESSAGES_PER_POLL = 25;
+
+const QUARANTINE_DIR = 'inbound-email';
+
+let pollInProgress = false;
+
+/**
+ * Whether a request carries the receipt forwarding secret as a bearer token.
+ * Used by the inbound webhook and by scheduled mailbox polls.
+ */
+export function isInboundEmailAuthorized(req: Request): boolean {
+  const secret = getSettings().email.receiptForwarding?.webhookSecret;
+  const header = req.headers.get('authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+  if (!secret || !token) return false;
+
+  const expected = Buffer.from(secret);
+  const given = Buffer.from(token);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
+export function isReceiptForwardingEnabled(): boolean {
+  return getSettings().email.receiptForwarding?.enabled === true;
+}
+
+function getSenderAddress(email: ParsedMail): string | null {
+  const address = email.from?.value[0]?.address;
+  return address ? address.toLowerCase().trim() : null;
+}
+
+/**
+ * Lay an email's text body out on Letter pages so a receipt that arrived as
+ * HTML can go through the same OCR as a scanned one. Only the standard PDF
+ * fonts are available, so characters outside Latin-1 are replaced.
+ */
+async function renderEmailBodyPdf(subject: string | null, text: string): Promise<Buffer> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const fontSize = 10;
+  const lineHeight = 13;
+  const margin = 48;
+  const pageWidth = 612;
+  const pageHeight = 792;
+  const maxWidth = pageWidth - margin * 2;
+
+  const clean = (value: string) => value.replace(/\t/g, '    ').replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+
+  const lines: string[] = [];
+  if (subject) lines.push(clean(subject), '');
+  for (const paragraph of text.replace(/\r\n/g, '\n').split('\n')) {
+    let line = '';
+    for (const word of clean(paragraph).split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(candidate, fontSize) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+
+  const linesPerPage = Math.floor((pageHeight - margin * 2) / lineHeight);
+  for (let i = 0; i < lines.length; i += linesPerPage) {
+    const page = pdfDoc.addPage([pageWidth, pageHeight]);
+    lines.slice(i, i + linesPerPage).forEach((line, index) => {
+      page.drawText(line, { x: margin, y: pageHeight - margin - index * lineHeight, size: fontSize, font });
+    });
+  }
+
+  return Buffer.from(await pdfDoc.save());
+}
+
+/**
+ * Create a receipt for each image or PDF attached to an email, or one for the
+ * body when nothing usable is attached, then run each through OCR when it is
+ * configured. Inline images (logos, tracking pixels) are skipped. Receipt ids
+ * are pushed onto receiptIds as they are created, so a caller can tell what
+ * was imported when this throws partway.
+ */
+async function createReceiptsFromEmail(email: ParsedMail, userId: string, receiptIds: string[]): Promise<void> {
+  const senderEmail = getSenderAddress(email);
+  const files: { buffer: Buffer; mimeType: string; filename: string }[] = [];
+
+  for (const attachment of email.attachments) {
+    if (attachment.related) continue;
+
+    const filename = attachment.filename || 'attachment';
+    const validation = await validateUploadedFile(attachment.content, filename);
+    if (validation.valid && validation.mimeType) {
+      files.push({ buffer: attachment.content, mimeType: validation.mimeType, filename });
+    }
+  }
+
+  const bodyText = email.text?.trim();
+  if (files.length === 0 && email.html && bodyText) {
+    files.push({
+      buffer: await renderEmailBodyPdf(email.subject || null, bodyText),
+      mimeType: 'application/pdf',
+      filename: 'email-body.pdf',
+    });
+  }
+
+  const receipts: { id: string; imageUrl: string }[] = [];
+  for (const file of files) {
+    const stored = await storeReceiptFile(file.buffer, file.mimeType);
+
+    const receipt = await prisma.receipt.create({
+      data: {
+        userId,
+        status: 'PENDING',
+        source: 'EMAIL',
+        imageUrl: stored.imageUrl,
+        thumbnailUrl: stored.thumbnailUrl,
+        imageHash: stored.imageHash,
+        senderEmail,
+        emailSubject: email.subject || null,
+        rawEmailHtml: email.html || null,
+      },
+    });
+
+    await createAuditLog({
+      userId,
+      action: 'RECEIPT_UPLOADED',
+      entityType: 'Receipt',
+      entityId: receipt.id,
+      changes: {
+        after: {
+          source: 'EMAIL',
+          filename: stored.filename,
+          originalFilename: file.filename,
+          mimeType: file.mimeType,
+          size: stored.size,
+          ...stored.optimizationMeta,
+        },
+      },
+    });
+
+    try {
+      await checkReceiptForDuplicates(receipt.id, userId);
+    } catch (duplicateError) {
+      console.error(`Error checking emailed receipt ${receipt.id} for duplicates:`, duplicateError);
+    }
+
+    receiptIds.push(receipt.id);
+    receipts.push({ id: receipt.id, imageUrl: stored.imageUrl });
+  }
+
+  if (isOCRConfigured()) {
+    for (const receipt of receipts) {
+      try {
+        await runReceiptOcr(receipt.id, receipt.imageUrl, userId);
+      } catch (error) {
+        // The receipt is left FAILED for the owner to retry
+        console.error(`OCR failed for emailed receipt ${receipt.id}:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Message for an import that failed after some of its receipts were created
+ */
+function describePartialImport(receiptCount: number, error: unknown): string {
+  const reason = error instanceof Error ? error.message : 'Unknown error';
+  return `Import stopped after ${receiptCount} receipt${receiptCount === 1 ? '' : 's'}: ${reason}`;
+}
+
+/**
+ * Import one forwarded email. Mail from an active user becomes receipts in
+ * their name; mail from anyone else is stored for admin review. The
+ * Message-ID is claimed before anything is imported, so a message delivered
+ * twice (say by the webhook and the mailbox poll at once) is only imported by
+ * whichever claims it first. An import that fails before creating any
+ * receipt gives the claim back so the message can be tried again; one that
+ * fails partway keeps it, so a retry can't import the same receipts twice.
+ */
+export async function ingestReceiptEmail(raw: Buffer, source: InboundEmailSource): Promise<InboundEmailResult> {
+  const email = await simpleParser(raw);
+  const messageId = email.messageId || null;
+  const fromAddress = getSenderAddress(email) || 'unknown';
+
+  let inbound;
+  try {
+    inbound = await prisma.inboundEmail.create({
+      data: {
+        messageId,
+        source,
+        fromAddress,
+        subject: email.subject || null,
+        status: 'processing',
+      },
+    });
+  } catch (error) {
+    const isClaimed = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+    if (!isClaimed || !messageId) throw error;
+
+    const existing = await prisma.inboundEmail.findUnique({ where: { messageId }, select: { id: true, status: true } });
+    if (!existing) throw error;
+    // Still being imported elsewhere; fail so the message is retried rather than dropped
+    if (existing.status === 'processing') {
+      throw new Error(`Email ${messageId} is already being imported`);
+    }
+    return { status: 'duplicate', inboundEmailId: existing.id };
+  }
+
+  const receiptIds: string[] = [];
+  try {
+    const sender = fromAddress !== 'unknown'
+      ? await prisma.user.findFirst({ where: { email: fromAddress, isActive: true }, select: { id: true } })
+      : null;
+
+    if (!sender) {
+      const rawEmailPath = `${QUARANTINE_DIR}/${inbound.id}.eml`;
+      const filePath = resolveUploadPath(rawEmailPath)!;
+      if (!existsSync(path.dirname(filePath))) {
+        await mkdir(path.dirname(filePath), { recursive: true });
+      }
+      await writeFile(filePath, raw);
+
+      await prisma.inboundEmail.update({
+        where: { id: inbound.id },
+        data: { status: 'quarantined', rawEmailPath },
+      });
+
+      await createAuditLog({
+        action: 'INBOUND_EMAIL_QUARANTINED',
+        entityType: 'InboundEmail',
+        entityId: inbound.id,
+        changes: { after: { fromAddress, subject: inbound.subject, source } },
+      });
+
+      return { status: 'quarantined', inboundEmailId: inbound.id };
+    }
+
+    await createReceiptsFromEmail(email, sender.id, receiptIds);
+
+    await prisma.inboundEmail.update({
+      where: { id: inbound.id },
+      data: {
+        status: 'processed',
+        receiptCount: receiptIds.length,
+        error: receiptIds.length === 0 ? 'No image or PDF attachment and no message body' : null,
+        userId: sender.id,
+      },
+    });
+
+    await createAuditLog({
+      userId: sender.id,
+      action: 'INBOUND_EMAIL_PROCESSED',
+      entityType: 'InboundEmail',
+      entityId: inbound.id,
+      changes: { after: { fromAddress, subject: inbound.subject, source, receiptIds } },
+    });
+
+    return { status: 'processed', inboundEmailId: inbound.id, receiptIds };
+  } catch (error) {
+    if (receiptIds.length === 0) {
+      await prisma.inboundEmail.delete({ where: { id: inbound.id } }).catch(() => undefined);
+    } else {
+      await prisma.inboundEmail
+        .update({
+          where: { id: inbound.id },
+          data: {
+            status: 'processed',
+            receiptCount: receiptIds.length,
+            error: describePartialImport(receiptIds.length, error),
+          },
+        })
+        .catch(() => undefined);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Import a quarantined email as receipts for the chosen user. The email is
+ * claimed (moved to processing) before anything is imported, so two admins
+ * releasing it at once only import it once.
+ */
+export async function releaseQuarantinedEmail(
+  inboundEmailId: string,
+  userId: string,
+  reviewedById: string
+): Promise<{ error: string } | { receiptIds: string[] }> {
+  const { count } = await prisma.inboundEmail.updateMany({
+    where: { id: inboundEmailId, status: 'quarantined' },
+    data: { status: 'processing', reviewedById, reviewedAt: new Date() },
+  });
+  if (count !== 1) {
+    return { error: 'Quarantined email not found' };
+  }
+
+  const inbound = await prisma.inboundEmail.findUniqueOrThrow({ where: { id: inboundEmailId } });
+  const filePath = inbound.rawEmailPath ? resolveUploadPath(inbound.rawEmailPath) : null;
+
+  const receiptIds: string[] = [];
+  try {
+    if (!filePath || !existsSync(filePath)) {
+      await prisma.inboundEmail.update({
+        where: { id: inboundEmailId },
+        data: { status: 'quarantined', reviewedById: null, reviewedAt: null },
+      });
+      return { error: 'The stored email file is missing' };
+    }
+
+    const email = await simpleParser(await readFile(filePath));
+    await createReceiptsFromEmail(email, userId, receiptIds);
+  } catch (error) {
+    // Nothing imported: put it back in quarantine. Otherwise keep what was created and don't offer it again.
+    await prisma.inboundEmail
+      .update({
+        where: { id: inboundEmailId },
+        data:
+          receiptIds.length === 0
+            ? { status: 'quarantined', reviewedById: null, reviewedAt: null }
+            : {
+                status: 'released',
+                userId,
+                receiptCount: receiptIds.length,
+                error: describePartialImport(receiptIds.length, error),
+              },
+      })
+      .catch(() => undefined);
+    throw error;
+  }
+
+  await prisma.inboundEmail.update({
+    where: { id: inboundEmailId },
+    data: {
+      status: 'released',
+      userId,
+      receiptCount: receiptIds.length,
+      rawEmailPath: null,
+    },
+  });
+  await unlink(filePath).catch(() => undefined);
+
+  return { receiptIds };
+}
+
+/**
+ * Drop a quarantined email without importing it
+ */
+export async function discardQuarantinedEmail(
+  inboundEmailId: string,
+  reviewedById: string
+): Promise<{ error: string } | { success: true }> {
+  const inbound = await prisma.inboundEmail.findUnique({ where: { id: inboundEmailId } });
+  if (!inbound || inbound.status !== 'quarantined') {
+    return { error: 'Quarantined email not found' };
+  }
+
+  // Only discard it if it is still quarantined, not being released at the same time
+  const { count } = await prisma.inboundEmail.updateMany({
+    where: { id: inboundEmailId, status: 'quarantined' },
+    data: { status: 'discarded', rawEmailPath: null, reviewedById, reviewedAt: new Date() },
+  });
+  if (count !== 1) {
+    return { error: 'Quarantined email not found' };
+  }
+
+  const filePath = inbound.rawEmailPath ? resolveUploadPath(inbound.rawEmailPath) : null;
+  if (filePath) {
+    await unlink(filePath).catch(() => undefined);
+  }
+
+  return { success: true };
+}
+
+/**
+ * Read unread messages from the receipt mailbox and import them. Each one is
+ * marked read once imported; a message that fails stays unread and is tried
+ * again on the next poll.
+ */
+export async function pollReceiptMailbox(): Promise<MailboxPollResult> {
+  const imap = getSettings().email.receiptForwarding?.imap;
+  if (!imap?.host || !imap.username) {
+    throw new Error('The receipt mailbox is not configured');
+  }
+  if (pollInProgress) {
+    throw new Error('The receipt mailbox is already being checked');
+  }
+
+  const result: MailboxPollResult = { fetched: 0, processed: 0, quarantined: 0, duplicates: 0, failed: 0 };
+  const client = new ImapFlow({
+    host: imap.host,
+    port: imap.port,
+    secure: imap.secure,
+    auth: { user: imap.username, pass: imap.password },
+    logger: false,
+  });
+
+  pollInProgress = true;
+  try {
+    await client.connect();
+    const lock = await client.getMailboxLock(imap.mailbox || 'INBOX');
+    try {
+      const uids = (await client.search({ seen: false }, { uid: true })) || [];
+
+      for (const uid of uids.slice(0, MAX_MESSAGES_PER_POLL)) {
+        const message = await client.fetchOne(String(uid), { source: true }, { uid: true });
+        if (!message || !message.source) continue;
+        result.fetched++;
+
+        try {
+          const outcome = await ingestReceiptEmail(message.source, 'imap');
+          if (outcome.status === 'duplicate') result.duplicates++;
+          else result[outcome.status]++;
+          await client.messageFlagsAdd(String(uid), ['\\Seen'], { uid: true });
+        } catch (error) {
+          console.error(`Error importing receipt email ${uid}:`, error);
+          result.failed++;
+        }
+      }
+    } finally {
+      lock.release();
+    }
+  } finally {
+    pollInProgress = false;
+    await client.logout().catch(() => undefined);
+  }
+
+  return result;
+}
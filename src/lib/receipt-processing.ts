@@ -0,0 +1,232 @@
+import { prisma } from './prisma';
+import { createAuditLog } from './audit';
+import { applyExpensePolicies } from './expense-policy';
+import { checkReceiptForDuplicates } from './receipt-duplicates';
+import { isImageFile, isPdfFile } from './file-validation';
+import { computeImageHash, optimizeReceiptImage } from './image-processing';
+import { optimizeReceiptPdf } from './pdf-optimization';
+import { processReceiptWithRetry, OCRServiceError, type OCRResult } from './ocr';
+import { resolveUploadPath } from './file-utils';
+import { writeFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { fileTypeFromFile } from 'file-type';
+import path from 'path';
+
+// Upload directory configuration
+const UPLOAD_DIR = process.env.UPLOAD_DIR || './uploads/receipts';
+const THUMBNAIL_DIR = process.env.UPLOAD_DIR
+  ? path.join(path.dirname(process.env.UPLOAD_DIR), 'thumbnails')
+  : './uploads/thumbnails';
+
+export interface StoredReceiptFile {
+  filename: string;
+  imageUrl: string;
+  thumbnailUrl: string | null;
+  size: number;
+  imageHash: string | null; // Images only, for duplicate detection
+  optimizationMeta: Record<string, unknown>;
+}
+
+/**
+ * Optimize a validated receipt image or PDF and write it (and a thumbnail for
+ * images) to the uploads directory
+ */
+export async function storeReceiptFile(buffer: Buffer, mimeType: string): Promise<StoredReceiptFile> {
+  // Ensure upload directory exists
+  const uploadDir = path.resolve(UPLOAD_DIR);
+  if (!existsSync(uploadDir)) {
+    await mkdir(uploadDir, { recursive: true });
+  }
+
+  const uuid = crypto.randomUUID();
+  let fileBuffer: Buffer = buffer;
+  let thumbnailBuffer: Buffer | null = null;
+  let imageHash: string | null = null;
+  let optimizationMeta: Record<string, unknown> = {};
+
+  // Optimize based on file type
+  if (isImageFile(mimeType)) {
+    const result = await optimizeReceiptImage(buffer);
+    fileBuffer = result.buffer;
+    thumbnailBuffer = result.thumbnailBuffer;
+    optimizationMeta = {
+      originalSize: result.originalSize,
+      optimizedSize: result.optimizedSize,
+      savedBytes: result.originalSize - result.optimizedSize,
+      dimensions: `${result.width}x${result.height}`,
+      steps: result.steps,
+    };
+
+    try {
+      imageHash = await computeImageHash(fileBuffer);
+    } catch (error) {
+      // Unreadable images are still stored; they just can't be matched by image
+      console.error('Error hashing receipt image:', error);
+    }
+  } else if (isPdfFile(mimeType)) {
+    const result = await optimizeReceiptPdf(buffer);
+    fileBuffer = result.buffer;
+    optimizationMeta = {
+      originalSize: result.originalSize,
+      optimizedSize: result.newSize,
+      savedBytes: result.originalSize - result.newSize,
+      method: result.method,
+      optimized: result.optimized,
+    };
+  }
+
+  // Use .jpg extension for all optimized images, preserve .pdf for PDFs
+  const ext = isImageFile(mimeType) ? '.jpg' : '.pdf';
+  const uniqueFilename = `receipt_${uuid}${ext}`;
+  const filePath = path.join(uploadDir, uniqueFilename);
+
+  // Write optimized file to disk
+  await writeFile(filePath, fileBuffer);
+
+  // Write thumbnail if generated
+  let thumbnailUrl: string | null = null;
+  if (thumbnailBuffer) {
+    const thumbDir = path.resolve(THUMBNAIL_DIR);
+    if (!existsSync(thumbDir)) {
+      await mkdir(thumbDir, { recursive: true });
+    }
+    const thumbFilename = `thumb_${uuid}.jpg`;
+    const thumbPath = path.join(thumbDir, thumbFilename);
+    await writeFile(thumbPath, thumbnailBuffer);
+    thumbnailUrl = `thumbnails/${thumbFilename}`;
+  }
+
+  return {
+    filename: uniqueFilename,
+    imageUrl: `receipts/${uniqueFilename}`,
+    thumbnailUrl: thumbnailUrl || (isImageFile(mimeType) ? `receipts/${uniqueFilename}` : null),
+    size: fileBuffer.length,
+    imageHash,
+    optimizationMeta,
+  };
+}
+
+/**
+ * Run OCR on a stored receipt and save what it extracts
+ *
+ * Marks the receipt PROCESSING, then COMPLETED with the extracted fields and
+ * line items, or FAILED with the error. Throws when OCR fails so callers can
+ * report it; the receipt is already marked FAILED by then.
+ */
+export async function runReceiptOcr(
+  receiptId: string,
+  imageUrl: string,
+  actorUserId: string,
+  context: { ipAddress?: string; userAgent?: string } = {}
+): Promise<OCRResult> {
+  const resolvedImagePath = resolveUploadPath(imageUrl);
+  if (!resolvedImagePath || !existsSync(resolvedImagePath)) {
+    throw new OCRServiceError('FILE_READ_ERROR', 'Receipt image file not found on disk');
+  }
+
+  // Update status to processing
+  await prisma.receipt.update({
+    where: { id: receiptId },
+    data: { status: 'PROCESSING' },
+  });
+
+  await createAuditLog({
+    userId: actorUserId,
+    action: 'RECEIPT_OCR_STARTED',
+    entityType: 'Receipt',
+    entityId: receiptId,
+    ...context,
+  });
+
+  // Detect file type
+  const fileType = await fileTypeFromFile(resolvedImagePath);
+  const mimeType = fileType?.mime || 'image/jpeg';
+
+  try {
+    const ocrResult = await processReceiptWithRetry(resolvedImagePath, mimeType, 3, actorUserId, receiptId);
+
+    // Update receipt with extracted data
+    await prisma.receipt.update({
+      where: { id: receiptId },
+      data: {
+        status: 'COMPLETED',
+        merchantName: ocrResult.merchantName,
+        receiptDate: ocrResult.date ? new Date(ocrResult.date) : null,
+        totalAmount: ocrResult.totalAmount,
+        currency: ocrResult.currency,
+        taxAmount: ocrResult.taxAmount,
+        rawOcrData: JSON.stringify(ocrResult),
+      },
+    });
+
+    // Create line items if extracted
+    if (ocrResult.lineItems.length > 0) {
+      await prisma.receiptLineItem.createMany({
+        data: ocrResult.lineItems.map(item => ({
+          receiptId: receiptId,
+          description: item.description,
+          quantity: item.quantity || null,
+          unitPrice: item.unitPrice || null,
+          total: item.total,
+        })),
+      });
+    }
+
+    // A failed policy or duplicate check should not mark a successful OCR as failed
+    try {
+      await applyExpensePolicies(receiptId);
+    } catch (policyError) {
+      console.error('Error checking expense policies:', policyError);
+    }
+    try {
+      await checkReceiptForDuplicates(receiptId, actorUserId);
+    } catch (duplicateError) {
+      console.error('Error checking for duplicate receipts:', duplicateError);
+    }
+
+    await createAuditLog({
+      userId: actorUserId,
+      action: 'RECEIPT_OCR_COMPLETED',
+      entityType: 'Receipt',
+      entityId: receiptId,
+      changes: {
+        after: {
+          merchantName: ocrResult.merchantName,
+          totalAmount: ocrResult.totalAmount,
+          lineItemsCount: ocrResult.lineItems.length,
+          confidence: ocrResult.confidence,
+        },
+      },
+      ...context,
+    });
+
+    return ocrResult;
+  } catch (ocrError) {
+    // Mark as failed
+    await prisma.receipt.update({
+      where: { id: receiptId },
+      data: {
+        status: 'FAILED',
+        rawOcrData: JSON.stringify({
+          error: ocrError instanceof Error ? ocrError.message : 'Unknown error',
+          code: ocrError instanceof OCRServiceError ? ocrError.code : 'UNKNOWN',
+        }),
+      },
+    });
+
+    await createAuditLog({
+      userId: actorUserId,
+      action: 'RECEIPT_OCR_FAILED',
+      entityType: 'Receipt',
+      entityId: receiptId,
+      changes: {
+        after: {
+          error: ocrError instanceof Error ? ocrError.message : 'Unknown error',
+        },
+      },
+      ...context,
+    });
+
+    throw ocrError;
+  }
+}
@@ -62,6 +62,8 @@ const SENSITIVE_PATHS = [
   'email.office365.clientSecret',
   'email.office365.refreshToken',
   'email.smtp.password',
+  'email.receiptForwarding.imap.password',
+  'email.receiptForwarding.webhookSecret',
 ];
 
 function getNestedValue(obj: any, path: string): string {
@@ -143,6 +145,17 @@ export interface SystemSettings {
       enabled: boolean;
       threshold: number;
     };
+    vendorTerms: string; // printed on vendor-facing PO PDFs
+  };
+  expenses: {
+    distanceUnit: 'mi' | 'km';
+    // Reimbursement per mile/km; each rate applies from its date until the next
+    mileageRates: { effectiveDate: string; rate: number }[]; // YYYY-MM-DD
+    perDiem: {
+      defaultDailyRate: number;
+      travelDayPercent: number; // Share of the daily rate paid for the first and last travel days
+      locations: { name: string; dailyRate: number }[];
+    };
   };
   fiscalYear: {
     startMonth: number; // 1-12
@@ -203,6 +216,17 @@ export interface SystemSettings {
     receiptForwarding: {
       enabled: boolean;
       forwardingAddress: string;
+      // Mailbox polled for forwarded receipts
+      imap: {
+        host: string;
+        port: number;
+        secure: boolean;
+        username: string;
+        password: string;
+        mailbox: string;
+      };
+      // Bearer token for the inbound webhook and scheduled mailbox polls
+      webhookSecret: string;
     };
   };
 }
@@ -325,6 +349,19 @@ export function getDefaultSettings(): SystemSettings {
         enabled: false,
         threshold: 500,
       },
+      vendorTerms:
+        'Please reference the PO number on all invoices, packing slips and correspondence. ' +
+        'Goods and services are subject to inspection and acceptance. ' +
+        'Notify us before shipping if prices, quantities or delivery dates differ from this order.',
+    },
+    expenses: {
+      distanceUnit: 'mi',
+      mileageRates: [{ effectiveDate: '2025-01-01', rate: 0.7 }],
+      perDiem: {
+        defaultDailyRate: 68,
+        travelDayPercent: 75,
+        locations: [],
+      },
     },
     fiscalYear: {
       startMonth: 1,
@@ -385,6 +422,15 @@ export function getDefaultSettings(): SystemSettings {
       receiptForwarding: {
         enabled: false,
         forwardingAddress: '',
+        imap: {
+          host: '',
+          port: 993,
+          secure: true,
+          username: '',
+          password: '',
+          mailbox: 'INBOX',
+        },
+        webhookSecret: '',
       },
     },
   };
@@ -0,0 +1,213 @@
+import { prisma } from './prisma';
+import { addLocationViolation, checkPunchLocation, type PunchLocation } from './timeclock-location';
+import type { PrismaClient, TimeclockBreak, TimeclockRulesConfig } from '@prisma/client';
+
+type PrismaTransactionClient = Parameters<Parameters<PrismaClient['$transaction']>[0]>[0];
+type PrismaLike = PrismaClient | PrismaTransactionClient;
+
+/**
+ * Break types employees can punch. Meals are unpaid and deducted from the
+ * entry; rest breaks are paid and count as worked time.
+ */
+export const BREAK_TYPES = {
+  MEAL: { label: 'Meal', isPaid: false },
+  REST: { label: 'Rest break', isPaid: true },
+} as const;
+
+export type BreakType = keyof typeof BREAK_TYPES;
+
+export function isBreakType(value: unknown): value is BreakType {
+  return typeof value === 'string' && value in BREAK_TYPES;
+}
+
+// flagReason stored on an entry whose shift broke a break rule
+export const BREAK_VIOLATION_FLAG = 'break_violation';
+
+export interface BreakViolation {
+  rule: 'meal_break' | 'rest_break';
+  message: string;
+}
+
+type BreakInterval = Pick<TimeclockBreak, 'type' | 'isPaid' | 'startedAt' | 'endedAt'>;
+
+function breakSeconds(breakPunch: BreakInterval, until: Date): number {
+  const end = breakPunch.endedAt ?? until;
+  return Math.max(0, Math.floor((end.getTime() - breakPunch.startedAt.getTime()) / 1000));
+}
+
+/**
+ * Seconds of unpaid break within a set of breaks (open breaks count up to `until`)
+ */
+export function getUnpaidBreakSeconds(breaks: BreakInterval[], until: Date): number {
+  return breaks
+    .filter((b) => !b.isPaid)
+    .reduce((sum, b) => sum + breakSeconds(b, until), 0);
+}
+
+/**
+ * Check a finished shift's punched breaks against the compliance rules
+ *
+ * Meal: a shift working past mealBreakBeforeHours needs an unpaid meal of at
+ * least mealBreakMinMinutes that starts before that hour.
+ * Rest: one rest break of at least restBreakMinMinutes per restBreakEveryHours worked.
+ */
+export function checkBreakCompliance(
+  shiftStart: Date,
+  shiftEnd: Date,
+  breaks: BreakInterval[],
+  config: Pick<
+    TimeclockRulesConfig,
+    | 'mealBreakRequired'
+    | 'mealBreakMinMinutes'
+    | 'mealBreakBeforeHours'
+    | 'restBreakRequired'
+    | 'restBreakMinMinutes'
+    | 'restBreakEveryHours'
+  >
+): BreakViolation[] {
+  const violations: BreakViolation[] = [];
+
+  const elapsedSeconds = Math.max(0, Math.floor((shiftEnd.getTime() - shiftStart.getTime()) / 1000));
+  const workedHours = (elapsedSeconds - getUnpaidBreakSeconds(breaks, shiftEnd)) / 3600;
+
+  if (config.mealBreakRequired && workedHours > config.mealBreakBeforeHours) {
+    const deadline = shiftStart.getTime() + config.mealBreakBeforeHours * 3600 * 1000;
+    const tookMeal = breaks.some(
+      (b) =>
+        b.type === 'MEAL' &&
+        !b.isPaid &&
+        b.startedAt.getTime() <= deadline &&
+        breakSeconds(b, shiftEnd) >= config.mealBreakMinMinutes * 60
+    );
+
+    if (!tookMeal) {
+      violations.push({
+        rule: 'meal_break',
+        message: `No ${config.mealBreakMinMinutes}-minute unpaid meal started before hour ${config.mealBreakBeforeHours}`,
+      });
+    }
+  }
+
+  if (config.restBreakRequired && config.restBreakEveryHours > 0) {
+    const required = Math.floor(workedHours / config.restBreakEveryHours);
+    const taken = breaks.filter(
+      (b) => b.type === 'REST' && breakSeconds(b, shiftEnd) >= config.restBreakMinMinutes * 60
+    ).length;
+
+    if (taken < required) {
+      violations.push({
+        rule: 'rest_break',
+        message: `${taken} of ${required} required ${config.restBreakMinMinutes}-minute rest breaks taken`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Start a break on the user's open entry. The punch is checked against the
+ * department's punch restriction like a clock-in.
+ */
+export async function startBreak(
+  userId: string,
+  type: BreakType,
+  options: { location?: PunchLocation } = {}
+): Promise<{ breakPunch: TimeclockBreak } | { error: string }> {
+  const locationCheck = options.location ? await checkPunchLocation(userId, options.location) : { violation: null };
+  if ('error' in locationCheck) {
+    return locationCheck;
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const entry = await tx.timeclockEntry.findFirst({
+      where: { userId, clockOut: null },
+      include: { breaks: { where: { endedAt: null } } },
+    });
+
+    if (!entry) {
+      return { error: 'Not clocked in' };
+    }
+
+    if (entry.breaks.length > 0) {
+      return { error: 'Already on a break' };
+    }
+
+    const breakPunch = await tx.timeclockBreak.create({
+      data: {
+        entryId: entry.id,
+        type,
+        isPaid: BREAK_TYPES[type].isPaid,
+        startedAt: new Date(),
+      },
+    });
+
+    if (locationCheck.violation) {
+      await tx.timeclockEntry.update({
+        where: { id: entry.id },
+        data: {
+          locationViolations: addLocationViolation(entry.locationViolations, {
+            punch: 'break_start',
+            message: locationCheck.violation,
+          }),
+        },
+      });
+    }
+
+    return { breakPunch };
+  });
+}
+
+/**
+ * End the user's current break, checking the punch against the department's
+ * punch restriction
+ */
+export async function endBreak(
+  userId: string,
+  options: { location?: PunchLocation } = {}
+): Promise<{ breakPunch: TimeclockBreak } | { error: string }> {
+  const openBreak = await prisma.timeclockBreak.findFirst({
+    where: { endedAt: null, entry: { userId, clockOut: null } },
+    include: { entry: { select: { locationViolations: true } } },
+  });
+
+  if (!openBreak) {
+    return { error: 'Not on a break' };
+  }
+
+  const locationCheck = options.location ? await checkPunchLocation(userId, options.location) : { violation: null };
+  if ('error' in locationCheck) {
+    return locationCheck;
+  }
+
+  if (locationCheck.violation) {
+    await prisma.timeclockEntry.update({
+      where: { id: openBreak.entryId },
+      data: {
+        locationViolations: addLocationViolation(openBreak.entry.locationViolations, {
+          punch: 'break_end',
+          message: locationCheck.violation,
+        }),
+      },
+    });
+  }
+
+  return { breakPunch: await closeBreak(openBreak, new Date()) };
+}
+
+/**
+ * Stamp the end of a break (also used to close a break left open at clock-out)
+ */
+export async function closeBreak(
+  openBreak: TimeclockBreak,
+  endedAt: Date,
+  db: PrismaLike = prisma
+): Promise<TimeclockBreak> {
+  return db.timeclockBreak.update({
+    where: { id: openBreak.id },
+    data: {
+      endedAt,
+      duration: breakSeconds(openBreak, endedAt),
+    },
+  });
+}
@@ -0,0 +1,121 @@
+import { prisma } from './prisma';
+import { hasPermission, type UserPermissions } from './check-permissions';
+
+/**
+ * What an employee can ask to have fixed on their timesheet
+ */
+export const TIMECLOCK_CORRECTION_TYPES = {
+  missed_clock_out: 'Missed clock-out',
+  wrong_clock_in: 'Wrong clock-in time',
+  wrong_clock_out: 'Wrong clock-out time',
+  add_shift: 'Forgotten shift',
+} as const;
+
+export type TimeclockCorrectionType = keyof typeof TIMECLOCK_CORRECTION_TYPES;
+
+// Longest shift a correction may create
+const MAX_CORRECTED_SHIFT_SECONDS = 24 * 3600;
+
+export type CorrectedTimes = { clockIn: Date; clockOut: Date } | { error: string };
+
+/**
+ * The clock-in and clock-out an entry ends up with once a correction is applied
+ *
+ * Missed and wrong clock-outs keep the entry's clock-in, a wrong clock-in keeps
+ * its clock-out, and a forgotten shift takes both from the request.
+ */
+export function resolveCorrectedTimes(
+  type: TimeclockCorrectionType,
+  entry: { clockIn: Date; clockOut: Date | null } | null,
+  requested: { clockIn?: Date | null; clockOut?: Date | null },
+  now: Date = new Date()
+): CorrectedTimes {
+  let clockIn: Date | null | undefined;
+  let clockOut: Date | null | undefined;
+
+  if (type === 'add_shift') {
+    clockIn = requested.clockIn;
+    clockOut = requested.clockOut;
+    if (!clockIn || !clockOut) {
+      return { error: 'A forgotten shift needs both a clock-in and a clock-out time' };
+    }
+  } else {
+    if (!entry) {
+      return { error: 'Pick the entry to correct' };
+    }
+
+    if (type === 'missed_clock_out' && entry.clockOut) {
+      return { error: 'This entry already has a clock-out' };
+    }
+    if (type !== 'missed_clock_out' && !entry.clockOut) {
+      return { error: 'This entry is still open; request its missed clock-out instead' };
+    }
+
+    clockIn = type === 'wrong_clock_in' ? requested.clockIn : entry.clockIn;
+    clockOut = type === 'wrong_clock_in' ? entry.clockOut : requested.clockOut;
+    if (!clockIn || !clockOut) {
+      return {
+        error: type === 'wrong_clock_in' ? 'Enter the correct clock-in time' : 'Enter the correct clock-out time',
+      };
+    }
+  }
+
+  if (clockOut.getTime() <= clockIn.getTime()) {
+    return { error: 'Clock out time must be after clock in time' };
+  }
+  if (clockOut.getTime() > now.getTime()) {
+    return { error: 'Clock out time cannot be in the future' };
+  }
+  if ((clockOut.getTime() - clockIn.getTime()) / 1000 > MAX_CORRECTED_SHIFT_SECONDS) {
+    return { error: 'A corrected shift cannot be longer than 24 hours' };
+  }
+
+  return { clockIn, clockOut };
+}
+
+/**
+ * Another of the user's entries overlapping the given times, if any. Open
+ * entries are treated as running until now.
+ */
+export async function findOverlappingEntry(
+  userId: string,
+  clockIn: Date,
+  clockOut: Date,
+  excludeId?: string
+) {
+  return prisma.timeclockEntry.findFirst({
+    where: {
+      userId,
+      id: excludeId ? { not: excludeId } : undefined,
+      clockIn: { lt: clockOut },
+      OR: [{ clockOut: { gt: clockIn } }, { clockOut: null }],
+    },
+    select: { id: true, clockIn: true, clockOut: true },
+  });
+}
+
+/**
+ * Departments whose correction requests a user may review: every department
+ * with canViewAllEntries, otherwise the departments assigned through
+ * ManagerAssignment. Returns null for "all departments" and an empty list for
+ * users who cannot approve.
+ */
+export async function getCorrectionReviewDepartmentIds(
+  userId: string,
+  permissions: UserPermissions
+): Promise<string[] | null> {
+  if (!hasPermission(permissions, 'timeclock', 'canApproveEntries')) {
+    return [];
+  }
+
+  if (hasPermission(permissions, 'timeclock', 'canViewAllEntries')) {
+    return null;
+  }
+
+  const assignments = await prisma.managerAssignment.findMany({
+    where: { userId },
+    select: { departmentId: true },
+  });
+
+  return assignments.map((a) => a.departmentId);
+}
@@ -0,0 +1,263 @@
+import crypto from 'crypto';
+import { prisma } from './prisma';
+import { createAuditLog } from './audit';
+import type { TimeclockKiosk } from '@prisma/client';
+
+// Header a registered kiosk sends its device token in
+export const KIOSK_TOKEN_HEADER = 'x-kiosk-token';
+
+export const KIOSK_MAX_FAILED_ATTEMPTS = 5;
+export const KIOSK_LOCKOUT_MINUTES = 15;
+
+export type KioskIdentificationMode = 'BADGE' | 'PIN' | 'BADGE_AND_PIN';
+
+export const KIOSK_IDENTIFICATION_MODES: KioskIdentificationMode[] = ['BADGE', 'PIN', 'BADGE_AND_PIN'];
+
+const NOT_RECOGNIZED = 'Badge or PIN not recognized';
+
+export function isKioskIdentificationMode(value: unknown): value is KioskIdentificationMode {
+  return typeof value === 'string' && (KIOSK_IDENTIFICATION_MODES as string[]).includes(value);
+}
+
+export function hashKioskToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Create a new device token. Only the hash is stored.
+ */
+export function generateKioskToken(): { token: string; tokenHash: string } {
+  const token = crypto.randomBytes(32).toString('hex');
+  return { token, tokenHash: hashKioskToken(token) };
+}
+
+/**
+ * PINs are hashed with a server-side key rather than a salted hash so a
+ * kiosk can look employees up by PIN alone
+ */
+export function hashKioskPin(pin: string): string {
+  const secret = process.env.NEXTAUTH_SECRET || process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET must be set to use kiosk PINs');
+  }
+  return crypto.createHmac('sha256', secret).update(`kiosk-pin:${pin}`).digest('hex');
+}
+
+export function validateKioskPin(pin: string): string | null {
+  if (!/^\d{4,8}$/.test(pin)) {
+    return 'PIN must be 4 to 8 digits';
+  }
+  return null;
+}
+
+export function validateBadgeNumber(badgeNumber: string): string | null {
+  if (!/^[A-Za-z0-9-]{1,32}$/.test(badgeNumber)) {
+    return 'Badge number may only contain letters, numbers and dashes (max 32)';
+  }
+  return null;
+}
+
+function minutesUntil(date: Date, now: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 60000));
+}
+
+function lockoutUntil(now: Date): Date {
+  return new Date(now.getTime() + KIOSK_LOCKOUT_MINUTES * 60000);
+}
+
+/**
+ * Resolve the kiosk a request comes from by its device token
+ */
+export async function getKioskFromRequest(req: Request): Promise<TimeclockKiosk | null> {
+  const token = req.headers.get(KIOSK_TOKEN_HEADER);
+  if (!token) return null;
+
+  const kiosk = await prisma.timeclockKiosk.findUnique({
+    where: { tokenHash: hashKioskToken(token) },
+  });
+
+  if (!kiosk || !kiosk.isActive) return null;
+
+  await prisma.timeclockKiosk.update({
+    where: { id: kiosk.id },
+    data: { lastSeenAt: new Date() },
+  });
+
+  return kiosk;
+}
+
+/**
+ * Count a failed attempt against a kiosk. The counter is incremented in the
+ * database so simultaneous attempts can't overwrite each other, and only the
+ * request that resets a full counter records the lockout.
+ */
+async function recordKioskFailure(kiosk: TimeclockKiosk, now: Date) {
+  const updated = await prisma.timeclockKiosk.update({
+    where: { id: kiosk.id },
+    data: { failedAttempts: { increment: 1 } },
+    select: { failedAttempts: true },
+  });
+  if (updated.failedAttempts < KIOSK_MAX_FAILED_ATTEMPTS) return;
+
+  const { count } = await prisma.timeclockKiosk.updateMany({
+    where: { id: kiosk.id, failedAttempts: { gte: KIOSK_MAX_FAILED_ATTEMPTS } },
+    data: { failedAttempts: 0, lockedUntil: lockoutUntil(now) },
+  });
+
+  if (count > 0) {
+    await createAuditLog({
+      userId: 'system',
+      action: 'TIMECLOCK_KIOSK_LOCKED',
+      entityType: 'TimeclockKiosk',
+      entityId: kiosk.id,
+      changes: { after: { kiosk: kiosk.name, lockedMinutes: KIOSK_LOCKOUT_MINUTES } },
+    });
+  }
+}
+
+/**
+ * Count a wrong PIN against an employee, the same way as recordKioskFailure
+ */
+async function recordEmployeeFailure(userId: string, kiosk: TimeclockKiosk, now: Date) {
+  const updated = await prisma.user.update({
+    where: { id: userId },
+    data: { kioskFailedAttempts: { increment: 1 } },
+    select: { kioskFailedAttempts: true },
+  });
+  if (updated.kioskFailedAttempts < KIOSK_MAX_FAILED_ATTEMPTS) return;
+
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, kioskFailedAttempts: { gte: KIOSK_MAX_FAILED_ATTEMPTS } },
+    data: { kioskFailedAttempts: 0, kioskLockedUntil: lockoutUntil(now) },
+  });
+
+  if (count > 0) {
+    await createAuditLog({
+      userId,
+      action: 'TIMECLOCK_KIOSK_LOCKED',
+      entityType: 'User',
+      entityId: userId,
+      changes: { after: { kiosk: kiosk.name, lockedMinutes: KIOSK_LOCKOUT_MINUTES } },
+    });
+  }
+}
+
+/**
+ * Identify the employee at a kiosk from their badge and/or PIN.
+ * Unrecognized badges and PINs count against the kiosk; a wrong PIN for a
+ * known badge counts against the employee. Either locks out after
+ * KIOSK_MAX_FAILED_ATTEMPTS for KIOSK_LOCKOUT_MINUTES.
+ */
+export async function identifyKioskEmployee(
+  kiosk: TimeclockKiosk,
+  credentials: { badgeNumber?: string; pin?: string }
+): Promise<{ userId: string; name: string } | { error: string; status: number }> {
+  const now = new Date();
+
+  if (kiosk.lockedUntil && kiosk.lockedUntil > now) {
+    return {
+      error: `Too many failed attempts. This kiosk is locked for ${minutesUntil(kiosk.lockedUntil, now)} more minute(s).`,
+      status: 423,
+    };
+  }
+
+  const mode: KioskIdentificationMode = isKioskIdentificationMode(kiosk.identificationMode)
+    ? kiosk.identificationMode
+    : 'BADGE_AND_PIN';
+  const badgeNumber = credentials.badgeNumber?.trim() || '';
+  const pin = credentials.pin?.trim() || '';
+
+  if (mode !== 'PIN' && !badgeNumber) {
+    return { error: 'Scan or enter your badge number', status: 400 };
+  }
+  if (mode !== 'BADGE' && !pin) {
+    return { error: 'Enter your PIN', status: 400 };
+  }
+
+  const select = {
+    id: true,
+    name: true,
+    isActive: true,
+    kioskPin: true,
+    kioskFailedAttempts: true,
+    kioskLockedUntil: true,
+  };
+
+  const user = mode === 'PIN'
+    ? await prisma.user.findUnique({ where: { kioskPin: hashKioskPin(pin) }, select })
+    : await prisma.user.findUnique({ where: { badgeNumber }, select });
+
+  if (!user || !user.isActive) {
+    await recordKioskFailure(kiosk, now);
+    return { error: NOT_RECOGNIZED, status: 401 };
+  }
+
+  if (user.kioskLockedUntil && user.kioskLockedUntil > now) {
+    return {
+      error: `Too many incorrect PINs. Try again in ${minutesUntil(user.kioskLockedUntil, now)} minute(s) or see your manager.`,
+      status: 423,
+    };
+  }
+
+  if (mode === 'BADGE_AND_PIN') {
+    const expected = user.kioskPin ? Buffer.from(user.kioskPin, 'hex') : null;
+    const actual = Buffer.from(hashKioskPin(pin), 'hex');
+
+    if (!expected || expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      await recordEmployeeFailure(user.id, kiosk, now);
+      return { error: NOT_RECOGNIZED, status: 401 };
+    }
+  }
+
+  // Only the employee's own count is cleared; the kiosk's keeps counting
+  // unrecognized badges and PINs between successful punches
+  if (user.kioskFailedAttempts > 0 || user.kioskLockedUntil) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { kioskFailedAttempts: 0, kioskLockedUntil: null },
+    });
+  }
+  return { userId: user.id, name: user.name };
+}
+
+/**
+ * Validate badge number / PIN changes from the user admin form.
+ * An empty PIN keeps the current one; null removes it.
+ */
+export async function buildKioskCredentialUpdate(
+  input: { badgeNumber?: unknown; kioskPin?: unknown },
+  userId?: string
+): Promise<{ data: { badgeNumber?: string | null; kioskPin?: string | null } } | { error: string }> {
+  const data: { badgeNumber?: string | null; kioskPin?: string | null } = {};
+
+  if (input.badgeNumber !== undefined) {
+    const badgeNumber = typeof input.badgeNumber === 'string' ? input.badgeNumber.trim() : '';
+    if (badgeNumber) {
+      const error = validateBadgeNumber(badgeNumber);
+      if (error) return { error };
+
+      const holder = await prisma.user.findUnique({ where: { badgeNumber }, select: { id: true } });
+      if (holder && holder.id !== userId) {
+        return { error: 'Badge number is already assigned to another user' };
+      }
+    }
+    data.badgeNumber = badgeNumber || null;
+  }
+
+  if (input.kioskPin === null) {
+    data.kioskPin = null;
+  } else if (typeof input.kioskPin === 'string' && input.kioskPin.trim()) {
+    const pin = input.kioskPin.trim();
+    const error = validateKioskPin(pin);
+    if (error) return { error };
+
+    const kioskPin = hashKioskPin(pin);
+    const holder = await prisma.user.findUnique({ where: { kioskPin }, select: { id: true } });
+    if (holder && holder.id !== userId) {
+      return { error: 'That PIN is already in use. Choose a different PIN.' };
+    }
+    data.kioskPin = kioskPin;
+  }
+
+  return { data };
+}
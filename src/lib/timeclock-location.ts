@@ -0,0 +1,309 @@
+import { prisma } from './prisma';
+import type { PunchRestriction } from '@prisma/client';
+
+// flagReason stored on an entry punched from outside the department's punch area
+export const PUNCH_LOCATION_FLAG = 'punch_location';
+
+export const PUNCH_ENFORCEMENT_MODES = ['block', 'flag'] as const;
+export type PunchEnforcementMode = (typeof PUNCH_ENFORCEMENT_MODES)[number];
+
+export interface WorkSite {
+  name: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+}
+
+// Where a punch came from: the request's IP and, when the browser shared it, its position
+export interface PunchLocation {
+  ipAddress: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface LocationViolation {
+  punch: 'clock_in' | 'clock_out' | 'break_start' | 'break_end' | 'job_switch';
+  message: string;
+}
+
+export type PunchLocationCheck = { error: string } | { violation: string | null };
+
+const EARTH_RADIUS_METERS = 6371000;
+
+type ParsedIp = { version: 4 | 6; value: bigint };
+
+function parseIpv4(ip: string): bigint | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+
+  let value = BigInt(0);
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = (value << BigInt(8)) + BigInt(Number(part));
+  }
+  return value;
+}
+
+function parseIpv6(ip: string): bigint | null {
+  let address = ip;
+
+  // Trailing dotted quad (e.g. ::ffff:192.0.2.1) stands for the last two groups
+  const dotted = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const v4 = parseIpv4(dotted[2]);
+    if (v4 === null) return null;
+    address = `${dotted[1]}${(v4 >> BigInt(16)).toString(16)}:${(v4 & BigInt(0xffff)).toString(16)}`;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(missing).fill('0'), ...tail];
+  let value = BigInt(0);
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    value = (value << BigInt(16)) + BigInt(parseInt(group, 16));
+  }
+  return value;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address. IPv4-mapped IPv6 addresses (::ffff:a.b.c.d),
+ * which dual-stack servers report for IPv4 clients, come back as IPv4.
+ */
+function parseIp(raw: string): ParsedIp | null {
+  const ip = raw.trim().replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+
+  if (ip.includes(':')) {
+    const value = parseIpv6(ip);
+    if (value === null) return null;
+    if (value >> BigInt(32) === BigInt(0xffff)) {
+      return { version: 4, value: value & BigInt(0xffffffff) };
+    }
+    return { version: 6, value };
+  }
+
+  const value = parseIpv4(ip);
+  return value === null ? null : { version: 4, value };
+}
+
+function parseNetwork(network: string): { base: ParsedIp; prefix: number } | null {
+  const [address, prefixText, ...rest] = network.trim().split('/');
+  if (rest.length > 0) return null;
+
+  const base = parseIp(address);
+  if (!base) return null;
+
+  const bits = base.version === 4 ? 32 : 128;
+  if (prefixText === undefined) return { base, prefix: bits };
+  if (!/^\d{1,3}$/.test(prefixText) || Number(prefixText) > bits) return null;
+  return { base, prefix: Number(prefixText) };
+}
+
+/**
+ * Whether a value is an IP address or CIDR range (e.g. 203.0.113.0/24, 2001:db8::/32)
+ */
+export function isValidNetwork(network: string): boolean {
+  return parseNetwork(network) !== null;
+}
+
+/**
+ * Whether an IP address falls within an address or CIDR range
+ */
+export function isIpInNetwork(ip: string, network: string): boolean {
+  const address = parseIp(ip);
+  const range = parseNetwork(network);
+  if (!address || !range || address.version !== range.base.version) return false;
+
+  const hostBits = BigInt((address.version === 4 ? 32 : 128) - range.prefix);
+  return address.value >> hostBits === range.base.value >> hostBits;
+}
+
+/**
+ * Great-circle distance in meters between two coordinates (haversine)
+ */
+export function getDistanceMeters(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export function parseAllowedNetworks(restriction: Pick<PunchRestriction, 'allowedNetworks'>): string[] {
+  try {
+    const networks = JSON.parse(restriction.allowedNetworks);
+    return Array.isArray(networks) ? networks.filter((n): n is string => typeof n === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function parseWorkSites(restriction: Pick<PunchRestriction, 'workSites'>): WorkSite[] {
+  try {
+    const sites = JSON.parse(restriction.workSites);
+    return Array.isArray(sites) ? sites : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * A restriction with its JSON columns parsed, as the admin screens edit it
+ */
+export function getPunchRestrictionSettings(restriction: PunchRestriction) {
+  return {
+    allowedNetworks: parseAllowedNetworks(restriction),
+    workSites: parseWorkSites(restriction),
+    enforcement: restriction.enforcement as PunchEnforcementMode,
+    isActive: restriction.isActive,
+  };
+}
+
+export function parseLocationViolations(value: string | null): LocationViolation[] {
+  if (!value) return [];
+  try {
+    const violations = JSON.parse(value);
+    return Array.isArray(violations) ? violations : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * An entry's stored location violations with one more added
+ */
+export function addLocationViolation(value: string | null, violation: LocationViolation): string {
+  return JSON.stringify([...parseLocationViolations(value), violation]);
+}
+
+/**
+ * Check a punch against a restriction. A punch passes when it comes from one
+ * of the allowed networks or from within range of one of the work sites.
+ * Returns null when it passes, otherwise why it did not.
+ */
+export function evaluatePunchRestriction(
+  networks: string[],
+  sites: WorkSite[],
+  location: PunchLocation
+): string | null {
+  if (networks.length === 0 && sites.length === 0) return null;
+
+  const reasons: string[] = [];
+
+  if (networks.length > 0) {
+    const ip = location.ipAddress;
+    if (ip && networks.some((network) => isIpInNetwork(ip, network))) return null;
+    reasons.push(ip ? `IP ${ip} is not on an allowed network` : 'IP address unknown');
+  }
+
+  if (sites.length > 0) {
+    if (location.latitude === null || location.longitude === null) {
+      reasons.push('no location shared');
+    } else {
+      const position = { latitude: location.latitude, longitude: location.longitude };
+      const distances = sites.map((site) => ({ site, meters: getDistanceMeters(position, site) }));
+      if (distances.some(({ site, meters }) => meters <= site.radiusMeters)) return null;
+
+      const nearest = distances.reduce((a, b) => (b.meters < a.meters ? b : a));
+      reasons.push(`${Math.round(nearest.meters)} m from ${nearest.site.name}`);
+    }
+  }
+
+  return `Punched outside the allowed area: ${reasons.join('; ')}`;
+}
+
+/**
+ * Check a punch against the employee's department restriction. Punches from
+ * outside are refused under "block" and come back as a violation to flag
+ * under "flag". Employees without a department or active restriction pass.
+ */
+export async function checkPunchLocation(userId: string, location: PunchLocation): Promise<PunchLocationCheck> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { department: { select: { punchRestriction: true } } },
+  });
+
+  const restriction = user?.department?.punchRestriction;
+  if (!restriction || !restriction.isActive) {
+    return { violation: null };
+  }
+
+  const violation = evaluatePunchRestriction(parseAllowedNetworks(restriction), parseWorkSites(restriction), location);
+  if (violation && restriction.enforcement === 'block') {
+    return { error: `${violation}. Punch from an approved location or network.` };
+  }
+
+  return { violation };
+}
+
+/**
+ * Whether the employee's punches are checked against work sites, so the
+ * punch screens know to ask the browser for its position
+ */
+export async function isPunchLocationRequired(userId: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { department: { select: { punchRestriction: true } } },
+  });
+
+  const restriction = user?.department?.punchRestriction;
+  return !!restriction?.isActive && parseWorkSites(restriction).length > 0;
+}
+
+/**
+ * Reverse proxies in front of the app (TRUSTED_PROXY_COUNT). Defaults to 0:
+ * without a proxy every forwarded header comes from the client, so operators
+ * opt in by setting the number of proxies they actually run.
+ */
+function getTrustedProxyCount(): number {
+  const count = Number(process.env.TRUSTED_PROXY_COUNT ?? 0);
+  return Number.isInteger(count) && count >= 0 ? count : 0;
+}
+
+/**
+ * The client IP from X-Forwarded-For as recorded by the outermost trusted
+ * proxy. Each proxy appends the address it received the request from, so the
+ * client is the entry trustedProxyCount places from the right; anything to its
+ * left was sent by the client and can be forged. Null when the header has
+ * fewer entries than trusted proxies, or no proxy is trusted.
+ */
+export function getTrustedClientIp(
+  forwardedFor: string | null,
+  trustedProxyCount: number = getTrustedProxyCount()
+): string | null {
+  if (!forwardedFor || trustedProxyCount < 1) return null;
+
+  const hops = forwardedFor.split(',').map((hop) => hop.trim()).filter(Boolean);
+  if (hops.length < trustedProxyCount) return null;
+
+  const ip = hops[hops.length - trustedProxyCount];
+  return parseIp(ip) ? ip : null;
+}
+
+/**
+ * Read where a punch came from: the client IP as the trusted proxy saw it
+ * plus the latitude / longitude the browser shared in the body, when it
+ * shared any
+ */
+export function getPunchLocation(req: Request, body: { latitude?: unknown; longitude?: unknown }): PunchLocation {
+  const ipAddress = getTrustedClientIp(req.headers.get('x-forwarded-for'));
+  const latitude = typeof body.latitude === 'number' && Math.abs(body.latitude) <= 90 ? body.latitude : null;
+  const longitude = typeof body.longitude === 'number' && Math.abs(body.longitude) <= 180 ? body.longitude : null;
+
+  return {
+    ipAddress,
+    latitude: latitude !== null && longitude !== null ? latitude : null,
+    longitude: latitude !== null && longitude !== null ? longitude : null,
+  };
+}
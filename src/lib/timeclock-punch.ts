@@ -0,0 +1,451 @@
+import { prisma } from './prisma';
+import { getTimeclockRulesConfig, processClockOut } from './timeclock-rules';
+import {
+  BREAK_VIOLATION_FLAG,
+  checkBreakCompliance,
+  closeBreak,
+  getUnpaidBreakSeconds,
+} from './timeclock-breaks';
+import { matchClockInToSchedule, matchClockOutToSchedule } from './timeclock-schedule';
+import {
+  PUNCH_LOCATION_FLAG,
+  addLocationViolation,
+  checkPunchLocation,
+  parseLocationViolations,
+  type LocationViolation,
+  type PunchLocation,
+} from './timeclock-location';
+import { createAuditLog } from './audit';
+import type { Prisma, PrismaClient, TimeclockEntry } from '@prisma/client';
+
+type PrismaTransactionClient = Parameters<Parameters<PrismaClient['$transaction']>[0]>[0];
+type PrismaLike = PrismaClient | PrismaTransactionClient;
+
+export type PunchResult = { entry: TimeclockEntry } | { error: string };
+
+type PunchOptions = {
+  // Kiosk the punch came from, when not punched from the employee's own session
+  kioskId?: string | null;
+  // Job / cost code to charge the time to
+  jobCodeId?: string | null;
+  // Where the employee punched from; checked against their department's punch restriction
+  location?: PunchLocation;
+};
+
+/**
+ * Check that a job code picked at punch time exists and is active
+ */
+async function validateJobCode(
+  jobCodeId: string | null | undefined,
+  db: PrismaLike
+): Promise<string | null> {
+  if (!jobCodeId) return null;
+
+  const jobCode = await db.jobCode.findUnique({
+    where: { id: jobCodeId },
+    select: { isActive: true },
+  });
+
+  if (!jobCode || !jobCode.isActive) {
+    return 'Job code not found or inactive';
+  }
+
+  return null;
+}
+
+/**
+ * Open a new timeclock entry for a user
+ */
+export async function clockInUser(userId: string, options: PunchOptions = {}): Promise<PunchResult> {
+  const locationCheck = options.location ? await checkPunchLocation(userId, options.location) : { violation: null };
+  if ('error' in locationCheck) {
+    return locationCheck;
+  }
+
+  const violations: LocationViolation[] = locationCheck.violation
+    ? [{ punch: 'clock_in', message: locationCheck.violation }]
+    : [];
+
+  // Use transaction to prevent race condition between check and create
+  return prisma.$transaction(async (tx) => {
+    const jobCodeError = await validateJobCode(options.jobCodeId, tx);
+    if (jobCodeError) {
+      return { error: jobCodeError };
+    }
+
+    // Check if already clocked in
+    const openEntry = await tx.timeclockEntry.findFirst({
+      where: { userId, clockOut: null },
+    });
+
+    if (openEntry) {
+      return { error: 'Already clocked in' };
+    }
+
+    const clockIn = new Date();
+
+    // Late arrival / unscheduled shift
+    const schedule = await matchClockInToSchedule(userId, clockIn, tx);
+
+    // Create new entry
+    const entry = await tx.timeclockEntry.create({
+      data: {
+        userId,
+        clockIn,
+        clockInKioskId: options.kioskId || null,
+        jobCodeId: options.jobCodeId || null,
+        clockInIp: options.location?.ipAddress ?? null,
+        clockInLatitude: options.location?.latitude ?? null,
+        clockInLongitude: options.location?.longitude ?? null,
+        locationViolations: violations.length > 0 ? JSON.stringify(violations) : null,
+        ...schedule,
+      },
+    });
+
+    return { entry };
+  });
+}
+
+/**
+ * Close a user's open timeclock entry and run it through the rules engine
+ */
+export async function clockOutUser(userId: string, options: PunchOptions = {}): Promise<PunchResult> {
+  const now = new Date();
+
+  // Find active entry to calculate duration
+  const entry = await prisma.timeclockEntry.findFirst({
+    where: {
+      userId,
+      clockOut: null,
+    },
+  });
+
+  if (!entry) {
+    return { error: 'Not clocked in' };
+  }
+
+  const locationCheck = options.location ? await checkPunchLocation(userId, options.location) : { violation: null };
+  if ('error' in locationCheck) {
+    return locationCheck;
+  }
+
+  // A shift split by job code switches is judged on its full length
+  const shiftSeconds = entry.shiftStart
+    ? Math.floor((now.getTime() - entry.shiftStart.getTime()) / 1000)
+    : undefined;
+
+  return closeEntry(entry, now, {
+    kioskId: options.kioskId,
+    shiftSeconds,
+    location: options.location,
+    locationViolation: locationCheck.violation,
+  });
+}
+
+/**
+ * Move a clocked-in user onto another job code mid-shift. The open entry is
+ * closed at the switch time and a new entry is opened on the new job code.
+ */
+export async function switchJobCode(
+  userId: string,
+  jobCodeId: string | null,
+  options: Omit<PunchOptions, 'jobCodeId'> = {}
+): Promise<PunchResult> {
+  const now = new Date();
+
+  const entry = await prisma.timeclockEntry.findFirst({
+    where: { userId, clockOut: null },
+    include: { breaks: { where: { endedAt: null }, select: { id: true } } },
+  });
+
+  if (!entry) {
+    return { error: 'Not clocked in' };
+  }
+
+  if (entry.breaks.length > 0) {
+    return { error: 'End your break before switching jobs' };
+  }
+
+  const locationCheck = options.location ? await checkPunchLocation(userId, options.location) : { violation: null };
+  if ('error' in locationCheck) {
+    return locationCheck;
+  }
+
+  if ((entry.jobCodeId || null) === (jobCodeId || null)) {
+    return { error: 'Already on that job code' };
+  }
+
+  const jobCodeError = await validateJobCode(jobCodeId, prisma);
+  if (jobCodeError) {
+    return { error: jobCodeError };
+  }
+
+  const closed = await closeEntry(entry, now, {
+    kioskId: options.kioskId,
+    midShift: true,
+    location: options.location,
+    locationViolation: locationCheck.violation,
+    locationPunch: 'job_switch',
+  });
+  if ('error' in closed) {
+    return closed;
+  }
+
+  const next = await prisma.timeclockEntry.create({
+    data: {
+      userId,
+      clockIn: now,
+      clockInKioskId: options.kioskId || null,
+      jobCodeId: jobCodeId || null,
+      shiftStart: entry.shiftStart ?? entry.clockIn,
+      scheduledShiftId: entry.scheduledShiftId,
+      clockInIp: options.location?.ipAddress ?? null,
+      clockInLatitude: options.location?.latitude ?? null,
+      clockInLongitude: options.location?.longitude ?? null,
+      locationViolations: locationCheck.violation
+        ? addLocationViolation(null, { punch: 'job_switch', message: locationCheck.violation })
+        : null,
+    },
+  });
+
+  return { entry: next };
+}
+
+/**
+ * Run an entry's times through the break rules and the clock-out pipeline
+ */
+async function runRulesEngine(
+  entry: TimeclockEntry,
+  clockIn: Date,
+  clockOut: Date,
+  options: { midShift?: boolean; shiftSeconds?: number; outsidePunchArea?: boolean },
+  db: PrismaLike = prisma
+) {
+  const userId = entry.userId;
+  const rawDurationSeconds = Math.floor((clockOut.getTime() - clockIn.getTime()) / 1000);
+
+  // Breaks punched on this entry; one still running ends with the entry
+  const entryBreaks = await Promise.all(
+    (await db.timeclockBreak.findMany({ where: { entryId: entry.id } })).map((b) =>
+      b.endedAt ? b : closeBreak(b, clockOut, db)
+    )
+  );
+
+  // Breaks from earlier segments of a shift split by job code switches
+  const earlierBreaks = entry.shiftStart
+    ? await db.timeclockBreak.findMany({
+        where: {
+          entryId: { not: entry.id },
+          entry: {
+            userId,
+            OR: [{ shiftStart: entry.shiftStart }, { clockIn: entry.shiftStart }],
+          },
+        },
+      })
+    : [];
+  const shiftBreaks = [...earlierBreaks, ...entryBreaks];
+
+  // Break rules are checked once the whole shift is over
+  const violations = options.midShift
+    ? []
+    : checkBreakCompliance(entry.shiftStart ?? clockIn, clockOut, shiftBreaks, await getTimeclockRulesConfig());
+
+  // Process through rules engine: break deduction -> rounding -> min duration -> auto-approve
+  const result = await processClockOut(rawDurationSeconds, userId, {
+    midShift: options.midShift,
+    shiftSeconds: options.shiftSeconds,
+    unpaidBreakSeconds: shiftBreaks.length > 0 ? getUnpaidBreakSeconds(entryBreaks, clockOut) : undefined,
+    complianceFlag:
+      violations.length > 0 ? BREAK_VIOLATION_FLAG : options.outsidePunchArea ? PUNCH_LOCATION_FLAG : null,
+  });
+
+  return { result, violations };
+}
+
+/**
+ * Stamp the clock-out on an open entry with the rules engine's results
+ */
+async function closeEntry(
+  entry: TimeclockEntry,
+  now: Date,
+  options: {
+    kioskId?: string | null;
+    midShift?: boolean;
+    shiftSeconds?: number;
+    location?: PunchLocation;
+    locationViolation?: string | null;
+    // Which punch closed the entry, for the violation record
+    locationPunch?: LocationViolation['punch'];
+  }
+): Promise<PunchResult> {
+  const userId = entry.userId;
+
+  const locationViolations = parseLocationViolations(entry.locationViolations);
+  if (options.locationViolation) {
+    locationViolations.push({ punch: options.locationPunch ?? 'clock_out', message: options.locationViolation });
+  }
+
+  const { result, violations } = await runRulesEngine(entry, entry.clockIn, now, {
+    midShift: options.midShift,
+    shiftSeconds: options.shiftSeconds,
+    outsidePunchArea: locationViolations.length > 0,
+  });
+
+  // Early departure is judged when the whole shift is over
+  const scheduleVariances = options.midShift ? undefined : await matchClockOutToSchedule(entry, now);
+
+  // Build update data with processed values
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const updateData: any = {
+    clockOut: now,
+    clockOutKioskId: options.kioskId || null,
+    clockOutIp: options.location?.ipAddress ?? null,
+    clockOutLatitude: options.location?.latitude ?? null,
+    clockOutLongitude: options.location?.longitude ?? null,
+    locationViolations: locationViolations.length > 0 ? JSON.stringify(locationViolations) : null,
+    duration: result.finalDuration,
+    rawDuration: result.rawDuration,
+    breakDeducted: result.breakDeducted > 0 ? result.breakDeducted : null,
+    flagReason: result.flagReason,
+    breakViolations: violations.length > 0 ? JSON.stringify(violations) : null,
+    autoApproved: result.autoApproved,
+    status: result.status,
+    rejectedNote: result.rejectedNote,
+    updatedAt: now,
+  };
+
+  if (scheduleVariances !== undefined) {
+    updateData.scheduleVariances = scheduleVariances;
+  }
+
+  // If auto-approved, set approval fields
+  if (result.autoApproved) {
+    updateData.approvedAt = now;
+    updateData.approvedBy = 'system';
+    updateData.isLocked = true;
+  }
+
+  // Use updateMany to atomically update only entries with clockOut IS NULL
+  const updateResult = await prisma.timeclockEntry.updateMany({
+    where: { userId, clockOut: null },
+    data: updateData,
+  });
+
+  if (updateResult.count === 0) {
+    return { error: 'Not clocked in' };
+  }
+
+  // Fetch the updated entry for the response
+  const updated = await prisma.timeclockEntry.findUnique({
+    where: { id: entry.id },
+  });
+
+  // Audit log for auto-approve/auto-reject events
+  if (result.autoApproved) {
+    createAuditLog({
+      userId: 'system',
+      action: 'TIMECLOCK_ENTRY_AUTO_APPROVED',
+      entityType: 'TimeclockEntry',
+      entityId: entry.id,
+      changes: {
+        after: {
+          duration: result.finalDuration,
+          rawDuration: result.rawDuration,
+          breakDeducted: result.breakDeducted,
+          autoApproved: true,
+        },
+      },
+    });
+  } else if (result.status === 'rejected') {
+    createAuditLog({
+      userId: 'system',
+      action: 'TIMECLOCK_ENTRY_AUTO_REJECTED',
+      entityType: 'TimeclockEntry',
+      entityId: entry.id,
+      changes: {
+        after: {
+          duration: result.finalDuration,
+          flagReason: result.flagReason,
+          rejectedNote: result.rejectedNote,
+        },
+      },
+    });
+  }
+
+  return { entry: updated! };
+}
+
+/**
+ * Re-time an entry (e.g. from an approved correction) and run it back through
+ * the rules engine. The entry takes whatever status the rules give it, the
+ * same as at clock-out. Runs in the caller's transaction so the change it is
+ * part of is applied whole or not at all; the caller audits an auto-approval
+ * once that transaction commits.
+ */
+export async function reprocessEntry(
+  entry: TimeclockEntry,
+  clockIn: Date,
+  clockOut: Date,
+  editedBy: string,
+  tx: PrismaTransactionClient
+): Promise<TimeclockEntry> {
+  const now = new Date();
+  const shiftStart = entry.shiftStart ?? entry.clockIn;
+
+  // A later segment of the same job-code-split shift means this one closed mid-shift
+  const nextSegment = await tx.timeclockEntry.findFirst({
+    where: { userId: entry.userId, id: { not: entry.id }, shiftStart, clockIn: { gt: entry.clockIn } },
+    select: { id: true },
+  });
+  const midShift = !!nextSegment;
+
+  const { result, violations } = await runRulesEngine(
+    entry,
+    clockIn,
+    clockOut,
+    {
+      midShift,
+      shiftSeconds: entry.shiftStart
+        ? Math.floor((clockOut.getTime() - entry.shiftStart.getTime()) / 1000)
+        : undefined,
+      outsidePunchArea: !!entry.locationViolations,
+    },
+    tx
+  );
+
+  const updateData: Prisma.TimeclockEntryUpdateInput = {
+    clockIn,
+    clockOut,
+    duration: result.finalDuration,
+    rawDuration: result.rawDuration,
+    breakDeducted: result.breakDeducted > 0 ? result.breakDeducted : null,
+    flagReason: result.flagReason,
+    breakViolations: violations.length > 0 ? JSON.stringify(violations) : null,
+    autoApproved: result.autoApproved,
+    status: result.status,
+    rejectedNote: result.rejectedNote,
+    approvedAt: result.autoApproved ? now : null,
+    approvedBy: result.autoApproved ? 'system' : null,
+    isLocked: result.autoApproved,
+    lastEditedBy: editedBy,
+    lastEditedAt: now,
+  };
+
+  // An entry that was never closed gets its early departure check now
+  if (!entry.clockOut && !midShift) {
+    const scheduleVariances = await matchClockOutToSchedule(entry, clockOut, tx);
+    if (scheduleVariances !== undefined) {
+      updateData.scheduleVariances = scheduleVariances;
+    }
+  }
+
+  // Later segments of the shift follow a corrected first clock-in
+  if (!entry.shiftStart && clockIn.getTime() !== entry.clockIn.getTime()) {
+    await tx.timeclockEntry.updateMany({
+      where: { userId: entry.userId, shiftStart: entry.clockIn },
+      data: { shiftStart: clockIn },
+    });
+  }
+
+  return tx.timeclockEntry.update({ where: { id: entry.id }, data: updateData });
+}
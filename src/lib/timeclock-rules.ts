@@ -1,4 +1,5 @@
 import { prisma } from './prisma';
+import { getOvertimeConfigForUser } from './overtime-rules';
 import type { TimeclockRulesConfig, OvertimeConfig } from '@prisma/client';
 
 // In-memory cache for singleton config
@@ -118,7 +119,8 @@ export async function checkAutoApprove(
 
   // Check OT blocking
   if (config.autoApproveBlockOnOT) {
-    const otConfig = await prisma.overtimeConfig.findFirst();
+    // The employee's overtime rule set, if any, sets the daily threshold
+    const otConfig = await getOvertimeConfigForUser(userId, await prisma.overtimeConfig.findFirst());
     if (otConfig) {
       if (otConfig.dailyThreshold !== null) {
         const dailyThresholdSeconds = otConfig.dailyThreshold * 60;
@@ -178,10 +180,23 @@ export async function getMissedPunchEntries(departmentIds?: string[]) {
 /**
  * Composite function called from clock-out route.
  * Pipeline: break deduction -> rounding -> min duration check -> auto-approve check
+ *
+ * When a job code switch splits a shift, the closed segment is processed with
+ * midShift (no break deduction or minimum duration, the shift carries on) and
+ * the final segment passes the whole shift length as shiftSeconds.
+ *
+ * When the employee punched breaks, unpaidBreakSeconds replaces the automatic
+ * break deduction and complianceFlag carries any break rule violation.
  */
 export async function processClockOut(
   rawDurationSeconds: number,
   userId: string,
+  options: {
+    midShift?: boolean;
+    shiftSeconds?: number;
+    unpaidBreakSeconds?: number;
+    complianceFlag?: string | null;
+  } = {},
 ): Promise<{
   rawDuration: number;
   finalDuration: number;
@@ -193,8 +208,15 @@ export async function processClockOut(
 }> {
   const config = await getTimeclockRulesConfig();
 
-  // 1. Break deduction (on raw time)
-  const { deductedSeconds, adjustedDuration } = applyBreakDeduction(rawDurationSeconds, config);
+  // 1. Break deduction (on raw time, decided on the whole shift)
+  let shiftDeduction = 0;
+  if (options.unpaidBreakSeconds !== undefined) {
+    shiftDeduction = options.unpaidBreakSeconds;
+  } else if (!options.midShift) {
+    shiftDeduction = applyBreakDeduction(options.shiftSeconds ?? rawDurationSeconds, config).deductedSeconds;
+  }
+  const deductedSeconds = Math.min(shiftDeduction, rawDurationSeconds);
+  const adjustedDuration = rawDurationSeconds - deductedSeconds;
 
   // 2. Rounding (on post-break time)
   const finalDuration = applyRounding(adjustedDuration, config.roundingMode);
@@ -205,7 +227,7 @@ export async function processClockOut(
   let rejectedNote: string | null = null;
 
   const minCheck = checkMinDuration(finalDuration, config);
-  if (!minCheck.passed) {
+  if (!options.midShift && !minCheck.passed) {
     if (minCheck.action === 'reject') {
       status = 'rejected';
       rejectedNote = `Auto-rejected: duration (${Math.round(finalDuration / 60)}m) below minimum threshold (${Math.round(config.minDurationSeconds / 60)}m)`;
@@ -223,6 +245,10 @@ export async function processClockOut(
     }
   }
 
+  if (!flagReason && options.complianceFlag) {
+    flagReason = options.complianceFlag;
+  }
+
   // 4. Auto-approve check (skip if already flagged/rejected)
   let autoApproved = false;
   if (status === 'pending' && !flagReason) {
@@ -0,0 +1,215 @@
+import { prisma } from './prisma';
+import { hasPermission, type UserPermissions } from './check-permissions';
+import { getTimeclockRulesConfig } from './timeclock-rules';
+import type { PrismaClient, ScheduledShift } from '@prisma/client';
+
+type PrismaTransactionClient = Parameters<Parameters<PrismaClient['$transaction']>[0]>[0];
+type PrismaLike = PrismaClient | PrismaTransactionClient;
+
+export type ScheduleVarianceType = 'late_arrival' | 'early_departure' | 'unscheduled';
+
+export interface ScheduleVariance {
+  type: ScheduleVarianceType;
+  minutes: number; // How far off the schedule the punch was (0 for unscheduled)
+  message: string;
+}
+
+// How early before its start a clock-in is still matched to a shift
+export const SCHEDULE_MATCH_WINDOW_MINUTES = 120;
+
+type ShiftWindow = Pick<ScheduledShift, 'startsAt' | 'endsAt'>;
+
+/**
+ * Parse the scheduleVariances JSON stored on a timeclock entry
+ */
+export function parseScheduleVariances(value: string | null | undefined): ScheduleVariance[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Pick the scheduled shift a punch at `at` belongs to: the shift whose window
+ * (start minus the match window, up to its end) contains the punch, preferring
+ * the one starting closest to it.
+ */
+export function findScheduledShift<T extends ShiftWindow>(shifts: T[], at: Date): T | null {
+  const time = at.getTime();
+  const candidates = shifts.filter(
+    (shift) =>
+      time >= shift.startsAt.getTime() - SCHEDULE_MATCH_WINDOW_MINUTES * 60 * 1000 &&
+      time < shift.endsAt.getTime()
+  );
+
+  if (candidates.length === 0) return null;
+
+  return candidates.reduce((best, shift) =>
+    Math.abs(shift.startsAt.getTime() - time) < Math.abs(best.startsAt.getTime() - time) ? shift : best
+  );
+}
+
+/**
+ * Compare a clock-in against the shift it was matched to
+ */
+export function compareArrival(
+  clockIn: Date,
+  shift: ShiftWindow | null,
+  graceMinutes: number
+): ScheduleVariance[] {
+  if (!shift) {
+    return [{ type: 'unscheduled', minutes: 0, message: 'Clocked in without a scheduled shift' }];
+  }
+
+  const lateMinutes = Math.floor((clockIn.getTime() - shift.startsAt.getTime()) / 60000);
+  if (lateMinutes > graceMinutes) {
+    return [{ type: 'late_arrival', minutes: lateMinutes, message: `Clocked in ${lateMinutes} min late` }];
+  }
+
+  return [];
+}
+
+/**
+ * Compare a clock-out against the shift it was matched to
+ */
+export function compareDeparture(
+  clockOut: Date,
+  shift: ShiftWindow,
+  graceMinutes: number
+): ScheduleVariance[] {
+  const earlyMinutes = Math.floor((shift.endsAt.getTime() - clockOut.getTime()) / 60000);
+  if (earlyMinutes > graceMinutes) {
+    return [{ type: 'early_departure', minutes: earlyMinutes, message: `Clocked out ${earlyMinutes} min early` }];
+  }
+
+  return [];
+}
+
+/**
+ * Match a clock-in to the user's schedule. Returns the fields to store on the
+ * new entry, or null when schedule comparison is turned off.
+ *
+ * Clocking back in to a shift that was already started is not a late arrival,
+ * and clears the early departure recorded when the user clocked out of it.
+ */
+export async function matchClockInToSchedule(
+  userId: string,
+  clockIn: Date,
+  db: PrismaLike
+): Promise<{ scheduledShiftId: string | null; scheduleVariances: string | null } | null> {
+  const config = await getTimeclockRulesConfig();
+  if (!config.scheduleComparisonEnabled) return null;
+
+  const windowMs = SCHEDULE_MATCH_WINDOW_MINUTES * 60 * 1000;
+  const shifts = await db.scheduledShift.findMany({
+    where: {
+      userId,
+      startsAt: { lte: new Date(clockIn.getTime() + windowMs) },
+      endsAt: { gt: clockIn },
+    },
+  });
+  const shift = findScheduledShift(shifts, clockIn);
+
+  const earlierEntries = shift
+    ? await db.timeclockEntry.findMany({
+        where: { userId, scheduledShiftId: shift.id },
+        select: { id: true, scheduleVariances: true },
+      })
+    : [];
+
+  if (earlierEntries.length > 0) {
+    for (const earlier of earlierEntries) {
+      const variances = parseScheduleVariances(earlier.scheduleVariances);
+      const kept = variances.filter((v) => v.type !== 'early_departure');
+      if (kept.length !== variances.length) {
+        await db.timeclockEntry.update({
+          where: { id: earlier.id },
+          data: { scheduleVariances: kept.length > 0 ? JSON.stringify(kept) : null },
+        });
+      }
+    }
+
+    return { scheduledShiftId: shift!.id, scheduleVariances: null };
+  }
+
+  const variances = compareArrival(clockIn, shift, config.scheduleGraceMinutes);
+
+  return {
+    scheduledShiftId: shift?.id ?? null,
+    scheduleVariances: variances.length > 0 ? JSON.stringify(variances) : null,
+  };
+}
+
+/**
+ * Variances to store on an entry closed at the end of a shift: whatever was
+ * recorded at clock-in plus an early departure, if any. Returns undefined when
+ * there is nothing to change.
+ */
+export async function matchClockOutToSchedule(
+  entry: { scheduledShiftId: string | null; scheduleVariances: string | null },
+  clockOut: Date,
+  db: PrismaLike = prisma
+): Promise<string | null | undefined> {
+  if (!entry.scheduledShiftId) return undefined;
+
+  const config = await getTimeclockRulesConfig();
+  if (!config.scheduleComparisonEnabled) return undefined;
+
+  const shift = await db.scheduledShift.findUnique({ where: { id: entry.scheduledShiftId } });
+  if (!shift) return undefined;
+
+  const departure = compareDeparture(clockOut, shift, config.scheduleGraceMinutes);
+  if (departure.length === 0) return undefined;
+
+  return JSON.stringify([...parseScheduleVariances(entry.scheduleVariances), ...departure]);
+}
+
+/**
+ * Departments whose schedules a user may build: every department for
+ * timeclock admins and users who see all entries, otherwise the departments
+ * the user is assigned to manage. Returns null for "all departments".
+ */
+export async function getScheduleDepartmentIds(
+  userId: string,
+  permissions: UserPermissions
+): Promise<string[] | null> {
+  if (
+    hasPermission(permissions, 'timeclock', 'canManageConfig') ||
+    hasPermission(permissions, 'timeclock', 'canViewAllEntries')
+  ) {
+    return null;
+  }
+
+  if (!hasPermission(permissions, 'timeclock', 'canViewTeamEntries')) {
+    return [];
+  }
+
+  const assignments = await prisma.managerAssignment.findMany({
+    where: { userId },
+    select: { departmentId: true },
+  });
+
+  return assignments.map((a) => a.departmentId);
+}
+
+/**
+ * Another of the user's shifts overlapping the given times, if any
+ */
+export async function findOverlappingShift(
+  userId: string,
+  startsAt: Date,
+  endsAt: Date,
+  excludeId?: string
+): Promise<ScheduledShift | null> {
+  return prisma.scheduledShift.findFirst({
+    where: {
+      userId,
+      id: excludeId ? { not: excludeId } : undefined,
+      startsAt: { lt: endsAt },
+      endsAt: { gt: startsAt },
+    },
+  });
+}
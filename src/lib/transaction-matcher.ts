@@ -188,7 +188,7 @@ export async function findTransactionMatches(
           },
           {
             status: {
-              in: ['APPROVED', 'COMPLETED'],
+              in: ['APPROVED', 'PARTIALLY_RECEIVED', 'COMPLETED'],
             },
           },
           {
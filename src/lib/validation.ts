@@ -50,6 +50,104 @@ export const timeclockEditSchema = z.object({
   return true;
 }, { message: 'Clock out must be after clock in and within 24 hours' });
 
+const scheduledShiftFields = {
+  userId: z.string().min(1),
+  departmentId: z.string().min(1),
+  startsAt: z.string().datetime(),
+  endsAt: z.string().datetime(),
+  notes: z.string().max(500).optional(),
+};
+
+const isValidShiftLength = (data: { startsAt?: string; endsAt?: string }) => {
+  if (data.startsAt && data.endsAt) {
+    const diff = new Date(data.endsAt).getTime() - new Date(data.startsAt).getTime();
+    return diff > 0 && diff <= 24 * 60 * 60 * 1000; // max 24 hours
+  }
+  return true;
+};
+
+export const scheduledShiftSchema = z.object(scheduledShiftFields)
+  .refine(isValidShiftLength, { message: 'Shift must end after it starts and last at most 24 hours' });
+
+export const scheduledShiftUpdateSchema = z.object(scheduledShiftFields).partial()
+  .refine(isValidShiftLength, { message: 'Shift must end after it starts and last at most 24 hours' });
+
+export const ptoPolicySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  accrualMethod: z.enum(['PER_HOUR_WORKED', 'PER_PAY_PERIOD']),
+  accrualRate: z.number().min(0).max(100),
+  maxBalance: z.number().min(0).max(10000).nullable().optional(),
+  carryoverMax: z.number().min(0).max(10000).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const overtimeRuleSetSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  dailyThreshold: z.number().int().min(1).max(1440).nullable(),
+  dailyDoubleTimeThreshold: z.number().int().min(1).max(1440).nullable(),
+  weeklyThreshold: z.number().int().min(1).max(10080).nullable(),
+  seventhDayRule: z.boolean(),
+  isActive: z.boolean().optional(),
+});
+
+export const payrollProviderConfigSchema = z.object({
+  companyCode: z.string().trim().max(20).nullable(),
+  batchId: z.string().trim().regex(/^[A-Za-z0-9]*$/, 'Batch ID may only contain letters and digits').max(10).nullable(),
+  earningCodes: z.object({
+    regular: z.string().trim().max(31).optional(),
+    overtime: z.string().trim().max(31).optional(),
+    doubleTime: z.string().trim().max(31).optional(),
+    leave: z.string().trim().max(31).optional(),
+  }),
+});
+
+export const punchRestrictionSchema = z.object({
+  allowedNetworks: z.array(z.string().trim().min(1).max(64)).max(50),
+  workSites: z.array(
+    z.object({
+      name: z.string().trim().min(1).max(100),
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+      radiusMeters: z.number().int().min(10).max(50000),
+    })
+  ).max(50),
+  enforcement: z.enum(['block', 'flag']),
+  isActive: z.boolean(),
+});
+
+export const payRateSchema = z.object({
+  userId: z.string().min(1),
+  hourlyRate: z.number().positive().max(10000),
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Effective date must be YYYY-MM-DD'),
+  note: z.string().trim().max(200).optional().nullable(),
+});
+
+export const laborCostPostingSchema = z.object({
+  departmentId: z.string().min(1),
+  periodStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Period start must be YYYY-MM-DD'),
+  periodEnd: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Period end must be YYYY-MM-DD'),
+});
+
+export const ptoRequestSchema = z.object({
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime(),
+  hours: z.number().positive().max(1000),
+  reason: z.string().max(1000).optional(),
+}).refine(data => {
+  const diff = new Date(data.endDate).getTime() - new Date(data.startDate).getTime();
+  return diff >= 0 && diff <= 366 * 24 * 60 * 60 * 1000; // max 1 year
+}, { message: 'End date must be on or after start date and within 1 year' });
+
+export const timeclockCorrectionSchema = z.object({
+  type: z.enum(['missed_clock_out', 'wrong_clock_in', 'wrong_clock_out', 'add_shift']),
+  entryId: z.string().min(1).optional(),
+  requestedClockIn: z.string().datetime().optional(),
+  requestedClockOut: z.string().datetime().optional(),
+  reason: z.string().trim().min(1, 'A reason is required').max(1000),
+});
+
 export const budgetAmendmentSchema = z.object({
   amount: z.number().positive().finite(),
   reason: z.string().min(1).max(1000),
@@ -91,6 +189,63 @@ export const timeclockRulesConfigSchema = z.object({
   breakDeductionEnabled: z.boolean().optional(),
   breakDeductionMinutes: z.number().int().min(0).max(120).optional(),
   breakDeductionAfterHours: z.number().min(0).max(24).optional(),
+  mealBreakRequired: z.boolean().optional(),
+  mealBreakMinMinutes: z.number().int().min(1).max(120).optional(),
+  mealBreakBeforeHours: z.number().min(0.5).max(24).optional(),
+  restBreakRequired: z.boolean().optional(),
+  restBreakMinMinutes: z.number().int().min(1).max(60).optional(),
+  restBreakEveryHours: z.number().min(0.5).max(24).optional(),
+  scheduleComparisonEnabled: z.boolean().optional(),
+  scheduleGraceMinutes: z.number().int().min(0).max(120).optional(),
+});
+
+export const approvalChainStepSchema = z.object({
+  name: z.string().min(1).max(100),
+  minAmount: z.number().min(0).finite().default(0),
+  approverType: z.enum(['DEPARTMENT_MANAGER', 'ROLE', 'USER']),
+  approverRoleId: z.string().nullable().optional(),
+  approverUserId: z.string().nullable().optional(),
+}).refine(data => {
+  if (data.approverType === 'ROLE') return !!data.approverRoleId;
+  if (data.approverType === 'USER') return !!data.approverUserId;
+  return true;
+}, { message: 'Role and user steps must specify an approver' });
+
+export const approvalChainSchema = z.object({
+  name: z.string().min(1).max(200),
+  description: z.string().max(1000).nullable().optional(),
+  departmentId: z.string().nullable().optional(),
+  budgetCategoryId: z.string().nullable().optional(),
+  isActive: z.boolean().optional().default(true),
+  steps: z.array(approvalChainStepSchema).min(1).max(10),
+});
+
+export const poReceiveSchema = z.object({
+  lines: z.array(z.object({
+    lineItemId: z.string().min(1),
+    amount: z.number().positive().finite(),
+    quantity: z.number().positive().finite().nullable().optional(),
+  })).min(1).max(200),
+  note: z.string().max(1000).optional(),
+});
+
+export const poChangeOrderSchema = z.object({
+  reason: z.string().min(1).max(1000),
+  lineItems: z.array(z.object({
+    id: z.string().optional(),
+    description: z.string().trim().min(1).max(500),
+    amount: z.number().positive().finite(),
+    budgetItemId: z.string().min(1),
+  })).min(1).max(200),
+});
+
+export const poReleaseSchema = z.object({
+  lineItems: z.array(z.object({
+    description: z.string().trim().min(1).max(500),
+    amount: z.number().positive().finite(),
+    budgetItemId: z.string().min(1),
+  })).min(1).max(200),
+  note: z.string().max(1000).optional(),
 });
 
 export const payPeriodLockSchema = z.object({
@@ -98,6 +253,62 @@ export const payPeriodLockSchema = z.object({
   periodEnd: z.string().datetime(),
 });
 
+export const inboundEmailReviewSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('release'), userId: z.string().min(1, 'Choose who the receipts belong to') }),
+  z.object({ action: z.literal('discard') }),
+]);
+
+export const expenseReportSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  businessPurpose: z.string().trim().min(1, 'Business purpose is required').max(2000),
+  receipts: z.array(z.object({
+    id: z.string().min(1),
+    paymentMethod: z.enum(['personal', 'company_card']),
+  })).max(200).optional(),
+  entryIds: z.array(z.string().min(1)).max(200).optional(),
+});
+
+export const expenseEntrySchema = z.object({
+  type: z.enum(['mileage', 'per_diem']),
+  expenseDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be YYYY-MM-DD').optional().nullable(),
+  description: z.string().trim().max(500).optional().nullable(),
+  budgetCategoryId: z.string().optional().nullable(),
+  startLocation: z.string().trim().max(200).optional().nullable(),
+  endLocation: z.string().trim().max(200).optional().nullable(),
+  odometerStart: z.number().nonnegative().max(10000000).optional().nullable(),
+  odometerEnd: z.number().nonnegative().max(10000000).optional().nullable(),
+  distance: z.number().positive().max(100000).optional().nullable(),
+  location: z.string().trim().max(200).optional().nullable(),
+});
+
+export const expensePolicySchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(1000).nullable().optional(),
+  rule: z.enum(['receipt_cap', 'daily_limit', 'notes_required', 'banned_merchant', 'weekend', 'receipt_age']),
+  departmentId: z.string().nullable().optional(),
+  budgetCategoryId: z.string().nullable().optional(),
+  amount: z.number().min(0).finite().nullable().optional(),
+  maxDays: z.number().int().min(1).max(3650).nullable().optional(),
+  merchants: z.string().max(5000).nullable().optional(),
+  isActive: z.boolean().optional().default(true),
+}).refine(data => {
+  if (data.rule === 'receipt_cap' || data.rule === 'daily_limit' || data.rule === 'notes_required') {
+    return data.amount != null;
+  }
+  if (data.rule === 'receipt_age') return data.maxDays != null;
+  if (data.rule === 'banned_merchant') return !!data.merchants?.trim();
+  return true;
+}, { message: 'Amount, day or merchant rules must specify their limit' });
+
+export const expenseReportIdsSchema = z.object({
+  reportIds: z.array(z.string().min(1)).min(1).max(500),
+});
+
+export const receiptDuplicateResolutionSchema = z.object({
+  resolution: z.enum(['confirmed', 'dismissed']),
+});
+
 // Helper to parse and return validation errors
 export function parseWithErrors<T>(schema: z.ZodSchema<T>, data: unknown): { success: true; data: T } | { success: false; error: string } {
   const result = schema.safeParse(data);
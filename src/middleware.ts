@@ -174,6 +174,18 @@ export default auth(async (req) => {
     return NextResponse.next();
   }
 
+  // Registered kiosks punch without a user session; the kiosk routes check
+  // the device token themselves
+  if (pathname === '/clock' || pathname.startsWith('/api/timeclock/kiosk/') || pathname === '/api/timeclock/kiosk') {
+    return NextResponse.next();
+  }
+
+  // Scheduled mailbox polls authenticate with the receipt forwarding secret
+  // when there is no session; the route checks it
+  if (pathname === '/api/receipts/email/poll' && !req.auth) {
+    return NextResponse.next();
+  }
+
   // Normal auth flow for configured system
   const isLoggedIn = !!req.auth;
   const isAuthPage = pathname.startsWith("/auth");
@@ -190,5 +202,5 @@ export default auth(async (req) => {
 });
 
 export const config = {
-  matcher: ["/((?!_next/static|_next/image|favicon.ico|api/receipts/upload|api/purchase-orders/.*/upload-receipt|api/statements|api/admin/restore).*)"],
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|api/receipts/upload|api/purchase-orders/.*/upload-receipt|api/statements|api/admin/restore|api/receipts/email/inbound).*)"],
 };